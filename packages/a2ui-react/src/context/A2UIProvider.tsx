@@ -5,17 +5,14 @@
 
 import { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react'
 import { A2UITransport } from '@ainative/ai-kit-a2ui-core/transport'
+import { SurfaceStore } from '@ainative/ai-kit-a2ui-core/surface'
 import type {
   A2UIContextValue,
   A2UIProviderProps,
   Surface,
   SurfaceId,
   A2UIComponent,
-  CreateSurfaceMessage,
-  UpdateComponentsMessage,
-  UpdateDataModelMessage,
   TransportStatus,
-  DataModel,
 } from '../types/index.js'
 
 /**
@@ -58,6 +55,7 @@ export function A2UIProvider({
   const [surfaces, setSurfaces] = useState<Map<SurfaceId, Surface>>(new Map())
   const [isConnected, setIsConnected] = useState(false)
   const transportRef = useRef<A2UITransport | null>(null)
+  const storeRef = useRef<SurfaceStore>(new SurfaceStore())
   const isMountedRef = useRef(true)
 
   // Initialize transport
@@ -73,6 +71,7 @@ export function A2UIProvider({
     })
 
     transportRef.current = transport
+    const store = storeRef.current
 
     // Status change handler
     const handleStatusChange = (status: TransportStatus) => {
@@ -95,105 +94,16 @@ export function A2UIProvider({
       onError?.(error)
     }
 
-    // Create surface handler
-    const handleCreateSurface = (message: CreateSurfaceMessage) => {
+    // Surface messages are applied by the store
+    const detachStore = store.attach(transport)
+    const unsubscribeStore = store.subscribe(() => {
       if (!isMountedRef.current) return
-
-      setSurfaces((prev) => {
-        const next = new Map(prev)
-        next.set(message.surfaceId, {
-          surfaceId: message.surfaceId,
-          components: message.components,
-          dataModel: message.dataModel,
-        })
-        return next
-      })
-    }
-
-    // Update components handler
-    const handleUpdateComponents = (message: UpdateComponentsMessage) => {
-      if (!isMountedRef.current) return
-
-      setSurfaces((prev) => {
-        const surface = prev.get(message.surfaceId)
-        if (!surface) return prev
-
-        const next = new Map(prev)
-
-        // Apply component updates
-        const updatedComponents = surface.components.map((component) => {
-          const update = message.updates?.find((u) => u.id === component.id)
-          if (update && update.component) {
-            // Replace or merge component based on operation
-            if (update.operation === 'update') {
-              return {
-                ...component,
-                ...update.component,
-                properties: { ...component.properties, ...update.component.properties },
-              }
-            } else if (update.operation === 'add') {
-              return update.component
-            }
-          }
-          return component
-        }).filter((component) => {
-          // Remove components marked for removal
-          const update = message.updates?.find((u) => u.id === component.id)
-          return !update || update.operation !== 'remove'
-        })
-
-        next.set(message.surfaceId, {
-          ...surface,
-          components: updatedComponents,
-        })
-        return next
-      })
-    }
-
-    // Update data model handler
-    const handleUpdateDataModel = (message: UpdateDataModelMessage) => {
-      if (!isMountedRef.current) return
-
-      setSurfaces((prev) => {
-        const surface = prev.get(message.surfaceId)
-        if (!surface) return prev
-
-        const next = new Map(prev)
-        const updatedDataModel = { ...surface.dataModel } as DataModel
-
-        // Apply data updates using JSON pointer paths
-        if (message.updates) {
-          for (const update of message.updates) {
-            applyDataUpdate(updatedDataModel, update.path, update.value)
-          }
-        }
-
-        next.set(message.surfaceId, {
-          ...surface,
-          dataModel: updatedDataModel,
-        })
-        return next
-      })
-    }
-
-    // Delete surface handler
-    const handleDeleteSurface = (message: { surfaceId: SurfaceId }) => {
-      if (!isMountedRef.current) return
-
-      setSurfaces((prev) => {
-        const next = new Map(prev)
-        next.delete(message.surfaceId)
-        return next
-      })
-    }
+      setSurfaces(collectSurfaces(store))
+    })
 
     // Register event handlers
     transport.on('statusChange', handleStatusChange)
     transport.on('error', handleError)
-    transport.on('createSurface', handleCreateSurface)
-    transport.on('updateComponents', handleUpdateComponents)
-    transport.on('updateDataModel', handleUpdateDataModel)
-    transport.on('deleteSurface', handleDeleteSurface)
 
     // Auto-connect if specified
     if (autoConnect) {
@@ -209,10 +119,8 @@ export function A2UIProvider({
       isMountedRef.current = false
       transport.off('statusChange', handleStatusChange)
       transport.off('error', handleError)
-      transport.off('createSurface', handleCreateSurface)
-      transport.off('updateComponents', handleUpdateComponents)
-      transport.off('updateDataModel', handleUpdateDataModel)
-      transport.off('deleteSurface', handleDeleteSurface)
+      detachStore()
+      unsubscribeStore()
       transport.disconnect()
     }
   }, [url, options, autoConnect, onError, onConnect, onDisconnect])
@@ -235,51 +143,39 @@ export function A2UIProvider({
     [surfaces]
   )
 
+  // Apply a local data model change (e.g. from a bound input)
+  const updateDataModel = useCallback((surfaceId: SurfaceId, path: string, value: unknown) => {
+    storeRef.current.apply({
+      type: 'updateDataModel',
+      surfaceId,
+      updates: [{ path, operation: 'set', value }],
+    })
+  }, [])
+
   const contextValue: A2UIContextValue = {
     transport: transportRef.current!,
+    store: storeRef.current,
     surfaces,
     isConnected,
     getSurface,
     getComponent,
+    updateDataModel,
   }
 
   return <A2UIContext.Provider value={contextValue}>{children}</A2UIContext.Provider>
 }
 
 /**
- * Apply a data update using JSON pointer path
- * @param obj - Target object to update
- * @param path - JSON pointer path (e.g., "/user/name")
- * @param value - New value to set
+ * Build the surfaces map exposed through context from the store
+ * @param store - Surface store owned by the provider
  */
-function applyDataUpdate(obj: DataModel, path: string, value: unknown): void {
-  if (!path || path === '/') {
-    // Root update - merge values
-    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-      Object.assign(obj, value)
-    }
-    return
-  }
-
-  // Remove leading slash and split path
-  const parts = path.slice(1).split('/').filter((part) => part.length > 0)
-  if (parts.length === 0) return
-
-  let current: DataModel = obj
-
-  // Navigate to parent
-  for (let i = 0; i < parts.length - 1; i++) {
-    const part = parts[i]
-    if (!part) continue
-    if (!(part in current)) {
-      current[part] = {}
+function collectSurfaces(store: SurfaceStore): Map<SurfaceId, Surface> {
+  const next = new Map<SurfaceId, Surface>()
+  for (const surfaceId of store.getSurfaceIds()) {
+    const snapshot = store.getSurface(surfaceId)
+    if (snapshot) {
+      next.set(surfaceId, snapshot)
     }
-    current = current[part] as DataModel
-  }
-
-  // Set value at final key
-  const lastKey = parts[parts.length - 1]
-  if (lastKey) {
-    current[lastKey] = value
   }
+  return next
 }
@@ -13,7 +13,7 @@ import type { UseA2UIStateReturn, SurfaceId } from '../types/index.js'
  * @template T - Type of the value at the JSON pointer path
  * @param surfaceId - ID of the surface to read from
  * @param path - JSON pointer path (e.g., "/user/name" or "/items/0")
- * @returns Current value, loading state, and refresh function
+ * @returns Current value, loading state, refresh and setValue functions
  *
  * @example
  * ```tsx
@@ -25,7 +25,7 @@ export function useA2UIState<T = unknown>(
   surfaceId: SurfaceId,
   path: string
 ): UseA2UIStateReturn<T> {
-  const { surfaces, getSurface } = useA2UIContext()
+  const { surfaces, getSurface, updateDataModel } = useA2UIContext()
   const [value, setValue] = useState<T | undefined>(undefined)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
@@ -125,10 +125,25 @@ export function useA2UIState<T = unknown>(
     }
   }, [extractValue])
 
+  // Write a new value into the data model
+  const writeValue = useCallback(
+    (next: T) => {
+      try {
+        updateDataModel(surfaceId, path, next)
+      } catch (err) {
+        if (isMountedRef.current) {
+          setError(err instanceof Error ? err : new Error('Failed to update state'))
+        }
+      }
+    },
+    [surfaceId, path, updateDataModel]
+  )
+
   return {
     value,
     isLoading,
     error,
     refresh,
+    setValue: writeValue,
   }
 }
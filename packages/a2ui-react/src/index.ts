@@ -1,6 +1,9 @@
 // Export headless hooks
 export * from './hooks'
 
+// Export surface renderer
+export * from './renderer'
+
 // Export components (to be implemented)
 // export { A2UIChat } from './components/A2UIChat'
 // export { A2UIPopup } from './components/A2UIPopup'
@@ -0,0 +1,183 @@
+/**
+ * A2UISurface Component
+ * Renders an A2UI surface's component tree as React elements
+ */
+
+import { createContext, useContext, useMemo, useState, useCallback, useEffect } from 'react'
+import { ComponentRegistry } from '@ainative/ai-kit-a2ui-core/registry'
+import { SurfaceBindings } from '@ainative/ai-kit-a2ui-core/binding'
+import { useA2UIContext } from '../context/index.js'
+import { useA2UIState } from '../hooks/useA2UIState.js'
+import { useA2UIAction } from '../hooks/useA2UIAction.js'
+import { defaultComponents, UnknownComponent } from './defaultComponents.js'
+import type {
+  A2UIComponent,
+  A2UIComponentMap,
+  A2UIComponentRenderer,
+  A2UISurfaceProps,
+  SurfaceId,
+} from '../types/index.js'
+
+/**
+ * Shared state for every node of a rendered surface
+ */
+interface SurfaceRenderContextValue {
+  surfaceId: SurfaceId
+  componentsById: Map<string, A2UIComponent>
+  bindings: SurfaceBindings
+  componentMap: A2UIComponentMap
+  registry: ComponentRegistry
+  unknownComponent: A2UIComponentRenderer
+  executeAction: (componentId: string, event: string, data?: Record<string, unknown>) => void
+}
+
+const SurfaceRenderContext = createContext<SurfaceRenderContextValue | null>(null)
+
+const standardRegistry = ComponentRegistry.standard()
+
+/**
+ * Render an A2UI surface
+ *
+ * Components are looked up by `type` in the component map; entries passed
+ * through `components` override the defaults. Property values written as
+ * `{ $bind: '/pointer' }` or `{ $expr: 'cel expression' }` are resolved
+ * against the surface data model. Inputs with a `dataBinding` property read
+ * and write the data model, and interactions are sent to the agent as
+ * `userAction` messages.
+ *
+ * @example
+ * ```tsx
+ * <A2UIProvider url="wss://api.example.com/agent">
+ *   <A2UISurface
+ *     surfaceId="main"
+ *     components={{ button: MyButton }}
+ *     fallback={<Spinner />}
+ *   />
+ * </A2UIProvider>
+ * ```
+ */
+export function A2UISurface({
+  surfaceId,
+  components,
+  registry = standardRegistry,
+  rootId,
+  fallback = null,
+  unknownComponent = UnknownComponent,
+  className,
+}: A2UISurfaceProps): JSX.Element {
+  const { getSurface, store } = useA2UIContext()
+  const { executeAction } = useA2UIAction(surfaceId)
+  const surface = getSurface(surfaceId)
+
+  const componentsById = useMemo(
+    () => new Map((surface?.components ?? []).map((component) => [component.id, component])),
+    [surface]
+  )
+
+  const bindings = useMemo(() => new SurfaceBindings(store, surfaceId), [store, surfaceId])
+  useEffect(() => () => bindings.destroy(), [bindings])
+
+  const componentMap = useMemo(() => ({ ...defaultComponents, ...components }), [components])
+
+  const renderContext = useMemo<SurfaceRenderContextValue>(
+    () => ({
+      surfaceId,
+      componentsById,
+      bindings,
+      componentMap,
+      registry,
+      unknownComponent,
+      executeAction,
+    }),
+    [surfaceId, componentsById, bindings, componentMap, registry, unknownComponent, executeAction]
+  )
+
+  if (!surface) {
+    return <>{fallback}</>
+  }
+
+  const startId = rootId ?? store.getRootId(surfaceId)
+
+  return (
+    <div className={className} data-a2ui-surface={surfaceId}>
+      <SurfaceRenderContext.Provider value={renderContext}>
+        {startId !== null && componentsById.has(startId) && (
+          <A2UINode componentId={startId} ancestors={[]} />
+        )}
+      </SurfaceRenderContext.Provider>
+    </div>
+  )
+}
+
+/**
+ * Render a single component and its children
+ */
+function A2UINode({
+  componentId,
+  ancestors,
+}: {
+  componentId: string
+  ancestors: string[]
+}): JSX.Element | null {
+  const context = useContext(SurfaceRenderContext)!
+  const component = context.componentsById.get(componentId)!
+  const definition = context.registry.get(component.type)
+
+  // Resolved properties keep their identity until a bound path changes
+  const resolved = context.bindings.getProperties(componentId) ?? component.properties
+  const properties = useMemo(
+    () => ({ ...definition?.defaultProps, ...resolved }),
+    [definition, resolved]
+  )
+
+  const binding = typeof properties['dataBinding'] === 'string' ? properties['dataBinding'] : undefined
+  const bound = useA2UIState(context.surfaceId, binding ?? '')
+  const [localValue, setLocalValue] = useState<{ value: unknown } | null>(null)
+
+  const value = binding
+    ? bound.value
+    : localValue
+      ? localValue.value
+      : (properties['value'] ?? properties['checked'])
+
+  const onChange = useCallback(
+    (next: unknown) => {
+      if (binding) {
+        bound.setValue(next)
+      } else {
+        setLocalValue({ value: next })
+      }
+    },
+    [binding, bound]
+  )
+
+  const { executeAction } = context
+  const onAction = useCallback(
+    (action: string, data?: Record<string, unknown>) => {
+      executeAction(componentId, action, data)
+    },
+    [executeAction, componentId]
+  )
+
+  // Skip dangling references and cut cycles
+  const path = [...ancestors, componentId]
+  const childNodes = (component.children ?? [])
+    .filter((childId) => context.componentsById.has(childId) && !path.includes(childId))
+    .map((childId) => <A2UINode key={childId} componentId={childId} ancestors={path} />)
+
+  const Renderer = context.componentMap[component.type] ?? context.unknownComponent
+
+  return (
+    <Renderer
+      component={component}
+      surfaceId={context.surfaceId}
+      properties={properties}
+      childNodes={childNodes}
+      value={value}
+      onChange={onChange}
+      onAction={onAction}
+    >
+      {childNodes.length > 0 ? childNodes : undefined}
+    </Renderer>
+  )
+}
@@ -0,0 +1,424 @@
+/**
+ * Default React implementations for the standard A2UI component catalog
+ * Unstyled apart from layout; every element carries an `a2ui-<type>` class
+ * so apps can theme them with the design tokens.
+ */
+
+import { useState } from 'react'
+import type { CSSProperties } from 'react'
+import type { A2UIComponentMap, A2UIComponentProps } from '../types/index.js'
+
+const FLEX_ALIGN: Record<string, CSSProperties['alignItems']> = {
+  start: 'flex-start',
+  center: 'center',
+  end: 'flex-end',
+  stretch: 'stretch',
+}
+
+const FLEX_JUSTIFY: Record<string, CSSProperties['justifyContent']> = {
+  start: 'flex-start',
+  center: 'center',
+  end: 'flex-end',
+  between: 'space-between',
+  around: 'space-around',
+}
+
+function toCssSize(value: unknown): string | number | undefined {
+  return typeof value === 'number' || typeof value === 'string' ? value : undefined
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function Card({ component, properties, children }: A2UIComponentProps): JSX.Element {
+  const title = properties['title'] as string | undefined
+  const subtitle = properties['subtitle'] as string | undefined
+
+  return (
+    <section
+      className="a2ui-card"
+      data-a2ui-id={component.id}
+      style={{
+        padding: toCssSize(properties['padding']),
+        backgroundColor: properties['backgroundColor'] as string | undefined,
+        borderRadius: toCssSize(properties['borderRadius']),
+        boxShadow: properties['shadow'] ? '0 1px 3px rgba(0, 0, 0, 0.12)' : undefined,
+      }}
+    >
+      {title && <h3 className="a2ui-card-title">{title}</h3>}
+      {subtitle && <p className="a2ui-card-subtitle">{subtitle}</p>}
+      {children}
+    </section>
+  )
+}
+
+function Row({ component, properties, children }: A2UIComponentProps): JSX.Element {
+  return (
+    <div
+      className="a2ui-row"
+      data-a2ui-id={component.id}
+      style={{
+        display: 'flex',
+        flexDirection: 'row',
+        gap: toCssSize(properties['gap']),
+        alignItems: FLEX_ALIGN[properties['align'] as string],
+        justifyContent: FLEX_JUSTIFY[properties['justify'] as string],
+      }}
+    >
+      {children}
+    </div>
+  )
+}
+
+function Column({ component, properties, children }: A2UIComponentProps): JSX.Element {
+  return (
+    <div
+      className="a2ui-column"
+      data-a2ui-id={component.id}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: toCssSize(properties['gap']),
+        alignItems: FLEX_ALIGN[properties['align'] as string],
+      }}
+    >
+      {children}
+    </div>
+  )
+}
+
+function Modal({ component, properties, children, onAction }: A2UIComponentProps): JSX.Element | null {
+  if (!properties['open']) return null
+
+  const title = properties['title'] as string | undefined
+  const onClose = properties['onClose'] as string | undefined
+
+  return (
+    <div className="a2ui-modal" data-a2ui-id={component.id} role="dialog" aria-modal="true" aria-label={title}>
+      {title && <h2 className="a2ui-modal-title">{title}</h2>}
+      {children}
+      {onClose && (
+        <button type="button" className="a2ui-modal-close" aria-label="Close" onClick={() => onAction(onClose)}>
+          ×
+        </button>
+      )}
+    </div>
+  )
+}
+
+function Tabs({ component, properties, childNodes, onAction }: A2UIComponentProps): JSX.Element {
+  const tabs = (properties['tabs'] as Array<{ id: string; label: string }> | undefined) ?? []
+  const [activeTab, setActiveTab] = useState<string | undefined>(
+    (properties['activeTab'] as string | undefined) ?? tabs[0]?.id
+  )
+  const activeIndex = Math.max(
+    0,
+    tabs.findIndex((tab) => tab.id === activeTab)
+  )
+
+  return (
+    <div className="a2ui-tabs" data-a2ui-id={component.id}>
+      <div role="tablist">
+        {tabs.map((tab, index) => (
+          <button
+            key={tab.id}
+            type="button"
+            role="tab"
+            aria-selected={index === activeIndex}
+            onClick={() => {
+              setActiveTab(tab.id)
+              onAction('tabChange', { tabId: tab.id })
+            }}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+      <div role="tabpanel">{childNodes[activeIndex]}</div>
+    </div>
+  )
+}
+
+function List({ component, properties, childNodes }: A2UIComponentProps): JSX.Element {
+  const items = (properties['items'] as unknown[] | undefined) ?? []
+  const entries = childNodes.length > 0 ? childNodes : items.map(toText)
+
+  if (entries.length === 0) {
+    return (
+      <p className="a2ui-list-empty" data-a2ui-id={component.id}>
+        {properties['emptyMessage'] as string | undefined}
+      </p>
+    )
+  }
+
+  return (
+    <ul className="a2ui-list" data-a2ui-id={component.id}>
+      {entries.map((entry, index) => (
+        <li key={index}>{entry}</li>
+      ))}
+    </ul>
+  )
+}
+
+function Text({ component, properties, value }: A2UIComponentProps): JSX.Element {
+  const weight = properties['fontWeight'] as string | undefined
+
+  return (
+    <span
+      className="a2ui-text"
+      data-a2ui-id={component.id}
+      style={{
+        fontSize: toCssSize(properties['fontSize']),
+        fontWeight: weight === 'light' ? 300 : weight,
+        color: properties['color'] as string | undefined,
+        textAlign: properties['align'] as CSSProperties['textAlign'],
+      }}
+    >
+      {toText(value ?? properties['value'])}
+    </span>
+  )
+}
+
+function Button({ component, properties, onAction }: A2UIComponentProps): JSX.Element {
+  const variant = (properties['variant'] as string | undefined) ?? 'primary'
+  const size = (properties['size'] as string | undefined) ?? 'md'
+
+  return (
+    <button
+      type="button"
+      className={`a2ui-button a2ui-button-${variant} a2ui-button-${size}`}
+      data-a2ui-id={component.id}
+      disabled={Boolean(properties['disabled']) || Boolean(properties['loading'])}
+      aria-busy={Boolean(properties['loading']) || undefined}
+      onClick={() => onAction((properties['action'] as string | undefined) ?? 'click')}
+    >
+      {properties['label'] as string}
+    </button>
+  )
+}
+
+function TextField({ component, properties, value, onChange }: A2UIComponentProps): JSX.Element {
+  const error = properties['error'] as string | undefined
+  const inputId = `a2ui-${component.id}`
+
+  return (
+    <div className="a2ui-text-field" data-a2ui-id={component.id}>
+      {typeof properties['label'] === 'string' && <label htmlFor={inputId}>{properties['label']}</label>}
+      <input
+        id={inputId}
+        type={(properties['type'] as string | undefined) ?? 'text'}
+        placeholder={properties['placeholder'] as string | undefined}
+        required={Boolean(properties['required'])}
+        disabled={Boolean(properties['disabled'])}
+        aria-invalid={error ? true : undefined}
+        value={toText(value)}
+        onChange={(event) =>
+          onChange(properties['type'] === 'number' ? event.target.valueAsNumber : event.target.value)
+        }
+      />
+      {error && <span role="alert">{error}</span>}
+    </div>
+  )
+}
+
+function CheckBox({ component, properties, value, onChange }: A2UIComponentProps): JSX.Element {
+  return (
+    <label className="a2ui-check-box" data-a2ui-id={component.id}>
+      <input
+        type="checkbox"
+        checked={Boolean(value)}
+        disabled={Boolean(properties['disabled'])}
+        onChange={(event) => onChange(event.target.checked)}
+      />
+      {properties['label'] as string | undefined}
+    </label>
+  )
+}
+
+function Slider({ component, properties, value, onChange }: A2UIComponentProps): JSX.Element {
+  const inputId = `a2ui-${component.id}`
+
+  return (
+    <div className="a2ui-slider" data-a2ui-id={component.id}>
+      {typeof properties['label'] === 'string' && <label htmlFor={inputId}>{properties['label']}</label>}
+      <input
+        id={inputId}
+        type="range"
+        min={properties['min'] as number | undefined}
+        max={properties['max'] as number | undefined}
+        step={properties['step'] as number | undefined}
+        disabled={Boolean(properties['disabled'])}
+        value={typeof value === 'number' ? value : 0}
+        onChange={(event) => onChange(event.target.valueAsNumber)}
+      />
+    </div>
+  )
+}
+
+function ChoicePicker({ component, properties, value, onChange }: A2UIComponentProps): JSX.Element {
+  const options = (properties['options'] as Array<{ value: string; label: string }> | undefined) ?? []
+  const multiple = Boolean(properties['multiple'])
+  const inputId = `a2ui-${component.id}`
+
+  return (
+    <div className="a2ui-choice-picker" data-a2ui-id={component.id}>
+      {typeof properties['label'] === 'string' && <label htmlFor={inputId}>{properties['label']}</label>}
+      <select
+        id={inputId}
+        multiple={multiple}
+        disabled={Boolean(properties['disabled'])}
+        value={multiple ? (Array.isArray(value) ? (value as string[]) : []) : toText(value)}
+        onChange={(event) =>
+          onChange(
+            multiple
+              ? Array.from(event.target.selectedOptions, (option) => option.value)
+              : event.target.value
+          )
+        }
+      >
+        {!multiple && <option value="" />}
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
+
+function DateTimeInput({ component, properties, value, onChange }: A2UIComponentProps): JSX.Element {
+  const kind = (properties['type'] as string | undefined) ?? 'date'
+  const inputId = `a2ui-${component.id}`
+
+  return (
+    <div className="a2ui-date-time-input" data-a2ui-id={component.id}>
+      {typeof properties['label'] === 'string' && <label htmlFor={inputId}>{properties['label']}</label>}
+      <input
+        id={inputId}
+        type={kind === 'datetime' ? 'datetime-local' : kind}
+        min={properties['min'] as string | undefined}
+        max={properties['max'] as string | undefined}
+        disabled={Boolean(properties['disabled'])}
+        value={toText(value)}
+        onChange={(event) => onChange(event.target.value)}
+      />
+    </div>
+  )
+}
+
+function Image({ component, properties }: A2UIComponentProps): JSX.Element {
+  return (
+    <img
+      className="a2ui-image"
+      data-a2ui-id={component.id}
+      src={properties['src'] as string}
+      alt={(properties['alt'] as string | undefined) ?? ''}
+      width={toCssSize(properties['width'])}
+      height={toCssSize(properties['height'])}
+      style={{ objectFit: properties['objectFit'] as CSSProperties['objectFit'] }}
+    />
+  )
+}
+
+function Video({ component, properties }: A2UIComponentProps): JSX.Element {
+  return (
+    <video
+      className="a2ui-video"
+      data-a2ui-id={component.id}
+      src={properties['src'] as string}
+      poster={properties['poster'] as string | undefined}
+      controls={Boolean(properties['controls'])}
+      autoPlay={Boolean(properties['autoplay'])}
+      loop={Boolean(properties['loop'])}
+      muted={Boolean(properties['muted'])}
+    />
+  )
+}
+
+function AudioPlayer({ component, properties }: A2UIComponentProps): JSX.Element {
+  return (
+    <audio
+      className="a2ui-audio-player"
+      data-a2ui-id={component.id}
+      src={properties['src'] as string}
+      controls={Boolean(properties['controls'])}
+      autoPlay={Boolean(properties['autoplay'])}
+      loop={Boolean(properties['loop'])}
+    />
+  )
+}
+
+function Icon({ component, properties }: A2UIComponentProps): JSX.Element {
+  const name = properties['name'] as string
+
+  return (
+    <span
+      className={`a2ui-icon a2ui-icon-${name}`}
+      data-a2ui-id={component.id}
+      data-icon={name}
+      role="img"
+      aria-label={name}
+      style={{
+        fontSize: toCssSize(properties['size']),
+        color: properties['color'] as string | undefined,
+      }}
+    />
+  )
+}
+
+function Divider({ component, properties }: A2UIComponentProps): JSX.Element {
+  const vertical = properties['orientation'] === 'vertical'
+  const thickness = toCssSize(properties['thickness']) ?? 1
+  const color = (properties['color'] as string | undefined) ?? 'currentColor'
+
+  return (
+    <hr
+      className="a2ui-divider"
+      data-a2ui-id={component.id}
+      aria-orientation={vertical ? 'vertical' : 'horizontal'}
+      style={
+        vertical
+          ? { borderLeft: `${thickness}px solid ${color}`, alignSelf: 'stretch', margin: 0 }
+          : { borderTop: `${thickness}px solid ${color}`, width: '100%', margin: 0 }
+      }
+    />
+  )
+}
+
+/**
+ * Renderer used for component types that have no implementation
+ */
+export function UnknownComponent({ component, children }: A2UIComponentProps): JSX.Element {
+  return (
+    <div className="a2ui-unknown" data-a2ui-id={component.id} data-a2ui-type={component.type}>
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Default renderers for the standard component catalog
+ */
+export const defaultComponents: A2UIComponentMap = {
+  card: Card,
+  row: Row,
+  column: Column,
+  modal: Modal,
+  tabs: Tabs,
+  list: List,
+  text: Text,
+  button: Button,
+  textField: TextField,
+  checkBox: CheckBox,
+  slider: Slider,
+  choicePicker: ChoicePicker,
+  dateTimeInput: DateTimeInput,
+  image: Image,
+  video: Video,
+  audioPlayer: AudioPlayer,
+  icon: Icon,
+  divider: Divider,
+}
@@ -0,0 +1,13 @@
+/**
+ * A2UI React Renderer exports
+ */
+
+export { A2UISurface } from './A2UISurface.js'
+export { defaultComponents, UnknownComponent } from './defaultComponents.js'
+
+export type {
+  A2UISurfaceProps,
+  A2UIComponentProps,
+  A2UIComponentRenderer,
+  A2UIComponentMap,
+} from '../types/index.js'
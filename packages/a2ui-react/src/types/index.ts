@@ -35,6 +35,9 @@ import type {
   EventHandler,
 } from '@ainative/ai-kit-a2ui-core/transport'
 
+import type { SurfaceStore } from '@ainative/ai-kit-a2ui-core/surface'
+import type { ComponentRegistry } from '@ainative/ai-kit-a2ui-core/registry'
+
 // Re-export with proper names
 export type {
   CoreComponentType as ComponentType,
@@ -109,6 +112,10 @@ export interface A2UIContextValue {
   getSurface: (surfaceId: SurfaceId) => Surface | undefined
   /** Get a specific component */
   getComponent: (surfaceId: SurfaceId, componentId: string) => CoreA2UIComponent | undefined
+  /** Surface store that applies protocol messages */
+  store: SurfaceStore
+  /** Set a value in a surface data model (local change) */
+  updateDataModel: (surfaceId: SurfaceId, path: string, value: unknown) => void
 }
 
 /**
@@ -156,6 +163,8 @@ export interface UseA2UIStateReturn<T = unknown> {
   error: Error | null
   /** Manually refresh the value */
   refresh: () => void
+  /** Write a new value at the JSON pointer path */
+  setValue: (value: T) => void
 }
 
 /**
@@ -172,6 +181,58 @@ export interface UseA2UIActionReturn {
   clearError: () => void
 }
 
+/**
+ * Props passed to every component renderer
+ */
+export interface A2UIComponentProps<P extends Record<string, unknown> = Record<string, unknown>> {
+  /** Raw component definition */
+  component: CoreA2UIComponent
+  /** Surface the component belongs to */
+  surfaceId: SurfaceId
+  /** Registry default props merged with component properties */
+  properties: P
+  /** Rendered child components */
+  children?: React.ReactNode
+  /** Child components in declaration order (for containers that lay out children themselves) */
+  childNodes: React.ReactNode[]
+  /** Current value (bound data model value, or local value when unbound) */
+  value: unknown
+  /** Update the value (writes to the data model when bound) */
+  onChange: (value: unknown) => void
+  /** Emit a userAction for this component */
+  onAction: (action: string, context?: Record<string, unknown>) => void
+}
+
+/**
+ * Component renderer implementation
+ */
+export type A2UIComponentRenderer = React.ComponentType<A2UIComponentProps>
+
+/**
+ * Component renderers keyed by component type
+ */
+export type A2UIComponentMap = Partial<Record<string, A2UIComponentRenderer>>
+
+/**
+ * A2UISurface component props
+ */
+export interface A2UISurfaceProps {
+  /** Surface to render */
+  surfaceId: SurfaceId
+  /** Renderers that override or extend the default component map */
+  components?: A2UIComponentMap
+  /** Registry providing default props (defaults to ComponentRegistry.standard()) */
+  registry?: ComponentRegistry
+  /** Render a subtree starting at this component instead of the surface root */
+  rootId?: string
+  /** Rendered when the surface does not exist yet */
+  fallback?: React.ReactNode
+  /** Renderer for component types missing from the component map */
+  unknownComponent?: A2UIComponentRenderer
+  /** Optional className for the surface container */
+  className?: string
+}
+
 /**
  * Re-import A2UITransport from core
  */
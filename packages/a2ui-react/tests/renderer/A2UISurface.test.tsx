@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import { SurfaceStore } from '@ainative/ai-kit-a2ui-core/surface'
+import type { A2UITransport } from '@ainative/ai-kit-a2ui-core/transport'
+import type { CreateSurfaceMessage } from '@ainative/ai-kit-a2ui-core/types'
+import { A2UIContext } from '../../src/context/A2UIProvider'
+import { A2UISurface } from '../../src/renderer/A2UISurface'
+import type { A2UIComponentProps, A2UIContextValue } from '../../src/types'
+
+const surfaceMessage: CreateSurfaceMessage = {
+  type: 'createSurface',
+  surfaceId: 'main',
+  components: [
+    { id: 'root', type: 'column', children: ['title', 'name', 'agree', 'submit'] },
+    { id: 'title', type: 'text', properties: { value: 'Sign up' } },
+    { id: 'name', type: 'textField', properties: { label: 'Name', dataBinding: '/user/name' } },
+    { id: 'agree', type: 'checkBox', properties: { label: 'Agree' } },
+    { id: 'submit', type: 'button', properties: { label: 'Submit', action: 'submitForm' } },
+  ],
+  dataModel: { user: { name: 'Alice' } },
+}
+
+/**
+ * Minimal provider backed by a SurfaceStore, mirroring A2UIProvider
+ */
+function TestProvider({
+  store,
+  transport,
+  children,
+}: {
+  store: SurfaceStore
+  transport: A2UITransport
+  children: ReactNode
+}): JSX.Element {
+  const [version, setVersion] = useState(0)
+
+  const surfaces = new Map(
+    store.getSurfaceIds().map((id) => [id, store.getSurface(id)!] as const)
+  )
+
+  const value: A2UIContextValue = {
+    transport,
+    store,
+    surfaces,
+    isConnected: true,
+    getSurface: (surfaceId) => surfaces.get(surfaceId),
+    getComponent: (surfaceId, componentId) => store.getComponent(surfaceId, componentId),
+    updateDataModel: (surfaceId, path, next) => {
+      store.apply({
+        type: 'updateDataModel',
+        surfaceId,
+        updates: [{ path, operation: 'set', value: next }],
+      })
+      setVersion(version + 1)
+    },
+  }
+
+  return <A2UIContext.Provider value={value}>{children}</A2UIContext.Provider>
+}
+
+describe('A2UISurface', () => {
+  let store: SurfaceStore
+  let transport: A2UITransport
+  let send: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    store = new SurfaceStore()
+    store.apply(surfaceMessage)
+    send = vi.fn()
+    transport = { send } as unknown as A2UITransport
+  })
+
+  const renderSurface = (ui: ReactNode) =>
+    render(
+      <TestProvider store={store} transport={transport}>
+        {ui}
+      </TestProvider>
+    )
+
+  it('renders the component tree with default components', () => {
+    renderSurface(<A2UISurface surfaceId="main" />)
+
+    expect(screen.getByText('Sign up')).toBeInTheDocument()
+    expect(screen.getByLabelText('Name')).toHaveValue('Alice')
+    expect(screen.getByRole('button', { name: 'Submit' })).toBeInTheDocument()
+  })
+
+  it('renders the fallback for unknown surfaces', () => {
+    renderSurface(<A2UISurface surfaceId="missing" fallback={<span>Loading</span>} />)
+
+    expect(screen.getByText('Loading')).toBeInTheDocument()
+  })
+
+  it('writes bound inputs to the data model', () => {
+    renderSurface(<A2UISurface surfaceId="main" />)
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Bob' } })
+
+    expect(store.getData('main', '/user/name')).toBe('Bob')
+    expect(screen.getByLabelText('Name')).toHaveValue('Bob')
+  })
+
+  it('keeps local state for unbound inputs', () => {
+    renderSurface(<A2UISurface surfaceId="main" />)
+
+    const checkbox = screen.getByRole('checkbox', { name: 'Agree' })
+    fireEvent.click(checkbox)
+
+    expect(checkbox).toBeChecked()
+  })
+
+  it('emits userAction messages', () => {
+    renderSurface(<A2UISurface surfaceId="main" />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }))
+
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'userAction',
+        surfaceId: 'main',
+        componentId: 'submit',
+        action: 'submitForm',
+      })
+    )
+  })
+
+  it('lets apps override component types', () => {
+    function CustomButton({ properties, onAction }: A2UIComponentProps): JSX.Element {
+      return <a onClick={() => onAction('custom')}>{`Custom ${String(properties['label'])}`}</a>
+    }
+
+    renderSurface(<A2UISurface surfaceId="main" components={{ button: CustomButton }} />)
+
+    fireEvent.click(screen.getByText('Custom Submit'))
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ action: 'custom' }))
+  })
+
+  it('renders unknown component types with the unknown renderer', () => {
+    store.apply({
+      type: 'updateComponents',
+      surfaceId: 'main',
+      updates: [
+        { id: 'chart', operation: 'add', component: { id: 'chart', type: 'customChart' } },
+        {
+          id: 'root',
+          operation: 'update',
+          component: { id: 'root', type: 'column', children: ['title', 'chart'] },
+        },
+      ],
+    })
+
+    const { container } = renderSurface(<A2UISurface surfaceId="main" />)
+
+    expect(container.querySelector('[data-a2ui-type="customChart"]')).not.toBeNull()
+  })
+
+  it('skips dangling child references', () => {
+    store.apply({
+      type: 'updateComponents',
+      surfaceId: 'main',
+      updates: [{ id: 'title', operation: 'remove' }],
+    })
+
+    renderSurface(<A2UISurface surfaceId="main" />)
+
+    expect(screen.queryByText('Sign up')).toBeNull()
+    expect(screen.getByLabelText('Name')).toBeInTheDocument()
+  })
+
+  it('resolves $bind and $expr properties against the data model', () => {
+    store.apply({
+      type: 'updateComponents',
+      surfaceId: 'main',
+      updates: [
+        {
+          id: 'title',
+          operation: 'update',
+          component: {
+            id: 'title',
+            type: 'text',
+            properties: { value: { $expr: '"Welcome, " + user.name' } },
+          },
+        },
+        {
+          id: 'submit',
+          operation: 'update',
+          component: {
+            id: 'submit',
+            type: 'button',
+            properties: { label: { $bind: '/user/name' }, action: 'submitForm' },
+          },
+        },
+      ],
+    })
+
+    renderSurface(<A2UISurface surfaceId="main" />)
+    expect(screen.getByText('Welcome, Alice')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Bob' } })
+
+    expect(screen.getByText('Welcome, Bob')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Bob' })).toBeInTheDocument()
+  })
+})
@@ -1,8 +1,9 @@
 import type Anthropic from '@anthropic-ai/sdk'
 import { LLMAdapter } from './llm-adapter'
-import type { RuntimeContext, GenerationOptions, StreamOptions, ChatMessage, ActionResult } from '../types/runtime-types'
+import type { RuntimeContext, GenerationOptions, StreamOptions, ChatMessage, ActionResult, ToolCall, TurnEvent, TokenMetrics } from '../types/runtime-types'
 import type { Action } from '../actions/action-registry'
 import { LLMProviderError } from '../errors/runtime-errors'
+import { zodToJsonSchema } from '../schema/zod-to-json-schema'
 
 /**
  * Anthropic adapter configuration
@@ -14,6 +15,34 @@ export interface AnthropicConfig {
   defaultModel?: string
 }
 
+/**
+ * Message content block sent to the Messages API
+ */
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string }
+
+/**
+ * Message sent to the Messages API
+ */
+interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: string | AnthropicContentBlock[]
+}
+
+/**
+ * Streaming events relevant to text, tool use and usage
+ * (declared locally: the pinned SDK version predates tool use in its types)
+ */
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: { model?: string; usage?: { input_tokens: number; output_tokens: number } } }
+  | { type: 'message_delta'; usage?: { output_tokens: number } }
+  | { type: 'content_block_start'; index: number; content_block: { type: string; id?: string; name?: string } }
+  | { type: 'content_block_delta'; index: number; delta: { type: string; text?: string; partial_json?: string } }
+  | { type: 'content_block_stop'; index: number }
+  | { type: 'message_stop' }
+
 /**
  * Anthropic adapter for A2UI Runtime
  * Supports Claude 3.5 Sonnet, Claude 4 models with streaming
@@ -44,27 +73,82 @@ export class AnthropicAdapter extends LLMAdapter {
     context: RuntimeContext,
     options?: GenerationOptions
   ): AsyncIterator<string> {
+    for await (const event of this.generateTurn([{ role: 'user', content: prompt }], context, options)) {
+      if (event.type === 'text') {
+        yield event.text
+      }
+    }
+  }
+
+  async *generateTurn(
+    messages: ChatMessage[],
+    context: RuntimeContext,
+    options?: GenerationOptions
+  ): AsyncIterable<TurnEvent> {
     try {
+      // Anthropic has no JSON Schema response format; options.responseFormat is ignored
+      const system = [
+        options?.systemPrompt,
+        ...messages.filter(msg => msg.role === 'system').map(msg => msg.content),
+      ]
+        .filter(Boolean)
+        .join('\n\n')
+      const tools = this.convertActionsToTools(context.actions)
+
       const stream = await this.client.messages.create({
         model: options?.model || this.defaultModel,
         max_tokens: options?.maxTokens || 4096,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
+        messages: toAnthropicMessages(messages),
         temperature: options?.temperature,
         top_p: options?.topP,
         stop_sequences: options?.stopSequences,
         stream: true,
-      })
+        ...(system ? { system } : {}),
+        ...(tools.length > 0 ? { tools } : {}),
+      } as Anthropic.MessageCreateParamsStreaming)
 
-      for await (const event of stream) {
-        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-          yield this.parseResponse(event.delta.text)
+      // tool_use blocks stream their input as partial JSON until the block stops
+      const toolCalls = new Map<number, ToolCall>()
+
+      // Input tokens arrive with message_start, the running output count with message_delta
+      let usage: TokenMetrics | undefined
+      let model = options?.model || this.defaultModel
+
+      for await (const event of stream as AsyncIterable<AnthropicStreamEvent>) {
+        if (event.type === 'message_start' && event.message.usage) {
+          const { input_tokens, output_tokens } = event.message.usage
+          usage = { prompt: input_tokens, completion: output_tokens, total: input_tokens + output_tokens }
+          model = event.message.model || model
+        } else if (event.type === 'message_delta' && event.usage && usage) {
+          usage.completion = event.usage.output_tokens
+          usage.total = usage.prompt + usage.completion
+        } else if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+          toolCalls.set(event.index, {
+            id: event.content_block.id || '',
+            name: event.content_block.name || '',
+            arguments: '',
+          })
+        } else if (event.type === 'content_block_delta') {
+          if (event.delta.type === 'text_delta' && event.delta.text) {
+            yield { type: 'text', text: this.parseResponse(event.delta.text) }
+          } else if (event.delta.type === 'input_json_delta') {
+            const call = toolCalls.get(event.index)
+            if (call) {
+              call.arguments += event.delta.partial_json || ''
+            }
+          }
+        } else if (event.type === 'content_block_stop') {
+          const call = toolCalls.get(event.index)
+          if (call) {
+            toolCalls.delete(event.index)
+            yield { type: 'toolCall', toolCall: { ...call, arguments: call.arguments || '{}' } }
+          }
         }
       }
+
+      if (usage) {
+        yield { type: 'usage', usage, model }
+      }
     } catch (error) {
       if (error && typeof error === 'object' && 'status' in error) {
         throw new LLMProviderError(
@@ -140,17 +224,62 @@ export class AnthropicAdapter extends LLMAdapter {
     return Array.from(actions.values()).map(action => ({
       name: action.name,
       description: action.description,
-      input_schema: this.zodToJsonSchema(action.parameters),
+      input_schema: zodToJsonSchema(action.parameters),
     }))
   }
+}
+
+/**
+ * Convert runtime chat messages to Messages API messages
+ * System messages go to the `system` parameter; consecutive tool results
+ * are merged into one user message as the API requires.
+ */
+function toAnthropicMessages(messages: ChatMessage[]): AnthropicMessage[] {
+  const result: AnthropicMessage[] = []
+
+  for (const msg of messages) {
+    if (msg.role === 'system') continue
+
+    if (msg.role === 'assistant') {
+      const blocks: AnthropicContentBlock[] = []
+      if (msg.content) {
+        blocks.push({ type: 'text', text: msg.content })
+      }
+      for (const call of msg.toolCalls ?? []) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: parseToolInput(call.arguments) })
+      }
+      result.push({
+        role: 'assistant',
+        content: msg.toolCalls?.length ? blocks : msg.content || '',
+      })
+      continue
+    }
 
-  private zodToJsonSchema(schema: unknown): unknown {
-    // Simplified JSON schema conversion
-    // In production, use a proper zod-to-json-schema library
-    return {
-      type: 'object',
-      properties: {},
-      required: [],
+    if (msg.role === 'tool') {
+      const block: AnthropicContentBlock = {
+        type: 'tool_result',
+        tool_use_id: msg.toolCallId || '',
+        content: msg.content || '',
+      }
+      const previous = result[result.length - 1]
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block)
+      } else {
+        result.push({ role: 'user', content: [block] })
+      }
+      continue
     }
+
+    result.push({ role: 'user', content: msg.content || '' })
+  }
+
+  return result
+}
+
+function parseToolInput(args: string): unknown {
+  try {
+    return JSON.parse(args || '{}')
+  } catch {
+    return {}
   }
 }
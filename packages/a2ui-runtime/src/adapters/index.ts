@@ -1,5 +1,9 @@
 export { LLMAdapter } from './llm-adapter'
 export { AnthropicAdapter } from './anthropic-adapter'
 export { OpenAIAdapter } from './openai-adapter'
+export { OpenAICompatibleAdapter } from './openai-compatible-adapter'
+export { MockLLMAdapter, RecordingLLMAdapter } from './mock-adapter'
 export type { AnthropicConfig } from './anthropic-adapter'
 export type { OpenAIConfig } from './openai-adapter'
+export type { OpenAICompatibleConfig } from './openai-compatible-adapter'
+export type { MockLLMAdapterConfig, MockTurn, MockFailure, MockLLMCall } from './mock-adapter'
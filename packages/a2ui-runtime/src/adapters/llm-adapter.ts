@@ -1,4 +1,4 @@
-import type { RuntimeContext, GenerationOptions, StreamOptions, ChatMessage, ActionResult } from '../types/runtime-types'
+import type { RuntimeContext, GenerationOptions, StreamOptions, ChatMessage, ActionResult, TurnEvent } from '../types/runtime-types'
 import type { Action } from '../actions/action-registry'
 
 /**
@@ -17,6 +17,17 @@ export abstract class LLMAdapter {
     options?: GenerationOptions
   ): AsyncIterator<string>
 
+  /**
+   * Run one model turn over a conversation
+   * Streams text and the tool calls the model requested; the registered
+   * actions in `context` are offered as tools.
+   */
+  abstract generateTurn(
+    messages: ChatMessage[],
+    context: RuntimeContext,
+    options?: GenerationOptions
+  ): AsyncIterable<TurnEvent>
+
   /**
    * Execute an action
    */
@@ -0,0 +1,308 @@
+import { LLMAdapter } from './llm-adapter'
+import type {
+  RuntimeContext,
+  GenerationOptions,
+  StreamOptions,
+  ChatMessage,
+  ActionResult,
+  TurnEvent,
+} from '../types/runtime-types'
+import type { Action } from '../actions/action-registry'
+import { LLMProviderError, RuntimeError } from '../errors/runtime-errors'
+import { zodToJsonSchema } from '../schema/zod-to-json-schema'
+
+/**
+ * Scripted failure of a mock turn
+ */
+export interface MockFailure {
+  /** Error message */
+  message: string
+  /** HTTP-like status, reported on the LLMProviderError */
+  status?: number
+  /** Events emitted before failing (default: none) */
+  afterEvents?: number
+}
+
+/**
+ * One scripted model turn
+ * Either a recorded list of turn events, or a script with text chunks,
+ * tool calls and usage.
+ */
+export type MockTurn =
+  | TurnEvent[]
+  | {
+      /** Text chunks, emitted in order */
+      chunks?: string[]
+      /** Tool calls requested after the text; object arguments are JSON-encoded */
+      toolCalls?: Array<{ id?: string; name: string; arguments?: string | Record<string, unknown> }>
+      /** Token usage reported at the end of the turn */
+      usage?: { prompt: number; completion: number }
+      /** Fail the turn instead of completing it */
+      error?: MockFailure
+      /** Delay before each event in milliseconds, overriding the adapter's latency */
+      latencyMs?: number
+    }
+
+/**
+ * Mock adapter configuration
+ */
+export interface MockLLMAdapterConfig {
+  /** Turns replayed in order, one per generateTurn call */
+  turns: MockTurn[]
+  /** Delay before each event in milliseconds (default: 0) */
+  latencyMs?: number
+  /** Start again from the first turn once all turns are used (default: false) */
+  loop?: boolean
+  /** Provider identifier (default: 'mock') */
+  provider?: string
+  /** Model reported with usage (default: 'mock-model') */
+  model?: string
+}
+
+/**
+ * A call received by the mock adapter
+ */
+export interface MockLLMCall {
+  messages: ChatMessage[]
+  options?: GenerationOptions
+  /** Names of the tools offered */
+  tools: string[]
+}
+
+/**
+ * Deterministic LLM adapter that replays scripted or recorded turns
+ * Needs no network, so runtime tests and CI runs are reproducible.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new MockLLMAdapter({
+ *   turns: [
+ *     { toolCalls: [{ name: 'getOrders', arguments: { limit: 5 } }] },
+ *     { chunks: ['{"type":"createSurface",', '"surfaceId":"main","components":[]}'], usage: { prompt: 120, completion: 30 } },
+ *   ],
+ * })
+ * ```
+ */
+export class MockLLMAdapter extends LLMAdapter {
+  readonly provider: string
+  /** Every call received, for assertions */
+  readonly calls: MockLLMCall[] = []
+  private turns: MockTurn[]
+  private latencyMs: number
+  private loop: boolean
+  private model: string
+  private nextTurn = 0
+
+  constructor(config: MockLLMAdapterConfig) {
+    super()
+    this.turns = config.turns
+    this.latencyMs = config.latencyMs ?? 0
+    this.loop = config.loop ?? false
+    this.provider = config.provider ?? 'mock'
+    this.model = config.model ?? 'mock-model'
+  }
+
+  /**
+   * Replay turns recorded with RecordingLLMAdapter
+   */
+  static fromRecording(
+    turns: TurnEvent[][],
+    config: Omit<MockLLMAdapterConfig, 'turns'> = {}
+  ): MockLLMAdapter {
+    return new MockLLMAdapter({ ...config, turns })
+  }
+
+  /**
+   * Number of turns not yet replayed
+   */
+  get remainingTurns(): number {
+    return this.loop ? Infinity : this.turns.length - this.nextTurn
+  }
+
+  async *generateUI(
+    prompt: string,
+    context: RuntimeContext,
+    options?: GenerationOptions
+  ): AsyncIterator<string> {
+    for await (const event of this.generateTurn(
+      [{ role: 'user', content: prompt }],
+      context,
+      options
+    )) {
+      if (event.type === 'text') {
+        yield event.text
+      }
+    }
+  }
+
+  async *generateTurn(
+    messages: ChatMessage[],
+    context: RuntimeContext,
+    options?: GenerationOptions
+  ): AsyncIterable<TurnEvent> {
+    this.calls.push({ messages: [...messages], options, tools: Array.from(context.actions.keys()) })
+
+    const turn = this.takeTurn()
+    const script = Array.isArray(turn) ? { events: turn } : { events: this.toEvents(turn), ...turn }
+    const latencyMs = script.latencyMs ?? this.latencyMs
+    const failAt = script.error
+      ? Math.min(script.error.afterEvents ?? 0, script.events.length)
+      : Infinity
+
+    for (const [index, event] of script.events.entries()) {
+      if (index === failAt) break
+      await delay(latencyMs)
+      yield event
+    }
+
+    if (script.error) {
+      await delay(latencyMs)
+      throw new LLMProviderError(script.error.message, this.provider, script.error.status)
+    }
+  }
+
+  async executeAction(action: Action, parameters: Record<string, unknown>): Promise<ActionResult> {
+    const parseResult = action.parameters.safeParse(parameters)
+
+    if (!parseResult.success) {
+      return {
+        success: false,
+        error: parseResult.error.message,
+      }
+    }
+
+    return action.handler(parseResult.data)
+  }
+
+  async *streamResponse(messages: ChatMessage[], options?: StreamOptions): AsyncIterator<string> {
+    try {
+      for await (const event of this.generateTurn(
+        messages,
+        { requestId: 'mock', timestamp: new Date(), actions: new Map(), metadata: {} },
+        { model: options?.model }
+      )) {
+        if (event.type === 'text') {
+          options?.onChunk?.(event.text)
+          yield event.text
+        }
+      }
+      options?.onComplete?.()
+    } catch (error) {
+      options?.onError?.(error instanceof Error ? error : new Error('Unknown error'))
+      throw error
+    }
+  }
+
+  convertActionsToTools(actions: Map<string, Action>): unknown[] {
+    return Array.from(actions.values()).map((action) => ({
+      name: action.name,
+      description: action.description,
+      parameters: zodToJsonSchema(action.parameters),
+    }))
+  }
+
+  private takeTurn(): MockTurn {
+    if (this.loop && this.turns.length > 0) {
+      return this.turns[this.nextTurn++ % this.turns.length]
+    }
+
+    const turn = this.turns[this.nextTurn]
+    if (!turn) {
+      throw new RuntimeError(
+        `MockLLMAdapter has no scripted turn left (${this.turns.length} used)`,
+        'MOCK_SCRIPT_EXHAUSTED'
+      )
+    }
+    this.nextTurn++
+    return turn
+  }
+
+  private toEvents(turn: Exclude<MockTurn, TurnEvent[]>): TurnEvent[] {
+    const events: TurnEvent[] = (turn.chunks ?? []).map((text) => ({ type: 'text', text }))
+
+    turn.toolCalls?.forEach((call, index) => {
+      events.push({
+        type: 'toolCall',
+        toolCall: {
+          id: call.id ?? `call_${this.nextTurn}_${index}`,
+          name: call.name,
+          arguments:
+            typeof call.arguments === 'string'
+              ? call.arguments
+              : JSON.stringify(call.arguments ?? {}),
+        },
+      })
+    })
+
+    if (turn.usage) {
+      const { prompt, completion } = turn.usage
+      events.push({
+        type: 'usage',
+        usage: { prompt, completion, total: prompt + completion },
+        model: this.model,
+      })
+    }
+
+    return events
+  }
+}
+
+/**
+ * Adapter that records the turns of another adapter
+ * Save `turns` as a fixture and replay it with `MockLLMAdapter.fromRecording`.
+ */
+export class RecordingLLMAdapter extends LLMAdapter {
+  readonly provider: string
+  /** Events of every completed turn, in order */
+  readonly turns: TurnEvent[][] = []
+
+  constructor(private adapter: LLMAdapter) {
+    super()
+    this.provider = adapter.provider
+  }
+
+  async *generateUI(
+    prompt: string,
+    context: RuntimeContext,
+    options?: GenerationOptions
+  ): AsyncIterator<string> {
+    for await (const event of this.generateTurn(
+      [{ role: 'user', content: prompt }],
+      context,
+      options
+    )) {
+      if (event.type === 'text') {
+        yield event.text
+      }
+    }
+  }
+
+  async *generateTurn(
+    messages: ChatMessage[],
+    context: RuntimeContext,
+    options?: GenerationOptions
+  ): AsyncIterable<TurnEvent> {
+    const events: TurnEvent[] = []
+    for await (const event of this.adapter.generateTurn(messages, context, options)) {
+      events.push(event)
+      yield event
+    }
+    this.turns.push(events)
+  }
+
+  executeAction(action: Action, parameters: Record<string, unknown>): Promise<ActionResult> {
+    return this.adapter.executeAction(action, parameters)
+  }
+
+  streamResponse(messages: ChatMessage[], options?: StreamOptions): AsyncIterator<string> {
+    return this.adapter.streamResponse(messages, options)
+  }
+
+  convertActionsToTools(actions: Map<string, Action>): unknown[] {
+    return this.adapter.convertActionsToTools(actions)
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve()
+}
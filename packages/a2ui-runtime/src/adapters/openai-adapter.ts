@@ -1,8 +1,12 @@
 import type OpenAI from 'openai'
 import { LLMAdapter } from './llm-adapter'
-import type { RuntimeContext, GenerationOptions, StreamOptions, ChatMessage, ActionResult } from '../types/runtime-types'
+import type { RuntimeContext, GenerationOptions, StreamOptions, ChatMessage, ActionResult, ToolCall, TurnEvent, TokenMetrics } from '../types/runtime-types'
 import type { Action } from '../actions/action-registry'
 import { LLMProviderError } from '../errors/runtime-errors'
+import { zodToJsonSchema } from '../schema/zod-to-json-schema'
+
+const DEFAULT_SYSTEM_PROMPT =
+  'You are an A2UI component generator. Generate UI components in A2UI protocol format.'
 
 /**
  * OpenAI adapter configuration
@@ -21,7 +25,7 @@ export interface OpenAIConfig {
  * Supports GPT-4, GPT-4o, GPT-4o-mini models with streaming
  */
 export class OpenAIAdapter extends LLMAdapter {
-  readonly provider = 'openai'
+  readonly provider: string = 'openai'
   private client: OpenAI
   private defaultModel: string
 
@@ -47,40 +51,84 @@ export class OpenAIAdapter extends LLMAdapter {
     context: RuntimeContext,
     options?: GenerationOptions
   ): AsyncIterator<string> {
+    for await (const event of this.generateTurn([{ role: 'user', content: prompt }], context, options)) {
+      if (event.type === 'text') {
+        yield event.text
+      }
+    }
+  }
+
+  async *generateTurn(
+    messages: ChatMessage[],
+    context: RuntimeContext,
+    options?: GenerationOptions
+  ): AsyncIterable<TurnEvent> {
     try {
+      const tools = this.convertActionsToTools(context.actions) as OpenAI.Chat.Completions.ChatCompletionTool[]
       const stream = await this.client.chat.completions.create({
         model: options?.model || this.defaultModel,
         messages: [
-          {
-            role: 'system',
-            content: 'You are an A2UI component generator. Generate UI components in A2UI protocol format.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
+          { role: 'system', content: options?.systemPrompt ?? DEFAULT_SYSTEM_PROMPT },
+          ...messages.map(toOpenAIMessage),
         ],
         stream: true,
+        // The final chunk then carries token usage for the whole request
+        stream_options: { include_usage: true },
         temperature: options?.temperature,
         max_tokens: options?.maxTokens,
         top_p: options?.topP,
         frequency_penalty: options?.frequencyPenalty,
         presence_penalty: options?.presencePenalty,
         stop: options?.stopSequences,
-        tools: this.convertActionsToTools(context.actions) as OpenAI.Chat.Completions.ChatCompletionTool[],
+        tools: tools.length > 0 ? tools : undefined,
+        response_format: options?.responseFormat && {
+          type: 'json_schema',
+          json_schema: { name: options.responseFormat.name, schema: options.responseFormat.schema },
+        },
       })
 
+      // Tool calls arrive as deltas keyed by index: the first carries id and name,
+      // later ones append to the JSON arguments
+      const toolCalls = new Map<number, ToolCall>()
+      let usage: TokenMetrics | undefined
+      let model = options?.model || this.defaultModel
+
       for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content
-        if (content) {
-          yield this.parseResponse(content)
+        if (chunk.usage) {
+          usage = {
+            prompt: chunk.usage.prompt_tokens,
+            completion: chunk.usage.completion_tokens,
+            total: chunk.usage.total_tokens,
+          }
+          model = chunk.model || model
+        }
+
+        const delta = chunk.choices[0]?.delta
+        if (delta?.content) {
+          yield { type: 'text', text: this.parseResponse(delta.content) }
+        }
+
+        for (const toolDelta of delta?.tool_calls ?? []) {
+          const call = toolCalls.get(toolDelta.index) ?? { id: '', name: '', arguments: '' }
+          call.id = toolDelta.id ?? call.id
+          call.name += toolDelta.function?.name ?? ''
+          call.arguments += toolDelta.function?.arguments ?? ''
+          toolCalls.set(toolDelta.index, call)
         }
       }
+
+      for (const toolCall of toolCalls.values()) {
+        yield { type: 'toolCall', toolCall }
+      }
+
+      if (usage) {
+        yield { type: 'usage', usage, model }
+      }
     } catch (error) {
       if (error && typeof error === 'object' && 'status' in error) {
         throw new LLMProviderError(
           `OpenAI API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          'openai',
+          this.provider,
           typeof error.status === 'number' ? error.status : undefined
         )
       }
@@ -140,7 +188,7 @@ export class OpenAIAdapter extends LLMAdapter {
       }
       throw new LLMProviderError(
         `OpenAI streaming error: ${err.message}`,
-        'openai'
+        this.provider
       )
     }
   }
@@ -151,18 +199,45 @@ export class OpenAIAdapter extends LLMAdapter {
       function: {
         name: action.name,
         description: action.description,
-        parameters: this.zodToJsonSchema(action.parameters),
+        parameters: zodToJsonSchema(action.parameters),
       },
     }))
   }
+}
 
-  private zodToJsonSchema(schema: unknown): unknown {
-    // Simplified JSON schema conversion
-    // In production, use a proper zod-to-json-schema library
-    return {
-      type: 'object',
-      properties: {},
-      required: [],
-    }
+/**
+ * Convert a runtime chat message to the OpenAI message format
+ */
+function toOpenAIMessage(message: ChatMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls?.length
+          ? message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function' as const,
+              function: { name: call.name, arguments: call.arguments },
+            }))
+          : undefined,
+      }
+    case 'tool':
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCallId || '',
+        content: message.content || '',
+      }
+    case 'function':
+      return {
+        role: 'function',
+        name: message.name || '',
+        content: message.content,
+      }
+    default:
+      return {
+        role: message.role,
+        content: message.content || '',
+      }
   }
 }
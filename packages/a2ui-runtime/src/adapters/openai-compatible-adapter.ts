@@ -0,0 +1,148 @@
+import type OpenAI from 'openai'
+import { OpenAIAdapter } from './openai-adapter'
+
+/**
+ * OpenAI-compatible adapter configuration
+ */
+export interface OpenAICompatibleConfig {
+  /** Base URL of the API, e.g. `http://localhost:11434/v1` for Ollama */
+  baseUrl: string
+  /** Model served by the endpoint */
+  defaultModel: string
+  /** API key sent as a bearer token (most local servers need none) */
+  apiKey?: string
+  /** Extra request headers */
+  headers?: Record<string, string>
+  /** Time to wait for the response headers in milliseconds (default: 60000) */
+  timeout?: number
+  /** Provider identifier reported in metrics and errors (default: 'openai-compatible') */
+  provider?: string
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch
+}
+
+/**
+ * Adapter for any OpenAI-compatible chat completions endpoint
+ * (Ollama, vLLM, llama.cpp server, LM Studio, ...)
+ *
+ * Talks to the endpoint with fetch and server-sent events, so the OpenAI SDK
+ * is not needed. Tool calls, usage and structured output work as far as the
+ * server supports them.
+ */
+export class OpenAICompatibleAdapter extends OpenAIAdapter {
+  readonly provider: string
+
+  constructor(config: OpenAICompatibleConfig) {
+    super(
+      { apiKey: config.apiKey ?? '', defaultModel: config.defaultModel },
+      createFetchClient(config)
+    )
+    this.provider = config.provider ?? 'openai-compatible'
+  }
+}
+
+/**
+ * Error for a non-2xx response, shaped like the SDK's APIError
+ */
+class HttpStatusError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message)
+    this.name = 'HttpStatusError'
+  }
+}
+
+/**
+ * Minimal client with the one SDK call OpenAIAdapter makes:
+ * streaming `chat.completions.create`
+ */
+function createFetchClient(config: OpenAICompatibleConfig): OpenAI {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '')
+  const timeout = config.timeout ?? 60000
+
+  const create = async (body: Record<string, unknown>): Promise<AsyncIterable<unknown>> => {
+    const fetchImpl = config.fetch ?? fetch
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), timeout)
+
+    let response: Response
+    try {
+      response = await fetchImpl(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+          ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+          ...config.headers,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      })
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new HttpStatusError(`Request timeout after ${timeout}ms`, 408)
+      }
+      throw error
+    } finally {
+      clearTimeout(timeoutId)
+    }
+
+    if (!response.ok) {
+      throw new HttpStatusError(await errorMessage(response), response.status)
+    }
+    if (!response.body) {
+      throw new HttpStatusError('Response has no body', response.status)
+    }
+
+    return readEvents(response.body)
+  }
+
+  // Only chat.completions.create is used by OpenAIAdapter
+  return { chat: { completions: { create } } } as unknown as OpenAI
+}
+
+/**
+ * Parse the JSON `data:` events of a server-sent event stream
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      const lines = buffer.split(/\r?\n/)
+      buffer = done ? '' : (lines.pop() ?? '')
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue
+
+        const data = line.slice(5).trim()
+        if (data === '[DONE]') return
+        if (data) yield JSON.parse(data)
+      }
+
+      if (done) return
+    }
+  } finally {
+    // Closes the connection when the consumer stops early
+    await reader.cancel().catch(() => undefined)
+  }
+}
+
+async function errorMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '')
+  try {
+    const body = JSON.parse(text) as { error?: { message?: string } | string }
+    const message = typeof body.error === 'string' ? body.error : body.error?.message
+    if (message) return message
+  } catch {
+    // Not JSON
+  }
+  return text || `HTTP ${response.status}`
+}
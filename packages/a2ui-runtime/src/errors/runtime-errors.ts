@@ -53,3 +53,42 @@ export class ValidationError extends RuntimeError {
     this.name = 'ValidationError'
   }
 }
+
+/**
+ * Error for missing or rejected credentials
+ */
+export class AuthenticationError extends RuntimeError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'AUTHENTICATION_ERROR', details)
+    this.name = 'AuthenticationError'
+  }
+}
+
+/**
+ * Error for requests over a rate limit
+ */
+export class RateLimitError extends RuntimeError {
+  constructor(
+    message: string,
+    public key: string,
+    public retryAfterMs: number
+  ) {
+    super(message, 'RATE_LIMIT_EXCEEDED', { key, retryAfterMs })
+    this.name = 'RateLimitError'
+  }
+}
+
+/**
+ * Error for requests from a caller that has spent its budget
+ */
+export class BudgetExceededError extends RuntimeError {
+  constructor(
+    message: string,
+    public key: string,
+    public usage: { tokens: number; costUsd: number },
+    public resetsAt: Date
+  ) {
+    super(message, 'BUDGET_EXCEEDED', { key, usage, resetsAt })
+    this.name = 'BudgetExceededError'
+  }
+}
@@ -1,9 +1,31 @@
 export { AnthropicAdapter } from './adapters/anthropic-adapter'
 export { OpenAIAdapter } from './adapters/openai-adapter'
+export { OpenAICompatibleAdapter } from './adapters/openai-compatible-adapter'
+export { MockLLMAdapter, RecordingLLMAdapter } from './adapters/mock-adapter'
 export { LLMAdapter } from './adapters/llm-adapter'
 export type { AnthropicConfig } from './adapters/anthropic-adapter'
 export type { OpenAIConfig } from './adapters/openai-adapter'
-export type { RuntimeContext, GenerationOptions, StreamOptions, ChatMessage, ActionResult } from './types/runtime-types'
+export type { OpenAICompatibleConfig } from './adapters/openai-compatible-adapter'
+export type { MockLLMAdapterConfig, MockTurn, MockFailure, MockLLMCall } from './adapters/mock-adapter'
+export type { RuntimeContext, GenerationOptions, StreamOptions, ChatMessage, ActionResult, ToolCall, TurnEvent, TokenMetrics, ResponseMetrics, MetricsEvent, MetricsSink, A2UIMessage, OutputValidator, OutputValidationResult, OutputValidationError, StructuredOutputConfig, ResponseFormat, CatalogSelection, CatalogProvider, RuntimeUser } from './types/runtime-types'
+export { RuntimeSession, parseA2UIMessages } from './runtime/runtime-session'
+export type { SessionOptions, SessionTurnOptions, SessionState, SurfaceState, UserActionEvent, HistorySummarizer } from './runtime/runtime-session'
 export type { Action } from './actions/action-registry'
 export { ActionRegistry } from './actions/action-registry'
-export { LLMProviderError, ActionExecutionError, ValidationError, RuntimeError } from './errors/runtime-errors'
+export { LLMProviderError, ActionExecutionError, ValidationError, RuntimeError, AuthenticationError, RateLimitError, BudgetExceededError } from './errors/runtime-errors'
+export { composeMiddleware, runMiddleware, callerKey } from './middleware/middleware'
+export type { Middleware, MiddlewareHandler } from './middleware/middleware'
+export { apiKeyAuth, jwtAuth } from './middleware/auth'
+export type { ApiKeyAuthOptions, ApiKeyLookup, JwtAuthOptions, CredentialExtractor } from './middleware/auth'
+export { rateLimit } from './middleware/rate-limit'
+export type { RateLimitOptions } from './middleware/rate-limit'
+export { logging } from './middleware/logging'
+export type { LoggingOptions, RuntimeLogger } from './middleware/logging'
+export { promptSizeGuard, promptInjectionGuard, DEFAULT_INJECTION_PATTERNS } from './middleware/prompt-guard'
+export type { PromptSizeOptions, PromptInjectionOptions } from './middleware/prompt-guard'
+export { budget, MemoryBudgetStore } from './middleware/budget'
+export type { BudgetOptions, BudgetLimits, BudgetUsage, BudgetStore } from './middleware/budget'
+export { zodToJsonSchema } from './schema/zod-to-json-schema'
+export type { JsonSchema } from './schema/zod-to-json-schema'
+export { DEFAULT_PRICING, findModelPricing, calculateCost } from './metrics/pricing'
+export type { ModelPricing, PricingTable } from './metrics/pricing'
@@ -0,0 +1,73 @@
+import type { TokenMetrics } from '../types/runtime-types'
+
+/**
+ * Model pricing in USD per million tokens
+ */
+export interface ModelPricing {
+  /** Price per million prompt (input) tokens */
+  input: number
+  /** Price per million completion (output) tokens */
+  output: number
+}
+
+/**
+ * Pricing table keyed by model name or model family prefix
+ */
+export type PricingTable = Record<string, ModelPricing>
+
+/**
+ * List prices for the models the bundled adapters target
+ * Override or extend through `RuntimeConfig.pricing` when prices change or
+ * for negotiated rates.
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+}
+
+/**
+ * Find the pricing for a model
+ * Exact names win; otherwise the longest matching prefix is used, so dated
+ * snapshots like 'gpt-4o-2024-08-06' resolve to their family.
+ */
+export function findModelPricing(
+  model: string,
+  pricing: PricingTable = DEFAULT_PRICING
+): ModelPricing | undefined {
+  if (pricing[model]) {
+    return pricing[model]
+  }
+
+  const prefix = Object.keys(pricing)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return prefix ? pricing[prefix] : undefined
+}
+
+/**
+ * Compute the cost of a request in USD
+ * Returns undefined when the model has no known pricing.
+ */
+export function calculateCost(
+  model: string,
+  usage: TokenMetrics,
+  pricing: PricingTable = DEFAULT_PRICING
+): number | undefined {
+  const price = findModelPricing(model, pricing)
+  if (!price) {
+    return undefined
+  }
+
+  return (usage.prompt * price.input + usage.completion * price.output) / 1_000_000
+}
@@ -0,0 +1,232 @@
+import type { Middleware } from './middleware'
+import type { RuntimeContext, RuntimeUser } from '../types/runtime-types'
+import { AuthenticationError } from '../errors/runtime-errors'
+
+/**
+ * Reads the credential for a request from its context
+ */
+export type CredentialExtractor = (context: RuntimeContext) => string | undefined
+
+/**
+ * Looks up the user an API key belongs to
+ */
+export type ApiKeyLookup = (
+  key: string
+) => RuntimeUser | null | undefined | Promise<RuntimeUser | null | undefined>
+
+/**
+ * API key authentication options
+ */
+export interface ApiKeyAuthOptions {
+  /** Known keys and their users, or a lookup function */
+  keys: Record<string, RuntimeUser> | ApiKeyLookup
+  /** Credential location (default: `metadata.apiKey`, then `metadata.authorization`) */
+  getKey?: CredentialExtractor
+}
+
+/**
+ * JWT authentication options
+ * Provide `secret` for HS256/HS384/HS512 tokens, or `verify` for other
+ * algorithms.
+ */
+export interface JwtAuthOptions {
+  /** Shared secret for HMAC-signed tokens */
+  secret?: string
+  /** Custom verifier; resolves with the token claims or throws */
+  verify?: (token: string) => Promise<Record<string, unknown>>
+  /** Required `iss` claim */
+  issuer?: string
+  /** Required `aud` claim */
+  audience?: string
+  /** Allowed clock skew for `exp` and `nbf`, in seconds (default: 0) */
+  clockToleranceSec?: number
+  /** Credential location (default: `metadata.authorization`) */
+  getToken?: CredentialExtractor
+  /** Map claims to the runtime user (default: `sub`, `tenantId`/`tenant_id`, `roles`) */
+  toUser?: (claims: Record<string, unknown>) => RuntimeUser
+}
+
+const HMAC_HASHES: Record<string, string> = {
+  HS256: 'SHA-256',
+  HS384: 'SHA-384',
+  HS512: 'SHA-512',
+}
+
+/**
+ * Authenticate requests with an API key
+ * Sets `context.user` to the key's user.
+ */
+export function apiKeyAuth(options: ApiKeyAuthOptions): Middleware {
+  const { keys } = options
+  const getKey = options.getKey ?? (context => stringMetadata(context, 'apiKey') ?? bearerToken(context))
+  const lookup: ApiKeyLookup =
+    typeof keys === 'function'
+      ? keys
+      : key => (Object.prototype.hasOwnProperty.call(keys, key) ? keys[key] : undefined)
+
+  return async (context, next) => {
+    const key = getKey(context)
+    if (!key) {
+      throw new AuthenticationError('Missing API key')
+    }
+
+    const user = await lookup(key)
+    if (!user) {
+      throw new AuthenticationError('Invalid API key')
+    }
+
+    context.user = user
+    return next()
+  }
+}
+
+/**
+ * Authenticate requests with a JWT bearer token
+ * Checks the signature, `exp`, `nbf` and the configured issuer and audience,
+ * then sets `context.user` from the claims.
+ */
+export function jwtAuth(options: JwtAuthOptions): Middleware {
+  if (!options.secret && !options.verify) {
+    throw new Error('jwtAuth requires a secret or a verify function')
+  }
+
+  const getToken = options.getToken ?? bearerToken
+  const toUser = options.toUser ?? claimsToUser
+  const verify = options.verify ?? createHmacVerifier(options.secret!)
+
+  return async (context, next) => {
+    const token = getToken(context)
+    if (!token) {
+      throw new AuthenticationError('Missing bearer token')
+    }
+
+    let claims: Record<string, unknown>
+    try {
+      claims = await verify(token)
+    } catch (error) {
+      if (error instanceof AuthenticationError) throw error
+      throw new AuthenticationError('Invalid token', {
+        reason: error instanceof Error ? error.message : String(error),
+      })
+    }
+
+    checkClaims(claims, options)
+    context.user = toUser(claims)
+    return next()
+  }
+}
+
+/**
+ * Verify an HMAC-signed JWT with WebCrypto
+ */
+function createHmacVerifier(secret: string): (token: string) => Promise<Record<string, unknown>> {
+  const encoder = new TextEncoder()
+  const keys = new Map<string, ReturnType<typeof crypto.subtle.importKey>>()
+
+  const keyFor = (hash: string) => {
+    let key = keys.get(hash)
+    if (!key) {
+      key = crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash }, false, ['verify'])
+      keys.set(hash, key)
+    }
+    return key
+  }
+
+  return async token => {
+    const parts = token.split('.')
+    if (parts.length !== 3) {
+      throw new AuthenticationError('Malformed token')
+    }
+    const [header, payload, signature] = parts as [string, string, string]
+
+    const { alg } = decodeSegment(header)
+    const hash = typeof alg === 'string' ? HMAC_HASHES[alg] : undefined
+    if (!hash) {
+      throw new AuthenticationError(`Unsupported token algorithm: ${String(alg)}`)
+    }
+
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await keyFor(hash),
+      base64UrlDecode(signature),
+      encoder.encode(`${header}.${payload}`)
+    )
+    if (!valid) {
+      throw new AuthenticationError('Invalid token signature')
+    }
+
+    return decodeSegment(payload)
+  }
+}
+
+function checkClaims(claims: Record<string, unknown>, options: JwtAuthOptions): void {
+  const now = Date.now() / 1000
+  const tolerance = options.clockToleranceSec ?? 0
+  const { exp, nbf, iss, aud } = claims
+
+  if (typeof exp === 'number' && now - tolerance >= exp) {
+    throw new AuthenticationError('Token expired')
+  }
+  if (typeof nbf === 'number' && now + tolerance < nbf) {
+    throw new AuthenticationError('Token not yet valid')
+  }
+  if (options.issuer !== undefined && iss !== options.issuer) {
+    throw new AuthenticationError('Token issuer mismatch')
+  }
+  if (options.audience !== undefined) {
+    const audiences = Array.isArray(aud) ? aud : [aud]
+    if (!audiences.includes(options.audience)) {
+      throw new AuthenticationError('Token audience mismatch')
+    }
+  }
+}
+
+function claimsToUser(claims: Record<string, unknown>): RuntimeUser {
+  if (typeof claims.sub !== 'string') {
+    throw new AuthenticationError('Token has no subject')
+  }
+
+  const tenantId = claims.tenantId ?? claims.tenant_id
+  return {
+    id: claims.sub,
+    tenantId: typeof tenantId === 'string' ? tenantId : undefined,
+    roles: Array.isArray(claims.roles) ? claims.roles.filter((role): role is string => typeof role === 'string') : undefined,
+    claims,
+  }
+}
+
+/**
+ * `metadata.authorization` without its `Bearer ` prefix
+ */
+function bearerToken(context: RuntimeContext): string | undefined {
+  const header = stringMetadata(context, 'authorization')
+  const token = header?.replace(/^Bearer\s+/i, '').trim()
+  return token || undefined
+}
+
+function stringMetadata(context: RuntimeContext, key: string): string | undefined {
+  const value = context.metadata[key]
+  return typeof value === 'string' && value !== '' ? value : undefined
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    const decoded: unknown = JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)))
+    if (typeof decoded === 'object' && decoded !== null && !Array.isArray(decoded)) {
+      return decoded as Record<string, unknown>
+    }
+  } catch {
+    // Reported below
+  }
+  throw new AuthenticationError('Malformed token')
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
@@ -0,0 +1,116 @@
+import type { Middleware } from './middleware'
+import { callerKey } from './middleware'
+import type { RuntimeContext, RuntimeResponse } from '../types/runtime-types'
+import { BudgetExceededError } from '../errors/runtime-errors'
+
+/**
+ * Spending limits for one budget window
+ */
+export interface BudgetLimits {
+  /** Maximum total tokens */
+  tokens?: number
+  /** Maximum cost in USD */
+  costUsd?: number
+}
+
+/**
+ * Spend recorded in a budget window
+ */
+export interface BudgetUsage {
+  tokens: number
+  costUsd: number
+}
+
+/**
+ * Persists budget usage
+ * Implement this over a shared database or cache when several runtime
+ * instances enforce the same budgets.
+ */
+export interface BudgetStore {
+  /** Usage of a key in the window starting at `windowStart` */
+  get(key: string, windowStart: number): BudgetUsage | Promise<BudgetUsage>
+  /** Add usage for a key in the window starting at `windowStart` */
+  add(key: string, windowStart: number, usage: BudgetUsage): void | Promise<void>
+}
+
+/**
+ * Budget options
+ */
+export interface BudgetOptions {
+  /** Limits for every caller, or per caller (undefined means unlimited) */
+  limits: BudgetLimits | ((key: string, context: RuntimeContext) => BudgetLimits | undefined)
+  /** Budget window length in milliseconds (default: one day) */
+  windowMs?: number
+  /** Key spend is counted under (default: tenant, then user) */
+  key?: (context: RuntimeContext) => string
+  /** Usage store (default: in memory) */
+  store?: BudgetStore
+}
+
+/**
+ * In-memory budget store
+ * Keeps only the current window for each key.
+ */
+export class MemoryBudgetStore implements BudgetStore {
+  private usage: Map<string, { windowStart: number; usage: BudgetUsage }> = new Map()
+
+  get(key: string, windowStart: number): BudgetUsage {
+    const entry = this.usage.get(key)
+    return entry && entry.windowStart === windowStart ? { ...entry.usage } : { tokens: 0, costUsd: 0 }
+  }
+
+  add(key: string, windowStart: number, usage: BudgetUsage): void {
+    const current = this.get(key, windowStart)
+    this.usage.set(key, {
+      windowStart,
+      usage: { tokens: current.tokens + usage.tokens, costUsd: current.costUsd + usage.costUsd },
+    })
+  }
+}
+
+/**
+ * Enforce token and cost caps per caller
+ * Requests are refused once a caller has reached a limit in the current
+ * window; each request's usage is recorded after it completes, including
+ * requests that fail after generating. A request that starts under the
+ * limit may finish over it.
+ */
+export function budget(options: BudgetOptions): Middleware {
+  const windowMs = options.windowMs ?? 24 * 60 * 60 * 1000
+  const getKey = options.key ?? callerKey
+  const store = options.store ?? new MemoryBudgetStore()
+  const { limits } = options
+  const limitsFor = typeof limits === 'function' ? limits : () => limits
+
+  return async (context, next) => {
+    const key = getKey(context)
+    const caps = limitsFor(key, context)
+    if (!caps) {
+      return next()
+    }
+
+    const windowStart = Math.floor(Date.now() / windowMs) * windowMs
+    const usage = await store.get(key, windowStart)
+
+    if (
+      (caps.tokens !== undefined && usage.tokens >= caps.tokens) ||
+      (caps.costUsd !== undefined && usage.costUsd >= caps.costUsd)
+    ) {
+      throw new BudgetExceededError(`Budget exceeded for ${key}`, key, usage, new Date(windowStart + windowMs))
+    }
+
+    let response: RuntimeResponse | undefined
+    try {
+      response = await next()
+      return response
+    } finally {
+      const metrics = response?.metrics ?? context.metrics
+      if (metrics) {
+        await store.add(key, windowStart, {
+          tokens: metrics.tokensUsed.total,
+          costUsd: metrics.costUsd ?? 0,
+        })
+      }
+    }
+  }
+}
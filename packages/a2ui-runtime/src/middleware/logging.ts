@@ -0,0 +1,134 @@
+import type { Middleware } from './middleware'
+
+/**
+ * Structured logger the logging middleware writes to
+ */
+export interface RuntimeLogger {
+  info(message: string, fields: Record<string, unknown>): void
+  warn(message: string, fields: Record<string, unknown>): void
+  error(message: string, fields: Record<string, unknown>): void
+}
+
+/**
+ * Logging options
+ */
+export interface LoggingOptions {
+  /** Log destination (default: one JSON line per entry on the console) */
+  logger?: RuntimeLogger
+  /** Include the prompt in request entries (default: false) */
+  includePrompt?: boolean
+  /** Include the generated content in response entries (default: false) */
+  includeContent?: boolean
+  /** Extra metadata keys to mask, on top of the defaults */
+  redactKeys?: string[]
+  /** Extra patterns to mask in prompts and content, on top of the defaults */
+  redactPatterns?: RegExp[]
+}
+
+const REDACTED = '[REDACTED]'
+
+/**
+ * Metadata keys masked by default (compared case-insensitively, ignoring `-` and `_`)
+ */
+const DEFAULT_REDACT_KEYS = [
+  'authorization',
+  'apikey',
+  'password',
+  'secret',
+  'token',
+  'accesstoken',
+  'refreshtoken',
+  'cookie',
+]
+
+/**
+ * Secrets masked in free text by default
+ */
+const DEFAULT_REDACT_PATTERNS = [
+  /\b(?:sk|pk|rk)-[A-Za-z0-9_-]{16,}/g,
+  /\bBearer\s+[A-Za-z0-9._~+/-]+=*/gi,
+  /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+  /\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g,
+]
+
+const consoleLogger: RuntimeLogger = {
+  info: (message, fields) => console.log(JSON.stringify({ level: 'info', message, ...fields })),
+  warn: (message, fields) => console.warn(JSON.stringify({ level: 'warn', message, ...fields })),
+  error: (message, fields) => console.error(JSON.stringify({ level: 'error', message, ...fields })),
+}
+
+/**
+ * Log each request, its response and any error as structured entries
+ * Credentials in metadata and secrets in prompts and content are masked.
+ */
+export function logging(options: LoggingOptions = {}): Middleware {
+  const logger = options.logger ?? consoleLogger
+  const redactKeys = new Set([...DEFAULT_REDACT_KEYS, ...(options.redactKeys ?? [])].map(normalizeKey))
+  const patterns = [...DEFAULT_REDACT_PATTERNS, ...(options.redactPatterns ?? [])]
+
+  const redactText = (text: string) =>
+    patterns.reduce((result, pattern) => result.replace(pattern, REDACTED), text)
+
+  const redactValue = (value: unknown): unknown => {
+    if (typeof value === 'string') return redactText(value)
+    if (Array.isArray(value)) return value.map(redactValue)
+    if (typeof value !== 'object' || value === null) return value
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        redactKeys.has(normalizeKey(key)) ? REDACTED : redactValue(entry),
+      ])
+    )
+  }
+
+  return async (context, next) => {
+    const startTime = Date.now()
+    const base = {
+      requestId: context.requestId,
+      userId: context.user?.id,
+      tenantId: context.user?.tenantId,
+    }
+
+    logger.info('runtime.request', {
+      ...base,
+      metadata: redactValue(context.metadata),
+      ...(options.includePrompt && context.prompt !== undefined && { prompt: redactText(context.prompt) }),
+    })
+
+    try {
+      const response = await next()
+      const { metrics } = response
+
+      const entry = {
+        ...base,
+        status: response.status,
+        durationMs: Date.now() - startTime,
+        model: metrics.model,
+        tokens: metrics.tokensUsed.total,
+        costUsd: metrics.costUsd,
+        ...(response.repairAttempts !== undefined && { repairAttempts: response.repairAttempts }),
+        ...(options.includeContent && { content: redactText(response.content) }),
+      }
+      if (response.status === 'error') {
+        logger.error('runtime.response', entry)
+      } else {
+        logger.info('runtime.response', entry)
+      }
+
+      return response
+    } catch (error) {
+      logger.error('runtime.error', {
+        ...base,
+        durationMs: Date.now() - startTime,
+        code: error instanceof Error && 'code' in error ? (error as { code: unknown }).code : undefined,
+        error: error instanceof Error ? redactText(error.message) : String(error),
+      })
+      throw error
+    }
+  }
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, '')
+}
@@ -1,14 +1,26 @@
-import type { RuntimeContext } from '../types/runtime-types'
+import type { RuntimeContext, RuntimeResponse } from '../types/runtime-types'
+import { RuntimeError } from '../errors/runtime-errors'
 
 /**
  * Middleware function type
+ *
+ * `next()` runs the rest of the pipeline and the generation, and resolves
+ * with the response. Middleware can inspect or replace the response by
+ * returning one, or short-circuit by returning a response without calling
+ * `next()`. Returning nothing keeps the response from `next()`.
+ *
  * @param context - Runtime context
  * @param next - Function to call next middleware or final handler
  */
 export type Middleware = (
   context: RuntimeContext,
-  next: () => Promise<void>
-) => Promise<void>
+  next: () => Promise<RuntimeResponse>
+) => Promise<RuntimeResponse | void>
+
+/**
+ * Final handler of a middleware pipeline
+ */
+export type MiddlewareHandler = () => Promise<RuntimeResponse>
 
 /**
  * Compose multiple middleware functions into a single middleware
@@ -27,22 +39,65 @@ export function composeMiddleware(middleware: Middleware[]): Middleware {
   return async (context, next) => {
     let index = -1
 
-    const dispatch = async (i: number): Promise<void> => {
+    const dispatch = async (i: number): Promise<RuntimeResponse> => {
       if (i <= index) {
         throw new Error('next() called multiple times')
       }
 
       index = i
 
-      const fn = i === middleware.length ? next : middleware[i]
+      const fn = middleware[i]
 
       if (!fn) {
-        return
+        return next()
       }
 
-      await fn(context, () => dispatch(i + 1))
+      return runMiddleware(fn, context, () => dispatch(i + 1))
     }
 
-    await dispatch(0)
+    return dispatch(0)
+  }
+}
+
+/**
+ * Run a middleware and settle on the response it produced
+ * @throws RuntimeError when the middleware neither called `next()` nor returned a response
+ */
+export async function runMiddleware(
+  middleware: Middleware,
+  context: RuntimeContext,
+  next: MiddlewareHandler
+): Promise<RuntimeResponse> {
+  let downstream: RuntimeResponse | undefined
+
+  const returned = await middleware(context, async () => {
+    downstream = await next()
+    return downstream
+  })
+
+  const response = returned ?? downstream
+  if (!response) {
+    throw new RuntimeError(
+      'Middleware finished without calling next() or returning a response',
+      'MIDDLEWARE_NO_RESPONSE'
+    )
   }
+  return response
+}
+
+/**
+ * Identify the caller of a request
+ * Used to key rate limits and budgets: the tenant, then the user, then
+ * `tenantId`/`userId` metadata, falling back to `'anonymous'`.
+ */
+export function callerKey(context: RuntimeContext): string {
+  const { user, metadata } = context
+  const fromMetadata = metadata['tenantId'] ?? metadata['userId']
+
+  return (
+    user?.tenantId ??
+    user?.id ??
+    (typeof fromMetadata === 'string' ? fromMetadata : undefined) ??
+    'anonymous'
+  )
 }
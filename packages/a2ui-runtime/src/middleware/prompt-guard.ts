@@ -0,0 +1,95 @@
+import type { Middleware } from './middleware'
+import { ValidationError } from '../errors/runtime-errors'
+
+/**
+ * Prompt size guard options
+ */
+export interface PromptSizeOptions {
+  /** Maximum prompt length in characters */
+  maxChars?: number
+  /** Maximum estimated prompt tokens */
+  maxTokens?: number
+  /** Token estimate for a prompt (default: one token per 4 characters) */
+  estimateTokens?: (prompt: string) => number
+}
+
+/**
+ * Prompt injection guard options
+ */
+export interface PromptInjectionOptions {
+  /** Patterns that indicate an injection attempt (default: DEFAULT_INJECTION_PATTERNS) */
+  patterns?: RegExp[]
+  /**
+   * What to do on a match (default: 'reject')
+   * 'flag' lets the request through and records the matched patterns in
+   * `context.metadata.promptInjection`.
+   */
+  action?: 'reject' | 'flag'
+}
+
+/**
+ * Common phrasings of attempts to override the system prompt
+ */
+export const DEFAULT_INJECTION_PATTERNS: RegExp[] = [
+  /\b(?:ignore|forget|disregard|override)\s+(?:all\s+)?(?:of\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|earlier|system)\s+(?:instructions|prompts?|rules|messages)/i,
+  /\b(?:reveal|print|show|repeat|output)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+prompt|hidden\s+instructions|initial\s+instructions)/i,
+  /\byou\s+are\s+now\s+(?:in\s+)?(?:developer\s+mode|DAN|jailbroken|unrestricted)/i,
+  /<\/?\s*(?:system|assistant)\s*>/i,
+  /^\s*(?:system|assistant)\s*:/im,
+]
+
+/**
+ * Reject prompts over a character or estimated token limit
+ */
+export function promptSizeGuard(options: PromptSizeOptions): Middleware {
+  const estimateTokens = options.estimateTokens ?? ((prompt: string) => Math.ceil(prompt.length / 4))
+
+  return async (context, next) => {
+    const prompt = context.prompt ?? ''
+
+    if (options.maxChars !== undefined && prompt.length > options.maxChars) {
+      throw new ValidationError(
+        `Prompt is ${prompt.length} characters; the limit is ${options.maxChars}`,
+        'prompt',
+        { length: prompt.length, maxChars: options.maxChars }
+      )
+    }
+
+    if (options.maxTokens !== undefined) {
+      const tokens = estimateTokens(prompt)
+      if (tokens > options.maxTokens) {
+        throw new ValidationError(
+          `Prompt is about ${tokens} tokens; the limit is ${options.maxTokens}`,
+          'prompt',
+          { tokens, maxTokens: options.maxTokens }
+        )
+      }
+    }
+
+    return next()
+  }
+}
+
+/**
+ * Reject or flag prompts that try to override the system instructions
+ * Pattern matching catches common attempts only; treat it as one layer of
+ * defence, not a guarantee.
+ */
+export function promptInjectionGuard(options: PromptInjectionOptions = {}): Middleware {
+  const patterns = options.patterns ?? DEFAULT_INJECTION_PATTERNS
+  const action = options.action ?? 'reject'
+
+  return async (context, next) => {
+    const prompt = context.prompt ?? ''
+    const matched = patterns.filter(pattern => pattern.test(prompt)).map(pattern => pattern.source)
+
+    if (matched.length > 0) {
+      if (action === 'reject') {
+        throw new ValidationError('Prompt looks like a prompt injection attempt', 'prompt', { patterns: matched })
+      }
+      context.metadata['promptInjection'] = { patterns: matched }
+    }
+
+    return next()
+  }
+}
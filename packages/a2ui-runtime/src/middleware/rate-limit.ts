@@ -0,0 +1,71 @@
+import type { Middleware } from './middleware'
+import { callerKey } from './middleware'
+import type { RuntimeContext } from '../types/runtime-types'
+import { RateLimitError } from '../errors/runtime-errors'
+
+/**
+ * Rate limit options
+ */
+export interface RateLimitOptions {
+  /** Bucket size: requests allowed in a burst */
+  capacity: number
+  /** Requests added back to the bucket per second */
+  refillPerSecond: number
+  /** Key requests are counted under (default: tenant, then user) */
+  key?: (context: RuntimeContext) => string
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+/**
+ * Buckets tracked before full ones are dropped
+ */
+const MAX_IDLE_BUCKETS = 10000
+
+/**
+ * Limit request rates with a token bucket per caller
+ * Rejects with RateLimitError, whose `retryAfterMs` says when the next
+ * request will be accepted.
+ */
+export function rateLimit(options: RateLimitOptions): Middleware {
+  const { capacity, refillPerSecond } = options
+  if (capacity < 1 || refillPerSecond <= 0) {
+    throw new Error('rateLimit requires capacity >= 1 and refillPerSecond > 0')
+  }
+
+  const getKey = options.key ?? callerKey
+  const buckets = new Map<string, Bucket>()
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond)
+    bucket.updatedAt = now
+  }
+
+  return async (context, next) => {
+    const key = getKey(context)
+    const now = Date.now()
+
+    // A full bucket is the same as no bucket
+    if (buckets.size > MAX_IDLE_BUCKETS) {
+      buckets.forEach((bucket, bucketKey) => {
+        refill(bucket, now)
+        if (bucket.tokens >= capacity) buckets.delete(bucketKey)
+      })
+    }
+
+    const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now }
+    refill(bucket, now)
+    buckets.set(key, bucket)
+
+    if (bucket.tokens < 1) {
+      const retryAfterMs = Math.ceil(((1 - bucket.tokens) / refillPerSecond) * 1000)
+      throw new RateLimitError(`Rate limit exceeded for ${key}`, key, retryAfterMs)
+    }
+
+    bucket.tokens -= 1
+    return next()
+  }
+}
@@ -1,9 +1,28 @@
 import type { LLMAdapter } from '../adapters/llm-adapter'
-import type { Middleware } from '../middleware/middleware'
-import { composeMiddleware } from '../middleware/middleware'
+import type { Middleware, MiddlewareHandler } from '../middleware/middleware'
+import { composeMiddleware, runMiddleware } from '../middleware/middleware'
 import type { Action } from '../actions/action-registry'
 import { ActionRegistry } from '../actions/action-registry'
-import type { RuntimeRequest, RuntimeResponse, RuntimeContext } from '../types/runtime-types'
+import type {
+  RuntimeRequest,
+  RuntimeResponse,
+  RuntimeContext,
+  ChatMessage,
+  ToolCall,
+  TokenMetrics,
+  ResponseMetrics,
+  MetricsSink,
+  A2UIMessage,
+  OutputValidationError,
+  StructuredOutputConfig,
+  CatalogProvider,
+  GenerationOptions,
+} from '../types/runtime-types'
+import { RuntimeError } from '../errors/runtime-errors'
+import type { SessionOptions, SessionState } from './runtime-session'
+import { RuntimeSession } from './runtime-session'
+import type { PricingTable } from '../metrics/pricing'
+import { DEFAULT_PRICING, calculateCost } from '../metrics/pricing'
 
 /**
  * Runtime configuration
@@ -15,6 +34,32 @@ export interface RuntimeConfig {
   middleware?: Middleware[]
   /** Actions to register */
   actions?: Action[]
+  /** Max model turns that may request tool calls per request (default: 5) */
+  maxToolRounds?: number
+  /** Model prices, merged over DEFAULT_PRICING */
+  pricing?: PricingTable
+  /** Receives metrics for every processed or streamed request */
+  metricsSink?: MetricsSink
+  /**
+   * Validate generated UI in process() and ask the model to repair invalid output
+   * stream() still yields raw text.
+   */
+  structuredOutput?: StructuredOutputConfig
+  /**
+   * Component catalog used for the system prompt and response schema
+   * Built per request, so components registered later are included.
+   */
+  catalog?: CatalogProvider
+}
+
+/**
+ * Measurements collected while generating one response
+ */
+interface GenerationStats {
+  startTime: number
+  firstTokenTime?: number
+  usage: TokenMetrics
+  model?: string
 }
 
 /**
@@ -25,10 +70,20 @@ export class A2UIRuntime {
   private adapter: LLMAdapter
   private middleware: Middleware
   private actionRegistry: ActionRegistry
+  private maxToolRounds: number
+  private pricing: PricingTable
+  private metricsSink?: MetricsSink
+  private structuredOutput?: StructuredOutputConfig
+  private catalog?: CatalogProvider
 
   constructor(config: RuntimeConfig) {
     this.adapter = config.adapter
     this.actionRegistry = new ActionRegistry()
+    this.maxToolRounds = config.maxToolRounds ?? 5
+    this.pricing = { ...DEFAULT_PRICING, ...config.pricing }
+    this.metricsSink = config.metricsSink
+    this.structuredOutput = config.structuredOutput
+    this.catalog = config.catalog
 
     // Register actions
     if (config.actions) {
@@ -45,42 +100,32 @@ export class A2UIRuntime {
    * @returns Runtime response
    */
   async process(request: RuntimeRequest): Promise<RuntimeResponse> {
-    const startTime = Date.now()
+    const stats = this.createStats()
 
     try {
-      // Execute middleware pipeline
-      await this.middleware(request.context, async () => {})
-
-      // Generate UI using adapter
-      const chunks: string[] = []
-      for await (const chunk of this.adapter.generateUI(
-        request.prompt,
-        request.context,
-        request.options
-      )) {
-        chunks.push(chunk)
-      }
+      // Execute middleware pipeline around generation
+      const response = await this.runPipeline(request, stats, async () => {
+        // Generate UI using adapter, running any tool calls along the way
+        const conversation = this.conversationOf(request)
+        const content = await this.collect(this.generate(conversation, request, stats))
+        const structured = this.structuredOutput
+          ? await this.validateOutput(content, conversation, request, stats)
+          : undefined
 
-      const content = chunks.join('')
-      const latencyMs = Date.now() - startTime
+        return {
+          ...this.successResponse(request, structured?.content ?? content, stats),
+          ...(structured && {
+            messages: structured.messages,
+            repairAttempts: structured.repairAttempts,
+          }),
+        }
+      })
 
-      return {
-        requestId: request.context.requestId,
-        content,
-        status: 'success',
-        timestamp: new Date(),
-        metrics: {
-          tokensUsed: {
-            prompt: 0, // Would be populated by adapter
-            completion: 0,
-            total: 0,
-          },
-          latencyMs,
-          provider: this.adapter.provider,
-        },
-      }
+      await this.reportMetrics(request, response.status, response.metrics)
+      return response
     } catch (error) {
-      const latencyMs = Date.now() - startTime
+      const metrics = this.buildMetrics(stats)
+      await this.reportMetrics(request, 'error', metrics)
 
       return {
         requestId: request.context.requestId,
@@ -92,34 +137,329 @@ export class A2UIRuntime {
           message: error instanceof Error ? error.message : 'Unknown error occurred',
           details: error,
         },
-        metrics: {
-          tokensUsed: {
-            prompt: 0,
-            completion: 0,
-            total: 0,
-          },
-          latencyMs,
-          provider: this.adapter.provider,
-        },
+        metrics,
       }
     }
   }
 
   /**
    * Stream a response
+   * Metrics are reported to the metrics sink once the stream ends.
    * @param request - Runtime request
    * @returns Async iterator of response chunks
    */
   async *stream(request: RuntimeRequest): AsyncIterator<string> {
-    // Execute middleware pipeline
-    await this.middleware(request.context, async () => {})
+    const stats = this.createStats()
+    const chunks: string[] = []
+    let response: RuntimeResponse | undefined
+    let failure: { error: unknown } | undefined
+    let finished = false
+    let stopped = false
+    let wake: (() => void) | undefined
+
+    const signal = () => {
+      wake?.()
+      wake = undefined
+    }
+
+    // Middleware wraps the whole stream; its response resolves once the
+    // adapter finishes, so post-processing sees the final content and usage
+    const pipeline = this.runPipeline(request, stats, async () => {
+      let content = ''
+      for await (const chunk of this.generate(this.conversationOf(request), request, stats)) {
+        if (stopped) break
+        content += chunk
+        chunks.push(chunk)
+        signal()
+      }
+      return this.successResponse(request, content, stats)
+    })
+      .then(
+        result => {
+          response = result
+        },
+        error => {
+          failure = { error }
+        }
+      )
+      .finally(() => {
+        finished = true
+        signal()
+      })
+
+    let completed = false
+    try {
+      for (;;) {
+        const chunk = chunks.shift()
+        if (chunk !== undefined) {
+          yield chunk
+        } else if (finished) {
+          break
+        } else {
+          await new Promise<void>(resolve => {
+            wake = resolve
+          })
+        }
+      }
+
+      if (failure) {
+        throw failure.error
+      }
+      completed = true
+    } finally {
+      stopped = true
+      await pipeline
+      await this.reportMetrics(
+        request,
+        completed && response ? response.status : 'error',
+        response?.metrics ?? this.buildMetrics(stats)
+      )
+    }
+  }
+
+  /**
+   * Run the middleware pipeline around a final handler
+   * When the handler fails, the usage so far is left on the context.
+   */
+  private runPipeline(
+    request: RuntimeRequest,
+    stats: GenerationStats,
+    handler: MiddlewareHandler
+  ): Promise<RuntimeResponse> {
+    request.context.prompt = request.prompt
+    return runMiddleware(this.middleware, request.context, async () => {
+      try {
+        return await handler()
+      } catch (error) {
+        request.context.metrics = this.buildMetrics(stats)
+        throw error
+      }
+    })
+  }
+
+  /**
+   * Prompt to generate from, as left by middleware
+   */
+  private promptOf(request: RuntimeRequest): string {
+    return request.context.prompt ?? request.prompt
+  }
+
+  /**
+   * Messages for the first model turn: the request history, then the prompt
+   */
+  private conversationOf(request: RuntimeRequest): ChatMessage[] {
+    return [...(request.history ?? []), { role: 'user', content: this.promptOf(request) }]
+  }
+
+  private successResponse(request: RuntimeRequest, content: string, stats: GenerationStats): RuntimeResponse {
+    return {
+      requestId: request.context.requestId,
+      content,
+      status: 'success',
+      timestamp: new Date(),
+      metrics: this.buildMetrics(stats),
+    }
+  }
+
+  /**
+   * Generate UI, running the agent loop when actions are available
+   *
+   * Each model turn streams text and tool calls. Requested tool calls are
+   * executed through the action registry and their results fed back to the
+   * model, until a turn finishes without tool calls. Tool call turns are
+   * appended to `messages`.
+   */
+  private async *generate(
+    messages: ChatMessage[],
+    request: RuntimeRequest,
+    stats: GenerationStats
+  ): AsyncGenerator<string> {
+    const { context } = request
+    const options = this.generationOptions(request)
+
+    // Adapters written before tool support only implement generateUI and
+    // receive the conversation as a single prompt
+    if (typeof this.adapter.generateTurn !== 'function') {
+      const prompt = messages.map(message => message.content ?? '').join('\n\n')
+      const iterator = this.adapter.generateUI(prompt, context, options)
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+        stats.firstTokenTime ??= Date.now()
+        yield next.value
+      }
+      return
+    }
+
+    for (let round = 0; ; round++) {
+      const toolCalls: ToolCall[] = []
+      let text = ''
+
+      for await (const event of this.adapter.generateTurn(messages, context, options)) {
+        if (event.type === 'text') {
+          stats.firstTokenTime ??= Date.now()
+          text += event.text
+          yield event.text
+        } else if (event.type === 'toolCall') {
+          toolCalls.push(event.toolCall)
+        } else {
+          stats.usage.prompt += event.usage.prompt
+          stats.usage.completion += event.usage.completion
+          stats.usage.total += event.usage.total
+          stats.model = event.model
+        }
+      }
+
+      if (toolCalls.length === 0) {
+        return
+      }
+      if (round >= this.maxToolRounds) {
+        throw new RuntimeError(
+          `Model kept requesting tool calls after ${this.maxToolRounds} rounds`,
+          'MAX_TOOL_ROUNDS_EXCEEDED',
+          { toolCalls: toolCalls.map(call => call.name) }
+        )
+      }
+
+      messages.push({ role: 'assistant', content: text || null, toolCalls })
+      for (const call of toolCalls) {
+        messages.push(await this.runToolCall(call))
+      }
+    }
+  }
+
+  /**
+   * Generation options with the catalog prompt and response schema applied
+   * Options set on the request take precedence.
+   */
+  private generationOptions(request: RuntimeRequest): GenerationOptions | undefined {
+    if (!this.catalog) {
+      return request.options
+    }
+
+    return {
+      systemPrompt: this.catalog.buildPrompt(request.catalog),
+      responseFormat: {
+        name: 'a2ui_messages',
+        schema: this.catalog.buildSchema(request.catalog) as Record<string, unknown>,
+      },
+      ...request.options,
+    }
+  }
+
+  /**
+   * Validate generated UI, asking the model to fix it until it passes
+   * Each repair prompt lists the exact validation errors. Throws once the
+   * repair budget is spent.
+   */
+  private async validateOutput(
+    content: string,
+    conversation: ChatMessage[],
+    request: RuntimeRequest,
+    stats: GenerationStats
+  ): Promise<{ content: string; messages: A2UIMessage[]; repairAttempts: number }> {
+    const { validator, maxRepairAttempts = 2 } = this.structuredOutput!
+
+    for (let attempt = 0; ; attempt++) {
+      const result = validator.validate(content)
+      if (result.valid) {
+        return { content, messages: result.messages, repairAttempts: attempt }
+      }
+      if (attempt >= maxRepairAttempts) {
+        throw new RuntimeError(
+          `Generated UI is still invalid after ${maxRepairAttempts} repair attempts`,
+          'INVALID_STRUCTURED_OUTPUT',
+          { errors: result.errors, content }
+        )
+      }
+
+      conversation.push(
+        { role: 'assistant', content },
+        { role: 'user', content: buildRepairPrompt(result.errors) }
+      )
+      content = await this.collect(this.generate(conversation, request, stats))
+    }
+  }
+
+  private async collect(chunks: AsyncIterable<string>): Promise<string> {
+    let content = ''
+    for await (const chunk of chunks) {
+      content += chunk
+    }
+    return content
+  }
+
+  private createStats(): GenerationStats {
+    return { startTime: Date.now(), usage: { prompt: 0, completion: 0, total: 0 } }
+  }
+
+  /**
+   * Derive response metrics from generation stats
+   */
+  private buildMetrics(stats: GenerationStats): ResponseMetrics {
+    const endTime = Date.now()
+    const metrics: ResponseMetrics = {
+      tokensUsed: { ...stats.usage },
+      latencyMs: endTime - stats.startTime,
+      provider: this.adapter.provider,
+    }
+
+    if (stats.firstTokenTime !== undefined) {
+      metrics.timeToFirstTokenMs = stats.firstTokenTime - stats.startTime
+      const generationSeconds = (endTime - stats.firstTokenTime) / 1000
+      if (generationSeconds > 0 && stats.usage.completion > 0) {
+        metrics.tokensPerSecond = stats.usage.completion / generationSeconds
+      }
+    }
+
+    if (stats.model) {
+      metrics.model = stats.model
+      metrics.costUsd = calculateCost(stats.model, stats.usage, this.pricing)
+    }
+
+    return metrics
+  }
+
+  /**
+   * Send metrics to the metrics sink
+   * A failing sink never fails the request.
+   */
+  private async reportMetrics(
+    request: RuntimeRequest,
+    status: 'success' | 'error',
+    metrics: ResponseMetrics
+  ): Promise<void> {
+    if (!this.metricsSink) return
 
-    // Stream using adapter
-    yield* this.adapter.generateUI(
-      request.prompt,
-      request.context,
-      request.options
-    )
+    try {
+      await this.metricsSink({
+        requestId: request.context.requestId,
+        status,
+        metadata: request.context.metadata,
+        metrics,
+      })
+    } catch {
+      // Metrics are best-effort
+    }
+  }
+
+  /**
+   * Execute a tool call and describe the result for the model
+   * Failures are reported back to the model rather than aborting the request.
+   */
+  private async runToolCall(call: ToolCall): Promise<ChatMessage> {
+    let content: string
+
+    try {
+      const parameters = JSON.parse(call.arguments || '{}') as Record<string, unknown>
+      const result: unknown = await this.actionRegistry.execute(call.name, parameters)
+      content = JSON.stringify(result ?? null)
+    } catch (error) {
+      content = JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+
+    return { role: 'tool', name: call.name, toolCallId: call.id, content }
   }
 
   /**
@@ -148,6 +488,25 @@ export class A2UIRuntime {
     return this.actionRegistry.list()
   }
 
+  /**
+   * Start a multi-turn conversation
+   * @param options - Session options
+   * @returns New session
+   */
+  createSession(options?: SessionOptions): RuntimeSession {
+    return new RuntimeSession(this, options)
+  }
+
+  /**
+   * Continue a conversation saved with `RuntimeSession.toJSON()`
+   * @param state - Saved session state
+   * @param options - Session options (the saved ID is kept)
+   * @returns Restored session
+   */
+  restoreSession(state: SessionState, options?: SessionOptions): RuntimeSession {
+    return new RuntimeSession(this, options, state)
+  }
+
   /**
    * Create a runtime context
    * @param requestId - Request identifier
@@ -168,3 +527,16 @@ export class A2UIRuntime {
     }
   }
 }
+
+/**
+ * Ask the model to fix the listed problems in its previous output
+ */
+function buildRepairPrompt(errors: OutputValidationError[]): string {
+  const problems = errors.map(error => `- ${error.path}: ${error.message}`).join('\n')
+
+  return [
+    'Your previous response is not valid A2UI. Fix these problems:',
+    problems,
+    'Respond with the complete corrected A2UI JSON messages only.',
+  ].join('\n\n')
+}
@@ -0,0 +1,537 @@
+import type { A2UIRuntime } from './a2ui-runtime'
+import type {
+  A2UIMessage,
+  CatalogSelection,
+  ChatMessage,
+  GenerationOptions,
+  RuntimeRequest,
+  RuntimeResponse,
+} from '../types/runtime-types'
+import { RuntimeError } from '../errors/runtime-errors'
+
+/**
+ * Current state of a UI surface
+ */
+export interface SurfaceState {
+  /** Surface identifier */
+  surfaceId: string
+  /** Components, in the order they were added */
+  components: Array<Record<string, unknown>>
+  /** Data model */
+  dataModel: Record<string, unknown>
+}
+
+/**
+ * User interaction sent back to the agent
+ * Mirrors the A2UI `userAction` message.
+ */
+export interface UserActionEvent {
+  /** Surface the action happened on */
+  surfaceId: string
+  /** Action name */
+  action: string
+  /** Component that triggered the action */
+  componentId?: string
+  /** Action context data */
+  context?: Record<string, unknown>
+  /** Data model snapshot from the client; replaces the tracked data model */
+  dataModel?: Record<string, unknown>
+}
+
+/**
+ * Serializable session state
+ */
+export interface SessionState {
+  /** State format version */
+  version: 1
+  /** Session identifier */
+  id: string
+  /** Completed turns */
+  turns: number
+  /** Conversation history (user and assistant messages) */
+  messages: ChatMessage[]
+  /** Summary of turns trimmed from the history */
+  summary?: string
+  /** Surfaces by ID */
+  surfaces: Record<string, SurfaceState>
+}
+
+/**
+ * Condenses trimmed turns into a summary
+ * Receives the previous summary, if any, so it can be extended.
+ */
+export type HistorySummarizer = (
+  messages: ChatMessage[],
+  previousSummary: string | undefined
+) => string | Promise<string>
+
+/**
+ * Session options
+ */
+export interface SessionOptions {
+  /** Session identifier (default: random UUID) */
+  id?: string
+  /** Token budget for history and summary (default: 4000) */
+  maxHistoryTokens?: number
+  /** Token estimate for a text (default: 4 characters per token) */
+  estimateTokens?: (text: string) => number
+  /** Summarize trimmed turns (default: trimmed turns are dropped) */
+  summarize?: HistorySummarizer
+  /** Maximum length of the surface snapshot in characters (default: 8000) */
+  maxSnapshotChars?: number
+  /** Metadata added to every request context */
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Options for one turn
+ */
+export interface SessionTurnOptions {
+  /** Request identifier (default: `<session id>:<turn>`) */
+  requestId?: string
+  /** Request metadata, merged over the session metadata */
+  metadata?: Record<string, unknown>
+  /** Generation options */
+  options?: GenerationOptions
+  /** Components offered to the model */
+  catalog?: CatalogSelection
+}
+
+/**
+ * Multi-turn conversation with an A2UI runtime
+ *
+ * Keeps the chat history and the surfaces the agent created, so follow-up
+ * prompts ("make the form shorter") are answered in context. Each turn sends
+ * the history plus a snapshot of the current surfaces; the history is
+ * trimmed, or summarized, to stay within a token budget. Turns run one at a
+ * time.
+ *
+ * @example
+ * ```typescript
+ * const session = runtime.createSession({ maxHistoryTokens: 2000 })
+ * await session.send('Create a signup form')
+ * await session.send('Make the form shorter')
+ * await store.save(session.id, session.toJSON())
+ *
+ * // Next request
+ * const restored = runtime.restoreSession(await store.load(id))
+ * await restored.sendAction({ surfaceId: 'signup', action: 'submit', dataModel })
+ * ```
+ */
+export class RuntimeSession {
+  readonly id: string
+  private messages: ChatMessage[]
+  private summary?: string
+  private surfaces: Map<string, SurfaceState>
+  private turns: number
+  private busy = false
+  private maxHistoryTokens: number
+  private estimateTokens: (text: string) => number
+  private summarize?: HistorySummarizer
+  private maxSnapshotChars: number
+  private metadata: Record<string, unknown>
+
+  constructor(
+    private runtime: A2UIRuntime,
+    options: SessionOptions = {},
+    state?: SessionState
+  ) {
+    if (state && state.version !== 1) {
+      throw new RuntimeError(
+        `Unsupported session state version: ${String(state.version)}`,
+        'INVALID_SESSION_STATE'
+      )
+    }
+
+    const copy = state ? clone(state) : undefined
+    this.id = copy?.id ?? options.id ?? crypto.randomUUID()
+    this.messages = copy?.messages ?? []
+    this.summary = copy?.summary
+    this.surfaces = new Map(Object.entries(copy?.surfaces ?? {}))
+    this.turns = copy?.turns ?? 0
+    this.maxHistoryTokens = options.maxHistoryTokens ?? 4000
+    this.estimateTokens = options.estimateTokens ?? ((text) => Math.ceil(text.length / 4))
+    this.summarize = options.summarize
+    this.maxSnapshotChars = options.maxSnapshotChars ?? 8000
+    this.metadata = options.metadata ?? {}
+  }
+
+  /**
+   * Send a user prompt
+   * The turn is recorded only when the response succeeds.
+   */
+  async send(prompt: string, options: SessionTurnOptions = {}): Promise<RuntimeResponse> {
+    this.startTurn()
+    try {
+      const response = await this.runtime.process(this.buildRequest(prompt, options))
+      if (response.status === 'success') {
+        await this.recordTurn(prompt, response.content, response.messages)
+      }
+      return response
+    } finally {
+      this.busy = false
+    }
+  }
+
+  /**
+   * Stream the response to a user prompt
+   * The turn is recorded once the stream completes.
+   */
+  async *stream(prompt: string, options: SessionTurnOptions = {}): AsyncIterator<string> {
+    this.startTurn()
+    try {
+      const iterator = this.runtime.stream(this.buildRequest(prompt, options))
+      let content = ''
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+        content += next.value
+        yield next.value
+      }
+      await this.recordTurn(prompt, content)
+    } finally {
+      this.busy = false
+    }
+  }
+
+  /**
+   * Send a user interaction as the next turn
+   * The client's data model snapshot, if given, is applied first.
+   */
+  sendAction(action: UserActionEvent, options: SessionTurnOptions = {}): Promise<RuntimeResponse> {
+    if (action.dataModel) {
+      const surface = this.surfaces.get(action.surfaceId)
+      if (surface) {
+        surface.dataModel = clone(action.dataModel)
+      }
+    }
+
+    return this.send(describeAction(action), options)
+  }
+
+  /**
+   * Apply A2UI messages produced outside the session (e.g. pushed by the server)
+   */
+  applyMessages(messages: A2UIMessage[]): void {
+    for (const message of messages) {
+      this.applyMessage(message as A2UIMessage & Record<string, unknown>)
+    }
+  }
+
+  /**
+   * Current state of a surface
+   */
+  getSurface(surfaceId: string): SurfaceState | undefined {
+    const surface = this.surfaces.get(surfaceId)
+    return surface && clone(surface)
+  }
+
+  /**
+   * Current surfaces
+   */
+  getSurfaces(): SurfaceState[] {
+    return Array.from(this.surfaces.values(), (surface) => clone(surface))
+  }
+
+  /**
+   * Conversation history, oldest first
+   */
+  getHistory(): ChatMessage[] {
+    return clone(this.messages)
+  }
+
+  /**
+   * Serializable copy of the session, for `A2UIRuntime.restoreSession`
+   */
+  toJSON(): SessionState {
+    return clone({
+      version: 1,
+      id: this.id,
+      turns: this.turns,
+      messages: this.messages,
+      ...(this.summary !== undefined && { summary: this.summary }),
+      surfaces: Object.fromEntries(this.surfaces),
+    })
+  }
+
+  private startTurn(): void {
+    if (this.busy) {
+      throw new RuntimeError(`Session ${this.id} is already running a turn`, 'SESSION_BUSY')
+    }
+    this.busy = true
+  }
+
+  private buildRequest(prompt: string, options: SessionTurnOptions): RuntimeRequest {
+    const history: ChatMessage[] = []
+    if (this.summary) {
+      history.push({
+        role: 'system',
+        content: `Summary of the earlier conversation:\n${this.summary}`,
+      })
+    }
+    history.push(...clone(this.messages))
+
+    const snapshot = this.buildSnapshot()
+    if (snapshot) {
+      history.push({ role: 'system', content: snapshot })
+    }
+
+    return {
+      prompt,
+      history,
+      context: this.runtime.createContext(options.requestId ?? `${this.id}:${this.turns + 1}`, {
+        ...this.metadata,
+        ...options.metadata,
+        sessionId: this.id,
+      }),
+      options: options.options,
+      catalog: options.catalog,
+    }
+  }
+
+  /**
+   * Describe the current surfaces for the model
+   * Falls back to a component outline, then truncation, when the full
+   * snapshot exceeds `maxSnapshotChars`.
+   */
+  private buildSnapshot(): string | undefined {
+    if (this.surfaces.size === 0) return undefined
+
+    const header =
+      'Current UI surfaces. Update them with updateComponents and updateDataModel rather than recreating them.'
+    const describe = (outline: boolean) =>
+      [
+        header,
+        ...Array.from(this.surfaces.values(), (surface) =>
+          [
+            `Surface "${surface.surfaceId}"`,
+            `Components: ${JSON.stringify(outline ? surface.components.map(outlineComponent) : surface.components)}`,
+            `Data model: ${JSON.stringify(surface.dataModel)}`,
+          ].join('\n')
+        ),
+      ].join('\n\n')
+
+    const full = describe(false)
+    if (full.length <= this.maxSnapshotChars) return full
+
+    const outline = describe(true)
+    if (outline.length <= this.maxSnapshotChars) return outline
+
+    return `${outline.slice(0, this.maxSnapshotChars)}\n[snapshot truncated]`
+  }
+
+  /**
+   * Add a completed turn to the history and apply the UI it produced
+   * Assistant UI output is stored as a short list of the messages sent; the
+   * surface snapshot carries the resulting state.
+   */
+  private async recordTurn(
+    prompt: string,
+    content: string,
+    messages?: A2UIMessage[]
+  ): Promise<void> {
+    const uiMessages = messages ?? parseA2UIMessages(content)
+    this.applyMessages(uiMessages)
+
+    this.messages.push(
+      { role: 'user', content: prompt },
+      {
+        role: 'assistant',
+        content: uiMessages.length > 0 ? describeMessages(uiMessages) : content,
+      }
+    )
+    this.turns++
+
+    await this.trimHistory()
+  }
+
+  /**
+   * Drop the oldest turns until the history fits the token budget
+   * The latest turn is always kept.
+   */
+  private async trimHistory(): Promise<void> {
+    const tokens = (messages: ChatMessage[]) =>
+      messages.reduce((total, message) => total + this.estimateTokens(message.content ?? ''), 0) +
+      (this.summary ? this.estimateTokens(this.summary) : 0)
+
+    const trimmed: ChatMessage[] = []
+    while (tokens(this.messages) > this.maxHistoryTokens) {
+      // A turn starts at a user message
+      const nextTurn = this.messages.findIndex(
+        (message, index) => index > 0 && message.role === 'user'
+      )
+      if (nextTurn === -1) break
+      trimmed.push(...this.messages.splice(0, nextTurn))
+    }
+
+    if (trimmed.length > 0 && this.summarize) {
+      this.summary = await this.summarize(trimmed, this.summary)
+    }
+  }
+
+  private applyMessage(message: A2UIMessage & Record<string, unknown>): void {
+    const { surfaceId } = message
+    if (typeof surfaceId !== 'string') return
+
+    switch (message.type) {
+      case 'createSurface':
+        this.surfaces.set(surfaceId, {
+          surfaceId,
+          components: Array.isArray(message['components'])
+            ? clone(message['components'] as Array<Record<string, unknown>>)
+            : [],
+          dataModel: isRecord(message['dataModel']) ? clone(message['dataModel']) : {},
+        })
+        break
+      case 'updateComponents': {
+        const surface = this.surfaces.get(surfaceId)
+        if (surface && Array.isArray(message['updates'])) {
+          for (const update of message['updates'] as unknown[]) {
+            if (isRecord(update)) applyComponentUpdate(surface, update)
+          }
+        }
+        break
+      }
+      case 'updateDataModel': {
+        const surface = this.surfaces.get(surfaceId)
+        if (surface && Array.isArray(message['updates'])) {
+          for (const update of message['updates'] as unknown[]) {
+            if (isRecord(update)) applyDataUpdate(surface, update)
+          }
+        }
+        break
+      }
+      case 'deleteSurface':
+        this.surfaces.delete(surfaceId)
+        break
+    }
+  }
+}
+
+/**
+ * Parse A2UI messages from model output
+ * Accepts a JSON array, a `{ messages: [...] }` object, a single message or
+ * one message per line, optionally inside a code fence. Returns an empty
+ * array for anything else.
+ */
+export function parseA2UIMessages(content: string): A2UIMessage[] {
+  const text = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+
+  const parsed = parseJson(text)
+  if (parsed !== undefined) {
+    const items = Array.isArray(parsed)
+      ? parsed
+      : isRecord(parsed) && Array.isArray(parsed['messages'])
+        ? (parsed['messages'] as unknown[])
+        : [parsed]
+    return items.filter(isMessage)
+  }
+
+  return text
+    .split('\n')
+    .map((line) => parseJson(line.trim()))
+    .filter(isMessage)
+}
+
+function applyComponentUpdate(surface: SurfaceState, update: Record<string, unknown>): void {
+  const { id, operation, component } = update
+  const index = surface.components.findIndex((existing) => existing['id'] === id)
+
+  if (operation === 'remove') {
+    if (index !== -1) surface.components.splice(index, 1)
+  } else if (isRecord(component)) {
+    if (index === -1) {
+      surface.components.push(clone(component))
+    } else {
+      surface.components[index] = clone(component)
+    }
+  }
+}
+
+/**
+ * Pointer segments that would reach object prototypes
+ */
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype'])
+
+/**
+ * Apply a JSON Pointer (RFC 6901) set or remove to the data model
+ * Paths through prototype keys are ignored.
+ */
+function applyDataUpdate(surface: SurfaceState, update: Record<string, unknown>): void {
+  const { path, operation, value } = update
+  if (typeof path !== 'string') return
+
+  const keys = path
+    .split('/')
+    .slice(1)
+    .map((key) => key.replace(/~1/g, '/').replace(/~0/g, '~'))
+  if (keys.some((key) => UNSAFE_KEYS.has(key))) return
+
+  if (keys.length === 0) {
+    if (operation === 'set' && isRecord(value)) surface.dataModel = clone(value)
+    return
+  }
+
+  let target: Record<string, unknown> = surface.dataModel
+  for (const key of keys.slice(0, -1)) {
+    const child = target[key]
+    if (!isRecord(child) && !Array.isArray(child)) {
+      if (operation === 'remove') return
+      target[key] = {}
+    }
+    target = target[key] as Record<string, unknown>
+  }
+
+  const last = keys[keys.length - 1] as string
+  if (operation === 'remove') {
+    if (Array.isArray(target)) {
+      target.splice(Number(last), 1)
+    } else {
+      delete target[last]
+    }
+  } else {
+    target[last] = clone(value)
+  }
+}
+
+/**
+ * Component reduced to its ID, type and children
+ */
+function outlineComponent(component: Record<string, unknown>): Record<string, unknown> {
+  const { id, type, children } = component
+  return children === undefined ? { id, type } : { id, type, children }
+}
+
+function describeMessages(messages: A2UIMessage[]): string {
+  return `Sent A2UI messages: ${messages
+    .map((message) => (message.surfaceId ? `${message.type} (${message.surfaceId})` : message.type))
+    .join(', ')}`
+}
+
+function describeAction(action: UserActionEvent): string {
+  const target = action.componentId ? ` from component "${action.componentId}"` : ''
+  const context = action.context ? ` with context ${JSON.stringify(action.context)}` : ''
+  return `User action "${action.action}" on surface "${action.surfaceId}"${target}${context}`
+}
+
+function parseJson(text: string): unknown {
+  if (!text.startsWith('{') && !text.startsWith('[')) return undefined
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+function isMessage(value: unknown): value is A2UIMessage {
+  return isRecord(value) && typeof value['type'] === 'string'
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T)
+}
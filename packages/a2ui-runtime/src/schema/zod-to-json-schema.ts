@@ -0,0 +1,287 @@
+import { z } from 'zod'
+
+/**
+ * JSON Schema subset used for LLM tool parameters
+ */
+export interface JsonSchema {
+  type?: string
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema | JsonSchema[]
+  minItems?: number
+  maxItems?: number
+  enum?: unknown[]
+  const?: unknown
+  anyOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  default?: unknown
+  format?: string
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  multipleOf?: number
+}
+
+/**
+ * Convert a zod schema to JSON Schema for LLM tool definitions
+ *
+ * Supports objects, primitives, enums, literals, unions, optionals,
+ * nullables, defaults, arrays, tuples, records and `.describe()` text.
+ * Refinements and transforms are converted to their input schema; types
+ * with no JSON equivalent, and recursive references, become an
+ * unconstrained schema (`{}`).
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convert(schema)
+  if (schema.description && !result.description) {
+    result.description = schema.description
+  }
+  return result
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def as { typeName?: z.ZodFirstPartyTypeKind }
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return convertString(schema as z.ZodString)
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return convertNumber(schema as z.ZodNumber)
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer' }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' }
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' }
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' }
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return convertLiteral((schema as z.ZodLiteral<unknown>).value)
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...(schema as z.ZodEnum<[string, ...string[]]>).options] }
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return convertNativeEnum((schema as z.ZodNativeEnum<z.EnumLike>).enum)
+    case z.ZodFirstPartyTypeKind.ZodObject:
+      return convertObject(schema as z.AnyZodObject)
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const array = schema as z.ZodArray<z.ZodTypeAny>
+      return withDefined({
+        type: 'array',
+        items: zodToJsonSchema(array.element),
+        minItems: array._def.minLength?.value ?? array._def.exactLength?.value,
+        maxItems: array._def.maxLength?.value ?? array._def.exactLength?.value,
+      })
+    }
+    case z.ZodFirstPartyTypeKind.ZodSet:
+      return {
+        type: 'array',
+        items: zodToJsonSchema((schema as z.ZodSet<z.ZodTypeAny>)._def.valueType),
+      }
+    case z.ZodFirstPartyTypeKind.ZodTuple: {
+      const items = (schema as z.ZodTuple)._def.items as z.ZodTypeAny[]
+      return {
+        type: 'array',
+        items: items.map(zodToJsonSchema),
+        minItems: items.length,
+        maxItems: items.length,
+      }
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return {
+        type: 'object',
+        additionalProperties: zodToJsonSchema((schema as z.ZodRecord)._def.valueType),
+      }
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return convertUnion(
+        Array.from((schema._def as { options: Iterable<z.ZodTypeAny> }).options)
+      )
+    case z.ZodFirstPartyTypeKind.ZodIntersection: {
+      const intersection = schema as z.ZodIntersection<z.ZodTypeAny, z.ZodTypeAny>
+      return {
+        allOf: [zodToJsonSchema(intersection._def.left), zodToJsonSchema(intersection._def.right)],
+      }
+    }
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema((schema as z.ZodOptional<z.ZodTypeAny>).unwrap())
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return {
+        anyOf: [zodToJsonSchema((schema as z.ZodNullable<z.ZodTypeAny>).unwrap()), { type: 'null' }],
+      }
+    case z.ZodFirstPartyTypeKind.ZodDefault: {
+      const inner = schema as z.ZodDefault<z.ZodTypeAny>
+      return { ...zodToJsonSchema(inner.removeDefault()), default: inner._def.defaultValue() }
+    }
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema((schema as z.ZodEffects<z.ZodTypeAny>).innerType())
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return convertLazy(schema as z.ZodLazy<z.ZodTypeAny>)
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return zodToJsonSchema((schema as z.ZodBranded<z.ZodTypeAny, string>).unwrap())
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return zodToJsonSchema((schema as z.ZodReadonly<z.ZodTypeAny>)._def.innerType)
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+      return zodToJsonSchema((schema as z.ZodCatch<z.ZodTypeAny>).removeCatch())
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema((schema as z.ZodPipeline<z.ZodTypeAny, z.ZodTypeAny>)._def.in)
+    default:
+      return {}
+  }
+}
+
+/**
+ * Lazy schemas being converted
+ * A recursive schema refers back to itself; the inner reference becomes an
+ * unconstrained schema instead of recursing forever.
+ */
+const expandingLazySchemas = new Set<z.ZodTypeAny>()
+
+function convertLazy(schema: z.ZodLazy<z.ZodTypeAny>): JsonSchema {
+  if (expandingLazySchemas.has(schema)) {
+    return {}
+  }
+  expandingLazySchemas.add(schema)
+  try {
+    return zodToJsonSchema(schema.schema)
+  } finally {
+    expandingLazySchemas.delete(schema)
+  }
+}
+
+function convertObject(schema: z.AnyZodObject): JsonSchema {
+  const properties: Record<string, JsonSchema> = {}
+  const required: string[] = []
+
+  for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+    properties[key] = zodToJsonSchema(value)
+    if (!value.isOptional()) {
+      required.push(key)
+    }
+  }
+
+  const catchall = schema._def.catchall as z.ZodTypeAny
+  const isCatchallNever = catchall._def.typeName === z.ZodFirstPartyTypeKind.ZodNever
+  const unknownKeys = schema._def.unknownKeys as string
+
+  return {
+    type: 'object',
+    properties,
+    required,
+    additionalProperties: !isCatchallNever
+      ? zodToJsonSchema(catchall)
+      : unknownKeys === 'passthrough',
+  }
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: 'string' }
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        result.minLength = check.value
+        break
+      case 'max':
+        result.maxLength = check.value
+        break
+      case 'length':
+        result.minLength = check.value
+        result.maxLength = check.value
+        break
+      case 'email':
+      case 'uuid':
+      case 'date':
+      case 'time':
+        result.format = check.kind
+        break
+      case 'url':
+        result.format = 'uri'
+        break
+      case 'datetime':
+        result.format = 'date-time'
+        break
+      case 'regex':
+        result.pattern = check.regex.source
+        break
+    }
+  }
+
+  return result
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: 'number' }
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        result.type = 'integer'
+        break
+      case 'min':
+        if (check.inclusive) result.minimum = check.value
+        else result.exclusiveMinimum = check.value
+        break
+      case 'max':
+        if (check.inclusive) result.maximum = check.value
+        else result.exclusiveMaximum = check.value
+        break
+      case 'multipleOf':
+        result.multipleOf = check.value
+        break
+    }
+  }
+
+  return result
+}
+
+function convertLiteral(value: unknown): JsonSchema {
+  if (value === null) {
+    return { type: 'null' }
+  }
+  return { type: jsonTypeOf(value), const: value }
+}
+
+function convertNativeEnum(values: z.EnumLike): JsonSchema {
+  // Numeric TypeScript enums map values back to names; keep only the values
+  const members = Object.keys(values)
+    .filter(key => typeof values[values[key] as string] !== 'number')
+    .map(key => values[key])
+
+  const types = new Set(members.map(jsonTypeOf))
+  return types.size === 1
+    ? { type: jsonTypeOf(members[0]), enum: members }
+    : { enum: members }
+}
+
+function convertUnion(options: z.ZodTypeAny[]): JsonSchema {
+  // A union of literals reads better as an enum
+  const literals = options.every(
+    option => (option._def as { typeName?: string }).typeName === z.ZodFirstPartyTypeKind.ZodLiteral
+  )
+  if (literals) {
+    const values = options.map(option => (option as z.ZodLiteral<unknown>).value)
+    const types = new Set(values.map(jsonTypeOf))
+    return types.size === 1 ? { type: jsonTypeOf(values[0]), enum: values } : { enum: values }
+  }
+
+  return { anyOf: options.map(zodToJsonSchema) }
+}
+
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'bigint') return 'integer'
+  return typeof value
+}
+
+function withDefined(schema: JsonSchema): JsonSchema {
+  return Object.fromEntries(
+    Object.entries(schema).filter(([, value]) => value !== undefined)
+  ) as JsonSchema
+}
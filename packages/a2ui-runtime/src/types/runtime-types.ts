@@ -12,6 +12,33 @@ export interface RuntimeContext {
   actions: Map<string, Action>
   /** Additional metadata for the request */
   metadata: Record<string, unknown>
+  /**
+   * Prompt being processed
+   * Set by the runtime before middleware runs; middleware may rewrite it.
+   */
+  prompt?: string
+  /** Authenticated caller (set by auth middleware) */
+  user?: RuntimeUser
+  /**
+   * Usage of a request that failed during generation
+   * Set by the runtime before the error reaches middleware, so tokens spent
+   * on a failed request can still be counted.
+   */
+  metrics?: ResponseMetrics
+}
+
+/**
+ * Authenticated caller of the runtime
+ */
+export interface RuntimeUser {
+  /** User identifier */
+  id: string
+  /** Tenant the user belongs to */
+  tenantId?: string
+  /** Roles granted to the user */
+  roles?: string[]
+  /** Raw claims from the credential (e.g. JWT payload) */
+  claims?: Record<string, unknown>
 }
 
 /**
@@ -19,13 +46,37 @@ export interface RuntimeContext {
  */
 export interface ChatMessage {
   /** Message role */
-  role: 'system' | 'user' | 'assistant' | 'function'
+  role: 'system' | 'user' | 'assistant' | 'function' | 'tool'
   /** Message content */
   content: string | null
   /** Optional function/action name */
   name?: string
+  /** Tool calls requested by the assistant */
+  toolCalls?: ToolCall[]
+  /** Tool call a 'tool' message answers */
+  toolCallId?: string
+}
+
+/**
+ * Tool call requested by the model
+ */
+export interface ToolCall {
+  /** Provider-assigned call identifier */
+  id: string
+  /** Action name */
+  name: string
+  /** JSON-encoded arguments */
+  arguments: string
 }
 
+/**
+ * Event streamed during one model turn
+ */
+export type TurnEvent =
+  | { type: 'text'; text: string }
+  | { type: 'toolCall'; toolCall: ToolCall }
+  | { type: 'usage'; usage: TokenMetrics; model: string }
+
 /**
  * Options for UI generation
  */
@@ -44,6 +95,44 @@ export interface GenerationOptions {
   presencePenalty?: number
   /** Stop sequences */
   stopSequences?: string[]
+  /** System prompt replacing the adapter's default */
+  systemPrompt?: string
+  /** JSON Schema the response must follow (providers without structured output ignore it) */
+  responseFormat?: ResponseFormat
+}
+
+/**
+ * JSON Schema for provider structured output
+ */
+export interface ResponseFormat {
+  /** Schema name reported to the provider */
+  name: string
+  /** JSON Schema of the response */
+  schema: Record<string, unknown>
+}
+
+/**
+ * Restricts the component catalog for a request
+ */
+export interface CatalogSelection {
+  /** Only components in these categories */
+  categories?: string[]
+  /** Only these component types */
+  types?: string[]
+  /** Only components with at least one of these tags */
+  tags?: string[]
+}
+
+/**
+ * Describes the component catalog to the model
+ * `CatalogPromptBuilder` from @ainative/ai-kit-a2ui-core/registry builds both
+ * from a component registry.
+ */
+export interface CatalogProvider {
+  /** System prompt listing the protocol messages and components */
+  buildPrompt(selection?: CatalogSelection): string
+  /** JSON Schema of the response */
+  buildSchema(selection?: CatalogSelection): object
 }
 
 /**
@@ -90,10 +179,17 @@ export interface RuntimeMetrics {
 export interface RuntimeRequest {
   /** User prompt for UI generation */
   prompt: string
+  /**
+   * Earlier conversation, sent before the prompt
+   * `RuntimeSession` fills this in for multi-turn conversations.
+   */
+  history?: ChatMessage[]
   /** Runtime context */
   context: RuntimeContext
   /** Generation options */
   options?: GenerationOptions
+  /** Components offered to the model (requires `RuntimeConfig.catalog`) */
+  catalog?: CatalogSelection
 }
 
 /**
@@ -112,14 +208,41 @@ export interface TokenMetrics {
  * Response metrics
  */
 export interface ResponseMetrics {
-  /** Token usage information */
+  /** Token usage information, summed over all model turns */
   tokensUsed: TokenMetrics
   /** Latency in milliseconds */
   latencyMs: number
   /** LLM provider used */
   provider: string
+  /** Model reported by the provider */
+  model?: string
+  /** Time until the first generated text chunk in milliseconds */
+  timeToFirstTokenMs?: number
+  /** Completion tokens per second after the first token */
+  tokensPerSecond?: number
+  /** Cost in USD (undefined when the model has no known pricing) */
+  costUsd?: number
 }
 
+/**
+ * Metrics reported to a metrics sink after each request
+ */
+export interface MetricsEvent {
+  /** Request ID */
+  requestId: string
+  /** Whether the request succeeded */
+  status: 'success' | 'error'
+  /** Request metadata (e.g. surface or customer identifiers for billing) */
+  metadata: Record<string, unknown>
+  /** Response metrics */
+  metrics: ResponseMetrics
+}
+
+/**
+ * Receives metrics for every processed or streamed request
+ */
+export type MetricsSink = (event: MetricsEvent) => void | Promise<void>
+
 /**
  * Error information
  */
@@ -132,6 +255,57 @@ export interface ErrorInfo {
   details?: unknown
 }
 
+/**
+ * A2UI protocol message produced in structured output mode
+ */
+export interface A2UIMessage {
+  /** Message type (e.g. 'createSurface') */
+  type: string
+  /** Surface the message targets */
+  surfaceId?: string
+}
+
+/**
+ * Problem found in generated UI
+ */
+export interface OutputValidationError {
+  /** Location of the problem, e.g. 'messages[0].components[2].type' */
+  path: string
+  /** What is wrong */
+  message: string
+}
+
+/**
+ * Result of validating generated UI
+ */
+export interface OutputValidationResult {
+  /** Whether the output is valid */
+  valid: boolean
+  /** Parsed A2UI messages */
+  messages: A2UIMessage[]
+  /** Validation errors */
+  errors: OutputValidationError[]
+}
+
+/**
+ * Parses and validates model output
+ * `StructuredOutputValidator` from @ainative/ai-kit-a2ui-core/parser checks
+ * output against a component registry.
+ */
+export interface OutputValidator {
+  validate(output: string): OutputValidationResult
+}
+
+/**
+ * Structured output mode configuration
+ */
+export interface StructuredOutputConfig {
+  /** Validator for generated UI */
+  validator: OutputValidator
+  /** Max times the model is asked to fix invalid output (default: 2) */
+  maxRepairAttempts?: number
+}
+
 /**
  * Runtime response structure
  */
@@ -140,6 +314,10 @@ export interface RuntimeResponse {
   requestId: string
   /** Generated UI content */
   content: string
+  /** Validated messages (structured output mode only) */
+  messages?: A2UIMessage[]
+  /** Repair prompts sent before the output validated (structured output mode only) */
+  repairAttempts?: number
   /** Response status */
   status: 'success' | 'error'
   /** Response timestamp */
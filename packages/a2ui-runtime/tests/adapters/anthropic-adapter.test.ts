@@ -571,4 +571,135 @@ describe('AnthropicAdapter', () => {
       expect(tools.map((t: any) => t.name)).toContain('action2')
     })
   })
+
+  // ========================================
+  // 6. generateTurn / Tool Use
+  // ========================================
+  describe('generateTurn', () => {
+    const collect = async (iterable: AsyncIterable<any>) => {
+      const events: any[] = []
+      for await (const event of iterable) {
+        events.push(event)
+      }
+      return events
+    }
+
+    beforeEach(() => {
+      adapter = new AnthropicAdapter({ apiKey: 'test-key' }, mockClient)
+    })
+
+    it('should assemble tool_use blocks from input_json_delta events', async () => {
+      mockClient.messages.create.mockResolvedValue(createMockStream([
+        { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Checking' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: {} } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Paris"}' } },
+        { type: 'content_block_stop', index: 1 },
+      ]))
+
+      const events = await collect(adapter.generateTurn([{ role: 'user', content: 'Weather?' }], makeContext()))
+
+      expect(events).toEqual([
+        { type: 'text', text: 'Checking' },
+        { type: 'toolCall', toolCall: { id: 'toolu_1', name: 'get_weather', arguments: '{"city":"Paris"}' } },
+      ])
+    })
+
+    it('should report usage from message_start and message_delta', async () => {
+      mockClient.messages.create.mockResolvedValue(createMockStream([
+        { type: 'message_start', message: { model: 'claude-3-5-sonnet-20241022', usage: { input_tokens: 20, output_tokens: 1 } } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '<ui/>' } },
+        { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 7 } },
+        { type: 'message_stop' },
+      ]))
+
+      const events = await collect(adapter.generateTurn([{ role: 'user', content: 'Hi' }], makeContext()))
+
+      expect(events).toEqual([
+        { type: 'text', text: '<ui/>' },
+        { type: 'usage', usage: { prompt: 20, completion: 7, total: 27 }, model: 'claude-3-5-sonnet-20241022' },
+      ])
+    })
+
+    it('should send tools with converted input schemas', async () => {
+      mockClient.messages.create.mockResolvedValue(createMockStream([]))
+      const context = makeContext()
+      context.actions.set('get_weather', {
+        name: 'get_weather',
+        description: 'Get weather',
+        parameters: z.object({ city: z.string() }),
+        handler: async () => ({ success: true }),
+      })
+
+      await collect(adapter.generateTurn([{ role: 'user', content: 'Weather?' }], context))
+
+      expect(mockClient.messages.create.mock.calls[0][0].tools).toEqual([
+        {
+          name: 'get_weather',
+          description: 'Get weather',
+          input_schema: {
+            type: 'object',
+            properties: { city: { type: 'string' } },
+            required: ['city'],
+            additionalProperties: false,
+          },
+        },
+      ])
+    })
+
+    it('should move system messages to the system parameter and merge tool results', async () => {
+      mockClient.messages.create.mockResolvedValue(createMockStream([]))
+
+      await collect(adapter.generateTurn([
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Compare' },
+        {
+          role: 'assistant',
+          content: null,
+          toolCalls: [
+            { id: 'toolu_1', name: 'get_weather', arguments: '{"city":"Paris"}' },
+            { id: 'toolu_2', name: 'get_weather', arguments: '{"city":"Rome"}' },
+          ],
+        },
+        { role: 'tool', toolCallId: 'toolu_1', content: '{"temp":20}' },
+        { role: 'tool', toolCallId: 'toolu_2', content: '{"temp":25}' },
+      ], makeContext()))
+
+      const request = mockClient.messages.create.mock.calls[0][0]
+      expect(request.system).toBe('Be brief')
+      expect(request.messages).toEqual([
+        { role: 'user', content: 'Compare' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+            { type: 'tool_use', id: 'toolu_2', name: 'get_weather', input: { city: 'Rome' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: '{"temp":20}' },
+            { type: 'tool_result', tool_use_id: 'toolu_2', content: '{"temp":25}' },
+          ],
+        },
+      ])
+    })
+
+    it('should put the system prompt from options before system messages', async () => {
+      mockClient.messages.create.mockResolvedValue(createMockStream([]))
+
+      await collect(adapter.generateTurn(
+        [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }],
+        makeContext(),
+        { systemPrompt: 'Use only these components: button', responseFormat: { name: 'a2ui', schema: {} } }
+      ))
+
+      const request = mockClient.messages.create.mock.calls[0][0]
+      expect(request.system).toBe('Use only these components: button\n\nBe brief')
+      expect(request.response_format).toBeUndefined()
+    })
+  })
 })
@@ -0,0 +1,320 @@
+/**
+ * Mock Adapter Test Suite
+ *
+ * Tests for the scripted adapters covering:
+ * - Replaying scripted text, tool calls and usage
+ * - Driving the runtime's tool loop
+ * - Latency and failures
+ * - Recording and replaying turns
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { z } from 'zod'
+
+import { MockLLMAdapter, RecordingLLMAdapter } from '../../src/adapters/mock-adapter.js'
+import { A2UIRuntime } from '../../src/runtime/a2ui-runtime.js'
+import { LLMProviderError, RuntimeError } from '../../src/errors/runtime-errors.js'
+
+const createContext = (actions = new Map()) => ({
+  requestId: 'req-1',
+  timestamp: new Date(),
+  actions,
+  metadata: {},
+})
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = []
+  for await (const item of iterable) {
+    items.push(item)
+  }
+  return items
+}
+
+const collectIterator = async (iterator: AsyncIterator<string>): Promise<string[]> => {
+  const chunks: string[] = []
+  let result = await iterator.next()
+  while (!result.done) {
+    chunks.push(result.value)
+    result = await iterator.next()
+  }
+  return chunks
+}
+
+const user = (content: string) => [{ role: 'user' as const, content }]
+
+describe('MockLLMAdapter', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  // ========================================
+  // 1. Scripted Turns
+  // ========================================
+  describe('Scripted Turns', () => {
+    it('should replay text chunks, tool calls and usage in order', async () => {
+      const adapter = new MockLLMAdapter({
+        model: 'scripted',
+        turns: [
+          {
+            chunks: ['<ui>', '</ui>'],
+            toolCalls: [{ id: 'call_1', name: 'lookup', arguments: { input: 'a' } }],
+            usage: { prompt: 10, completion: 5 },
+          },
+        ],
+      })
+
+      const events = await collect(adapter.generateTurn(user('Hi'), createContext()))
+
+      expect(events).toEqual([
+        { type: 'text', text: '<ui>' },
+        { type: 'text', text: '</ui>' },
+        {
+          type: 'toolCall',
+          toolCall: { id: 'call_1', name: 'lookup', arguments: '{"input":"a"}' },
+        },
+        { type: 'usage', usage: { prompt: 10, completion: 5, total: 15 }, model: 'scripted' },
+      ])
+    })
+
+    it('should generate tool call ids when none are given', async () => {
+      const adapter = new MockLLMAdapter({
+        turns: [{ toolCalls: [{ name: 'a' }, { name: 'b', arguments: '{}' }] }],
+      })
+
+      const events = await collect(adapter.generateTurn(user('Hi'), createContext()))
+
+      const ids = events.map((event) => (event.type === 'toolCall' ? event.toolCall.id : undefined))
+      expect(new Set(ids).size).toBe(2)
+      expect(events[0]).toMatchObject({ toolCall: { name: 'a', arguments: '{}' } })
+    })
+
+    it('should use one turn per call and record the calls', async () => {
+      const adapter = new MockLLMAdapter({ turns: [{ chunks: ['one'] }, { chunks: ['two'] }] })
+      const actions = new Map([['lookup', {} as any]])
+
+      const first = await collectIterator(adapter.generateUI('First', createContext(actions)))
+      const second = await collectIterator(adapter.generateUI('Second', createContext()))
+
+      expect(first).toEqual(['one'])
+      expect(second).toEqual(['two'])
+      expect(adapter.calls).toHaveLength(2)
+      expect(adapter.calls[0]?.messages).toEqual(user('First'))
+      expect(adapter.calls[0]?.tools).toEqual(['lookup'])
+      expect(adapter.remainingTurns).toBe(0)
+    })
+
+    it('should throw once the script is exhausted', async () => {
+      const adapter = new MockLLMAdapter({ turns: [{ chunks: ['only'] }] })
+      await collect(adapter.generateTurn(user('Hi'), createContext()))
+
+      const error = await collect(adapter.generateTurn(user('Again'), createContext())).catch(
+        (e) => e
+      )
+
+      expect(error).toBeInstanceOf(RuntimeError)
+      expect(error.code).toBe('MOCK_SCRIPT_EXHAUSTED')
+    })
+
+    it('should start over when looping', async () => {
+      const adapter = new MockLLMAdapter({
+        turns: [{ chunks: ['a'] }, { chunks: ['b'] }],
+        loop: true,
+      })
+
+      const chunks: string[] = []
+      for (let i = 0; i < 3; i++) {
+        chunks.push(...(await collectIterator(adapter.generateUI('Hi', createContext()))))
+      }
+
+      expect(chunks).toEqual(['a', 'b', 'a'])
+    })
+
+    it('should stream responses with callbacks', async () => {
+      const adapter = new MockLLMAdapter({ turns: [{ chunks: ['x', 'y'] }] })
+      const onChunk = vi.fn()
+      const onComplete = vi.fn()
+
+      const chunks = await collectIterator(
+        adapter.streamResponse(user('Hi'), { onChunk, onComplete })
+      )
+
+      expect(chunks).toEqual(['x', 'y'])
+      expect(onChunk).toHaveBeenCalledTimes(2)
+      expect(onComplete).toHaveBeenCalled()
+    })
+  })
+
+  // ========================================
+  // 2. Latency and Failures
+  // ========================================
+  describe('Latency and Failures', () => {
+    it('should wait before each event', async () => {
+      vi.useFakeTimers()
+      const adapter = new MockLLMAdapter({ turns: [{ chunks: ['a', 'b'] }], latencyMs: 100 })
+      const received: string[] = []
+
+      const done = (async () => {
+        for await (const chunk of {
+          [Symbol.asyncIterator]: () => adapter.generateUI('Hi', createContext()),
+        }) {
+          received.push(chunk)
+        }
+      })()
+
+      await vi.advanceTimersByTimeAsync(99)
+      expect(received).toEqual([])
+      await vi.advanceTimersByTimeAsync(1)
+      expect(received).toEqual(['a'])
+      await vi.advanceTimersByTimeAsync(100)
+      await done
+      expect(received).toEqual(['a', 'b'])
+    })
+
+    it('should let a turn override the latency', async () => {
+      vi.useFakeTimers()
+      const adapter = new MockLLMAdapter({
+        turns: [{ chunks: ['a'], latencyMs: 0 }],
+        latencyMs: 1000,
+      })
+
+      const chunks = await collectIterator(adapter.generateUI('Hi', createContext()))
+
+      expect(chunks).toEqual(['a'])
+    })
+
+    it('should fail after the configured number of events', async () => {
+      const adapter = new MockLLMAdapter({
+        provider: 'scripted',
+        turns: [
+          {
+            chunks: ['a', 'b', 'c'],
+            error: { message: 'Overloaded', status: 529, afterEvents: 2 },
+          },
+        ],
+      })
+      const received: string[] = []
+
+      const error = await (async () => {
+        for await (const chunk of {
+          [Symbol.asyncIterator]: () => adapter.generateUI('Hi', createContext()),
+        }) {
+          received.push(chunk)
+        }
+      })().catch((e) => e)
+
+      expect(received).toEqual(['a', 'b'])
+      expect(error).toBeInstanceOf(LLMProviderError)
+      expect(error.provider).toBe('scripted')
+      expect(error.status).toBe(529)
+    })
+
+    it('should report failures through the runtime', async () => {
+      const adapter = new MockLLMAdapter({
+        turns: [{ error: { message: 'Rate limited', status: 429 } }],
+      })
+      const runtime = new A2UIRuntime({ adapter })
+
+      const response = await runtime.process({
+        prompt: 'Hi',
+        context: runtime.createContext('req-fail'),
+      })
+
+      expect(response.status).toBe('error')
+      expect(response.error?.code).toBe('LLM_PROVIDER_ERROR')
+    })
+  })
+
+  // ========================================
+  // 3. Runtime Integration
+  // ========================================
+  describe('Runtime Integration', () => {
+    it('should drive the tool loop and report usage', async () => {
+      const handler = vi.fn(async (params: { city: string }) => ({
+        success: true,
+        data: `Sunny in ${params.city}`,
+      }))
+      const adapter = new MockLLMAdapter({
+        turns: [
+          {
+            toolCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: 'Oslo' } }],
+            usage: { prompt: 20, completion: 5 },
+          },
+          { chunks: ['<ui>', '</ui>'], usage: { prompt: 40, completion: 10 } },
+        ],
+      })
+      const runtime = new A2UIRuntime({
+        adapter,
+        actions: [
+          {
+            name: 'getWeather',
+            description: 'Get weather',
+            parameters: z.object({ city: z.string() }),
+            handler,
+          },
+        ],
+      })
+
+      const response = await runtime.process({
+        prompt: 'Weather?',
+        context: runtime.createContext('req-tools'),
+      })
+
+      expect(response.status).toBe('success')
+      expect(response.content).toBe('<ui></ui>')
+      expect(handler).toHaveBeenCalledWith({ city: 'Oslo' })
+      expect(response.metrics.tokensUsed.total).toBe(75)
+      const toolMessage = adapter.calls[1]?.messages.find((message) => message.role === 'tool')
+      expect(toolMessage?.toolCallId).toBe('call_1')
+      expect(toolMessage?.content).toContain('Sunny in Oslo')
+    })
+
+    it('should validate action parameters', async () => {
+      const adapter = new MockLLMAdapter({ turns: [] })
+      const action = {
+        name: 'a',
+        description: 'A',
+        parameters: z.object({ n: z.number() }),
+        handler: vi.fn(),
+      }
+
+      const result = await adapter.executeAction(action, { n: 'nope' })
+
+      expect(result.success).toBe(false)
+      expect(action.handler).not.toHaveBeenCalled()
+    })
+  })
+
+  // ========================================
+  // 4. Recording
+  // ========================================
+  describe('Recording', () => {
+    it('should record turns that replay identically', async () => {
+      const source = new MockLLMAdapter({
+        turns: [
+          { toolCalls: [{ id: 'call_1', name: 'lookup', arguments: { input: 'a' } }] },
+          { chunks: ['<ui>', '</ui>'], usage: { prompt: 3, completion: 2 } },
+        ],
+      })
+      const recorder = new RecordingLLMAdapter(source)
+      const first = await collect(recorder.generateTurn(user('Hi'), createContext()))
+      const second = await collect(recorder.generateTurn(user('Hi'), createContext()))
+
+      const replay = MockLLMAdapter.fromRecording(JSON.parse(JSON.stringify(recorder.turns)))
+
+      expect(recorder.provider).toBe('mock')
+      expect(recorder.turns).toHaveLength(2)
+      expect(await collect(replay.generateTurn(user('Hi'), createContext()))).toEqual(first)
+      expect(await collect(replay.generateTurn(user('Hi'), createContext()))).toEqual(second)
+    })
+
+    it('should not record a failed turn', async () => {
+      const recorder = new RecordingLLMAdapter(
+        new MockLLMAdapter({ turns: [{ error: { message: 'boom' } }] })
+      )
+
+      await collect(recorder.generateTurn(user('Hi'), createContext())).catch(() => undefined)
+
+      expect(recorder.turns).toEqual([])
+    })
+  })
+})
@@ -657,4 +657,127 @@ describe('OpenAIAdapter', () => {
       expect(adapter.provider).toBe('openai')
     })
   })
+
+  // ========================================
+  // 8. generateTurn / Tool Calls
+  // ========================================
+  describe('generateTurn', () => {
+    const weatherAction = {
+      name: 'get_weather',
+      description: 'Get weather',
+      parameters: z.object({ city: z.string().describe('City name') }),
+      handler: async () => ({ success: true })
+    }
+
+    const collect = async (iterable: AsyncIterable<any>) => {
+      const events: any[] = []
+      for await (const event of iterable) {
+        events.push(event)
+      }
+      return events
+    }
+
+    beforeEach(() => {
+      adapter = new OpenAIAdapter({ apiKey: 'test-key' }, mockClient)
+    })
+
+    it('should assemble streamed tool call deltas', async () => {
+      mockClient.chat.completions.create.mockResolvedValue(createMockStream([
+        { delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_weather', arguments: '' } }] } },
+        { delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] } },
+        { delta: { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }] } }
+      ]))
+
+      const context = { requestId: 'req-t1', actions: new Map([['get_weather', weatherAction]]), metadata: {}, timestamp: new Date() }
+      const events = await collect(adapter.generateTurn([{ role: 'user', content: 'Weather?' }], context))
+
+      expect(events).toEqual([
+        { type: 'toolCall', toolCall: { id: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' } }
+      ])
+    })
+
+    it('should send converted tool schemas', async () => {
+      mockClient.chat.completions.create.mockResolvedValue(createMockStream([]))
+
+      const context = { requestId: 'req-t2', actions: new Map([['get_weather', weatherAction]]), metadata: {}, timestamp: new Date() }
+      await collect(adapter.generateTurn([{ role: 'user', content: 'Weather?' }], context))
+
+      const request = mockClient.chat.completions.create.mock.calls[0][0]
+      expect(request.tools[0].function.parameters).toEqual({
+        type: 'object',
+        properties: { city: { type: 'string', description: 'City name' } },
+        required: ['city'],
+        additionalProperties: false
+      })
+    })
+
+    it('should request and report token usage', async () => {
+      mockClient.chat.completions.create.mockResolvedValue({
+        [Symbol.asyncIterator]: async function* () {
+          yield { model: 'gpt-4o-2024-08-06', choices: [{ delta: { content: '<ui/>' } }] }
+          yield { model: 'gpt-4o-2024-08-06', choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } }
+        }
+      })
+
+      const context = { requestId: 'req-t5', actions: new Map(), metadata: {}, timestamp: new Date() }
+      const events = await collect(adapter.generateTurn([{ role: 'user', content: 'Hi' }], context))
+
+      expect(mockClient.chat.completions.create).toHaveBeenCalledWith(
+        expect.objectContaining({ stream_options: { include_usage: true } })
+      )
+      expect(events).toEqual([
+        { type: 'text', text: '<ui/>' },
+        { type: 'usage', usage: { prompt: 12, completion: 3, total: 15 }, model: 'gpt-4o-2024-08-06' }
+      ])
+    })
+
+    it('should omit tools when no actions are registered', async () => {
+      mockClient.chat.completions.create.mockResolvedValue(createMockStream([]))
+
+      const context = { requestId: 'req-t3', actions: new Map(), metadata: {}, timestamp: new Date() }
+      await collect(adapter.generateTurn([{ role: 'user', content: 'Hi' }], context))
+
+      expect(mockClient.chat.completions.create.mock.calls[0][0].tools).toBeUndefined()
+    })
+
+    it('should use the system prompt and response format from options', async () => {
+      mockClient.chat.completions.create.mockResolvedValue(createMockStream([]))
+
+      const context = { requestId: 'req-t6', actions: new Map(), metadata: {}, timestamp: new Date() }
+      const schema = { type: 'object', properties: { messages: { type: 'array' } } }
+      await collect(adapter.generateTurn([{ role: 'user', content: 'Hi' }], context, {
+        systemPrompt: 'Use only these components: button',
+        responseFormat: { name: 'a2ui_messages', schema }
+      }))
+
+      const request = mockClient.chat.completions.create.mock.calls[0][0]
+      expect(request.messages[0]).toEqual({ role: 'system', content: 'Use only these components: button' })
+      expect(request.response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'a2ui_messages', schema }
+      })
+    })
+
+    it('should send assistant tool calls and tool results in OpenAI format', async () => {
+      mockClient.chat.completions.create.mockResolvedValue(createMockStream([{ delta: { content: 'done' } }]))
+
+      const context = { requestId: 'req-t4', actions: new Map(), metadata: {}, timestamp: new Date() }
+      const events = await collect(adapter.generateTurn([
+        { role: 'user', content: 'Weather?' },
+        { role: 'assistant', content: null, toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: '{}' }] },
+        { role: 'tool', name: 'get_weather', toolCallId: 'call_1', content: '{"temp":20}' }
+      ], context))
+
+      expect(events).toEqual([{ type: 'text', text: 'done' }])
+      expect(mockClient.chat.completions.create.mock.calls[0][0].messages.slice(1)).toEqual([
+        { role: 'user', content: 'Weather?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{}' } }]
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"temp":20}' }
+      ])
+    })
+  })
 })
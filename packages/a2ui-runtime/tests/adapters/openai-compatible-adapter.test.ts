@@ -0,0 +1,282 @@
+/**
+ * OpenAI-Compatible Adapter Test Suite
+ *
+ * Tests for the fetch-based adapter covering:
+ * - Requests to the configured base URL
+ * - Server-sent event parsing
+ * - Tool calls and usage
+ * - HTTP error mapping
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'zod'
+
+import { OpenAICompatibleAdapter } from '../../src/adapters/openai-compatible-adapter.js'
+import { LLMProviderError } from '../../src/errors/runtime-errors.js'
+
+// Response streaming the given SSE lines, split across uneven byte chunks
+const sseResponse = (events: unknown[], { done = true } = {}) => {
+  const text =
+    events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('') +
+    (done ? 'data: [DONE]\n\n' : '')
+  const bytes = new TextEncoder().encode(text)
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += 7) {
+        controller.enqueue(bytes.slice(i, i + 7))
+      }
+      controller.close()
+    },
+  })
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+const delta = (value: Record<string, unknown>) => ({ choices: [{ delta: value }] })
+
+const createContext = (actions = new Map()) => ({
+  requestId: 'req-1',
+  timestamp: new Date(),
+  actions,
+  metadata: {},
+})
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = []
+  for await (const item of iterable) {
+    items.push(item)
+  }
+  return items
+}
+
+const collectIterator = async (iterator: AsyncIterator<string>): Promise<string[]> => {
+  const chunks: string[] = []
+  let result = await iterator.next()
+  while (!result.done) {
+    chunks.push(result.value)
+    result = await iterator.next()
+  }
+  return chunks
+}
+
+describe('OpenAICompatibleAdapter', () => {
+  // ========================================
+  // 1. Requests
+  // ========================================
+  describe('Requests', () => {
+    it('should post a streaming chat completion to the base URL', async () => {
+      const fetch = vi.fn(async () => sseResponse([delta({ content: 'hi' })]))
+      const adapter = new OpenAICompatibleAdapter({
+        baseUrl: 'http://localhost:11434/v1/',
+        defaultModel: 'llama3.1',
+        fetch,
+      })
+
+      await collectIterator(adapter.generateUI('Hello', createContext()))
+
+      const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+      expect(url).toBe('http://localhost:11434/v1/chat/completions')
+      expect(init.method).toBe('POST')
+      const body = JSON.parse(init.body as string)
+      expect(body.model).toBe('llama3.1')
+      expect(body.stream).toBe(true)
+      expect(body.messages).toContainEqual({ role: 'user', content: 'Hello' })
+    })
+
+    it('should send the API key and extra headers', async () => {
+      const fetch = vi.fn(async () => sseResponse([]))
+      const adapter = new OpenAICompatibleAdapter({
+        baseUrl: 'http://vllm:8000/v1',
+        defaultModel: 'mistral',
+        apiKey: 'secret',
+        headers: { 'X-Team': 'ui' },
+        fetch,
+      })
+
+      await collectIterator(adapter.generateUI('Hello', createContext()))
+
+      const headers = (fetch.mock.calls[0] as unknown as [string, RequestInit])[1]
+        .headers as Record<string, string>
+      expect(headers.Authorization).toBe('Bearer secret')
+      expect(headers['X-Team']).toBe('ui')
+    })
+
+    it('should omit the Authorization header without an API key', async () => {
+      const fetch = vi.fn(async () => sseResponse([]))
+      const adapter = new OpenAICompatibleAdapter({
+        baseUrl: 'http://localhost:8080/v1',
+        defaultModel: 'm',
+        fetch,
+      })
+
+      await collectIterator(adapter.generateUI('Hello', createContext()))
+
+      const headers = (fetch.mock.calls[0] as unknown as [string, RequestInit])[1]
+        .headers as Record<string, string>
+      expect(headers.Authorization).toBeUndefined()
+    })
+
+    it('should report the configured provider', () => {
+      const fetch = vi.fn()
+      expect(
+        new OpenAICompatibleAdapter({ baseUrl: 'http://x', defaultModel: 'm', fetch }).provider
+      ).toBe('openai-compatible')
+      expect(
+        new OpenAICompatibleAdapter({
+          baseUrl: 'http://x',
+          defaultModel: 'm',
+          provider: 'ollama',
+          fetch,
+        }).provider
+      ).toBe('ollama')
+    })
+  })
+
+  // ========================================
+  // 2. Streaming
+  // ========================================
+  describe('Streaming', () => {
+    it('should stream text deltas', async () => {
+      const fetch = vi.fn(async () =>
+        sseResponse([
+          delta({ role: 'assistant' }),
+          delta({ content: '<ui>' }),
+          delta({ content: '</ui>' }),
+        ])
+      )
+      const adapter = new OpenAICompatibleAdapter({ baseUrl: 'http://x', defaultModel: 'm', fetch })
+
+      const chunks = await collectIterator(adapter.generateUI('Hello', createContext()))
+
+      expect(chunks).toEqual(['<ui>', '</ui>'])
+    })
+
+    it('should end the stream when the server closes without [DONE]', async () => {
+      const fetch = vi.fn(async () => sseResponse([delta({ content: 'a' })], { done: false }))
+      const adapter = new OpenAICompatibleAdapter({ baseUrl: 'http://x', defaultModel: 'm', fetch })
+
+      const chunks = await collectIterator(adapter.generateUI('Hello', createContext()))
+
+      expect(chunks).toEqual(['a'])
+    })
+
+    it('should assemble tool calls and report usage', async () => {
+      const fetch = vi.fn(async () =>
+        sseResponse([
+          delta({
+            tool_calls: [
+              { index: 0, id: 'call_1', function: { name: 'getWeather', arguments: '{"ci' } },
+            ],
+          }),
+          delta({ tool_calls: [{ index: 0, function: { arguments: 'ty":"Oslo"}' } }] }),
+          {
+            choices: [],
+            model: 'qwen2.5',
+            usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+          },
+        ])
+      )
+      const adapter = new OpenAICompatibleAdapter({
+        baseUrl: 'http://x',
+        defaultModel: 'qwen2.5',
+        fetch,
+      })
+      const actions = new Map([
+        [
+          'getWeather',
+          {
+            name: 'getWeather',
+            description: 'Get weather',
+            parameters: z.object({ city: z.string() }),
+            handler: async () => ({ success: true }),
+          },
+        ],
+      ])
+
+      const events = await collect(
+        adapter.generateTurn([{ role: 'user', content: 'Weather?' }], createContext(actions))
+      )
+
+      expect(events).toContainEqual({
+        type: 'toolCall',
+        toolCall: { id: 'call_1', name: 'getWeather', arguments: '{"city":"Oslo"}' },
+      })
+      expect(events).toContainEqual({
+        type: 'usage',
+        usage: { prompt: 12, completion: 4, total: 16 },
+        model: 'qwen2.5',
+      })
+      const body = JSON.parse(
+        (fetch.mock.calls[0] as unknown as [string, RequestInit])[1].body as string
+      )
+      expect(body.tools[0].function.name).toBe('getWeather')
+    })
+  })
+
+  // ========================================
+  // 3. Error Handling
+  // ========================================
+  describe('Error Handling', () => {
+    it('should wrap HTTP errors in LLMProviderError with the status', async () => {
+      const fetch = vi.fn(
+        async () =>
+          new Response(JSON.stringify({ error: { message: 'model "x" not found' } }), {
+            status: 404,
+          })
+      )
+      const adapter = new OpenAICompatibleAdapter({
+        baseUrl: 'http://x',
+        defaultModel: 'x',
+        provider: 'ollama',
+        fetch,
+      })
+
+      const error = await collectIterator(adapter.generateUI('Hello', createContext())).catch(
+        (e) => e
+      )
+
+      expect(error).toBeInstanceOf(LLMProviderError)
+      expect(error.message).toContain('model "x" not found')
+      expect(error.provider).toBe('ollama')
+      expect(error.status).toBe(404)
+    })
+
+    it('should use the response text when the error body is not JSON', async () => {
+      const fetch = vi.fn(async () => new Response('Bad Gateway', { status: 502 }))
+      const adapter = new OpenAICompatibleAdapter({ baseUrl: 'http://x', defaultModel: 'm', fetch })
+
+      const error = await collectIterator(adapter.generateUI('Hello', createContext())).catch(
+        (e) => e
+      )
+
+      expect(error).toBeInstanceOf(LLMProviderError)
+      expect(error.message).toContain('Bad Gateway')
+      expect(error.status).toBe(502)
+    })
+
+    it('should report a timeout while waiting for the response', async () => {
+      const fetch = vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => {
+              const error = new Error('aborted')
+              error.name = 'AbortError'
+              reject(error)
+            })
+          })
+      )
+      const adapter = new OpenAICompatibleAdapter({
+        baseUrl: 'http://x',
+        defaultModel: 'm',
+        timeout: 10,
+        fetch,
+      })
+
+      const error = await collectIterator(adapter.generateUI('Hello', createContext())).catch(
+        (e) => e
+      )
+
+      expect(error).toBeInstanceOf(LLMProviderError)
+      expect(error.status).toBe(408)
+    })
+  })
+})
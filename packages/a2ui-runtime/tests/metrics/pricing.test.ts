@@ -0,0 +1,41 @@
+/**
+ * Pricing Test Suite
+ *
+ * Tests for model pricing lookup and cost calculation
+ */
+
+import { describe, it, expect } from 'vitest'
+
+import { DEFAULT_PRICING, calculateCost, findModelPricing } from '../../src/metrics/pricing.js'
+
+describe('findModelPricing', () => {
+  it('should find exact model names', () => {
+    expect(findModelPricing('gpt-4o')).toBe(DEFAULT_PRICING['gpt-4o'])
+  })
+
+  it('should resolve dated snapshots to the longest matching family', () => {
+    expect(findModelPricing('gpt-4o-mini-2024-07-18')).toBe(DEFAULT_PRICING['gpt-4o-mini'])
+    expect(findModelPricing('claude-3-5-sonnet-20241022')).toBe(DEFAULT_PRICING['claude-3-5-sonnet'])
+  })
+
+  it('should return undefined for unknown models', () => {
+    expect(findModelPricing('llama-3')).toBeUndefined()
+  })
+
+  it('should use a custom pricing table', () => {
+    expect(findModelPricing('local', { local: { input: 0, output: 0 } })).toEqual({ input: 0, output: 0 })
+  })
+})
+
+describe('calculateCost', () => {
+  it('should price prompt and completion tokens per million', () => {
+    // claude-3-5-sonnet: $3 / 1M input, $15 / 1M output
+    const cost = calculateCost('claude-3-5-sonnet-20241022', { prompt: 2000, completion: 1000, total: 3000 })
+
+    expect(cost).toBeCloseTo(0.021)
+  })
+
+  it('should return undefined when the model has no pricing', () => {
+    expect(calculateCost('llama-3', { prompt: 1, completion: 1, total: 2 })).toBeUndefined()
+  })
+})
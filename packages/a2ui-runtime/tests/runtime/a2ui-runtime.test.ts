@@ -268,6 +268,24 @@ describe('A2UIRuntime', () => {
       expect(response.metrics.latencyMs).toBeGreaterThanOrEqual(0)
       expect(response.metrics.provider).toBe('error-adapter')
     })
+
+    it('should leave usage on the context for middleware when generation fails', async () => {
+      let seen: unknown
+      const middleware = async (context: any, next: () => Promise<unknown>) => {
+        try {
+          return await next()
+        } catch (error) {
+          seen = context.metrics
+          throw error
+        }
+      }
+
+      runtime = new A2UIRuntime({ adapter: new ErrorThrowingAdapter() as any, middleware: [middleware] })
+      const context = runtime.createContext('req-error-007')
+      await runtime.process({ prompt: 'Test', context, options: {} })
+
+      expect(seen).toMatchObject({ provider: 'error-adapter', tokensUsed: { total: expect.any(Number) } })
+    })
   })
 
   // ========================================
@@ -540,4 +558,480 @@ describe('A2UIRuntime', () => {
       expect(secondMiddlewareExecuted).toBe(false)
     })
   })
+
+  // ========================================
+  // 9. Agent loop (tool calls)
+  // ========================================
+  describe('Agent loop', () => {
+    // Adapter that requests the scripted tool calls, one list per turn, then answers with UI
+    class ToolCallingAdapter {
+      provider = 'tool-provider'
+      turns: any[][] = []
+
+      constructor(private script: any[][]) {}
+
+      async *generateUI(): AsyncIterableIterator<string> {
+        yield 'plain'
+      }
+
+      async *generateTurn(messages: any[]): AsyncIterableIterator<any> {
+        this.turns.push(messages.map(message => ({ ...message })))
+        const toolCalls = this.script[this.turns.length - 1]
+        if (toolCalls) {
+          for (const toolCall of toolCalls) {
+            yield { type: 'toolCall', toolCall }
+          }
+          return
+        }
+        yield { type: 'text', text: '<ui>' }
+        yield { type: 'text', text: '</ui>' }
+      }
+    }
+
+    it('should execute tool calls and feed results back until the model answers', async () => {
+      const handler = vi.fn(async (params: { input: string }) => ({ success: true, data: params.input.toUpperCase() }))
+      const adapter = new ToolCallingAdapter([
+        [{ id: 'call_1', name: 'lookup', arguments: '{"input":"paris"}' }],
+      ])
+      runtime = new A2UIRuntime({
+        adapter: adapter as any,
+        actions: [{ ...createMockAction('lookup'), handler }],
+      })
+
+      const response = await runtime.process({ prompt: 'Weather?', context: runtime.createContext('req-loop-1') })
+
+      expect(response.status).toBe('success')
+      expect(response.content).toBe('<ui></ui>')
+      expect(handler).toHaveBeenCalledWith({ input: 'paris' })
+      expect(adapter.turns).toHaveLength(2)
+      expect(adapter.turns[1]).toEqual([
+        { role: 'user', content: 'Weather?' },
+        { role: 'assistant', content: null, toolCalls: [{ id: 'call_1', name: 'lookup', arguments: '{"input":"paris"}' }] },
+        { role: 'tool', name: 'lookup', toolCallId: 'call_1', content: '{"success":true,"data":"PARIS"}' },
+      ])
+    })
+
+    it('should report failing tool calls back to the model', async () => {
+      const adapter = new ToolCallingAdapter([
+        [
+          { id: 'call_1', name: 'broken', arguments: '{"input":"x"}' },
+          { id: 'call_2', name: 'lookup', arguments: '{not json' },
+          { id: 'call_3', name: 'missing', arguments: '{}' },
+        ],
+      ])
+      runtime = new A2UIRuntime({
+        adapter: adapter as any,
+        actions: [createFailingAction('broken'), createMockAction('lookup')],
+      })
+
+      const response = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-loop-2') })
+
+      expect(response.status).toBe('success')
+      const results = adapter.turns[1].filter(message => message.role === 'tool')
+      expect(results).toHaveLength(3)
+      for (const result of results) {
+        expect(JSON.parse(result.content)).toMatchObject({ success: false, error: expect.any(String) })
+      }
+      expect(JSON.parse(results[2].content).error).toContain('Action "missing" not found')
+    })
+
+    it('should stop after maxToolRounds', async () => {
+      const call = { id: 'call', name: 'lookup', arguments: '{"input":"x"}' }
+      const adapter = new ToolCallingAdapter([[call], [call], [call]])
+      runtime = new A2UIRuntime({
+        adapter: adapter as any,
+        actions: [createMockAction('lookup')],
+        maxToolRounds: 2,
+      })
+
+      const response = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-loop-3') })
+
+      expect(response.status).toBe('error')
+      expect(response.error.code).toBe('MAX_TOOL_ROUNDS_EXCEEDED')
+      expect(adapter.turns).toHaveLength(3)
+    })
+
+    it('should stream UI text from the final turn', async () => {
+      const adapter = new ToolCallingAdapter([
+        [{ id: 'call_1', name: 'lookup', arguments: '{"input":"a"}' }],
+      ])
+      runtime = new A2UIRuntime({ adapter: adapter as any, actions: [createMockAction('lookup')] })
+
+      const chunks: string[] = []
+      for await (const chunk of runtime.stream({ prompt: 'Go', context: runtime.createContext('req-loop-4') })) {
+        chunks.push(chunk)
+      }
+
+      expect(chunks).toEqual(['<ui>', '</ui>'])
+    })
+
+    it('should fall back to generateUI for adapters without generateTurn', async () => {
+      runtime = new A2UIRuntime({ adapter: mockAdapter as any, actions: [createMockAction('lookup')] })
+
+      const response = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-loop-5') })
+
+      expect(response.status).toBe('success')
+      expect(response.content).toContain('Hello World')
+    })
+  })
+
+  // ========================================
+  // 10. Metrics
+  // ========================================
+  describe('Metrics', () => {
+    // Adapter reporting usage like the provider adapters do
+    class UsageAdapter {
+      provider = 'usage-provider'
+
+      constructor(private turns: any[][]) {}
+
+      async *generateUI(): AsyncIterableIterator<string> {}
+
+      async *generateTurn(): AsyncIterableIterator<any> {
+        const events = this.turns.shift() ?? []
+        for (const event of events) {
+          if (event.type === 'text') {
+            await new Promise(resolve => setTimeout(resolve, 5))
+          }
+          yield event
+        }
+      }
+    }
+
+    const usage = (prompt: number, completion: number, model = 'gpt-4o-2024-08-06') => ({
+      type: 'usage',
+      usage: { prompt, completion, total: prompt + completion },
+      model,
+    })
+
+    it('should report token usage, cost, TTFT and throughput', async () => {
+      const adapter = new UsageAdapter([
+        [{ type: 'text', text: '<ui>' }, { type: 'text', text: '</ui>' }, usage(1000, 500)],
+      ])
+      runtime = new A2UIRuntime({ adapter: adapter as any })
+
+      const response = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-metrics-1') })
+
+      expect(response.metrics.tokensUsed).toEqual({ prompt: 1000, completion: 500, total: 1500 })
+      expect(response.metrics.model).toBe('gpt-4o-2024-08-06')
+      // gpt-4o: $2.50 / 1M input, $10 / 1M output
+      expect(response.metrics.costUsd).toBeCloseTo(0.0075)
+      expect(response.metrics.timeToFirstTokenMs).toBeGreaterThanOrEqual(0)
+      expect(response.metrics.tokensPerSecond).toBeGreaterThan(0)
+    })
+
+    it('should sum usage over tool-call rounds', async () => {
+      const adapter = new UsageAdapter([
+        [{ type: 'toolCall', toolCall: { id: 'c1', name: 'lookup', arguments: '{"input":"x"}' } }, usage(100, 10)],
+        [{ type: 'text', text: '<ui/>' }, usage(150, 40)],
+      ])
+      runtime = new A2UIRuntime({ adapter: adapter as any, actions: [createMockAction('lookup')] })
+
+      const response = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-metrics-2') })
+
+      expect(response.metrics.tokensUsed).toEqual({ prompt: 250, completion: 50, total: 300 })
+    })
+
+    it('should use custom pricing and leave cost undefined for unknown models', async () => {
+      runtime = new A2UIRuntime({
+        adapter: new UsageAdapter([[usage(1_000_000, 0, 'in-house-model')], [usage(10, 10, 'unknown')]]) as any,
+        pricing: { 'in-house-model': { input: 1, output: 2 } },
+      })
+
+      const priced = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-metrics-3') })
+      const unpriced = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-metrics-4') })
+
+      expect(priced.metrics.costUsd).toBe(1)
+      expect(unpriced.metrics.costUsd).toBeUndefined()
+    })
+
+    it('should send metrics to the metrics sink for processed and streamed requests', async () => {
+      const metricsSink = vi.fn()
+      runtime = new A2UIRuntime({
+        adapter: new UsageAdapter([[usage(10, 5)], [{ type: 'text', text: 'a' }, usage(20, 5)]]) as any,
+        metricsSink,
+      })
+
+      await runtime.process({ prompt: 'Go', context: runtime.createContext('req-sink-1', { surfaceId: 's1' }) })
+      for await (const _ of runtime.stream({ prompt: 'Go', context: runtime.createContext('req-sink-2') })) { /* consume */ }
+
+      expect(metricsSink).toHaveBeenCalledTimes(2)
+      expect(metricsSink.mock.calls[0][0]).toMatchObject({
+        requestId: 'req-sink-1',
+        status: 'success',
+        metadata: { surfaceId: 's1' },
+        metrics: { tokensUsed: { total: 15 } },
+      })
+      expect(metricsSink.mock.calls[1][0]).toMatchObject({ requestId: 'req-sink-2', metrics: { tokensUsed: { total: 25 } } })
+    })
+
+    it('should report errors to the sink and ignore sink failures', async () => {
+      const metricsSink = vi.fn().mockRejectedValue(new Error('sink down'))
+      runtime = new A2UIRuntime({ adapter: new ErrorThrowingAdapter() as any, metricsSink })
+
+      const response = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-sink-3') })
+
+      expect(response.status).toBe('error')
+      expect(metricsSink).toHaveBeenCalledWith(expect.objectContaining({ status: 'error' }))
+    })
+  })
+
+  // ========================================
+  // 11. Structured output
+  // ========================================
+  describe('Structured output', () => {
+    // Adapter answering each turn with the next scripted output
+    class ScriptedAdapter {
+      provider = 'scripted-provider'
+      turns: any[][] = []
+
+      constructor(private outputs: string[]) {}
+
+      async *generateUI(): AsyncIterableIterator<string> {}
+
+      async *generateTurn(messages: any[]): AsyncIterableIterator<any> {
+        this.turns.push(messages.map(message => ({ ...message })))
+        yield { type: 'text', text: this.outputs[this.turns.length - 1] ?? '' }
+      }
+    }
+
+    // Accepts JSON messages whose components all have type 'text'
+    const validator = {
+      validate: vi.fn((output: string) => {
+        try {
+          const message = JSON.parse(output)
+          const errors = message.components
+            .map((component: any, index: number) => ({ component, index }))
+            .filter(({ component }: any) => component.type !== 'text')
+            .map(({ component, index }: any) => ({
+              path: `messages[0].components[${index}].type`,
+              message: `Unknown component type '${component.type}'`,
+            }))
+          return { valid: errors.length === 0, messages: [message], errors }
+        } catch {
+          return { valid: false, messages: [], errors: [{ path: 'output', message: 'Invalid JSON' }] }
+        }
+      }),
+    }
+
+    const surface = (type: string) =>
+      JSON.stringify({ type: 'createSurface', surfaceId: 'main', components: [{ id: 'a', type }] })
+
+    beforeEach(() => {
+      validator.validate.mockClear()
+    })
+
+    it('should return validated messages', async () => {
+      const adapter = new ScriptedAdapter([surface('text')])
+      runtime = new A2UIRuntime({ adapter: adapter as any, structuredOutput: { validator } })
+
+      const response = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-so-1') })
+
+      expect(response.status).toBe('success')
+      expect(response.messages).toEqual([JSON.parse(surface('text'))])
+      expect(response.repairAttempts).toBe(0)
+      expect(adapter.turns).toHaveLength(1)
+    })
+
+    it('should send the validation errors back to the model and return the repaired output', async () => {
+      const adapter = new ScriptedAdapter([surface('carousel'), surface('text')])
+      runtime = new A2UIRuntime({ adapter: adapter as any, structuredOutput: { validator } })
+
+      const response = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-so-2') })
+
+      expect(response.status).toBe('success')
+      expect(response.content).toBe(surface('text'))
+      expect(response.repairAttempts).toBe(1)
+      expect(adapter.turns[1]).toHaveLength(3)
+      expect(adapter.turns[1][1]).toEqual({ role: 'assistant', content: surface('carousel') })
+      expect(adapter.turns[1][2].role).toBe('user')
+      expect(adapter.turns[1][2].content).toContain(
+        "- messages[0].components[0].type: Unknown component type 'carousel'"
+      )
+    })
+
+    it('should fail once the repair budget is spent', async () => {
+      const adapter = new ScriptedAdapter(['{', '{', '{'])
+      runtime = new A2UIRuntime({
+        adapter: adapter as any,
+        structuredOutput: { validator, maxRepairAttempts: 1 },
+      })
+
+      const response = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-so-3') })
+
+      expect(response.status).toBe('error')
+      expect(response.error.code).toBe('INVALID_STRUCTURED_OUTPUT')
+      expect(response.error.details.details.errors).toEqual([{ path: 'output', message: 'Invalid JSON' }])
+      expect(adapter.turns).toHaveLength(2)
+    })
+
+    it('should flatten the conversation for adapters without generateTurn', async () => {
+      const prompts: string[] = []
+      const outputs = [surface('image'), surface('text')]
+      const adapter = {
+        provider: 'legacy',
+        async *generateUI(prompt: string): AsyncIterableIterator<string> {
+          prompts.push(prompt)
+          yield outputs[prompts.length - 1]
+        },
+      }
+      runtime = new A2UIRuntime({ adapter: adapter as any, structuredOutput: { validator } })
+
+      const response = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-so-4') })
+
+      expect(response.status).toBe('success')
+      expect(prompts[1]).toContain('Go')
+      expect(prompts[1]).toContain("Unknown component type 'image'")
+    })
+
+    it('should leave responses without messages when disabled', async () => {
+      runtime = new A2UIRuntime({ adapter: new ScriptedAdapter([surface('carousel')]) as any })
+
+      const response = await runtime.process({ prompt: 'Go', context: runtime.createContext('req-so-5') })
+
+      expect(response.status).toBe('success')
+      expect(response.messages).toBeUndefined()
+      expect(validator.validate).not.toHaveBeenCalled()
+    })
+  })
+
+  // ========================================
+  // 12. Component catalog
+  // ========================================
+  describe('Component catalog', () => {
+    class RecordingAdapter {
+      provider = 'recording-provider'
+      options: any[] = []
+
+      async *generateUI(): AsyncIterableIterator<string> {}
+
+      async *generateTurn(_messages: any[], _context: any, options?: any): AsyncIterableIterator<any> {
+        this.options.push(options)
+        yield { type: 'text', text: '{"messages":[]}' }
+      }
+    }
+
+    const catalog = {
+      buildPrompt: vi.fn((selection?: any) => `catalog: ${selection?.categories?.join(',') ?? 'all'}`),
+      buildSchema: vi.fn(() => ({ type: 'object' })),
+    }
+
+    it('should send the catalog prompt and schema for the requested selection', async () => {
+      const adapter = new RecordingAdapter()
+      runtime = new A2UIRuntime({ adapter: adapter as any, catalog })
+
+      await runtime.process({
+        prompt: 'Go',
+        context: runtime.createContext('req-cat-1'),
+        catalog: { categories: ['input', 'layout'] },
+      })
+
+      expect(catalog.buildSchema).toHaveBeenCalledWith({ categories: ['input', 'layout'] })
+      expect(adapter.options[0]).toEqual({
+        systemPrompt: 'catalog: input,layout',
+        responseFormat: { name: 'a2ui_messages', schema: { type: 'object' } },
+      })
+    })
+
+    it('should let request options override the catalog', async () => {
+      const adapter = new RecordingAdapter()
+      runtime = new A2UIRuntime({ adapter: adapter as any, catalog })
+
+      await runtime.process({
+        prompt: 'Go',
+        context: runtime.createContext('req-cat-2'),
+        options: { systemPrompt: 'custom', temperature: 0 },
+      })
+
+      expect(adapter.options[0]).toMatchObject({ systemPrompt: 'custom', temperature: 0 })
+      expect(adapter.options[0].responseFormat).toBeDefined()
+    })
+
+    it('should pass request options through unchanged without a catalog', async () => {
+      const adapter = new RecordingAdapter()
+      runtime = new A2UIRuntime({ adapter: adapter as any })
+
+      await runtime.process({ prompt: 'Go', context: runtime.createContext('req-cat-3'), options: { temperature: 1 } })
+
+      expect(adapter.options[0]).toEqual({ temperature: 1 })
+    })
+  })
+
+  // ========================================
+  // 13. Middleware responses
+  // ========================================
+  describe('Middleware responses', () => {
+    it('should pass the generated response back through middleware', async () => {
+      const seen: string[] = []
+      const postProcess = async (context: any, next: () => Promise<any>) => {
+        const response = await next()
+        seen.push(response.content)
+        return { ...response, content: response.content.toUpperCase() }
+      }
+
+      runtime = new A2UIRuntime({ adapter: mockAdapter, middleware: [postProcess] })
+      const response = await runtime.process({ prompt: 'Test', context: runtime.createContext('req-mw-1') })
+
+      expect(seen).toEqual(['<component type="text" id="t1">Hello World</component>'])
+      expect(response.content).toBe('<COMPONENT TYPE="TEXT" ID="T1">HELLO WORLD</COMPONENT>')
+    })
+
+    it('should let middleware rewrite the prompt', async () => {
+      const adapter = { provider: 'mock', generateUI: vi.fn(async function* () { yield 'ok' }) }
+      const rewrite = async (context: any, next: () => Promise<any>) => {
+        context.prompt = `${context.prompt} (in French)`
+        return next()
+      }
+
+      runtime = new A2UIRuntime({ adapter: adapter as any, middleware: [rewrite] })
+      await runtime.process({ prompt: 'Greet me', context: runtime.createContext('req-mw-2') })
+
+      expect(adapter.generateUI.mock.calls[0]?.[0]).toBe('Greet me (in French)')
+    })
+
+    it('should short-circuit generation with a middleware response', async () => {
+      const adapter = { provider: 'mock', generateUI: vi.fn(async function* () { yield 'never' }) }
+      const cached = async (context: any) => ({
+        requestId: context.requestId,
+        content: 'cached',
+        status: 'success' as const,
+        timestamp: new Date(),
+        metrics: { tokensUsed: { prompt: 0, completion: 0, total: 0 }, latencyMs: 0, provider: 'cache' },
+      })
+
+      runtime = new A2UIRuntime({ adapter: adapter as any, middleware: [cached] })
+      const response = await runtime.process({ prompt: 'Test', context: runtime.createContext('req-mw-3') })
+
+      expect(response.content).toBe('cached')
+      expect(adapter.generateUI).not.toHaveBeenCalled()
+    })
+
+    it('should give streaming middleware the final content after the last chunk', async () => {
+      const events: string[] = []
+      const observe = async (context: any, next: () => Promise<any>) => {
+        events.push('before')
+        const response = await next()
+        events.push(`after:${response.content.length}`)
+        return response
+      }
+
+      runtime = new A2UIRuntime({ adapter: mockAdapter, middleware: [observe] })
+      const iterator = runtime.stream({ prompt: 'Test', context: runtime.createContext('req-mw-4') })
+
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+        events.push('chunk')
+      }
+
+      expect(events[0]).toBe('before')
+      expect(events.filter(event => event === 'chunk')).toHaveLength(5)
+      expect(events[events.length - 1]).toBe('after:54')
+    })
+
+    it('should surface middleware errors from the stream', async () => {
+      runtime = new A2UIRuntime({ adapter: mockAdapter, middleware: [createErrorMiddleware()] })
+      const iterator = runtime.stream({ prompt: 'Test', context: runtime.createContext('req-mw-5') })
+
+      await expect(iterator.next()).rejects.toThrow('Middleware error')
+    })
+  })
 })
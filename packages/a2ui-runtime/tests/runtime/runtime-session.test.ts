@@ -0,0 +1,389 @@
+/**
+ * RuntimeSession Test Suite
+ *
+ * Tests for multi-turn sessions covering:
+ * - Conversation history
+ * - Surface tracking and snapshots
+ * - User actions as turns
+ * - History trimming and summaries
+ * - Serialization
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+import { A2UIRuntime } from '../../src/runtime/a2ui-runtime.js'
+import { parseA2UIMessages } from '../../src/runtime/runtime-session.js'
+import { MockLLMAdapter } from '../../src/adapters/mock-adapter.js'
+import type { MockTurn } from '../../src/adapters/mock-adapter.js'
+
+const ui = (...messages: unknown[]): MockTurn => ({ chunks: [JSON.stringify(messages)] })
+
+const createSurface = {
+  type: 'createSurface',
+  surfaceId: 'signup',
+  components: [
+    { id: 'form', type: 'form', children: ['name', 'email', 'phone'] },
+    { id: 'name', type: 'textField', label: 'Name' },
+    { id: 'email', type: 'textField', label: 'Email' },
+    { id: 'phone', type: 'textField', label: 'Phone' },
+  ],
+  dataModel: { user: { name: '' } },
+}
+
+const shortenForm = {
+  type: 'updateComponents',
+  surfaceId: 'signup',
+  updates: [
+    { id: 'phone', operation: 'remove' },
+    {
+      id: 'form',
+      operation: 'update',
+      component: { id: 'form', type: 'form', children: ['name', 'email'] },
+    },
+  ],
+}
+
+const createRuntime = (turns: MockTurn[]) => {
+  const adapter = new MockLLMAdapter({ turns })
+  return { adapter, runtime: new A2UIRuntime({ adapter }) }
+}
+
+const collectIterator = async (iterator: AsyncIterator<string>): Promise<string[]> => {
+  const chunks: string[] = []
+  let result = await iterator.next()
+  while (!result.done) {
+    chunks.push(result.value)
+    result = await iterator.next()
+  }
+  return chunks
+}
+
+describe('RuntimeSession', () => {
+  // ========================================
+  // 1. Conversation History
+  // ========================================
+  describe('Conversation History', () => {
+    it('should send earlier turns with each prompt', async () => {
+      const { adapter, runtime } = createRuntime([{ chunks: ['Hello!'] }, { chunks: ['Sure.'] }])
+      const session = runtime.createSession()
+
+      await session.send('Hi')
+      await session.send('Again')
+
+      const messages = adapter.calls[1]?.messages
+      expect(messages).toEqual([
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello!' },
+        { role: 'user', content: 'Again' },
+      ])
+    })
+
+    it('should store UI output as a short list of messages sent', async () => {
+      const { runtime } = createRuntime([ui(createSurface)])
+      const session = runtime.createSession()
+
+      await session.send('Create a signup form')
+
+      expect(session.getHistory()[1]).toEqual({
+        role: 'assistant',
+        content: 'Sent A2UI messages: createSurface (signup)',
+      })
+    })
+
+    it('should not record failed turns', async () => {
+      const { runtime } = createRuntime([{ error: { message: 'Overloaded', status: 529 } }])
+      const session = runtime.createSession()
+
+      const response = await session.send('Hi')
+
+      expect(response.status).toBe('error')
+      expect(session.getHistory()).toEqual([])
+    })
+
+    it('should tag requests with the session', async () => {
+      const { runtime } = createRuntime([{ chunks: ['ok'] }])
+      const metadataSeen = vi.fn()
+      runtime['middleware'] = async (context: any, next: any) => {
+        metadataSeen(context.requestId, context.metadata)
+        return next()
+      }
+      const session = runtime.createSession({ id: 'sess-1', metadata: { tenantId: 't1' } })
+
+      await session.send('Hi', { metadata: { page: 'home' } })
+
+      expect(metadataSeen).toHaveBeenCalledWith('sess-1:1', {
+        tenantId: 't1',
+        page: 'home',
+        sessionId: 'sess-1',
+      })
+    })
+
+    it('should record streamed turns once the stream completes', async () => {
+      const { adapter, runtime } = createRuntime([{ chunks: ['a', 'b'] }, { chunks: ['c'] }])
+      const session = runtime.createSession()
+
+      expect(await collectIterator(session.stream('First'))).toEqual(['a', 'b'])
+      await session.send('Second')
+
+      expect(adapter.calls[1]?.messages[1]).toEqual({ role: 'assistant', content: 'ab' })
+    })
+
+    it('should reject a turn while another is running', async () => {
+      const { runtime } = createRuntime([{ chunks: ['a'], latencyMs: 5 }])
+      const session = runtime.createSession()
+
+      const first = session.send('First')
+
+      await expect(session.send('Second')).rejects.toMatchObject({ code: 'SESSION_BUSY' })
+      await first
+    })
+  })
+
+  // ========================================
+  // 2. Surfaces
+  // ========================================
+  describe('Surfaces', () => {
+    it('should track surfaces created and updated by the model', async () => {
+      const { runtime } = createRuntime([
+        ui(createSurface),
+        ui(shortenForm, {
+          type: 'updateDataModel',
+          surfaceId: 'signup',
+          updates: [{ path: '/user/email', operation: 'set', value: 'a@b.co' }],
+        }),
+      ])
+      const session = runtime.createSession()
+
+      await session.send('Create a signup form')
+      await session.send('Make the form shorter')
+
+      const surface = session.getSurface('signup')
+      expect(surface?.components.map((component) => component.id)).toEqual([
+        'form',
+        'name',
+        'email',
+      ])
+      expect(surface?.components[0]).toMatchObject({ children: ['name', 'email'] })
+      expect(surface?.dataModel).toEqual({ user: { name: '', email: 'a@b.co' } })
+    })
+
+    it('should send a snapshot of the current surfaces', async () => {
+      const { adapter, runtime } = createRuntime([ui(createSurface), ui(shortenForm)])
+      const session = runtime.createSession()
+
+      await session.send('Create a signup form')
+      await session.send('Make the form shorter')
+
+      const snapshot = adapter.calls[1]?.messages.find((message) => message.role === 'system')
+      expect(snapshot?.content).toContain('Surface "signup"')
+      expect(snapshot?.content).toContain('"label":"Phone"')
+      expect(snapshot?.content).toContain('Data model: {"user":{"name":""}}')
+      expect(adapter.calls[0]?.messages.some((message) => message.role === 'system')).toBe(false)
+    })
+
+    it('should outline components when the snapshot is too long', async () => {
+      const { adapter, runtime } = createRuntime([ui(createSurface), { chunks: ['ok'] }])
+      const session = runtime.createSession({ maxSnapshotChars: 350 })
+
+      await session.send('Create a signup form')
+      await session.send('Hi')
+
+      const snapshot = adapter.calls[1]?.messages.find(
+        (message) => message.role === 'system'
+      )?.content
+      expect(snapshot).toContain('{"id":"name","type":"textField"}')
+      expect(snapshot).not.toContain('label')
+    })
+
+    it('should drop deleted surfaces', async () => {
+      const { runtime } = createRuntime([
+        ui(createSurface),
+        ui({ type: 'deleteSurface', surfaceId: 'signup' }),
+      ])
+      const session = runtime.createSession()
+
+      await session.send('Create a signup form')
+      await session.send('Close it')
+
+      expect(session.getSurfaces()).toEqual([])
+    })
+
+    it('should apply messages produced outside the session', () => {
+      const { runtime } = createRuntime([])
+      const session = runtime.createSession()
+
+      session.applyMessages([createSurface])
+
+      expect(session.getSurface('signup')?.components).toHaveLength(4)
+    })
+
+    it('should ignore data updates through prototype keys', () => {
+      const { runtime } = createRuntime([])
+      const session = runtime.createSession()
+
+      session.applyMessages([
+        createSurface,
+        {
+          type: 'updateDataModel',
+          surfaceId: 'signup',
+          updates: [
+            { path: '/__proto__/polluted', operation: 'set', value: 'yes' },
+            { path: '/user/constructor/prototype/polluted', operation: 'set', value: 'yes' },
+          ],
+        },
+      ])
+
+      expect(({} as Record<string, unknown>)['polluted']).toBeUndefined()
+      expect(session.getSurface('signup')?.dataModel).toEqual({ user: { name: '' } })
+    })
+  })
+
+  // ========================================
+  // 3. User Actions
+  // ========================================
+  describe('User Actions', () => {
+    it('should send a user action as a turn with the client data model', async () => {
+      const { adapter, runtime } = createRuntime([ui(createSurface), { chunks: ['Thanks!'] }])
+      const session = runtime.createSession()
+      await session.send('Create a signup form')
+
+      await session.sendAction({
+        surfaceId: 'signup',
+        action: 'submit',
+        componentId: 'form',
+        context: { step: 1 },
+        dataModel: { user: { name: 'Ada' } },
+      })
+
+      const messages = adapter.calls[1]?.messages ?? []
+      expect(messages[messages.length - 1]).toEqual({
+        role: 'user',
+        content:
+          'User action "submit" on surface "signup" from component "form" with context {"step":1}',
+      })
+      expect(messages.find((message) => message.role === 'system')?.content).toContain(
+        '{"user":{"name":"Ada"}}'
+      )
+      expect(session.getSurface('signup')?.dataModel).toEqual({ user: { name: 'Ada' } })
+    })
+  })
+
+  // ========================================
+  // 4. History Budget
+  // ========================================
+  describe('History Budget', () => {
+    it('should drop the oldest turns beyond the token budget', async () => {
+      const { runtime } = createRuntime([
+        { chunks: ['one'] },
+        { chunks: ['two'] },
+        { chunks: ['three'] },
+      ])
+      const session = runtime.createSession({
+        maxHistoryTokens: 5,
+        estimateTokens: (text) => text.split(' ').length,
+      })
+
+      await session.send('first prompt')
+      await session.send('second prompt')
+      await session.send('third prompt')
+
+      expect(session.getHistory()).toEqual([
+        { role: 'user', content: 'third prompt' },
+        { role: 'assistant', content: 'three' },
+      ])
+    })
+
+    it('should summarize trimmed turns', async () => {
+      const { adapter, runtime } = createRuntime([
+        { chunks: ['one'] },
+        { chunks: ['two'] },
+        { chunks: ['three'] },
+      ])
+      const summarize = vi.fn(async (messages: any[], previous?: string) =>
+        [previous, ...messages.map((message) => message.content)].filter(Boolean).join('; ')
+      )
+      const session = runtime.createSession({
+        maxHistoryTokens: 5,
+        estimateTokens: (text) => text.split(' ').length,
+        summarize,
+      })
+
+      await session.send('first prompt')
+      await session.send('second prompt')
+      await session.send('third prompt')
+
+      expect(summarize).toHaveBeenCalledTimes(2)
+      expect(session.toJSON().summary).toBe('first prompt; one; second prompt; two')
+      expect(adapter.calls[2]?.messages[0]).toEqual({
+        role: 'system',
+        content: 'Summary of the earlier conversation:\nfirst prompt; one',
+      })
+    })
+
+    it('should always keep the latest turn', async () => {
+      const { runtime } = createRuntime([{ chunks: ['a long answer that is over budget'] }])
+      const session = runtime.createSession({ maxHistoryTokens: 1 })
+
+      await session.send('Hi')
+
+      expect(session.getHistory()).toHaveLength(2)
+    })
+  })
+
+  // ========================================
+  // 5. Serialization
+  // ========================================
+  describe('Serialization', () => {
+    it('should restore a session from JSON', async () => {
+      const { adapter, runtime } = createRuntime([ui(createSurface), ui(shortenForm)])
+      const session = runtime.createSession({ id: 'sess-1' })
+      await session.send('Create a signup form')
+
+      const saved = JSON.parse(JSON.stringify(session))
+      const restored = runtime.restoreSession(saved)
+      await restored.send('Make the form shorter')
+
+      expect(restored.id).toBe('sess-1')
+      expect(adapter.calls[1]?.messages[0]).toEqual({
+        role: 'user',
+        content: 'Create a signup form',
+      })
+      expect(restored.toJSON().turns).toBe(2)
+      expect(restored.getSurface('signup')?.components).toHaveLength(3)
+      expect(session.getSurface('signup')?.components).toHaveLength(4)
+    })
+
+    it('should reject unknown state versions', () => {
+      const { runtime } = createRuntime([])
+
+      expect(() =>
+        runtime.restoreSession({ version: 2, id: 'x', turns: 0, messages: [], surfaces: {} } as any)
+      ).toThrow(/Unsupported session state version/)
+    })
+  })
+
+  // ========================================
+  // 6. parseA2UIMessages
+  // ========================================
+  describe('parseA2UIMessages', () => {
+    it('should parse arrays, message objects and JSON lines', () => {
+      expect(parseA2UIMessages('[{"type":"createSurface","surfaceId":"a"}]')).toHaveLength(1)
+      expect(
+        parseA2UIMessages('{"messages":[{"type":"deleteSurface","surfaceId":"a"}]}')
+      ).toHaveLength(1)
+      expect(
+        parseA2UIMessages('```json\n{"type":"deleteSurface","surfaceId":"a"}\n```')
+      ).toHaveLength(1)
+      expect(
+        parseA2UIMessages(
+          '{"type":"createSurface","surfaceId":"a"}\n{"type":"deleteSurface","surfaceId":"a"}'
+        )
+      ).toHaveLength(2)
+    })
+
+    it('should return no messages for plain text', () => {
+      expect(parseA2UIMessages('Here is your form')).toEqual([])
+      expect(parseA2UIMessages('{not json')).toEqual([])
+    })
+  })
+})
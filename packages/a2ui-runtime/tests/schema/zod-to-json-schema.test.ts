@@ -0,0 +1,214 @@
+/**
+ * zodToJsonSchema Test Suite
+ *
+ * Tests for converting action parameter schemas to JSON Schema covering:
+ * - Objects and required properties
+ * - Primitives and their constraints
+ * - Enums, literals and unions
+ * - Optionals, nullables and defaults
+ * - Arrays, tuples and records
+ * - Descriptions
+ */
+
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+
+import { zodToJsonSchema } from '../../src/schema/zod-to-json-schema.js'
+
+describe('zodToJsonSchema', () => {
+  describe('Objects', () => {
+    it('should convert properties and mark non-optional ones required', () => {
+      const schema = z.object({
+        city: z.string(),
+        units: z.string().optional(),
+        days: z.number().default(1),
+      })
+
+      expect(zodToJsonSchema(schema)).toEqual({
+        type: 'object',
+        properties: {
+          city: { type: 'string' },
+          units: { type: 'string' },
+          days: { type: 'number', default: 1 },
+        },
+        required: ['city'],
+        additionalProperties: false,
+      })
+    })
+
+    it('should convert nested objects', () => {
+      const schema = z.object({ address: z.object({ zip: z.string() }) })
+
+      expect(zodToJsonSchema(schema).properties?.address).toEqual({
+        type: 'object',
+        properties: { zip: { type: 'string' } },
+        required: ['zip'],
+        additionalProperties: false,
+      })
+    })
+
+    it('should allow extra keys for passthrough and catchall objects', () => {
+      expect(zodToJsonSchema(z.object({}).passthrough()).additionalProperties).toBe(true)
+      expect(zodToJsonSchema(z.object({}).catchall(z.number())).additionalProperties).toEqual({
+        type: 'number',
+      })
+    })
+  })
+
+  describe('Primitives', () => {
+    it('should convert string constraints and formats', () => {
+      expect(zodToJsonSchema(z.string().min(2).max(10))).toEqual({
+        type: 'string',
+        minLength: 2,
+        maxLength: 10,
+      })
+      expect(zodToJsonSchema(z.string().email())).toEqual({ type: 'string', format: 'email' })
+      expect(zodToJsonSchema(z.string().url())).toEqual({ type: 'string', format: 'uri' })
+      expect(zodToJsonSchema(z.string().regex(/^[a-z]+$/))).toEqual({
+        type: 'string',
+        pattern: '^[a-z]+$',
+      })
+    })
+
+    it('should convert number constraints', () => {
+      expect(zodToJsonSchema(z.number().int().min(1).lt(100))).toEqual({
+        type: 'integer',
+        minimum: 1,
+        exclusiveMaximum: 100,
+      })
+    })
+
+    it('should convert booleans and dates', () => {
+      expect(zodToJsonSchema(z.boolean())).toEqual({ type: 'boolean' })
+      expect(zodToJsonSchema(z.date())).toEqual({ type: 'string', format: 'date-time' })
+    })
+  })
+
+  describe('Enums and unions', () => {
+    it('should convert zod enums', () => {
+      expect(zodToJsonSchema(z.enum(['celsius', 'fahrenheit']))).toEqual({
+        type: 'string',
+        enum: ['celsius', 'fahrenheit'],
+      })
+    })
+
+    it('should convert native enums without reverse mappings', () => {
+      enum Priority {
+        Low,
+        High,
+      }
+
+      expect(zodToJsonSchema(z.nativeEnum(Priority))).toEqual({ type: 'number', enum: [0, 1] })
+    })
+
+    it('should convert literals to const', () => {
+      expect(zodToJsonSchema(z.literal('card'))).toEqual({ type: 'string', const: 'card' })
+    })
+
+    it('should collapse unions of literals into an enum', () => {
+      expect(zodToJsonSchema(z.union([z.literal('a'), z.literal('b')]))).toEqual({
+        type: 'string',
+        enum: ['a', 'b'],
+      })
+    })
+
+    it('should convert other unions to anyOf', () => {
+      expect(zodToJsonSchema(z.union([z.string(), z.number()]))).toEqual({
+        anyOf: [{ type: 'string' }, { type: 'number' }],
+      })
+    })
+
+    it('should convert discriminated unions to anyOf', () => {
+      const schema = z.discriminatedUnion('kind', [
+        z.object({ kind: z.literal('text'), value: z.string() }),
+        z.object({ kind: z.literal('count'), value: z.number() }),
+      ])
+
+      const result = zodToJsonSchema(schema)
+
+      expect(result.anyOf).toHaveLength(2)
+      expect(result.anyOf?.[1]?.properties?.value).toEqual({ type: 'number' })
+    })
+  })
+
+  describe('Wrappers', () => {
+    it('should convert nullables to anyOf with null', () => {
+      expect(zodToJsonSchema(z.string().nullable())).toEqual({
+        anyOf: [{ type: 'string' }, { type: 'null' }],
+      })
+    })
+
+    it('should convert refinements and transforms to their input schema', () => {
+      const schema = z
+        .string()
+        .refine(value => value.length > 0)
+        .transform(value => value.trim())
+
+      expect(zodToJsonSchema(schema)).toEqual({ type: 'string' })
+    })
+
+    it('should return an unconstrained schema for any and unknown', () => {
+      expect(zodToJsonSchema(z.any())).toEqual({})
+      expect(zodToJsonSchema(z.unknown())).toEqual({})
+    })
+
+    it('should stop expanding recursive lazy schemas', () => {
+      type Node = { children: Node[] }
+      const node: z.ZodType<Node> = z.lazy(() => z.object({ children: z.array(node) }))
+
+      expect(zodToJsonSchema(node)).toEqual({
+        type: 'object',
+        properties: { children: { type: 'array', items: {} } },
+        required: ['children'],
+        additionalProperties: false,
+      })
+      expect(zodToJsonSchema(z.object({ a: node, b: node })).properties?.['b']).toEqual(
+        zodToJsonSchema(node)
+      )
+    })
+  })
+
+  describe('Collections', () => {
+    it('should convert arrays with length constraints', () => {
+      expect(zodToJsonSchema(z.array(z.string()).min(1).max(3))).toEqual({
+        type: 'array',
+        items: { type: 'string' },
+        minItems: 1,
+        maxItems: 3,
+      })
+    })
+
+    it('should convert tuples', () => {
+      expect(zodToJsonSchema(z.tuple([z.number(), z.number()]))).toEqual({
+        type: 'array',
+        items: [{ type: 'number' }, { type: 'number' }],
+        minItems: 2,
+        maxItems: 2,
+      })
+    })
+
+    it('should convert records to additionalProperties', () => {
+      expect(zodToJsonSchema(z.record(z.boolean()))).toEqual({
+        type: 'object',
+        additionalProperties: { type: 'boolean' },
+      })
+    })
+  })
+
+  describe('Descriptions', () => {
+    it('should include descriptions at every level', () => {
+      const schema = z
+        .object({
+          city: z.string().describe('City name'),
+          units: z.enum(['c', 'f']).optional().describe('Temperature units'),
+        })
+        .describe('Weather lookup')
+
+      const result = zodToJsonSchema(schema)
+
+      expect(result.description).toBe('Weather lookup')
+      expect(result.properties?.city?.description).toBe('City name')
+      expect(result.properties?.units?.description).toBe('Temperature units')
+    })
+  })
+})
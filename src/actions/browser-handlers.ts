@@ -0,0 +1,247 @@
+/**
+ * Browser Client Action Handlers
+ * Default implementations of client actions on top of standard Web APIs
+ */
+
+import type { ClientActionHandlerMap } from './client-action-executor.js'
+import type { PermissionType } from '../types/client-action-messages.js'
+import { ClientActionError } from './client-action-error.js'
+
+/**
+ * Options for the default browser handlers
+ */
+export interface BrowserHandlerOptions {
+  /**
+   * Prefix applied to every localStorage key written or read by agents, so
+   * agents cannot touch the application's own storage (default: 'a2ui:')
+   */
+  storageKeyPrefix?: string
+}
+
+/**
+ * Create handlers for the client actions the browser can perform on its own
+ *
+ * UI actions (toasts, modals), analytics and media capture depend on the
+ * host application and have no default handler; register them with
+ * `ClientActionExecutor.registerHandler`.
+ */
+export function createBrowserHandlers(options: BrowserHandlerOptions = {}): ClientActionHandlerMap {
+  const storagePrefix = options.storageKeyPrefix ?? 'a2ui:'
+
+  return {
+    navigate: (action): void => {
+      const win = requireGlobal('window', 'navigate')
+      if (action.target && action.target !== '_self') {
+        win.open(action.url, action.target, 'noopener,noreferrer')
+      } else if (action.replace) {
+        win.location.replace(action.url)
+      } else {
+        win.location.assign(action.url)
+      }
+    },
+
+    goBack: (action): void => {
+      requireGlobal('window', 'goBack').history.go(-(action.steps ?? 1))
+    },
+
+    goForward: (action): void => {
+      requireGlobal('window', 'goForward').history.go(action.steps ?? 1)
+    },
+
+    refresh: (): void => {
+      requireGlobal('window', 'refresh').location.reload()
+    },
+
+    scrollTo: (action): void => {
+      const win = requireGlobal('window', 'scrollTo')
+      if (action.elementId) {
+        const element = win.document.getElementById(action.elementId)
+        if (!element) {
+          throw new ClientActionError('EXECUTION_FAILED', `Element not found: ${action.elementId}`)
+        }
+        element.scrollIntoView({ behavior: toScrollBehavior(action.behavior) })
+        return
+      }
+      win.scrollTo({ left: action.x ?? 0, top: action.y ?? 0, behavior: toScrollBehavior(action.behavior) })
+    },
+
+    showDialog: (action): boolean | string | null | undefined => {
+      const win = requireGlobal('window', 'showDialog')
+      switch (action.dialogType) {
+        case 'alert':
+          win.alert(action.message)
+          return undefined
+        case 'confirm':
+          return win.confirm(action.message)
+        case 'prompt':
+          return win.prompt(action.message, action.defaultValue)
+      }
+    },
+
+    showNotification: (action): void => {
+      if (typeof Notification === 'undefined') {
+        throw new ClientActionError('UNSUPPORTED_ACTION', 'Notifications are not supported')
+      }
+      if (Notification.permission !== 'granted') {
+        throw new ClientActionError('PERMISSION_DENIED', 'Notification permission has not been granted')
+      }
+      const notification = new Notification(action.title, {
+        body: action.body,
+        icon: action.icon,
+        badge: action.badge,
+        tag: action.tag,
+        requireInteraction: action.requireInteraction,
+      })
+      if (action.timeout) {
+        setTimeout(() => notification.close(), action.timeout)
+      }
+    },
+
+    copyToClipboard: async (action): Promise<void> => {
+      const nav = requireGlobal('navigator', 'copyToClipboard')
+      if (!nav.clipboard) {
+        throw new ClientActionError('UNSUPPORTED_ACTION', 'Clipboard API is not available')
+      }
+      await nav.clipboard.writeText(action.text)
+    },
+
+    downloadFile: (action): void => {
+      const doc = requireGlobal('document', 'downloadFile')
+      const link = doc.createElement('a')
+      link.href = action.url
+      link.download = action.filename ?? ''
+      link.rel = 'noopener'
+      doc.body.appendChild(link)
+      link.click()
+      link.remove()
+    },
+
+    shareContent: async (action): Promise<void> => {
+      const nav = requireGlobal('navigator', 'shareContent')
+      if (typeof nav.share !== 'function') {
+        throw new ClientActionError('UNSUPPORTED_ACTION', 'Web Share API is not available')
+      }
+      await nav.share({ title: action.title, text: action.text, url: action.url })
+    },
+
+    printPage: (): void => {
+      requireGlobal('window', 'printPage').print()
+    },
+
+    setLocalStorage: (action): void => {
+      requireStorage().setItem(storagePrefix + action.key, JSON.stringify(action.value))
+    },
+
+    getLocalStorage: (action): unknown => {
+      const raw = requireStorage().getItem(storagePrefix + action.key)
+      if (raw === null) return null
+      try {
+        return JSON.parse(raw) as unknown
+      } catch {
+        return raw
+      }
+    },
+
+    removeLocalStorage: (action): void => {
+      requireStorage().removeItem(storagePrefix + action.key)
+    },
+
+    clearLocalStorage: (): { cleared: number } => {
+      const storage = requireStorage()
+      const keys: string[] = []
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i)
+        if (key !== null && key.startsWith(storagePrefix)) keys.push(key)
+      }
+      keys.forEach((key) => storage.removeItem(key))
+      return { cleared: keys.length }
+    },
+
+    requestPermission: async (action): Promise<{ permission: PermissionType; state: string }> => {
+      if (action.permission === 'notifications') {
+        if (typeof Notification === 'undefined') {
+          throw new ClientActionError('UNSUPPORTED_ACTION', 'Notifications are not supported')
+        }
+        return { permission: action.permission, state: await Notification.requestPermission() }
+      }
+      const nav = requireGlobal('navigator', 'requestPermission')
+      if (!nav.permissions) {
+        throw new ClientActionError('UNSUPPORTED_ACTION', 'Permissions API is not available')
+      }
+      const status = await nav.permissions.query({ name: action.permission as PermissionName })
+      return { permission: action.permission, state: status.state }
+    },
+
+    vibrate: (action): boolean => {
+      const nav = requireGlobal('navigator', 'vibrate')
+      if (typeof nav.vibrate !== 'function') {
+        throw new ClientActionError('UNSUPPORTED_ACTION', 'Vibration API is not available')
+      }
+      return nav.vibrate(action.pattern ?? 200)
+    },
+
+    openUrl: (action): void => {
+      requireGlobal('window', 'openUrl').open(action.url, action.target ?? '_blank', 'noopener,noreferrer')
+    },
+
+    sendEmail: (action): void => {
+      const params = new URLSearchParams()
+      if (action.subject) params.set('subject', action.subject)
+      if (action.body) params.set('body', action.body)
+      if (action.cc?.length) params.set('cc', action.cc.join(','))
+      if (action.bcc?.length) params.set('bcc', action.bcc.join(','))
+      const query = params.toString().replace(/\+/g, '%20')
+      requireGlobal('window', 'sendEmail').location.assign(
+        `mailto:${encodeURIComponent(action.to)}${query ? `?${query}` : ''}`
+      )
+    },
+
+    makePhoneCall: (action): void => {
+      requireGlobal('window', 'makePhoneCall').location.assign(
+        `tel:${action.phoneNumber.replace(/[^0-9+]/g, '')}`
+      )
+    },
+
+    openMap: (action): void => {
+      const params = new URLSearchParams({ api: '1' })
+      if (action.destination) {
+        params.set('destination', action.destination)
+        if (action.travelMode) params.set('travelmode', action.travelMode)
+        const url = `https://www.google.com/maps/dir/?${params.toString()}`
+        requireGlobal('window', 'openMap').open(url, '_blank', 'noopener,noreferrer')
+        return
+      }
+      const query =
+        action.address ?? `${String(action.latitude)},${String(action.longitude)}`
+      params.set('query', query)
+      const url = `https://www.google.com/maps/search/?${params.toString()}`
+      requireGlobal('window', 'openMap').open(url, '_blank', 'noopener,noreferrer')
+    },
+  }
+}
+
+interface BrowserGlobals {
+  window: Window
+  document: Document
+  navigator: Navigator
+}
+
+function requireGlobal<K extends keyof BrowserGlobals>(name: K, actionType: string): BrowserGlobals[K] {
+  const value = (globalThis as Partial<BrowserGlobals>)[name]
+  if (value === undefined) {
+    throw new ClientActionError('UNSUPPORTED_ACTION', `${actionType} requires a browser environment`)
+  }
+  return value as BrowserGlobals[K]
+}
+
+function requireStorage(): Storage {
+  const storage = (globalThis as { localStorage?: Storage }).localStorage
+  if (!storage) {
+    throw new ClientActionError('UNSUPPORTED_ACTION', 'localStorage is not available')
+  }
+  return storage
+}
+
+function toScrollBehavior(behavior: 'auto' | 'smooth' | 'instant' | undefined): ScrollBehavior {
+  return (behavior ?? 'auto') as ScrollBehavior
+}
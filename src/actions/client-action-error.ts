@@ -0,0 +1,28 @@
+/**
+ * Client Action Errors
+ */
+
+/**
+ * Error codes reported in ClientActionResponseMessage.errorCode
+ */
+export type ClientActionErrorCode =
+  | 'INVALID_ACTION'
+  | 'ACTION_NOT_ALLOWED'
+  | 'PERMISSION_DENIED'
+  | 'UNSUPPORTED_ACTION'
+  | 'EXECUTION_FAILED'
+  | 'TIMEOUT'
+
+/**
+ * Error thrown while validating or executing a client action
+ * Handlers may throw it to report a specific error code back to the agent
+ */
+export class ClientActionError extends Error {
+  constructor(
+    public readonly code: ClientActionErrorCode,
+    message: string
+  ) {
+    super(message)
+    this.name = 'ClientActionError'
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * Client Action Executor
+ * Validates, authorizes and executes ClientActionMessages sent by the agent,
+ * replying with ClientActionResponseMessages
+ */
+
+import type { A2UITransport } from '../transport/index.js'
+import type {
+  ClientActionMessage,
+  ClientActionResponseMessage,
+  ClientActionType,
+  PermissionType,
+  SpecificClientAction,
+} from '../types/client-action-messages.js'
+import { isClientActionMessage } from '../types/client-action-messages.js'
+import { ClientActionValidator } from '../validation/client-action-validator.js'
+import { ClientActionError } from './client-action-error.js'
+import { createBrowserHandlers } from './browser-handlers.js'
+import type { BrowserHandlerOptions } from './browser-handlers.js'
+
+/**
+ * Action payload for a given action type
+ */
+export type ClientActionOf<T extends ClientActionType> = Extract<SpecificClientAction, { type: T }>
+
+/**
+ * Context passed to every action handler
+ */
+export interface ClientActionContext {
+  /** The message being executed */
+  message: ClientActionMessage
+  /** Surface the action was issued for */
+  surfaceId: string
+  /** Action ID used to correlate the response */
+  actionId: string
+}
+
+/**
+ * Executes a single client action
+ * The returned value is sent back as the response `result`
+ */
+export type ClientActionHandler<A extends SpecificClientAction = SpecificClientAction> = (
+  action: A,
+  context: ClientActionContext
+) => unknown
+
+/**
+ * Handler table keyed by action type
+ */
+export type ClientActionHandlerMap = {
+  [T in ClientActionType]?: ClientActionHandler<ClientActionOf<T>>
+}
+
+/**
+ * Decides whether a permission may be used for an action
+ */
+export type PermissionChecker = (
+  permission: PermissionType,
+  message: ClientActionMessage
+) => boolean | Promise<boolean>
+
+/**
+ * Client action executor options
+ */
+export interface ClientActionExecutorOptions {
+  /**
+   * Action types the agent may trigger (default: every type with a handler,
+   * except navigation actions unless `allowNavigation` is set)
+   */
+  allowedActions?: ClientActionType[]
+  /**
+   * Let the agent navigate, reload or open URLs and windows when no
+   * `allowedActions` list is given (default: false)
+   */
+  allowNavigation?: boolean
+  /** Action types that are always rejected, even when allowed */
+  deniedActions?: ClientActionType[]
+  /** Permission policy consulted for actions that need a permission (default: allow) */
+  checkPermission?: PermissionChecker
+  /** Additional or replacement handlers */
+  handlers?: ClientActionHandlerMap
+  /** Register the default browser handlers (default: true) */
+  browserHandlers?: boolean | BrowserHandlerOptions
+  /** Validator used before execution */
+  validator?: ClientActionValidator
+  /** Maximum time a handler may run, in milliseconds (default: 30000, 0 disables) */
+  timeout?: number
+}
+
+/**
+ * Client action executor events
+ */
+export type ClientActionExecutorEvent = 'actionExecuted' | 'actionFailed'
+
+export interface ClientActionExecutorEventData {
+  message: ClientActionMessage | undefined
+  response: ClientActionResponseMessage
+}
+
+export type ClientActionExecutorEventHandler = (data: ClientActionExecutorEventData) => void
+
+/**
+ * Actions that leave the page or open another window or app
+ * They only run when explicitly allowed.
+ */
+const NAVIGATION_ACTIONS: readonly ClientActionType[] = [
+  'navigate',
+  'goBack',
+  'goForward',
+  'refresh',
+  'openUrl',
+  'sendEmail',
+  'makePhoneCall',
+  'openMap',
+]
+
+/**
+ * Permissions implied by an action, independent of the message flags
+ */
+function impliedPermission(action: SpecificClientAction): PermissionType | undefined {
+  switch (action.type) {
+    case 'copyToClipboard':
+      return 'clipboard-write'
+    case 'showNotification':
+      return 'notifications'
+    case 'requestPermission':
+      return action.permission
+    case 'getUserMedia':
+      return 'media-devices'
+    case 'openCamera':
+      return 'camera'
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Client Action Executor
+ *
+ * @example
+ * ```typescript
+ * const executor = new ClientActionExecutor({
+ *   allowedActions: ['navigate', 'showToast', 'copyToClipboard'],
+ *   handlers: {
+ *     showToast: (action) => toast(action.message, { variant: action.variant }),
+ *   },
+ * })
+ *
+ * executor.attach(transport)
+ * ```
+ */
+export class ClientActionExecutor {
+  private readonly handlers = new Map<ClientActionType, ClientActionHandler>()
+  private readonly allowedActions: Set<ClientActionType> | null
+  private readonly deniedActions: Set<ClientActionType>
+  private readonly allowNavigation: boolean
+  private readonly checkPermission: PermissionChecker
+  private readonly validator: ClientActionValidator
+  private readonly timeout: number
+  private readonly eventHandlers = new Map<
+    ClientActionExecutorEvent,
+    Set<ClientActionExecutorEventHandler>
+  >()
+  private transport: A2UITransport | null = null
+  private messageHandler: ((message: ClientActionMessage) => void) | null = null
+
+  constructor(options: ClientActionExecutorOptions = {}) {
+    this.allowedActions = options.allowedActions ? new Set(options.allowedActions) : null
+    this.deniedActions = new Set(options.deniedActions ?? [])
+    this.allowNavigation = options.allowNavigation ?? false
+    this.checkPermission = options.checkPermission ?? ((): boolean => true)
+    this.validator = options.validator ?? new ClientActionValidator()
+    this.timeout = options.timeout ?? 30000
+
+    const browserHandlers = options.browserHandlers ?? true
+    if (browserHandlers) {
+      this.registerHandlers(createBrowserHandlers(browserHandlers === true ? {} : browserHandlers))
+    }
+    if (options.handlers) {
+      this.registerHandlers(options.handlers)
+    }
+  }
+
+  /**
+   * Register the handler for an action type, replacing any existing one
+   */
+  registerHandler<T extends ClientActionType>(
+    actionType: T,
+    handler: ClientActionHandler<ClientActionOf<T>>
+  ): void {
+    this.handlers.set(actionType, handler as ClientActionHandler)
+  }
+
+  /**
+   * Register several handlers at once
+   */
+  registerHandlers(handlers: ClientActionHandlerMap): void {
+    for (const [actionType, handler] of Object.entries(handlers)) {
+      if (handler) {
+        this.handlers.set(actionType as ClientActionType, handler as ClientActionHandler)
+      }
+    }
+  }
+
+  /**
+   * Remove the handler for an action type
+   */
+  unregisterHandler(actionType: ClientActionType): boolean {
+    return this.handlers.delete(actionType)
+  }
+
+  /**
+   * Check whether an action type has a handler
+   */
+  hasHandler(actionType: ClientActionType): boolean {
+    return this.handlers.has(actionType)
+  }
+
+  /**
+   * Check whether the policy allows an action type
+   */
+  isAllowed(actionType: ClientActionType): boolean {
+    if (this.deniedActions.has(actionType)) return false
+    if (this.allowedActions) return this.allowedActions.has(actionType)
+    return this.allowNavigation || !NAVIGATION_ACTIONS.includes(actionType)
+  }
+
+  /**
+   * Validate, authorize and execute a client action message
+   * Never throws; failures are reported in the returned response
+   */
+  async execute(message: unknown): Promise<ClientActionResponseMessage> {
+    const clientMessage = isClientActionMessage(message) ? message : undefined
+    const actionId = typeof clientMessage?.actionId === 'string' ? clientMessage.actionId : ''
+
+    let response: ClientActionResponseMessage
+    try {
+      const result = await this.run(message)
+      response = {
+        type: 'clientActionResponse',
+        actionId,
+        success: true,
+        ...(result !== undefined && { result }),
+        timestamp: Date.now(),
+      }
+    } catch (error) {
+      const actionError =
+        error instanceof ClientActionError
+          ? error
+          : new ClientActionError(
+              'EXECUTION_FAILED',
+              error instanceof Error ? error.message : String(error)
+            )
+      response = {
+        type: 'clientActionResponse',
+        actionId,
+        success: false,
+        error: actionError.message,
+        errorCode: actionError.code,
+        timestamp: Date.now(),
+      }
+    }
+
+    this.emit(response.success ? 'actionExecuted' : 'actionFailed', {
+      message: clientMessage,
+      response,
+    })
+    return response
+  }
+
+  /**
+   * Listen for clientAction messages on a transport and reply automatically
+   * A reply that cannot be sent is reported as an `actionFailed` event.
+   */
+  attach(transport: A2UITransport): void {
+    this.detach()
+    this.transport = transport
+    this.messageHandler = (message): void => {
+      void this.execute(message).then((response) => {
+        if (this.transport !== transport) {
+          return
+        }
+        try {
+          transport.send(response)
+        } catch (error) {
+          this.emit('actionFailed', {
+            message: isClientActionMessage(message) ? message : undefined,
+            response: {
+              ...response,
+              success: false,
+              error: `Could not send response: ${error instanceof Error ? error.message : String(error)}`,
+              errorCode: 'EXECUTION_FAILED',
+            },
+          })
+        }
+      })
+    }
+    transport.on<ClientActionMessage>('clientAction', this.messageHandler)
+  }
+
+  /**
+   * Stop listening on the attached transport
+   */
+  detach(): void {
+    if (this.transport && this.messageHandler) {
+      this.transport.off('clientAction', this.messageHandler)
+    }
+    this.transport = null
+    this.messageHandler = null
+  }
+
+  /**
+   * Register event handler
+   */
+  on(event: ClientActionExecutorEvent, handler: ClientActionExecutorEventHandler): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, new Set())
+    }
+    this.eventHandlers.get(event)!.add(handler)
+  }
+
+  /**
+   * Unregister event handler
+   */
+  off(event: ClientActionExecutorEvent, handler: ClientActionExecutorEventHandler): void {
+    this.eventHandlers.get(event)?.delete(handler)
+  }
+
+  /**
+   * Detach from the transport and drop all handlers
+   */
+  destroy(): void {
+    this.detach()
+    this.handlers.clear()
+    this.eventHandlers.clear()
+  }
+
+  private async run(message: unknown): Promise<unknown> {
+    const validation = this.validator.validateMessage(message)
+    if (!validation.valid) {
+      const details = validation.errors.map((error) => `${error.field}: ${error.message}`).join('; ')
+      throw new ClientActionError('INVALID_ACTION', `Invalid client action: ${details}`)
+    }
+
+    const clientMessage = message as ClientActionMessage
+    const { action } = clientMessage
+
+    if (!this.isAllowed(action.type)) {
+      throw new ClientActionError('ACTION_NOT_ALLOWED', `Action not allowed: ${action.type}`)
+    }
+
+    const handler = this.handlers.get(action.type)
+    if (!handler) {
+      throw new ClientActionError('UNSUPPORTED_ACTION', `No handler registered for ${action.type}`)
+    }
+
+    const permission =
+      (clientMessage.requiresPermission ? clientMessage.permissionType : undefined) ??
+      impliedPermission(action)
+    if (permission && !(await this.checkPermission(permission, clientMessage))) {
+      throw new ClientActionError('PERMISSION_DENIED', `Permission denied: ${permission}`)
+    }
+
+    const context: ClientActionContext = {
+      message: clientMessage,
+      surfaceId: clientMessage.surfaceId,
+      actionId: clientMessage.actionId,
+    }
+
+    return this.withTimeout(Promise.resolve().then(() => handler(action, context)), action.type)
+  }
+
+  private withTimeout<T>(promise: Promise<T>, actionType: ClientActionType): Promise<T> {
+    if (this.timeout <= 0) return promise
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new ClientActionError('TIMEOUT', `${actionType} timed out after ${this.timeout}ms`)),
+        this.timeout
+      )
+    })
+
+    return Promise.race([promise, timeout]).finally((): void => clearTimeout(timer))
+  }
+
+  private emit(event: ClientActionExecutorEvent, data: ClientActionExecutorEventData): void {
+    this.eventHandlers.get(event)?.forEach((handler) => {
+      try {
+        handler(data)
+      } catch (error) {
+        console.error(`Error in ${event} handler:`, error)
+      }
+    })
+  }
+}
@@ -1,7 +1,23 @@
 /**
  * Client Actions Module
- * Placeholder for client-side action definitions
+ * Executes agent-issued client actions in the browser
  */
 
-// No exports yet - this module is a placeholder for future client actions
-export {}
+export { ClientActionExecutor } from './client-action-executor.js'
+export type {
+  ClientActionOf,
+  ClientActionContext,
+  ClientActionHandler,
+  ClientActionHandlerMap,
+  PermissionChecker,
+  ClientActionExecutorOptions,
+  ClientActionExecutorEvent,
+  ClientActionExecutorEventData,
+  ClientActionExecutorEventHandler,
+} from './client-action-executor.js'
+
+export { ClientActionError } from './client-action-error.js'
+export type { ClientActionErrorCode } from './client-action-error.js'
+
+export { createBrowserHandlers } from './browser-handlers.js'
+export type { BrowserHandlerOptions } from './browser-handlers.js'
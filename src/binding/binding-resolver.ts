@@ -0,0 +1,328 @@
+/**
+ * A2UI Binding Resolver
+ * Resolves `$bind` and `$expr` expressions in component properties
+ *
+ * Component properties may reference the surface data model instead of
+ * carrying static values:
+ *
+ * - `{ "$bind": "/user/name" }` reads a value by JSON Pointer
+ * - `{ "$expr": "items.size() > 0" }` computes a value with CEL; top-level
+ *   data model keys are available as variables and the whole model as `data`
+ *
+ * Both forms accept a `default` used when the pointer is missing or the
+ * expression fails.
+ *
+ * @example
+ * ```typescript
+ * const resolver = new BindingResolver()
+ *
+ * resolver.resolve(
+ *   { label: { $bind: '/user/name' }, visible: { $expr: 'items.size() > 0' } },
+ *   { user: { name: 'Alice' }, items: [1] }
+ * )
+ * // { label: 'Alice', visible: true }
+ * ```
+ */
+
+import { CELCompiler } from '../validation/cel-compiler.js'
+import { JSONPointer } from '../json-pointer/json-pointer.js'
+
+/**
+ * JSON Pointer reference into the data model
+ */
+export interface BindExpression {
+  $bind: string
+  default?: unknown
+}
+
+/**
+ * CEL expression evaluated against the data model
+ */
+export interface ComputedExpression {
+  $expr: string
+  default?: unknown
+}
+
+/**
+ * Any binding expression
+ */
+export type BindingExpression = BindExpression | ComputedExpression
+
+/**
+ * A binding found in a properties object
+ */
+export interface PropertyBinding {
+  /** Location of the binding inside the properties object */
+  path: string[]
+  /** The binding expression */
+  expression: BindingExpression
+  /** Data model JSON Pointers the binding reads */
+  dependencies: string[]
+}
+
+/**
+ * Binding error codes
+ */
+export type BindingErrorCode = 'INVALID_POINTER' | 'COMPILE_ERROR' | 'EVALUATION_ERROR'
+
+/**
+ * Binding error
+ * Reported through `onError`; resolution falls back to the binding default
+ */
+export class BindingError extends Error {
+  constructor(
+    public readonly code: BindingErrorCode,
+    public readonly expression: BindingExpression,
+    message: string
+  ) {
+    super(message)
+    this.name = 'BindingError'
+  }
+}
+
+/**
+ * Binding resolver options
+ */
+export interface BindingResolverOptions {
+  /** CEL compiler (default: a new compiler with its own cache) */
+  compiler?: CELCompiler
+  /** Extra variables available to every `$expr` */
+  variables?: Record<string, unknown>
+  /** Called when a binding cannot be resolved */
+  onError?: (error: BindingError) => void
+}
+
+type CompiledExpression = (context: Record<string, unknown>) => unknown
+
+const CEL_KEYWORDS = new Set(['true', 'false', 'null', 'in'])
+
+/**
+ * Check for a `$bind` expression
+ */
+export function isBindExpression(value: unknown): value is BindExpression {
+  return isPlainObject(value) && typeof value['$bind'] === 'string'
+}
+
+/**
+ * Check for a `$expr` expression
+ */
+export function isComputedExpression(value: unknown): value is ComputedExpression {
+  return isPlainObject(value) && typeof value['$expr'] === 'string'
+}
+
+/**
+ * Check for any binding expression
+ */
+export function isBindingExpression(value: unknown): value is BindingExpression {
+  return isBindExpression(value) || isComputedExpression(value)
+}
+
+/**
+ * Binding Resolver
+ * Finds bindings in properties objects and evaluates them against a data model
+ */
+export class BindingResolver {
+  private readonly compiler: CELCompiler
+  private readonly variables: Record<string, unknown>
+  private readonly onError: (error: BindingError) => void
+  private readonly bindingCache = new WeakMap<object, PropertyBinding[]>()
+  private readonly dependencyCache = new Map<string, string[]>()
+
+  constructor(options: BindingResolverOptions = {}) {
+    this.compiler = options.compiler ?? new CELCompiler()
+    this.variables = options.variables ?? {}
+    this.onError =
+      options.onError ??
+      ((error): void => {
+        console.warn(`[BindingResolver] ${error.message}`)
+      })
+  }
+
+  /**
+   * Check whether a properties object contains any binding
+   */
+  hasBindings(properties: Record<string, unknown> | undefined): boolean {
+    return properties !== undefined && this.collect(properties).length > 0
+  }
+
+  /**
+   * List the bindings of a properties object, including nested objects and arrays
+   * Results are cached per properties object
+   */
+  collect(properties: Record<string, unknown>): PropertyBinding[] {
+    const cached = this.bindingCache.get(properties)
+    if (cached) return cached
+
+    const bindings: PropertyBinding[] = []
+    const visit = (value: unknown, path: string[]): void => {
+      if (isBindingExpression(value)) {
+        bindings.push({ path, expression: value, dependencies: this.dependencies(value) })
+      } else if (Array.isArray(value)) {
+        value.forEach((item, index) => visit(item, [...path, String(index)]))
+      } else if (isPlainObject(value)) {
+        for (const [key, child] of Object.entries(value)) {
+          visit(child, [...path, key])
+        }
+      }
+    }
+    visit(properties, [])
+
+    this.bindingCache.set(properties, bindings)
+    return bindings
+  }
+
+  /**
+   * Resolve every binding in a properties object
+   * Returns the input object unchanged when it has no bindings
+   */
+  resolve(
+    properties: Record<string, unknown>,
+    dataModel: Record<string, unknown>
+  ): Record<string, unknown> {
+    return this.resolveBindings(properties, this.collect(properties), dataModel)
+  }
+
+  /**
+   * Re-resolve a subset of bindings on top of previously resolved properties
+   */
+  resolveBindings(
+    target: Record<string, unknown>,
+    bindings: PropertyBinding[],
+    dataModel: Record<string, unknown>
+  ): Record<string, unknown> {
+    let result = target
+    for (const binding of bindings) {
+      result = setAtPath(result, binding.path, this.evaluate(binding.expression, dataModel))
+    }
+    return result
+  }
+
+  /**
+   * Evaluate a single binding expression
+   */
+  evaluate(expression: BindingExpression, dataModel: Record<string, unknown>): unknown {
+    try {
+      const value = isBindExpression(expression)
+        ? this.resolvePointer(expression, dataModel)
+        : this.compile(expression)({ ...dataModel, ...this.variables, data: dataModel })
+      return value === undefined ? expression.default : value
+    } catch (error) {
+      this.onError(
+        error instanceof BindingError
+          ? error
+          : new BindingError(
+              'EVALUATION_ERROR',
+              expression,
+              `Failed to evaluate ${describe(expression)}: ${error instanceof Error ? error.message : String(error)}`
+            )
+      )
+      return expression.default
+    }
+  }
+
+  /**
+   * Data model JSON Pointers read by an expression
+   *
+   * `$expr` dependencies are derived from the identifier chains in the
+   * expression (`user.name` → `/user/name`, `items.size()` → `/items`). The
+   * result may over-approximate but never misses a top-level variable.
+   */
+  dependencies(expression: BindingExpression): string[] {
+    if (isBindExpression(expression)) {
+      return [expression.$bind === '/' ? '' : expression.$bind]
+    }
+
+    const cached = this.dependencyCache.get(expression.$expr)
+    if (cached) return cached
+
+    const source = expression.$expr.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, '""')
+    const chainPattern = /(?<![\w.])([A-Za-z_]\w*(?:\s*\.\s*[A-Za-z_]\w*)*)(\s*\()?/g
+    const dependencies = new Set<string>()
+
+    for (const match of source.matchAll(chainPattern)) {
+      const segments = match[1]!.split('.').map((segment) => segment.trim())
+      // A trailing call is a function or method, not a field
+      if (match[2]) segments.pop()
+      if (segments[0] === 'data') segments.shift()
+      else if (segments.length === 0 || CEL_KEYWORDS.has(segments[0]!)) continue
+      else if (segments[0]! in this.variables) continue
+
+      dependencies.add(segments.length === 0 ? '' : `/${segments.map(escapeToken).join('/')}`)
+    }
+
+    const result = dependencies.has('') ? [''] : [...dependencies]
+    this.dependencyCache.set(expression.$expr, result)
+    return result
+  }
+
+  /**
+   * Check whether any of the changed paths affects the given dependencies
+   */
+  static affects(dependencies: string[], changedPaths: string[]): boolean {
+    return dependencies.some((dependency) =>
+      changedPaths.some((path) => isPrefix(path, dependency) || isPrefix(dependency, path))
+    )
+  }
+
+  private resolvePointer(expression: BindExpression, dataModel: Record<string, unknown>): unknown {
+    try {
+      return JSONPointer.resolve(dataModel, expression.$bind)
+    } catch (error) {
+      throw new BindingError(
+        'INVALID_POINTER',
+        expression,
+        `Invalid binding pointer "${expression.$bind}": ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  private compile(expression: ComputedExpression): CompiledExpression {
+    try {
+      return this.compiler.compile(expression.$expr) as unknown as CompiledExpression
+    } catch (error) {
+      throw new BindingError(
+        'COMPILE_ERROR',
+        expression,
+        `Failed to compile ${describe(expression)}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function describe(expression: BindingExpression): string {
+  return isBindExpression(expression) ? `$bind "${expression.$bind}"` : `$expr "${expression.$expr}"`
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Check whether pointer `a` equals or is an ancestor of pointer `b`
+ */
+function isPrefix(a: string, b: string): boolean {
+  return a === '' || a === '/' || b === a || b.startsWith(`${a}/`)
+}
+
+/**
+ * Copy-on-write set of a nested value
+ */
+function setAtPath(target: unknown, path: string[], value: unknown): Record<string, unknown> {
+  if (path.length === 0) {
+    return value as Record<string, unknown>
+  }
+
+  const [head, ...rest] = path as [string, ...string[]]
+  if (Array.isArray(target)) {
+    const copy: unknown[] = [...(target as unknown[])]
+    copy[Number(head)] = setAtPath(copy[Number(head)], rest, value)
+    return copy as unknown as Record<string, unknown>
+  }
+
+  const source = isPlainObject(target) ? target : {}
+  return { ...source, [head]: rest.length === 0 ? value : setAtPath(source[head], rest, value) }
+}
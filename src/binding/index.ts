@@ -0,0 +1,22 @@
+/**
+ * A2UI Data Binding
+ */
+
+export {
+  BindingResolver,
+  BindingError,
+  isBindExpression,
+  isComputedExpression,
+  isBindingExpression,
+} from './binding-resolver.js'
+export type {
+  BindExpression,
+  ComputedExpression,
+  BindingExpression,
+  PropertyBinding,
+  BindingErrorCode,
+  BindingResolverOptions,
+} from './binding-resolver.js'
+
+export { SurfaceBindings } from './surface-bindings.js'
+export type { BindingChangeListener, SurfaceBindingsOptions } from './surface-bindings.js'
@@ -0,0 +1,226 @@
+/**
+ * A2UI Surface Bindings
+ * Keeps the resolved properties of a surface's components in sync with its
+ * data model
+ *
+ * Resolved properties are cached per component. When an `updateDataModel`
+ * message is applied, only bindings whose dependencies overlap the updated
+ * paths are re-evaluated, and only the affected components get new property
+ * objects and listener notifications.
+ *
+ * @example
+ * ```typescript
+ * const bindings = new SurfaceBindings(store, 'main')
+ *
+ * bindings.subscribeComponent('greeting', () => {
+ *   render(bindings.getProperties('greeting'))
+ * })
+ * ```
+ */
+
+import type { SurfaceChange, SurfaceStore, Unsubscribe } from '../surface/surface-store.js'
+import { BindingResolver } from './binding-resolver.js'
+import type { PropertyBinding } from './binding-resolver.js'
+
+/**
+ * Listener for re-resolved components
+ */
+export type BindingChangeListener = (componentIds: string[]) => void
+
+/**
+ * Surface bindings options
+ */
+export interface SurfaceBindingsOptions {
+  /** Resolver used for all components (default: a new BindingResolver) */
+  resolver?: BindingResolver
+}
+
+interface ResolvedEntry {
+  /** Unresolved properties the entry was computed from */
+  source: Record<string, unknown>
+  /** Resolved properties */
+  resolved: Record<string, unknown>
+  bindings: PropertyBinding[]
+  /** Data model the resolved properties are current for */
+  dataModel: Record<string, unknown>
+}
+
+/**
+ * Surface Bindings
+ * Resolves and tracks `$bind` / `$expr` properties for one surface
+ */
+export class SurfaceBindings {
+  private readonly resolver: BindingResolver
+  private readonly entries = new Map<string, ResolvedEntry>()
+  private readonly listeners = new Set<BindingChangeListener>()
+  private readonly componentListeners = new Map<string, Set<BindingChangeListener>>()
+  private readonly unsubscribe: Unsubscribe
+
+  constructor(
+    private readonly store: SurfaceStore,
+    private readonly surfaceId: string,
+    options: SurfaceBindingsOptions = {}
+  ) {
+    this.resolver = options.resolver ?? new BindingResolver()
+    this.unsubscribe = store.subscribeSurface(surfaceId, (change) => this.handleChange(change))
+  }
+
+  /**
+   * Resolved properties of a component
+   * Returns the same object until the component or one of its dependencies changes
+   */
+  getProperties(componentId: string): Record<string, unknown> | undefined {
+    const component = this.store.getComponent(this.surfaceId, componentId)
+    if (!component) {
+      this.entries.delete(componentId)
+      return undefined
+    }
+
+    const source = component.properties ?? {}
+    const dataModel = this.getDataModel()
+    const cached = this.entries.get(componentId)
+    if (cached && cached.source === source) {
+      // Resolve from scratch only if a data model change was missed
+      if (cached.dataModel === dataModel || cached.bindings.length === 0) {
+        return cached.resolved
+      }
+    }
+
+    const bindings = this.resolver.collect(source)
+    const resolved = bindings.length > 0 ? this.resolver.resolve(source, dataModel) : source
+    this.entries.set(componentId, { source, resolved, bindings, dataModel })
+    return resolved
+  }
+
+  /**
+   * Data model JSON Pointers a component depends on
+   */
+  getDependencies(componentId: string): string[] {
+    const component = this.store.getComponent(this.surfaceId, componentId)
+    if (!component?.properties) return []
+
+    const dependencies = new Set<string>()
+    for (const binding of this.resolver.collect(component.properties)) {
+      binding.dependencies.forEach((dependency) => dependencies.add(dependency))
+    }
+    return [...dependencies]
+  }
+
+  /**
+   * Subscribe to re-resolved components
+   */
+  subscribe(listener: BindingChangeListener): Unsubscribe {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Subscribe to a single component being re-resolved
+   */
+  subscribeComponent(componentId: string, listener: BindingChangeListener): Unsubscribe {
+    if (!this.componentListeners.has(componentId)) {
+      this.componentListeners.set(componentId, new Set())
+    }
+    this.componentListeners.get(componentId)!.add(listener)
+
+    return () => {
+      const listeners = this.componentListeners.get(componentId)
+      if (listeners) {
+        listeners.delete(listener)
+        if (listeners.size === 0) this.componentListeners.delete(componentId)
+      }
+    }
+  }
+
+  /**
+   * Stop tracking the surface and drop all listeners
+   */
+  destroy(): void {
+    this.unsubscribe()
+    this.entries.clear()
+    this.listeners.clear()
+    this.componentListeners.clear()
+  }
+
+  private handleChange(change: SurfaceChange): void {
+    switch (change.type) {
+      case 'surfaceCreated':
+      case 'surfaceDeleted':
+        this.entries.clear()
+        this.notify(change.componentIds)
+        break
+
+      case 'componentsUpdated':
+        // Entries are re-resolved lazily when their source properties change
+        change.componentIds.forEach((componentId) => this.entries.delete(componentId))
+        this.notify(change.componentIds)
+        break
+
+      case 'dataModelUpdated':
+        this.notify(this.reresolve(change.paths))
+        break
+    }
+  }
+
+  /**
+   * Re-evaluate the bindings affected by the changed paths
+   */
+  private reresolve(changedPaths: string[]): string[] {
+    const dataModel = this.getDataModel()
+    const affectedComponents: string[] = []
+
+    for (const [componentId, entry] of this.entries) {
+      const affected = entry.bindings.filter((binding) =>
+        BindingResolver.affects(binding.dependencies, changedPaths)
+      )
+      if (affected.length === 0 || entry.dataModel === dataModel) {
+        entry.dataModel = dataModel
+        continue
+      }
+
+      const resolved = this.resolver.resolveBindings(entry.resolved, affected, dataModel)
+      const changed = affected.some(
+        (binding) => !Object.is(valueAt(resolved, binding.path), valueAt(entry.resolved, binding.path))
+      )
+      if (changed) {
+        entry.resolved = resolved
+        affectedComponents.push(componentId)
+      }
+      entry.dataModel = dataModel
+    }
+
+    return affectedComponents
+  }
+
+  private getDataModel(): Record<string, unknown> {
+    return this.store.getDataModel(this.surfaceId) ?? {}
+  }
+
+  private notify(componentIds: string[]): void {
+    if (componentIds.length === 0) return
+
+    const targets = new Set<BindingChangeListener>(this.listeners)
+    for (const componentId of componentIds) {
+      this.componentListeners.get(componentId)?.forEach((listener) => targets.add(listener))
+    }
+
+    targets.forEach((listener) => {
+      try {
+        listener(componentIds)
+      } catch (error) {
+        console.error('[SurfaceBindings] Error in change listener:', error)
+      }
+    })
+  }
+}
+
+function valueAt(target: unknown, path: string[]): unknown {
+  let current = target
+  for (const token of path) {
+    if (typeof current !== 'object' || current === null) return undefined
+    current = (current as Record<string, unknown>)[token]
+  }
+  return current
+}
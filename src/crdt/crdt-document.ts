@@ -0,0 +1,1042 @@
+/**
+ * CRDT Document
+ * Dependency-free replicated document holding text, arrays and maps
+ *
+ * Text and arrays are RGA sequences: every element remembers the element it
+ * was inserted after (its origin), and concurrent inserts after the same
+ * origin are ordered by Lamport timestamp, then client id. Deleted elements
+ * stay behind as tombstones so later inserts can still find their origin,
+ * until gc() drops the ones every replica has seen deleted. Map keys are
+ * last-writer-wins registers ordered the same way.
+ */
+
+import type {
+  CRDTId,
+  CRDTContainerRef,
+  CRDTContainerType,
+  CRDTContent,
+  CRDTOperation,
+  CRDTSetOperation,
+  CRDTRemoveOperation,
+  CRDTSnapshot,
+  CRDTSnapshotContainer,
+  CRDTSnapshotItem,
+  CRDTSnapshotEntry,
+  CRDTUpdate,
+  StateVector,
+} from '../types/crdt-types.js'
+import { CRDTText, CRDTArray, CRDTMap } from './shared-types.js'
+
+/**
+ * CRDT error codes
+ */
+export type CRDTErrorCode = 'INVALID_INDEX' | 'INVALID_CONTENT' | 'TYPE_MISMATCH' | 'INVALID_UPDATE'
+
+/**
+ * CRDT error class
+ */
+export class CRDTError extends Error {
+  readonly code: CRDTErrorCode
+
+  constructor(code: CRDTErrorCode, message: string) {
+    super(message)
+    this.name = 'CRDTError'
+    this.code = code
+  }
+}
+
+/**
+ * Handle for a shared container
+ */
+export type CRDTSharedType = CRDTText | CRDTArray | CRDTMap
+
+/**
+ * Document options
+ */
+export interface CRDTDocumentOptions {
+  /** Replica identifier, unique per session (generated when omitted) */
+  clientId?: string
+}
+
+/**
+ * Emitted after every transaction and applied update
+ */
+export interface CRDTUpdateEvent {
+  /** Changes to relay to other replicas */
+  update: CRDTUpdate
+  /** Origin passed to transact() or applyUpdate() */
+  origin: unknown
+  /** Whether the changes were made on this replica */
+  local: boolean
+  /** Values that local set and remove operations replaced */
+  previousValues: Map<CRDTSetOperation | CRDTRemoveOperation, { value: unknown } | undefined>
+}
+
+export type CRDTUpdateHandler = (event: CRDTUpdateEvent) => void
+
+type ItemContent = CRDTSnapshotItem['content']
+
+interface SequenceItem {
+  id: CRDTId
+  lamport: number
+  content: ItemContent
+  deletedBy?: CRDTId
+}
+
+interface MapEntry {
+  id: CRDTId
+  lamport: number
+  value?: unknown
+  container?: CRDTContainerType
+  removed?: boolean
+}
+
+interface SequenceContainer {
+  type: 'text' | 'array'
+  ref: CRDTContainerRef
+  owner?: string
+  items: SequenceItem[]
+}
+
+interface MapContainer {
+  type: 'map'
+  ref: CRDTContainerRef
+  owner?: string
+  entries: Map<string, MapEntry>
+}
+
+type Container = SequenceContainer | MapContainer
+
+interface Transaction {
+  origin: unknown
+  operations: CRDTOperation[]
+  previousValues: CRDTUpdateEvent['previousValues']
+}
+
+/**
+ * Key of an element or of the nested container it created
+ */
+function idKey(id: CRDTId): string {
+  return `${id.clock}@${id.client}`
+}
+
+function containerKey(ref: CRDTContainerRef): string {
+  return typeof ref === 'string' ? `root:${ref}` : idKey(ref)
+}
+
+/**
+ * Whether a is ordered after b (later Lamport time, then higher client id)
+ */
+function isNewer(a: { id: CRDTId; lamport: number }, b: { id: CRDTId; lamport: number }): boolean {
+  return a.lamport > b.lamport || (a.lamport === b.lamport && a.id.client > b.id.client)
+}
+
+function contentLength(content: CRDTContent): number {
+  if ('text' in content) return content.text.length
+  if ('values' in content) return content.values.length
+  return 1
+}
+
+function operationLength(operation: CRDTOperation): number {
+  return operation.type === 'insert' ? contentLength(operation.content) : 1
+}
+
+function splitContent(content: CRDTContent): ItemContent[] {
+  if ('text' in content) return Array.from(content.text, (char) => ({ text: char }))
+  if ('values' in content) return content.values.map((value) => ({ value }))
+  return [content]
+}
+
+function cloneJSON<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T)
+}
+
+interface LooseOperation {
+  type?: unknown
+  id?: unknown
+  lamport?: unknown
+  parent?: unknown
+  origin?: unknown
+  target?: unknown
+  length?: unknown
+  key?: unknown
+}
+
+function isId(value: unknown): value is CRDTId {
+  if (typeof value !== 'object' || value === null) return false
+  const id = value as Partial<CRDTId>
+  return typeof id.client === 'string' && Number.isInteger(id.clock) && (id.clock as number) > 0
+}
+
+/**
+ * Check that a value has the shape of a CRDT update
+ */
+export function isCRDTUpdate(value: unknown): value is CRDTUpdate {
+  if (typeof value !== 'object' || value === null) return false
+  const update = value as Partial<CRDTUpdate>
+  if (!Array.isArray(update.operations)) return false
+  if (update.snapshot !== undefined) {
+    const snapshot = update.snapshot as Partial<CRDTSnapshot> | null
+    if (
+      !snapshot ||
+      typeof snapshot.stateVector !== 'object' ||
+      !Array.isArray(snapshot.containers)
+    ) {
+      return false
+    }
+  }
+  return (update.operations as unknown[]).every((value) => {
+    const operation = value as LooseOperation
+    if (!isId(operation.id) || typeof operation.lamport !== 'number') return false
+    if (typeof operation.parent !== 'string' && !isId(operation.parent)) return false
+    switch (operation.type) {
+      case 'insert':
+        return operation.origin === null || isId(operation.origin)
+      case 'delete':
+        return isId(operation.target) && Number.isInteger(operation.length)
+      case 'set':
+      case 'remove':
+        return typeof operation.key === 'string'
+      default:
+        return false
+    }
+  })
+}
+
+/**
+ * Replicated document
+ *
+ * Local edits go through the shared types returned by getText(), getArray()
+ * and getMap(). Every change is reported as an 'update' event carrying a
+ * CRDTUpdate; applying those updates on other replicas, in any order and any
+ * number of times, brings them to the same state.
+ */
+export class CRDTDocument {
+  readonly clientId: string
+
+  private readonly containers = new Map<string, Container>()
+  private readonly items = new Map<string, { container: SequenceContainer; item: SequenceItem }>()
+  private readonly stateVector: StateVector = {}
+  private readonly handlers = new Set<CRDTUpdateHandler>()
+  /** Integrated operations newer than the baseline */
+  private log: CRDTOperation[] = []
+  /** Operations at or below the baseline were dropped from the log */
+  private readonly baseline: StateVector = {}
+  /** Remote operations waiting for the operations they depend on */
+  private pending: CRDTOperation[] = []
+  private lamport = 0
+  private transaction: Transaction | null = null
+
+  constructor(options: CRDTDocumentOptions = {}) {
+    this.clientId =
+      options.clientId ?? `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`
+  }
+
+  /**
+   * Get a top-level text
+   */
+  getText(name: string): CRDTText {
+    this.rootContainer(name, 'text')
+    return new CRDTText(this, name)
+  }
+
+  /**
+   * Get a top-level array
+   */
+  getArray(name: string): CRDTArray {
+    this.rootContainer(name, 'array')
+    return new CRDTArray(this, name)
+  }
+
+  /**
+   * Get a top-level map
+   */
+  getMap(name: string): CRDTMap {
+    this.rootContainer(name, 'map')
+    return new CRDTMap(this, name)
+  }
+
+  /**
+   * Group local changes into one update event
+   * Nested calls join the outermost transaction.
+   */
+  transact(fn: () => void, origin: unknown = null): void {
+    if (this.transaction) {
+      fn()
+      return
+    }
+
+    const transaction: Transaction = { origin, operations: [], previousValues: new Map() }
+    this.transaction = transaction
+    try {
+      fn()
+    } finally {
+      this.transaction = null
+      if (transaction.operations.length > 0) {
+        this.emit({
+          update: { operations: transaction.operations },
+          origin,
+          local: true,
+          previousValues: transaction.previousValues,
+        })
+      }
+    }
+  }
+
+  /**
+   * Highest clock integrated from each client
+   */
+  getStateVector(): StateVector {
+    return { ...this.stateVector }
+  }
+
+  /**
+   * Encode the changes a replica with the given state vector is missing
+   * Falls back to a full snapshot when part of that history has been
+   * garbage collected.
+   */
+  encodeUpdate(stateVector: StateVector = {}): CRDTUpdate {
+    const behind = Object.entries(this.baseline).some(
+      ([client, clock]) => (stateVector[client] ?? 0) < clock
+    )
+    if (behind) {
+      return { snapshot: this.snapshot(), operations: [] }
+    }
+
+    return {
+      operations: this.log.filter(
+        (operation) => operation.id.clock > (stateVector[operation.id.client] ?? 0)
+      ),
+    }
+  }
+
+  /**
+   * Apply changes from another replica
+   * Operations whose dependencies have not arrived yet are held back and
+   * applied as soon as they can be.
+   */
+  applyUpdate(update: CRDTUpdate, origin: unknown = null): void {
+    if (!isCRDTUpdate(update)) {
+      throw new CRDTError('INVALID_UPDATE', 'Invalid CRDT update')
+    }
+
+    const changed = update.snapshot ? this.applySnapshot(update.snapshot) : false
+    this.pending.push(...update.operations)
+
+    const applied: CRDTOperation[] = []
+    let progress = true
+    while (progress && this.pending.length > 0) {
+      progress = false
+      this.pending = this.pending.filter((operation) => {
+        const result = this.integrate(operation)
+        if (result === 'missing') return true
+        if (result === 'applied') applied.push(operation)
+        progress = true
+        return false
+      })
+    }
+
+    if (changed || applied.length > 0) {
+      this.emit({
+        update: update.snapshot
+          ? { snapshot: update.snapshot, operations: applied }
+          : { operations: applied },
+        origin,
+        local: false,
+        previousValues: new Map(),
+      })
+    }
+  }
+
+  /**
+   * Whether remote operations are waiting for missing dependencies
+   */
+  get hasPendingOperations(): boolean {
+    return this.pending.length > 0
+  }
+
+  /**
+   * Drop tombstones that every replica has seen deleted
+   *
+   * Pass the state vectors of all other replicas that may still send
+   * changes. Nothing is collected while any of them knows changes this
+   * replica has not seen. Afterwards, replicas older than the collected
+   * history receive snapshots from encodeUpdate() instead of operations.
+   *
+   * @returns Number of elements removed
+   */
+  gc(peerStateVectors: StateVector[] = []): number {
+    const aheadOfUs = peerStateVectors.some((peer) =>
+      Object.entries(peer).some(([client, clock]) => (this.stateVector[client] ?? 0) < clock)
+    )
+    if (aheadOfUs) return 0
+
+    const seenByAll = (id: CRDTId): boolean =>
+      peerStateVectors.every((peer) => (peer[id.client] ?? 0) >= id.clock)
+
+    let removed = 0
+    for (const container of [...this.containers.values()]) {
+      if (container.type === 'map' || !this.containers.has(containerKey(container.ref))) continue
+
+      container.items = container.items.filter((item) => {
+        if (!item.deletedBy || !seenByAll(item.id) || !seenByAll(item.deletedBy)) return true
+
+        const key = idKey(item.id)
+        this.items.delete(key)
+        if ('container' in item.content) this.dropContainer(key)
+        removed++
+        return false
+      })
+    }
+
+    for (const [client, clock] of Object.entries(this.stateVector)) {
+      const floor = Math.min(clock, ...peerStateVectors.map((peer) => peer[client] ?? 0))
+      this.baseline[client] = Math.max(this.baseline[client] ?? 0, floor)
+    }
+    this.log = this.log.filter(
+      (operation) => operation.id.clock > (this.baseline[operation.id.client] ?? 0)
+    )
+
+    return removed
+  }
+
+  /**
+   * Plain JSON copy of every top-level container
+   */
+  toJSON(): Record<string, unknown> {
+    const json: Record<string, unknown> = {}
+    this.containers.forEach((container) => {
+      if (typeof container.ref === 'string') {
+        json[container.ref] = this.containerJSON(container)
+      }
+    })
+    return json
+  }
+
+  /**
+   * Register an update handler
+   */
+  on(_event: 'update', handler: CRDTUpdateHandler): void {
+    this.handlers.add(handler)
+  }
+
+  /**
+   * Unregister an update handler
+   */
+  off(_event: 'update', handler: CRDTUpdateHandler): void {
+    this.handlers.delete(handler)
+  }
+
+  // Low-level access used by the shared types and the undo manager
+
+  /**
+   * Visible elements of a text or array, in order
+   */
+  readSequence(ref: CRDTContainerRef): unknown[] {
+    return this.sequence(ref)
+      .items.filter((item) => !item.deletedBy)
+      .map((item) => this.itemValue(item))
+  }
+
+  /**
+   * Insert content before the visible element at `index`
+   * @returns Id of the first inserted element
+   */
+  insertAt(ref: CRDTContainerRef, index: number, content: CRDTContent): CRDTId {
+    const container = this.sequence(ref)
+    const visible = container.items.filter((item) => !item.deletedBy)
+    if (!Number.isInteger(index) || index < 0 || index > visible.length) {
+      throw new CRDTError(
+        'INVALID_INDEX',
+        `Index ${index} is outside a sequence of length ${visible.length}`
+      )
+    }
+    return this.insertAfter(ref, index === 0 ? null : visible[index - 1]!.id, content)
+  }
+
+  /**
+   * Insert content right after an element (null for the start)
+   * @returns Id of the first inserted element
+   */
+  insertAfter(ref: CRDTContainerRef, origin: CRDTId | null, content: CRDTContent): CRDTId {
+    const container = this.sequence(ref)
+    if (container.type === 'text' ? !('text' in content) : 'text' in content) {
+      throw new CRDTError('INVALID_CONTENT', `Cannot insert this content into a ${container.type}`)
+    }
+    if (contentLength(content) === 0) {
+      throw new CRDTError('INVALID_CONTENT', 'Cannot insert empty content')
+    }
+
+    const operation = this.createOperation((id, lamport) => ({
+      type: 'insert' as const,
+      id,
+      lamport,
+      parent: container.ref,
+      origin,
+      content: 'values' in content ? { values: cloneJSON(content.values) } : content,
+    }))
+    return operation.id
+  }
+
+  /**
+   * Delete `length` visible elements starting at `index`
+   */
+  deleteAt(ref: CRDTContainerRef, index: number, length: number): void {
+    const container = this.sequence(ref)
+    const visible = container.items.filter((item) => !item.deletedBy)
+    if (!Number.isInteger(index) || index < 0 || length < 0 || index + length > visible.length) {
+      throw new CRDTError(
+        'INVALID_INDEX',
+        `Range ${index}..${index + length} is outside a sequence of length ${visible.length}`
+      )
+    }
+    this.deleteElements(visible.slice(index, index + length))
+  }
+
+  /**
+   * Delete elements by id, skipping ones already deleted
+   */
+  deleteItems(ids: CRDTId[]): void {
+    const elements = ids
+      .map((id) => this.items.get(idKey(id))?.item)
+      .filter((item): item is SequenceItem => item !== undefined && !item.deletedBy)
+    this.deleteElements(elements)
+  }
+
+  /**
+   * Insert fresh copies of deleted elements where they used to be
+   * Nested containers come back as plain JSON values. Elements that have
+   * been garbage collected cannot be restored.
+   *
+   * @returns Pairs of [deleted id, id of its copy]
+   */
+  restoreItems(ids: CRDTId[]): Array<[CRDTId, CRDTId]> {
+    const wanted = new Set(ids.map(idKey))
+    const containers = new Set<SequenceContainer>()
+    ids.forEach((id) => {
+      const entry = this.items.get(idKey(id))
+      if (entry?.item.deletedBy) containers.add(entry.container)
+    })
+
+    const restored: Array<[CRDTId, CRDTId]> = []
+    this.transact(() => {
+      containers.forEach((container) => {
+        // Walk in document order, restoring each run of wanted tombstones
+        // after the nearest visible element on its left
+        let origin: CRDTId | null = null
+        let run: SequenceItem[] = []
+        const flush = (): void => {
+          if (run.length === 0) return
+          const contents = run.map((item) => this.restorableContent(item))
+          const first = this.insertAfter(container.ref, origin, this.joinContent(container, contents))
+          run.forEach((item, i) => {
+            restored.push([item.id, { client: first.client, clock: first.clock + i }])
+          })
+          origin = { client: first.client, clock: first.clock + run.length - 1 }
+          run = []
+        }
+
+        for (const item of [...container.items]) {
+          if (item.deletedBy && wanted.has(idKey(item.id))) {
+            run.push(item)
+          } else if (!item.deletedBy) {
+            flush()
+            origin = item.id
+          }
+        }
+        flush()
+      })
+    })
+    return restored
+  }
+
+  /**
+   * Current value of a map key (a shared type for nested containers)
+   */
+  mapGet(ref: CRDTContainerRef, key: string): unknown {
+    const entry = this.map(ref).entries.get(key)
+    return entry && !entry.removed ? this.entryValue(entry) : undefined
+  }
+
+  /**
+   * Id of the operation that set a map key's current value
+   */
+  mapEntryId(ref: CRDTContainerRef, key: string): CRDTId | undefined {
+    return this.map(ref).entries.get(key)?.id
+  }
+
+  /**
+   * Keys currently set in a map
+   */
+  mapKeys(ref: CRDTContainerRef): string[] {
+    return [...this.map(ref).entries].filter(([, entry]) => !entry.removed).map(([key]) => key)
+  }
+
+  /**
+   * Set a map key to a JSON value or a new nested container
+   * @returns Id of the set operation
+   */
+  mapSet(
+    ref: CRDTContainerRef,
+    key: string,
+    value: { value: unknown } | { container: CRDTContainerType }
+  ): CRDTId {
+    const container = this.map(ref)
+    const operation = this.createOperation((id, lamport) => ({
+      type: 'set' as const,
+      id,
+      lamport,
+      parent: container.ref,
+      key,
+      ...('container' in value
+        ? { container: value.container }
+        : { value: cloneJSON(value.value) }),
+    }))
+    return operation.id
+  }
+
+  /**
+   * Remove a map key
+   */
+  mapRemove(ref: CRDTContainerRef, key: string): void {
+    const container = this.map(ref)
+    const entry = container.entries.get(key)
+    if (!entry || entry.removed) return
+
+    this.createOperation((id, lamport) => ({
+      type: 'remove' as const,
+      id,
+      lamport,
+      parent: container.ref,
+      key,
+    }))
+  }
+
+  /**
+   * Plain JSON copy of a container
+   */
+  toJSONAt(ref: CRDTContainerRef): unknown {
+    const container = this.containers.get(containerKey(ref))
+    return container ? this.containerJSON(container) : undefined
+  }
+
+  /**
+   * Whether a container is, or is nested inside, another
+   */
+  isWithin(ref: CRDTContainerRef, ancestor: CRDTContainerRef): boolean {
+    const target = containerKey(ancestor)
+    let key: string | undefined = containerKey(ref)
+    while (key) {
+      if (key === target) return true
+      key = this.containers.get(key)?.owner
+    }
+    return false
+  }
+
+  /**
+   * Create, integrate and record a local operation
+   */
+  private createOperation<T extends CRDTOperation>(build: (id: CRDTId, lamport: number) => T): T {
+    let operation: T | undefined
+    this.transact(() => {
+      operation = build({ client: this.clientId, clock: this.nextClock() }, this.lamport + 1)
+      const entry =
+        operation.type === 'set' || operation.type === 'remove'
+          ? this.map(operation.parent).entries.get(operation.key)
+          : undefined
+      const previous = entry && !entry.removed ? { value: this.entryJSON(entry) } : undefined
+
+      this.integrate(operation)
+      this.transaction!.operations.push(operation)
+      if (operation.type === 'set' || operation.type === 'remove') {
+        this.transaction!.previousValues.set(operation, previous)
+      }
+    })
+    return operation!
+  }
+
+  private nextClock(): number {
+    return (this.stateVector[this.clientId] ?? 0) + 1
+  }
+
+  private deleteElements(elements: SequenceItem[]): void {
+    if (elements.length === 0) return
+
+    // One delete operation per run of consecutive ids from the same insert
+    this.transact(() => {
+      let start = 0
+      for (let i = 1; i <= elements.length; i++) {
+        const previous = elements[i - 1]!
+        const next = elements[i]
+        if (
+          next &&
+          next.id.client === previous.id.client &&
+          next.id.clock === previous.id.clock + 1
+        ) {
+          continue
+        }
+
+        const target = elements[start]!
+        const { container } = this.items.get(idKey(target.id))!
+        this.createOperation((id, lamport) => ({
+          type: 'delete' as const,
+          id,
+          lamport,
+          parent: container.ref,
+          target: target.id,
+          length: i - start,
+        }))
+        start = i
+      }
+    })
+  }
+
+  /**
+   * Apply one operation
+   * Returns 'known' for operations already integrated and 'missing' when an
+   * operation it depends on has not arrived.
+   */
+  private integrate(operation: CRDTOperation): 'applied' | 'known' | 'missing' {
+    const { client, clock } = operation.id
+    const seen = this.stateVector[client] ?? 0
+    if (clock <= seen) return 'known'
+    if (clock !== seen + 1) return 'missing'
+
+    if (operation.type === 'delete') {
+      const { target, length } = operation
+      if ((this.stateVector[target.client] ?? 0) < target.clock + length - 1) return 'missing'
+
+      for (let i = 0; i < length; i++) {
+        const entry = this.items.get(idKey({ client: target.client, clock: target.clock + i }))
+        if (entry && !entry.item.deletedBy) entry.item.deletedBy = operation.id
+      }
+    } else {
+      const container = this.resolveContainer(operation)
+      if (!container) return 'missing'
+
+      if (operation.type === 'insert') {
+        if (operation.origin && !this.items.has(idKey(operation.origin))) return 'missing'
+        if (
+          container.type !== 'map' &&
+          (container.type === 'text') === 'text' in operation.content
+        ) {
+          this.insertElements(
+            container,
+            operation.id,
+            operation.lamport,
+            operation.origin,
+            splitContent(operation.content)
+          )
+        }
+      } else if (container.type === 'map') {
+        const entry: MapEntry =
+          operation.type === 'set'
+            ? {
+                id: operation.id,
+                lamport: operation.lamport,
+                value: operation.value,
+                container: operation.container,
+              }
+            : { id: operation.id, lamport: operation.lamport, removed: true }
+        if (operation.type === 'set' && operation.container) {
+          this.createContainer(operation.id, operation.container, containerKey(container.ref))
+        }
+        this.setEntry(container, operation.key, entry)
+      }
+    }
+
+    this.stateVector[client] = clock + operationLength(operation) - 1
+    this.lamport = Math.max(this.lamport, operation.lamport + operationLength(operation) - 1)
+    this.log.push(operation)
+    return 'applied'
+  }
+
+  /**
+   * Place a run of elements after their origin
+   */
+  private insertElements(
+    container: SequenceContainer,
+    first: CRDTId,
+    lamport: number,
+    origin: CRDTId | null,
+    contents: ItemContent[]
+  ): void {
+    const items = contents.map((content, i) => ({
+      id: { client: first.client, clock: first.clock + i },
+      lamport: lamport + i,
+      content,
+    }))
+    this.placeItems(container, origin, items)
+  }
+
+  /**
+   * RGA integration: skip the elements after the origin that are newer than
+   * the first new element; the rest of the run follows it directly.
+   */
+  private placeItems(
+    container: SequenceContainer,
+    origin: CRDTId | null,
+    items: SequenceItem[]
+  ): void {
+    const head = items[0]
+    if (!head) return
+
+    let index = origin ? container.items.indexOf(this.items.get(idKey(origin))!.item) + 1 : 0
+    while (index < container.items.length && isNewer(container.items[index]!, head)) {
+      index++
+    }
+    container.items.splice(index, 0, ...items)
+
+    const owner = containerKey(container.ref)
+    items.forEach((item) => {
+      this.items.set(idKey(item.id), { container, item })
+      if ('container' in item.content) this.createContainer(item.id, item.content.container, owner)
+    })
+  }
+
+  private setEntry(container: MapContainer, key: string, entry: MapEntry): boolean {
+    const current = container.entries.get(key)
+    if (current && !isNewer(entry, current)) return false
+    container.entries.set(key, entry)
+    return true
+  }
+
+  /**
+   * Merge a snapshot into the document
+   * @returns Whether anything changed
+   */
+  private applySnapshot(snapshot: CRDTSnapshot): boolean {
+    let changed = false
+
+    for (const source of snapshot.containers) {
+      const key = containerKey(source.ref)
+      const container =
+        this.containers.get(key) ??
+        (typeof source.ref === 'string'
+          ? this.rootContainer(source.ref, source.type)
+          : this.createContainer(source.ref, source.type))
+      if (container.type !== source.type) continue
+
+      if (container.type === 'map') {
+        for (const entry of (source as Extract<CRDTSnapshotContainer, { type: 'map' }>).entries) {
+          const { key: entryKey, ...rest } = entry
+          if (entry.container) this.createContainer(entry.id, entry.container, key)
+          if (this.setEntry(container, entryKey, rest)) changed = true
+          this.lamport = Math.max(this.lamport, entry.lamport)
+        }
+      } else {
+        changed =
+          this.mergeSequence(
+            container,
+            (source as Extract<CRDTSnapshotContainer, { items: unknown }>).items,
+            snapshot.stateVector
+          ) || changed
+      }
+    }
+
+    for (const [client, clock] of Object.entries(snapshot.stateVector)) {
+      if (clock > (this.stateVector[client] ?? 0)) {
+        this.stateVector[client] = clock
+        changed = true
+      }
+      this.baseline[client] = Math.max(this.baseline[client] ?? 0, clock)
+    }
+    this.log = this.log.filter(
+      (operation) => operation.id.clock > (this.baseline[operation.id.client] ?? 0)
+    )
+
+    return changed
+  }
+
+  private mergeSequence(
+    container: SequenceContainer,
+    items: CRDTSnapshotItem[],
+    stateVector: StateVector
+  ): boolean {
+    let changed = false
+    let origin: CRDTId | null = null
+    const listed = new Set<string>()
+
+    for (const source of items) {
+      const key = idKey(source.id)
+      listed.add(key)
+      this.lamport = Math.max(this.lamport, source.lamport)
+
+      const existing = this.items.get(key)
+      if (existing) {
+        if (source.deletedBy && !existing.item.deletedBy) {
+          existing.item.deletedBy = source.deletedBy
+          changed = true
+        }
+        origin = source.id
+      } else if ((this.stateVector[source.id.client] ?? 0) < source.id.clock) {
+        this.placeItems(container, origin, [{ ...source }])
+        origin = source.id
+        changed = true
+      }
+    }
+
+    // Elements the sender knew about but left out were collected there, so
+    // they must have been deleted
+    container.items.forEach((item) => {
+      const key = idKey(item.id)
+      if (
+        !item.deletedBy &&
+        !listed.has(key) &&
+        (stateVector[item.id.client] ?? 0) >= item.id.clock
+      ) {
+        item.deletedBy = item.id
+        changed = true
+      }
+    })
+
+    return changed
+  }
+
+  private snapshot(): CRDTSnapshot {
+    const containers: CRDTSnapshotContainer[] = []
+    this.containers.forEach((container) => {
+      if (container.type === 'map') {
+        const entries: CRDTSnapshotEntry[] = []
+        container.entries.forEach((entry, key) => entries.push({ key, ...entry }))
+        containers.push({ ref: container.ref, type: 'map', entries })
+      } else {
+        containers.push({
+          ref: container.ref,
+          type: container.type,
+          items: container.items.map((item) => ({ ...item })),
+        })
+      }
+    })
+    return { stateVector: this.getStateVector(), containers }
+  }
+
+  private rootContainer(name: string, type: CRDTContainerType): Container {
+    const key = containerKey(name)
+    const existing = this.containers.get(key)
+    if (existing) {
+      if (existing.type !== type) {
+        throw new CRDTError('TYPE_MISMATCH', `"${name}" is a ${existing.type}, not a ${type}`)
+      }
+      return existing
+    }
+    return this.addContainer(key, name, type)
+  }
+
+  private createContainer(id: CRDTId, type: CRDTContainerType, owner?: string): Container {
+    const key = idKey(id)
+    return this.containers.get(key) ?? this.addContainer(key, id, type, owner)
+  }
+
+  private addContainer(
+    key: string,
+    ref: CRDTContainerRef,
+    type: CRDTContainerType,
+    owner?: string
+  ): Container {
+    const container: Container =
+      type === 'map' ? { type, ref, owner, entries: new Map() } : { type, ref, owner, items: [] }
+    this.containers.set(key, container)
+    return container
+  }
+
+  /**
+   * Find the container an operation targets, creating top-level ones on demand
+   */
+  private resolveContainer(operation: CRDTOperation): Container | undefined {
+    const existing = this.containers.get(containerKey(operation.parent))
+    if (existing || typeof operation.parent !== 'string') return existing
+
+    const type: CRDTContainerType =
+      operation.type !== 'insert' ? 'map' : 'text' in operation.content ? 'text' : 'array'
+    return this.rootContainer(operation.parent, type)
+  }
+
+  private dropContainer(key: string): void {
+    const container = this.containers.get(key)
+    if (!container) return
+
+    this.containers.delete(key)
+    if (container.type === 'map') {
+      container.entries.forEach((entry) => {
+        if (entry.container) this.dropContainer(idKey(entry.id))
+      })
+    } else {
+      container.items.forEach((item) => {
+        this.items.delete(idKey(item.id))
+        if ('container' in item.content) this.dropContainer(idKey(item.id))
+      })
+    }
+  }
+
+  private sequence(ref: CRDTContainerRef): SequenceContainer {
+    const container = this.containers.get(containerKey(ref))
+    if (!container || container.type === 'map') {
+      throw new CRDTError('TYPE_MISMATCH', 'Container is not a text or array')
+    }
+    return container
+  }
+
+  private map(ref: CRDTContainerRef): MapContainer {
+    const container = this.containers.get(containerKey(ref))
+    if (!container || container.type !== 'map') {
+      throw new CRDTError('TYPE_MISMATCH', 'Container is not a map')
+    }
+    return container
+  }
+
+  private itemValue(item: SequenceItem): unknown {
+    if ('text' in item.content) return item.content.text
+    if ('value' in item.content) return item.content.value
+    return this.sharedType(item.id, item.content.container)
+  }
+
+  private entryValue(entry: MapEntry): unknown {
+    return entry.container ? this.sharedType(entry.id, entry.container) : entry.value
+  }
+
+  private entryJSON(entry: MapEntry): unknown {
+    return entry.container ? this.toJSONAt(entry.id) : cloneJSON(entry.value)
+  }
+
+  private sharedType(ref: CRDTContainerRef, type: CRDTContainerType): CRDTSharedType {
+    if (type === 'text') return new CRDTText(this, ref)
+    if (type === 'array') return new CRDTArray(this, ref)
+    return new CRDTMap(this, ref)
+  }
+
+  private restorableContent(item: SequenceItem): ItemContent {
+    return 'container' in item.content ? { value: this.toJSONAt(item.id) } : item.content
+  }
+
+  private joinContent(container: SequenceContainer, run: ItemContent[]): CRDTContent {
+    if (container.type === 'text') {
+      return { text: run.map((content) => ('text' in content ? content.text : '')).join('') }
+    }
+    return { values: run.map((content) => ('value' in content ? content.value : null)) }
+  }
+
+  private containerJSON(container: Container): unknown {
+    if (container.type === 'map') {
+      const json: Record<string, unknown> = {}
+      container.entries.forEach((entry, key) => {
+        if (!entry.removed) json[key] = this.entryJSON(entry)
+      })
+      return json
+    }
+
+    const visible = container.items.filter((item) => !item.deletedBy)
+    if (container.type === 'text') {
+      return visible.map((item) => ('text' in item.content ? item.content.text : '')).join('')
+    }
+    return visible.map((item) =>
+      'container' in item.content
+        ? this.toJSONAt(item.id)
+        : cloneJSON('value' in item.content ? item.content.value : null)
+    )
+  }
+
+  private emit(event: CRDTUpdateEvent): void {
+    this.handlers.forEach((handler) => handler(event))
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * CRDT Sync Provider
+ * Keeps a CRDTDocument in sync with its peers over an A2UI transport
+ *
+ * On connect each side sends its state vector (crdtSyncStep1) and the other
+ * answers with the changes it is missing (crdtSyncStep2), along with its own
+ * state vector so the first side can send back whatever the peer lacks.
+ * After that, local changes are broadcast as they happen (crdtUpdate).
+ *
+ * Changes made while disconnected are also written to the offline queue when
+ * one is configured, so they survive a reload and are delivered, merged, on
+ * the next connection.
+ */
+
+import type { A2UITransport, TransportStatus } from '../transport/transport.js'
+import type { OfflineQueue } from '../offline/queue.js'
+import type { CRDTUpdate, StateVector } from '../types/crdt-types.js'
+import type {
+  CRDTSyncStep1Message,
+  CRDTSyncStep2Message,
+  CRDTUpdateMessage,
+} from '../types/collaboration-messages.js'
+import type { CRDTDocument, CRDTUpdateEvent } from './crdt-document.js'
+
+/**
+ * Sync provider options
+ */
+export interface CRDTSyncProviderOptions {
+  /** Shared document identifier */
+  documentId: string
+  /** Component the document backs (defaults to the document id) */
+  componentId?: string
+  /** Queue that keeps local changes made while disconnected */
+  queue?: OfflineQueue
+}
+
+/**
+ * Payload of queued offline changes
+ */
+export interface CRDTQueuedUpdate {
+  documentId: string
+  update: CRDTUpdate
+}
+
+function isQueuedUpdate(data: unknown, documentId: string): data is CRDTQueuedUpdate {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as Partial<CRDTQueuedUpdate>).documentId === documentId &&
+    typeof (data as Partial<CRDTQueuedUpdate>).update === 'object'
+  )
+}
+
+function isEmptyUpdate(update: CRDTUpdate): boolean {
+  return !update.snapshot && update.operations.length === 0
+}
+
+/**
+ * Sync provider for one document over one transport
+ */
+export class CRDTSyncProvider {
+  private readonly peers = new Map<string, StateVector>()
+  private readonly documentId: string
+  private readonly componentId: string
+  private readonly queue: OfflineQueue | undefined
+  private flushing: Promise<void> | null = null
+
+  constructor(
+    private readonly doc: CRDTDocument,
+    private readonly transport: A2UITransport,
+    options: CRDTSyncProviderOptions
+  ) {
+    this.documentId = options.documentId
+    this.componentId = options.componentId ?? options.documentId
+    this.queue = options.queue
+
+    this.transport.on<CRDTSyncStep1Message>('crdtSyncStep1', this.handleStep1)
+    this.transport.on<CRDTSyncStep2Message>('crdtSyncStep2', this.handleStep2)
+    this.transport.on<CRDTUpdateMessage>('crdtUpdate', this.handleUpdateMessage)
+    this.transport.on<TransportStatus>('statusChange', this.handleStatusChange)
+    this.doc.on('update', this.handleDocumentUpdate)
+
+    if (this.transport.isConnected) {
+      void this.synchronize()
+    }
+  }
+
+  /**
+   * Latest state vector reported by each peer
+   */
+  get peerStateVectors(): ReadonlyMap<string, StateVector> {
+    return this.peers
+  }
+
+  /**
+   * Deliver queued offline changes, then ask peers for theirs
+   */
+  async synchronize(): Promise<void> {
+    await this.flush()
+    this.send({
+      type: 'crdtSyncStep1',
+      componentId: this.componentId,
+      documentId: this.documentId,
+      clientId: this.doc.clientId,
+      stateVector: this.doc.getStateVector(),
+    })
+  }
+
+  /**
+   * Apply and send the changes waiting in the offline queue
+   * Each entry is removed once sent; entries stay queued if the connection
+   * drops part way through.
+   */
+  flush(): Promise<void> {
+    this.flushing ??= this.flushQueue().finally(() => {
+      this.flushing = null
+    })
+    return this.flushing
+  }
+
+  /**
+   * Collect tombstones every known peer has seen deleted
+   * @returns Number of elements removed
+   */
+  gc(): number {
+    return this.doc.gc([...this.peers.values()])
+  }
+
+  /**
+   * Stop syncing
+   */
+  destroy(): void {
+    this.transport.off<CRDTSyncStep1Message>('crdtSyncStep1', this.handleStep1)
+    this.transport.off<CRDTSyncStep2Message>('crdtSyncStep2', this.handleStep2)
+    this.transport.off<CRDTUpdateMessage>('crdtUpdate', this.handleUpdateMessage)
+    this.transport.off<TransportStatus>('statusChange', this.handleStatusChange)
+    this.doc.off('update', this.handleDocumentUpdate)
+  }
+
+  private async flushQueue(): Promise<void> {
+    if (!this.queue) return
+
+    const operations = (await this.queue.getPending()).filter((operation) =>
+      isQueuedUpdate(operation.data, this.documentId)
+    )
+    for (const operation of operations) {
+      if (!this.transport.isConnected) return
+
+      const { update } = operation.data as CRDTQueuedUpdate
+      // Brings the changes back after a reload; a no-op otherwise
+      this.doc.applyUpdate(update, this)
+      this.sendUpdate(update)
+      await this.queue.remove(operation.id)
+    }
+  }
+
+  private handleDocumentUpdate = (event: CRDTUpdateEvent): void => {
+    if (event.origin === this || !event.local) return
+
+    if (this.transport.isConnected) {
+      this.sendUpdate(event.update)
+    } else if (this.queue) {
+      void this.queue.add({
+        type: 'update',
+        data: { documentId: this.documentId, update: event.update },
+        maxRetries: 0,
+        metadata: { kind: 'crdtUpdate' },
+      })
+    }
+  }
+
+  private handleStatusChange = (status: TransportStatus): void => {
+    if (status === 'connected') {
+      void this.synchronize()
+    }
+  }
+
+  private handleStep1 = (message: CRDTSyncStep1Message): void => {
+    if (!this.accepts(message)) return
+
+    this.recordPeer(message.clientId, message.stateVector)
+    this.send({
+      type: 'crdtSyncStep2',
+      componentId: this.componentId,
+      documentId: this.documentId,
+      clientId: this.doc.clientId,
+      stateVector: this.doc.getStateVector(),
+      update: this.doc.encodeUpdate(message.stateVector),
+    })
+  }
+
+  private handleStep2 = (message: CRDTSyncStep2Message): void => {
+    if (!this.accepts(message)) return
+
+    this.doc.applyUpdate(message.update, this)
+    this.recordPeer(message.clientId, message.stateVector)
+
+    // Send back whatever the peer is missing, including offline edits
+    const missing = this.doc.encodeUpdate(message.stateVector)
+    if (!isEmptyUpdate(missing)) this.sendUpdate(missing)
+  }
+
+  private handleUpdateMessage = (message: CRDTUpdateMessage): void => {
+    if (!this.accepts(message)) return
+
+    this.doc.applyUpdate(message.update, this)
+    this.recordPeer(message.clientId, message.stateVector)
+  }
+
+  private accepts(message: { documentId: string; clientId: string }): boolean {
+    return message.documentId === this.documentId && message.clientId !== this.doc.clientId
+  }
+
+  private recordPeer(clientId: string, stateVector: StateVector): void {
+    const known = this.peers.get(clientId) ?? {}
+    for (const [client, clock] of Object.entries(stateVector)) {
+      known[client] = Math.max(known[client] ?? 0, clock)
+    }
+    this.peers.set(clientId, known)
+  }
+
+  private sendUpdate(update: CRDTUpdate): void {
+    this.send({
+      type: 'crdtUpdate',
+      componentId: this.componentId,
+      documentId: this.documentId,
+      clientId: this.doc.clientId,
+      stateVector: this.doc.getStateVector(),
+      update,
+    })
+  }
+
+  private send(message: CRDTSyncStep1Message | CRDTSyncStep2Message | CRDTUpdateMessage): void {
+    this.transport.send(message)
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * CRDT Data Model Binding
+ * Mirrors a CRDTMap into a surface data model as updateDataModel messages
+ */
+
+import type { DataUpdate, UpdateDataModelMessage } from '../types/protocol.js'
+import type { CRDTMap } from './shared-types.js'
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * JSON Pointer updates that turn `from` into `to`
+ * Objects are compared key by key; anything else is replaced as a whole.
+ */
+export function diffDataModel(from: unknown, to: unknown, path = ''): DataUpdate[] {
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const updates: DataUpdate[] = []
+    for (const key of Object.keys(from)) {
+      if (!(key in to)) updates.push({ path: `${path}/${escapeToken(key)}`, operation: 'remove' })
+    }
+    for (const [key, value] of Object.entries(to)) {
+      updates.push(...diffDataModel(from[key], value, `${path}/${escapeToken(key)}`))
+    }
+    return updates
+  }
+
+  if (JSON.stringify(from) === JSON.stringify(to)) return []
+  if (to === undefined) return [{ path, operation: 'remove' }]
+  return [{ path, operation: 'set', value: to }]
+}
+
+/**
+ * Keep a surface data model in step with a shared map
+ *
+ * Sends the map's full contents straight away, then one message with the
+ * changed paths after every document update that touched it.
+ *
+ * @returns Function that stops the binding
+ */
+export function bindDataModel(
+  map: CRDTMap,
+  surfaceId: string,
+  onMessage: (message: UpdateDataModelMessage) => void
+): () => void {
+  let current = map.toJSON()
+  onMessage({
+    type: 'updateDataModel',
+    surfaceId,
+    updates: [{ path: '', operation: 'set', value: current }],
+  })
+
+  const handleUpdate = (): void => {
+    const next = map.toJSON()
+    const updates = diffDataModel(current, next)
+    current = next
+    if (updates.length > 0) {
+      onMessage({ type: 'updateDataModel', surfaceId, updates })
+    }
+  }
+
+  map.doc.on('update', handleUpdate)
+  return () => map.doc.off('update', handleUpdate)
+}
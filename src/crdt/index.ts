@@ -0,0 +1,47 @@
+/**
+ * A2UI CRDT
+ * Replicated text, arrays and maps with state-vector sync over A2UI transports
+ */
+
+export { CRDTDocument, CRDTError, isCRDTUpdate } from './crdt-document.js'
+export type {
+  CRDTErrorCode,
+  CRDTSharedType,
+  CRDTDocumentOptions,
+  CRDTUpdateEvent,
+  CRDTUpdateHandler,
+} from './crdt-document.js'
+export { CRDTText, CRDTArray, CRDTMap } from './shared-types.js'
+export { CRDTUndoManager } from './undo-manager.js'
+export type { CRDTUndoManagerOptions } from './undo-manager.js'
+export { CRDTSyncProvider } from './crdt-sync-provider.js'
+export type { CRDTSyncProviderOptions, CRDTQueuedUpdate } from './crdt-sync-provider.js'
+export { bindDataModel, diffDataModel } from './data-model-binding.js'
+
+export type {
+  CRDTId,
+  StateVector,
+  CRDTContainerType,
+  CRDTContainerRef,
+  CRDTContent,
+  CRDTInsertOperation,
+  CRDTDeleteOperation,
+  CRDTSetOperation,
+  CRDTRemoveOperation,
+  CRDTOperation,
+  CRDTSnapshotItem,
+  CRDTSnapshotEntry,
+  CRDTSnapshotContainer,
+  CRDTSnapshot,
+  CRDTUpdate,
+} from '../types/crdt-types.js'
+export type {
+  CRDTSyncStep1Message,
+  CRDTSyncStep2Message,
+  CRDTUpdateMessage,
+} from '../types/collaboration-messages.js'
+export {
+  isCRDTSyncStep1Message,
+  isCRDTSyncStep2Message,
+  isCRDTUpdateMessage,
+} from '../types/collaboration-messages.js'
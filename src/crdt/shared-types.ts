@@ -0,0 +1,209 @@
+/**
+ * CRDT Shared Types
+ * Handles for the text, array and map containers of a CRDTDocument
+ *
+ * Handles hold no state of their own; every read and write goes to the
+ * document, so any number of handles for one container stay in step.
+ */
+
+import type { CRDTContainerRef } from '../types/crdt-types.js'
+import type { CRDTDocument } from './crdt-document.js'
+
+/**
+ * Collaborative text
+ */
+export class CRDTText {
+  constructor(
+    readonly doc: CRDTDocument,
+    readonly ref: CRDTContainerRef
+  ) {}
+
+  /**
+   * Number of characters
+   */
+  get length(): number {
+    return this.doc.readSequence(this.ref).length
+  }
+
+  /**
+   * Insert text before the character at `index`
+   */
+  insert(index: number, text: string): void {
+    if (text.length > 0) this.doc.insertAt(this.ref, index, { text })
+  }
+
+  /**
+   * Delete `length` characters starting at `index`
+   */
+  delete(index: number, length: number): void {
+    this.doc.deleteAt(this.ref, index, length)
+  }
+
+  toString(): string {
+    return this.doc.readSequence(this.ref).join('')
+  }
+
+  toJSON(): string {
+    return this.toString()
+  }
+}
+
+/**
+ * Collaborative list of JSON values and nested containers
+ */
+export class CRDTArray {
+  constructor(
+    readonly doc: CRDTDocument,
+    readonly ref: CRDTContainerRef
+  ) {}
+
+  /**
+   * Number of elements
+   */
+  get length(): number {
+    return this.doc.readSequence(this.ref).length
+  }
+
+  /**
+   * Element at `index` (a shared type for nested containers)
+   */
+  get(index: number): unknown {
+    return this.doc.readSequence(this.ref)[index]
+  }
+
+  /**
+   * Elements in order (shared types for nested containers)
+   */
+  toArray(): unknown[] {
+    return this.doc.readSequence(this.ref)
+  }
+
+  /**
+   * Insert JSON values before the element at `index`
+   */
+  insert(index: number, values: unknown[]): void {
+    if (values.length > 0) this.doc.insertAt(this.ref, index, { values })
+  }
+
+  /**
+   * Append JSON values
+   */
+  push(...values: unknown[]): void {
+    this.insert(this.length, values)
+  }
+
+  /**
+   * Delete `length` elements starting at `index`
+   */
+  delete(index: number, length = 1): void {
+    this.doc.deleteAt(this.ref, index, length)
+  }
+
+  /**
+   * Insert a nested map before the element at `index`
+   */
+  insertMap(index: number): CRDTMap {
+    return new CRDTMap(this.doc, this.doc.insertAt(this.ref, index, { container: 'map' }))
+  }
+
+  /**
+   * Insert a nested array before the element at `index`
+   */
+  insertArray(index: number): CRDTArray {
+    return new CRDTArray(this.doc, this.doc.insertAt(this.ref, index, { container: 'array' }))
+  }
+
+  /**
+   * Insert a nested text before the element at `index`
+   */
+  insertText(index: number, text = ''): CRDTText {
+    let nested!: CRDTText
+    this.doc.transact(() => {
+      nested = new CRDTText(this.doc, this.doc.insertAt(this.ref, index, { container: 'text' }))
+      nested.insert(0, text)
+    })
+    return nested
+  }
+
+  toJSON(): unknown[] {
+    return this.doc.toJSONAt(this.ref) as unknown[]
+  }
+}
+
+/**
+ * Collaborative map
+ * Keys hold JSON values, replaced as a whole, or nested containers that merge
+ * concurrent edits to their contents.
+ */
+export class CRDTMap {
+  constructor(
+    readonly doc: CRDTDocument,
+    readonly ref: CRDTContainerRef
+  ) {}
+
+  /**
+   * Number of keys
+   */
+  get size(): number {
+    return this.doc.mapKeys(this.ref).length
+  }
+
+  /**
+   * Value of a key (a shared type for nested containers)
+   */
+  get(key: string): unknown {
+    return this.doc.mapGet(this.ref, key)
+  }
+
+  has(key: string): boolean {
+    return this.doc.mapKeys(this.ref).includes(key)
+  }
+
+  keys(): string[] {
+    return this.doc.mapKeys(this.ref)
+  }
+
+  /**
+   * Set a key to a JSON value
+   */
+  set(key: string, value: unknown): void {
+    this.doc.mapSet(this.ref, key, { value })
+  }
+
+  /**
+   * Set a key to a new nested map
+   */
+  setMap(key: string): CRDTMap {
+    return new CRDTMap(this.doc, this.doc.mapSet(this.ref, key, { container: 'map' }))
+  }
+
+  /**
+   * Set a key to a new nested array
+   */
+  setArray(key: string): CRDTArray {
+    return new CRDTArray(this.doc, this.doc.mapSet(this.ref, key, { container: 'array' }))
+  }
+
+  /**
+   * Set a key to a new nested text
+   */
+  setText(key: string, text = ''): CRDTText {
+    let nested!: CRDTText
+    this.doc.transact(() => {
+      nested = new CRDTText(this.doc, this.doc.mapSet(this.ref, key, { container: 'text' }))
+      nested.insert(0, text)
+    })
+    return nested
+  }
+
+  /**
+   * Remove a key
+   */
+  delete(key: string): void {
+    this.doc.mapRemove(this.ref, key)
+  }
+
+  toJSON(): Record<string, unknown> {
+    return this.doc.toJSONAt(this.ref) as Record<string, unknown>
+  }
+}
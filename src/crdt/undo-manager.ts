@@ -0,0 +1,229 @@
+/**
+ * CRDT Undo Manager
+ * Per-user undo and redo for a CRDTDocument
+ *
+ * Only changes made on the manager's own replica are recorded, so undoing
+ * never reverts another user's work: inserted elements are deleted, deleted
+ * elements are inserted again where they were, and map keys go back to their
+ * previous value unless another replica has overwritten them since.
+ */
+
+import type { CRDTId, CRDTContainerRef, CRDTOperation } from '../types/crdt-types.js'
+import type { CRDTDocument, CRDTSharedType, CRDTUpdateEvent } from './crdt-document.js'
+
+/**
+ * Undo manager options
+ */
+export interface CRDTUndoManagerOptions {
+  /** Changes closer together than this are undone as one step (ms) */
+  captureTimeout?: number
+  /** Only track changes inside these containers (default: the whole document) */
+  scope?: CRDTSharedType[]
+}
+
+interface MapChange {
+  parent: CRDTContainerRef
+  key: string
+  previous: { value: unknown } | undefined
+}
+
+interface StackItem {
+  inserted: CRDTId[]
+  deleted: CRDTId[]
+  mapChanges: MapChange[]
+}
+
+function idKey(id: CRDTId): string {
+  return `${id.clock}@${id.client}`
+}
+
+function expand(first: CRDTId, length: number): CRDTId[] {
+  return Array.from({ length }, (_, i) => ({ client: first.client, clock: first.clock + i }))
+}
+
+/**
+ * Undo manager for one user's changes
+ */
+export class CRDTUndoManager {
+  private readonly undoStack: StackItem[] = []
+  private readonly redoStack: StackItem[] = []
+  private readonly captureTimeout: number
+  private readonly scope: CRDTContainerRef[] | undefined
+  private lastChange = 0
+  private undoing = false
+  private redoing = false
+
+  constructor(
+    private readonly doc: CRDTDocument,
+    options: CRDTUndoManagerOptions = {}
+  ) {
+    this.captureTimeout = options.captureTimeout ?? 500
+    this.scope = options.scope?.map((type) => type.ref)
+    this.doc.on('update', this.handleUpdate)
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * Revert the latest step
+   * @returns Whether there was anything to undo
+   */
+  undo(): boolean {
+    const item = this.undoStack.pop()
+    if (!item) return false
+
+    this.undoing = true
+    try {
+      this.revert(item)
+    } finally {
+      this.undoing = false
+    }
+    return true
+  }
+
+  /**
+   * Reapply the latest undone step
+   * @returns Whether there was anything to redo
+   */
+  redo(): boolean {
+    const item = this.redoStack.pop()
+    if (!item) return false
+
+    this.redoing = true
+    try {
+      this.revert(item)
+    } finally {
+      this.redoing = false
+    }
+    return true
+  }
+
+  /**
+   * Start a new step with the next change, even within the capture timeout
+   */
+  stopCapturing(): void {
+    this.lastChange = 0
+  }
+
+  /**
+   * Forget all steps
+   */
+  clear(): void {
+    this.undoStack.length = 0
+    this.redoStack.length = 0
+  }
+
+  /**
+   * Stop tracking changes
+   */
+  destroy(): void {
+    this.doc.off('update', this.handleUpdate)
+    this.clear()
+  }
+
+  private revert(item: StackItem): void {
+    this.doc.transact(() => {
+      for (const change of [...item.mapChanges].reverse()) {
+        // Leave keys that another replica has set since
+        if (this.doc.mapEntryId(change.parent, change.key)?.client !== this.doc.clientId) continue
+
+        if (change.previous) {
+          this.doc.mapSet(change.parent, change.key, { value: change.previous.value })
+        } else {
+          this.doc.mapRemove(change.parent, change.key)
+        }
+      }
+      const restored = this.doc.restoreItems(item.deleted)
+      this.doc.deleteItems(item.inserted)
+      this.followRestored(restored)
+    }, this)
+  }
+
+  /**
+   * Point remaining steps at the copies of restored elements, so undoing
+   * an earlier insert also removes text that a later undo brought back
+   */
+  private followRestored(restored: Array<[CRDTId, CRDTId]>): void {
+    if (restored.length === 0) return
+
+    const copies = new Map(restored.map(([original, copy]) => [idKey(original), copy]))
+    const follow = (id: CRDTId): CRDTId => copies.get(idKey(id)) ?? id
+    for (const item of [...this.undoStack, ...this.redoStack]) {
+      item.inserted = item.inserted.map(follow)
+      item.deleted = item.deleted.map(follow)
+    }
+  }
+
+  private handleUpdate = (event: CRDTUpdateEvent): void => {
+    if (!event.local) return
+
+    const item = this.capture(event)
+    if (!item) return
+
+    if (this.undoing) {
+      this.redoStack.push(item)
+      return
+    }
+    if (this.redoing) {
+      this.undoStack.push(item)
+      return
+    }
+
+    const now = Date.now()
+    const last = this.undoStack[this.undoStack.length - 1]
+    if (last && now - this.lastChange < this.captureTimeout) {
+      last.inserted.push(...item.inserted)
+      last.deleted.push(...item.deleted)
+      last.mapChanges.push(...item.mapChanges)
+    } else {
+      this.undoStack.push(item)
+    }
+    this.lastChange = now
+    this.redoStack.length = 0
+  }
+
+  private capture(event: CRDTUpdateEvent): StackItem | null {
+    const item: StackItem = { inserted: [], deleted: [], mapChanges: [] }
+
+    event.update.operations.filter(this.inScope).forEach((operation) => {
+      switch (operation.type) {
+        case 'insert': {
+          const { content } = operation
+          const length =
+            'text' in content
+              ? content.text.length
+              : 'values' in content
+                ? content.values.length
+                : 1
+          item.inserted.push(...expand(operation.id, length))
+          break
+        }
+        case 'delete':
+          item.deleted.push(...expand(operation.target, operation.length))
+          break
+        case 'set':
+        case 'remove':
+          item.mapChanges.push({
+            parent: operation.parent,
+            key: operation.key,
+            previous: event.previousValues.get(operation),
+          })
+          break
+      }
+    })
+
+    const empty = !item.inserted.length && !item.deleted.length && !item.mapChanges.length
+    return empty ? null : item
+  }
+
+  private inScope = (operation: CRDTOperation): boolean => {
+    if (!this.scope) return true
+    return this.scope.some((ref) => this.doc.isWithin(operation.parent, ref))
+  }
+}
@@ -26,7 +26,16 @@ import type {
 } from '../types/billing-messages.js'
 
 import type { StripeIntegration } from '../integrations/stripe-integration.js'
-import type { UsageMetric, InvoiceData } from '../types/billing-components.js'
+import type {
+  StripeBillingTopic,
+  StripeBillingUpdate,
+} from '../integrations/stripe-webhooks.js'
+import type {
+  UsageMetric,
+  InvoiceData,
+  BillingComponent,
+} from '../types/billing-components.js'
+import type { DataUpdate } from '../types/protocol.js'
 
 /**
  * Billing service interface
@@ -127,6 +136,32 @@ export interface BillingHandlerOptions {
  */
 export type UsageCallback = (usage: UsageMetric[]) => void
 
+/**
+ * Billing component kept up to date by Stripe webhook events
+ */
+export interface BillingComponentBinding {
+  /** Component ID */
+  componentId: string
+  /** Component type, which decides the events the component receives */
+  componentType: BillingComponent['type']
+  /** Surface the component is rendered on */
+  surfaceId: string
+  /** JSON Pointer the component's data lives under (default: surface root) */
+  dataPath?: string
+}
+
+/**
+ * Webhook topics each billing component type follows
+ */
+const COMPONENT_TOPICS: Record<BillingComponent['type'], StripeBillingTopic[]> = {
+  subscriptionPlan: ['subscription'],
+  billingHistory: ['invoice', 'payment'],
+  invoiceViewer: ['invoice'],
+  paymentMethod: ['paymentMethod', 'payment'],
+  usageMeter: [],
+  billingAddress: [],
+}
+
 /**
  * Billing Handler Class
  *
@@ -136,6 +171,7 @@ export type UsageCallback = (usage: UsageMetric[]) => void
 export class BillingHandler {
   private usageSubscriptions = new Map<string, Set<UsageCallback>>()
   private usageRefreshIntervals = new Map<string, number>()
+  private componentBindings = new Map<string, BillingComponentBinding>()
 
   constructor(private options: BillingHandlerOptions) {}
 
@@ -691,6 +727,59 @@ export class BillingHandler {
     }
   }
 
+  /**
+   * Bind a component to Stripe webhook updates
+   */
+  bindComponent(binding: BillingComponentBinding): () => void {
+    this.componentBindings.set(binding.componentId, binding)
+
+    // Return unbind function
+    return () => {
+      if (this.componentBindings.get(binding.componentId) === binding) {
+        this.componentBindings.delete(binding.componentId)
+      }
+    }
+  }
+
+  /**
+   * Apply a Stripe webhook update to the bound components
+   *
+   * Each component following the update's topic receives the billing
+   * message, and each surface receives one data model update.
+   */
+  applyStripeUpdate(update: StripeBillingUpdate): void {
+    const surfaceUpdates = new Map<string, DataUpdate[]>()
+
+    this.componentBindings.forEach((binding) => {
+      if (!COMPONENT_TOPICS[binding.componentType].includes(update.topic)) {
+        return
+      }
+
+      if (update.message) {
+        this.sendMessage({ ...update.message, componentId: binding.componentId })
+      }
+
+      if (!surfaceUpdates.has(binding.surfaceId)) {
+        surfaceUpdates.set(binding.surfaceId, [])
+      }
+      const updates = surfaceUpdates.get(binding.surfaceId)!
+
+      // Components sharing a data path only need each change once
+      update.updates.forEach((dataUpdate) => {
+        const path = `${binding.dataPath ?? ''}${dataUpdate.path}`
+        if (!updates.some((existing) => existing.path === path)) {
+          updates.push({ ...dataUpdate, path })
+        }
+      })
+    })
+
+    surfaceUpdates.forEach((updates, surfaceId) => {
+      if (updates.length > 0) {
+        this.sendMessage({ type: 'updateDataModel', surfaceId, updates })
+      }
+    })
+  }
+
   /**
    * Clean up resources
    */
@@ -701,6 +790,7 @@ export class BillingHandler {
 
     // Clear all subscriptions
     this.usageSubscriptions.clear()
+    this.componentBindings.clear()
   }
 
   /**
@@ -3,9 +3,11 @@
  * Manages real-time collaboration features including editing, presence, cursors, canvas, and comments
  */
 
-import type { A2UITransport } from '../transport/index.js'
+import { A2UITransport, isTransportAdapter } from '../transport/index.js'
+import type { A2UITransportAdapter } from '../transport/index.js'
 import type {
   CollaborativeEditorChangeMessage,
+  CollaborativeEditorAckMessage,
   CollaborativeEditorSyncMessage,
   PresenceJoinMessage,
   PresenceLeaveMessage,
@@ -36,7 +38,8 @@ import {
   isCommentResolveMessage,
   isCommentReactMessage,
 } from '../types/collaboration-messages.js'
-import { ConflictResolver, type ConflictResolutionStrategy } from '../utils/conflict-resolver.js'
+import type { ConflictResolutionStrategy } from '../utils/conflict-resolver.js'
+import { OTDocument, type OTDocumentChange } from '../utils/operational-transform.js'
 
 /**
  * Collaboration event types
@@ -58,6 +61,7 @@ export type CollaborationEventType =
   | 'conflict'
   | 'roomJoined'
   | 'roomLeft'
+  | 'error'
 
 /**
  * Collaboration event data
@@ -106,7 +110,7 @@ export interface CollaborationHandlerOptions {
 interface RoomState {
   roomId: string
   users: Map<string, PresenceUser & { status: PresenceStatus; lastSeen: number }>
-  documents: Map<string, { content: string; version: number }>
+  documents: Map<string, OTDocument>
   cursors: Map<string, { x: number; y: number }>
   selections: Map<string, { start: number; end: number }>
 }
@@ -117,8 +121,8 @@ interface RoomState {
  */
 export class CollaborationHandler {
   private readonly transport: A2UITransport
+  private readonly ownsTransport: boolean
   private readonly options: Required<CollaborationHandlerOptions>
-  private readonly conflictResolver: ConflictResolver
   private readonly eventHandlers = new Map<CollaborationEventType, Set<CollaborationEventHandler>>()
   private readonly rooms = new Map<string, RoomState>()
   private presenceCheckTimer: ReturnType<typeof setInterval> | null = null
@@ -126,8 +130,16 @@ export class CollaborationHandler {
   private lastEditUpdate = new Map<string, number>()
   private pendingEdits = new Map<string, any[]>()
 
-  constructor(transport: A2UITransport, options: CollaborationHandlerOptions = {}) {
-    this.transport = transport
+  /**
+   * @param transport - Transport to use, or a connection adapter the handler
+   *   connects and disconnects itself
+   */
+  constructor(
+    transport: A2UITransport | A2UITransportAdapter,
+    options: CollaborationHandlerOptions = {}
+  ) {
+    this.ownsTransport = isTransportAdapter(transport)
+    this.transport = A2UITransport.from(transport)
     this.options = {
       wsUrl: options.wsUrl || '',
       conflictResolution: options.conflictResolution || 'operational-transform',
@@ -140,8 +152,16 @@ export class CollaborationHandler {
       persistEdits: options.persistEdits ?? false,
       persistComments: options.persistComments ?? true,
     }
-    this.conflictResolver = new ConflictResolver()
     this.initialize()
+
+    if (this.ownsTransport) {
+      this.transport.connect().catch((error) => {
+        this.emit('error', {
+          type: 'error',
+          data: { error: error instanceof Error ? error.message : String(error) },
+        })
+      })
+    }
   }
 
   /**
@@ -203,15 +223,23 @@ export class CollaborationHandler {
 
   /**
    * Handle editor change message
+   *
+   * With operational transform, changes made against an older version of a
+   * synced document are transformed against everything applied since, then
+   * acknowledged to their author and broadcast with the version they now
+   * apply to. Other strategies reject stale changes with a `conflict` event.
    */
   async handleEditorChange(message: CollaborativeEditorChangeMessage): Promise<void> {
     const room = this.getOrCreateRoom(message.documentId)
     const doc = room.documents.get(message.documentId)
+    let applied = message
 
     if (doc) {
-      // Check for conflicts
-      if (message.version !== doc.version) {
-        // Version mismatch - potential conflict
+      const transformable =
+        this.options.conflictResolution === 'operational-transform' && doc.canApply(message.version)
+
+      if (message.version !== doc.version && !transformable) {
+        // Version mismatch the document cannot reconcile
         this.emit('conflict', {
           type: 'conflict',
           roomId: message.documentId,
@@ -221,17 +249,39 @@ export class CollaborationHandler {
         return
       }
 
-      // Apply changes using conflict resolver
-      const operations = message.changes.map((change) =>
-        this.conflictResolver.convertEditorOperation(change)
-      )
-      const newContent = this.conflictResolver.applyOperations(doc.content, operations)
+      let change: OTDocumentChange
+      try {
+        change = doc.applyEditorOperations(message.changes, message.version)
+      } catch (error) {
+        this.emit('conflict', {
+          type: 'conflict',
+          roomId: message.documentId,
+          userId: message.userId,
+          data: {
+            expected: doc.version,
+            received: message.version,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        })
+        return
+      }
+
+      applied = {
+        ...message,
+        changes: change.operation.toEditorOperations(),
+        version: change.baseVersion,
+      }
 
-      // Update document
-      room.documents.set(message.documentId, {
-        content: newContent,
-        version: doc.version + 1,
-      })
+      // Acknowledge to the author
+      const ack: CollaborativeEditorAckMessage = {
+        type: 'collaborativeEditorAck',
+        componentId: message.componentId,
+        documentId: message.documentId,
+        userId: message.userId,
+        version: change.version,
+        timestamp: new Date().toISOString(),
+      }
+      this.transport.send(ack)
     }
 
     // Emit event
@@ -239,11 +289,11 @@ export class CollaborationHandler {
       type: 'editorChange',
       roomId: message.documentId,
       userId: message.userId,
-      data: message,
+      data: applied,
     })
 
     // Broadcast to other users
-    this.transport.send(message as any)
+    this.transport.send(applied as any)
   }
 
   /**
@@ -252,11 +302,8 @@ export class CollaborationHandler {
   async handleEditorSync(message: CollaborativeEditorSyncMessage): Promise<void> {
     const room = this.getOrCreateRoom(message.documentId)
 
-    // Update document
-    room.documents.set(message.documentId, {
-      content: message.content,
-      version: message.version,
-    })
+    // Replace document; earlier versions can no longer be transformed
+    room.documents.set(message.documentId, new OTDocument(message.content, message.version))
 
     // Emit event
     this.emit('editorSync', {
@@ -670,6 +717,9 @@ export class CollaborationHandler {
    */
   destroy(): void {
     this.stopPresenceCheck()
+    if (this.ownsTransport) {
+      this.transport.disconnect()
+    }
     this.eventHandlers.clear()
     this.rooms.clear()
     this.lastCursorUpdate.clear()
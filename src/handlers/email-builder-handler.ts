@@ -40,13 +40,17 @@ import type {
   EmailTemplateDuplicateMessage,
   EmailTemplateDuplicatedMessage,
   EmailBuilderErrorMessage,
+  EmailTemplateValidation,
+  EmailSendResult,
+} from '../types/email-builder-messages.js'
+import type {
   EmailTemplate,
   EmailTemplateListItem,
   EmailBlock,
   EmailVariable,
   EmailTheme,
-  EmailTemplateValidation,
-} from '../types/index.js'
+  EmailProvider,
+} from '../types/email-builder-components.js'
 import {
   isEmailTemplateSaveMessage,
   isEmailTemplateLoadMessage,
@@ -66,7 +70,8 @@ import {
   isEmailTemplateTestSendMessage,
   isEmailTemplateDuplicateMessage,
 } from '../types/email-builder-messages.js'
-import { templateToHtml, isValidEmail } from '../types/email-builder-components.js'
+import { isValidEmail } from '../types/email-builder-components.js'
+import { renderEmailTemplate } from '../integrations/email-renderer.js'
 
 /**
  * Email builder event types
@@ -128,17 +133,23 @@ export interface EmailSender {
     template: string | EmailTemplate
     recipients: Array<{ email: string; name?: string }>
     variables?: Record<string, string | number | boolean>
-    provider?: string
-  }): Promise<{
-    jobId: string
-    status: string
-    recipientCount: number
-    provider: string
-  }>
+    provider?: EmailProvider
+    /** Rendered subject, when the template could be resolved */
+    subject?: string
+    /** Rendered HTML body shared by recipients without their own variables */
+    html?: string
+    /** Plain-text alternative of `html` */
+    text?: string
+    /** Bodies rendered per recipient that carries its own variables */
+    personalized?: Array<{ email: string; subject: string; html: string; text: string }>
+  }): Promise<EmailSendResult>
   sendTest(options: {
     template: EmailTemplate
     testEmail: string
     variables?: Record<string, string | number | boolean>
+    subject?: string
+    html?: string
+    text?: string
   }): Promise<{
     testId: string
     status: 'success' | 'failed'
@@ -698,13 +709,16 @@ export class EmailBuilderHandler {
    */
   private async handlePreview(message: EmailTemplatePreviewMessage): Promise<void> {
     try {
-      const html = templateToHtml(message.template, message.variables)
+      const { html, text } = renderEmailTemplate(message.template, {
+        variables: message.variables,
+      })
 
       // Send preview response
       const responseMessage: EmailTemplatePreviewResponseMessage = {
         type: 'emailTemplatePreviewResponse',
         componentId: message.componentId,
         html,
+        text,
         device: message.device,
         timestamp: Date.now(),
       }
@@ -756,11 +770,30 @@ export class EmailBuilderHandler {
         return
       }
 
+      // Render once for the shared body and once per personalized recipient
+      const template =
+        typeof message.template === 'string'
+          ? await this.getTemplate(message.template)
+          : message.template
+      const rendered = template ? renderEmailTemplate(template) : undefined
+      const personalized = template
+        ? message.recipients
+            .filter((r) => r.variables && Object.keys(r.variables).length > 0)
+            .map((r) => ({
+              email: r.email,
+              ...renderEmailTemplate(template, { variables: r.variables }),
+            }))
+        : undefined
+
       // Send email
       const result = await this.options.sender.send({
         template: message.template,
         recipients: message.recipients,
         provider: message.provider,
+        subject: rendered?.subject,
+        html: rendered?.html,
+        text: rendered?.text,
+        personalized: personalized?.length ? personalized : undefined,
       })
 
       // Send response
@@ -786,10 +819,16 @@ export class EmailBuilderHandler {
    */
   private async handleTestSend(message: EmailTemplateTestSendMessage): Promise<void> {
     try {
+      const { subject, html, text } = renderEmailTemplate(message.template, {
+        variables: message.variables,
+      })
       const result = await this.options.sender.sendTest({
         template: message.template,
         testEmail: message.testEmail,
         variables: message.variables,
+        subject,
+        html,
+        text,
       })
 
       // Send response
@@ -957,14 +996,14 @@ export class EmailBuilderHandler {
    * Get template from memory or load from storage
    */
   private async getTemplate(templateId: string): Promise<EmailTemplate | null> {
-    let template = this.templates.get(templateId)
+    let template: EmailTemplate | null | undefined = this.templates.get(templateId)
     if (!template) {
       template = await this.options.storage.load(templateId)
       if (template) {
         this.templates.set(templateId, template)
       }
     }
-    return template
+    return template ?? null
   }
 
   /**
@@ -0,0 +1,765 @@
+/**
+ * A2UI File Upload Handler
+ * Drives chunked, resumable uploads for the fileUpload component
+ *
+ * Files are sliced into chunks and sent through a pluggable sink (see
+ * `file-upload-sinks.ts`). Chunks upload in parallel, retry with exponential
+ * backoff and can be paused, resumed or cancelled. When an `OfflineStorage`
+ * is configured, finished chunks are recorded so that selecting the same file
+ * again after a page reload continues where the upload stopped.
+ *
+ * The handler reports `fileUploadStart → fileUploadProgress* →
+ * fileUploadComplete` (or `fileUploadError` / `fileUploadCancel`) through
+ * `onMessage`.
+ *
+ * @example
+ * ```typescript
+ * const uploads = new FileUploadHandler({
+ *   sink: createPresignedUrlSink({ api }),
+ *   storage: new OfflineStorage(),
+ *   onMessage: (message) => updateUploadUI(message),
+ * })
+ *
+ * const complete = await uploads.upload(file, { surfaceId: 'main', componentId: 'attachments' })
+ * ```
+ */
+
+import type {
+  FileInfo,
+  FileUploadMessage,
+  FileUploadCancelMessage,
+  FileUploadCompleteMessage,
+  FileUploadErrorMessage,
+} from '../types/file-upload-messages.js'
+import {
+  createFileUploadStartMessage,
+  createFileUploadProgressMessage,
+  createFileUploadCompleteMessage,
+  createFileUploadErrorMessage,
+  isFileUploadCancelMessage,
+} from '../types/file-upload-messages.js'
+import type { FileUploadProperties } from '../types/file-upload-components.js'
+import { validateFile, validateFileContent } from '../validation/file-upload-validator.js'
+import type {
+  FileContentValidationOptions,
+  ValidationResult,
+} from '../validation/file-upload-validator.js'
+import type { OfflineStorage } from '../offline/storage.js'
+
+/**
+ * File or Blob to upload
+ */
+export type UploadableFile = Blob & { readonly name?: string; readonly lastModified?: number }
+
+/**
+ * Where an upload belongs
+ */
+export interface FileUploadTarget {
+  /** Surface identifier */
+  surfaceId: string
+  /** fileUpload component identifier */
+  componentId: string
+  /** File identifier (default: generated, or the one of a resumed upload) */
+  fileId?: string
+  /** File name, required for Blobs without one */
+  name?: string
+  /** Custom metadata sent with the file */
+  metadata?: Record<string, unknown>
+  /** Component constraints checked before uploading */
+  properties?: FileUploadProperties
+}
+
+/**
+ * An upload as seen by a sink
+ */
+export interface FileUploadDescriptor {
+  /** Sink-defined upload session identifier */
+  uploadId: string
+  surfaceId: string
+  componentId: string
+  file: FileInfo
+  chunkSize: number
+  totalChunks: number
+}
+
+/**
+ * One slice of a file
+ */
+export interface FileChunk {
+  /** Zero-based chunk index */
+  index: number
+  /** Byte offset in the file */
+  offset: number
+  /** Chunk size in bytes */
+  size: number
+  /** Chunk contents */
+  data: Blob
+}
+
+/**
+ * A chunk the sink has stored
+ */
+export interface UploadedChunk {
+  index: number
+  size: number
+  /** Sink-defined part reference (e.g. an S3 ETag) */
+  etag?: string
+}
+
+/**
+ * Upload session opened by a sink
+ */
+export interface FileUploadSession {
+  uploadId: string
+  /** Chunks the sink already holds, when it can tell (overrides the local record) */
+  uploadedChunks?: UploadedChunk[]
+}
+
+/**
+ * Where a finished upload can be found
+ */
+export interface FileUploadResult {
+  url: string
+  presignedUrl?: string
+  expiresAt?: number
+  zerodbPath?: string
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Destination of upload chunks
+ */
+export interface FileUploadSink {
+  /**
+   * Open an upload session
+   * `uploadId` is set when resuming an upload recorded before a reload; a
+   * sink that cannot resume it may return a new session
+   */
+  start(
+    upload: Omit<FileUploadDescriptor, 'uploadId'> & { uploadId?: string }
+  ): Promise<FileUploadSession>
+  /** Store one chunk; must reject if `signal` aborts */
+  uploadChunk(
+    upload: FileUploadDescriptor,
+    chunk: FileChunk,
+    signal: AbortSignal
+  ): Promise<UploadedChunk | void>
+  /** Assemble the stored chunks, ordered by index */
+  complete(upload: FileUploadDescriptor, chunks: UploadedChunk[]): Promise<FileUploadResult>
+  /** Discard a cancelled upload */
+  abort?(upload: FileUploadDescriptor): Promise<void>
+}
+
+/**
+ * Upload status
+ */
+export type FileUploadStatus = 'uploading' | 'paused' | 'completed' | 'failed' | 'cancelled'
+
+/**
+ * Upload progress snapshot
+ */
+export interface FileUploadSnapshot {
+  fileId: string
+  uploadId?: string
+  surfaceId: string
+  componentId: string
+  status: FileUploadStatus
+  bytesUploaded: number
+  totalBytes: number
+  percentage: number
+  uploadedChunks: number
+  totalChunks: number
+  /** Recent throughput in bytes per second */
+  bytesPerSecond: number
+  /** Estimated time remaining in seconds */
+  estimatedTimeRemaining?: number
+}
+
+/**
+ * Upload state kept in offline storage between page loads
+ */
+export interface PersistedFileUpload {
+  /** Identifies the file across page loads */
+  fingerprint: string
+  uploadId: string
+  surfaceId: string
+  componentId: string
+  file: FileInfo
+  chunkSize: number
+  totalChunks: number
+  chunks: UploadedChunk[]
+  updatedAt: number
+}
+
+/**
+ * File upload handler error codes
+ */
+export type FileUploadHandlerErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UPLOAD_FAILED'
+  | 'CANCELLED'
+  | 'DUPLICATE_UPLOAD'
+
+/**
+ * File upload handler error
+ */
+export class FileUploadHandlerError extends Error {
+  constructor(
+    public readonly code: FileUploadHandlerErrorCode,
+    public readonly fileId: string,
+    message: string
+  ) {
+    super(message)
+    this.name = 'FileUploadHandlerError'
+  }
+}
+
+/**
+ * File upload handler options
+ */
+export interface FileUploadHandlerOptions {
+  /** Destination of the chunks */
+  sink: FileUploadSink
+  /** Receives start, progress, complete, error and cancel messages */
+  onMessage?: (message: FileUploadMessage) => void
+  /** Chunk size in bytes (default: 5 MiB) */
+  chunkSize?: number
+  /** Chunks uploaded in parallel per file (default: 3) */
+  concurrency?: number
+  /** Retries per chunk before the upload fails (default: 3) */
+  maxRetries?: number
+  /** First retry delay in milliseconds, doubled per attempt (default: 1000) */
+  retryDelay?: number
+  /** Upper bound for the retry delay in milliseconds (default: 30000) */
+  maxRetryDelay?: number
+  /** Records finished chunks so uploads survive a page reload */
+  storage?: Pick<OfflineStorage, 'get' | 'set' | 'delete' | 'getAll'>
+  /** Storage key prefix (default: 'fileUpload:') */
+  storagePrefix?: string
+  /** Minimum milliseconds between progress messages (default: 250) */
+  progressInterval?: number
+  /** Sliding window for throughput in milliseconds (default: 5000) */
+  throughputWindow?: number
+  /** Inspect file contents (magic bytes, dimensions, archives, SVG scripts) before uploading */
+  contentValidation?: FileContentValidationOptions
+}
+
+/**
+ * Internal upload state
+ */
+interface UploadTask {
+  descriptor: FileUploadDescriptor
+  blob: Blob
+  fingerprint: string
+  status: FileUploadStatus
+  pending: number[]
+  chunks: Map<number, UploadedChunk>
+  inFlight: Map<number, AbortController>
+  bytesUploaded: number
+  samples: Array<{ time: number; bytes: number }>
+  activeSince: number
+  lastProgressAt: number
+  error?: FileUploadHandlerError
+  wake?: () => void
+}
+
+const MESSAGE_ERROR_CODES = new Set<string>(['FILE_TYPE', 'FILE_SIZE', 'FILE_COUNT', 'FILE_NAME'])
+
+/**
+ * File Upload Handler
+ */
+export class FileUploadHandler {
+  private readonly options: Required<
+    Omit<FileUploadHandlerOptions, 'onMessage' | 'storage' | 'contentValidation'>
+  > &
+    Pick<FileUploadHandlerOptions, 'onMessage' | 'storage' | 'contentValidation'>
+  private readonly tasks = new Map<string, UploadTask>()
+  private fileCounter = 0
+
+  constructor(options: FileUploadHandlerOptions) {
+    this.options = {
+      chunkSize: 5 * 1024 * 1024,
+      concurrency: 3,
+      maxRetries: 3,
+      retryDelay: 1000,
+      maxRetryDelay: 30000,
+      storagePrefix: 'fileUpload:',
+      progressInterval: 250,
+      throughputWindow: 5000,
+      ...options,
+    }
+  }
+
+  /**
+   * Upload a file
+   * Resumes a recorded upload of the same file for the same component
+   * @returns The completion message, also sent through `onMessage`
+   * @throws FileUploadHandlerError on validation failure, exhausted retries or cancellation
+   */
+  async upload(file: UploadableFile, target: FileUploadTarget): Promise<FileUploadCompleteMessage> {
+    const name = target.name ?? file.name ?? 'unnamed_file'
+    const lastModified = file.lastModified ?? 0
+    const fingerprint = [target.surfaceId, target.componentId, name, file.size, lastModified].join(
+      ':'
+    )
+    const persisted = await this.load(fingerprint)
+    const fileId = target.fileId ?? persisted?.file.fileId ?? this.generateFileId()
+
+    if (
+      this.tasks.get(fileId)?.status === 'uploading' ||
+      this.tasks.get(fileId)?.status === 'paused'
+    ) {
+      throw new FileUploadHandlerError(
+        'DUPLICATE_UPLOAD',
+        fileId,
+        `File ${fileId} is already uploading`
+      )
+    }
+
+    const info: FileInfo = {
+      fileId,
+      name,
+      size: file.size,
+      type: file.type,
+      lastModified,
+      ...(target.metadata ? { metadata: target.metadata } : {}),
+    }
+
+    let validation: ValidationResult = target.properties
+      ? validateFile(info, target.properties)
+      : { valid: true }
+    if (validation.valid && this.options.contentValidation) {
+      validation = await validateFileContent(info, file, this.options.contentValidation)
+    }
+    if (!validation.valid) {
+      const error = new FileUploadHandlerError(
+        'VALIDATION_ERROR',
+        fileId,
+        validation.error ?? 'Invalid file'
+      )
+      const code = validation.errorCode ?? 'VALIDATION_ERROR'
+      this.sendError(
+        target,
+        fileId,
+        error.message,
+        MESSAGE_ERROR_CODES.has(code)
+          ? (code as FileUploadErrorMessage['errorCode'])
+          : 'VALIDATION_ERROR'
+      )
+      throw error
+    }
+
+    const chunkSize = persisted?.chunkSize ?? this.options.chunkSize
+    const totalChunks = Math.max(1, Math.ceil(file.size / chunkSize))
+    const task: UploadTask = {
+      descriptor: {
+        uploadId: '',
+        surfaceId: target.surfaceId,
+        componentId: target.componentId,
+        file: info,
+        chunkSize,
+        totalChunks,
+      },
+      blob: file,
+      fingerprint,
+      status: 'uploading',
+      pending: [],
+      chunks: new Map(),
+      inFlight: new Map(),
+      bytesUploaded: 0,
+      samples: [],
+      activeSince: Date.now(),
+      lastProgressAt: 0,
+    }
+    this.tasks.set(fileId, task)
+    this.emit(createFileUploadStartMessage(target.surfaceId, target.componentId, [info]))
+
+    try {
+      const session = await this.options.sink.start({
+        surfaceId: target.surfaceId,
+        componentId: target.componentId,
+        file: info,
+        chunkSize,
+        totalChunks,
+        ...(persisted ? { uploadId: persisted.uploadId } : {}),
+      })
+      task.descriptor.uploadId = session.uploadId
+
+      const resumed =
+        session.uploadedChunks ?? (persisted?.uploadId === session.uploadId ? persisted.chunks : [])
+      for (const chunk of resumed) {
+        task.chunks.set(chunk.index, chunk)
+        task.bytesUploaded += chunk.size
+      }
+      for (let index = 0; index < totalChunks; index++) {
+        if (!task.chunks.has(index)) task.pending.push(index)
+      }
+      await this.save(task)
+    } catch (error) {
+      this.fail(task, error)
+    }
+
+    return this.process(task)
+  }
+
+  /**
+   * Pause an upload; in-flight chunks are aborted and uploaded again on resume
+   */
+  pause(fileId: string): boolean {
+    const task = this.tasks.get(fileId)
+    if (task?.status !== 'uploading') return false
+
+    task.status = 'paused'
+    this.abortInFlight(task)
+    this.sendProgress(task, 'Paused', true)
+    return true
+  }
+
+  /**
+   * Resume a paused upload
+   */
+  resume(fileId: string): boolean {
+    const task = this.tasks.get(fileId)
+    if (task?.status !== 'paused') return false
+
+    task.status = 'uploading'
+    task.activeSince = Date.now()
+    task.samples = []
+    task.wake?.()
+    return true
+  }
+
+  /**
+   * Cancel an upload, discard it at the sink and forget its record
+   * Sends `fileUploadCancel`; the `upload` promise rejects with `CANCELLED`
+   */
+  async cancel(fileId: string, reason?: string): Promise<boolean> {
+    const task = this.tasks.get(fileId)
+    if (task?.status !== 'uploading' && task?.status !== 'paused') return false
+
+    task.status = 'cancelled'
+    task.error = new FileUploadHandlerError(
+      'CANCELLED',
+      fileId,
+      reason ? `Upload cancelled: ${reason}` : 'Upload cancelled'
+    )
+    this.abortInFlight(task)
+    task.wake?.()
+
+    const cancelMessage: FileUploadCancelMessage = {
+      type: 'fileUploadCancel',
+      surfaceId: task.descriptor.surfaceId,
+      componentId: task.descriptor.componentId,
+      fileId,
+      ...(reason ? { reason } : {}),
+      timestamp: Date.now(),
+    }
+    this.emit(cancelMessage)
+
+    await Promise.all([
+      task.descriptor.uploadId && this.options.sink.abort
+        ? this.options.sink.abort(task.descriptor).catch(() => undefined)
+        : undefined,
+      this.options.storage?.delete(this.storageKey(task.fingerprint)),
+    ])
+    return true
+  }
+
+  /**
+   * Handle an incoming file upload message
+   * Acts on `fileUploadCancel` from the component; returns whether the message was handled
+   */
+  handleMessage(message: unknown): boolean {
+    if (isFileUploadCancelMessage(message) && this.tasks.has(message.fileId)) {
+      void this.cancel(message.fileId, message.reason)
+      return true
+    }
+    return false
+  }
+
+  /**
+   * Progress snapshot of an upload started in this session
+   */
+  getUpload(fileId: string): FileUploadSnapshot | undefined {
+    const task = this.tasks.get(fileId)
+    return task ? this.snapshot(task) : undefined
+  }
+
+  /**
+   * Unfinished uploads recorded in storage, e.g. to ask the user to select the files again
+   */
+  async getResumableUploads(): Promise<PersistedFileUpload[]> {
+    if (!this.options.storage) return []
+    const items = await this.options.storage.getAll<PersistedFileUpload>()
+    return items
+      .filter((item) => item.key.startsWith(this.options.storagePrefix))
+      .map((item) => item.data)
+  }
+
+  /**
+   * Drop a recorded upload that will not be resumed
+   */
+  async discardResumableUpload(upload: PersistedFileUpload): Promise<void> {
+    const { uploadId, surfaceId, componentId, file, chunkSize, totalChunks } = upload
+    await Promise.all([
+      this.options.sink
+        .abort?.({ uploadId, surfaceId, componentId, file, chunkSize, totalChunks })
+        .catch(() => undefined),
+      this.options.storage?.delete(this.storageKey(upload.fingerprint)),
+    ])
+  }
+
+  /**
+   * Stop all uploads, keeping their records so they can resume later
+   */
+  destroy(): void {
+    for (const task of this.tasks.values()) {
+      if (task.status !== 'uploading' && task.status !== 'paused') continue
+      task.status = 'cancelled'
+      task.error = new FileUploadHandlerError(
+        'CANCELLED',
+        task.descriptor.file.fileId,
+        'Upload handler destroyed'
+      )
+      this.abortInFlight(task)
+      task.wake?.()
+    }
+    this.tasks.clear()
+  }
+
+  private async process(task: UploadTask): Promise<FileUploadCompleteMessage> {
+    for (;;) {
+      const workers = Math.min(this.options.concurrency, task.pending.length)
+      await Promise.all(Array.from({ length: workers }, () => this.work(task)))
+
+      if (task.status === 'paused') {
+        await new Promise<void>((resolve) => {
+          task.wake = resolve
+        })
+        task.wake = undefined
+        continue
+      }
+      if (task.status !== 'uploading') {
+        throw task.error
+      }
+      if (task.pending.length === 0) break
+    }
+
+    let result: FileUploadResult
+    try {
+      const chunks = [...task.chunks.values()].sort((a, b) => a.index - b.index)
+      result = await this.options.sink.complete(task.descriptor, chunks)
+    } catch (error) {
+      this.fail(task, error)
+      throw task.error
+    }
+    if (task.status !== 'uploading') throw task.error
+
+    task.status = 'completed'
+    await this.options.storage?.delete(this.storageKey(task.fingerprint))
+
+    const { surfaceId, componentId, file } = task.descriptor
+    const message: FileUploadCompleteMessage = {
+      ...createFileUploadCompleteMessage(surfaceId, componentId, file.fileId, result.url, {
+        ...file.metadata,
+        ...result.metadata,
+        name: file.name,
+        size: file.size,
+        type: file.type,
+      }),
+      ...(result.presignedUrl !== undefined ? { presignedUrl: result.presignedUrl } : {}),
+      ...(result.expiresAt !== undefined ? { expiresAt: result.expiresAt } : {}),
+      ...(result.zerodbPath !== undefined ? { zerodbPath: result.zerodbPath } : {}),
+    }
+    this.emit(message)
+    return message
+  }
+
+  private async work(task: UploadTask): Promise<void> {
+    while (task.status === 'uploading') {
+      const index = task.pending.shift()
+      if (index === undefined) return
+
+      const uploaded = await this.uploadChunk(task, index)
+      if (!uploaded) {
+        // The status changes while the chunk uploads; chunks aborted by a pause go
+        // again on resume, which may already have happened
+        const status = task.status as FileUploadStatus
+        if (status === 'paused' || status === 'uploading') task.pending.unshift(index)
+        continue
+      }
+
+      task.chunks.set(index, uploaded)
+      task.bytesUploaded += uploaded.size
+      task.samples.push({ time: Date.now(), bytes: uploaded.size })
+      await this.save(task)
+      this.sendProgress(task)
+    }
+  }
+
+  /**
+   * Upload one chunk with retries
+   * Resolves undefined when the upload stopped or failed meanwhile
+   */
+  private async uploadChunk(task: UploadTask, index: number): Promise<UploadedChunk | undefined> {
+    const { chunkSize } = task.descriptor
+    const offset = index * chunkSize
+    const size = Math.min(chunkSize, task.blob.size - offset)
+    const chunk: FileChunk = { index, offset, size, data: task.blob.slice(offset, offset + size) }
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController()
+      task.inFlight.set(index, controller)
+      try {
+        const uploaded = await this.options.sink.uploadChunk(
+          task.descriptor,
+          chunk,
+          controller.signal
+        )
+        if (task.status !== 'uploading') return undefined
+        return uploaded ? { ...uploaded, index, size } : { index, size }
+      } catch (error) {
+        if (controller.signal.aborted || task.status !== 'uploading') return undefined
+        if (attempt >= this.options.maxRetries) {
+          this.fail(task, error)
+          return undefined
+        }
+      } finally {
+        task.inFlight.delete(index)
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.retryDelay(attempt)))
+      if (task.status !== 'uploading') return undefined
+    }
+  }
+
+  private retryDelay(attempt: number): number {
+    return Math.min(this.options.retryDelay * Math.pow(2, attempt), this.options.maxRetryDelay)
+  }
+
+  private fail(task: UploadTask, error: unknown): void {
+    if (task.status !== 'uploading') return
+
+    const fileId = task.descriptor.file.fileId
+    const reason = error instanceof Error ? error.message : String(error)
+    task.status = 'failed'
+    task.error = new FileUploadHandlerError(
+      'UPLOAD_FAILED',
+      fileId,
+      `Upload of ${task.descriptor.file.name} failed: ${reason}`
+    )
+    this.abortInFlight(task)
+    this.sendError(task.descriptor, fileId, task.error.message, 'UPLOAD_FAILED', {
+      uploadedChunks: task.chunks.size,
+      totalChunks: task.descriptor.totalChunks,
+    })
+  }
+
+  private abortInFlight(task: UploadTask): void {
+    for (const controller of task.inFlight.values()) {
+      controller.abort()
+    }
+    task.inFlight.clear()
+  }
+
+  private snapshot(task: UploadTask): FileUploadSnapshot {
+    const { file, totalChunks, uploadId, surfaceId, componentId } = task.descriptor
+    const now = Date.now()
+    const windowStart = Math.max(task.activeSince, now - this.options.throughputWindow)
+    const bytes = task.samples
+      .filter((sample) => sample.time > windowStart)
+      .reduce((sum, sample) => sum + sample.bytes, 0)
+    const bytesPerSecond =
+      task.status === 'uploading' && now > windowStart
+        ? Math.round((bytes / (now - windowStart)) * 1000)
+        : 0
+    const remaining = file.size - task.bytesUploaded
+
+    return {
+      fileId: file.fileId,
+      ...(uploadId ? { uploadId } : {}),
+      surfaceId,
+      componentId,
+      status: task.status,
+      bytesUploaded: task.bytesUploaded,
+      totalBytes: file.size,
+      percentage: file.size > 0 ? Math.round((task.bytesUploaded / file.size) * 100) : 100,
+      uploadedChunks: task.chunks.size,
+      totalChunks,
+      bytesPerSecond,
+      ...(bytesPerSecond > 0
+        ? { estimatedTimeRemaining: Math.ceil(remaining / bytesPerSecond) }
+        : {}),
+    }
+  }
+
+  private sendProgress(task: UploadTask, statusMessage?: string, force = false): void {
+    const now = Date.now()
+    const finished = task.bytesUploaded >= task.descriptor.file.size
+    if (!force && !finished && now - task.lastProgressAt < this.options.progressInterval) return
+    task.lastProgressAt = now
+
+    const snapshot = this.snapshot(task)
+    this.emit({
+      ...createFileUploadProgressMessage(
+        snapshot.surfaceId,
+        snapshot.componentId,
+        snapshot.fileId,
+        snapshot.bytesUploaded,
+        snapshot.totalBytes
+      ),
+      bytesPerSecond: snapshot.bytesPerSecond,
+      ...(snapshot.estimatedTimeRemaining !== undefined
+        ? { estimatedTimeRemaining: snapshot.estimatedTimeRemaining }
+        : {}),
+      ...(statusMessage ? { statusMessage } : {}),
+    })
+  }
+
+  private sendError(
+    target: { surfaceId: string; componentId: string },
+    fileId: string,
+    error: string,
+    errorCode: FileUploadErrorMessage['errorCode'],
+    details?: unknown
+  ): void {
+    this.emit({
+      ...createFileUploadErrorMessage(
+        target.surfaceId,
+        target.componentId,
+        fileId,
+        error,
+        errorCode
+      ),
+      ...(details !== undefined ? { details } : {}),
+    })
+  }
+
+  private emit(message: FileUploadMessage): void {
+    this.options.onMessage?.(message)
+  }
+
+  private async load(fingerprint: string): Promise<PersistedFileUpload | undefined> {
+    const item = await this.options.storage?.get<PersistedFileUpload>(this.storageKey(fingerprint))
+    return item?.data
+  }
+
+  private async save(task: UploadTask): Promise<void> {
+    if (!this.options.storage || task.status === 'cancelled') return
+    const record: PersistedFileUpload = {
+      fingerprint: task.fingerprint,
+      ...task.descriptor,
+      chunks: [...task.chunks.values()],
+      updatedAt: Date.now(),
+    }
+    await this.options.storage.set(this.storageKey(task.fingerprint), record)
+  }
+
+  private storageKey(fingerprint: string): string {
+    return `${this.options.storagePrefix}${fingerprint}`
+  }
+
+  private generateFileId(): string {
+    return `file_${Date.now().toString(36)}_${(++this.fileCounter).toString(36)}`
+  }
+}
@@ -0,0 +1,357 @@
+/**
+ * A2UI File Upload Sinks
+ * Destinations for chunks produced by the FileUploadHandler
+ *
+ * - `createPresignedUrlSink` PUTs each chunk to a URL issued by the backend
+ *   (S3/GCS multipart style)
+ * - `createTransportSink` streams chunks to the agent over the A2UI transport
+ * - `createZeroDBSink` stores chunks as ZeroDB files joined by a manifest
+ */
+
+import type { A2UIMessage } from '../types/protocol.js'
+import type {
+  FileUploadChunkAckMessage,
+  FileUploadChunkMessage,
+  FileUploadCompleteMessage,
+} from '../types/file-upload-messages.js'
+import type { A2UITransport } from '../transport/transport.js'
+import type { ZeroDBMCPClient } from '../transport/zerodb-mcp-client.js'
+import type {
+  FileUploadDescriptor,
+  FileUploadResult,
+  FileUploadSession,
+  FileUploadSink,
+  UploadedChunk,
+} from './file-upload-handler.js'
+
+/**
+ * Backend endpoints behind a presigned URL upload
+ */
+export interface PresignedUploadApi {
+  /** Open a multipart upload, or reopen the one named by `upload.uploadId` */
+  createUpload(
+    upload: Omit<FileUploadDescriptor, 'uploadId'> & { uploadId?: string }
+  ): Promise<FileUploadSession>
+  /** Presigned URL for one chunk */
+  getChunkUrl(upload: FileUploadDescriptor, index: number): Promise<string>
+  /** Assemble the uploaded parts */
+  completeUpload(upload: FileUploadDescriptor, chunks: UploadedChunk[]): Promise<FileUploadResult>
+  /** Parts the backend already holds, used when resuming */
+  listUploadedChunks?(upload: FileUploadDescriptor): Promise<UploadedChunk[]>
+  /** Discard a multipart upload */
+  abortUpload?(upload: FileUploadDescriptor): Promise<void>
+}
+
+/**
+ * Presigned URL sink options
+ */
+export interface PresignedUrlSinkOptions {
+  /** Backend endpoints */
+  api: PresignedUploadApi
+  /** HTTP method for chunk uploads (default: 'PUT') */
+  method?: string
+  /** Extra headers for chunk uploads */
+  headers?: Record<string, string>
+  /** Fetch implementation (default: global fetch) */
+  fetch?: typeof fetch
+}
+
+/**
+ * Upload chunks to presigned URLs
+ */
+export function createPresignedUrlSink(options: PresignedUrlSinkOptions): FileUploadSink {
+  const { api, method = 'PUT', headers = {} } = options
+  const request = options.fetch ?? ((input, init): Promise<Response> => fetch(input, init))
+
+  return {
+    async start(upload): Promise<FileUploadSession> {
+      const session = await api.createUpload(upload)
+      if (upload.uploadId !== session.uploadId || !api.listUploadedChunks) return session
+
+      const uploadedChunks = await api.listUploadedChunks({ ...upload, uploadId: session.uploadId })
+      return { ...session, uploadedChunks }
+    },
+
+    async uploadChunk(upload, chunk, signal): Promise<UploadedChunk> {
+      const url = await api.getChunkUrl(upload, chunk.index)
+      const response = await request(url, { method, headers, body: chunk.data, signal })
+      if (!response.ok) {
+        throw new Error(`Chunk ${chunk.index} upload failed: ${response.status}`)
+      }
+
+      return {
+        index: chunk.index,
+        size: chunk.size,
+        etag: response.headers.get('ETag') ?? undefined,
+      }
+    },
+
+    complete: (upload, chunks) => api.completeUpload(upload, chunks),
+
+    async abort(upload): Promise<void> {
+      await api.abortUpload?.(upload)
+    },
+  }
+}
+
+/**
+ * Transport sink options
+ */
+export interface TransportSinkOptions {
+  /** Milliseconds to wait for a chunk acknowledgement (default: 30000) */
+  ackTimeout?: number
+  /** Milliseconds to wait for the agent's fileUploadComplete (default: 120000) */
+  completeTimeout?: number
+}
+
+/**
+ * Send chunks to the agent as fileUploadChunk messages
+ *
+ * The agent answers every chunk with a `fileUploadChunkAck` and, once it has
+ * received all chunks, with a `fileUploadComplete` naming the stored file.
+ */
+export function createTransportSink(
+  transport: Pick<A2UITransport, 'send' | 'on' | 'off'>,
+  options: TransportSinkOptions = {}
+): FileUploadSink {
+  const { ackTimeout = 30000, completeTimeout = 120000 } = options
+  const started = new Set<string>()
+  const results = new Map<string, FileUploadCompleteMessage>()
+  const waiting = new Map<string, (message: FileUploadCompleteMessage) => void>()
+  let counter = 0
+
+  // The agent may finish before `complete` is called, so results are kept
+  // from the moment an upload starts
+  const onComplete = (message: FileUploadCompleteMessage): void => {
+    const resolve = waiting.get(message.fileId)
+    if (resolve) {
+      resolve(message)
+    } else if (started.has(message.fileId)) {
+      results.set(message.fileId, message)
+    }
+  }
+
+  const forget = (fileId: string): void => {
+    started.delete(fileId)
+    results.delete(fileId)
+    waiting.delete(fileId)
+    if (started.size === 0) {
+      transport.off('fileUploadComplete', onComplete)
+    }
+  }
+
+  return {
+    start(upload): Promise<FileUploadSession> {
+      if (started.size === 0) {
+        transport.on('fileUploadComplete', onComplete)
+      }
+      started.add(upload.file.fileId)
+      return Promise.resolve({ uploadId: upload.uploadId ?? `upload-${Date.now()}-${++counter}` })
+    },
+
+    async uploadChunk(upload, chunk, signal): Promise<UploadedChunk> {
+      const message: FileUploadChunkMessage = {
+        type: 'fileUploadChunk',
+        surfaceId: upload.surfaceId,
+        componentId: upload.componentId,
+        fileId: upload.file.fileId,
+        uploadId: upload.uploadId,
+        index: chunk.index,
+        offset: chunk.offset,
+        size: chunk.size,
+        totalChunks: upload.totalChunks,
+        data: await toBase64(chunk.data),
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        const finish = (error?: Error): void => {
+          clearTimeout(timer)
+          transport.off('fileUploadChunkAck', onAck)
+          signal.removeEventListener('abort', onAbort)
+          if (error) reject(error)
+          else resolve()
+        }
+        const onAck = (ack: FileUploadChunkAckMessage): void => {
+          if (ack.uploadId !== upload.uploadId || ack.index !== chunk.index) return
+          finish(ack.error !== undefined ? new Error(ack.error) : undefined)
+        }
+        const onAbort = (): void => finish(new Error('Chunk upload aborted'))
+        const timer = setTimeout(
+          () => finish(new Error(`Chunk ${chunk.index} was not acknowledged`)),
+          ackTimeout
+        )
+
+        if (signal.aborted) {
+          finish(new Error('Chunk upload aborted'))
+          return
+        }
+        transport.on('fileUploadChunkAck', onAck)
+        signal.addEventListener('abort', onAbort)
+        transport.send(message as unknown as A2UIMessage)
+      })
+
+      return { index: chunk.index, size: chunk.size }
+    },
+
+    async complete(upload): Promise<FileUploadResult> {
+      const fileId = upload.file.fileId
+      const message =
+        results.get(fileId) ??
+        (await new Promise<FileUploadCompleteMessage>((resolve, reject) => {
+          const timer = setTimeout(() => {
+            forget(fileId)
+            reject(new Error('Agent did not confirm the upload'))
+          }, completeTimeout)
+          waiting.set(fileId, (received) => {
+            clearTimeout(timer)
+            resolve(received)
+          })
+        }))
+      forget(fileId)
+
+      return {
+        url: message.url,
+        presignedUrl: message.presignedUrl,
+        expiresAt: message.expiresAt,
+        zerodbPath: message.zerodbPath,
+        metadata: message.metadata,
+      }
+    },
+
+    abort(upload): Promise<void> {
+      forget(upload.file.fileId)
+      return Promise.resolve()
+    },
+  }
+}
+
+/**
+ * ZeroDB sink options
+ */
+export interface ZeroDBSinkOptions {
+  /** Tags added to the chunk and manifest files */
+  tags?: string[]
+  /** Lifetime of the presigned URL in seconds (default: 3600) */
+  urlExpiresIn?: number
+}
+
+/**
+ * Store chunks in ZeroDB
+ *
+ * Each chunk becomes a ZeroDB file tagged with its upload and index. When all
+ * chunks are stored, a JSON manifest listing them in order is uploaded; its
+ * file id is the result.
+ */
+export function createZeroDBSink(
+  client: Pick<ZeroDBMCPClient, 'fileUpload' | 'fileList' | 'fileUrl' | 'fileDelete'>,
+  options: ZeroDBSinkOptions = {}
+): FileUploadSink {
+  const { tags = [], urlExpiresIn = 3600 } = options
+  const chunkIds = new Map<string, Map<number, string>>()
+  let counter = 0
+
+  const idsOf = (uploadId: string): Map<number, string> => {
+    let ids = chunkIds.get(uploadId)
+    if (!ids) {
+      ids = new Map()
+      chunkIds.set(uploadId, ids)
+    }
+    return ids
+  }
+
+  return {
+    async start(upload): Promise<FileUploadSession> {
+      if (!upload.uploadId) {
+        return { uploadId: `zerodb-${Date.now()}-${++counter}` }
+      }
+
+      const stored = await client.fileList({ uploadId: upload.uploadId, part: true })
+      const ids = idsOf(upload.uploadId)
+      const uploadedChunks: UploadedChunk[] = []
+      for (const { id, metadata } of stored) {
+        const index = metadata['chunkIndex']
+        if (typeof index !== 'number') continue
+        ids.set(index, id)
+        uploadedChunks.push({ index, size: metadata.size ?? 0, etag: id })
+      }
+
+      return { uploadId: upload.uploadId, uploadedChunks }
+    },
+
+    async uploadChunk(upload, chunk, signal): Promise<UploadedChunk> {
+      const data = await toBase64(chunk.data)
+      signal.throwIfAborted()
+
+      const id = await client.fileUpload(data, {
+        name: `${upload.file.name}.part${chunk.index}`,
+        mimeType: 'application/octet-stream',
+        size: chunk.size,
+        tags,
+        uploadId: upload.uploadId,
+        part: true,
+        chunkIndex: chunk.index,
+        totalChunks: upload.totalChunks,
+      })
+      idsOf(upload.uploadId).set(chunk.index, id)
+
+      return { index: chunk.index, size: chunk.size, etag: id }
+    },
+
+    async complete(upload, chunks): Promise<FileUploadResult> {
+      const ids = chunkIds.get(upload.uploadId)
+      const parts = chunks.map(({ index, size, etag }) => ({
+        index,
+        size,
+        id: etag ?? ids?.get(index),
+      }))
+      const manifest = {
+        name: upload.file.name,
+        type: upload.file.type,
+        size: upload.file.size,
+        parts,
+      }
+
+      const metadata = {
+        name: upload.file.name,
+        mimeType: upload.file.type,
+        size: upload.file.size,
+        tags,
+        uploadId: upload.uploadId,
+        manifest: true,
+        ...upload.file.metadata,
+      }
+      const id = await client.fileUpload(toBase64Text(JSON.stringify(manifest)), metadata)
+      chunkIds.delete(upload.uploadId)
+
+      return {
+        url: id,
+        presignedUrl: await client.fileUrl(id, urlExpiresIn),
+        expiresAt: Date.now() + urlExpiresIn * 1000,
+        zerodbPath: id,
+        metadata,
+      }
+    },
+
+    async abort(upload): Promise<void> {
+      const ids = chunkIds.get(upload.uploadId)
+      chunkIds.delete(upload.uploadId)
+      if (ids) await Promise.all([...ids.values()].map((id) => client.fileDelete(id)))
+    },
+  }
+}
+
+async function toBase64(data: Blob): Promise<string> {
+  const bytes = new Uint8Array(await data.arrayBuffer())
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function toBase64Text(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
@@ -62,3 +62,43 @@ export {
   type EmailSender,
   type EmailBuilderHandlerOptions,
 } from './email-builder-handler.js'
+
+export {
+  FileUploadHandler,
+  FileUploadHandlerError,
+  type UploadableFile,
+  type FileUploadTarget,
+  type FileUploadDescriptor,
+  type FileChunk,
+  type UploadedChunk,
+  type FileUploadSession,
+  type FileUploadResult,
+  type FileUploadSink,
+  type FileUploadStatus,
+  type FileUploadSnapshot,
+  type PersistedFileUpload,
+  type FileUploadHandlerErrorCode,
+  type FileUploadHandlerOptions,
+} from './file-upload-handler.js'
+
+export {
+  createPresignedUrlSink,
+  createTransportSink,
+  createZeroDBSink,
+  type PresignedUploadApi,
+  type PresignedUrlSinkOptions,
+  type TransportSinkOptions,
+  type ZeroDBSinkOptions,
+} from './file-upload-sinks.js'
+
+export {
+  ZeroDBHandler,
+  ZeroDBHandlerError,
+  isReadOnlyQuery,
+  type ZeroDBHandlerClient,
+  type ZeroDBEventType,
+  type ZeroDBEventData,
+  type ZeroDBEventHandler,
+  type ZeroDBHandlerErrorCode,
+  type ZeroDBHandlerOptions,
+} from './zerodb-handler.js'
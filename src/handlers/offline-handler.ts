@@ -8,7 +8,9 @@ import type {
   OfflineHandler as IOfflineHandler,
   QueuedOperation,
   SyncResult,
-  SyncEvent
+  SyncEvent,
+  SyncRemote,
+  EncryptionKey
 } from '../types/offline-types';
 import { OfflineStorage } from '../offline/storage';
 import { OfflineQueue } from '../offline/queue';
@@ -66,7 +68,11 @@ export class OfflineHandler implements IOfflineHandler {
   private initialized = false;
   private offline = false;
 
-  constructor(config?: Partial<OfflineConfig>) {
+  /**
+   * @param config - Offline configuration
+   * @param remote - Server queued operations are delivered to
+   */
+  constructor(config?: Partial<OfflineConfig>, remote?: SyncRemote) {
     this.config = {
       storage: { ...DEFAULT_CONFIG.storage, ...config?.storage },
       queue: { ...DEFAULT_CONFIG.queue, ...config?.queue },
@@ -74,15 +80,20 @@ export class OfflineHandler implements IOfflineHandler {
       sync: { ...DEFAULT_CONFIG.sync, ...config?.sync },
     };
 
+    // Queue payloads and cache entries use the storage key unless configured separately
+    const { encryption, encryptionKey, encryptionSalt } = this.config.storage;
+    const encryptionConfig = { encryption, encryptionKey, encryptionSalt };
+
     this.storage = new OfflineStorage(this.config.storage);
-    this.queue = new OfflineQueue(this.config.queue);
-    this.cache = new OfflineCache(this.config.cache);
+    this.queue = new OfflineQueue({ ...encryptionConfig, ...this.config.queue });
+    this.cache = new OfflineCache({ ...encryptionConfig, ...this.config.cache });
     this.resolver = new ConflictResolver();
     this.syncEngine = new SyncEngine(
       this.config.sync,
       this.queue,
       this.storage,
-      this.resolver
+      this.resolver,
+      remote
     );
 
     // Monitor connection status
@@ -106,6 +117,13 @@ export class OfflineHandler implements IOfflineHandler {
     this.offline = !navigator.onLine;
   }
 
+  /**
+   * Set the server queued operations are delivered to
+   */
+  setRemote(remote: SyncRemote | null): void {
+    this.syncEngine.setRemote(remote);
+  }
+
   /**
    * Initialize offline handler
    */
@@ -257,6 +275,20 @@ export class OfflineHandler implements IOfflineHandler {
     };
   }
 
+  /**
+   * Re-encrypt stored items, queued operations and cached entries with a new key
+   */
+  async rotateEncryptionKey(newKey: EncryptionKey, salt?: string): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    await this.storage.rotateKey(newKey, salt);
+    await this.queue.rotateKey(newKey, salt);
+    await this.cache.rotateKey(newKey, salt);
+    this.config.storage = { ...this.config.storage, encryption: true, encryptionKey: newKey, encryptionSalt: salt };
+  }
+
   /**
    * Close and cleanup
    */
@@ -0,0 +1,959 @@
+/**
+ * A2UI ZeroDB Handler
+ * Executes zerodb* protocol messages through the ZeroDB MCP client
+ *
+ * Every request is answered with its matching `*Result` message, and the
+ * result is also written to the requesting component's data model under
+ * `/zerodb/<componentId>` so bound components update without extra wiring.
+ */
+
+import type { A2UITransport } from '../transport/transport.js'
+import type { ZeroDBMCPClient } from '../transport/zerodb-mcp-client.js'
+import type { DataUpdate, ErrorMessage, UpdateDataModelMessage } from '../types/protocol.js'
+import type {
+  ZeroDBAnalyticsQueryMessage,
+  ZeroDBAnalyticsQueryResultMessage,
+  ZeroDBFileDeleteMessage,
+  ZeroDBFileDownloadMessage,
+  ZeroDBFileDownloadResultMessage,
+  ZeroDBFileListMessage,
+  ZeroDBFileListResultMessage,
+  ZeroDBFileUploadMessage,
+  ZeroDBMemorySearchMessage,
+  ZeroDBMemorySearchResultMessage,
+  ZeroDBMemoryStoreMessage,
+  ZeroDBMessage,
+  ZeroDBPostgresQueryMessage,
+  ZeroDBPostgresQueryResultMessage,
+  ZeroDBPostgresStatusMessage,
+  ZeroDBPostgresStatusResultMessage,
+  ZeroDBRequestMessage,
+  ZeroDBTableDeleteMessage,
+  ZeroDBTableInsertMessage,
+  ZeroDBTableOperationResultMessage,
+  ZeroDBTableQueryMessage,
+  ZeroDBTableQueryResultMessage,
+  ZeroDBTableUpdateMessage,
+  ZeroDBVectorSearchMessage,
+  ZeroDBVectorSearchResultMessage,
+} from '../types/zerodb-messages.js'
+
+/**
+ * ZeroDB client operations used by the handler
+ */
+export type ZeroDBHandlerClient = Pick<
+  ZeroDBMCPClient,
+  | 'vectorSearch'
+  | 'tableQuery'
+  | 'tableInsert'
+  | 'tableUpdate'
+  | 'tableDelete'
+  | 'fileList'
+  | 'fileUpload'
+  | 'fileDownload'
+  | 'fileDelete'
+  | 'postgresQuery'
+  | 'postgresStatus'
+  | 'memorySearch'
+  | 'memoryStore'
+  | 'analyticsQuery'
+>
+
+/**
+ * ZeroDB event types
+ */
+export type ZeroDBEventType = 'result' | 'error'
+
+/**
+ * ZeroDB event data
+ */
+export interface ZeroDBEventData {
+  surfaceId: string
+  componentId?: string
+  request: ZeroDBRequestMessage['type']
+  /** Reply sent for the request */
+  result?: ZeroDBMessage
+  error?: {
+    message: string
+    code: string
+  }
+}
+
+/**
+ * ZeroDB event handler callback
+ */
+export type ZeroDBEventHandler = (data: ZeroDBEventData) => void
+
+/**
+ * ZeroDB handler error codes
+ */
+export type ZeroDBHandlerErrorCode = 'INVALID_REQUEST' | 'READ_ONLY_VIOLATION' | 'OPERATION_FAILED'
+
+/**
+ * ZeroDB handler error
+ */
+export class ZeroDBHandlerError extends Error {
+  constructor(
+    public readonly code: ZeroDBHandlerErrorCode,
+    message: string
+  ) {
+    super(message)
+    this.name = 'ZeroDBHandlerError'
+  }
+}
+
+/**
+ * ZeroDB handler options
+ */
+export interface ZeroDBHandlerOptions {
+  /**
+   * Reject SQL that is not read-only in every zerodbPostgresQuery (default: true).
+   * When false, only requests with `readOnly: true` are checked.
+   */
+  readOnlySql?: boolean
+  /** Upper bound on rows returned by zerodbPostgresQuery (default: 1000) */
+  maxRows?: number
+  /** Page size for table queries and file lists without a limit (default: 25) */
+  pageSize?: number
+  /** Auto-search debounce delay in milliseconds (default: 300) */
+  debounceMs?: number
+  /** Data model path that component results are written under (default: '/zerodb') */
+  dataModelPath?: string
+  /** Re-run affected queries on the surface after a write (default: true) */
+  refreshAfterWrite?: boolean
+}
+
+/**
+ * What a request produced
+ */
+interface ZeroDBOutcome {
+  /** Reply for the requesting component */
+  reply?: ZeroDBMessage
+  /** Component state replacing the previous query result */
+  data?: Record<string, unknown>
+  /** Summary of a write, stored as `lastOperation` */
+  operation?: Record<string, unknown>
+}
+
+type ZeroDBQueryMessage =
+  | ZeroDBVectorSearchMessage
+  | ZeroDBTableQueryMessage
+  | ZeroDBFileListMessage
+  | ZeroDBPostgresQueryMessage
+  | ZeroDBPostgresStatusMessage
+  | ZeroDBMemorySearchMessage
+  | ZeroDBAnalyticsQueryMessage
+
+type ZeroDBTableWriteMessage =
+  | ZeroDBTableInsertMessage
+  | ZeroDBTableUpdateMessage
+  | ZeroDBTableDeleteMessage
+
+const REQUEST_TYPES: ReadonlyArray<ZeroDBRequestMessage['type']> = [
+  'zerodbVectorSearch',
+  'zerodbTableQuery',
+  'zerodbTableInsert',
+  'zerodbTableUpdate',
+  'zerodbTableDelete',
+  'zerodbFileList',
+  'zerodbFileUpload',
+  'zerodbFileDownload',
+  'zerodbFileDelete',
+  'zerodbPostgresQuery',
+  'zerodbPostgresStatus',
+  'zerodbMemorySearch',
+  'zerodbMemoryStore',
+  'zerodbAnalyticsQuery',
+]
+
+const QUERY_TYPES = new Set<ZeroDBRequestMessage['type']>([
+  'zerodbVectorSearch',
+  'zerodbTableQuery',
+  'zerodbFileList',
+  'zerodbPostgresQuery',
+  'zerodbPostgresStatus',
+  'zerodbMemorySearch',
+  'zerodbAnalyticsQuery',
+])
+
+/**
+ * ZeroDB Handler
+ * Answers ZeroDB component requests and keeps their data models current
+ */
+export class ZeroDBHandler {
+  private readonly transport: A2UITransport
+  private readonly client: ZeroDBHandlerClient
+  private readonly options: Required<ZeroDBHandlerOptions>
+  private readonly eventHandlers = new Map<ZeroDBEventType, Set<ZeroDBEventHandler>>()
+  private readonly listeners = new Map<string, (message: ZeroDBRequestMessage) => void>()
+  private readonly searchTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  private readonly latestRequests = new Map<string, number>()
+  private readonly lastQueries = new Map<string, ZeroDBQueryMessage>()
+  private requestCounter = 0
+
+  constructor(
+    transport: A2UITransport,
+    client: ZeroDBHandlerClient,
+    options: ZeroDBHandlerOptions = {}
+  ) {
+    this.transport = transport
+    this.client = client
+    this.options = {
+      readOnlySql: options.readOnlySql ?? true,
+      maxRows: options.maxRows ?? 1000,
+      pageSize: options.pageSize ?? 25,
+      debounceMs: options.debounceMs ?? 300,
+      dataModelPath: options.dataModelPath ?? '/zerodb',
+      refreshAfterWrite: options.refreshAfterWrite ?? true,
+    }
+    this.initialize()
+  }
+
+  /**
+   * Register message handlers
+   */
+  private initialize(): void {
+    for (const type of REQUEST_TYPES) {
+      const listener = (message: ZeroDBRequestMessage): void => {
+        if (message.type === type) this.receive(message)
+      }
+      this.listeners.set(type, listener)
+      this.transport.on<ZeroDBRequestMessage>(type, listener)
+    }
+  }
+
+  /**
+   * Execute a request, debouncing auto-searches
+   */
+  private receive(message: ZeroDBRequestMessage): void {
+    if (
+      (message.type === 'zerodbVectorSearch' || message.type === 'zerodbMemorySearch') &&
+      message.autoSearch
+    ) {
+      const key = this.componentKey(message)
+      const pending = this.searchTimers.get(key)
+      if (pending) clearTimeout(pending)
+
+      this.searchTimers.set(
+        key,
+        setTimeout(() => {
+          this.searchTimers.delete(key)
+          this.start(message)
+        }, message.debounceMs ?? this.options.debounceMs)
+      )
+      return
+    }
+
+    this.start(message)
+  }
+
+  /**
+   * Execute a request without waiting for it
+   * Failures to publish the outcome, such as sending on a dropped connection,
+   * are reported through the error event.
+   */
+  private start(message: ZeroDBRequestMessage): void {
+    this.execute(message).catch((error: unknown) => {
+      this.emit('error', {
+        surfaceId: message.surfaceId,
+        componentId: message.componentId,
+        request: message.type,
+        error: { message: errorMessage(error), code: 'OPERATION_FAILED' },
+      })
+    })
+  }
+
+  /**
+   * Run a request and publish its outcome
+   *
+   * Queries are tracked per component so that a slow response never
+   * overwrites the result of a newer query.
+   */
+  private async execute(message: ZeroDBRequestMessage): Promise<void> {
+    const key = this.componentKey(message)
+    const requestNumber = ++this.requestCounter
+    const isQuery = isQueryMessage(message)
+    if (isQuery) {
+      this.latestRequests.set(key, requestNumber)
+      this.lastQueries.set(key, message)
+    }
+    const isStale = (): boolean => isQuery && this.latestRequests.get(key) !== requestNumber
+
+    this.updateDataModel(message, { loading: true })
+
+    let outcome: ZeroDBOutcome
+    try {
+      outcome = await this.run(message)
+    } catch (error) {
+      if (!isStale()) this.fail(message, error)
+      return
+    }
+    if (isStale()) return
+
+    if (outcome.reply) this.transport.send(outcome.reply)
+
+    if (outcome.data) {
+      this.updateDataModel(message, { ...outcome.data, loading: false, error: null }, true)
+    } else {
+      this.updateDataModel(message, {
+        loading: false,
+        error: null,
+        ...(outcome.operation && { lastOperation: outcome.operation }),
+      })
+    }
+
+    this.emit('result', {
+      surfaceId: message.surfaceId,
+      componentId: message.componentId,
+      request: message.type,
+      result: outcome.reply,
+    })
+
+    if (outcome.operation && this.options.refreshAfterWrite) {
+      this.refresh(message)
+    }
+  }
+
+  /**
+   * Dispatch a request to the client
+   */
+  private run(message: ZeroDBRequestMessage): Promise<ZeroDBOutcome> {
+    switch (message.type) {
+      case 'zerodbVectorSearch':
+        return this.vectorSearch(message)
+      case 'zerodbTableQuery':
+        return this.tableQuery(message)
+      case 'zerodbTableInsert':
+      case 'zerodbTableUpdate':
+      case 'zerodbTableDelete':
+        return this.tableWrite(message)
+      case 'zerodbFileList':
+        return this.fileList(message)
+      case 'zerodbFileUpload':
+        return this.fileUpload(message)
+      case 'zerodbFileDownload':
+        return this.fileDownload(message)
+      case 'zerodbFileDelete':
+        return this.fileDelete(message)
+      case 'zerodbPostgresQuery':
+        return this.postgresQuery(message)
+      case 'zerodbPostgresStatus':
+        return this.postgresStatus(message)
+      case 'zerodbMemorySearch':
+        return this.memorySearch(message)
+      case 'zerodbMemoryStore':
+        return this.memoryStore(message)
+      case 'zerodbAnalyticsQuery':
+        return this.analyticsQuery(message)
+    }
+  }
+
+  /**
+   * Handle zerodbVectorSearch
+   */
+  private async vectorSearch(message: ZeroDBVectorSearchMessage): Promise<ZeroDBOutcome> {
+    const query = message.query.trim()
+    const found = query ? await this.client.vectorSearch(query, message.topK, message.filters) : []
+    const results = found.map(({ id, score, metadata }) => ({ id, score, metadata }))
+
+    const reply: ZeroDBVectorSearchResultMessage = {
+      ...this.replyBase(message),
+      type: 'zerodbVectorSearchResult',
+      results,
+    }
+    return { reply, data: { query: message.query, results } }
+  }
+
+  /**
+   * Handle zerodbTableQuery, one page at a time
+   */
+  private async tableQuery(message: ZeroDBTableQueryMessage): Promise<ZeroDBOutcome> {
+    requireField(message.tableName, 'tableName')
+    const { limit, offset } = this.page(message.limit, message.offset)
+    const sort = message.sortBy
+      ? { column: message.sortBy, order: message.sortOrder ?? 'asc' }
+      : undefined
+
+    // One extra row tells whether another page follows
+    const fetched = await this.client.tableQuery(
+      message.tableName,
+      message.filters,
+      limit + 1,
+      offset,
+      sort
+    )
+    const hasMore = fetched.length > limit
+    const rows = fetched.slice(0, limit)
+    const totalCount = hasMore ? undefined : offset + rows.length
+
+    const reply: ZeroDBTableQueryResultMessage = {
+      ...this.replyBase(message),
+      type: 'zerodbTableQueryResult',
+      rows,
+      totalCount,
+      offset,
+      limit,
+      hasMore,
+    }
+    return {
+      reply,
+      data: {
+        tableName: message.tableName,
+        rows,
+        totalCount,
+        offset,
+        limit,
+        hasMore,
+        sortBy: message.sortBy,
+        sortOrder: sort?.order,
+      },
+    }
+  }
+
+  /**
+   * Handle zerodbTableInsert, zerodbTableUpdate and zerodbTableDelete
+   */
+  private async tableWrite(message: ZeroDBTableWriteMessage): Promise<ZeroDBOutcome> {
+    requireField(message.tableName, 'tableName')
+
+    let affectedRows: number
+    if (message.type === 'zerodbTableInsert') {
+      affectedRows = await this.client.tableInsert(message.tableName, message.rows)
+    } else if (message.type === 'zerodbTableUpdate') {
+      affectedRows = await this.client.tableUpdate(
+        message.tableName,
+        message.filters,
+        message.updates
+      )
+    } else {
+      affectedRows = await this.client.tableDelete(message.tableName, message.filters)
+    }
+
+    const reply: ZeroDBTableOperationResultMessage = {
+      ...this.replyBase(message),
+      type: 'zerodbTableOperationResult',
+      success: true,
+      affectedRows,
+    }
+    return { reply, operation: { type: message.type, success: true, affectedRows } }
+  }
+
+  /**
+   * Handle zerodbFileList
+   *
+   * The file API has no ordering, so `sortBy` orders the returned page.
+   */
+  private async fileList(message: ZeroDBFileListMessage): Promise<ZeroDBOutcome> {
+    const { limit, offset } = this.page(message.limit, message.offset)
+    const fetched = await this.client.fileList(
+      message.path !== undefined ? { path: message.path } : undefined,
+      limit + 1,
+      offset
+    )
+    const hasMore = fetched.length > limit
+
+    let entries = fetched.slice(0, limit)
+    if (message.sortBy) {
+      const direction = message.sortOrder === 'desc' ? -1 : 1
+      const sortKey = FILE_SORT_KEYS[message.sortBy]
+      entries = [...entries].sort(
+        (a, b) => compareValues(sortKey(a.metadata), sortKey(b.metadata)) * direction
+      )
+    }
+
+    const files = entries.map(({ id, metadata }) => ({
+      name: metadata.name,
+      size: metadata.size ?? 0,
+      path: typeof metadata['path'] === 'string' ? metadata['path'] : id,
+      mimeType: metadata.mimeType,
+    }))
+
+    const reply: ZeroDBFileListResultMessage = {
+      ...this.replyBase(message),
+      type: 'zerodbFileListResult',
+      files,
+      hasMore,
+    }
+    return {
+      reply,
+      data: {
+        path: message.path,
+        files,
+        offset,
+        limit,
+        hasMore,
+        sortBy: message.sortBy,
+        sortOrder: message.sortBy ? (message.sortOrder ?? 'asc') : undefined,
+      },
+    }
+  }
+
+  /**
+   * Handle zerodbFileUpload
+   */
+  private async fileUpload(message: ZeroDBFileUploadMessage): Promise<ZeroDBOutcome> {
+    requireField(message.fileName, 'fileName')
+    const fileId = await this.client.fileUpload(message.fileData, {
+      name: message.fileName,
+      ...(message.path !== undefined && { path: message.path }),
+    })
+    return { operation: { type: message.type, success: true, fileId } }
+  }
+
+  /**
+   * Handle zerodbFileDownload
+   */
+  private async fileDownload(message: ZeroDBFileDownloadMessage): Promise<ZeroDBOutcome> {
+    requireField(message.filePath, 'filePath')
+    const { data, metadata } = await this.client.fileDownload(message.filePath)
+
+    const reply: ZeroDBFileDownloadResultMessage = {
+      ...this.replyBase(message),
+      type: 'zerodbFileDownloadResult',
+      fileName: metadata.name,
+      fileData: data,
+      mimeType: metadata.mimeType,
+    }
+    return { reply }
+  }
+
+  /**
+   * Handle zerodbFileDelete
+   */
+  private async fileDelete(message: ZeroDBFileDeleteMessage): Promise<ZeroDBOutcome> {
+    requireField(message.filePath, 'filePath')
+    await this.client.fileDelete(message.filePath)
+    return { operation: { type: message.type, success: true, filePath: message.filePath } }
+  }
+
+  /**
+   * Handle zerodbPostgresQuery
+   */
+  private async postgresQuery(message: ZeroDBPostgresQueryMessage): Promise<ZeroDBOutcome> {
+    requireField(message.query, 'query')
+    if ((this.options.readOnlySql || message.readOnly) && !isReadOnlyQuery(message.query)) {
+      throw new ZeroDBHandlerError(
+        'READ_ONLY_VIOLATION',
+        'Only a single read-only statement is allowed'
+      )
+    }
+
+    const maxRows = Math.min(message.maxRows ?? this.options.maxRows, this.options.maxRows)
+    const result = await this.client.postgresQuery(message.query, message.params)
+    const truncated = result.rows.length > maxRows
+    const rows = result.rows.slice(0, maxRows)
+    const rowCount = result.rowCount ?? result.rows.length
+
+    const reply: ZeroDBPostgresQueryResultMessage = {
+      ...this.replyBase(message),
+      type: 'zerodbPostgresQueryResult',
+      rows,
+      rowCount,
+      truncated,
+    }
+    return { reply, data: { rows, rowCount, truncated } }
+  }
+
+  /**
+   * Handle zerodbPostgresStatus
+   */
+  private async postgresStatus(message: ZeroDBPostgresStatusMessage): Promise<ZeroDBOutcome> {
+    const { status, connections, uptime } = await this.client.postgresStatus()
+
+    const reply: ZeroDBPostgresStatusResultMessage = {
+      ...this.replyBase(message),
+      type: 'zerodbPostgresStatusResult',
+      status,
+      connections,
+      uptime,
+    }
+    return { reply, data: { status, connections, uptime } }
+  }
+
+  /**
+   * Handle zerodbMemorySearch
+   */
+  private async memorySearch(message: ZeroDBMemorySearchMessage): Promise<ZeroDBOutcome> {
+    const query = message.query.trim()
+    const found = query ? await this.client.memorySearch(query, message.limit) : []
+    const results = found.map((memory) => ({
+      content: memory.context,
+      relevance: relevanceOf(memory),
+      timestamp: new Date(memory.timestamp).toISOString(),
+    }))
+
+    const reply: ZeroDBMemorySearchResultMessage = {
+      ...this.replyBase(message),
+      type: 'zerodbMemorySearchResult',
+      results,
+    }
+    return { reply, data: { query: message.query, results } }
+  }
+
+  /**
+   * Handle zerodbMemoryStore
+   */
+  private async memoryStore(message: ZeroDBMemoryStoreMessage): Promise<ZeroDBOutcome> {
+    requireField(message.content, 'content')
+    const memoryId = await this.client.memoryStore(message.content, message.context)
+    return { operation: { type: message.type, success: true, memoryId } }
+  }
+
+  /**
+   * Handle zerodbAnalyticsQuery
+   */
+  private async analyticsQuery(message: ZeroDBAnalyticsQueryMessage): Promise<ZeroDBOutcome> {
+    requireField(message.metric, 'metric')
+    const { data, aggregations } = await this.client.analyticsQuery(
+      message.metric,
+      message.timeRange
+    )
+
+    const reply: ZeroDBAnalyticsQueryResultMessage = {
+      ...this.replyBase(message),
+      type: 'zerodbAnalyticsQueryResult',
+      data,
+      aggregations,
+    }
+    return {
+      reply,
+      data: { metric: message.metric, timeRange: message.timeRange, data, aggregations },
+    }
+  }
+
+  /**
+   * Re-run the surface's queries that a write may have changed
+   */
+  private refresh(message: ZeroDBRequestMessage): void {
+    for (const query of this.lastQueries.values()) {
+      if (query.surfaceId !== message.surfaceId) continue
+
+      const affected =
+        (query.type === 'zerodbTableQuery' &&
+          isTableWriteMessage(message) &&
+          query.tableName === message.tableName) ||
+        (query.type === 'zerodbFileList' &&
+          (message.type === 'zerodbFileUpload' || message.type === 'zerodbFileDelete')) ||
+        (query.type === 'zerodbMemorySearch' && message.type === 'zerodbMemoryStore')
+      if (affected) this.start(query)
+    }
+  }
+
+  /**
+   * Report a failed request
+   *
+   * Table writes are answered with an unsuccessful zerodbTableOperationResult,
+   * everything else with an error message.
+   */
+  private fail(message: ZeroDBRequestMessage, error: unknown): void {
+    const code = error instanceof ZeroDBHandlerError ? error.code : 'OPERATION_FAILED'
+    const text = errorMessage(error)
+
+    if (isTableWriteMessage(message)) {
+      const result: ZeroDBTableOperationResultMessage = {
+        ...this.replyBase(message),
+        type: 'zerodbTableOperationResult',
+        success: false,
+        error: text,
+      }
+      this.transport.send(result)
+    } else {
+      const errorMsg: ErrorMessage = {
+        type: 'error',
+        code,
+        message: text,
+        details: {
+          surfaceId: message.surfaceId,
+          componentId: message.componentId,
+          request: message.type,
+        },
+        timestamp: Date.now(),
+      }
+      this.transport.send(errorMsg)
+    }
+
+    this.updateDataModel(message, { loading: false, error: text })
+    this.emit('error', {
+      surfaceId: message.surfaceId,
+      componentId: message.componentId,
+      request: message.type,
+      error: { message: text, code },
+    })
+  }
+
+  /**
+   * Write values into the requesting component's data model
+   *
+   * With `replace`, the component's whole entry is set; otherwise only the
+   * given keys are.
+   */
+  private updateDataModel(
+    message: ZeroDBRequestMessage,
+    values: Record<string, unknown>,
+    replace = false
+  ): void {
+    if (message.componentId === undefined) return
+
+    const base = `${this.options.dataModelPath}/${escapePointer(message.componentId)}`
+    const updates: DataUpdate[] = replace
+      ? [{ path: base, operation: 'set', value: values }]
+      : Object.entries(values).map(([key, value]) => ({
+          path: `${base}/${escapePointer(key)}`,
+          operation: 'set',
+          value,
+        }))
+
+    const update: UpdateDataModelMessage = {
+      type: 'updateDataModel',
+      surfaceId: message.surfaceId,
+      updates,
+      timestamp: Date.now(),
+    }
+    this.transport.send(update)
+  }
+
+  private replyBase(message: ZeroDBRequestMessage): {
+    surfaceId: string
+    componentId?: string
+    metadata?: Record<string, unknown>
+    timestamp: number
+  } {
+    return {
+      surfaceId: message.surfaceId,
+      ...(message.componentId !== undefined && { componentId: message.componentId }),
+      ...(message.metadata !== undefined && { metadata: message.metadata }),
+      timestamp: Date.now(),
+    }
+  }
+
+  private page(limit?: number, offset?: number): { limit: number; offset: number } {
+    return {
+      limit: Math.max(1, Math.floor(limit ?? this.options.pageSize)),
+      offset: Math.max(0, Math.floor(offset ?? 0)),
+    }
+  }
+
+  private componentKey(message: ZeroDBRequestMessage): string {
+    return `${message.surfaceId}:${message.componentId ?? message.type}`
+  }
+
+  /**
+   * Register event handler
+   */
+  public on(event: ZeroDBEventType, handler: ZeroDBEventHandler): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, new Set())
+    }
+    this.eventHandlers.get(event)!.add(handler)
+  }
+
+  /**
+   * Unregister event handler
+   */
+  public off(event: ZeroDBEventType, handler: ZeroDBEventHandler): void {
+    const handlers = this.eventHandlers.get(event)
+    if (handlers) {
+      handlers.delete(handler)
+    }
+  }
+
+  /**
+   * Emit event
+   */
+  private emit(event: ZeroDBEventType, data: ZeroDBEventData): void {
+    const handlers = this.eventHandlers.get(event)
+    if (handlers) {
+      for (const handler of handlers) {
+        try {
+          handler(data)
+        } catch (error) {
+          console.error('Error in event handler:', error)
+        }
+      }
+    }
+  }
+
+  /**
+   * Stop handling messages and drop pending searches
+   */
+  public destroy(): void {
+    for (const [type, listener] of this.listeners) {
+      this.transport.off(type, listener)
+    }
+    for (const timer of this.searchTimers.values()) {
+      clearTimeout(timer)
+    }
+    this.listeners.clear()
+    this.searchTimers.clear()
+    this.latestRequests.clear()
+    this.lastQueries.clear()
+    this.eventHandlers.clear()
+  }
+}
+
+/**
+ * Whether a SQL string is a single statement that cannot modify data
+ *
+ * Comments, string literals and quoted identifiers are ignored. Accepts
+ * SELECT, WITH, EXPLAIN, SHOW, VALUES and TABLE statements, and rejects
+ * data-modifying CTEs, `SELECT ... INTO`, row locks, calls to functions with
+ * side effects and anything it cannot tokenize with certainty. User-defined
+ * functions can still write, so pair it with a read-only database role.
+ */
+export function isReadOnlyQuery(sql: string): boolean {
+  const stripped = stripSqlLiterals(sql)
+  if (stripped === null) return false
+
+  const statements = stripped
+    .split(';')
+    .map((statement) => statement.trim().toLowerCase())
+    .filter(Boolean)
+  if (statements.length !== 1) return false
+
+  const statement = statements[0]!
+  const keyword = /^[a-z]+/.exec(statement)?.[0]
+  return (
+    keyword !== undefined &&
+    READ_ONLY_STATEMENTS.has(keyword) &&
+    !WRITE_KEYWORDS.test(statement) &&
+    !SIDE_EFFECT_CALLS.test(statement) &&
+    !/\bfor\s+(no\s+key\s+)?(update|share|key\s+share)\b/.test(statement)
+  )
+}
+
+const READ_ONLY_STATEMENTS = new Set(['select', 'with', 'explain', 'show', 'values', 'table'])
+
+const WRITE_KEYWORDS =
+  /\b(insert|update|delete|merge|upsert|truncate|drop|alter|create|grant|revoke|copy|call|lock|into|vacuum|reindex|cluster|refresh)\b/
+
+/**
+ * Calls that change state even inside a SELECT: sequences, settings, server
+ * and large-object functions, dynamic SQL, and quoted function names
+ */
+const SIDE_EFFECT_CALLS =
+  /\b(nextval|setval|set_config|pg_\w*|lo_\w*|dblink\w*|query_to_xml\w*|cursor_to_xml\w*)\s*\(|"_"\s*\(/
+
+const IDENTIFIER_CHAR = /[\w$\u0080-\uffff]/
+
+/**
+ * Blank out comments, string literals and quoted identifiers
+ * Returns null when the SQL cannot be tokenized with certainty: unterminated
+ * literals or comments, and backslashes outside E'' strings, whose meaning
+ * depends on server settings.
+ */
+function stripSqlLiterals(sql: string): string | null {
+  let result = ''
+  let i = 0
+
+  while (i < sql.length) {
+    const char = sql[i]!
+    const next = sql[i + 1]
+    const previous = sql[i - 1] ?? ''
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i)
+      i = end === -1 ? sql.length : end
+      result += ' '
+    } else if (char === '/' && next === '*') {
+      // Block comments nest
+      let depth = 1
+      i += 2
+      while (depth > 0) {
+        if (i >= sql.length) return null
+        if (sql.startsWith('/*', i)) {
+          depth++
+          i += 2
+        } else if (sql.startsWith('*/', i)) {
+          depth--
+          i += 2
+        } else {
+          i++
+        }
+      }
+      result += ' '
+    } else if (char === "'" || char === '"') {
+      const escapeString =
+        char === "'" && /[eE]/.test(previous) && !IDENTIFIER_CHAR.test(sql[i - 2] ?? '')
+      i++
+      for (;;) {
+        if (i >= sql.length) return null
+        if (sql[i] === '\\' && char === "'") {
+          if (!escapeString) return null
+          i += 2
+        } else if (sql[i] === char) {
+          // Doubled quotes escape the quote character
+          if (sql[i + 1] !== char) break
+          i += 2
+        } else {
+          i++
+        }
+      }
+      i++
+      result += char === "'" ? "''" : '"_"'
+    } else if (char === '$' && !IDENTIFIER_CHAR.test(previous)) {
+      const tag = /^\$([A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)?\$/.exec(sql.slice(i))?.[0]
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length)
+        if (end === -1) return null
+        i = end + tag.length
+        result += "''"
+      } else {
+        result += char
+        i++
+      }
+    } else {
+      result += char
+      i++
+    }
+  }
+
+  return result
+}
+
+const FILE_SORT_KEYS: Record<
+  NonNullable<ZeroDBFileListMessage['sortBy']>,
+  (metadata: { name: string; size?: number; [key: string]: unknown }) => unknown
+> = {
+  name: (metadata) => metadata.name,
+  size: (metadata) => metadata.size ?? 0,
+  date: (metadata) => metadata['updatedAt'] ?? metadata['createdAt'],
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === undefined || a === null) return 1
+  if (b === undefined || b === null) return -1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return String(a).localeCompare(String(b), undefined, { numeric: true })
+}
+
+function isQueryMessage(message: ZeroDBRequestMessage): message is ZeroDBQueryMessage {
+  return QUERY_TYPES.has(message.type)
+}
+
+function isTableWriteMessage(message: ZeroDBRequestMessage): message is ZeroDBTableWriteMessage {
+  return (
+    message.type === 'zerodbTableInsert' ||
+    message.type === 'zerodbTableUpdate' ||
+    message.type === 'zerodbTableDelete'
+  )
+}
+
+function relevanceOf(memory: { metadata?: Record<string, unknown> }): number {
+  const relevance = memory.metadata?.['relevance'] ?? memory.metadata?.['score']
+  return typeof relevance === 'number' ? relevance : 0
+}
+
+function requireField(value: string | undefined, field: string): void {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ZeroDBHandlerError('INVALID_REQUEST', `Missing ${field}`)
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1')
+}
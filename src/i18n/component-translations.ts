@@ -0,0 +1,134 @@
+/**
+ * A2UI Component Translations
+ * Resolves `$t` translation expressions in component properties
+ *
+ * Agents can send translation keys instead of literal text, so the same
+ * surface renders in each user's locale:
+ *
+ * - `{ "$t": "auth.signIn" }` translates a key
+ * - `{ "$t": "cart.items", "count": 3 }` selects a plural form
+ * - `{ "$t": "greeting", "params": { "name": "Ada" } }` fills `{{name}}`
+ *
+ * `params` and `count` may themselves be `$bind` or `$expr` bindings; run
+ * the `BindingResolver` first so they hold data model values here.
+ *
+ * @example
+ * ```typescript
+ * translateProperties(
+ *   { label: { $t: 'auth.email' }, helperText: { $t: 'auth.required', default: 'Required' } },
+ *   i18n
+ * )
+ * // { label: 'E-mail', helperText: 'Obligatoire' }
+ * ```
+ */
+
+import type { A2UIComponent } from '../types/components.js'
+import type { I18n, TranslationParams } from './i18n.js'
+
+/**
+ * Translation key resolved at render time
+ */
+export interface TranslationExpression {
+  $t: string
+  /** Values for `{{name}}` placeholders */
+  params?: TranslationParams
+  /** Selects a plural form; available to the message as `{{count}}` */
+  count?: number
+  /** Text used when no locale has the key */
+  default?: string
+}
+
+/**
+ * Check for a `$t` expression
+ */
+export function isTranslationExpression(value: unknown): value is TranslationExpression {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as Record<string, unknown>)['$t'] === 'string'
+  )
+}
+
+/**
+ * Translate a single expression
+ */
+export function translateExpression(expression: TranslationExpression, i18n: I18n): string {
+  if (expression.default !== undefined && !i18n.has(expression.$t)) {
+    return expression.default
+  }
+  const params = expression.params ?? {}
+  return typeof expression.count === 'number'
+    ? i18n.tp(expression.$t, expression.count, params)
+    : i18n.t(expression.$t, params)
+}
+
+/**
+ * Replace every `$t` expression in a properties object, including nested objects and arrays
+ * Returns the input object unchanged when it has no translations
+ */
+export function translateProperties(
+  properties: Record<string, unknown>,
+  i18n: I18n
+): Record<string, unknown> {
+  return translateValue(properties, i18n) as Record<string, unknown>
+}
+
+/**
+ * Translate the properties of each component for the active locale
+ */
+export function translateComponents(components: A2UIComponent[], i18n: I18n): A2UIComponent[] {
+  return components.map((component) => {
+    if (!component.properties) return component
+    const properties = translateProperties(component.properties, i18n)
+    return properties === component.properties ? component : { ...component, properties }
+  })
+}
+
+/**
+ * Translation keys used by a set of components, e.g. to preload or audit bundles
+ */
+export function collectTranslationKeys(components: A2UIComponent[]): string[] {
+  const keys = new Set<string>()
+  const visit = (value: unknown): void => {
+    if (isTranslationExpression(value)) {
+      keys.add(value.$t)
+    } else if (Array.isArray(value)) {
+      value.forEach(visit)
+    } else if (typeof value === 'object' && value !== null) {
+      Object.values(value).forEach(visit)
+    }
+  }
+  components.forEach((component) => visit(component.properties))
+  return [...keys]
+}
+
+function translateValue(value: unknown, i18n: I18n): unknown {
+  if (isTranslationExpression(value)) {
+    return translateExpression(value, i18n)
+  }
+
+  if (Array.isArray(value)) {
+    let changed = false
+    const items = value.map((item: unknown) => {
+      const translated = translateValue(item, i18n)
+      changed ||= translated !== item
+      return translated
+    })
+    return changed ? items : value
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    let result: Record<string, unknown> | undefined
+    for (const [key, child] of Object.entries(value)) {
+      const translated = translateValue(child, i18n)
+      if (translated !== child) {
+        result ??= { ...(value as Record<string, unknown>) }
+        result[key] = translated
+      }
+    }
+    return result ?? value
+  }
+
+  return value
+}
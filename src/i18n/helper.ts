@@ -0,0 +1,180 @@
+/**
+ * A2UI I18n Helper
+ * Locale and translation bundle utilities
+ */
+
+import { isLocaleSupported } from './plural-rules.js'
+
+/**
+ * Translation bundle: messages keyed by name, nested with objects
+ *
+ * A nested object whose keys are all plural categories (or ICU exact
+ * matches such as `=0`) is a plural message selected by `tp`.
+ */
+export interface Translations {
+  [key: string]: string | Translations
+}
+
+/**
+ * Text direction of a locale
+ */
+export type LocaleDirection = 'ltr' | 'rtl'
+
+const RTL_LANGUAGES = new Set(['ar', 'dv', 'fa', 'he', 'ku', 'ps', 'sd', 'ug', 'ur', 'yi'])
+
+const PLURAL_KEYS = new Set(['zero', 'one', 'two', 'few', 'many', 'other'])
+
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z][a-z]{3})?(-([A-Z]{2}|\d{3}))?$/
+
+/**
+ * I18n Helper
+ * Static helpers shared by `I18n` and `TranslationManager`
+ */
+export class I18nHelper {
+  /**
+   * Normalize a locale to BCP 47 casing (`en_us` → `en-US`, `sr_latn` → `sr-Latn`)
+   */
+  static normalizeLocale(locale: string): string {
+    const [language = '', ...subtags] = locale.trim().split(/[-_]/)
+    return [
+      language.toLowerCase(),
+      ...subtags.map((subtag) =>
+        subtag.length === 4
+          ? `${subtag[0]!.toUpperCase()}${subtag.slice(1).toLowerCase()}`
+          : subtag.toUpperCase()
+      ),
+    ].join('-')
+  }
+
+  /**
+   * Best match for the user's preferred locales among the available ones
+   * Uses `navigator.languages` when no preferences are given; falls back to
+   * the first available locale
+   */
+  static detectLocale(
+    availableLocales: string[],
+    preferred?: readonly string[]
+  ): string | undefined {
+    const requested =
+      preferred ?? (typeof navigator !== 'undefined' ? navigator.languages : undefined) ?? []
+    const available = new Map(
+      availableLocales.map((locale) => [I18nHelper.normalizeLocale(locale), locale])
+    )
+    for (const locale of requested) {
+      for (const candidate of I18nHelper.getLocaleChain(locale)) {
+        const match = available.get(candidate)
+        if (match !== undefined) return match
+      }
+    }
+    return availableLocales[0]
+  }
+
+  /**
+   * Check for a well-formed locale whose language has plural rules
+   */
+  static isValidLocale(locale: string): boolean {
+    return LOCALE_PATTERN.test(locale) && isLocaleSupported(locale)
+  }
+
+  /**
+   * Check whether a locale is written right to left
+   */
+  static isRTL(locale: string): boolean {
+    return RTL_LANGUAGES.has(I18nHelper.getBaseLocale(locale))
+  }
+
+  /**
+   * Text direction of a locale
+   */
+  static getLocaleDirection(locale: string): LocaleDirection {
+    return I18nHelper.isRTL(locale) ? 'rtl' : 'ltr'
+  }
+
+  /**
+   * Name of a locale, in English unless another display locale is given
+   */
+  static getLocaleDisplayName(locale: string, displayLocale = 'en'): string {
+    try {
+      const names = new Intl.DisplayNames([displayLocale], { type: 'language' })
+      return names.of(I18nHelper.normalizeLocale(locale)) ?? locale
+    } catch {
+      return locale
+    }
+  }
+
+  /**
+   * Language part of a locale (`fr-CA` → `fr`)
+   */
+  static getBaseLocale(locale: string): string {
+    return I18nHelper.normalizeLocale(locale).split('-')[0]!
+  }
+
+  /**
+   * Locales to try for a locale, most specific first (`zh-Hant-TW` → `zh-Hant-TW`, `zh-Hant`, `zh`)
+   */
+  static getLocaleChain(locale: string): string[] {
+    const subtags = I18nHelper.normalizeLocale(locale).split('-')
+    return subtags.map((_, index) => subtags.slice(0, subtags.length - index).join('-'))
+  }
+
+  /**
+   * Dotted keys of every message in a bundle
+   * Plural messages are listed once, under their own key, unless `expandPlurals` is set
+   */
+  static flattenKeys(translations: Translations, expandPlurals = true): string[] {
+    const keys: string[] = []
+    const visit = (value: string | Translations, prefix: string): void => {
+      if (typeof value === 'string' || (!expandPlurals && I18nHelper.isPluralMessage(value))) {
+        keys.push(prefix)
+        return
+      }
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, prefix === '' ? key : `${prefix}.${key}`)
+      }
+    }
+    visit(translations, '')
+    return keys
+  }
+
+  /**
+   * Deep merge bundles; later bundles win
+   */
+  static mergeTranslations(...bundles: Translations[]): Translations {
+    const result: Translations = {}
+    for (const bundle of bundles) {
+      for (const [key, value] of Object.entries(bundle)) {
+        const existing = result[key]
+        result[key] =
+          typeof value === 'object' && typeof existing === 'object'
+            ? I18nHelper.mergeTranslations(existing, value)
+            : value
+      }
+    }
+    return result
+  }
+
+  /**
+   * Look up a message by dotted key
+   */
+  static getMessage(translations: Translations, key: string): string | Translations | undefined {
+    let current: string | Translations | undefined = translations
+    for (const segment of key.split('.')) {
+      if (typeof current !== 'object') return undefined
+      current = current[segment]
+    }
+    return current
+  }
+
+  /**
+   * Check whether a nested object is a plural message
+   */
+  static isPluralMessage(value: string | Translations | undefined): value is Translations {
+    if (typeof value !== 'object') return false
+    const keys = Object.keys(value)
+    return (
+      keys.length > 0 &&
+      keys.every((key) => PLURAL_KEYS.has(key) || /^=\d+$/.test(key)) &&
+      Object.values(value).every((message) => typeof message === 'string')
+    )
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * A2UI I18n
+ * Translation lookup, interpolation, plurals and `Intl` formatting for one active locale
+ *
+ * Messages are looked up along a fallback chain: the active locale, its
+ * parent locales (`fr-CA` → `fr`), the configured fallback locales and
+ * finally the default locale. Bundles for locales without translations are
+ * fetched with `loader` the first time they are needed.
+ *
+ * @example
+ * ```typescript
+ * const i18n = new I18n({
+ *   defaultLocale: 'en',
+ *   locales: ['en', 'fr'],
+ *   translations: { en: { cart: { one: '{{count}} item', other: '{{count}} items' } } },
+ *   loader: (locale) => fetch(`/locales/${locale}.json`).then((res) => res.json()),
+ * })
+ *
+ * i18n.tp('cart', 3) // '3 items'
+ * await i18n.setLocale('fr')
+ * ```
+ */
+
+import { I18nHelper } from './helper.js'
+import type { LocaleDirection, Translations } from './helper.js'
+import { getPluralForm } from './plural-rules.js'
+
+/**
+ * Interpolation values for `{{name}}` placeholders
+ */
+export type TranslationParams = Record<string, unknown>
+
+/**
+ * Loads the bundle of a locale
+ */
+export type TranslationLoader = (locale: string) => Promise<Translations>
+
+/**
+ * I18n error codes
+ */
+export type I18nErrorCode = 'UNSUPPORTED_LOCALE' | 'LOAD_FAILED'
+
+/**
+ * I18n error
+ */
+export class I18nError extends Error {
+  constructor(
+    public readonly code: I18nErrorCode,
+    public readonly locale: string,
+    message: string
+  ) {
+    super(message)
+    this.name = 'I18nError'
+  }
+}
+
+/**
+ * I18n options
+ */
+export interface I18nOptions {
+  /** Locale used initially and as the last fallback */
+  defaultLocale: string
+  /** Locales that may be activated (default: the default locale and the bundled locales) */
+  locales?: string[]
+  /** Bundled translations by locale */
+  translations?: Record<string, Translations>
+  /** Locales tried after the active locale chain, before the default locale */
+  fallbackLocales?: string[]
+  /** Fetches bundles for locales without translations */
+  loader?: TranslationLoader
+  /** Called when no locale in the chain has a message; its return value is used if given */
+  onMissingKey?: (key: string, locale: string) => string | void
+}
+
+/**
+ * Listener notified after the active locale changes
+ */
+export type LocaleChangeListener = (locale: string, previousLocale: string) => void
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g
+
+/**
+ * I18n
+ */
+export class I18n {
+  private locale: string
+  private readonly defaultLocale: string
+  private readonly locales: Set<string>
+  private readonly fallbackLocales: string[]
+  private readonly translations = new Map<string, Translations>()
+  private readonly loading = new Map<string, Promise<void>>()
+  private readonly loader?: TranslationLoader
+  private readonly onMissingKey?: (key: string, locale: string) => string | void
+  private readonly listeners = new Set<LocaleChangeListener>()
+  private readonly formatters = new Map<
+    string,
+    Intl.NumberFormat | Intl.DateTimeFormat | Intl.RelativeTimeFormat
+  >()
+
+  constructor(options: I18nOptions) {
+    this.defaultLocale = I18nHelper.normalizeLocale(options.defaultLocale)
+    this.locale = this.defaultLocale
+    this.fallbackLocales = (options.fallbackLocales ?? []).map((locale) =>
+      I18nHelper.normalizeLocale(locale)
+    )
+    this.loader = options.loader
+    this.onMissingKey = options.onMissingKey
+
+    for (const [locale, translations] of Object.entries(options.translations ?? {})) {
+      this.translations.set(I18nHelper.normalizeLocale(locale), translations)
+    }
+    this.locales = new Set(
+      (options.locales ?? [...this.translations.keys()]).map((locale) =>
+        I18nHelper.normalizeLocale(locale)
+      )
+    )
+    this.locales.add(this.defaultLocale)
+  }
+
+  /**
+   * Active locale
+   */
+  getLocale(): string {
+    return this.locale
+  }
+
+  /**
+   * Locales that may be activated
+   */
+  getLocales(): string[] {
+    return [...this.locales]
+  }
+
+  /**
+   * Text direction of a locale (default: the active locale)
+   */
+  getDirection(locale: string = this.locale): LocaleDirection {
+    return I18nHelper.getLocaleDirection(locale)
+  }
+
+  /**
+   * Check whether a locale (default: the active locale) is written right to left
+   */
+  isRTL(locale: string = this.locale): boolean {
+    return I18nHelper.isRTL(locale)
+  }
+
+  /**
+   * Activate a locale, loading the bundles of its fallback chain first
+   * @throws I18nError if the locale is not configured or a bundle fails to load
+   */
+  async setLocale(locale: string): Promise<void> {
+    const normalized = I18nHelper.normalizeLocale(locale)
+    if (!this.locales.has(normalized)) {
+      throw new I18nError(
+        'UNSUPPORTED_LOCALE',
+        normalized,
+        `Locale "${normalized}" is not configured`
+      )
+    }
+
+    await Promise.all(this.getFallbackChain(normalized).map((entry) => this.loadLocale(entry)))
+
+    const previous = this.locale
+    this.locale = normalized
+    if (previous !== normalized) {
+      for (const listener of this.listeners) {
+        listener(normalized, previous)
+      }
+    }
+  }
+
+  /**
+   * Fetch the bundle of a configured locale with the loader
+   * Resolves immediately for bundled or already loaded locales and locales
+   * outside the configuration; concurrent calls share one request
+   * @throws I18nError if the loader rejects
+   */
+  loadLocale(locale: string): Promise<void> {
+    const normalized = I18nHelper.normalizeLocale(locale)
+    if (!this.loader || this.translations.has(normalized) || !this.locales.has(normalized)) {
+      return Promise.resolve()
+    }
+
+    const pending = this.loading.get(normalized)
+    if (pending) return pending
+
+    const request = this.loader(normalized).then(
+      (translations) => {
+        this.addTranslations(normalized, translations)
+        this.loading.delete(normalized)
+      },
+      (error: unknown) => {
+        this.loading.delete(normalized)
+        throw new I18nError(
+          'LOAD_FAILED',
+          normalized,
+          `Failed to load locale "${normalized}": ${error instanceof Error ? error.message : String(error)}`
+        )
+      }
+    )
+    this.loading.set(normalized, request)
+    return request
+  }
+
+  /**
+   * Check whether a locale's bundle is available
+   */
+  isLoaded(locale: string): boolean {
+    return this.translations.has(I18nHelper.normalizeLocale(locale))
+  }
+
+  /**
+   * Merge messages into a locale's bundle
+   */
+  addTranslations(locale: string, translations: Translations): void {
+    const normalized = I18nHelper.normalizeLocale(locale)
+    const existing = this.translations.get(normalized)
+    this.translations.set(
+      normalized,
+      existing ? I18nHelper.mergeTranslations(existing, translations) : translations
+    )
+  }
+
+  /**
+   * Locales searched for a message, most specific first
+   */
+  getFallbackChain(locale: string = this.locale): string[] {
+    return [
+      ...new Set([
+        ...I18nHelper.getLocaleChain(locale),
+        ...this.fallbackLocales.flatMap((entry) => I18nHelper.getLocaleChain(entry)),
+        ...I18nHelper.getLocaleChain(this.defaultLocale),
+      ]),
+    ]
+  }
+
+  /**
+   * Translate a key, interpolating `{{name}}` placeholders
+   * Returns the key itself when no locale has the message
+   */
+  t(key: string, params: TranslationParams = {}): string {
+    const found = this.lookup(key, (message) => typeof message === 'string')
+    if (!found) return this.missing(key)
+    return this.interpolate(found.message as string, params, found.locale)
+  }
+
+  /**
+   * Translate a plural message for a count
+   * `=N` exact matches win over the locale's plural category; `{{count}}` is
+   * always available to the message
+   */
+  tp(key: string, count: number, params: TranslationParams = {}): string {
+    const found = this.lookup(key, (message) => I18nHelper.isPluralMessage(message))
+    if (!found) return this.missing(key)
+
+    const forms = found.message as Translations
+    const message =
+      forms[`=${count}`] ?? forms[getPluralForm(count, found.locale)] ?? forms['other']
+    if (typeof message !== 'string') return this.missing(key)
+
+    return this.interpolate(message, { count, ...params }, found.locale)
+  }
+
+  /**
+   * Check whether a message exists for the key
+   * Searches the fallback chain of the active locale unless a locale is given
+   */
+  has(key: string, locale?: string): boolean {
+    if (locale !== undefined) {
+      const translations = this.translations.get(I18nHelper.normalizeLocale(locale))
+      return translations !== undefined && I18nHelper.getMessage(translations, key) !== undefined
+    }
+    return this.lookup(key, () => true) !== undefined
+  }
+
+  /**
+   * Format a number for the active locale
+   */
+  formatNumber(value: number, options: Intl.NumberFormatOptions = {}): string {
+    return this.numberFormat(options).format(value)
+  }
+
+  /**
+   * Format an amount of money for the active locale
+   */
+  formatCurrency(value: number, currency: string, options: Intl.NumberFormatOptions = {}): string {
+    return this.numberFormat({ ...options, style: 'currency', currency }).format(value)
+  }
+
+  /**
+   * Format a date for the active locale
+   */
+  formatDate(date: Date | number | string, options: Intl.DateTimeFormatOptions = {}): string {
+    const key = `date:${this.locale}:${JSON.stringify(options)}`
+    let formatter = this.formatters.get(key) as Intl.DateTimeFormat | undefined
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat(this.locale, options)
+      this.formatters.set(key, formatter)
+    }
+    return formatter.format(date instanceof Date ? date : new Date(date))
+  }
+
+  /**
+   * Format a relative time for the active locale (`-1, 'day'` → `1 day ago`)
+   */
+  formatRelativeTime(
+    value: number,
+    unit: Intl.RelativeTimeFormatUnit,
+    options: Intl.RelativeTimeFormatOptions = {}
+  ): string {
+    const key = `relative:${this.locale}:${JSON.stringify(options)}`
+    let formatter = this.formatters.get(key) as Intl.RelativeTimeFormat | undefined
+    if (!formatter) {
+      formatter = new Intl.RelativeTimeFormat(this.locale, options)
+      this.formatters.set(key, formatter)
+    }
+    return formatter.format(value, unit)
+  }
+
+  /**
+   * Subscribe to locale changes
+   * @returns Unsubscribe function
+   */
+  onLocaleChange(listener: LocaleChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private lookup(
+    key: string,
+    accept: (message: string | Translations) => boolean
+  ): { message: string | Translations; locale: string } | undefined {
+    for (const locale of this.getFallbackChain()) {
+      const translations = this.translations.get(locale)
+      const message = translations ? I18nHelper.getMessage(translations, key) : undefined
+      if (message !== undefined && accept(message)) {
+        return { message, locale }
+      }
+    }
+    return undefined
+  }
+
+  private missing(key: string): string {
+    return this.onMissingKey?.(key, this.locale) ?? key
+  }
+
+  private interpolate(message: string, params: TranslationParams, locale: string): string {
+    return message.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+      const value = params[name]
+      if (value === undefined || value === null) return placeholder
+      if (typeof value === 'number') return this.numberFormat({}, locale).format(value)
+      return String(value)
+    })
+  }
+
+  private numberFormat(
+    options: Intl.NumberFormatOptions,
+    locale: string = this.locale
+  ): Intl.NumberFormat {
+    const key = `number:${locale}:${JSON.stringify(options)}`
+    let formatter = this.formatters.get(key) as Intl.NumberFormat | undefined
+    if (!formatter) {
+      formatter = new Intl.NumberFormat(locale, options)
+      this.formatters.set(key, formatter)
+    }
+    return formatter
+  }
+}
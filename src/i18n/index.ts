@@ -0,0 +1,40 @@
+/**
+ * A2UI Internationalization
+ */
+
+export { I18n, I18nError } from './i18n.js'
+export type {
+  I18nOptions,
+  I18nErrorCode,
+  TranslationParams,
+  TranslationLoader,
+  LocaleChangeListener,
+} from './i18n.js'
+
+export { I18nHelper } from './helper.js'
+export type { Translations, LocaleDirection } from './helper.js'
+
+export { TranslationManager } from './manager.js'
+export type {
+  TranslationValidationReport,
+  TranslationStats,
+  TranslationDiff,
+  FlatTranslations,
+} from './manager.js'
+
+export {
+  getPluralForm,
+  getPluralCategories,
+  getSupportedLocales,
+  isLocaleSupported,
+} from './plural-rules.js'
+export type { PluralCategory } from './plural-rules.js'
+
+export {
+  isTranslationExpression,
+  translateExpression,
+  translateProperties,
+  translateComponents,
+  collectTranslationKeys,
+} from './component-translations.js'
+export type { TranslationExpression } from './component-translations.js'
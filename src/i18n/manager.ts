@@ -0,0 +1,211 @@
+/**
+ * A2UI Translation Manager
+ * Tooling for maintaining translation bundles: templates, coverage and diffs
+ *
+ * Plural messages are compared as a whole, so a Russian bundle with
+ * `one`/`few`/`many`/`other` forms covers an English key with `one`/`other`.
+ */
+
+import { I18nHelper } from './helper.js'
+import type { Translations } from './helper.js'
+import { getPluralCategories } from './plural-rules.js'
+
+/**
+ * Result of checking bundles against a base bundle
+ */
+export interface TranslationValidationReport {
+  /** True when no locale has missing keys or placeholder mismatches */
+  valid: boolean
+  /** Base keys without a message, by locale */
+  missing: Record<string, string[]>
+  /** Keys that do not exist in the base bundle, by locale */
+  extra: Record<string, string[]>
+  /** Keys whose `{{placeholders}}` differ from the base message, by locale */
+  placeholderMismatches: Record<string, string[]>
+}
+
+/**
+ * Translation coverage of a bundle
+ */
+export interface TranslationStats {
+  totalKeys: number
+  translatedKeys: number
+  missingKeys: number
+  /** Percentage of base keys with a message, rounded to two decimals */
+  coverage: number
+}
+
+/**
+ * Changes between two versions of a bundle
+ */
+export interface TranslationDiff {
+  added: string[]
+  removed: string[]
+  changed: string[]
+}
+
+/**
+ * Flat bundle keyed by dotted path
+ */
+export type FlatTranslations = Record<string, string>
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g
+
+/**
+ * Translation Manager
+ */
+export class TranslationManager {
+  /**
+   * Empty bundle for a list of keys
+   * With `plural` set, every key gets the plural categories of the locale
+   */
+  generateTemplate(keys: string[], locale: string, plural = false): Translations {
+    const flat: FlatTranslations = {}
+    for (const key of keys) {
+      if (plural) {
+        for (const category of getPluralCategories(locale)) {
+          flat[`${key}.${category}`] = ''
+        }
+      } else {
+        flat[key] = ''
+      }
+    }
+    return this.unflattenTranslations(flat)
+  }
+
+  /**
+   * Check bundles by locale against a base bundle
+   */
+  validateTranslations(
+    base: Translations,
+    targets: Record<string, Translations>
+  ): TranslationValidationReport {
+    const report: TranslationValidationReport = {
+      valid: true,
+      missing: {},
+      extra: {},
+      placeholderMismatches: {},
+    }
+    const baseKeys = I18nHelper.flattenKeys(base, false)
+
+    for (const [locale, target] of Object.entries(targets)) {
+      const targetKeys = new Set(I18nHelper.flattenKeys(target, false))
+      const missing = baseKeys.filter((key) => !targetKeys.has(key))
+      const extra = [...targetKeys].filter((key) => I18nHelper.getMessage(base, key) === undefined)
+      const mismatched = baseKeys.filter(
+        (key) =>
+          targetKeys.has(key) &&
+          placeholders(I18nHelper.getMessage(base, key)) !==
+            placeholders(I18nHelper.getMessage(target, key))
+      )
+
+      report.missing[locale] = missing
+      report.extra[locale] = extra
+      report.placeholderMismatches[locale] = mismatched
+      if (missing.length > 0 || mismatched.length > 0) {
+        report.valid = false
+      }
+    }
+
+    return report
+  }
+
+  /**
+   * Translation coverage of a bundle against a base bundle
+   */
+  getTranslationStats(base: Translations, target: Translations): TranslationStats {
+    const totalKeys = I18nHelper.flattenKeys(base, false).length
+    const missingKeys = this.findMissingTranslations(base, target).length
+    const translatedKeys = totalKeys - missingKeys
+    return {
+      totalKeys,
+      translatedKeys,
+      missingKeys,
+      coverage: totalKeys === 0 ? 100 : Math.round((translatedKeys / totalKeys) * 10000) / 100,
+    }
+  }
+
+  /**
+   * Base keys without a non-empty message in a bundle
+   */
+  findMissingTranslations(base: Translations, target: Translations): string[] {
+    return I18nHelper.flattenKeys(base, false).filter((key) => {
+      const message = I18nHelper.getMessage(target, key)
+      return message === undefined || message === ''
+    })
+  }
+
+  /**
+   * Deep merge bundles; later bundles win
+   */
+  mergeTranslations(...bundles: Translations[]): Translations {
+    return I18nHelper.mergeTranslations(...bundles)
+  }
+
+  /**
+   * Flatten a bundle to dotted keys
+   */
+  flattenTranslations(translations: Translations): FlatTranslations {
+    const flat: FlatTranslations = {}
+    for (const key of I18nHelper.flattenKeys(translations)) {
+      flat[key] = I18nHelper.getMessage(translations, key) as string
+    }
+    return flat
+  }
+
+  /**
+   * Rebuild a nested bundle from dotted keys
+   */
+  unflattenTranslations(flat: FlatTranslations): Translations {
+    const result: Translations = {}
+    for (const [key, message] of Object.entries(flat)) {
+      const segments = key.split('.')
+      const last = segments.pop()!
+      let current = result
+      for (const segment of segments) {
+        const next = current[segment]
+        if (typeof next === 'object') {
+          current = next
+        } else {
+          const created: Translations = {}
+          current[segment] = created
+          current = created
+        }
+      }
+      current[last] = message
+    }
+    return result
+  }
+
+  /**
+   * Keys added, removed and changed between two versions of a bundle
+   */
+  diffTranslations(previous: Translations, next: Translations): TranslationDiff {
+    const before = this.flattenTranslations(previous)
+    const after = this.flattenTranslations(next)
+    return {
+      added: Object.keys(after).filter((key) => !(key in before)),
+      removed: Object.keys(before).filter((key) => !(key in after)),
+      changed: Object.keys(after).filter((key) => key in before && before[key] !== after[key]),
+    }
+  }
+}
+
+/**
+ * Sorted placeholder names of a message, joined for comparison
+ * Plural forms contribute the union of their placeholders without `count`
+ */
+function placeholders(message: string | Translations | undefined): string {
+  const texts =
+    typeof message === 'string'
+      ? [message]
+      : Object.values(message ?? {}).filter((text): text is string => typeof text === 'string')
+  const names = new Set<string>()
+  for (const text of texts) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      names.add(match[1]!)
+    }
+  }
+  if (typeof message !== 'string') names.delete('count')
+  return [...names].sort().join(',')
+}
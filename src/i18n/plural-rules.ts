@@ -0,0 +1,414 @@
+/**
+ * A2UI Plural Rules
+ * CLDR plural categories for cardinal numbers, per language
+ *
+ * Rules are written against the CLDR operands: `n` absolute value, `i`
+ * integer digits, `v` number of visible fraction digits and `f` visible
+ * fraction digits as an integer. Regional locales (`pt-BR`, `sr-Latn`) use
+ * the rule of their language.
+ *
+ * @example
+ * ```typescript
+ * getPluralForm(1, 'en') // 'one'
+ * getPluralForm(3, 'ru') // 'few'
+ * getPluralForm(11, 'ar') // 'many'
+ * ```
+ */
+
+/**
+ * CLDR plural category
+ */
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other'
+
+interface PluralOperands {
+  n: number
+  i: number
+  v: number
+  f: number
+}
+
+interface PluralRule {
+  categories: PluralCategory[]
+  select: (operands: PluralOperands) => PluralCategory
+}
+
+const other: PluralRule = {
+  categories: ['other'],
+  select: () => 'other',
+}
+
+const oneOther: PluralRule = {
+  categories: ['one', 'other'],
+  select: ({ i, v }) => (i === 1 && v === 0 ? 'one' : 'other'),
+}
+
+const oneIsOne: PluralRule = {
+  categories: ['one', 'other'],
+  select: ({ n }) => (n === 1 ? 'one' : 'other'),
+}
+
+const zeroAndOneAreOne: PluralRule = {
+  categories: ['one', 'other'],
+  select: ({ i }) => (i === 0 || i === 1 ? 'one' : 'other'),
+}
+
+const upToOneIsOne: PluralRule = {
+  categories: ['one', 'other'],
+  select: ({ n, i }) => (i === 0 || n === 1 ? 'one' : 'other'),
+}
+
+const eastSlavic: PluralRule = {
+  categories: ['one', 'few', 'many', 'other'],
+  select: ({ i, v }) => {
+    if (v !== 0) return 'other'
+    if (i % 10 === 1 && i % 100 !== 11) return 'one'
+    if (between(i % 10, 2, 4) && !between(i % 100, 12, 14)) return 'few'
+    return 'many'
+  },
+}
+
+const southSlavic: PluralRule = {
+  categories: ['one', 'few', 'other'],
+  select: ({ i, v, f }) => {
+    if ((v === 0 && i % 10 === 1 && i % 100 !== 11) || (f % 10 === 1 && f % 100 !== 11)) {
+      return 'one'
+    }
+    if (
+      (v === 0 && between(i % 10, 2, 4) && !between(i % 100, 12, 14)) ||
+      (between(f % 10, 2, 4) && !between(f % 100, 12, 14))
+    ) {
+      return 'few'
+    }
+    return 'other'
+  },
+}
+
+const westSlavic: PluralRule = {
+  categories: ['one', 'few', 'many', 'other'],
+  select: ({ i, v }) => {
+    if (v !== 0) return 'many'
+    if (i === 1) return 'one'
+    if (between(i, 2, 4)) return 'few'
+    return 'other'
+  },
+}
+
+const rules: Record<string, PluralRule> = {
+  arabic: {
+    categories: ['zero', 'one', 'two', 'few', 'many', 'other'],
+    select: ({ n }) => {
+      if (n === 0) return 'zero'
+      if (n === 1) return 'one'
+      if (n === 2) return 'two'
+      if (Number.isInteger(n) && between(n % 100, 3, 10)) return 'few'
+      if (Number.isInteger(n) && between(n % 100, 11, 99)) return 'many'
+      return 'other'
+    },
+  },
+  breton: {
+    categories: ['one', 'two', 'few', 'many', 'other'],
+    select: ({ n }) => {
+      const mod10 = n % 10
+      const mod100 = n % 100
+      if (mod10 === 1 && ![11, 71, 91].includes(mod100)) return 'one'
+      if (mod10 === 2 && ![12, 72, 92].includes(mod100)) return 'two'
+      if (
+        [3, 4, 9].includes(mod10) &&
+        ![10, 70, 90].some((start) => between(mod100, start, start + 9))
+      ) {
+        return 'few'
+      }
+      if (n !== 0 && n % 1000000 === 0) return 'many'
+      return 'other'
+    },
+  },
+  czech: westSlavic,
+  eastSlavic,
+  filipino: {
+    categories: ['one', 'other'],
+    select: ({ i, v, f }) =>
+      (v === 0 && between(i, 1, 3)) ||
+      (v === 0 && ![4, 6, 9].includes(i % 10)) ||
+      (v !== 0 && ![4, 6, 9].includes(f % 10))
+        ? 'one'
+        : 'other',
+  },
+  french: {
+    categories: ['one', 'many', 'other'],
+    select: ({ i, v }) => {
+      if (i === 0 || i === 1) return 'one'
+      if (v === 0 && i !== 0 && i % 1000000 === 0) return 'many'
+      return 'other'
+    },
+  },
+  hebrew: {
+    categories: ['one', 'two', 'other'],
+    select: ({ i, v }) => {
+      if ((i === 1 && v === 0) || (i === 0 && v !== 0)) return 'one'
+      if (i === 2 && v === 0) return 'two'
+      return 'other'
+    },
+  },
+  icelandic: {
+    categories: ['one', 'other'],
+    select: ({ i, f, v }) =>
+      (v === 0 && i % 10 === 1 && i % 100 !== 11) || (v !== 0 && f !== 0) ? 'one' : 'other',
+  },
+  irish: {
+    categories: ['one', 'two', 'few', 'many', 'other'],
+    select: ({ n }) => {
+      if (n === 1) return 'one'
+      if (n === 2) return 'two'
+      if (Number.isInteger(n) && between(n, 3, 6)) return 'few'
+      if (Number.isInteger(n) && between(n, 7, 10)) return 'many'
+      return 'other'
+    },
+  },
+  latvian: {
+    categories: ['zero', 'one', 'other'],
+    select: ({ n, v, f }) => {
+      if (n % 10 === 0 || between(n % 100, 11, 19) || (v === 2 && between(f % 100, 11, 19))) {
+        return 'zero'
+      }
+      if (
+        (n % 10 === 1 && n % 100 !== 11) ||
+        (v === 2 && f % 10 === 1 && f % 100 !== 11) ||
+        (v !== 2 && f % 10 === 1)
+      ) {
+        return 'one'
+      }
+      return 'other'
+    },
+  },
+  lithuanian: {
+    categories: ['one', 'few', 'many', 'other'],
+    select: ({ n, f }) => {
+      if (f !== 0) return 'many'
+      if (n % 10 === 1 && !between(n % 100, 11, 19)) return 'one'
+      if (between(n % 10, 2, 9) && !between(n % 100, 11, 19)) return 'few'
+      return 'other'
+    },
+  },
+  macedonian: {
+    categories: ['one', 'other'],
+    select: ({ i, v, f }) =>
+      (v === 0 && i % 10 === 1 && i % 100 !== 11) || (f % 10 === 1 && f % 100 !== 11)
+        ? 'one'
+        : 'other',
+  },
+  maltese: {
+    categories: ['one', 'two', 'few', 'many', 'other'],
+    select: ({ n }) => {
+      if (n === 1) return 'one'
+      if (n === 2) return 'two'
+      if (n === 0 || between(n % 100, 3, 10)) return 'few'
+      if (between(n % 100, 11, 19)) return 'many'
+      return 'other'
+    },
+  },
+  other,
+  oneIsOne,
+  oneOther,
+  polish: {
+    categories: ['one', 'few', 'many', 'other'],
+    select: ({ i, v }) => {
+      if (v !== 0) return 'other'
+      if (i === 1) return 'one'
+      if (between(i % 10, 2, 4) && !between(i % 100, 12, 14)) return 'few'
+      return 'many'
+    },
+  },
+  portuguese: {
+    categories: ['one', 'many', 'other'],
+    select: ({ i, v }) => {
+      if (between(i, 0, 1)) return 'one'
+      if (v === 0 && i !== 0 && i % 1000000 === 0) return 'many'
+      return 'other'
+    },
+  },
+  romanian: {
+    categories: ['one', 'few', 'other'],
+    select: ({ n, i, v }) => {
+      if (i === 1 && v === 0) return 'one'
+      if (v !== 0 || n === 0 || (n !== 1 && between(n % 100, 1, 19))) return 'few'
+      return 'other'
+    },
+  },
+  scottishGaelic: {
+    categories: ['one', 'two', 'few', 'other'],
+    select: ({ n }) => {
+      if (n === 1 || n === 11) return 'one'
+      if (n === 2 || n === 12) return 'two'
+      if (Number.isInteger(n) && (between(n, 3, 10) || between(n, 13, 19))) return 'few'
+      return 'other'
+    },
+  },
+  slovenian: {
+    categories: ['one', 'two', 'few', 'other'],
+    select: ({ i, v }) => {
+      if (v === 0 && i % 100 === 1) return 'one'
+      if (v === 0 && i % 100 === 2) return 'two'
+      if ((v === 0 && between(i % 100, 3, 4)) || v !== 0) return 'few'
+      return 'other'
+    },
+  },
+  southSlavic,
+  spanish: {
+    categories: ['one', 'many', 'other'],
+    select: ({ n, i, v }) => {
+      if (n === 1) return 'one'
+      if (v === 0 && i !== 0 && i % 1000000 === 0) return 'many'
+      return 'other'
+    },
+  },
+  upToOneIsOne,
+  welsh: {
+    categories: ['zero', 'one', 'two', 'few', 'many', 'other'],
+    select: ({ n }) => {
+      if (n === 0) return 'zero'
+      if (n === 1) return 'one'
+      if (n === 2) return 'two'
+      if (n === 3) return 'few'
+      if (n === 6) return 'many'
+      return 'other'
+    },
+  },
+  zeroAndOneAreOne,
+}
+
+const LANGUAGE_RULES: Record<string, keyof typeof rules> = {
+  af: 'oneIsOne',
+  am: 'upToOneIsOne',
+  ar: 'arabic',
+  az: 'oneIsOne',
+  be: 'eastSlavic',
+  bg: 'oneIsOne',
+  bn: 'upToOneIsOne',
+  br: 'breton',
+  bs: 'southSlavic',
+  ca: 'oneOther',
+  cs: 'czech',
+  cy: 'welsh',
+  da: 'oneOther',
+  de: 'oneOther',
+  el: 'oneIsOne',
+  en: 'oneOther',
+  es: 'spanish',
+  et: 'oneOther',
+  eu: 'oneIsOne',
+  fa: 'upToOneIsOne',
+  fi: 'oneOther',
+  fil: 'filipino',
+  fr: 'french',
+  ga: 'irish',
+  gd: 'scottishGaelic',
+  gl: 'oneOther',
+  gu: 'upToOneIsOne',
+  he: 'hebrew',
+  hi: 'upToOneIsOne',
+  hr: 'southSlavic',
+  hu: 'oneIsOne',
+  hy: 'zeroAndOneAreOne',
+  id: 'other',
+  is: 'icelandic',
+  it: 'oneOther',
+  ja: 'other',
+  ka: 'oneIsOne',
+  kk: 'oneIsOne',
+  km: 'other',
+  kn: 'upToOneIsOne',
+  ko: 'other',
+  ky: 'oneIsOne',
+  lo: 'other',
+  lt: 'lithuanian',
+  lv: 'latvian',
+  mk: 'macedonian',
+  ml: 'oneIsOne',
+  mn: 'oneIsOne',
+  mr: 'oneIsOne',
+  ms: 'other',
+  mt: 'maltese',
+  my: 'other',
+  nb: 'oneIsOne',
+  ne: 'oneIsOne',
+  nl: 'oneOther',
+  no: 'oneIsOne',
+  pa: 'zeroAndOneAreOne',
+  pl: 'polish',
+  ps: 'oneIsOne',
+  pt: 'portuguese',
+  ro: 'romanian',
+  ru: 'eastSlavic',
+  si: 'zeroAndOneAreOne',
+  sk: 'czech',
+  sl: 'slovenian',
+  sq: 'oneIsOne',
+  sr: 'southSlavic',
+  sv: 'oneOther',
+  sw: 'oneOther',
+  ta: 'oneIsOne',
+  te: 'oneIsOne',
+  th: 'other',
+  tl: 'filipino',
+  tr: 'oneIsOne',
+  uk: 'eastSlavic',
+  ur: 'oneOther',
+  uz: 'oneIsOne',
+  vi: 'other',
+  yue: 'other',
+  zh: 'other',
+  zu: 'upToOneIsOne',
+}
+
+/**
+ * Plural category of a number in a locale
+ * Unsupported languages use `one` for exactly 1 and `other` otherwise
+ */
+export function getPluralForm(count: number, locale: string): PluralCategory {
+  return ruleFor(locale).select(operands(count))
+}
+
+/**
+ * Plural categories a locale distinguishes, in CLDR order
+ */
+export function getPluralCategories(locale: string): PluralCategory[] {
+  return [...ruleFor(locale).categories]
+}
+
+/**
+ * Languages with built-in plural rules
+ */
+export function getSupportedLocales(): string[] {
+  return Object.keys(LANGUAGE_RULES)
+}
+
+/**
+ * Check whether a locale's language has built-in plural rules
+ */
+export function isLocaleSupported(locale: string): boolean {
+  return languageOf(locale) in LANGUAGE_RULES
+}
+
+function ruleFor(locale: string): PluralRule {
+  const name = LANGUAGE_RULES[languageOf(locale)]
+  return (name !== undefined ? rules[name] : undefined) ?? oneIsOne
+}
+
+function languageOf(locale: string): string {
+  return locale.split(/[-_]/)[0]!.toLowerCase()
+}
+
+function operands(count: number): PluralOperands {
+  const n = Math.abs(count)
+  const [integer, fraction = ''] = String(n).split('.') as [string, string?]
+  return {
+    n,
+    i: Number(integer),
+    v: fraction.length,
+    f: fraction === '' ? 0 : Number(fraction),
+  }
+}
+
+function between(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max
+}
@@ -16,6 +16,15 @@ export * from './transport/index.js'
 // Component Registry
 export * from './registry/index.js'
 
+// Surface Store
+export * from './surface/index.js'
+
+// Data Binding
+export * from './binding/index.js'
+
+// Streaming Parser & Structured Output
+export * from './parser/index.js'
+
 // Handlers
 export * from './handlers/index.js'
 
@@ -31,5 +40,14 @@ export * from './integrations/index.js'
 // Offline Support (Issue #55)
 export * from './offline/index.js'
 
+// CRDT Collaboration
+export * from './crdt/index.js'
+
+// Internationalization
+export * from './i18n/index.js'
+
+// Authorization Policies
+export * from './policy/index.js'
+
 // Version
 export const VERSION = '0.1.0-alpha.1'
@@ -0,0 +1,846 @@
+/**
+ * Email Template Renderer for A2UI
+ * Renders email templates to client-safe HTML and a plain-text alternative
+ * Issue #51
+ */
+
+import type {
+  EmailTemplate,
+  EmailBlock,
+  EmailTheme,
+  EmailStyles,
+  EmailColumnsBlock,
+  SocialLink,
+} from '../types/email-builder-components.js'
+import { DEFAULT_EMAIL_THEME, DEFAULT_DARK_EMAIL_THEME } from '../types/email-builder-components.js'
+
+/**
+ * Variable values used when rendering
+ */
+export type EmailVariableValues = Record<string, string | number | boolean>
+
+/**
+ * Email render options
+ */
+export interface EmailRenderOptions {
+  /** Variable values (template variable defaults fill the gaps) */
+  variables?: EmailVariableValues
+  /** Theme (default: template theme, then DEFAULT_EMAIL_THEME) */
+  theme?: EmailTheme
+  /** Colors used when the reader's client is in dark mode (default: DEFAULT_DARK_EMAIL_THEME) */
+  darkTheme?: EmailTheme
+  /** URL schemes allowed in links and images (default: http, https, mailto, tel) */
+  allowedSchemes?: string[]
+  /** Icon image URLs for social links, by platform */
+  socialIcons?: Partial<Record<SocialLink['platform'], string>>
+  /** Document language (default: 'en') */
+  lang?: string
+}
+
+/**
+ * Rendered email
+ */
+export interface RenderedEmail {
+  /** Subject with variables replaced */
+  subject: string
+  /** HTML body */
+  html: string
+  /** Plain-text alternative */
+  text: string
+}
+
+/**
+ * URL schemes allowed by default
+ */
+export const DEFAULT_ALLOWED_URL_SCHEMES = ['http', 'https', 'mailto', 'tel']
+
+const SOCIAL_LABELS: Record<SocialLink['platform'], string> = {
+  facebook: 'Facebook',
+  twitter: 'Twitter',
+  instagram: 'Instagram',
+  linkedin: 'LinkedIn',
+  youtube: 'YouTube',
+  github: 'GitHub',
+  custom: 'Link',
+}
+
+const HEADING_SIZES = ['32px', '26px', '22px', '18px', '16px', '14px']
+
+const MONOSPACE_FONT = 'Menlo, Consolas, "Courier New", monospace'
+
+/**
+ * Rendering state shared by all blocks of a template
+ */
+interface RenderContext {
+  theme: EmailTheme
+  variables: EmailVariableValues
+  allowedSchemes: string[]
+  socialIcons: Partial<Record<SocialLink['platform'], string>>
+}
+
+/**
+ * Render an email template
+ *
+ * Produces table-based markup with inlined styles that holds up in Outlook
+ * and webmail clients: text and variable values are HTML-escaped, URLs are
+ * limited to safe schemes, columns stack on small screens, and a
+ * `prefers-color-scheme` stylesheet switches to the dark theme when the
+ * template theme mode is `auto`.
+ *
+ * @example
+ * ```typescript
+ * const { subject, html, text } = renderEmailTemplate(template, {
+ *   variables: { firstName: 'Ada' },
+ * })
+ * ```
+ */
+export function renderEmailTemplate(
+  template: EmailTemplate,
+  options: EmailRenderOptions = {}
+): RenderedEmail {
+  const theme = options.theme ?? template.theme ?? DEFAULT_EMAIL_THEME
+  const darkTheme =
+    theme.mode === 'auto' ? (options.darkTheme ?? DEFAULT_DARK_EMAIL_THEME) : undefined
+
+  const context: RenderContext = {
+    theme,
+    variables: resolveVariables(template, options.variables),
+    allowedSchemes: options.allowedSchemes ?? DEFAULT_ALLOWED_URL_SCHEMES,
+    socialIcons: options.socialIcons ?? {},
+  }
+
+  const subject = interpolate(template.subject, context.variables)
+
+  return {
+    subject,
+    html: renderDocument(template, subject, darkTheme, context, options.lang ?? 'en'),
+    text: renderText(template.blocks, context).trim() + '\n',
+  }
+}
+
+/**
+ * Escape text for use in HTML content and quoted attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Return the URL if its scheme is allowed, otherwise undefined
+ * Relative URLs and fragments are allowed; control characters and
+ * whitespace used to disguise schemes are ignored.
+ */
+export function sanitizeUrl(
+  url: string,
+  allowedSchemes: string[] = DEFAULT_ALLOWED_URL_SCHEMES
+): string | undefined {
+  const trimmed = stripControlCharacters(url).trim()
+  if (!trimmed) return undefined
+
+  const scheme = /^([a-zA-Z][a-zA-Z0-9+.-]*):/.exec(trimmed.replace(/\s/g, ''))?.[1]
+  if (scheme && !allowedSchemes.includes(scheme.toLowerCase())) {
+    return undefined
+  }
+
+  return trimmed
+}
+
+/**
+ * Remove C0 control characters and DEL
+ */
+function stripControlCharacters(value: string): string {
+  return Array.from(value)
+    .filter((char) => char.charCodeAt(0) > 0x1f && char.charCodeAt(0) !== 0x7f)
+    .join('')
+}
+
+/**
+ * Helper to convert template to HTML
+ * See `renderEmailTemplate` for the plain-text alternative and render options.
+ */
+export function templateToHtml(template: EmailTemplate, variables?: EmailVariableValues): string {
+  return renderEmailTemplate(template, { variables }).html
+}
+
+/**
+ * Tags kept by sanitizeEmailHtml; other tags are removed but their text is kept
+ */
+const ALLOWED_HTML_TAGS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'blockquote',
+  'br',
+  'center',
+  'code',
+  'div',
+  'em',
+  'font',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+  'i',
+  'img',
+  'li',
+  'ol',
+  'p',
+  'pre',
+  's',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+  'u',
+  'ul',
+])
+
+/**
+ * Attributes kept on allowed tags
+ */
+const ALLOWED_HTML_ATTRIBUTES = new Set([
+  'align',
+  'alt',
+  'bgcolor',
+  'border',
+  'cellpadding',
+  'cellspacing',
+  'class',
+  'color',
+  'colspan',
+  'dir',
+  'face',
+  'height',
+  'href',
+  'lang',
+  'rel',
+  'role',
+  'rowspan',
+  'size',
+  'src',
+  'style',
+  'target',
+  'title',
+  'valign',
+  'width',
+])
+
+const URL_ATTRIBUTES = new Set(['href', 'src'])
+
+/**
+ * Elements removed together with their content
+ */
+const DROPPED_ELEMENTS = new Set([
+  'embed',
+  'form',
+  'iframe',
+  'math',
+  'noscript',
+  'object',
+  'script',
+  'style',
+  'svg',
+  'template',
+  'textarea',
+  'title',
+])
+
+/**
+ * Comments, tags, text runs and stray `<` characters
+ */
+const HTML_TOKEN = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)([^<>]*)(?:>|$)|[^<]+|</g
+
+const UNSAFE_STYLE = /expression\s*\(|javascript:|url\s*\(|behavior\s*:|-moz-binding/i
+
+/**
+ * Reduce author-supplied HTML to an allow-list of tags and attributes
+ * Links and images keep only URLs with allowed schemes, and inline styles
+ * that could load or run code are dropped. Intended for `html` blocks
+ * written in the editor, not for untrusted input.
+ */
+export function sanitizeEmailHtml(
+  html: string,
+  allowedSchemes: string[] = DEFAULT_ALLOWED_URL_SCHEMES
+): string {
+  const tokens = new RegExp(HTML_TOKEN.source, 'g')
+  let result = ''
+
+  // Output is built from tokens of the input only, so removing a tag can
+  // never join its neighbours into a new one
+  for (let match = tokens.exec(html); match !== null; match = tokens.exec(html)) {
+    const [token, slash, rawName, rest = ''] = match
+    if (rawName === undefined) {
+      if (!token.startsWith('<!--')) result += token.replace(/</g, '&lt;').replace(/>/g, '&gt;')
+      continue
+    }
+
+    const name = rawName.toLowerCase()
+    if (DROPPED_ELEMENTS.has(name)) {
+      if (!slash) tokens.lastIndex = closingTagEnd(html, name, tokens.lastIndex)
+    } else if (ALLOWED_HTML_TAGS.has(name)) {
+      result += slash
+        ? `</${name}>`
+        : `<${name}${sanitizeAttributes(rest, allowedSchemes)}${/\/\s*$/.test(rest) ? ' /' : ''}>`
+    }
+  }
+  return result
+}
+
+/**
+ * Index after the closing tag of an element, or the end of the input
+ */
+function closingTagEnd(html: string, name: string, from: number): number {
+  const closing = new RegExp(`</${name}(?=[\\s/>]|$)[^>]*(?:>|$)`, 'gi')
+  closing.lastIndex = from
+  return closing.exec(html) ? closing.lastIndex : html.length
+}
+
+/**
+ * Allowed attributes of a tag, re-quoted and escaped
+ */
+function sanitizeAttributes(source: string, allowedSchemes: string[]): string {
+  let result = ''
+  const pattern = /([^\s"'<>/=]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'=<>`]+))?/g
+
+  for (const [, rawName, rawValue] of source.matchAll(pattern)) {
+    const name = rawName!.toLowerCase()
+    if (!ALLOWED_HTML_ATTRIBUTES.has(name)) continue
+
+    let value = decodeEntities((rawValue ?? '').replace(/^["']|["']$/g, ''))
+    if (URL_ATTRIBUTES.has(name)) {
+      value = sanitizeUrl(value, allowedSchemes) ?? '#'
+    } else if (name === 'style' && UNSAFE_STYLE.test(value)) {
+      continue
+    }
+    result += ` ${name}="${escapeHtml(value)}"`
+  }
+  return result
+}
+
+/**
+ * Template variable defaults overridden by the given values
+ */
+function resolveVariables(
+  template: EmailTemplate,
+  values: EmailVariableValues = {}
+): EmailVariableValues {
+  const resolved: EmailVariableValues = {}
+  for (const variable of template.variables ?? []) {
+    if (variable.defaultValue !== undefined) {
+      resolved[variable.id] = variable.defaultValue
+    }
+  }
+  return { ...resolved, ...values }
+}
+
+/**
+ * Replace `{{name}}` placeholders; unknown variables are left in place
+ */
+function interpolate(
+  text: string,
+  variables: EmailVariableValues,
+  encode: (value: string) => string = (value): string => value
+): string {
+  return text.replace(/\{\{\s*([a-zA-Z0-9_.-]+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? encode(String(variables[name])) : match
+  )
+}
+
+/**
+ * Text with variables replaced, escaped for HTML
+ */
+function text(value: string, context: RenderContext): string {
+  return escapeHtml(interpolate(value, context.variables))
+}
+
+/**
+ * URL with variables replaced, or undefined when unsafe
+ * A URL that is a single variable takes its value as is; variables inside a
+ * URL are percent-encoded.
+ */
+function url(value: string | undefined, context: RenderContext): string | undefined {
+  if (!value) return undefined
+  const resolved = /^\s*\{\{[^}]+\}\}\s*$/.test(value)
+    ? interpolate(value.trim(), context.variables)
+    : interpolate(value, context.variables, encodeURIComponent)
+  return sanitizeUrl(resolved, context.allowedSchemes)
+}
+
+function renderDocument(
+  template: EmailTemplate,
+  subject: string,
+  darkTheme: EmailTheme | undefined,
+  context: RenderContext,
+  lang: string
+): string {
+  const { theme } = context
+  const colorScheme = darkTheme ? 'light dark' : theme.mode === 'dark' ? 'dark' : 'light'
+  const maxWidth = theme.containerMaxWidth ?? '600px'
+  const outlookWidth = parseInt(maxWidth, 10) || 600
+  const preheader = template.preheader ? interpolate(template.preheader, context.variables) : ''
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}" xmlns="http://www.w3.org/1999/xhtml" xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="X-UA-Compatible" content="IE=edge">
+  <meta name="x-apple-disable-message-reformatting">
+  <meta name="color-scheme" content="${colorScheme}">
+  <meta name="supported-color-schemes" content="${colorScheme}">
+  <title>${escapeHtml(subject)}</title>
+  <!--[if mso]>
+  <noscript><xml><o:OfficeDocumentSettings><o:PixelsPerInch>96</o:PixelsPerInch></o:OfficeDocumentSettings></xml></noscript>
+  <![endif]-->
+  <style>
+    body { margin: 0; padding: 0; width: 100%; -webkit-text-size-adjust: 100%; -ms-text-size-adjust: 100%; }
+    table, td { border-collapse: collapse; mso-table-lspace: 0pt; mso-table-rspace: 0pt; }
+    img { border: 0; outline: none; text-decoration: none; -ms-interpolation-mode: bicubic; }
+    a { color: ${cssValue(theme.linkColor)}; }
+    @media only screen and (max-width: ${outlookWidth + 20}px) {
+      .a2ui-container { width: 100% !important; }
+      .a2ui-stack { display: block !important; width: 100% !important; max-width: 100% !important; }
+    }${darkTheme ? darkModeCss(darkTheme) : ''}
+  </style>
+</head>
+<body class="a2ui-body" style="${style({ margin: '0', padding: '0', backgroundColor: theme.backgroundColor, color: theme.textColor, fontFamily: theme.fontFamily })}">
+${preheader ? `  <div style="display: none; max-height: 0; overflow: hidden; mso-hide: all;">${escapeHtml(preheader)}</div>\n` : ''}  <table role="presentation" class="a2ui-body" width="100%" cellpadding="0" cellspacing="0" border="0" style="${style({ backgroundColor: theme.backgroundColor })}">
+    <tr>
+      <td align="center" style="padding: 20px 10px;">
+        <!--[if mso]><table role="presentation" width="${outlookWidth}" cellpadding="0" cellspacing="0" border="0"><tr><td><![endif]-->
+        <table role="presentation" class="a2ui-container" width="100%" cellpadding="0" cellspacing="0" border="0" style="${style({ maxWidth, width: '100%', color: theme.textColor, fontFamily: theme.fontFamily })}">
+${renderRows(template.blocks, context, '          ')}
+        </table>
+        <!--[if mso]></td></tr></table><![endif]-->
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`
+}
+
+/**
+ * Dark-mode overrides for clients that support prefers-color-scheme,
+ * plus Outlook.com's `data-ogsc` attributes
+ */
+function darkModeCss(dark: EmailTheme): string {
+  const rules = (prefix: string): string => `
+      ${prefix}.a2ui-body, ${prefix}.a2ui-container { background-color: ${cssValue(dark.backgroundColor)} !important; color: ${cssValue(dark.textColor)} !important; }
+      ${prefix}.a2ui-text { color: ${cssValue(dark.textColor)} !important; }
+      ${prefix}.a2ui-muted { color: ${cssValue(dark.mutedTextColor ?? DEFAULT_DARK_EMAIL_THEME.mutedTextColor ?? dark.textColor)} !important; }
+      ${prefix}a { color: ${cssValue(dark.linkColor)} !important; }
+      ${prefix}.a2ui-button { background-color: ${cssValue(dark.button?.backgroundColor ?? dark.primaryColor)} !important; color: ${cssValue(dark.button?.textColor ?? dark.backgroundColor)} !important; }
+      ${prefix}.a2ui-divider { border-top-color: ${cssValue(dark.borderColor)} !important; }`
+
+  return `
+    @media (prefers-color-scheme: dark) {${rules('')}
+    }${rules('[data-ogsc] ')}`
+}
+
+/**
+ * One table row per visible block
+ */
+function renderRows(blocks: EmailBlock[], context: RenderContext, indent: string): string {
+  return blocks
+    .filter((block) => block.visible !== false)
+    .map((block) => {
+      const align =
+        block.styles?.textAlign && block.styles.textAlign !== 'justify'
+          ? block.styles.textAlign
+          : 'left'
+      const padding = block.type === 'columns' ? '0' : '0 20px'
+      return `${indent}<tr>\n${indent}  <td align="${align}" style="padding: ${padding};">${renderBlock(block, context)}</td>\n${indent}</tr>`
+    })
+    .join('\n')
+}
+
+function renderBlock(block: EmailBlock, context: RenderContext): string {
+  const { theme } = context
+  const textStyle = { color: theme.textColor, fontFamily: theme.fontFamily }
+
+  switch (block.type) {
+    case 'text':
+      if (block.html) {
+        return `<div class="a2ui-text" style="${style({ margin: '0 0 16px', fontSize: '16px', lineHeight: '1.5', ...textStyle }, block.styles)}">${sanitizeEmailHtml(interpolate(block.html, context.variables, escapeHtml), context.allowedSchemes)}</div>`
+      }
+      return `<p class="a2ui-text" style="${style({ margin: '0 0 16px', fontSize: '16px', lineHeight: '1.5', ...textStyle }, block.styles)}">${text(block.content, context).replace(/\r?\n/g, '<br>')}</p>`
+
+    case 'heading': {
+      const level = Math.min(Math.max(Math.round(block.level) || 1, 1), 6)
+      return `<h${level} class="a2ui-text" style="${style({ margin: '0 0 16px', fontSize: HEADING_SIZES[level - 1], lineHeight: '1.25', fontWeight: 'bold', ...textStyle }, block.styles)}">${text(block.content, context)}</h${level}>`
+    }
+
+    case 'image': {
+      const src = url(block.src, context)
+      if (!src) return ''
+      const image = renderImage(
+        src,
+        interpolate(block.alt, context.variables),
+        block.width,
+        block.height,
+        block.styles
+      )
+      return linkTo(url(block.href, context), image, block.target)
+    }
+
+    case 'button':
+      return renderButton(block.text, url(block.href, context), block.target, block, context)
+
+    case 'divider': {
+      const thickness = toPx(block.height ?? 1)
+      return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin: 20px 0;"><tr><td class="a2ui-divider" style="${style({ borderTop: `${thickness} solid ${block.color ?? theme.borderColor}`, fontSize: '0', lineHeight: '0', height: '1px' }, block.styles)}">&nbsp;</td></tr></table>`
+    }
+
+    case 'spacer': {
+      const height = toPx(block.height)
+      return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"><tr><td height="${escapeHtml(String(parseInt(height, 10) || 0))}" style="${style({ height, fontSize: '0', lineHeight: '0' }, block.styles)}">&nbsp;</td></tr></table>`
+    }
+
+    case 'social':
+      return renderSocialLinks(
+        block.links,
+        block.iconSize ?? 32,
+        block.spacing ?? 8,
+        block.styles,
+        context
+      )
+
+    case 'video': {
+      const thumbnail = url(block.thumbnail, context)
+      if (!thumbnail) return ''
+      const image = renderImage(
+        thumbnail,
+        interpolate(block.alt, context.variables),
+        block.width,
+        block.height,
+        block.styles
+      )
+      return linkTo(url(block.src, context), image, '_blank')
+    }
+
+    case 'code': {
+      const lines = block.code.replace(/\r\n/g, '\n').split('\n')
+      const width = String(lines.length).length
+      const code = block.lineNumbers
+        ? lines.map((line, index) => `${String(index + 1).padStart(width)}  ${line}`).join('\n')
+        : lines.join('\n')
+      const language = block.language ? ` class="language-${escapeHtml(block.language)}"` : ''
+      return `<pre style="${style({ margin: '0 0 16px', padding: '16px', backgroundColor: theme.mode === 'dark' ? '#0b1220' : '#f3f4f6', color: theme.textColor, border: `1px solid ${theme.borderColor}`, borderRadius: '6px', fontFamily: MONOSPACE_FONT, fontSize: '13px', lineHeight: '1.5', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }, block.styles)}"><code${language}>${escapeHtml(code)}</code></pre>`
+    }
+
+    case 'html':
+      return sanitizeEmailHtml(
+        interpolate(block.html, context.variables, escapeHtml),
+        context.allowedSchemes
+      )
+
+    case 'columns':
+      return renderColumns(block, context)
+
+    case 'footer': {
+      const mutedColor = theme.mutedTextColor ?? DEFAULT_EMAIL_THEME.mutedTextColor
+      const muted = {
+        color: mutedColor,
+        fontFamily: theme.fontFamily,
+        fontSize: '12px',
+        lineHeight: '1.5',
+        margin: '0 0 8px',
+      }
+      const parts = [
+        block.content &&
+          `<p class="a2ui-muted" style="${style(muted)}">${text(block.content, context).replace(/\r?\n/g, '<br>')}</p>`,
+        (block.companyName || block.companyAddress) &&
+          `<p class="a2ui-muted" style="${style(muted)}">${[block.companyName, block.companyAddress]
+            .filter((part): part is string => Boolean(part))
+            .map((part) => text(part, context))
+            .join('<br>')}</p>`,
+        block.socialLinks?.length &&
+          renderSocialLinks(block.socialLinks, 24, 8, undefined, context),
+      ]
+      const unsubscribe = url(block.unsubscribeLink, context)
+      if (unsubscribe) {
+        parts.push(
+          `<p class="a2ui-muted" style="${style(muted)}"><a href="${escapeHtml(unsubscribe)}" target="_blank" style="${style({ color: mutedColor, textDecoration: 'underline' })}">Unsubscribe</a></p>`
+        )
+      }
+      return `<div style="${style({ padding: '16px 0', textAlign: 'center' }, block.styles)}">${parts.filter(Boolean).join('')}</div>`
+    }
+
+    default:
+      return ''
+  }
+}
+
+function renderImage(
+  src: string,
+  alt: string,
+  width: string | number | undefined,
+  height: string | number | undefined,
+  styles: EmailStyles | undefined
+): string {
+  const widthAttr =
+    width !== undefined && /^\d+(px)?$/.test(String(width))
+      ? ` width="${parseInt(String(width), 10)}"`
+      : ''
+  const heightAttr =
+    height !== undefined && /^\d+(px)?$/.test(String(height))
+      ? ` height="${parseInt(String(height), 10)}"`
+      : ''
+  return `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}"${widthAttr}${heightAttr} style="${style({ display: 'block', border: '0', outline: 'none', maxWidth: '100%', height: 'auto', width: width !== undefined ? toPx(width) : undefined }, styles)}">`
+}
+
+/**
+ * Bulletproof button: the cell carries the color so Outlook, which ignores
+ * padding on links, still shows it
+ */
+function renderButton(
+  label: string,
+  href: string | undefined,
+  target: string | undefined,
+  block: { backgroundColor?: string; textColor?: string; styles?: EmailStyles },
+  context: RenderContext
+): string {
+  const { theme } = context
+  const background = block.backgroundColor ?? theme.button?.backgroundColor ?? theme.primaryColor
+  const color = block.textColor ?? theme.button?.textColor ?? '#ffffff'
+  const radius = theme.button?.borderRadius ?? '6px'
+  const align =
+    block.styles?.textAlign === 'center' || block.styles?.textAlign === 'right'
+      ? block.styles.textAlign
+      : 'left'
+
+  return `<table role="presentation" cellpadding="0" cellspacing="0" border="0" align="${align}" style="margin: 0 0 16px;"><tr><td class="a2ui-button" align="center" bgcolor="${escapeHtml(cssValue(background))}" style="${style({ borderRadius: radius, backgroundColor: background })}"><a href="${escapeHtml(href ?? '#')}" target="${target === '_self' ? '_self' : '_blank'}" class="a2ui-button" style="${style({ display: 'inline-block', padding: '12px 24px', backgroundColor: background, color, borderRadius: radius, fontFamily: theme.fontFamily, fontSize: '16px', fontWeight: 'bold', textDecoration: 'none' }, omit(block.styles, 'textAlign'))}">${text(label, context)}</a></td></tr></table>`
+}
+
+function renderSocialLinks(
+  links: SocialLink[],
+  iconSize: string | number,
+  spacing: string | number,
+  styles: EmailStyles | undefined,
+  context: RenderContext
+): string {
+  const size = parseInt(String(iconSize), 10) || 32
+  const cells = links
+    .map((link) => {
+      const href = url(link.url, context)
+      if (!href) return ''
+      const label = link.alt ?? SOCIAL_LABELS[link.platform] ?? link.platform
+      const icon = url(link.icon ?? context.socialIcons[link.platform], context)
+      const content = icon
+        ? `<img src="${escapeHtml(icon)}" alt="${escapeHtml(label)}" width="${size}" height="${size}" style="display: block; border: 0;">`
+        : escapeHtml(label)
+      return `<td style="padding: 0 ${toPx(spacing)} 0 0;"><a href="${escapeHtml(href)}" target="_blank" style="${style({ color: context.theme.linkColor, textDecoration: 'none' })}">${content}</a></td>`
+    })
+    .join('')
+
+  return `<table role="presentation" cellpadding="0" cellspacing="0" border="0" style="${style({ margin: '0 auto 16px' }, styles)}"><tr>${cells}</tr></table>`
+}
+
+/**
+ * Columns side by side, stacked on narrow screens unless `stackOnMobile` is false
+ */
+function renderColumns(block: EmailColumnsBlock, context: RenderContext): string {
+  const stack = block.stackOnMobile !== false
+  const cells = block.columns
+    .map((column) => {
+      const width = columnWidth(column.width, block.columns.length)
+      return `<td class="a2ui-column${stack ? ' a2ui-stack' : ''}" width="${escapeHtml(width)}" valign="top" style="${style({ width, verticalAlign: 'top' }, column.styles)}"><table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+${renderRows(column.blocks, context, '  ')}
+</table></td>`
+    })
+    .join('')
+
+  return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="${style({}, block.styles)}"><tr>${cells}</tr></table>`
+}
+
+/**
+ * Column width as a percentage or pixel value ('1/3' becomes '33.33%')
+ */
+function columnWidth(width: string, count: number): string {
+  const fraction = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(width)
+  if (fraction && Number(fraction[2]) > 0) {
+    return `${Math.round((Number(fraction[1]) / Number(fraction[2])) * 10000) / 100}%`
+  }
+  if (/^\d+(\.\d+)?(%|px)$/.test(width.trim())) {
+    return width.trim()
+  }
+  return `${Math.round(10000 / Math.max(count, 1)) / 100}%`
+}
+
+function linkTo(href: string | undefined, content: string, target: string | undefined): string {
+  if (!href) return content
+  return `<a href="${escapeHtml(href)}" target="${target === '_self' ? '_self' : '_blank'}">${content}</a>`
+}
+
+/**
+ * Plain-text alternative, one paragraph per block
+ */
+function renderText(blocks: EmailBlock[], context: RenderContext): string {
+  return blocks
+    .filter((block) => block.visible !== false)
+    .map((block) => blockToText(block, context))
+    .filter((part) => part.trim() !== '')
+    .join('\n\n')
+}
+
+function blockToText(block: EmailBlock, context: RenderContext): string {
+  const value = (input: string): string => interpolate(input, context.variables)
+  const link = (label: string, href: string | undefined): string => {
+    const safe = url(href, context)
+    return safe ? `${label}: ${safe}` : label
+  }
+
+  switch (block.type) {
+    case 'text':
+      return block.html ? htmlToText(value(block.html)) : value(block.content)
+    case 'heading': {
+      const heading = value(block.content)
+      return block.level <= 2
+        ? `${heading}\n${(block.level === 1 ? '=' : '-').repeat(heading.length)}`
+        : heading
+    }
+    case 'image':
+      return block.href ? link(value(block.alt), block.href) : value(block.alt)
+    case 'button':
+      return link(value(block.text), block.href)
+    case 'divider':
+      return '----------------------------------------'
+    case 'spacer':
+      return ''
+    case 'social':
+      return socialToText(block.links, context)
+    case 'video':
+      return link(value(block.alt) || 'Watch the video', block.src)
+    case 'code':
+      return block.code
+    case 'html':
+      return htmlToText(value(block.html))
+    case 'columns':
+      return block.columns
+        .map((column) => renderText(column.blocks, context))
+        .filter(Boolean)
+        .join('\n\n')
+    case 'footer':
+      return [
+        block.content && value(block.content),
+        [block.companyName, block.companyAddress]
+          .filter(Boolean)
+          .map((part) => value(part as string))
+          .join('\n'),
+        block.socialLinks && socialToText(block.socialLinks, context),
+        block.unsubscribeLink &&
+          url(block.unsubscribeLink, context) &&
+          link('Unsubscribe', block.unsubscribeLink),
+      ]
+        .filter(Boolean)
+        .join('\n\n')
+    default:
+      return ''
+  }
+}
+
+function socialToText(links: SocialLink[], context: RenderContext): string {
+  return links
+    .map((socialLink) => {
+      const href = url(socialLink.url, context)
+      return href
+        ? `${socialLink.alt ?? SOCIAL_LABELS[socialLink.platform] ?? socialLink.platform}: ${href}`
+        : ''
+    })
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Rough text rendering of HTML: keeps line breaks and link targets
+ */
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, '')
+      .replace(
+        /<a\b[^>]*\shref\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi,
+        (_match, href: string, label: string) => {
+          const inner = label.replace(/<[^>]+>/g, '').trim()
+          return inner && inner !== href ? `${inner} (${href})` : href
+        }
+      )
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6]|li|tr|table)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Inline style attribute value from base declarations and block styles
+ * Block styles win; values are stripped of characters that could end the
+ * declaration or the attribute.
+ */
+function style(base: Record<string, string | number | undefined>, styles?: EmailStyles): string {
+  const { custom, ...rest } = styles ?? {}
+  const declarations: Record<string, string | number | undefined> = { ...base, ...rest, ...custom }
+
+  return escapeHtml(
+    Object.entries(declarations)
+      .filter(
+        (entry): entry is [string, string | number] => entry[1] !== undefined && entry[1] !== ''
+      )
+      .filter(([property]) => /^[a-zA-Z-]+$/.test(property))
+      .map(([property, value]) => `${camelToKebab(property)}: ${cssValue(value)}`)
+      .filter((declaration) => !declaration.endsWith(': '))
+      .join('; ')
+  )
+}
+
+/**
+ * CSS value without declaration breakers or script hooks
+ */
+function cssValue(value: string | number): string {
+  const css = String(value).replace(/[<>{};\\]/g, '')
+  return /expression\s*\(|javascript:|url\s*\(/i.test(css) ? '' : css.trim()
+}
+
+function toPx(value: string | number): string {
+  return typeof value === 'number' || /^\d+(\.\d+)?$/.test(value) ? `${value}px` : value
+}
+
+function omit(styles: EmailStyles | undefined, key: keyof EmailStyles): EmailStyles | undefined {
+  if (!styles) return styles
+  const rest = { ...styles }
+  delete rest[key]
+  return rest
+}
+
+function camelToKebab(str: string): string {
+  return str.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()
+}
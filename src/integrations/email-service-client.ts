@@ -9,12 +9,15 @@ import type {
   EmailProvider,
   EmailRecipient,
   EmailSchedule,
+} from '../types/email-builder-components.js'
+import type {
   EmailSendResult,
   EmailTestResult,
   EmailAnalytics,
   EmailTemplateValidation,
-} from '../types/index.js'
-import { templateToHtml, isValidEmail } from '../types/email-builder-components.js'
+} from '../types/email-builder-messages.js'
+import { isValidEmail } from '../types/email-builder-components.js'
+import { renderEmailTemplate } from './email-renderer.js'
 
 /**
  * Email service client configuration
@@ -123,25 +126,30 @@ export class EmailServiceClient {
 
     // Handle template
     if (typeof options.template === 'string') {
-      body.templateId = options.template
+      body['templateId'] = options.template
       // For template ID, let server generate HTML
     } else {
-      body.template = options.template
+      body['template'] = options.template
       // Only generate HTML if template has required properties
-      if (options.template && typeof options.template === 'object' && 'blocks' in options.template && 'metadata' in options.template) {
-        body.html = templateToHtml(options.template as any, options.variables)
+      if (options.template && 'blocks' in options.template && 'metadata' in options.template) {
+        const rendered = renderEmailTemplate(options.template, {
+          variables: options.variables,
+        })
+        body['subject'] = rendered.subject
+        body['html'] = rendered.html
+        body['text'] = rendered.text
       }
     }
 
     // Add optional fields
     if (options.variables) {
-      body.variables = options.variables
+      body['variables'] = options.variables
     }
     if (options.schedule) {
-      body.schedule = options.schedule
+      body['schedule'] = options.schedule
     }
     if (options.tracking) {
-      body.tracking = options.tracking
+      body['tracking'] = options.tracking
     }
 
     // Send request
@@ -162,13 +170,17 @@ export class EmailServiceClient {
       throw new Error(`Invalid test email address: ${options.testEmail}`)
     }
 
-    // Generate HTML
-    const html = templateToHtml(options.template, options.variables)
+    // Generate HTML and plain text
+    const { subject, html, text } = renderEmailTemplate(options.template, {
+      variables: options.variables,
+    })
 
     // Prepare request body
     const body = {
       template: options.template,
+      subject,
       html,
+      text,
       testEmail: options.testEmail,
       variables: options.variables,
       provider: options.provider || this.config.defaultProvider,
@@ -214,12 +226,15 @@ export class EmailServiceClient {
    * Generate preview
    */
   async generatePreview(options: GeneratePreviewOptions): Promise<{ html: string; text?: string }> {
-    const html = templateToHtml(options.template, options.variables)
+    const { html, text } = renderEmailTemplate(options.template, {
+      variables: options.variables,
+    })
 
     // Prepare request body
     const body = {
       template: options.template,
       html,
+      text,
       variables: options.variables,
       device: options.device || 'desktop',
     }
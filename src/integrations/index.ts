@@ -12,3 +12,37 @@ export {
   type GeneratePreviewOptions,
   type RecipientsValidationResult,
 } from './email-service-client.js'
+
+export {
+  renderEmailTemplate,
+  templateToHtml,
+  escapeHtml,
+  sanitizeUrl,
+  sanitizeEmailHtml,
+  DEFAULT_ALLOWED_URL_SCHEMES,
+  type EmailRenderOptions,
+  type EmailVariableValues,
+  type RenderedEmail,
+} from './email-renderer.js'
+
+export {
+  StripeWebhookHandler,
+  StripeWebhookError,
+  verifyStripeSignature,
+  constructStripeEvent,
+  isStripeEvent,
+  mapStripeEvent,
+  type StripeWebhookErrorCode,
+  type StripeEvent,
+  type StripeEventSubscription,
+  type StripeEventInvoice,
+  type StripeEventPaymentIntent,
+  type StripeEventPaymentMethod,
+  type StripeEventCard,
+  type StripeBillingTopic,
+  type StripeBillingMessage,
+  type StripeBillingUpdate,
+  type StripeSignatureOptions,
+  type StripeWebhookHandlerOptions,
+  type StripeWebhookResult,
+} from './stripe-webhooks.js'
@@ -590,6 +590,8 @@ export function formatStripeError(errorCode: string): string {
     invalid_number: 'Invalid card number. Please check your card details.',
     invalid_expiry_month: 'Invalid expiry month. Please check your card details.',
     invalid_expiry_year: 'Invalid expiry year. Please check your card details.',
+    invoice_payment_failed:
+      'We could not collect payment for your latest invoice. Please update your payment method.',
   }
 
   return (
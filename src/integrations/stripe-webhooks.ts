@@ -0,0 +1,714 @@
+/**
+ * Stripe Webhook Ingestion
+ *
+ * Verifies Stripe webhook deliveries and turns subscription, invoice,
+ * payment method and payment intent events into A2UI billing messages
+ * and data model updates. Uses WebCrypto, so it runs wherever the
+ * rest of the library does.
+ */
+
+import type { BillingHandler } from '../handlers/billing-handler.js'
+import type {
+  SubscriptionUpdatedMessage,
+  InvoiceCreatedMessage,
+  InvoicePaidMessage,
+  PaymentSuccessMessage,
+  PaymentFailedMessage,
+  PaymentMethodAddedMessage,
+  PaymentMethodErrorMessage,
+} from '../types/billing-messages.js'
+import type { PaymentMethodType } from '../types/billing-components.js'
+import type { DataUpdate } from '../types/protocol.js'
+import { formatStripeError } from './stripe-integration.js'
+
+/**
+ * Stripe webhook error codes
+ */
+export type StripeWebhookErrorCode =
+  | 'MISSING_SIGNATURE'
+  | 'INVALID_SIGNATURE'
+  | 'TIMESTAMP_OUTSIDE_TOLERANCE'
+  | 'INVALID_PAYLOAD'
+
+/**
+ * Stripe webhook error class
+ */
+export class StripeWebhookError extends Error {
+  readonly code: StripeWebhookErrorCode
+
+  constructor(code: StripeWebhookErrorCode, message: string) {
+    super(message)
+    this.name = 'StripeWebhookError'
+    this.code = code
+  }
+}
+
+/**
+ * Stripe event envelope as delivered to a webhook endpoint
+ */
+export interface StripeEvent<T = Record<string, unknown>> {
+  id: string
+  type: string
+  /** Creation time in seconds since the epoch */
+  created: number
+  livemode?: boolean
+  data: {
+    object: T
+    previous_attributes?: Partial<T>
+  }
+}
+
+/**
+ * Subscription object in `customer.subscription.*` events
+ */
+export interface StripeEventSubscription {
+  id: string
+  customer: string
+  status:
+    | 'active'
+    | 'canceled'
+    | 'past_due'
+    | 'unpaid'
+    | 'trialing'
+    | 'incomplete'
+    | 'incomplete_expired'
+    | 'paused'
+  items: {
+    data: Array<{
+      id: string
+      price: {
+        id: string
+        nickname?: string | null
+        recurring?: { interval: string } | null
+      }
+      quantity?: number
+      current_period_end?: number
+    }>
+  }
+  current_period_end?: number
+  cancel_at?: number | null
+}
+
+/**
+ * Invoice object in `invoice.*` events
+ */
+export interface StripeEventInvoice {
+  id: string
+  customer: string
+  number?: string | null
+  status: 'draft' | 'open' | 'paid' | 'void' | 'uncollectible'
+  amount_due: number
+  amount_paid: number
+  currency: string
+  created: number
+  due_date?: number | null
+  hosted_invoice_url?: string | null
+  invoice_pdf?: string | null
+  payment_intent?: string | null
+}
+
+/**
+ * Payment intent object in `payment_intent.*` events
+ */
+export interface StripeEventPaymentIntent {
+  id: string
+  customer?: string | null
+  amount: number
+  amount_received?: number
+  currency: string
+  status: string
+  /** Set when the intent pays an invoice; the invoice events report those */
+  invoice?: string | null
+  last_payment_error?: {
+    code?: string
+    decline_code?: string
+    message?: string
+  } | null
+}
+
+/**
+ * Payment method object in `payment_method.*` events
+ */
+export interface StripeEventPaymentMethod {
+  id: string
+  customer?: string | null
+  type: string
+  card?: {
+    brand: string
+    last4: string
+    exp_month: number
+    exp_year: number
+  }
+}
+
+/**
+ * Card object in `customer.source.expiring` events
+ */
+export interface StripeEventCard {
+  id: string
+  customer?: string | null
+  brand: string
+  last4: string
+  exp_month: number
+  exp_year: number
+}
+
+/**
+ * Billing area an event belongs to, used to pick the components it updates
+ */
+export type StripeBillingTopic = 'subscription' | 'invoice' | 'paymentMethod' | 'payment'
+
+type WithoutComponentId<T> = T extends unknown ? Omit<T, 'componentId'> : never
+
+/**
+ * Billing message produced from a Stripe event, addressed once per component
+ */
+export type StripeBillingMessage = WithoutComponentId<
+  | SubscriptionUpdatedMessage
+  | InvoiceCreatedMessage
+  | InvoicePaidMessage
+  | PaymentSuccessMessage
+  | PaymentFailedMessage
+  | PaymentMethodAddedMessage
+  | PaymentMethodErrorMessage
+>
+
+/**
+ * What a Stripe event changes for a customer's billing components
+ */
+export interface StripeBillingUpdate {
+  topic: StripeBillingTopic
+  /** Stripe customer the event belongs to */
+  customerId: string
+  /** Message to send to each affected component */
+  message?: StripeBillingMessage
+  /** Data model updates, relative to each component's data path */
+  updates: DataUpdate[]
+}
+
+/**
+ * Signature verification options
+ */
+export interface StripeSignatureOptions {
+  /** Maximum difference between the signature timestamp and now, in seconds (default: 300) */
+  tolerance?: number
+  /** Current time in seconds since the epoch (default: Date.now()) */
+  now?: number
+}
+
+const DEFAULT_TOLERANCE = 300
+const DEFAULT_MAX_REMEMBERED_EVENTS = 10000
+
+/**
+ * Verify a `Stripe-Signature` header against the raw request body
+ *
+ * The body must be exactly what Stripe sent; re-serialized JSON will not match.
+ */
+export async function verifyStripeSignature(
+  payload: string | Uint8Array,
+  header: string | null | undefined,
+  secret: string,
+  options: StripeSignatureOptions = {}
+): Promise<void> {
+  if (!header) {
+    throw new StripeWebhookError('MISSING_SIGNATURE', 'Missing Stripe-Signature header')
+  }
+
+  let timestamp: number | undefined
+  const signatures: ArrayBuffer[] = []
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=')
+    const key = part.slice(0, separator).trim()
+    const value = part.slice(separator + 1).trim()
+    if (key === 't' && /^\d+$/.test(value)) {
+      timestamp = Number(value)
+    } else if (key === 'v1') {
+      const signature = decodeHex(value)
+      if (signature) signatures.push(signature)
+    }
+  }
+
+  if (timestamp === undefined || signatures.length === 0) {
+    throw new StripeWebhookError(
+      'MISSING_SIGNATURE',
+      'Stripe-Signature header has no timestamp or v1 signature'
+    )
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000)
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE
+  if (Math.abs(now - timestamp) > tolerance) {
+    throw new StripeWebhookError(
+      'TIMESTAMP_OUTSIDE_TOLERANCE',
+      `Stripe signature timestamp is more than ${tolerance}s from now`
+    )
+  }
+
+  const encoder = new TextEncoder()
+  const body = typeof payload === 'string' ? encoder.encode(payload) : payload
+  const prefix = encoder.encode(`${timestamp}.`)
+  const signed = new Uint8Array(prefix.length + body.length)
+  signed.set(prefix)
+  signed.set(body, prefix.length)
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  )
+
+  for (const signature of signatures) {
+    if (await crypto.subtle.verify('HMAC', key, signature, signed)) {
+      return
+    }
+  }
+
+  throw new StripeWebhookError('INVALID_SIGNATURE', 'No Stripe signature matches the payload')
+}
+
+/**
+ * Verify a webhook delivery and parse its event
+ */
+export async function constructStripeEvent(
+  payload: string | Uint8Array,
+  header: string | null | undefined,
+  secret: string,
+  options: StripeSignatureOptions = {}
+): Promise<StripeEvent> {
+  await verifyStripeSignature(payload, header, secret, options)
+
+  let event: unknown
+  try {
+    event = JSON.parse(typeof payload === 'string' ? payload : new TextDecoder().decode(payload))
+  } catch {
+    throw new StripeWebhookError('INVALID_PAYLOAD', 'Stripe webhook payload is not valid JSON')
+  }
+
+  if (!isStripeEvent(event)) {
+    throw new StripeWebhookError('INVALID_PAYLOAD', 'Stripe webhook payload is not an event')
+  }
+
+  return event
+}
+
+/**
+ * Type guard for a Stripe event envelope
+ */
+export function isStripeEvent(value: unknown): value is StripeEvent {
+  if (typeof value !== 'object' || value === null) return false
+  const event = value as Partial<StripeEvent>
+  return (
+    typeof event.id === 'string' &&
+    typeof event.type === 'string' &&
+    typeof event.created === 'number' &&
+    typeof event.data?.object === 'object' &&
+    event.data.object !== null
+  )
+}
+
+/**
+ * Map a Stripe event to the billing update it causes
+ *
+ * Returns null for event types that don't affect billing components.
+ */
+export function mapStripeEvent(event: StripeEvent): StripeBillingUpdate | null {
+  const base = { id: event.id, timestamp: event.created * 1000 }
+
+  switch (event.type) {
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+    case 'customer.subscription.paused':
+    case 'customer.subscription.resumed': {
+      const subscription = event.data.object as unknown as StripeEventSubscription
+      const item = subscription.items.data[0]
+      const status = SUBSCRIPTION_STATUSES[subscription.status] ?? 'unpaid'
+      const currentPlan = {
+        id: item?.price.id ?? '',
+        name: item?.price.nickname ?? item?.price.id ?? '',
+        interval:
+          item?.price.recurring?.interval === 'year' ? ('year' as const) : ('month' as const),
+      }
+      const periodEnd = subscription.current_period_end ?? item?.current_period_end
+      const nextBillingDate =
+        status === 'canceled' || periodEnd === undefined ? undefined : fromUnix(periodEnd)
+      const cancelAt = subscription.cancel_at ? fromUnix(subscription.cancel_at) : undefined
+
+      return {
+        topic: 'subscription',
+        customerId: subscription.customer,
+        message: {
+          ...base,
+          type: 'subscriptionUpdated',
+          subscriptionId: subscription.id,
+          status,
+          currentPlan,
+          nextBillingDate,
+          cancelAt,
+        },
+        updates: [
+          {
+            path: '/subscription',
+            operation: 'set',
+            value: {
+              id: subscription.id,
+              status,
+              planId: currentPlan.id,
+              planName: currentPlan.name,
+              interval: currentPlan.interval,
+              nextBillingDate: nextBillingDate?.toISOString() ?? null,
+              cancelAt: cancelAt?.toISOString() ?? null,
+            },
+          },
+        ],
+      }
+    }
+
+    case 'invoice.finalized':
+    case 'invoice.paid':
+    case 'invoice.payment_failed':
+    case 'invoice.voided':
+    case 'invoice.marked_uncollectible': {
+      const invoice = event.data.object as unknown as StripeEventInvoice
+      const update: StripeBillingUpdate = {
+        topic: 'invoice',
+        customerId: invoice.customer,
+        updates: [
+          {
+            path: `/invoices/${escapeToken(invoice.id)}`,
+            operation: 'set',
+            value: {
+              id: invoice.id,
+              number: invoice.number ?? invoice.id,
+              date: fromUnix(invoice.created).toISOString(),
+              dueDate: invoice.due_date ? fromUnix(invoice.due_date).toISOString() : null,
+              amount: invoice.amount_due,
+              currency: invoice.currency,
+              status: invoice.status,
+              pdfUrl: invoice.invoice_pdf ?? null,
+            },
+          },
+        ],
+      }
+
+      if (event.type === 'invoice.finalized') {
+        update.message = {
+          ...base,
+          type: 'invoiceCreated',
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.number ?? invoice.id,
+          amount: invoice.amount_due,
+          currency: invoice.currency,
+          dueDate: invoice.due_date ? fromUnix(invoice.due_date) : undefined,
+          invoiceUrl: invoice.hosted_invoice_url ?? undefined,
+        }
+      } else if (event.type === 'invoice.paid') {
+        update.message = {
+          ...base,
+          type: 'invoicePaid',
+          invoiceId: invoice.id,
+          amount: invoice.amount_paid,
+          currency: invoice.currency,
+          paidAt: fromUnix(event.created),
+          receiptUrl: invoice.hosted_invoice_url ?? undefined,
+        }
+      } else if (event.type === 'invoice.payment_failed') {
+        update.message = {
+          ...base,
+          type: 'paymentFailed',
+          paymentId: invoice.payment_intent ?? invoice.id,
+          errorCode: 'invoice_payment_failed',
+          errorMessage: formatStripeError('invoice_payment_failed'),
+        }
+      }
+
+      return update
+    }
+
+    case 'payment_intent.succeeded':
+    case 'payment_intent.payment_failed': {
+      const intent = event.data.object as unknown as StripeEventPaymentIntent
+      if (!intent.customer || intent.invoice) return null
+
+      const succeeded = event.type === 'payment_intent.succeeded'
+      const error = intent.last_payment_error ?? {}
+      const errorCode = error.code ?? 'payment_failed'
+
+      return {
+        topic: 'payment',
+        customerId: intent.customer,
+        message: succeeded
+          ? {
+              ...base,
+              type: 'paymentSuccess',
+              paymentId: intent.id,
+              amount: intent.amount_received ?? intent.amount,
+              currency: intent.currency,
+            }
+          : {
+              ...base,
+              type: 'paymentFailed',
+              paymentId: intent.id,
+              errorCode,
+              errorMessage: formatStripeError(error.decline_code ?? errorCode),
+              declineCode: error.decline_code,
+            },
+        updates: [
+          {
+            path: '/lastPayment',
+            operation: 'set',
+            value: {
+              id: intent.id,
+              status: succeeded ? 'succeeded' : 'failed',
+              amount: intent.amount,
+              currency: intent.currency,
+              errorCode: succeeded ? null : errorCode,
+            },
+          },
+        ],
+      }
+    }
+
+    case 'payment_method.attached':
+    case 'payment_method.updated':
+    case 'payment_method.automatically_updated':
+    case 'payment_method.detached': {
+      const method = event.data.object as unknown as StripeEventPaymentMethod
+      // Detached methods have no customer any more; the previous one is kept alongside
+      const previous = event.data.previous_attributes as
+        | Partial<StripeEventPaymentMethod>
+        | undefined
+      const customerId = method.customer ?? previous?.customer
+      if (!customerId) return null
+
+      const path = `/paymentMethods/${escapeToken(method.id)}`
+      if (event.type === 'payment_method.detached') {
+        return { topic: 'paymentMethod', customerId, updates: [{ path, operation: 'remove' }] }
+      }
+
+      const methodType = PAYMENT_METHOD_TYPES[method.type] ?? 'card'
+      const update: StripeBillingUpdate = {
+        topic: 'paymentMethod',
+        customerId,
+        updates: [
+          {
+            path,
+            operation: 'set',
+            value: {
+              id: method.id,
+              type: methodType,
+              brand: method.card?.brand ?? null,
+              last4: method.card?.last4 ?? null,
+              expiryMonth: method.card?.exp_month ?? null,
+              expiryYear: method.card?.exp_year ?? null,
+            },
+          },
+        ],
+      }
+
+      if (event.type === 'payment_method.attached') {
+        update.message = {
+          ...base,
+          type: 'paymentMethodAdded',
+          methodId: method.id,
+          methodType,
+          last4: method.card?.last4,
+          isDefault: false,
+        }
+      }
+
+      return update
+    }
+
+    case 'customer.source.expiring': {
+      const card = event.data.object as unknown as StripeEventCard
+      if (!card.customer) return null
+
+      const expiry = `${String(card.exp_month).padStart(2, '0')}/${card.exp_year}`
+      return {
+        topic: 'paymentMethod',
+        customerId: card.customer,
+        message: {
+          ...base,
+          type: 'paymentMethodError',
+          code: 'expiring_card',
+          message: `Your ${card.brand} card ending in ${card.last4} expires at the end of ${expiry}. Please update your payment method.`,
+          methodId: card.id,
+        },
+        updates: [
+          {
+            path: `/paymentMethods/${escapeToken(card.id)}/expiring`,
+            operation: 'set',
+            value: true,
+          },
+        ],
+      }
+    }
+
+    default:
+      return null
+  }
+}
+
+/**
+ * Stripe webhook handler options
+ */
+export interface StripeWebhookHandlerOptions {
+  /** Endpoint signing secret (whsec_...) */
+  signingSecret: string
+  /** Maximum signature age in seconds (default: 300) */
+  tolerance?: number
+  /** Number of event IDs remembered for deduplication (default: 10000) */
+  maxRememberedEvents?: number
+}
+
+/**
+ * Outcome of handling one webhook delivery
+ */
+export interface StripeWebhookResult {
+  eventId: string
+  type: string
+  /** `duplicate` for redelivered events, `ignored` for event types with no billing effect */
+  status: 'processed' | 'duplicate' | 'ignored'
+}
+
+/**
+ * Stripe Webhook Handler
+ *
+ * Verifies deliveries, drops events it has already seen and forwards
+ * each event to the billing handlers registered for its customer.
+ */
+export class StripeWebhookHandler {
+  private billingHandlers = new Map<string, Set<BillingHandler>>()
+  private seenEvents = new Set<string>()
+
+  constructor(private options: StripeWebhookHandlerOptions) {}
+
+  /**
+   * Route a customer's events to a billing handler
+   */
+  register(customerId: string, billingHandler: BillingHandler): () => void {
+    if (!this.billingHandlers.has(customerId)) {
+      this.billingHandlers.set(customerId, new Set())
+    }
+
+    const handlers = this.billingHandlers.get(customerId)!
+    handlers.add(billingHandler)
+
+    // Return unregister function
+    return () => {
+      handlers.delete(billingHandler)
+      if (handlers.size === 0) {
+        this.billingHandlers.delete(customerId)
+      }
+    }
+  }
+
+  /**
+   * Handle a raw webhook request
+   *
+   * Throws a StripeWebhookError when the delivery can't be verified;
+   * answer those with a 400 so Stripe doesn't treat them as delivered.
+   */
+  async handleRequest(
+    payload: string | Uint8Array,
+    signatureHeader: string | null | undefined
+  ): Promise<StripeWebhookResult> {
+    const event = await constructStripeEvent(payload, signatureHeader, this.options.signingSecret, {
+      tolerance: this.options.tolerance,
+    })
+
+    return this.handleEvent(event)
+  }
+
+  /**
+   * Handle an event that has already been verified
+   *
+   * Every billing handler receives the update even if another one throws.
+   * The first error is then rethrown and the event is not remembered, so
+   * Stripe's retry is processed again instead of being reported as a duplicate.
+   */
+  handleEvent(event: StripeEvent): StripeWebhookResult {
+    const result = { eventId: event.id, type: event.type }
+
+    if (this.seenEvents.has(event.id)) {
+      return { ...result, status: 'duplicate' }
+    }
+
+    const update = mapStripeEvent(event)
+    if (!update) {
+      this.remember(event.id)
+      return { ...result, status: 'ignored' }
+    }
+
+    const errors: unknown[] = []
+    this.billingHandlers.get(update.customerId)?.forEach((handler) => {
+      try {
+        handler.applyStripeUpdate(update)
+      } catch (error) {
+        errors.push(error)
+      }
+    })
+    if (errors.length > 0) throw errors[0]
+
+    this.remember(event.id)
+    return { ...result, status: 'processed' }
+  }
+
+  /**
+   * Remember an event ID, forgetting the oldest once the limit is reached
+   */
+  private remember(eventId: string): void {
+    this.seenEvents.add(eventId)
+
+    const limit = this.options.maxRememberedEvents ?? DEFAULT_MAX_REMEMBERED_EVENTS
+    if (this.seenEvents.size > limit) {
+      const oldest = this.seenEvents.values().next().value
+      if (oldest !== undefined) this.seenEvents.delete(oldest)
+    }
+  }
+}
+
+const SUBSCRIPTION_STATUSES: Record<
+  StripeEventSubscription['status'],
+  SubscriptionUpdatedMessage['status']
+> = {
+  active: 'active',
+  canceled: 'canceled',
+  past_due: 'past_due',
+  unpaid: 'unpaid',
+  trialing: 'trialing',
+  incomplete: 'unpaid',
+  incomplete_expired: 'canceled',
+  paused: 'unpaid',
+}
+
+const PAYMENT_METHOD_TYPES: Record<string, PaymentMethodType> = {
+  card: 'card',
+  us_bank_account: 'bank',
+  sepa_debit: 'bank',
+  bacs_debit: 'bank',
+  paypal: 'paypal',
+}
+
+function fromUnix(seconds: number): Date {
+  return new Date(seconds * 1000)
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function decodeHex(value: string): ArrayBuffer | null {
+  if (value.length === 0 || value.length % 2 !== 0 || !/^[0-9a-f]+$/i.test(value)) {
+    return null
+  }
+
+  const bytes = new Uint8Array(value.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(value.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes.buffer
+}
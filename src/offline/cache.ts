@@ -7,26 +7,34 @@ import type {
   CachedItem,
   OfflineCacheConfig,
   CacheStrategy,
-  CacheStats
+  CacheStats,
+  EncryptedPayload,
+  EncryptionKey
 } from '../types/offline-types';
+import { OfflineEncryption, OfflineEncryptionError } from './encryption';
+
+type CacheConfig = Required<Omit<OfflineCacheConfig, 'encryptionKey' | 'encryptionSalt'>> &
+  Pick<OfflineCacheConfig, 'encryptionKey' | 'encryptionSalt'>;
 
 /**
  * Default cache configuration
  */
-const DEFAULT_CONFIG: Required<Omit<OfflineCacheConfig, 'keyPrefix'>> & { keyPrefix: string } = {
+const DEFAULT_CONFIG: CacheConfig = {
   strategy: 'network-first',
   maxSize: 10 * 1024 * 1024, // 10MB
   ttl: 5 * 60 * 1000, // 5 minutes
   versioning: true,
   keyPrefix: 'a2ui:cache:',
+  encryption: false,
 };
 
 /**
  * Offline cache for storing responses
  */
 export class OfflineCache<T = unknown> {
-  private cache: Map<string, CachedItem<T>> = new Map();
-  private config: Required<OfflineCacheConfig> & { keyPrefix: string };
+  private cache: Map<string, CachedItem<T | EncryptedPayload>> = new Map();
+  private config: CacheConfig;
+  private encryption: Promise<OfflineEncryption> | null = null;
   private hits = 0;
   private misses = 0;
   private evictions = 0;
@@ -36,6 +44,10 @@ export class OfflineCache<T = unknown> {
       ...DEFAULT_CONFIG,
       ...config,
     };
+
+    if (this.config.encryption && !this.config.encryptionKey) {
+      throw new OfflineEncryptionError('encryptionKey is required when encryption is enabled');
+    }
   }
 
   /**
@@ -45,9 +57,12 @@ export class OfflineCache<T = unknown> {
     const now = Date.now();
     const ttl = options?.ttl ?? this.config.ttl;
 
-    const item: CachedItem<T> = {
-      key: `${this.config.keyPrefix}${key}`,
-      data,
+    const fullKey = `${this.config.keyPrefix}${key}`;
+    const encryption = await this.getEncryption();
+
+    const item: CachedItem<T | EncryptedPayload> = {
+      key: fullKey,
+      data: encryption ? await encryption.encrypt(data, fullKey) : data,
       timestamp: now,
       expires: ttl ? now + ttl : undefined,
       version: options?.version ?? 1,
@@ -82,7 +97,7 @@ export class OfflineCache<T = unknown> {
     }
 
     this.hits++;
-    return item.data;
+    return (await this.open(item)).data;
   }
 
   /**
@@ -105,7 +120,7 @@ export class OfflineCache<T = unknown> {
     }
 
     this.hits++;
-    return item;
+    return this.open(item);
   }
 
   /**
@@ -194,6 +209,57 @@ export class OfflineCache<T = unknown> {
     return true;
   }
 
+  /**
+   * Re-encrypt every cached entry with a new key
+   * @returns Number of entries re-encrypted
+   */
+  async rotateKey(newKey: EncryptionKey, salt?: string): Promise<number> {
+    const items = await Promise.all(Array.from(this.cache.values(), item => this.open(item)));
+    const next = await OfflineEncryption.create(newKey, salt ?? this.salt());
+
+    for (const item of items) {
+      this.cache.set(item.key, { ...item, data: await next.encrypt(item.data, item.key) });
+    }
+
+    this.config.encryption = true;
+    this.config.encryptionKey = newKey;
+    this.config.encryptionSalt = salt ?? this.config.encryptionSalt;
+    this.encryption = Promise.resolve(next);
+    return items.length;
+  }
+
+  /**
+   * Get the encryption instance, deriving the key on first use
+   */
+  private getEncryption(): Promise<OfflineEncryption | null> {
+    if (!this.config.encryption || !this.config.encryptionKey) {
+      return Promise.resolve(null);
+    }
+    if (!this.encryption) {
+      this.encryption = OfflineEncryption.create(this.config.encryptionKey, this.salt());
+      // Allow a retry after a failed derivation
+      this.encryption.catch(() => {
+        this.encryption = null;
+      });
+    }
+    return this.encryption;
+  }
+
+  private salt(): string {
+    return this.config.encryptionSalt ?? `a2ui-offline-cache:${this.config.keyPrefix}`;
+  }
+
+  /**
+   * Decrypt a cached entry when encryption is enabled
+   */
+  private async open(item: CachedItem<T | EncryptedPayload>): Promise<CachedItem<T>> {
+    const encryption = await this.getEncryption();
+    if (!encryption || !OfflineEncryption.isEncrypted(item.data)) {
+      return item as CachedItem<T>;
+    }
+    return { ...item, data: await encryption.decrypt<T>(item.data, item.key) };
+  }
+
   /**
    * Get cache strategy
    */
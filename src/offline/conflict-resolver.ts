@@ -11,6 +11,8 @@ import type {
   OTOperation,
   CRDTData
 } from '../types/offline-types';
+import { mergeText } from '../utils/operational-transform';
+import { CRDTDocument, isCRDTUpdate } from '../crdt/crdt-document';
 
 /**
  * Conflict resolver for handling sync conflicts
@@ -61,14 +63,23 @@ export class ConflictResolver {
   }
 
   /**
-   * Operational Transform strategy: Transform operations to resolve conflicts
+   * Operational Transform strategy: Merge both sides' edits against the common ancestor
+   * Text is merged by transforming the local and remote edits against each
+   * other; objects are merged field by field. Values both sides changed
+   * differently, and items without a `base`, fall back to last-write-wins.
    */
   private async resolveOperationalTransform(context: ConflictContext): Promise<{ resolved: StorageItem; report: ConflictReport }> {
-    // Simple OT implementation for text-based conflicts
-    // In production, you'd use a proper OT library like ot.js
-
-    const resolved = { ...context.local };
-    resolved.version++;
+    const { local, remote, base } = context;
+    const localWins = local.lastModified > remote.lastModified;
+
+    const resolved: StorageItem = {
+      ...local,
+      data: base
+        ? this.mergeValues(base.data, local.data, remote.data, localWins)
+        : (localWins ? local.data : remote.data),
+      version: Math.max(local.version, remote.version) + 1,
+      lastModified: Math.max(local.lastModified, remote.lastModified),
+    };
 
     const report: ConflictReport = {
       operationId: context.local.key,
@@ -84,15 +95,61 @@ export class ConflictResolver {
     return { resolved, report };
   }
 
+  /**
+   * Three-way merge of a value changed on both sides
+   */
+  private mergeValues(base: unknown, local: unknown, remote: unknown, localWins: boolean): unknown {
+    if (this.isEqual(local, remote) || this.isEqual(base, remote)) {
+      return local;
+    }
+    if (this.isEqual(base, local)) {
+      return remote;
+    }
+
+    if (typeof base === 'string' && typeof local === 'string' && typeof remote === 'string') {
+      return mergeText(base, local, remote);
+    }
+
+    if (this.isPlainObject(local) && this.isPlainObject(remote)) {
+      const ancestor = this.isPlainObject(base) ? base : {};
+      const merged: Record<string, unknown> = {};
+      for (const key of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+        const value = this.mergeValues(ancestor[key], local[key], remote[key], localWins);
+        if (value !== undefined) {
+          merged[key] = value;
+        }
+      }
+      return merged;
+    }
+
+    return localWins ? local : remote;
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isEqual(a: unknown, b: unknown): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+  }
+
   /**
    * CRDT strategy: Merge using conflict-free replicated data types
    */
   private async resolveCRDT(context: ConflictContext): Promise<{ resolved: StorageItem; report: ConflictReport }> {
-    // Simple CRDT implementation
-    // In production, you'd use proper CRDT libraries like Yjs or Automerge
-
-    const resolved = { ...context.local };
-    resolved.version = Math.max(context.local.version, context.remote.version) + 1;
+    const { local, remote } = context;
+    const resolved = { ...local };
+    resolved.version = Math.max(local.version, remote.version) + 1;
+
+    // Items holding CRDT updates merge by applying both sides to one
+    // document; anything else keeps the local copy
+    if (isCRDTUpdate(local.data) && isCRDTUpdate(remote.data)) {
+      const doc = new CRDTDocument();
+      doc.applyUpdate(remote.data);
+      doc.applyUpdate(local.data);
+      resolved.data = doc.encodeUpdate();
+      resolved.lastModified = Math.max(local.lastModified, remote.lastModified);
+    }
 
     const report: ConflictReport = {
       operationId: context.local.key,
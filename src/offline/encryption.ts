@@ -0,0 +1,138 @@
+/**
+ * Offline Encryption
+ * AES-GCM at-rest encryption through WebCrypto
+ *
+ * Every value gets a fresh random IV, and the storage key is bound as
+ * additional authenticated data so ciphertext cannot be moved between keys.
+ */
+
+import type { EncryptedPayload, EncryptionKey } from '../types/offline-types';
+
+/**
+ * PBKDF2 iterations for passphrase keys (OWASP guidance for SHA-256)
+ */
+const PBKDF2_ITERATIONS = 600000;
+
+const IV_LENGTH = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Raised when a key is missing or invalid, or data cannot be decrypted
+ */
+export class OfflineEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OfflineEncryptionError';
+  }
+}
+
+/**
+ * Encrypts and decrypts values with one AES-GCM key
+ */
+export class OfflineEncryption {
+  private constructor(private key: CryptoKey) {}
+
+  /**
+   * Create an encryption instance from a passphrase or an AES-GCM CryptoKey
+   * @param key - Passphrase or CryptoKey
+   * @param salt - Salt for deriving a key from a passphrase
+   */
+  static async create(key: EncryptionKey, salt: string): Promise<OfflineEncryption> {
+    const subtle = getSubtle();
+
+    if (typeof key !== 'string') {
+      if (key.algorithm.name !== 'AES-GCM') {
+        throw new OfflineEncryptionError(`Encryption key must be an AES-GCM key, got ${key.algorithm.name}`);
+      }
+      return new OfflineEncryption(key);
+    }
+
+    if (!key) {
+      throw new OfflineEncryptionError('Encryption passphrase must not be empty');
+    }
+
+    const material = await subtle.importKey('raw', encoder.encode(key), 'PBKDF2', false, ['deriveKey']);
+    const derived = await subtle.deriveKey(
+      { name: 'PBKDF2', salt: encoder.encode(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    return new OfflineEncryption(derived);
+  }
+
+  /**
+   * Check whether a stored value is an encrypted payload
+   */
+  static isEncrypted(value: unknown): value is EncryptedPayload {
+    if (typeof value !== 'object' || value === null) return false;
+    const payload = value as Partial<EncryptedPayload>;
+    return payload.algorithm === 'AES-GCM' && typeof payload.iv === 'string' && typeof payload.ciphertext === 'string';
+  }
+
+  /**
+   * Encrypt a JSON-serializable value
+   * @param context - Storage key the value is bound to
+   */
+  async encrypt(value: unknown, context: string): Promise<EncryptedPayload> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await getSubtle().encrypt(
+      { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+      this.key,
+      encoder.encode(JSON.stringify(value))
+    );
+
+    return {
+      algorithm: 'AES-GCM',
+      iv: toBase64(iv),
+      ciphertext: toBase64(new Uint8Array(ciphertext)),
+    };
+  }
+
+  /**
+   * Decrypt a payload written by `encrypt`
+   * @param context - Storage key the value was bound to
+   * @throws OfflineEncryptionError when the key is wrong or the data was tampered with
+   */
+  async decrypt<T>(payload: EncryptedPayload, context: string): Promise<T> {
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await getSubtle().decrypt(
+        { name: 'AES-GCM', iv: fromBase64(payload.iv), additionalData: encoder.encode(context) },
+        this.key,
+        fromBase64(payload.ciphertext)
+      );
+    } catch {
+      throw new OfflineEncryptionError(`Failed to decrypt "${context}": wrong encryption key or corrupted data`);
+    }
+
+    return JSON.parse(decoder.decode(plaintext)) as T;
+  }
+}
+
+function getSubtle(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new OfflineEncryptionError('WebCrypto is not available in this environment');
+  }
+  return crypto.subtle;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
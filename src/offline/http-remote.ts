@@ -0,0 +1,138 @@
+/**
+ * HTTP Sync Remote
+ * Delivers queued operations to a REST endpoint
+ *
+ * Endpoints (relative to `baseUrl`):
+ * - POST /operations        body: QueuedOperation         → RemotePushResult
+ * - POST /operations/batch  body: { operations }          → { results: RemotePushResult[] }
+ * - GET  /items/:key                                      → StorageItem (404 if none)
+ */
+
+import type {
+  QueuedOperation,
+  RemotePushResult,
+  StorageItem,
+  SyncRemote
+} from '../types/offline-types';
+
+/**
+ * HTTP sync remote configuration
+ */
+export interface HttpSyncRemoteConfig {
+  /** Base URL of the sync API */
+  baseUrl: string;
+  /** Extra request headers (e.g. Authorization) */
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Sync remote backed by a REST API
+ */
+export class HttpSyncRemote implements SyncRemote {
+  private config: Required<HttpSyncRemoteConfig>;
+
+  constructor(config: HttpSyncRemoteConfig) {
+    this.config = {
+      headers: {},
+      timeout: 30000,
+      ...config,
+      baseUrl: config.baseUrl.replace(/\/+$/, ''),
+    };
+  }
+
+  /**
+   * Send one operation
+   */
+  async push(operation: QueuedOperation): Promise<RemotePushResult> {
+    const response = await this.request('/operations', {
+      method: 'POST',
+      body: JSON.stringify(operation),
+    });
+
+    if (!response.ok) {
+      return { operationId: operation.id, ...(await this.rejection(response)) };
+    }
+
+    const body = (await response.json()) as Partial<RemotePushResult>;
+    return { success: true, ...body, operationId: operation.id };
+  }
+
+  /**
+   * Send a batch of operations in one request
+   */
+  async pushBatch(operations: QueuedOperation[]): Promise<RemotePushResult[]> {
+    const response = await this.request('/operations/batch', {
+      method: 'POST',
+      body: JSON.stringify({ operations }),
+    });
+
+    if (!response.ok) {
+      const rejection = await this.rejection(response);
+      return operations.map(operation => ({ operationId: operation.id, ...rejection }));
+    }
+
+    const body = (await response.json()) as { results?: RemotePushResult[] };
+    return body.results ?? [];
+  }
+
+  /**
+   * Fetch the server's copy of a stored item
+   */
+  async fetch(key: string): Promise<StorageItem | null> {
+    const response = await this.request(`/items/${encodeURIComponent(key)}`, { method: 'GET' });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch remote item ${key}: HTTP ${response.status}`);
+    }
+
+    return (await response.json()) as StorageItem;
+  }
+
+  /**
+   * Describe a rejected push
+   * Client errors are permanent, except timeouts and rate limits.
+   */
+  private async rejection(response: Response): Promise<Omit<RemotePushResult, 'operationId'>> {
+    let error = `HTTP ${response.status}`;
+    try {
+      const body = (await response.json()) as { error?: string };
+      if (body.error) error = body.error;
+    } catch {
+      // No JSON error body
+    }
+
+    const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+    return { success: false, error, retryable };
+  }
+
+  /**
+   * Send a request with the configured headers and timeout
+   */
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+
+    try {
+      return await fetch(`${this.config.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.config.headers,
+        },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Sync request timeout after ${this.config.timeout}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
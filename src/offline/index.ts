@@ -8,6 +8,11 @@ export { OfflineQueue, queue } from './queue';
 export { OfflineCache, cache } from './cache';
 export { ConflictResolver, conflictResolver } from './conflict-resolver';
 export { SyncEngine, syncEngine } from './sync-engine';
+export { OfflineEncryption, OfflineEncryptionError } from './encryption';
+export { HttpSyncRemote } from './http-remote';
+export type { HttpSyncRemoteConfig } from './http-remote';
+export { TransportSyncRemote } from './transport-remote';
+export type { TransportSyncRemoteConfig } from './transport-remote';
 
 // Re-export types
 export type {
@@ -37,4 +42,11 @@ export type {
   CRDTData,
   OfflineConfig,
   OfflineHandler,
+  SyncRemote,
+  RemotePushResult,
+  SyncRequestMessage,
+  SyncResponseMessage,
+  EncryptionKey,
+  OfflineEncryptionConfig,
+  EncryptedPayload,
 } from '../types/offline-types';
@@ -7,20 +7,25 @@ import type {
   QueuedOperation,
   OfflineQueueConfig,
   RetryStrategy,
-  SyncStatus
+  SyncStatus,
+  EncryptionKey
 } from '../types/offline-types';
 import { OfflineStorage } from './storage';
 
+type QueueConfig = Required<Omit<OfflineQueueConfig, 'encryptionKey' | 'encryptionSalt'>> &
+  Pick<OfflineQueueConfig, 'encryptionKey' | 'encryptionSalt'>;
+
 /**
  * Default queue configuration
  */
-const DEFAULT_CONFIG: Required<OfflineQueueConfig> = {
+const DEFAULT_CONFIG: QueueConfig = {
   maxSize: 1000,
   retryStrategy: 'exponential',
   maxRetries: 3,
   retryDelay: 1000,
   maxRetryDelay: 60000,
   persistent: true,
+  encryption: false,
 };
 
 /**
@@ -28,7 +33,7 @@ const DEFAULT_CONFIG: Required<OfflineQueueConfig> = {
  */
 export class OfflineQueue<T = unknown> {
   private operations: Map<string, QueuedOperation<T>> = new Map();
-  private config: Required<OfflineQueueConfig>;
+  private config: QueueConfig;
   private storage: OfflineStorage | null = null;
   private nextId = 1;
   private initialized = false;
@@ -44,6 +49,9 @@ export class OfflineQueue<T = unknown> {
       this.storage = new OfflineStorage({
         databaseName: 'a2ui-offline-queue',
         backend: 'indexeddb',
+        encryption: this.config.encryption,
+        encryptionKey: this.config.encryptionKey,
+        encryptionSalt: this.config.encryptionSalt,
       });
     }
   }
@@ -434,6 +442,23 @@ export class OfflineQueue<T = unknown> {
     return toRemove.length;
   }
 
+  /**
+   * Re-encrypt persisted operation payloads with a new key
+   * @returns Number of operations re-encrypted
+   */
+  async rotateKey(newKey: EncryptionKey, salt?: string): Promise<number> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const rotated = this.storage ? await this.storage.rotateKey(newKey, salt) : 0;
+
+    this.config.encryption = true;
+    this.config.encryptionKey = newKey;
+    this.config.encryptionSalt = salt ?? this.config.encryptionSalt;
+    return rotated;
+  }
+
   /**
    * Close queue and cleanup resources
    */
@@ -8,13 +8,18 @@ import type {
   OfflineStorageConfig,
   StorageBackend,
   StorageStats,
-  SyncStatus
+  SyncStatus,
+  EncryptionKey
 } from '../types/offline-types';
+import { OfflineEncryption, OfflineEncryptionError } from './encryption';
+
+type StorageConfig = Required<Omit<OfflineStorageConfig, 'encryptionKey' | 'encryptionSalt'>> &
+  Pick<OfflineStorageConfig, 'encryptionKey' | 'encryptionSalt'>;
 
 /**
  * Default storage configuration
  */
-const DEFAULT_CONFIG: Required<Omit<OfflineStorageConfig, 'encryptionKey'>> = {
+const DEFAULT_CONFIG: StorageConfig = {
   backend: 'indexeddb',
   databaseName: 'a2ui-offline',
   version: 1,
@@ -28,10 +33,11 @@ const DEFAULT_CONFIG: Required<Omit<OfflineStorageConfig, 'encryptionKey'>> = {
  */
 export class OfflineStorage {
   private backend: StorageBackend;
-  private config: Required<Omit<OfflineStorageConfig, 'encryptionKey'>> & { encryptionKey?: string };
+  private config: StorageConfig;
   private db: IDBDatabase | null = null;
   private memoryStore: Map<string, StorageItem> = new Map();
   private initialized = false;
+  private encryption: Promise<OfflineEncryption> | null = null;
 
   constructor(config: OfflineStorageConfig = {}) {
     this.config = {
@@ -39,6 +45,10 @@ export class OfflineStorage {
       ...config,
     };
     this.backend = this.detectBackend(config.backend);
+
+    if (this.config.encryption && !this.config.encryptionKey) {
+      throw new OfflineEncryptionError('encryptionKey is required when encryption is enabled');
+    }
   }
 
   /**
@@ -86,6 +96,9 @@ export class OfflineStorage {
     }
     // Memory storage is always ready
 
+    // Derive the key up front so a bad key fails here rather than on first use
+    await this.getEncryption();
+
     this.initialized = true;
   }
 
@@ -153,11 +166,19 @@ export class OfflineStorage {
     };
 
     // Check if item already exists to preserve version
-    const existing = await this.get<T>(key);
+    const existing = await this.read(key);
     if (existing) {
       item.version = existing.version + 1;
     }
 
+    const encryption = await this.getEncryption();
+    await this.write(encryption ? await this.encryptItem(item, encryption) : item);
+  }
+
+  /**
+   * Write an item as-is to the backend
+   */
+  private async write(item: StorageItem): Promise<void> {
     switch (this.backend) {
       case 'indexeddb':
         await this.setIndexedDB(item);
@@ -166,7 +187,7 @@ export class OfflineStorage {
         this.setLocalStorage(item);
         break;
       case 'memory':
-        this.memoryStore.set(key, item as StorageItem);
+        this.memoryStore.set(item.key, item);
         break;
     }
   }
@@ -205,6 +226,14 @@ export class OfflineStorage {
    * Retrieve data
    */
   async get<T>(key: string): Promise<StorageItem<T> | null> {
+    const item = await this.read<T>(key);
+    return item ? this.decryptItem(item) : null;
+  }
+
+  /**
+   * Read an item as stored, without decrypting it
+   */
+  private async read<T>(key: string): Promise<StorageItem<T> | null> {
     if (!this.initialized) {
       await this.initialize();
     }
@@ -358,6 +387,14 @@ export class OfflineStorage {
    * Get all stored items
    */
   async getAll<T>(): Promise<StorageItem<T>[]> {
+    const items = await this.readAll<T>();
+    return Promise.all(items.map(item => this.decryptItem(item)));
+  }
+
+  /**
+   * Read all items as stored, without decrypting them
+   */
+  private async readAll<T>(): Promise<StorageItem<T>[]> {
     if (!this.initialized) {
       await this.initialize();
     }
@@ -424,7 +461,7 @@ export class OfflineStorage {
    * Get storage statistics
    */
   async getStats(): Promise<StorageStats> {
-    const items = await this.getAll();
+    const items = await this.readAll();
 
     const statusBreakdown: Record<SyncStatus, number> = {
       pending: 0,
@@ -487,24 +524,88 @@ export class OfflineStorage {
    * Update sync status for an item
    */
   async updateSyncStatus(key: string, status: SyncStatus): Promise<void> {
-    const item = await this.get(key);
+    const item = await this.read(key);
     if (!item) return;
 
     item.syncStatus = status;
     item.lastModified = Date.now();
 
-    // Update directly to preserve status
-    switch (this.backend) {
-      case 'indexeddb':
-        await this.setIndexedDB(item);
-        break;
-      case 'localstorage':
-        this.setLocalStorage(item);
-        break;
-      case 'memory':
-        this.memoryStore.set(key, item);
-        break;
+    // Update directly to preserve status; the encrypted data is left untouched
+    await this.write(item);
+  }
+
+  /**
+   * Re-encrypt every stored item with a new key
+   * Items are all decrypted before anything is written, so a wrong current
+   * key leaves storage unchanged. Also encrypts plain items when encryption
+   * was previously disabled.
+   * @returns Number of items re-encrypted
+   */
+  async rotateKey(newKey: EncryptionKey, salt?: string): Promise<number> {
+    const items = await this.getAll();
+    const next = await OfflineEncryption.create(newKey, salt ?? this.salt());
+
+    this.config.encryption = true;
+    this.config.encryptionKey = newKey;
+    this.config.encryptionSalt = salt ?? this.config.encryptionSalt;
+    this.encryption = Promise.resolve(next);
+
+    for (const item of items) {
+      await this.write(await this.encryptItem(item, next));
+    }
+    return items.length;
+  }
+
+  /**
+   * Get the encryption instance, deriving the key on first use
+   */
+  private getEncryption(): Promise<OfflineEncryption | null> {
+    if (!this.config.encryption || !this.config.encryptionKey) {
+      return Promise.resolve(null);
+    }
+    if (!this.encryption) {
+      this.encryption = OfflineEncryption.create(this.config.encryptionKey, this.salt());
+      // Allow a retry after a failed derivation
+      this.encryption.catch(() => {
+        this.encryption = null;
+      });
+    }
+    return this.encryption;
+  }
+
+  private salt(): string {
+    return this.config.encryptionSalt ?? `a2ui-offline:${this.config.databaseName}`;
+  }
+
+  /**
+   * Encrypt the data and metadata of an item
+   */
+  private async encryptItem<T>(item: StorageItem<T>, encryption: OfflineEncryption): Promise<StorageItem> {
+    const { metadata, ...rest } = item;
+    return {
+      ...rest,
+      data: await encryption.encrypt({ data: item.data, metadata }, item.key),
+    };
+  }
+
+  /**
+   * Decrypt an item; items written without encryption are returned as-is
+   */
+  private async decryptItem<T>(item: StorageItem<T>): Promise<StorageItem<T>> {
+    if (!OfflineEncryption.isEncrypted(item.data)) {
+      return item;
     }
+
+    const encryption = await this.getEncryption();
+    if (!encryption) {
+      throw new OfflineEncryptionError(`Item "${item.key}" is encrypted but no encryption key is configured`);
+    }
+
+    const { data, metadata } = await encryption.decrypt<Pick<StorageItem<T>, 'data' | 'metadata'>>(
+      item.data,
+      item.key
+    );
+    return { ...item, data, metadata };
   }
 
   /**
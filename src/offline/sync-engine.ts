@@ -9,7 +9,9 @@ import type {
   SyncEvent,
   ConnectionInfo,
   ConnectionStatus,
-  ConflictReport
+  QueuedOperation,
+  RemotePushResult,
+  SyncRemote
 } from '../types/offline-types';
 import { OfflineQueue } from './queue';
 import { OfflineStorage } from './storage';
@@ -39,12 +41,14 @@ export class SyncEngine {
   private syncInterval: ReturnType<typeof setInterval> | null = null;
   private isSyncing = false;
   private connectionStatus: ConnectionStatus = 'online';
+  private remote: SyncRemote | null;
 
   constructor(
     config: OfflineSyncConfig,
     queue?: OfflineQueue,
     storage?: OfflineStorage,
-    resolver?: ConflictResolver
+    resolver?: ConflictResolver,
+    remote?: SyncRemote
   ) {
     this.config = {
       ...DEFAULT_CONFIG,
@@ -58,11 +62,19 @@ export class SyncEngine {
 
     this.storage = storage || new OfflineStorage();
     this.resolver = resolver || new ConflictResolver();
+    this.remote = remote || null;
 
     // Setup connection monitoring
     this.setupConnectionMonitoring();
   }
 
+  /**
+   * Set the server queued operations are delivered to
+   */
+  setRemote(remote: SyncRemote | null): void {
+    this.remote = remote;
+  }
+
   /**
    * Initialize sync engine
    */
@@ -116,7 +128,7 @@ export class SyncEngine {
     });
 
     // Auto-sync when coming online
-    if (status === 'online' && this.config.autoSync) {
+    if (status === 'online' && this.config.autoSync && this.remote && !this.isSyncing) {
       await this.sync();
     }
   }
@@ -140,7 +152,7 @@ export class SyncEngine {
     if (this.syncInterval) return;
 
     this.syncInterval = setInterval(async () => {
-      if (this.connectionStatus === 'online' && !this.isSyncing) {
+      if (this.connectionStatus === 'online' && this.remote && !this.isSyncing) {
         await this.sync();
       }
     }, this.config.syncInterval);
@@ -168,6 +180,10 @@ export class SyncEngine {
       throw new Error('Cannot sync while offline');
     }
 
+    if (!this.remote) {
+      throw new Error('Cannot sync without a remote');
+    }
+
     this.isSyncing = true;
     const startTime = Date.now();
 
@@ -219,51 +235,39 @@ export class SyncEngine {
     const batches = this.createBatches(operations, this.config.batchSize);
 
     for (const batch of batches) {
+      const toPush: QueuedOperation[] = [];
+
       for (const operation of batch) {
         try {
-          // Check for conflicts
-          const storageItem = await this.storage.get(operation.id);
-          if (storageItem && this.resolver.hasConflict(storageItem, storageItem)) {
-            // Resolve conflict
-            const { resolved, report } = await this.resolver.resolve({
-              strategy: this.config.conflictStrategy!,
-              local: storageItem,
-              remote: storageItem, // In real implementation, fetch from server
-            });
-
-            result.conflicts++;
-            result.conflictReports.push(report);
-
-            this.emitEvent({
-              type: 'conflict-detected',
-              timestamp: Date.now(),
-              conflict: report,
-            });
-
-            // Update with resolved version
-            await this.storage.set(operation.id, resolved.data, resolved.metadata);
+          await this.queue.updateStatus(operation.id, 'syncing');
+          const prepared = await this.reconcile(operation, result);
+          if (prepared) {
+            toPush.push(prepared);
           }
+        } catch (error) {
+          await this.recordFailure(operation, error instanceof Error ? error.message : 'Unknown error', true, result);
+        }
+      }
 
-          // Mark as synced
+      const results = await this.pushOperations(toPush);
+      for (const operation of toPush) {
+        const pushResult = results.get(operation.id) ?? {
+          operationId: operation.id,
+          success: false,
+          error: 'No result returned by remote',
+        };
+
+        if (pushResult.success) {
           await this.queue.updateStatus(operation.id, 'synced');
-          await this.storage.updateSyncStatus(operation.id, 'synced');
+          await this.storage.updateSyncStatus(this.storageKey(operation), 'synced');
           result.synced++;
-        } catch (error) {
-          // Handle sync failure
-          await this.queue.updateStatus(
-            operation.id,
-            'failed',
-            error instanceof Error ? error.message : 'Unknown error'
+        } else {
+          await this.recordFailure(
+            operation,
+            pushResult.error || 'Rejected by remote',
+            pushResult.retryable !== false,
+            result
           );
-
-          result.failed++;
-          result.errors!.push({
-            operationId: operation.id,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
-
-          // Retry if possible
-          await this.queue.retry(operation.id);
         }
       }
     }
@@ -272,6 +276,125 @@ export class SyncEngine {
     return result;
   }
 
+  /**
+   * Check an operation against the server copy of its item
+   * Returns the operation to push (carrying the resolved data after a
+   * conflict), or null when nothing needs to be pushed.
+   */
+  private async reconcile(operation: QueuedOperation, result: SyncResult): Promise<QueuedOperation | null> {
+    const key = this.storageKey(operation);
+    const local = await this.storage.get(key);
+    if (!local) {
+      return operation;
+    }
+
+    const remote = await this.remote!.fetch(key);
+    if (!remote || !this.resolver.hasConflict(local, remote)) {
+      return operation;
+    }
+
+    const { resolved, report } = await this.resolver.resolve({
+      strategy: this.config.conflictStrategy,
+      local,
+      remote,
+    });
+
+    result.conflicts++;
+    result.conflictReports.push(report);
+
+    this.emitEvent({
+      type: 'conflict-detected',
+      timestamp: Date.now(),
+      conflict: report,
+    });
+
+    // Needs a person to decide; keep it out of the queue until then
+    if (report.requiresManual) {
+      await this.queue.updateStatus(operation.id, 'conflict');
+      await this.storage.updateSyncStatus(key, 'conflict');
+      return null;
+    }
+
+    // Update with resolved version
+    await this.storage.set(key, resolved.data, resolved.metadata);
+
+    // The server already has the winning version
+    if (resolved === remote) {
+      await this.queue.updateStatus(operation.id, 'synced');
+      await this.storage.updateSyncStatus(key, 'synced');
+      result.synced++;
+      return null;
+    }
+
+    return { ...operation, data: resolved.data };
+  }
+
+  /**
+   * Send operations to the remote, batched when it supports it
+   * A failing request fails every operation it carried.
+   */
+  private async pushOperations(operations: QueuedOperation[]): Promise<Map<string, RemotePushResult>> {
+    const results = new Map<string, RemotePushResult>();
+    if (operations.length === 0) {
+      return results;
+    }
+
+    const remote = this.remote!;
+    const failed = (operation: QueuedOperation, error: unknown): RemotePushResult => ({
+      operationId: operation.id,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    if (remote.pushBatch) {
+      try {
+        for (const pushResult of await remote.pushBatch(operations)) {
+          results.set(pushResult.operationId, pushResult);
+        }
+      } catch (error) {
+        operations.forEach(operation => results.set(operation.id, failed(operation, error)));
+      }
+      return results;
+    }
+
+    for (const operation of operations) {
+      try {
+        results.set(operation.id, await remote.push(operation));
+      } catch (error) {
+        results.set(operation.id, failed(operation, error));
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Record a failed operation and schedule a retry when allowed
+   */
+  private async recordFailure(
+    operation: QueuedOperation,
+    error: string,
+    retryable: boolean,
+    result: SyncResult
+  ): Promise<void> {
+    await this.queue.updateStatus(operation.id, 'failed', error);
+
+    result.failed++;
+    result.errors!.push({ operationId: operation.id, error });
+
+    if (retryable) {
+      await this.queue.retry(operation.id);
+    }
+  }
+
+  /**
+   * Storage key an operation writes to
+   * Operations name it with `metadata.key`; otherwise the operation ID is used.
+   */
+  private storageKey(operation: QueuedOperation): string {
+    const key = operation.metadata?.['key'];
+    return typeof key === 'string' ? key : operation.id;
+  }
+
   /**
    * Create batches from operations
    */
@@ -0,0 +1,124 @@
+/**
+ * Transport Sync Remote
+ * Delivers queued operations to the agent over an A2UI transport
+ *
+ * Sends `syncPush` and `syncFetch` messages and matches each `syncResponse`
+ * to its request by `requestId`.
+ */
+
+import type {
+  QueuedOperation,
+  RemotePushResult,
+  StorageItem,
+  SyncRemote,
+  SyncRequestMessage,
+  SyncResponseMessage
+} from '../types/offline-types';
+import type { A2UITransport } from '../transport/transport';
+
+/**
+ * Transport sync remote configuration
+ */
+export interface TransportSyncRemoteConfig {
+  /** Time to wait for a response in milliseconds */
+  timeout?: number;
+}
+
+interface PendingRequest {
+  resolve: (response: SyncResponseMessage) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Sync remote backed by an A2UI transport connection
+ */
+export class TransportSyncRemote implements SyncRemote {
+  private pending: Map<string, PendingRequest> = new Map();
+  private nextId = 1;
+  private timeout: number;
+
+  constructor(private transport: A2UITransport, config: TransportSyncRemoteConfig = {}) {
+    this.timeout = config.timeout ?? 30000;
+    this.transport.on<SyncResponseMessage>('syncResponse', this.handleResponse);
+  }
+
+  /**
+   * Send one operation
+   */
+  async push(operation: QueuedOperation): Promise<RemotePushResult> {
+    const [result] = await this.pushBatch([operation]);
+    return result ?? { operationId: operation.id, success: false, error: 'No result returned by remote' };
+  }
+
+  /**
+   * Send a batch of operations in one message
+   */
+  async pushBatch(operations: QueuedOperation[]): Promise<RemotePushResult[]> {
+    const response = await this.request({ type: 'syncPush', requestId: this.createRequestId(), operations });
+    return response.results ?? [];
+  }
+
+  /**
+   * Fetch the server's copy of a stored item
+   */
+  async fetch(key: string): Promise<StorageItem | null> {
+    const response = await this.request({ type: 'syncFetch', requestId: this.createRequestId(), key });
+    return response.item ?? null;
+  }
+
+  /**
+   * Stop listening and fail requests still waiting for a response
+   */
+  dispose(): void {
+    this.transport.off<SyncResponseMessage>('syncResponse', this.handleResponse);
+    this.pending.forEach(request => {
+      clearTimeout(request.timer);
+      request.reject(new Error('Sync remote disposed'));
+    });
+    this.pending.clear();
+  }
+
+  /**
+   * Send a request and wait for its response
+   */
+  private request(message: SyncRequestMessage): Promise<SyncResponseMessage> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(message.requestId);
+        reject(new Error(`Sync request timeout after ${this.timeout}ms`));
+      }, this.timeout);
+
+      this.pending.set(message.requestId, { resolve, reject, timer });
+
+      try {
+        this.transport.send(message);
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(message.requestId);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Route a response to the request waiting for it
+   */
+  private handleResponse = (response: SyncResponseMessage): void => {
+    const request = this.pending.get(response.requestId);
+    if (!request) return;
+
+    clearTimeout(request.timer);
+    this.pending.delete(response.requestId);
+
+    if (response.error) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response);
+    }
+  };
+
+  private createRequestId(): string {
+    return `sync_${Date.now()}_${this.nextId++}`;
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Streaming JSON Parser Module
  *
- * Exports streaming parser and recovery utilities
+ * Exports streaming parser, recovery utilities and structured output validation
  */
 
 export {
@@ -26,3 +26,10 @@ export {
   type RecoveryResult,
   type RecoveryStats
 } from './json-recovery.js'
+
+export {
+  StructuredOutputValidator,
+  type StructuredOutputError,
+  type StructuredOutputResult,
+  type StructuredOutputValidatorOptions
+} from './structured-output.js'
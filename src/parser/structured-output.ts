@@ -0,0 +1,364 @@
+/**
+ * Structured Output Validation
+ *
+ * Parses LLM output into A2UI messages and checks every component against
+ * the component catalog, producing precise errors a model can act on.
+ *
+ * @example
+ * ```typescript
+ * const validator = new StructuredOutputValidator(ComponentRegistry.standard())
+ *
+ * const result = validator.validate(llmOutput)
+ * if (!result.valid) {
+ *   // e.g. "messages[0].components[1].type: Unknown component type 'carousel'"
+ *   console.log(result.errors)
+ * }
+ * ```
+ */
+
+import type { A2UIMessage } from '../types/protocol.js'
+import { ComponentRegistry } from '../registry/registry.js'
+import { checkComponentProperties, describe, isObject } from '../validation/component-schema.js'
+import { StreamingJSONParser } from './streaming-json-parser.js'
+import { fixLLMJSON } from './json-recovery.js'
+
+/**
+ * Structured output error
+ */
+export interface StructuredOutputError {
+  /** Location of the problem, e.g. 'messages[0].components[2].properties.src' */
+  path: string
+  /** What is wrong */
+  message: string
+}
+
+/**
+ * Structured output validation result
+ */
+export interface StructuredOutputResult {
+  /** Whether the output parsed and every message is valid */
+  valid: boolean
+  /** Parsed messages (including invalid ones) */
+  messages: A2UIMessage[]
+  /** Validation errors */
+  errors: StructuredOutputError[]
+  /** Whether malformed JSON had to be recovered */
+  recovered: boolean
+}
+
+/**
+ * Structured output validator options
+ */
+export interface StructuredOutputValidatorOptions {
+  /** Message types the model may produce (default: agent → UI surface messages) */
+  allowedMessageTypes?: string[]
+}
+
+const DEFAULT_MESSAGE_TYPES = [
+  'createSurface',
+  'updateComponents',
+  'updateDataModel',
+  'deleteSurface',
+]
+
+const UPDATE_OPERATIONS = ['add', 'update', 'remove']
+
+/**
+ * Structured Output Validator
+ *
+ * Accepts a single message, an array of messages, a `{"messages":[...]}`
+ * envelope (the CatalogPromptBuilder response shape), or several messages one
+ * after another (e.g. JSON lines). Text outside the JSON, such as a markdown
+ * code fence, is ignored.
+ */
+export class StructuredOutputValidator {
+  private readonly registry: ComponentRegistry
+  private readonly allowedMessageTypes: Set<string>
+
+  constructor(
+    registry: ComponentRegistry = ComponentRegistry.standard(),
+    options: StructuredOutputValidatorOptions = {}
+  ) {
+    this.registry = registry
+    this.allowedMessageTypes = new Set(options.allowedMessageTypes ?? DEFAULT_MESSAGE_TYPES)
+  }
+
+  /**
+   * Parse and validate LLM output
+   */
+  validate(output: string): StructuredOutputResult {
+    const errors: StructuredOutputError[] = []
+    const messages: A2UIMessage[] = []
+    let recovered = false
+
+    const segments = splitTopLevelValues(output)
+    if (segments.length === 0) {
+      errors.push({
+        path: 'output',
+        message: 'Expected A2UI messages as JSON, found no JSON value',
+      })
+    }
+
+    for (const segment of segments) {
+      const parsed = this.parseSegment(segment)
+      if (parsed === null) {
+        errors.push({
+          path: `messages[${messages.length}]`,
+          message: `Invalid JSON that could not be repaired: ${segment.slice(0, 80)}`,
+        })
+        continue
+      }
+
+      recovered ||= parsed.recovered
+      for (const value of unwrapMessages(parsed.value)) {
+        messages.push(value as A2UIMessage)
+      }
+    }
+
+    messages.forEach((message, index) => {
+      errors.push(...this.validateMessage(message, `messages[${index}]`))
+    })
+
+    return { valid: errors.length === 0, messages, errors, recovered }
+  }
+
+  /**
+   * Validate a single parsed message
+   */
+  validateMessage(message: unknown, path = 'message'): StructuredOutputError[] {
+    if (!isObject(message)) {
+      return [{ path, message: `Expected a message object, received ${describe(message)}` }]
+    }
+
+    const type = message['type']
+    if (typeof type !== 'string' || !this.allowedMessageTypes.has(type)) {
+      return [
+        {
+          path: `${path}.type`,
+          message: `Unsupported message type ${JSON.stringify(type)}. Expected one of: ${[...this.allowedMessageTypes].join(', ')}`,
+        },
+      ]
+    }
+
+    const errors: StructuredOutputError[] = []
+    if (typeof message['surfaceId'] !== 'string' || message['surfaceId'].length === 0) {
+      errors.push({ path: `${path}.surfaceId`, message: 'surfaceId must be a non-empty string' })
+    }
+
+    switch (type) {
+      case 'createSurface':
+        errors.push(...this.validateComponentList(message['components'], `${path}.components`))
+        break
+      case 'updateComponents':
+        errors.push(...this.validateUpdates(message['updates'], `${path}.updates`))
+        break
+      case 'updateDataModel':
+        if (!Array.isArray(message['updates'])) {
+          errors.push({ path: `${path}.updates`, message: 'updates must be an array' })
+        }
+        break
+    }
+
+    return errors
+  }
+
+  /**
+   * Validate a component against its catalog definition
+   */
+  validateComponent(component: unknown, path = 'component'): StructuredOutputError[] {
+    if (!isObject(component)) {
+      return [{ path, message: `Expected a component object, received ${describe(component)}` }]
+    }
+
+    const errors: StructuredOutputError[] = []
+    if (typeof component['id'] !== 'string' || component['id'].length === 0) {
+      errors.push({ path: `${path}.id`, message: 'id must be a non-empty string' })
+    }
+
+    const type = component['type']
+    const definition = typeof type === 'string' ? this.registry.get(type) : undefined
+    if (!definition) {
+      errors.push({
+        path: `${path}.type`,
+        message: `Unknown component type ${JSON.stringify(type)}. Available types: ${this.registry
+          .getAll()
+          .map((def) => def.type)
+          .join(', ')}`,
+      })
+      return errors
+    }
+
+    const properties = component['properties']
+    if (properties !== undefined && !isObject(properties)) {
+      errors.push({ path: `${path}.properties`, message: 'properties must be an object' })
+      return errors
+    }
+
+    const children = component['children']
+    if (
+      children !== undefined &&
+      !(Array.isArray(children) && children.every((child) => typeof child === 'string'))
+    ) {
+      errors.push({
+        path: `${path}.children`,
+        message: 'children must be an array of component ids',
+      })
+    }
+
+    for (const error of checkComponentProperties(definition, properties)) {
+      const field = error.path
+        .map((token) => (typeof token === 'number' ? `[${token}]` : `.${token}`))
+        .join('')
+      errors.push({ path: `${path}.properties${field}`, message: error.message })
+    }
+
+    return errors
+  }
+
+  /**
+   * Parse one JSON value, recovering it when the model produced broken JSON
+   */
+  private parseSegment(segment: string): { value: unknown; recovered: boolean } | null {
+    const parser = new StreamingJSONParser()
+    const result = parser.feed(segment)
+    if (result.valid && result.confidence === 1) {
+      return { value: result.partial, recovered: false }
+    }
+
+    const fixed = fixLLMJSON(segment)
+    if (fixed.success && fixed.parsed !== undefined) {
+      return { value: fixed.parsed, recovered: true }
+    }
+
+    try {
+      return { value: parser.finalize(), recovered: true }
+    } catch {
+      return null
+    }
+  }
+
+  private validateComponentList(components: unknown, path: string): StructuredOutputError[] {
+    if (!Array.isArray(components)) {
+      return [{ path, message: 'components must be an array' }]
+    }
+
+    const errors: StructuredOutputError[] = []
+    const ids = new Set<string>()
+
+    components.forEach((component: unknown, index) => {
+      errors.push(...this.validateComponent(component, `${path}[${index}]`))
+
+      const id = isObject(component) ? component['id'] : undefined
+      if (typeof id === 'string') {
+        if (ids.has(id)) {
+          errors.push({ path: `${path}[${index}].id`, message: `Duplicate component id '${id}'` })
+        }
+        ids.add(id)
+      }
+    })
+
+    // Children must reference components in the same surface
+    components.forEach((component: unknown, index) => {
+      const children = isObject(component) ? component['children'] : undefined
+      if (!Array.isArray(children)) return
+      for (const child of children) {
+        if (typeof child === 'string' && !ids.has(child)) {
+          errors.push({
+            path: `${path}[${index}].children`,
+            message: `Child '${child}' does not match any component id`,
+          })
+        }
+      }
+    })
+
+    return errors
+  }
+
+  private validateUpdates(updates: unknown, path: string): StructuredOutputError[] {
+    if (!Array.isArray(updates)) {
+      return [{ path, message: 'updates must be an array' }]
+    }
+
+    const errors: StructuredOutputError[] = []
+    updates.forEach((update: unknown, index) => {
+      const updatePath = `${path}[${index}]`
+      if (!isObject(update)) {
+        errors.push({
+          path: updatePath,
+          message: `Expected an update object, received ${describe(update)}`,
+        })
+        return
+      }
+
+      const operation = update['operation']
+      if (typeof operation !== 'string' || !UPDATE_OPERATIONS.includes(operation)) {
+        errors.push({
+          path: `${updatePath}.operation`,
+          message: `operation must be one of: ${UPDATE_OPERATIONS.join(', ')}`,
+        })
+      }
+      if (typeof update['id'] !== 'string') {
+        errors.push({ path: `${updatePath}.id`, message: 'id must be a string' })
+      }
+      if (operation !== 'remove') {
+        errors.push(...this.validateComponent(update['component'], `${updatePath}.component`))
+      }
+    })
+
+    return errors
+  }
+}
+
+/**
+ * Messages contained in one parsed JSON value
+ */
+function unwrapMessages(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value
+  if (isObject(value) && value['type'] === undefined && Array.isArray(value['messages'])) {
+    return value['messages'] as unknown[]
+  }
+  return [value]
+}
+
+/**
+ * Split text into its top-level JSON objects and arrays
+ * A value still open at the end of the text (truncated output) is kept
+ * so it can be repaired.
+ */
+function splitTopLevelValues(text: string): string[] {
+  const segments: string[] = []
+  let depth = 0
+  let start = -1
+  let inString = false
+  let escaped = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === '\\') escaped = true
+      else if (char === '"') inString = false
+      continue
+    }
+
+    if (char === '"') {
+      inString = depth > 0
+    } else if (char === '{' || char === '[') {
+      if (depth === 0) start = i
+      depth++
+    } else if ((char === '}' || char === ']') && depth > 0) {
+      depth--
+      if (depth === 0) {
+        segments.push(text.slice(start, i + 1))
+        start = -1
+      }
+    }
+  }
+
+  if (start !== -1) {
+    segments.push(text.slice(start))
+  }
+
+  return segments
+}
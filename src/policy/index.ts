@@ -0,0 +1,23 @@
+/**
+ * A2UI Authorization Policies
+ */
+
+export { PolicyEngine, PolicyError } from './policy-engine.js'
+export type {
+  PolicyEffect,
+  PolicyRule,
+  PolicyUser,
+  PolicyTenant,
+  PolicySubject,
+  PolicyDecision,
+  PolicyErrorCode,
+  PolicyEngineOptions,
+} from './policy-engine.js'
+
+export { PolicyAuditLog } from './policy-audit-log.js'
+export type {
+  PolicyOutcome,
+  PolicyAuditEntry,
+  PolicyAuditFilter,
+  PolicyAuditListener,
+} from './policy-audit-log.js'
@@ -0,0 +1,124 @@
+/**
+ * Policy Audit Log
+ * Bounded record of authorization decisions
+ */
+
+import type { PolicyEffect } from './policy-engine.js'
+
+/**
+ * How an authorized message was finally handled
+ * - `allowed` / `denied`: decided by the rules
+ * - `approved` / `rejected`: decided by a person after `require_approval`
+ */
+export type PolicyOutcome = 'allowed' | 'denied' | 'approved' | 'rejected'
+
+/**
+ * One audited decision
+ */
+export interface PolicyAuditEntry {
+  /** Sequential entry id */
+  id: number
+  timestamp: number
+  messageType: string
+  surfaceId?: string
+  userId?: string
+  tenantId?: string
+  /** Effect the rules produced */
+  effect: PolicyEffect
+  outcome: PolicyOutcome
+  /** Rule that decided the effect (absent when the default effect applied) */
+  ruleId?: string
+  reason: string
+  /** Confirmation interrupt raised for `require_approval` */
+  interruptId?: string
+}
+
+/**
+ * Audit log query
+ */
+export interface PolicyAuditFilter {
+  messageType?: string
+  surfaceId?: string
+  userId?: string
+  tenantId?: string
+  outcome?: PolicyOutcome
+  ruleId?: string
+  /** Only entries at or after this timestamp */
+  since?: number
+}
+
+/**
+ * Called for every recorded entry, e.g. to forward it to durable storage
+ */
+export type PolicyAuditListener = (entry: PolicyAuditEntry) => void
+
+/**
+ * Policy Audit Log
+ * Keeps the most recent entries in memory; older ones are dropped once
+ * `maxEntries` is reached.
+ */
+export class PolicyAuditLog {
+  private readonly log: PolicyAuditEntry[] = []
+  private readonly listeners = new Set<PolicyAuditListener>()
+  private nextId = 1
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  /**
+   * Record a decision
+   */
+  record(entry: Omit<PolicyAuditEntry, 'id' | 'timestamp'>): PolicyAuditEntry {
+    const recorded: PolicyAuditEntry = { id: this.nextId++, timestamp: Date.now(), ...entry }
+
+    this.log.push(recorded)
+    if (this.log.length > this.maxEntries) {
+      this.log.splice(0, this.log.length - this.maxEntries)
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(recorded)
+      } catch (error) {
+        console.error('Error in audit listener:', error)
+      }
+    }
+    return recorded
+  }
+
+  /**
+   * Entries matching the filter, oldest first
+   */
+  entries(filter: PolicyAuditFilter = {}): PolicyAuditEntry[] {
+    return this.log.filter(
+      (entry) =>
+        (filter.messageType === undefined || entry.messageType === filter.messageType) &&
+        (filter.surfaceId === undefined || entry.surfaceId === filter.surfaceId) &&
+        (filter.userId === undefined || entry.userId === filter.userId) &&
+        (filter.tenantId === undefined || entry.tenantId === filter.tenantId) &&
+        (filter.outcome === undefined || entry.outcome === filter.outcome) &&
+        (filter.ruleId === undefined || entry.ruleId === filter.ruleId) &&
+        (filter.since === undefined || entry.timestamp >= filter.since)
+    )
+  }
+
+  /**
+   * Listen for new entries
+   */
+  onEntry(listener: PolicyAuditListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Drop all entries
+   */
+  clear(): void {
+    this.log.length = 0
+  }
+
+  get size(): number {
+    return this.log.length
+  }
+}
@@ -0,0 +1,513 @@
+/**
+ * A2UI Policy Engine
+ * Tenant-scoped authorization of inbound messages with CEL rules
+ *
+ * Rules apply to every tenant or to one tenant, and name the message types
+ * they cover, an optional CEL condition and an effect. When several rules
+ * match, the strictest effect wins: deny, then require_approval, then allow.
+ *
+ * @example
+ * ```typescript
+ * const policy = new PolicyEngine({
+ *   subject: () => ({ user: session.user, tenant: session.tenant }),
+ *   approvals: humanInTheLoopHandler,
+ *   rules: [
+ *     {
+ *       id: 'no-writes-for-viewers',
+ *       messageTypes: ['zerodbTableDelete', 'zerodbPostgresQuery'],
+ *       condition: "'viewer' in user.roles",
+ *       effect: 'deny',
+ *     },
+ *     {
+ *       id: 'confirm-cancellation',
+ *       messageTypes: ['subscriptionCancel'],
+ *       effect: 'require_approval',
+ *       approvalPrompt: 'The assistant wants to cancel your subscription. Allow it?',
+ *     },
+ *   ],
+ * })
+ * policy.attach(transport)
+ * ```
+ */
+
+import { CELCompiler } from '../validation/cel-compiler.js'
+import { ReliableDelivery } from '../transport/reliable-delivery.js'
+import type { A2UITransport } from '../transport/transport.js'
+import type { HumanInTheLoopHandler } from '../handlers/human-in-the-loop-handler.js'
+import type { A2UIMessage, BaseMessage, ErrorMessage } from '../types/protocol.js'
+import type { AgentInterruptMessage } from '../types/interrupt-messages.js'
+import { PolicyAuditLog, type PolicyOutcome } from './policy-audit-log.js'
+
+/**
+ * Rule effect
+ */
+export type PolicyEffect = 'allow' | 'deny' | 'require_approval'
+
+/**
+ * Authorization rule
+ */
+export interface PolicyRule {
+  /** Unique id within its scope, recorded in the audit log */
+  id: string
+  /** Human-readable reason, used in decisions and denials */
+  description?: string
+  /** Message types the rule covers (default: all) */
+  messageTypes?: string[]
+  /**
+   * CEL condition that must evaluate to true for the rule to match
+   * (default: always matches). Variables: `user`, `tenant`, `surface`,
+   * `messageType`, `payload` (the message without its type) and `message`.
+   */
+  condition?: string
+  effect: PolicyEffect
+  /** Confirmation prompt for `require_approval` */
+  approvalPrompt?: string
+}
+
+/**
+ * User a message is evaluated for
+ */
+export interface PolicyUser {
+  id: string
+  roles?: string[]
+  [key: string]: unknown
+}
+
+/**
+ * Tenant a message is evaluated for
+ */
+export interface PolicyTenant {
+  id: string
+  [key: string]: unknown
+}
+
+/**
+ * Who a message acts on behalf of
+ */
+export interface PolicySubject {
+  user?: PolicyUser
+  tenant?: PolicyTenant
+}
+
+/**
+ * Result of evaluating the rules for a message
+ */
+export interface PolicyDecision {
+  effect: PolicyEffect
+  /** Deciding rule (absent when the default effect applied) */
+  ruleId?: string
+  reason: string
+  /** Confirmation prompt when approval is required */
+  approvalPrompt?: string
+}
+
+/**
+ * Policy error codes
+ */
+export type PolicyErrorCode = 'INVALID_RULE' | 'DUPLICATE_RULE'
+
+/**
+ * Policy error
+ */
+export class PolicyError extends Error {
+  constructor(
+    public readonly code: PolicyErrorCode,
+    public readonly ruleId: string,
+    message: string
+  ) {
+    super(message)
+    this.name = 'PolicyError'
+  }
+}
+
+/**
+ * Policy engine options
+ */
+export interface PolicyEngineOptions {
+  /** Rules for every tenant */
+  rules?: PolicyRule[]
+  /** Rules for individual tenants, by tenant id */
+  tenantRules?: Record<string, PolicyRule[]>
+  /** Effect when no rule matches (default: 'allow') */
+  defaultEffect?: PolicyEffect
+  /** Current user and tenant, or a function resolving them per message */
+  subject?: PolicySubject | ((message: A2UIMessage) => PolicySubject)
+  /** Extra `surface` attributes for CEL conditions, e.g. the owning tenant */
+  describeSurface?: (surfaceId: string) => Record<string, unknown> | undefined
+  /** Confirmation interrupts for `require_approval`; without it such messages are denied */
+  approvals?: HumanInTheLoopHandler
+  /** Milliseconds before an unanswered approval is rejected (default: 300000) */
+  approvalTimeout?: number
+  /** Answer denied messages with a POLICY_DENIED error over the attached transport (default: true) */
+  reportDenials?: boolean
+  /** CEL compiler (default: a new CELCompiler) */
+  compiler?: CELCompiler
+  /** Audit log (default: a new PolicyAuditLog) */
+  auditLog?: PolicyAuditLog
+}
+
+const EFFECT_RANK: Record<PolicyEffect, number> = {
+  allow: 0,
+  require_approval: 1,
+  deny: 2,
+}
+
+/**
+ * Policy Engine
+ * Decides whether inbound messages reach their handlers
+ */
+export class PolicyEngine {
+  private readonly options: Required<
+    Pick<PolicyEngineOptions, 'defaultEffect' | 'subject' | 'approvalTimeout' | 'reportDenials'>
+  >
+  private readonly compiler: CELCompiler
+  private readonly log: PolicyAuditLog
+  private readonly approvals?: HumanInTheLoopHandler
+  private readonly describeSurface?: PolicyEngineOptions['describeSurface']
+  private readonly globalRules: PolicyRule[] = []
+  private readonly tenantRules = new Map<string, PolicyRule[]>()
+  private transport: A2UITransport | null = null
+  private interruptCounter = 0
+
+  constructor(options: PolicyEngineOptions = {}) {
+    this.options = {
+      defaultEffect: options.defaultEffect ?? 'allow',
+      subject: options.subject ?? {},
+      approvalTimeout: options.approvalTimeout ?? 300000,
+      reportDenials: options.reportDenials ?? true,
+    }
+    this.compiler = options.compiler ?? new CELCompiler()
+    this.log = options.auditLog ?? new PolicyAuditLog()
+    this.approvals = options.approvals
+    this.describeSurface = options.describeSurface
+
+    for (const rule of options.rules ?? []) {
+      this.addRule(rule)
+    }
+    for (const [tenantId, rules] of Object.entries(options.tenantRules ?? {})) {
+      for (const rule of rules) {
+        this.addRule(rule, tenantId)
+      }
+    }
+  }
+
+  /**
+   * Add a rule for every tenant, or for one tenant
+   *
+   * @throws PolicyError if the id is taken in that scope or the condition does not compile
+   */
+  addRule(rule: PolicyRule, tenantId?: string): void {
+    const rules = this.scope(tenantId, true)
+    if (rules.some((existing) => existing.id === rule.id)) {
+      throw new PolicyError('DUPLICATE_RULE', rule.id, `Policy rule ${rule.id} already exists`)
+    }
+
+    if (rule.condition !== undefined) {
+      try {
+        this.compiler.compile(rule.condition)
+      } catch (error) {
+        throw new PolicyError(
+          'INVALID_RULE',
+          rule.id,
+          `Policy rule ${rule.id} has an invalid condition: ${errorMessage(error)}`
+        )
+      }
+    }
+
+    rules.push(rule)
+  }
+
+  /**
+   * Remove a rule; returns whether it existed
+   */
+  removeRule(ruleId: string, tenantId?: string): boolean {
+    const rules = this.scope(tenantId, false)
+    const index = rules.findIndex((rule) => rule.id === ruleId)
+    if (index === -1) return false
+
+    rules.splice(index, 1)
+    return true
+  }
+
+  /**
+   * Replace all rules in a scope
+   */
+  setRules(rules: PolicyRule[], tenantId?: string): void {
+    const scope = this.scope(tenantId, true)
+    const previous = scope.splice(0)
+    try {
+      for (const rule of rules) {
+        this.addRule(rule, tenantId)
+      }
+    } catch (error) {
+      // Keep the previous rules when any new one is invalid
+      scope.splice(0, scope.length, ...previous)
+      throw error
+    }
+  }
+
+  /**
+   * Rules in a scope
+   */
+  getRules(tenantId?: string): PolicyRule[] {
+    return [...this.scope(tenantId, false)]
+  }
+
+  /**
+   * Evaluate the rules for a message without acting on the decision
+   *
+   * A condition that fails to evaluate or does not return a boolean denies
+   * the message.
+   */
+  evaluate(
+    message: A2UIMessage,
+    subject: PolicySubject = this.resolveSubject(message)
+  ): PolicyDecision {
+    const context = this.createContext(message, subject)
+    const rules = [
+      ...this.globalRules,
+      ...(subject.tenant ? (this.tenantRules.get(subject.tenant.id) ?? []) : []),
+    ]
+
+    let decision: PolicyDecision | undefined
+    for (const rule of rules) {
+      if (rule.messageTypes && !rule.messageTypes.includes((message as BaseMessage).type)) continue
+
+      let matched: boolean
+      try {
+        matched = this.matches(rule, context)
+      } catch (error) {
+        return {
+          effect: 'deny',
+          ruleId: rule.id,
+          reason: `Policy rule ${rule.id} could not be evaluated: ${errorMessage(error)}`,
+        }
+      }
+      if (!matched) continue
+
+      if (!decision || EFFECT_RANK[rule.effect] > EFFECT_RANK[decision.effect]) {
+        decision = {
+          effect: rule.effect,
+          ruleId: rule.id,
+          reason: rule.description ?? `Matched policy rule ${rule.id}`,
+          approvalPrompt: rule.approvalPrompt,
+        }
+      }
+    }
+
+    return decision ?? { effect: this.options.defaultEffect, reason: 'No policy rule matched' }
+  }
+
+  /**
+   * Decide whether a message may be dispatched, asking for approval when a
+   * rule requires it, and record the decision
+   */
+  authorize(message: A2UIMessage): boolean | Promise<boolean> {
+    const subject = this.resolveSubject(message)
+    const decision = this.evaluate(message, subject)
+
+    switch (decision.effect) {
+      case 'allow':
+        this.audit(message, subject, decision, 'allowed')
+        return true
+      case 'deny':
+        this.deny(message, subject, decision)
+        return false
+      case 'require_approval':
+        if (!this.approvals) {
+          this.deny(message, subject, {
+            ...decision,
+            effect: 'deny',
+            reason: 'Approval required but no approval handler is configured',
+          })
+          return false
+        }
+        return this.requestApproval(this.approvals, message, subject, decision)
+    }
+  }
+
+  /**
+   * Authorize every message the transport receives
+   */
+  attach(transport: A2UITransport): void {
+    this.detach()
+    this.transport = transport
+    transport.setInboundGuard((message) => this.authorize(message))
+  }
+
+  /**
+   * Stop authorizing the attached transport's messages
+   */
+  detach(): void {
+    this.transport?.setInboundGuard(null)
+    this.transport = null
+  }
+
+  /**
+   * Audit log of decisions
+   */
+  get auditLog(): PolicyAuditLog {
+    return this.log
+  }
+
+  /**
+   * Raise a confirmation interrupt and wait for the answer
+   */
+  private async requestApproval(
+    approvals: HumanInTheLoopHandler,
+    message: A2UIMessage,
+    subject: PolicySubject,
+    decision: PolicyDecision
+  ): Promise<boolean> {
+    const surfaceId = ReliableDelivery.surfaceOf(message as BaseMessage)
+    const interruptId = `policy-${Date.now()}-${++this.interruptCounter}`
+    const interrupt: AgentInterruptMessage = {
+      type: 'agentInterrupt',
+      interruptId,
+      reason: 'confirmation',
+      prompt:
+        decision.approvalPrompt ?? `Allow the assistant to run ${(message as BaseMessage).type}?`,
+      timeout: this.options.approvalTimeout,
+      data: {
+        confirmLabel: 'Allow',
+        cancelLabel: 'Deny',
+        variant: 'destructive',
+        defaultValue: false,
+      },
+      metadata: {
+        policyRuleId: decision.ruleId,
+        messageType: (message as BaseMessage).type,
+        surfaceId,
+        userId: subject.user?.id,
+        tenantId: subject.tenant?.id,
+      },
+      timestamp: Date.now(),
+    }
+
+    let approved: boolean
+    let reason: string
+    try {
+      const answer = approvals.waitForResponse(interruptId)
+      await approvals.handleInterrupt(interrupt)
+      const response = await answer
+      approved = !response.cancelled && response.response === true
+      reason = approved
+        ? 'Approved by user'
+        : response.reason === 'timeout'
+          ? 'Approval timed out'
+          : 'Approval was declined'
+    } catch (error) {
+      await approvals.cancelInterrupt(interruptId)
+      approved = false
+      reason = `Approval failed: ${errorMessage(error)}`
+    }
+
+    this.audit(
+      message,
+      subject,
+      { ...decision, reason },
+      approved ? 'approved' : 'rejected',
+      interruptId
+    )
+    if (!approved) this.reportDenial(message, { ...decision, reason })
+    return approved
+  }
+
+  private deny(message: A2UIMessage, subject: PolicySubject, decision: PolicyDecision): void {
+    this.audit(message, subject, decision, 'denied')
+    this.reportDenial(message, decision)
+  }
+
+  /**
+   * Tell the sender that a message was blocked
+   */
+  private reportDenial(message: A2UIMessage, decision: PolicyDecision): void {
+    if (!this.options.reportDenials || !this.transport?.isConnected) return
+
+    const error: ErrorMessage = {
+      type: 'error',
+      code: 'POLICY_DENIED',
+      message: decision.reason,
+      details: {
+        messageType: (message as BaseMessage).type,
+        messageId: (message as BaseMessage).id,
+        surfaceId: ReliableDelivery.surfaceOf(message as BaseMessage),
+        ruleId: decision.ruleId,
+      },
+      timestamp: Date.now(),
+    }
+    this.transport.send(error)
+  }
+
+  private audit(
+    message: A2UIMessage,
+    subject: PolicySubject,
+    decision: PolicyDecision,
+    outcome: PolicyOutcome,
+    interruptId?: string
+  ): void {
+    this.log.record({
+      messageType: (message as BaseMessage).type,
+      surfaceId: ReliableDelivery.surfaceOf(message as BaseMessage),
+      userId: subject.user?.id,
+      tenantId: subject.tenant?.id,
+      effect: decision.effect,
+      outcome,
+      ruleId: decision.ruleId,
+      reason: decision.reason,
+      interruptId,
+    })
+  }
+
+  private matches(rule: PolicyRule, context: Record<string, unknown>): boolean {
+    if (rule.condition === undefined) return true
+
+    const result: unknown = this.compiler.compile(rule.condition)(context)
+    if (typeof result !== 'boolean') {
+      throw new PolicyError(
+        'INVALID_RULE',
+        rule.id,
+        `condition must return a boolean, got ${typeof result}`
+      )
+    }
+    return result
+  }
+
+  /**
+   * CEL variables for a message
+   */
+  private createContext(message: A2UIMessage, subject: PolicySubject): Record<string, unknown> {
+    const { type, ...payload } = message as unknown as Record<string, unknown>
+    const surfaceId = ReliableDelivery.surfaceOf(message as BaseMessage)
+
+    return {
+      user: subject.user ?? {},
+      tenant: subject.tenant ?? {},
+      surface:
+        surfaceId === undefined ? {} : { ...this.describeSurface?.(surfaceId), id: surfaceId },
+      messageType: type,
+      payload,
+      message: message as BaseMessage,
+    }
+  }
+
+  private resolveSubject(message: A2UIMessage): PolicySubject {
+    const { subject } = this.options
+    return typeof subject === 'function' ? subject(message) : subject
+  }
+
+  private scope(tenantId: string | undefined, create: boolean): PolicyRule[] {
+    if (tenantId === undefined) return this.globalRules
+
+    let rules = this.tenantRules.get(tenantId)
+    if (!rules) {
+      rules = []
+      if (create) this.tenantRules.set(tenantId, rules)
+    }
+    return rules
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,215 @@
+/**
+ * Catalog Prompt Builder
+ * Describes the registered components to an LLM as a system prompt and as a
+ * JSON Schema for provider structured output
+ */
+
+import type { ComponentType } from '../types/components.js'
+import type { JSONSchema } from '../types/validation.js'
+import { getSchema } from '../types/validation.js'
+import type { ComponentDefinition, ComponentRegistry } from './registry.js'
+
+/**
+ * Restricts the catalog to a subset of components
+ * Criteria combine: a component must match every criterion given.
+ */
+export interface CatalogSelection {
+  /** Only components in these categories */
+  categories?: NonNullable<ComponentDefinition['category']>[]
+  /** Only these component types */
+  types?: string[]
+  /** Only components with at least one of these tags */
+  tags?: string[]
+}
+
+const MESSAGE_SHAPES = [
+  'createSurface: {"type":"createSurface","surfaceId":string,"components":Component[],"dataModel"?:object}',
+  'updateComponents: {"type":"updateComponents","surfaceId":string,"updates":[{"id":string,"operation":"add"|"update"|"remove","component"?:Component}]}',
+  'updateDataModel: {"type":"updateDataModel","surfaceId":string,"updates":[{"path":string,"operation":"set"|"remove","value"?:any}]}',
+  'deleteSurface: {"type":"deleteSurface","surfaceId":string}',
+]
+
+/**
+ * Catalog Prompt Builder
+ *
+ * Reads the registry on every build, so components registered later are
+ * included automatically.
+ *
+ * @example
+ * ```typescript
+ * const builder = new CatalogPromptBuilder(registry)
+ *
+ * const system = builder.buildPrompt({ categories: ['input', 'layout'] })
+ * const schema = builder.buildSchema({ categories: ['input', 'layout'] })
+ * ```
+ */
+export class CatalogPromptBuilder {
+  constructor(private readonly registry: ComponentRegistry) {}
+
+  /**
+   * Get the component definitions matching a selection
+   */
+  select(selection: CatalogSelection = {}): ComponentDefinition[] {
+    return this.registry.getAll().filter((def) => {
+      if (selection.types && !selection.types.includes(def.type)) return false
+      if (selection.categories && (!def.category || !selection.categories.includes(def.category))) {
+        return false
+      }
+      if (selection.tags && !selection.tags.some((tag) => def.tags?.includes(tag))) return false
+      return true
+    })
+  }
+
+  /**
+   * Build a compact system prompt describing the protocol and the catalog
+   */
+  buildPrompt(selection: CatalogSelection = {}): string {
+    const groups = new Map<string, string[]>()
+    for (const def of this.select(selection)) {
+      const category = def.category ?? 'misc'
+      const lines = groups.get(category) ?? []
+      lines.push(describeComponent(def))
+      groups.set(category, lines)
+    }
+
+    const catalog = Array.from(groups, ([category, lines]) => `${category}:\n${lines.join('\n')}`)
+
+    return [
+      'You generate user interfaces as A2UI protocol messages.',
+      'Respond with JSON only, in the form {"messages":[...]}, using these message shapes:',
+      MESSAGE_SHAPES.map((shape) => `- ${shape}`).join('\n'),
+      'Component: {"id":string,"type":string,"properties"?:object,"children"?:string[]}\n' +
+        'Component ids are unique within a surface; children lists the ids of child components.',
+      'Use only these component types and properties:',
+      ...catalog,
+    ].join('\n\n')
+  }
+
+  /**
+   * Build a JSON Schema for the {"messages":[...]} response
+   * Suitable for provider structured output (e.g. OpenAI response_format).
+   */
+  buildSchema(selection: CatalogSelection = {}): JSONSchema {
+    const component: JSONSchema = {
+      anyOf: this.select(selection).map(componentSchema),
+    }
+
+    const surfaceId: JSONSchema = { type: 'string' }
+    const message = (type: string, properties: Record<string, JSONSchema>): JSONSchema => ({
+      type: 'object',
+      properties: { type: { type: 'string', enum: [type] }, surfaceId, ...properties },
+      required: ['type', 'surfaceId', ...Object.keys(properties)],
+      additionalProperties: false,
+    })
+
+    return {
+      type: 'object',
+      properties: {
+        messages: {
+          type: 'array',
+          items: {
+            anyOf: [
+              message('createSurface', {
+                components: { type: 'array', items: component },
+              }),
+              message('updateComponents', {
+                updates: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      operation: { type: 'string', enum: ['add', 'update', 'remove'] },
+                      component,
+                    },
+                    required: ['id', 'operation'],
+                    additionalProperties: false,
+                  },
+                },
+              }),
+              message('updateDataModel', {
+                updates: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      path: { type: 'string' },
+                      operation: { type: 'string', enum: ['set', 'remove'] },
+                      value: {},
+                    },
+                    required: ['path', 'operation'],
+                    additionalProperties: false,
+                  },
+                },
+              }),
+              message('deleteSurface', {}),
+            ],
+          },
+        },
+      },
+      required: ['messages'],
+      additionalProperties: false,
+    }
+  }
+}
+
+/**
+ * Property schema of a component
+ * Uses the definition's schema, then the built-in schema for the type, and
+ * otherwise infers property types from the default props.
+ */
+function propertiesSchema(def: ComponentDefinition): JSONSchema {
+  const declared = (def.schema as JSONSchema | undefined) ?? getSchema(def.type as ComponentType)
+  if (declared) {
+    return declared
+  }
+
+  const properties: Record<string, JSONSchema> = {}
+  for (const [key, value] of Object.entries(def.defaultProps ?? {})) {
+    properties[key] = { type: jsonTypeOf(value) }
+  }
+  return { type: 'object', properties }
+}
+
+function componentSchema(def: ComponentDefinition): JSONSchema {
+  return {
+    type: 'object',
+    description: def.description,
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: [def.type] },
+      properties: propertiesSchema(def),
+      children: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['id', 'type'],
+    additionalProperties: false,
+  }
+}
+
+/**
+ * One catalog line, e.g. `- button: Clickable button. Props: label (string, default "Button")`
+ */
+function describeComponent(def: ComponentDefinition): string {
+  const schema = propertiesSchema(def)
+  const required = new Set(schema.required ?? [])
+  const defaults = def.defaultProps ?? {}
+
+  const props = Object.entries(schema.properties ?? {}).map(([key, prop]) => {
+    const details = [
+      prop.enum ? prop.enum.map((value) => JSON.stringify(value)).join('|') : prop.type,
+    ]
+    if (required.has(key)) details.push('required')
+    const fallback = defaults[key] ?? prop.default
+    if (fallback !== undefined) details.push(`default ${JSON.stringify(fallback)}`)
+    return `${key} (${details.filter(Boolean).join(', ')})`
+  })
+
+  const summary = def.description ? `: ${def.description}` : ''
+  return `- ${def.type}${summary}${props.length > 0 ? `. Props: ${props.join(', ')}` : ''}`
+}
+
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
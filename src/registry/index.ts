@@ -4,3 +4,5 @@
 
 export { ComponentRegistry } from './registry.js'
 export type { ComponentDefinition } from './registry.js'
+export { CatalogPromptBuilder } from './catalog-prompt.js'
+export type { CatalogSelection } from './catalog-prompt.js'
@@ -0,0 +1,17 @@
+/**
+ * A2UI Surface Store
+ */
+
+export { SurfaceStore, SurfaceStoreError } from './surface-store.js'
+export type {
+  SurfaceStoreErrorCode,
+  SurfaceSnapshot,
+  ComponentNode,
+  DanglingReference,
+  ReferenceReport,
+  SurfaceChangeType,
+  SurfaceChange,
+  SurfaceChangeListener,
+  Unsubscribe,
+  SurfaceStoreOptions,
+} from './surface-store.js'
@@ -0,0 +1,831 @@
+/**
+ * A2UI Surface Store
+ * Framework-agnostic state machine for A2UI surfaces
+ *
+ * Applies createSurface / updateComponents / updateDataModel / deleteSurface
+ * messages deterministically and exposes the resulting component tree and
+ * data model to renderers, bridges and devtools.
+ *
+ * @example
+ * ```typescript
+ * const store = new SurfaceStore()
+ * const detach = store.attach(transport)
+ *
+ * store.subscribePath('main', '/user/name', (change) => {
+ *   console.log(store.getData('main', '/user/name'))
+ * })
+ *
+ * const tree = store.getTree('main')
+ * ```
+ */
+
+import type { A2UIComponent } from '../types/components.js'
+import type {
+  A2UIMessage,
+  BaseMessage,
+  ComponentUpdate,
+  CreateSurfaceMessage,
+  DataUpdate,
+  DeleteSurfaceMessage,
+  UpdateComponentsMessage,
+  UpdateDataModelMessage,
+} from '../types/protocol.js'
+import type { A2UITransport } from '../transport/transport.js'
+import type { SurfaceValidator } from '../validation/surface-validator.js'
+import { JSONPointer, JSONPointerError } from '../json-pointer/json-pointer.js'
+
+/**
+ * Surface store error codes
+ */
+export type SurfaceStoreErrorCode =
+  | 'SURFACE_NOT_FOUND'
+  | 'COMPONENT_NOT_FOUND'
+  | 'INVALID_UPDATE'
+  | 'INVALID_PATH'
+  | 'INVALID_SURFACE'
+
+/**
+ * Surface store error class
+ */
+export class SurfaceStoreError extends Error {
+  readonly code: SurfaceStoreErrorCode
+  readonly surfaceId: string
+
+  constructor(code: SurfaceStoreErrorCode, surfaceId: string, message: string) {
+    super(message)
+    this.name = 'SurfaceStoreError'
+    this.code = code
+    this.surfaceId = surfaceId
+  }
+}
+
+/**
+ * Immutable view of a surface
+ * A new snapshot object is produced for every applied change, so snapshots
+ * can be compared by reference.
+ */
+export interface SurfaceSnapshot {
+  /** Surface identifier */
+  surfaceId: string
+  /** Components in insertion order */
+  components: A2UIComponent[]
+  /** Current data model */
+  dataModel: Record<string, unknown>
+  /** Metadata from createSurface */
+  metadata?: Record<string, unknown>
+  /** Monotonic version, incremented on every applied change */
+  version: number
+}
+
+/**
+ * Resolved component tree node
+ */
+export interface ComponentNode {
+  /** Component definition */
+  component: A2UIComponent
+  /** Resolved child nodes (dangling references are skipped) */
+  children: ComponentNode[]
+}
+
+/**
+ * Child reference that points to a component which does not exist
+ */
+export interface DanglingReference {
+  /** Component declaring the child */
+  parentId: string
+  /** Missing child ID */
+  childId: string
+}
+
+/**
+ * Reference integrity report for a surface
+ */
+export interface ReferenceReport {
+  /** Root component ID (null for an empty surface) */
+  rootId: string | null
+  /** Components not reachable from the root */
+  orphans: string[]
+  /** Child references to missing components */
+  dangling: DanglingReference[]
+  /** Components that appear in their own ancestor chain */
+  cycles: string[]
+}
+
+/**
+ * Change types emitted by the store
+ */
+export type SurfaceChangeType =
+  | 'surfaceCreated'
+  | 'componentsUpdated'
+  | 'dataModelUpdated'
+  | 'surfaceDeleted'
+
+/**
+ * Change notification
+ */
+export interface SurfaceChange {
+  /** Change type */
+  type: SurfaceChangeType
+  /** Affected surface */
+  surfaceId: string
+  /** Affected component IDs (all components for create/delete) */
+  componentIds: string[]
+  /** Affected JSON Pointer paths ('' for whole data model) */
+  paths: string[]
+  /** Surface version after the change (0 after deletion) */
+  version: number
+}
+
+/**
+ * Change listener
+ */
+export type SurfaceChangeListener = (change: SurfaceChange) => void
+
+/**
+ * Unsubscribe function returned by subscribe methods
+ */
+export type Unsubscribe = () => void
+
+/**
+ * Surface store options
+ */
+export interface SurfaceStoreOptions {
+  /** Component ID treated as the surface root when present (default: 'root') */
+  rootId?: string
+  /**
+   * Called when a message received through attach() cannot be applied, or,
+   * without a message, when a change listener throws
+   */
+  onError?: (error: Error, message?: A2UIMessage) => void
+  /** Rejects createSurface messages whose component tree is invalid */
+  validator?: Pick<SurfaceValidator, 'validate'>
+}
+
+interface SurfaceRecord {
+  surfaceId: string
+  components: Map<string, A2UIComponent>
+  dataModel: Record<string, unknown>
+  metadata?: Record<string, unknown>
+  version: number
+  snapshot: SurfaceSnapshot | null
+}
+
+interface PathSubscription {
+  tokens: string[]
+  listener: SurfaceChangeListener
+}
+
+/**
+ * Surface Store
+ * Owns many surfaces and applies protocol messages to them
+ */
+export class SurfaceStore {
+  private readonly surfaces = new Map<string, SurfaceRecord>()
+  private readonly options: Required<Pick<SurfaceStoreOptions, 'rootId'>> & SurfaceStoreOptions
+  private readonly listeners = new Set<SurfaceChangeListener>()
+  private readonly surfaceListeners = new Map<string, Set<SurfaceChangeListener>>()
+  private readonly componentListeners = new Map<string, Set<SurfaceChangeListener>>()
+  private readonly pathListeners = new Map<string, Set<PathSubscription>>()
+
+  constructor(options: SurfaceStoreOptions = {}) {
+    this.options = {
+      ...options,
+      rootId: options.rootId ?? 'root',
+    }
+  }
+
+  /**
+   * Apply a protocol message
+   *
+   * Messages are applied atomically: if any update in a message is invalid,
+   * the surface is left untouched and a SurfaceStoreError is thrown.
+   *
+   * @returns The resulting change, or null for messages that do not affect surfaces
+   */
+  apply(message: A2UIMessage): SurfaceChange | null {
+    switch ((message as BaseMessage).type) {
+      case 'createSurface':
+        return this.applyCreateSurface(message as CreateSurfaceMessage)
+      case 'updateComponents':
+        return this.applyUpdateComponents(message as UpdateComponentsMessage)
+      case 'updateDataModel':
+        return this.applyUpdateDataModel(message as UpdateDataModelMessage)
+      case 'deleteSurface':
+        return this.applyDeleteSurface(message as DeleteSurfaceMessage)
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Apply several messages in order
+   */
+  applyAll(messages: A2UIMessage[]): SurfaceChange[] {
+    const changes: SurfaceChange[] = []
+    for (const message of messages) {
+      const change = this.apply(message)
+      if (change) changes.push(change)
+    }
+    return changes
+  }
+
+  /**
+   * Route surface messages from a transport into the store
+   *
+   * @returns Function that detaches the store from the transport
+   */
+  attach(transport: Pick<A2UITransport, 'on' | 'off'>): Unsubscribe {
+    const handler = (message: A2UIMessage): void => {
+      try {
+        this.apply(message)
+      } catch (error) {
+        this.options.onError?.(toError(error), message)
+      }
+    }
+
+    const types = ['createSurface', 'updateComponents', 'updateDataModel', 'deleteSurface']
+    types.forEach((type) => transport.on<A2UIMessage>(type, handler))
+
+    return () => {
+      types.forEach((type) => transport.off<A2UIMessage>(type, handler))
+    }
+  }
+
+  /**
+   * Check if a surface exists
+   */
+  hasSurface(surfaceId: string): boolean {
+    return this.surfaces.has(surfaceId)
+  }
+
+  /**
+   * Get all surface IDs
+   */
+  getSurfaceIds(): string[] {
+    return Array.from(this.surfaces.keys())
+  }
+
+  /**
+   * Get an immutable snapshot of a surface
+   */
+  getSurface(surfaceId: string): SurfaceSnapshot | undefined {
+    const record = this.surfaces.get(surfaceId)
+    if (!record) return undefined
+
+    if (!record.snapshot) {
+      record.snapshot = {
+        surfaceId: record.surfaceId,
+        components: Array.from(record.components.values()),
+        dataModel: record.dataModel,
+        metadata: record.metadata,
+        version: record.version,
+      }
+    }
+    return record.snapshot
+  }
+
+  /**
+   * Get a component by ID
+   */
+  getComponent(surfaceId: string, componentId: string): A2UIComponent | undefined {
+    return this.surfaces.get(surfaceId)?.components.get(componentId)
+  }
+
+  /**
+   * Get the data model of a surface
+   */
+  getDataModel(surfaceId: string): Record<string, unknown> | undefined {
+    return this.surfaces.get(surfaceId)?.dataModel
+  }
+
+  /**
+   * Resolve a JSON Pointer in the data model of a surface
+   */
+  getData<T = unknown>(surfaceId: string, pointer: string): T | undefined {
+    const record = this.surfaces.get(surfaceId)
+    if (!record) return undefined
+    return JSONPointer.resolve<T>(record.dataModel, pointer)
+  }
+
+  /**
+   * Get the root component ID of a surface
+   *
+   * The component whose ID matches the rootId option wins; otherwise the first
+   * component (in insertion order) that is not referenced as a child.
+   */
+  getRootId(surfaceId: string): string | null {
+    const record = this.surfaces.get(surfaceId)
+    if (!record) return null
+    return this.findRootId(record)
+  }
+
+  /**
+   * Resolve the component tree of a surface from its root
+   *
+   * Dangling child references are skipped and cycles are cut at the first
+   * repeated component.
+   */
+  getTree(surfaceId: string): ComponentNode | null {
+    const record = this.surfaces.get(surfaceId)
+    if (!record) return null
+
+    const rootId = this.findRootId(record)
+    if (rootId === null) return null
+
+    return this.buildNode(record, rootId, new Set())
+  }
+
+  /**
+   * Report orphaned components, dangling child references and cycles
+   */
+  checkReferences(surfaceId: string): ReferenceReport {
+    const record = this.requireSurface(surfaceId)
+    const rootId = this.findRootId(record)
+    const dangling: DanglingReference[] = []
+    const cycles = new Set<string>()
+    const reachable = new Set<string>()
+
+    for (const component of record.components.values()) {
+      for (const childId of component.children ?? []) {
+        if (!record.components.has(childId)) {
+          dangling.push({ parentId: component.id, childId })
+        }
+      }
+    }
+
+    const visit = (id: string, ancestors: Set<string>): void => {
+      if (ancestors.has(id)) {
+        cycles.add(id)
+        return
+      }
+      const component = record.components.get(id)
+      if (!component) return
+      reachable.add(id)
+      ancestors.add(id)
+      for (const childId of component.children ?? []) {
+        visit(childId, ancestors)
+      }
+      ancestors.delete(id)
+    }
+
+    if (rootId !== null) {
+      visit(rootId, new Set())
+    }
+
+    const orphans = Array.from(record.components.keys()).filter((id) => !reachable.has(id))
+
+    return { rootId, orphans, dangling, cycles: Array.from(cycles) }
+  }
+
+  /**
+   * Serialize a surface back into a createSurface message
+   */
+  toCreateSurfaceMessage(surfaceId: string): CreateSurfaceMessage {
+    const snapshot = this.getSurface(surfaceId)
+    if (!snapshot) {
+      throw new SurfaceStoreError('SURFACE_NOT_FOUND', surfaceId, `Surface not found: ${surfaceId}`)
+    }
+
+    return {
+      type: 'createSurface',
+      surfaceId,
+      components: snapshot.components,
+      dataModel: snapshot.dataModel,
+      ...(snapshot.metadata ? { metadata: snapshot.metadata } : {}),
+    }
+  }
+
+  /**
+   * Subscribe to all changes
+   */
+  subscribe(listener: SurfaceChangeListener): Unsubscribe {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Subscribe to changes of a single surface
+   * Surface, component and path listeners stay subscribed when the surface is
+   * deleted, and fire again if it is recreated.
+   */
+  subscribeSurface(surfaceId: string, listener: SurfaceChangeListener): Unsubscribe {
+    return this.addKeyedListener(this.surfaceListeners, surfaceId, listener)
+  }
+
+  /**
+   * Subscribe to changes of a single component
+   * Fires when the component is added, updated or removed, and when its surface
+   * is created or deleted.
+   */
+  subscribeComponent(
+    surfaceId: string,
+    componentId: string,
+    listener: SurfaceChangeListener
+  ): Unsubscribe {
+    return this.addKeyedListener(
+      this.componentListeners,
+      this.componentKey(surfaceId, componentId),
+      listener
+    )
+  }
+
+  /**
+   * Subscribe to data model changes at a JSON Pointer path
+   * Fires when the path itself, one of its ancestors or one of its descendants
+   * is updated.
+   */
+  subscribePath(surfaceId: string, pointer: string, listener: SurfaceChangeListener): Unsubscribe {
+    const subscription: PathSubscription = {
+      tokens: this.compilePath(surfaceId, pointer),
+      listener,
+    }
+
+    if (!this.pathListeners.has(surfaceId)) {
+      this.pathListeners.set(surfaceId, new Set())
+    }
+    this.pathListeners.get(surfaceId)!.add(subscription)
+
+    return () => {
+      const subscriptions = this.pathListeners.get(surfaceId)
+      if (subscriptions) {
+        subscriptions.delete(subscription)
+        if (subscriptions.size === 0) this.pathListeners.delete(surfaceId)
+      }
+    }
+  }
+
+  /**
+   * Remove all surfaces (listeners are notified with surfaceDeleted)
+   */
+  clear(): void {
+    for (const surfaceId of this.getSurfaceIds()) {
+      this.applyDeleteSurface({ type: 'deleteSurface', surfaceId })
+    }
+  }
+
+  /**
+   * Remove all surfaces and listeners without notifying
+   */
+  destroy(): void {
+    this.surfaces.clear()
+    this.listeners.clear()
+    this.surfaceListeners.clear()
+    this.componentListeners.clear()
+    this.pathListeners.clear()
+  }
+
+  private applyCreateSurface(message: CreateSurfaceMessage): SurfaceChange {
+    const result = this.options.validator?.validate(message)
+    if (result && !result.valid) {
+      const details = result.errors.map((error) => `${error.path}: ${error.message}`)
+      throw new SurfaceStoreError(
+        'INVALID_SURFACE',
+        message.surfaceId,
+        `Invalid surface ${message.surfaceId}: ${details.join('; ')}`
+      )
+    }
+
+    const previous = this.surfaces.get(message.surfaceId)
+    const components = new Map<string, A2UIComponent>()
+    for (const component of message.components ?? []) {
+      components.set(component.id, component)
+    }
+
+    const record: SurfaceRecord = {
+      surfaceId: message.surfaceId,
+      components,
+      dataModel: cloneJSON(message.dataModel ?? {}),
+      metadata: message.metadata,
+      version: (previous?.version ?? 0) + 1,
+      snapshot: null,
+    }
+    this.surfaces.set(message.surfaceId, record)
+
+    const componentIds = new Set<string>(components.keys())
+    previous?.components.forEach((_, id) => componentIds.add(id))
+
+    return this.notify({
+      type: 'surfaceCreated',
+      surfaceId: message.surfaceId,
+      componentIds: Array.from(componentIds),
+      paths: [''],
+      version: record.version,
+    })
+  }
+
+  private applyUpdateComponents(message: UpdateComponentsMessage): SurfaceChange {
+    const record = this.requireSurface(message.surfaceId)
+    const components = new Map(record.components)
+    const componentIds: string[] = []
+
+    for (const update of message.updates ?? []) {
+      this.applyComponentUpdate(message.surfaceId, components, update)
+      componentIds.push(update.id)
+    }
+
+    this.commit(record, { components })
+
+    return this.notify({
+      type: 'componentsUpdated',
+      surfaceId: message.surfaceId,
+      componentIds,
+      paths: [],
+      version: record.version,
+    })
+  }
+
+  private applyComponentUpdate(
+    surfaceId: string,
+    components: Map<string, A2UIComponent>,
+    update: ComponentUpdate
+  ): void {
+    const existing = components.get(update.id)
+
+    switch (update.operation) {
+      case 'add': {
+        if (!update.component) {
+          throw new SurfaceStoreError(
+            'INVALID_UPDATE',
+            surfaceId,
+            `Missing component for add operation: ${update.id}`
+          )
+        }
+        components.set(update.id, { ...update.component, id: update.id })
+        return
+      }
+      case 'update': {
+        if (!update.component) {
+          throw new SurfaceStoreError(
+            'INVALID_UPDATE',
+            surfaceId,
+            `Missing component for update operation: ${update.id}`
+          )
+        }
+        if (!existing) {
+          throw new SurfaceStoreError(
+            'COMPONENT_NOT_FOUND',
+            surfaceId,
+            `Cannot update missing component: ${update.id}`
+          )
+        }
+        components.set(update.id, {
+          ...existing,
+          ...update.component,
+          id: update.id,
+          properties: { ...existing.properties, ...update.component.properties },
+        })
+        return
+      }
+      case 'remove': {
+        if (!existing) {
+          throw new SurfaceStoreError(
+            'COMPONENT_NOT_FOUND',
+            surfaceId,
+            `Cannot remove missing component: ${update.id}`
+          )
+        }
+        components.delete(update.id)
+        return
+      }
+      default:
+        throw new SurfaceStoreError(
+          'INVALID_UPDATE',
+          surfaceId,
+          `Unknown component operation: ${String((update as { operation: unknown }).operation)}`
+        )
+    }
+  }
+
+  private applyUpdateDataModel(message: UpdateDataModelMessage): SurfaceChange {
+    const record = this.requireSurface(message.surfaceId)
+    let dataModel = record.dataModel
+    const paths: string[] = []
+
+    for (const update of message.updates ?? []) {
+      dataModel = this.applyDataUpdate(message.surfaceId, dataModel, update)
+      paths.push(this.normalizePath(update.path))
+    }
+
+    this.commit(record, { dataModel })
+
+    return this.notify({
+      type: 'dataModelUpdated',
+      surfaceId: message.surfaceId,
+      componentIds: [],
+      paths,
+      version: record.version,
+    })
+  }
+
+  /**
+   * Apply one data update without mutating the previous data model
+   * Containers along the path are shallow-copied before JSONPointer writes to them.
+   */
+  private applyDataUpdate(
+    surfaceId: string,
+    dataModel: Record<string, unknown>,
+    update: DataUpdate
+  ): Record<string, unknown> {
+    const path = this.normalizePath(update.path)
+
+    if (path === '') {
+      if (update.operation === 'remove') return {}
+      if (typeof update.value !== 'object' || update.value === null || Array.isArray(update.value)) {
+        throw new SurfaceStoreError(
+          'INVALID_UPDATE',
+          surfaceId,
+          'Root data model value must be an object'
+        )
+      }
+      return cloneJSON(update.value as Record<string, unknown>)
+    }
+
+    const tokens = this.compilePath(surfaceId, path)
+    const next = { ...dataModel }
+    let current: unknown = next
+
+    for (const token of tokens.slice(0, -1)) {
+      const container = current as Record<string, unknown>
+      const child = container[token]
+      if (typeof child !== 'object' || child === null) break
+      const copy = Array.isArray(child) ? [...(child as unknown[])] : { ...child }
+      container[token] = copy
+      current = copy
+    }
+
+    try {
+      if (update.operation === 'set') {
+        JSONPointer.set(next, path, cloneJSON(update.value))
+      } else if (update.operation === 'remove') {
+        JSONPointer.remove(next, path)
+      } else {
+        throw new SurfaceStoreError(
+          'INVALID_UPDATE',
+          surfaceId,
+          `Unknown data operation: ${String((update as { operation: unknown }).operation)}`
+        )
+      }
+    } catch (error) {
+      if (error instanceof JSONPointerError) {
+        throw new SurfaceStoreError('INVALID_PATH', surfaceId, error.message)
+      }
+      throw error
+    }
+
+    return next
+  }
+
+  private applyDeleteSurface(message: DeleteSurfaceMessage): SurfaceChange | null {
+    const record = this.surfaces.get(message.surfaceId)
+    if (!record) return null
+
+    this.surfaces.delete(message.surfaceId)
+
+    return this.notify({
+      type: 'surfaceDeleted',
+      surfaceId: message.surfaceId,
+      componentIds: Array.from(record.components.keys()),
+      paths: [''],
+      version: 0,
+    })
+  }
+
+  private commit(
+    record: SurfaceRecord,
+    changes: Partial<Pick<SurfaceRecord, 'components' | 'dataModel'>>
+  ): void {
+    if (changes.components) record.components = changes.components
+    if (changes.dataModel) record.dataModel = changes.dataModel
+    record.version++
+    record.snapshot = null
+  }
+
+  private requireSurface(surfaceId: string): SurfaceRecord {
+    const record = this.surfaces.get(surfaceId)
+    if (!record) {
+      throw new SurfaceStoreError('SURFACE_NOT_FOUND', surfaceId, `Surface not found: ${surfaceId}`)
+    }
+    return record
+  }
+
+  private findRootId(record: SurfaceRecord): string | null {
+    if (record.components.has(this.options.rootId)) {
+      return this.options.rootId
+    }
+
+    const referenced = new Set<string>()
+    for (const component of record.components.values()) {
+      component.children?.forEach((childId) => referenced.add(childId))
+    }
+
+    for (const id of record.components.keys()) {
+      if (!referenced.has(id)) return id
+    }
+
+    // Every component is referenced (cycle): fall back to insertion order
+    const first = record.components.keys().next()
+    return first.done ? null : first.value
+  }
+
+  private buildNode(record: SurfaceRecord, id: string, ancestors: Set<string>): ComponentNode {
+    const component = record.components.get(id)!
+    ancestors.add(id)
+
+    const children: ComponentNode[] = []
+    for (const childId of component.children ?? []) {
+      if (!record.components.has(childId) || ancestors.has(childId)) continue
+      children.push(this.buildNode(record, childId, ancestors))
+    }
+
+    ancestors.delete(id)
+    return { component, children }
+  }
+
+  private normalizePath(path: string): string {
+    return path === '/' ? '' : path
+  }
+
+  private compilePath(surfaceId: string, pointer: string): string[] {
+    try {
+      return JSONPointer.compile(this.normalizePath(pointer))
+    } catch (error) {
+      throw new SurfaceStoreError('INVALID_PATH', surfaceId, (error as Error).message)
+    }
+  }
+
+  private componentKey(surfaceId: string, componentId: string): string {
+    return `${surfaceId}\u0000${componentId}`
+  }
+
+  private addKeyedListener(
+    map: Map<string, Set<SurfaceChangeListener>>,
+    key: string,
+    listener: SurfaceChangeListener
+  ): Unsubscribe {
+    if (!map.has(key)) {
+      map.set(key, new Set())
+    }
+    map.get(key)!.add(listener)
+
+    return () => {
+      const listeners = map.get(key)
+      if (listeners) {
+        listeners.delete(listener)
+        if (listeners.size === 0) map.delete(key)
+      }
+    }
+  }
+
+  private notify(change: SurfaceChange): SurfaceChange {
+    const targets = new Set<SurfaceChangeListener>(this.listeners)
+
+    this.surfaceListeners.get(change.surfaceId)?.forEach((listener) => targets.add(listener))
+
+    for (const componentId of change.componentIds) {
+      this.componentListeners
+        .get(this.componentKey(change.surfaceId, componentId))
+        ?.forEach((listener) => targets.add(listener))
+    }
+
+    const subscriptions = this.pathListeners.get(change.surfaceId)
+    if (subscriptions && change.paths.length > 0) {
+      const changedTokens = change.paths.map((path) => JSONPointer.compile(path))
+      for (const subscription of subscriptions) {
+        if (changedTokens.some((tokens) => pathsOverlap(tokens, subscription.tokens))) {
+          targets.add(subscription.listener)
+        }
+      }
+    }
+
+    targets.forEach((listener) => {
+      try {
+        listener(change)
+      } catch (error) {
+        this.options.onError?.(toError(error))
+      }
+    })
+
+    return change
+  }
+}
+
+/**
+ * Check whether one token path is a prefix of the other
+ */
+function pathsOverlap(a: string[], b: string[]): boolean {
+  const length = Math.min(a.length, b.length)
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return false
+  }
+  return true
+}
+
+function cloneJSON<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T)
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
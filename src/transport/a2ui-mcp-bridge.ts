@@ -4,6 +4,8 @@
  */
 
 import { A2UITransport } from './transport.js'
+import { isTransportAdapter } from './adapter.js'
+import type { A2UITransportAdapter } from './adapter.js'
 import { MCPTransport } from './mcp-transport.js'
 import type {
   A2UIMessage,
@@ -12,13 +14,14 @@ import type {
   UpdateDataModelMessage,
 } from '../types/protocol.js'
 import type { MCPToolResult } from '../types/mcp-protocol.js'
+import { SurfaceStore } from '../surface/surface-store.js'
 
 /**
  * Bridge configuration
  */
 export interface A2UIToMCPBridgeOptions {
-  /** A2UI transport instance */
-  a2uiTransport: A2UITransport
+  /** A2UI transport instance, or a connection adapter the bridge manages itself */
+  a2uiTransport: A2UITransport | A2UITransportAdapter
   /** MCP transport instance */
   mcpTransport: MCPTransport
   /** Action to MCP tool mapping */
@@ -43,16 +46,18 @@ export type ActionHandler = (
  */
 export class A2UIToMCPBridge {
   private readonly a2uiTransport: A2UITransport
+  private readonly ownsA2UITransport: boolean
   private readonly mcpTransport: MCPTransport
   private readonly actionMapping: Map<string, string>
   private readonly actionHandlers: Map<string, ActionHandler> = new Map()
   private readonly autoSync: boolean
   private readonly debug: boolean
   private isRunning = false
-  private dataModelCache = new Map<string, Record<string, unknown>>()
+  private readonly surfaces = new SurfaceStore()
 
   constructor(options: A2UIToMCPBridgeOptions) {
-    this.a2uiTransport = options.a2uiTransport
+    this.ownsA2UITransport = isTransportAdapter(options.a2uiTransport)
+    this.a2uiTransport = A2UITransport.from(options.a2uiTransport)
     this.mcpTransport = options.mcpTransport
     this.actionMapping = options.actionMapping ?? new Map()
     this.autoSync = options.autoSync ?? true
@@ -96,7 +101,10 @@ export class A2UIToMCPBridge {
     }
 
     this.isRunning = false
-    this.dataModelCache.clear()
+    this.surfaces.destroy()
+    if (this.ownsA2UITransport) {
+      this.a2uiTransport.disconnect()
+    }
     this.log('Bridge stopped')
   }
 
@@ -127,6 +135,10 @@ export class A2UIToMCPBridge {
         await this.handleCreateSurface(message as CreateSurfaceMessage)
       } else if (message.type === 'updateDataModel') {
         await this.handleDataModelUpdate(message as UpdateDataModelMessage)
+      } else if (message.type === 'updateComponents' || message.type === 'deleteSurface') {
+        if (this.surfaces.hasSurface(message.surfaceId)) {
+          this.surfaces.apply(message)
+        }
       }
     } catch (error) {
       this.log(`Error handling A2UI message: ${String(error)}`)
@@ -172,10 +184,8 @@ export class A2UIToMCPBridge {
   private async handleCreateSurface(message: CreateSurfaceMessage): Promise<void> {
     this.log(`Surface created: ${message.surfaceId}`)
 
-    // Cache data model
-    if (message.dataModel) {
-      this.dataModelCache.set(message.surfaceId, message.dataModel)
-    }
+    // Track surface state
+    this.surfaces.apply(message)
 
     // Auto-sync with MCP resources if enabled
     if (this.autoSync && message.metadata?.mcpResourceUri) {
@@ -190,16 +200,9 @@ export class A2UIToMCPBridge {
    * Handle data model updates
    */
   private async handleDataModelUpdate(message: UpdateDataModelMessage): Promise<void> {
-    // Update cached data model
-    const cachedModel = this.dataModelCache.get(message.surfaceId)
-    if (cachedModel) {
-      message.updates.forEach((update) => {
-        if (update.operation === 'set') {
-          this.setNestedValue(cachedModel, update.path, update.value)
-        } else if (update.operation === 'remove') {
-          this.deleteNestedValue(cachedModel, update.path)
-        }
-      })
+    // Update tracked data model
+    if (this.surfaces.hasSurface(message.surfaceId)) {
+      this.surfaces.apply(message)
     }
   }
 
@@ -261,7 +264,7 @@ export class A2UIToMCPBridge {
 
     // If auto-sync enabled, refresh data models
     if (this.autoSync) {
-      for (const [surfaceId] of this.dataModelCache) {
+      for (const surfaceId of this.surfaces.getSurfaceIds()) {
         // Could fetch updated resource and sync with UI
         this.log(`Auto-sync for surface: ${surfaceId}`)
       }
@@ -296,60 +299,18 @@ export class A2UIToMCPBridge {
         ],
       })
 
-      // Update cache
-      this.dataModelCache.set(surfaceId, data)
+      // Update tracked data model
+      this.surfaces.apply({
+        type: 'updateDataModel',
+        surfaceId,
+        updates: [{ path: '/', operation: 'set', value: data }],
+      })
       this.log(`Synced data model for surface: ${surfaceId}`)
     } catch (error) {
       this.log(`Failed to sync data model: ${String(error)}`)
     }
   }
 
-  /**
-   * Set nested value using JSON Pointer path
-   */
-  private setNestedValue(
-    obj: Record<string, unknown>,
-    path: string,
-    value: unknown
-  ): void {
-    const keys = path.split('/').filter((k) => k !== '')
-    let current: any = obj
-
-    for (let i = 0; i < keys.length - 1; i++) {
-      const key = keys[i]!
-      if (!(key in current)) {
-        current[key] = {}
-      }
-      current = current[key]
-    }
-
-    const lastKey = keys[keys.length - 1]
-    if (lastKey) {
-      current[lastKey] = value
-    }
-  }
-
-  /**
-   * Delete nested value using JSON Pointer path
-   */
-  private deleteNestedValue(obj: Record<string, unknown>, path: string): void {
-    const keys = path.split('/').filter((k) => k !== '')
-    let current: any = obj
-
-    for (let i = 0; i < keys.length - 1; i++) {
-      const key = keys[i]!
-      if (!(key in current)) {
-        return
-      }
-      current = current[key]
-    }
-
-    const lastKey = keys[keys.length - 1]
-    if (lastKey && lastKey in current) {
-      delete current[lastKey]
-    }
-  }
-
   /**
    * Set up default action handlers
    */
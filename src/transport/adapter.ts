@@ -0,0 +1,57 @@
+/**
+ * A2UI Transport Adapters
+ * Pluggable connection layer used by A2UITransport and MCPTransport
+ *
+ * An adapter only moves serialized messages over one kind of connection
+ * (WebSocket, Server-Sent Events, HTTP long-poll, in-memory). Reconnect,
+ * ping/pong and message routing live in the transports, so every adapter
+ * gets the same semantics.
+ */
+
+/**
+ * Callbacks an adapter reports connection events to
+ */
+export interface TransportAdapterHandlers {
+  /** The connection is open and `send` may be called */
+  onOpen(): void
+  /** A serialized message arrived */
+  onMessage(data: string): void
+  /** The connection ended, including after `close()` */
+  onClose(): void
+  /** A connection or delivery error occurred */
+  onError(error: Error): void
+}
+
+/**
+ * Connection adapter
+ *
+ * Contract:
+ * - `open()` may be called again after the connection closed (reconnect)
+ * - `onClose` fires exactly once per successful or failed `open()`
+ * - `send()` throws when the connection is not open
+ */
+export interface A2UITransportAdapter {
+  /** Adapter kind, e.g. 'websocket', 'sse', 'long-poll', 'memory' */
+  readonly kind: string
+  /** Whether `send` may currently be called */
+  readonly isOpen: boolean
+  /** Open the connection and report events to `handlers` */
+  open(handlers: TransportAdapterHandlers): void
+  /** Send a serialized message */
+  send(data: string): void
+  /** Close the connection */
+  close(): void
+}
+
+/**
+ * Check whether a value implements A2UITransportAdapter
+ */
+export function isTransportAdapter(value: unknown): value is A2UITransportAdapter {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as A2UITransportAdapter).open === 'function' &&
+    typeof (value as A2UITransportAdapter).send === 'function' &&
+    typeof (value as A2UITransportAdapter).close === 'function'
+  )
+}
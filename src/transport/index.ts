@@ -1,6 +1,34 @@
 /**
- * A2UI WebSocket Transport
+ * A2UI Transport
  */
 
 export { A2UITransport } from './transport.js'
-export type { TransportStatus, TransportOptions, EventHandler } from './transport.js'
+export type {
+  TransportStatus,
+  TransportOptions,
+  EventHandler,
+  InboundMessageGuard,
+} from './transport.js'
+
+export { isTransportAdapter } from './adapter.js'
+export type { A2UITransportAdapter, TransportAdapterHandlers } from './adapter.js'
+
+export { ReliableDelivery } from './reliable-delivery.js'
+export type {
+  ReliableDeliveryOptions,
+  SequencedMessage,
+  ResyncRequest,
+  ReceiveResult,
+  ReplayResult,
+} from './reliable-delivery.js'
+
+export { WebSocketTransportAdapter } from './websocket-adapter.js'
+export type { WebSocketAdapterOptions } from './websocket-adapter.js'
+
+export { SSETransportAdapter } from './sse-adapter.js'
+export type { SSEAdapterOptions } from './sse-adapter.js'
+
+export { LongPollTransportAdapter } from './long-poll-adapter.js'
+export type { LongPollAdapterOptions, LongPollResponse } from './long-poll-adapter.js'
+
+export { MemoryTransportAdapter, createMemoryTransportPair } from './memory-adapter.js'
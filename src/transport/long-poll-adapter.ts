@@ -0,0 +1,151 @@
+/**
+ * HTTP Long-Poll Transport Adapter
+ * Receives messages by repeatedly polling an endpoint and sends them with
+ * HTTP POST, for environments where neither WebSocket nor SSE is available
+ */
+
+import type { A2UITransportAdapter, TransportAdapterHandlers } from './adapter.js'
+
+/**
+ * Long-poll adapter options
+ */
+export interface LongPollAdapterOptions {
+  /** Poll URL; the server holds the request until messages are available */
+  url: string
+  /** URL messages are POSTed to (default: `url`) */
+  sendUrl?: string
+  /** Extra headers for all requests */
+  headers?: Record<string, string>
+  /** Send cookies with requests */
+  withCredentials?: boolean
+  /** Client-side timeout for a single poll in ms (default: 35000) */
+  pollTimeout?: number
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch
+}
+
+/**
+ * Poll response body
+ * The server returns the messages received since `cursor` and a new cursor;
+ * a 204 response means no messages arrived before the server timeout.
+ */
+export interface LongPollResponse {
+  messages: unknown[]
+  cursor?: string
+}
+
+/**
+ * Transport adapter over HTTP long-polling
+ */
+export class LongPollTransportAdapter implements A2UITransportAdapter {
+  readonly kind = 'long-poll'
+  private handlers: TransportAdapterHandlers | null = null
+  private controller: AbortController | null = null
+  private cursor: string | undefined
+
+  constructor(private readonly options: LongPollAdapterOptions) {}
+
+  get isOpen(): boolean {
+    return this.handlers !== null
+  }
+
+  open(handlers: TransportAdapterHandlers): void {
+    this.handlers = handlers
+    this.cursor = undefined
+
+    // HTTP is connectionless: the channel is usable as soon as polling starts
+    queueMicrotask(() => {
+      if (this.handlers !== handlers) return
+      handlers.onOpen()
+      void this.poll(handlers)
+    })
+  }
+
+  send(data: string): void {
+    if (!this.isOpen) {
+      throw new Error('Long-poll channel not open')
+    }
+
+    const handlers = this.handlers
+    this.request(this.options.sendUrl ?? this.options.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: data,
+    })
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`POST failed with status ${response.status}`)
+        }
+      })
+      .catch((error: unknown) => {
+        handlers?.onError(toError(error))
+      })
+  }
+
+  close(): void {
+    const handlers = this.handlers
+    if (!handlers) return
+
+    this.handlers = null
+    this.controller?.abort()
+    this.controller = null
+    handlers.onClose()
+  }
+
+  private async poll(handlers: TransportAdapterHandlers): Promise<void> {
+    while (this.handlers === handlers) {
+      const controller = new AbortController()
+      this.controller = controller
+      const timer = setTimeout(() => controller.abort(), this.options.pollTimeout ?? 35000)
+
+      try {
+        const url = new URL(this.options.url, globalThis.location?.href)
+        if (this.cursor !== undefined) {
+          url.searchParams.set('cursor', this.cursor)
+        }
+
+        const response = await this.request(url.toString(), {
+          method: 'GET',
+          signal: controller.signal,
+        })
+
+        if (response.status === 204) continue
+        if (!response.ok) {
+          throw new Error(`Poll failed with status ${response.status}`)
+        }
+
+        const body = (await response.json()) as LongPollResponse
+        if (body.cursor !== undefined) {
+          this.cursor = body.cursor
+        }
+        for (const message of body.messages ?? []) {
+          if (this.handlers !== handlers) return
+          handlers.onMessage(typeof message === 'string' ? message : JSON.stringify(message))
+        }
+      } catch (error) {
+        if (this.handlers !== handlers) return
+        // A client-side poll timeout just starts the next poll
+        if (controller.signal.aborted) continue
+
+        handlers.onError(toError(error))
+        this.close()
+        return
+      } finally {
+        clearTimeout(timer)
+      }
+    }
+  }
+
+  private request(url: string, init: RequestInit): Promise<Response> {
+    const fetchImpl = this.options.fetch ?? globalThis.fetch
+    return fetchImpl(url, {
+      ...init,
+      headers: { ...this.options.headers, ...(init.headers as Record<string, string> | undefined) },
+      credentials: this.options.withCredentials ? 'include' : 'same-origin',
+    })
+  }
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
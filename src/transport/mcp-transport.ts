@@ -1,6 +1,6 @@
 /**
  * Model Context Protocol (MCP) Transport Layer
- * WebSocket-based MCP client for connecting to MCP servers
+ * MCP client for connecting to MCP servers over WebSocket, SSE or a custom adapter
  */
 
 import type {
@@ -21,6 +21,9 @@ import type {
   JsonRpcVersion,
 } from '../types/mcp-protocol.js'
 import { MCPErrorCode, MCPMethod, isMCPResponse, isMCPNotification, isMCPError } from '../types/mcp-protocol.js'
+import type { A2UITransportAdapter, TransportAdapterHandlers } from './adapter.js'
+import { WebSocketTransportAdapter } from './websocket-adapter.js'
+import { SSETransportAdapter } from './sse-adapter.js'
 
 /**
  * MCP Transport Options
@@ -28,8 +31,10 @@ import { MCPErrorCode, MCPMethod, isMCPResponse, isMCPNotification, isMCPError }
 export interface MCPTransportOptions {
   /** Server URL (e.g., "ws://localhost:8080") */
   serverUrl: string
-  /** Transport protocol */
+  /** Transport protocol: 'ws'/'wss' use WebSocket, 'http'/'https' use SSE + POST */
   protocol?: MCPTransportProtocol
+  /** Custom connection adapter (overrides `protocol`) */
+  adapter?: A2UITransportAdapter
   /** Auto-reconnect on disconnect */
   reconnect?: boolean
   /** Reconnect interval in ms */
@@ -56,22 +61,45 @@ interface PendingRequest {
   timeout: ReturnType<typeof setTimeout>
 }
 
+/**
+ * Create the connection adapter for an MCP transport protocol
+ */
+function createProtocolAdapter(
+  protocol: MCPTransportProtocol,
+  serverUrl: string
+): A2UITransportAdapter {
+  switch (protocol) {
+    case 'ws':
+    case 'wss':
+      return new WebSocketTransportAdapter(serverUrl)
+    case 'http':
+    case 'https':
+      return new SSETransportAdapter({ url: serverUrl })
+    case 'stdio':
+      throw new Error("MCP protocol 'stdio' is not supported here; pass an adapter instead")
+  }
+}
+
 /**
  * MCP Transport Class
- * Implements Model Context Protocol over WebSocket
+ * Implements Model Context Protocol over a connection adapter
  */
 export class MCPTransport {
-  private ws: WebSocket | null = null
+  private adapter: A2UITransportAdapter | null = null
+  private connection: TransportAdapterHandlers | null = null
   private _state: MCPConnectionState = 'disconnected'
-  private readonly options: Required<MCPTransportOptions>
+  private readonly customAdapter: A2UITransportAdapter | undefined
+  private readonly options: Required<Omit<MCPTransportOptions, 'adapter'>>
   private reconnectAttempts = 0
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private rejectConnect: ((error: Error) => void) | null = null
   private requestIdCounter = 0
   private pendingRequests = new Map<string | number, PendingRequest>()
   private readonly handlers = new Map<string, Set<MCPEventHandler>>()
   private initializeResult: MCPInitializeResult | null = null
 
   constructor(options: MCPTransportOptions) {
+    this.customAdapter = options.adapter
     this.options = {
       serverUrl: options.serverUrl,
       protocol: options.protocol ?? 'ws',
@@ -95,33 +123,51 @@ export class MCPTransport {
     this.emit('stateChange', this._state)
 
     return new Promise((resolve, reject) => {
-      try {
-        this.ws = new WebSocket(this.options.serverUrl)
-
-        this.ws.onopen = () => {
+      this.rejectConnect = reject
+      // Events from a connection that was replaced or closed by disconnect() are ignored
+      const connection: TransportAdapterHandlers = {
+        onOpen: () => {
+          if (this.connection !== connection) return
+          this.rejectConnect = null
           this._state = 'connected'
           this.reconnectAttempts = 0
           this.emit('stateChange', this._state)
           this.emit('connected', undefined)
           this.log('Connected to MCP server')
           resolve()
-        }
-
-        this.ws.onmessage = (event) => {
-          this.handleMessage(event.data as string)
-        }
-
-        this.ws.onerror = (error) => {
-          this._state = 'error'
-          this.emit('stateChange', this._state)
-          this.emit('error', new Error(`WebSocket error: ${String(error)}`))
+        },
+        onMessage: (data) => {
+          if (this.connection !== connection) return
+          this.handleMessage(data)
+        },
+        onError: (error) => {
+          if (this.connection !== connection) return
+          // After open, the adapter's onClose follows and drives reconnection
+          if (this._state === 'connecting') {
+            this._state = 'error'
+            this.emit('stateChange', this._state)
+          }
+          this.emit('error', new Error(`${this.adapter?.kind ?? 'MCP'} error: ${error.message}`))
+          this.rejectConnect = null
           reject(new Error('MCP connection failed'))
-        }
-
-        this.ws.onclose = () => {
+        },
+        onClose: () => {
+          if (this.connection !== connection) return
+          this.connection = null
+          this.rejectConnect = null
           this.handleClose()
-        }
+          reject(new Error('MCP connection closed'))
+        },
+      }
+      this.connection = connection
+
+      try {
+        this.adapter ??=
+          this.customAdapter ?? createProtocolAdapter(this.options.protocol, this.options.serverUrl)
+        this.adapter.open(connection)
       } catch (error) {
+        this.connection = null
+        this.rejectConnect = null
         this._state = 'error'
         this.emit('stateChange', this._state)
         reject(error)
@@ -131,10 +177,14 @@ export class MCPTransport {
 
   /**
    * Disconnect from MCP server
+   * A connect() still in progress is rejected.
    */
   async disconnect(): Promise<void> {
     this.stopReconnect()
 
+    const rejectConnect = this.rejectConnect
+    this.rejectConnect = null
+
     // Send shutdown notification
     if (this.isConnected) {
       try {
@@ -144,9 +194,9 @@ export class MCPTransport {
       }
     }
 
-    if (this.ws) {
-      this.ws.close()
-      this.ws = null
+    if (this.connection) {
+      this.connection = null
+      this.adapter?.close()
     }
 
     // Reject all pending requests
@@ -160,6 +210,7 @@ export class MCPTransport {
     this.emit('stateChange', this._state)
     this.emit('disconnected', undefined)
     this.log('Disconnected from MCP server')
+    rejectConnect?.(new Error('Disconnected before the connection opened'))
   }
 
   /**
@@ -370,8 +421,9 @@ export class MCPTransport {
   get isConnected(): boolean {
     return (
       (this._state === 'connected' || this._state === 'ready' || this._state === 'initializing') &&
-      this.ws !== null &&
-      this.ws.readyState === WebSocket.OPEN
+      this.connection !== null &&
+      this.adapter !== null &&
+      this.adapter.isOpen
     )
   }
 
@@ -386,12 +438,11 @@ export class MCPTransport {
    * Send raw message to server
    */
   private send(message: MCPMessage): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error('WebSocket not open')
+    if (!this.connection || !this.adapter?.isOpen) {
+      throw new Error('Connection not open')
     }
 
-    const json = JSON.stringify(message)
-    this.ws.send(json)
+    this.adapter.send(JSON.stringify(message))
     this.log('Sent:', message)
   }
 
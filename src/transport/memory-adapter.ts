@@ -0,0 +1,101 @@
+/**
+ * In-Memory Transport Adapter
+ * Paired loopback channel for tests and same-process agents
+ *
+ * @example
+ * ```typescript
+ * const [clientEnd, agentEnd] = createMemoryTransportPair()
+ *
+ * const client = new A2UITransport(clientEnd)
+ * const agent = new A2UITransport(agentEnd)
+ *
+ * await Promise.all([client.connect(), agent.connect()])
+ * agent.send({ type: 'createSurface', surfaceId: 'main', components: [] })
+ * ```
+ */
+
+import type { A2UITransportAdapter, TransportAdapterHandlers } from './adapter.js'
+
+/**
+ * One end of an in-memory channel
+ *
+ * Messages are delivered asynchronously. Messages sent while the peer is not
+ * open are queued and delivered once it opens. Closing one end closes the
+ * other, like a dropped network connection.
+ */
+export class MemoryTransportAdapter implements A2UITransportAdapter {
+  readonly kind = 'memory'
+  private peer: MemoryTransportAdapter | null = null
+  private handlers: TransportAdapterHandlers | null = null
+  private readonly inbox: string[] = []
+
+  get isOpen(): boolean {
+    return this.handlers !== null
+  }
+
+  /**
+   * Connect two ends (use createMemoryTransportPair instead)
+   */
+  static link(a: MemoryTransportAdapter, b: MemoryTransportAdapter): void {
+    a.peer = b
+    b.peer = a
+  }
+
+  open(handlers: TransportAdapterHandlers): void {
+    this.handlers = handlers
+    queueMicrotask(() => {
+      if (this.handlers !== handlers) return
+      handlers.onOpen()
+      this.flush()
+    })
+  }
+
+  send(data: string): void {
+    if (!this.isOpen) {
+      throw new Error('Memory channel not open')
+    }
+    if (!this.peer) {
+      throw new Error('Memory channel has no peer')
+    }
+    this.peer.receive(data)
+  }
+
+  close(): void {
+    const handlers = this.handlers
+    if (!handlers) return
+
+    this.handlers = null
+    this.inbox.length = 0
+    handlers.onClose()
+    this.peer?.close()
+  }
+
+  /**
+   * Simulate a network failure on this end
+   */
+  fail(error: Error = new Error('Memory channel failed')): void {
+    this.handlers?.onError(error)
+    this.close()
+  }
+
+  private receive(data: string): void {
+    this.inbox.push(data)
+    queueMicrotask(() => this.flush())
+  }
+
+  private flush(): void {
+    while (this.handlers && this.inbox.length > 0) {
+      this.handlers.onMessage(this.inbox.shift()!)
+    }
+  }
+}
+
+/**
+ * Create two linked in-memory adapters
+ */
+export function createMemoryTransportPair(): [MemoryTransportAdapter, MemoryTransportAdapter] {
+  const a = new MemoryTransportAdapter()
+  const b = new MemoryTransportAdapter()
+  MemoryTransportAdapter.link(a, b)
+  return [a, b]
+}
@@ -0,0 +1,215 @@
+/**
+ * Reliable Delivery
+ * Per-surface sequence numbers, cumulative acks and replay on reconnect
+ *
+ * Connection-independent bookkeeping used by A2UITransport in reliable mode.
+ * Every outbound message that carries a `surfaceId` gets the next sequence
+ * number of its surface and stays buffered until the peer acks it. After a
+ * reconnect each side sends a `resume` message with the last sequence number
+ * it received per surface; the peer replays what is missing, or reports the
+ * surface as needing a fresh `createSurface` snapshot when the missing
+ * messages are no longer buffered.
+ */
+
+import type { AckMessage, BaseMessage, ResumeMessage } from '../types/index.js'
+
+/**
+ * Reliable delivery options
+ */
+export interface ReliableDeliveryOptions {
+  /** Max unacknowledged messages buffered per surface (default: 500) */
+  maxBufferedMessages?: number
+}
+
+/**
+ * Message with a surface and a sequence number
+ */
+export type SequencedMessage = BaseMessage & { surfaceId: string; seq: number }
+
+/**
+ * Surface whose missed messages cannot be replayed
+ */
+export interface ResyncRequest {
+  surfaceId: string
+  /** Last sequence number the peer received */
+  lastSeq: number
+}
+
+/**
+ * Outcome of receiving a sequenced message
+ */
+export interface ReceiveResult {
+  /** Whether to hand the message to listeners */
+  deliver: boolean
+  /** Ack to send back */
+  ack?: AckMessage
+  /** Resume request to send back after detecting a gap */
+  resume?: ResumeMessage
+}
+
+/**
+ * Outcome of a peer's resume request
+ */
+export interface ReplayResult {
+  /** Buffered messages to send again, in order */
+  messages: SequencedMessage[]
+  /** Surfaces that need a fresh snapshot */
+  resync: ResyncRequest[]
+}
+
+interface OutboundSurface {
+  nextSeq: number
+  buffer: SequencedMessage[]
+}
+
+/**
+ * Sequence, ack and replay bookkeeping for one end of a connection
+ */
+export class ReliableDelivery {
+  private readonly maxBufferedMessages: number
+  private readonly outbound = new Map<string, OutboundSurface>()
+  private readonly inbound = new Map<string, number>()
+  private readonly awaitingReplay = new Set<string>()
+
+  constructor(options: ReliableDeliveryOptions = {}) {
+    this.maxBufferedMessages = options.maxBufferedMessages ?? 500
+  }
+
+  /**
+   * Surface a message is sequenced under, if any
+   */
+  static surfaceOf(message: BaseMessage): string | undefined {
+    if (message.type === 'ack' || message.type === 'resume') {
+      return undefined
+    }
+    const surfaceId = (message as { surfaceId?: unknown }).surfaceId
+    return typeof surfaceId === 'string' ? surfaceId : undefined
+  }
+
+  /**
+   * Assign the next sequence number and buffer the message until acked
+   * Returns the message unchanged when it has no surface.
+   */
+  prepare<T extends BaseMessage>(message: T): T {
+    const surfaceId = ReliableDelivery.surfaceOf(message)
+    if (surfaceId === undefined) {
+      return message
+    }
+
+    let surface = this.outbound.get(surfaceId)
+    if (!surface) {
+      surface = { nextSeq: 1, buffer: [] }
+      this.outbound.set(surfaceId, surface)
+    }
+
+    const sequenced = { ...message, surfaceId, seq: surface.nextSeq++ }
+
+    // A snapshot supersedes everything sent before it
+    if (message.type === 'createSurface') {
+      surface.buffer = []
+    }
+    surface.buffer.push(sequenced)
+    if (surface.buffer.length > this.maxBufferedMessages) {
+      surface.buffer.shift()
+    }
+
+    return sequenced
+  }
+
+  /**
+   * Drop buffered messages the peer acknowledged
+   */
+  acknowledge(surfaceId: string, seq: number): void {
+    const surface = this.outbound.get(surfaceId)
+    if (!surface) return
+
+    const index = surface.buffer.findIndex((message) => message.seq > seq)
+    surface.buffer = index === -1 ? [] : surface.buffer.slice(index)
+  }
+
+  /**
+   * Track an inbound sequenced message
+   *
+   * A snapshot is always delivered and restarts the sequence at its own
+   * number, since a restarted sender numbers its snapshot from 1 again.
+   * Duplicates are acked again but not delivered. A gap triggers one resume
+   * request; later messages of that surface are dropped until the replay or
+   * a snapshot arrives.
+   */
+  receive(message: SequencedMessage): ReceiveResult {
+    const { surfaceId, seq } = message
+    const lastSeq = this.inbound.get(surfaceId) ?? 0
+
+    if (message.type === 'createSurface' || seq === lastSeq + 1) {
+      this.inbound.set(surfaceId, seq)
+      this.awaitingReplay.delete(surfaceId)
+      return { deliver: true, ack: this.ackFor(surfaceId, seq) }
+    }
+
+    if (seq <= lastSeq) {
+      return { deliver: false, ack: this.ackFor(surfaceId, lastSeq) }
+    }
+
+    if (this.awaitingReplay.has(surfaceId)) {
+      return { deliver: false }
+    }
+    this.awaitingReplay.add(surfaceId)
+    return { deliver: false, resume: this.resumeMessage() }
+  }
+
+  /**
+   * Resume request describing everything received so far
+   */
+  resumeMessage(): ResumeMessage {
+    return { type: 'resume', surfaces: Object.fromEntries(this.inbound) }
+  }
+
+  /**
+   * Answer a peer's resume request
+   */
+  replay(resume: ResumeMessage): ReplayResult {
+    const result: ReplayResult = { messages: [], resync: [] }
+
+    for (const [surfaceId, surface] of this.outbound) {
+      const lastSeq = resume.surfaces[surfaceId] ?? 0
+      if (lastSeq >= surface.nextSeq - 1) continue
+
+      this.acknowledge(surfaceId, lastSeq)
+      const first = surface.buffer[0]
+      if (first && (first.seq === lastSeq + 1 || first.type === 'createSurface')) {
+        result.messages.push(...surface.buffer)
+      } else {
+        result.resync.push({ surfaceId, lastSeq })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Number of unacknowledged outbound messages
+   */
+  pending(surfaceId?: string): number {
+    if (surfaceId !== undefined) {
+      return this.outbound.get(surfaceId)?.buffer.length ?? 0
+    }
+    let count = 0
+    for (const surface of this.outbound.values()) {
+      count += surface.buffer.length
+    }
+    return count
+  }
+
+  /**
+   * Forget all sequence state
+   */
+  reset(): void {
+    this.outbound.clear()
+    this.inbound.clear()
+    this.awaitingReplay.clear()
+  }
+
+  private ackFor(surfaceId: string, seq: number): AckMessage {
+    return { type: 'ack', surfaceId, seq }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Server-Sent Events Transport Adapter
+ * Receives messages over an EventSource stream and sends them with HTTP POST,
+ * for deployments whose proxies do not allow WebSocket upgrades
+ */
+
+import type { A2UITransportAdapter, TransportAdapterHandlers } from './adapter.js'
+
+/**
+ * SSE adapter options
+ */
+export interface SSEAdapterOptions {
+  /** Event stream URL */
+  url: string
+  /** URL messages are POSTed to (default: `url`) */
+  sendUrl?: string
+  /** Extra headers for POST requests */
+  headers?: Record<string, string>
+  /** Send cookies with the stream and POST requests */
+  withCredentials?: boolean
+  /** SSE event name carrying messages (default: 'message') */
+  eventName?: string
+  /** EventSource implementation (default: global EventSource) */
+  EventSource?: typeof EventSource
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch
+}
+
+/**
+ * Transport adapter over Server-Sent Events + fetch POST
+ *
+ * The browser's own EventSource retry is disabled: any stream error closes
+ * the adapter so that the transport's reconnect policy applies.
+ */
+export class SSETransportAdapter implements A2UITransportAdapter {
+  readonly kind = 'sse'
+  private source: EventSource | null = null
+  private handlers: TransportAdapterHandlers | null = null
+  private opened = false
+
+  constructor(private readonly options: SSEAdapterOptions) {}
+
+  get isOpen(): boolean {
+    return this.source !== null && this.opened
+  }
+
+  open(handlers: TransportAdapterHandlers): void {
+    const EventSourceImpl = this.options.EventSource ?? globalThis.EventSource
+    if (!EventSourceImpl) {
+      throw new Error('EventSource is not available')
+    }
+
+    const source = new EventSourceImpl(this.options.url, {
+      withCredentials: this.options.withCredentials ?? false,
+    })
+    this.source = source
+    this.handlers = handlers
+    this.opened = false
+
+    // Events from a source replaced by a later open() or closed by close() are ignored
+    source.onopen = (): void => {
+      if (this.source !== source) return
+      this.opened = true
+      handlers.onOpen()
+    }
+    source.addEventListener(this.options.eventName ?? 'message', (event: Event): void => {
+      if (this.source !== source) return
+      handlers.onMessage((event as MessageEvent).data as string)
+    })
+    source.onerror = (): void => {
+      if (this.source !== source) return
+      handlers.onError(new Error('EventSource error'))
+      this.close()
+    }
+  }
+
+  send(data: string): void {
+    if (!this.isOpen) {
+      throw new Error('Event stream not open')
+    }
+
+    const fetchImpl = this.options.fetch ?? globalThis.fetch
+    const handlers = this.handlers
+    fetchImpl(this.options.sendUrl ?? this.options.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: data,
+      credentials: this.options.withCredentials ? 'include' : 'same-origin',
+    })
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`POST failed with status ${response.status}`)
+        }
+      })
+      .catch((error: unknown) => {
+        handlers?.onError(error instanceof Error ? error : new Error(String(error)))
+      })
+  }
+
+  close(): void {
+    const source = this.source
+    const handlers = this.handlers
+    if (!source) return
+
+    this.source = null
+    this.handlers = null
+    this.opened = false
+    source.close()
+    handlers?.onClose()
+  }
+}
@@ -1,9 +1,14 @@
 /**
- * A2UI WebSocket Transport Layer
- * Framework-agnostic agent communication
+ * A2UI Transport Layer
+ * Framework-agnostic agent communication over pluggable connection adapters
  */
 
-import type { A2UIMessage } from '../types/index.js'
+import type { A2UIMessage, BaseMessage, ResumeMessage } from '../types/index.js'
+import type { A2UITransportAdapter, TransportAdapterHandlers } from './adapter.js'
+import { isTransportAdapter } from './adapter.js'
+import { WebSocketTransportAdapter } from './websocket-adapter.js'
+import { ReliableDelivery } from './reliable-delivery.js'
+import type { ReliableDeliveryOptions, SequencedMessage } from './reliable-delivery.js'
 
 /**
  * Transport connection status
@@ -24,6 +29,16 @@ export interface TransportOptions {
   pingInterval?: number
   /** Pong timeout in ms */
   pongTimeout?: number
+  /**
+   * Answer `ping` messages from the other end with `pong` (default: false)
+   * Answered pings are not emitted to listeners.
+   */
+  answerPings?: boolean
+  /**
+   * Sequence, ack and replay surface messages across reconnects (default: false)
+   * Both ends of the connection must enable it.
+   */
+  reliable?: boolean | ReliableDeliveryOptions
 }
 
 /**
@@ -31,32 +46,63 @@ export interface TransportOptions {
  */
 export type EventHandler<T = unknown> = (data: T) => void
 
+/**
+ * Decides whether a received message is dispatched to listeners
+ * A promise holds the message back until it settles.
+ */
+export type InboundMessageGuard = (message: A2UIMessage) => boolean | Promise<boolean>
+
 /**
  * A2UI Transport class
- * Manages WebSocket connection and message routing
+ * Manages the connection, reconnects, keep-alive and message routing
+ *
+ * Pass a URL to connect over WebSocket, or any A2UITransportAdapter
+ * (SSETransportAdapter, LongPollTransportAdapter, MemoryTransportAdapter, ...)
+ * to use another connection type with the same semantics.
  */
 export class A2UITransport {
-  private ws: WebSocket | null = null
+  private readonly adapter: A2UITransportAdapter
+  private connection: TransportAdapterHandlers | null = null
   private _status: TransportStatus = 'disconnected'
-  private readonly url: string
   private readonly options: Required<TransportOptions>
   private reconnectAttempts = 0
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null
   private pingTimer: ReturnType<typeof setInterval> | null = null
   private pongTimer: ReturnType<typeof setTimeout> | null = null
+  private readonly delivery: ReliableDelivery | null
+  private guard: InboundMessageGuard | null = null
+  private rejectConnect: ((error: Error) => void) | null = null
+  // Per surface ('' for messages without one): dispatch of the last message held by the guard
+  private readonly heldDispatches = new Map<string, Promise<void>>()
 
   // Event handlers
   private readonly handlers = new Map<string, Set<EventHandler>>()
 
-  constructor(url: string, options: TransportOptions = {}) {
-    this.url = url
+  constructor(urlOrAdapter: string | A2UITransportAdapter, options: TransportOptions = {}) {
+    this.adapter =
+      typeof urlOrAdapter === 'string' ? new WebSocketTransportAdapter(urlOrAdapter) : urlOrAdapter
     this.options = {
       autoReconnect: options.autoReconnect ?? true,
       reconnectDelay: options.reconnectDelay ?? 3000,
       maxReconnectAttempts: options.maxReconnectAttempts ?? 5,
       pingInterval: options.pingInterval ?? 30000,
       pongTimeout: options.pongTimeout ?? 5000,
+      answerPings: options.answerPings ?? false,
+      reliable: options.reliable ?? false,
     }
+    this.delivery = this.options.reliable
+      ? new ReliableDelivery(this.options.reliable === true ? {} : this.options.reliable)
+      : null
+  }
+
+  /**
+   * Use an existing transport, or wrap a connection adapter in a new one
+   */
+  static from(
+    source: A2UITransport | A2UITransportAdapter,
+    options?: TransportOptions
+  ): A2UITransport {
+    return isTransportAdapter(source) ? new A2UITransport(source, options) : source
   }
 
   /**
@@ -71,33 +117,52 @@ export class A2UITransport {
     this.emit('statusChange', this._status)
 
     return new Promise((resolve, reject) => {
-      try {
-        this.ws = new WebSocket(this.url)
-
-        this.ws.onopen = () => {
+      this.rejectConnect = reject
+      // Events from a connection that was replaced or closed by disconnect() are ignored
+      const connection: TransportAdapterHandlers = {
+        onOpen: () => {
+          if (this.connection !== connection) return
+          this.rejectConnect = null
           this._status = 'connected'
           this.reconnectAttempts = 0
           this.emit('statusChange', this._status)
           this.emit('connect', undefined)
           this.startPing()
+          if (this.delivery) {
+            this.write(this.delivery.resumeMessage())
+          }
           resolve()
-        }
-
-        this.ws.onmessage = (event) => {
-          this.handleMessage(event.data as string)
-        }
-
-        this.ws.onerror = () => {
-          this._status = 'error'
-          this.emit('statusChange', this._status)
-          this.emit('error', new Error('WebSocket error'))
-          reject(new Error('WebSocket connection failed'))
-        }
-
-        this.ws.onclose = () => {
+        },
+        onMessage: (data) => {
+          if (this.connection !== connection) return
+          this.handleMessage(data)
+        },
+        onError: (error) => {
+          if (this.connection !== connection) return
+          // After open, the adapter's onClose follows and drives reconnection
+          if (this._status === 'connecting') {
+            this._status = 'error'
+            this.emit('statusChange', this._status)
+          }
+          this.emit('error', error)
+          this.rejectConnect = null
+          reject(new Error(`${this.adapter.kind} connection failed`))
+        },
+        onClose: () => {
+          if (this.connection !== connection) return
+          this.connection = null
+          this.rejectConnect = null
           this.handleClose()
-        }
+          reject(new Error(`${this.adapter.kind} connection closed`))
+        },
+      }
+      this.connection = connection
+
+      try {
+        this.adapter.open(connection)
       } catch (error) {
+        this.connection = null
+        this.rejectConnect = null
         this._status = 'error'
         this.emit('statusChange', this._status)
         reject(error)
@@ -107,31 +172,44 @@ export class A2UITransport {
 
   /**
    * Disconnect from the agent
+   * A connect() still in progress is rejected.
    */
   disconnect(): void {
     this.stopPing()
     this.stopReconnect()
 
-    if (this.ws) {
-      this.ws.close()
-      this.ws = null
+    const rejectConnect = this.rejectConnect
+    this.rejectConnect = null
+
+    if (this.connection) {
+      this.connection = null
+      this.adapter.close()
     }
 
     this._status = 'disconnected'
     this.emit('statusChange', this._status)
     this.emit('disconnect', undefined)
+    rejectConnect?.(new Error('Disconnected before the connection opened'))
   }
 
   /**
    * Send a message to the agent
+   *
+   * In reliable mode, surface messages sent while disconnected are buffered
+   * and delivered once the peer resumes.
    */
   send(message: A2UIMessage): void {
+    const base = message as BaseMessage
+    if (this.delivery && ReliableDelivery.surfaceOf(base) !== undefined) {
+      this.write(this.delivery.prepare(base))
+      return
+    }
+
     if (!this.isConnected) {
       throw new Error('Cannot send message: not connected')
     }
 
-    const json = JSON.stringify(message)
-    this.ws!.send(json)
+    this.write(message)
   }
 
   /**
@@ -154,6 +232,17 @@ export class A2UITransport {
     }
   }
 
+  /**
+   * Gate received messages before they reach listeners (null removes the guard)
+   *
+   * Messages keep their order per surface: a message held by a pending
+   * promise is dispatched when it resolves to true, and later messages for
+   * the same surface wait behind it. Other surfaces are not held up.
+   */
+  setInboundGuard(guard: InboundMessageGuard | null): void {
+    this.guard = guard
+  }
+
   /**
    * Get current status
    */
@@ -165,7 +254,22 @@ export class A2UITransport {
    * Check if connected
    */
   get isConnected(): boolean {
-    return this._status === 'connected' && this.ws !== null && this.ws.readyState === WebSocket.OPEN
+    return this._status === 'connected' && this.connection !== null && this.adapter.isOpen
+  }
+
+  /**
+   * Number of surface messages not yet acknowledged by the peer
+   * (always 0 unless reliable delivery is enabled)
+   */
+  get pendingCount(): number {
+    return this.delivery?.pending() ?? 0
+  }
+
+  /**
+   * Kind of the underlying connection adapter (e.g. 'websocket', 'sse')
+   */
+  get kind(): string {
+    return this.adapter.kind
   }
 
   /**
@@ -173,24 +277,129 @@ export class A2UITransport {
    */
   private handleMessage(data: string): void {
     try {
-      const message = JSON.parse(data) as A2UIMessage
+      const message = JSON.parse(data) as BaseMessage
+      const { type } = message
 
       // Handle pong response
-      if (message.type === 'pong') {
+      if (type === 'pong') {
         this.handlePong()
         return
       }
 
-      // Emit message to specific type handlers
-      this.emit(message.type, message)
+      // Answer keep-alive pings from the other end when enabled
+      if (type === 'ping' && this.options.answerPings) {
+        if (this.isConnected) this.send({ type: 'pong' })
+        return
+      }
+
+      if (this.delivery && !this.handleDelivery(message)) {
+        return
+      }
 
-      // Emit to generic message handler
-      this.emit('message', message)
+      if (this.guard) {
+        this.guardMessage(this.guard, message)
+        return
+      }
+
+      this.dispatch(message)
     } catch (error) {
       this.emit('error', new Error(`Failed to parse message: ${String(error)}`))
     }
   }
 
+  /**
+   * Dispatch a received message once the guard allows it, after any message
+   * for the same surface that the guard still holds
+   * A guard that throws or rejects blocks the message.
+   */
+  private guardMessage(guard: InboundMessageGuard, message: A2UIMessage): void {
+    let verdict: boolean | Promise<boolean>
+    try {
+      verdict = guard(message)
+    } catch (error) {
+      this.emit('error', toError(error))
+      return
+    }
+
+    const lane = ReliableDelivery.surfaceOf(message as BaseMessage) ?? ''
+    const previous = this.heldDispatches.get(lane)
+
+    if (typeof verdict === 'boolean' && !previous) {
+      if (verdict) this.dispatch(message)
+      return
+    }
+
+    const allowed = Promise.resolve(verdict).catch((error) => {
+      this.emit('error', toError(error))
+      return false
+    })
+    const turn = (previous ?? Promise.resolve())
+      .then(() => allowed)
+      .then((dispatch) => {
+        if (dispatch) this.dispatch(message)
+      })
+      .catch((error) => {
+        this.emit('error', toError(error))
+      })
+      .finally(() => {
+        if (this.heldDispatches.get(lane) === turn) this.heldDispatches.delete(lane)
+      })
+    this.heldDispatches.set(lane, turn)
+  }
+
+  /**
+   * Emit a received message to its type handlers and the generic handler
+   */
+  private dispatch(message: A2UIMessage): void {
+    this.emit((message as BaseMessage).type, message)
+    this.emit('message', message)
+  }
+
+  /**
+   * Apply reliable delivery to an incoming message
+   * Returns whether the message should be emitted to listeners.
+   */
+  private handleDelivery(message: BaseMessage): boolean {
+    const delivery = this.delivery!
+
+    if (message.type === 'ack') {
+      const ack = message as SequencedMessage
+      delivery.acknowledge(ack.surfaceId, ack.seq)
+      return false
+    }
+
+    if (message.type === 'resume') {
+      const { messages, resync } = delivery.replay(message as ResumeMessage)
+      for (const replayed of messages) {
+        this.write(replayed)
+      }
+      // The application answers by sending a fresh createSurface snapshot
+      for (const request of resync) {
+        this.emit('resyncRequired', request)
+      }
+      return false
+    }
+
+    const surfaceId = ReliableDelivery.surfaceOf(message)
+    if (surfaceId === undefined || typeof message.seq !== 'number') {
+      return true
+    }
+
+    const { deliver, ack, resume } = delivery.receive(message as SequencedMessage)
+    if (ack) this.write(ack)
+    if (resume) this.write(resume)
+    return deliver
+  }
+
+  /**
+   * Serialize a message onto the connection if it is open
+   */
+  private write(message: unknown): void {
+    if (this.isConnected) {
+      this.adapter.send(JSON.stringify(message))
+    }
+  }
+
   /**
    * Handle connection close
    */
@@ -281,7 +490,7 @@ export class A2UITransport {
 
     this.pongTimer = setTimeout(() => {
       this.emit('error', new Error('Pong timeout: connection may be dead'))
-      this.ws?.close()
+      this.adapter.close()
     }, this.options.pongTimeout)
   }
 
@@ -305,3 +514,7 @@ export class A2UITransport {
     }
   }
 }
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
@@ -0,0 +1,56 @@
+/**
+ * WebSocket Transport Adapter
+ */
+
+import type { A2UITransportAdapter, TransportAdapterHandlers } from './adapter.js'
+
+/**
+ * WebSocket adapter options
+ */
+export interface WebSocketAdapterOptions {
+  /** WebSocket sub-protocols */
+  protocols?: string | string[]
+}
+
+/**
+ * Transport adapter over a browser (or polyfilled) WebSocket
+ */
+export class WebSocketTransportAdapter implements A2UITransportAdapter {
+  readonly kind = 'websocket'
+  private socket: WebSocket | null = null
+
+  constructor(
+    private readonly url: string,
+    private readonly options: WebSocketAdapterOptions = {}
+  ) {}
+
+  get isOpen(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN
+  }
+
+  open(handlers: TransportAdapterHandlers): void {
+    const socket = new WebSocket(this.url, this.options.protocols)
+    this.socket = socket
+
+    socket.onopen = (): void => handlers.onOpen()
+    socket.onmessage = (event: MessageEvent): void => handlers.onMessage(event.data as string)
+    socket.onerror = (): void => handlers.onError(new Error('WebSocket error'))
+    socket.onclose = (): void => {
+      if (this.socket === socket) {
+        this.socket = null
+      }
+      handlers.onClose()
+    }
+  }
+
+  send(data: string): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('WebSocket not open')
+    }
+    this.socket.send(data)
+  }
+
+  close(): void {
+    this.socket?.close()
+  }
+}
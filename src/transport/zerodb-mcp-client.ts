@@ -52,6 +52,14 @@ export interface TableSchema {
   }>
 }
 
+/**
+ * Table query ordering
+ */
+export interface TableSort {
+  column: string
+  order: 'asc' | 'desc'
+}
+
 /**
  * File metadata
  */
@@ -241,13 +249,15 @@ export class ZeroDBMCPClient extends MCPTransport {
     tableName: string,
     filter?: Record<string, unknown>,
     limit?: number,
-    offset?: number
+    offset?: number,
+    sort?: TableSort
   ): Promise<unknown[]> {
     const result = await this.callTool('zerodb_table_query', {
       tableName,
       filter,
       limit,
       offset,
+      sort,
       projectId: this.projectId,
     })
     return this.extractContent<unknown[]>(result)
@@ -408,6 +418,24 @@ export class ZeroDBMCPClient extends MCPTransport {
     return this.extractContent(result)
   }
 
+  /**
+   * Run a SQL query against the project's PostgreSQL instance
+   */
+  async postgresQuery(
+    query: string,
+    params?: unknown[]
+  ): Promise<{
+    rows: unknown[]
+    rowCount?: number
+  }> {
+    const result = await this.callTool('zerodb_postgres_query', {
+      query,
+      params,
+      projectId: this.projectId,
+    })
+    return this.extractContent(result)
+  }
+
   /**
    * Get PostgreSQL connection details
    */
@@ -520,6 +548,26 @@ export class ZeroDBMCPClient extends MCPTransport {
     return this.extractContent<EventData[]>(result)
   }
 
+  // ==================== Analytics Operations ====================
+
+  /**
+   * Query an analytics metric over an optional time range
+   */
+  async analyticsQuery(
+    metric: string,
+    timeRange?: { start: string; end: string }
+  ): Promise<{
+    data: unknown[]
+    aggregations?: Record<string, unknown>
+  }> {
+    const result = await this.callTool('zerodb_analytics_query', {
+      metric,
+      timeRange,
+      projectId: this.projectId,
+    })
+    return this.extractContent(result)
+  }
+
   // ==================== RLHF Operations ====================
 
   /**
@@ -3,6 +3,8 @@
  * Message definitions for collaborative editing, presence, cursors, canvas, and comments
  */
 
+import type { CRDTUpdate, StateVector } from './crdt-types.js'
+
 /**
  * Base collaboration message structure
  */
@@ -43,7 +45,21 @@ export interface CollaborativeEditorChangeMessage extends BaseCollaborationMessa
   changes: EditorOperation[]
   /** User making changes */
   userId: string
-  /** Document version number */
+  /** Document version the changes were made against */
+  version: number
+}
+
+/**
+ * Collaborative Editor Ack Message
+ * Confirms that a user's changes were applied to the shared document
+ */
+export interface CollaborativeEditorAckMessage extends BaseCollaborationMessage {
+  type: 'collaborativeEditorAck'
+  /** Document identifier */
+  documentId: string
+  /** User whose changes were applied */
+  userId: string
+  /** Document version after the changes */
   version: number
 }
 
@@ -61,6 +77,52 @@ export interface CollaborativeEditorSyncMessage extends BaseCollaborationMessage
   version: number
 }
 
+/**
+ * CRDT Sync Step 1 Message
+ * Announces what a replica has; peers answer with step 2
+ */
+export interface CRDTSyncStep1Message extends BaseCollaborationMessage {
+  type: 'crdtSyncStep1'
+  /** Document identifier */
+  documentId: string
+  /** Replica sending the message */
+  clientId: string
+  /** Highest clock the sender has from each client */
+  stateVector: StateVector
+}
+
+/**
+ * CRDT Sync Step 2 Message
+ * Answers step 1 with the changes the requester is missing
+ */
+export interface CRDTSyncStep2Message extends BaseCollaborationMessage {
+  type: 'crdtSyncStep2'
+  /** Document identifier */
+  documentId: string
+  /** Replica sending the message */
+  clientId: string
+  /** Sender's state vector, so the requester can send back what it lacks */
+  stateVector: StateVector
+  /** Changes missing from the requester */
+  update: CRDTUpdate
+}
+
+/**
+ * CRDT Update Message
+ * Broadcasts changes made on a replica
+ */
+export interface CRDTUpdateMessage extends BaseCollaborationMessage {
+  type: 'crdtUpdate'
+  /** Document identifier */
+  documentId: string
+  /** Replica sending the message */
+  clientId: string
+  /** Sender's state vector after the changes */
+  stateVector: StateVector
+  /** Changes */
+  update: CRDTUpdate
+}
+
 /**
  * User information for presence
  */
@@ -309,7 +371,11 @@ export interface CommentReactMessage extends BaseCollaborationMessage {
  */
 export type CollaborationMessage =
   | CollaborativeEditorChangeMessage
+  | CollaborativeEditorAckMessage
   | CollaborativeEditorSyncMessage
+  | CRDTSyncStep1Message
+  | CRDTSyncStep2Message
+  | CRDTUpdateMessage
   | PresenceJoinMessage
   | PresenceLeaveMessage
   | PresenceUpdateMessage
@@ -341,6 +407,17 @@ export function isCollaborativeEditorChangeMessage(
   )
 }
 
+export function isCollaborativeEditorAckMessage(
+  msg: unknown
+): msg is CollaborativeEditorAckMessage {
+  return (
+    typeof msg === 'object' &&
+    msg !== null &&
+    'type' in msg &&
+    msg.type === 'collaborativeEditorAck'
+  )
+}
+
 export function isCollaborativeEditorSyncMessage(
   msg: unknown
 ): msg is CollaborativeEditorSyncMessage {
@@ -352,6 +429,18 @@ export function isCollaborativeEditorSyncMessage(
   )
 }
 
+export function isCRDTSyncStep1Message(msg: unknown): msg is CRDTSyncStep1Message {
+  return typeof msg === 'object' && msg !== null && 'type' in msg && msg.type === 'crdtSyncStep1'
+}
+
+export function isCRDTSyncStep2Message(msg: unknown): msg is CRDTSyncStep2Message {
+  return typeof msg === 'object' && msg !== null && 'type' in msg && msg.type === 'crdtSyncStep2'
+}
+
+export function isCRDTUpdateMessage(msg: unknown): msg is CRDTUpdateMessage {
+  return typeof msg === 'object' && msg !== null && 'type' in msg && msg.type === 'crdtUpdate'
+}
+
 export function isPresenceJoinMessage(msg: unknown): msg is PresenceJoinMessage {
   return typeof msg === 'object' && msg !== null && 'type' in msg && msg.type === 'presenceJoin'
 }
@@ -399,7 +488,11 @@ export function isCommentReactMessage(msg: unknown): msg is CommentReactMessage
 export function isCollaborationMessage(msg: unknown): msg is CollaborationMessage {
   return (
     isCollaborativeEditorChangeMessage(msg) ||
+    isCollaborativeEditorAckMessage(msg) ||
     isCollaborativeEditorSyncMessage(msg) ||
+    isCRDTSyncStep1Message(msg) ||
+    isCRDTSyncStep2Message(msg) ||
+    isCRDTUpdateMessage(msg) ||
     isPresenceJoinMessage(msg) ||
     isPresenceLeaveMessage(msg) ||
     isPresenceUpdateMessage(msg) ||
@@ -467,6 +560,23 @@ export function validateCollaborationMessage(msg: unknown): {
       }
       break
 
+    case 'crdtSyncStep1':
+    case 'crdtSyncStep2':
+    case 'crdtUpdate':
+      if (!message['documentId'] || typeof message['documentId'] !== 'string') {
+        errors.push('CRDT sync messages require documentId')
+      }
+      if (!message['clientId'] || typeof message['clientId'] !== 'string') {
+        errors.push('CRDT sync messages require clientId')
+      }
+      if (!message['stateVector'] || typeof message['stateVector'] !== 'object') {
+        errors.push('CRDT sync messages require stateVector')
+      }
+      if (message['type'] !== 'crdtSyncStep1' && typeof message['update'] !== 'object') {
+        errors.push('CRDT sync messages require update')
+      }
+      break
+
     case 'presenceJoin':
       if (!message.roomId || typeof message.roomId !== 'string') {
         errors.push('presenceJoin requires roomId')
@@ -0,0 +1,155 @@
+/**
+ * A2UI CRDT Types
+ * Wire format for the conflict-free replicated document in src/crdt
+ *
+ * Every change is an operation stamped with an id unique to the replica that
+ * made it. Ids are per-client counters without gaps, so a state vector (the
+ * highest counter seen from each client) says exactly which operations a
+ * replica has, and a peer can send just the ones it is missing.
+ */
+
+/**
+ * Operation identifier
+ */
+export interface CRDTId {
+  /** Replica that created the operation */
+  client: string
+  /** Per-client counter, starting at 1 */
+  clock: number
+}
+
+/**
+ * Highest clock integrated from each client
+ */
+export type StateVector = Record<string, number>
+
+/**
+ * Kinds of shared container
+ */
+export type CRDTContainerType = 'map' | 'array' | 'text'
+
+/**
+ * Reference to a container
+ * A string names a top-level container; an id points at the insert or set
+ * operation that created a nested one.
+ */
+export type CRDTContainerRef = string | CRDTId
+
+/**
+ * Content of a sequence insert
+ * Text and values occupy one clock per character or element; a nested
+ * container occupies one.
+ */
+export type CRDTContent =
+  | { text: string }
+  | { values: unknown[] }
+  | { container: CRDTContainerType }
+
+interface CRDTOperationBase {
+  /** Operation id (the first one for multi-element inserts) */
+  id: CRDTId
+  /** Lamport timestamp, used to order concurrent operations */
+  lamport: number
+  /** Container the operation applies to */
+  parent: CRDTContainerRef
+}
+
+/**
+ * Insert into a text or array after `origin` (null for the start)
+ */
+export interface CRDTInsertOperation extends CRDTOperationBase {
+  type: 'insert'
+  origin: CRDTId | null
+  content: CRDTContent
+}
+
+/**
+ * Delete `length` consecutive elements created by one client, starting at `target`
+ */
+export interface CRDTDeleteOperation extends CRDTOperationBase {
+  type: 'delete'
+  target: CRDTId
+  length: number
+}
+
+/**
+ * Set a map key (last writer wins)
+ */
+export interface CRDTSetOperation extends CRDTOperationBase {
+  type: 'set'
+  key: string
+  /** Plain JSON value */
+  value?: unknown
+  /** Nested container to create instead of a value */
+  container?: CRDTContainerType
+}
+
+/**
+ * Remove a map key (last writer wins)
+ */
+export interface CRDTRemoveOperation extends CRDTOperationBase {
+  type: 'remove'
+  key: string
+}
+
+/**
+ * CRDT operation
+ */
+export type CRDTOperation =
+  | CRDTInsertOperation
+  | CRDTDeleteOperation
+  | CRDTSetOperation
+  | CRDTRemoveOperation
+
+/**
+ * Sequence element in a snapshot
+ */
+export interface CRDTSnapshotItem {
+  id: CRDTId
+  lamport: number
+  /** Character, array value, or nested container kind */
+  content: { text: string } | { value: unknown } | { container: CRDTContainerType }
+  /** Operation that deleted the element, for tombstones */
+  deletedBy?: CRDTId
+}
+
+/**
+ * Map entry in a snapshot
+ */
+export interface CRDTSnapshotEntry {
+  key: string
+  id: CRDTId
+  lamport: number
+  value?: unknown
+  container?: CRDTContainerType
+  /** Entry was removed */
+  removed?: boolean
+}
+
+/**
+ * Container in a snapshot
+ * Sequence items are listed in document order.
+ */
+export type CRDTSnapshotContainer =
+  | { ref: CRDTContainerRef; type: 'text' | 'array'; items: CRDTSnapshotItem[] }
+  | { ref: CRDTContainerRef; type: 'map'; entries: CRDTSnapshotEntry[] }
+
+/**
+ * Full document state
+ * Sent instead of operations once the history a peer needs has been
+ * garbage collected.
+ */
+export interface CRDTSnapshot {
+  stateVector: StateVector
+  containers: CRDTSnapshotContainer[]
+}
+
+/**
+ * Changes exchanged between replicas
+ * Updates are idempotent and commutative: applying the same update twice, or
+ * two updates in either order, gives the same document.
+ */
+export interface CRDTUpdate {
+  snapshot?: CRDTSnapshot
+  operations: CRDTOperation[]
+}
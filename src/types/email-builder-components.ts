@@ -367,6 +367,8 @@ export interface EmailTheme {
   }
   /** Container max width */
   containerMaxWidth?: string
+  /** Color of secondary text such as footers */
+  mutedTextColor?: string
 }
 
 /**
@@ -688,6 +690,30 @@ export const DEFAULT_EMAIL_THEME: EmailTheme = {
     borderRadius: '6px',
   },
   containerMaxWidth: '600px',
+  mutedTextColor: '#6b7280',
+}
+
+/**
+ * Default dark email theme
+ * Used for readers in dark mode when the template theme mode is 'auto'.
+ */
+export const DEFAULT_DARK_EMAIL_THEME: EmailTheme = {
+  name: 'Default Dark',
+  mode: 'dark',
+  primaryColor: '#60a5fa',
+  secondaryColor: '#a78bfa',
+  backgroundColor: '#111827',
+  textColor: '#f9fafb',
+  fontFamily: DEFAULT_EMAIL_THEME.fontFamily,
+  linkColor: '#93c5fd',
+  borderColor: '#374151',
+  button: {
+    backgroundColor: '#60a5fa',
+    textColor: '#111827',
+    borderRadius: '6px',
+  },
+  containerMaxWidth: '600px',
+  mutedTextColor: '#9ca3af',
 }
 
 /**
@@ -955,108 +981,3 @@ export function extractVariables(text: string): string[] {
   }
   return variables
 }
-
-/**
- * Helper to convert template to HTML
- */
-export function templateToHtml(
-  template: EmailTemplate,
-  variables?: Record<string, string | number | boolean>
-): string {
-  const theme = template.theme || DEFAULT_EMAIL_THEME
-  const varValues = variables || {}
-
-  let html = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${replaceVariables(template.subject, varValues)}</title>
-  <style>
-    body {
-      margin: 0;
-      padding: 0;
-      font-family: ${theme.fontFamily};
-      background-color: ${theme.backgroundColor};
-      color: ${theme.textColor};
-    }
-    .email-container {
-      max-width: ${theme.containerMaxWidth};
-      margin: 0 auto;
-      padding: 20px;
-    }
-    a {
-      color: ${theme.linkColor};
-      text-decoration: none;
-    }
-  </style>
-</head>
-<body>
-  <div class="email-container">
-`
-
-  for (const block of template.blocks) {
-    html += blockToHtml(block, theme, varValues)
-  }
-
-  html += `
-  </div>
-</body>
-</html>
-`
-
-  return html
-}
-
-/**
- * Helper to convert block to HTML
- */
-function blockToHtml(
-  block: EmailBlock,
-  theme: EmailTheme,
-  variables: Record<string, string | number | boolean>
-): string {
-  if (!block.visible && block.visible !== undefined) {
-    return ''
-  }
-
-  const styles = block.styles || {}
-  const styleString = Object.entries(styles)
-    .map(([key, value]) => `${camelToKebab(key)}: ${value}`)
-    .join('; ')
-
-  switch (block.type) {
-    case 'text':
-      return `<p style="${styleString}">${replaceVariables(block.content, variables)}</p>`
-
-    case 'heading':
-      return `<h${block.level} style="${styleString}">${replaceVariables(block.content, variables)}</h${block.level}>`
-
-    case 'image':
-      const imgHtml = `<img src="${block.src}" alt="${block.alt}" style="${styleString}" />`
-      return block.href ? `<a href="${block.href}" target="${block.target || '_blank'}">${imgHtml}</a>` : imgHtml
-
-    case 'button':
-      return `<a href="${block.href}" target="${block.target || '_blank'}" style="display: inline-block; padding: 12px 24px; background-color: ${block.backgroundColor || theme.button?.backgroundColor}; color: ${block.textColor || theme.button?.textColor}; border-radius: ${theme.button?.borderRadius}; ${styleString}">${block.text}</a>`
-
-    case 'divider':
-      return `<hr style="border: none; border-top: ${block.height || '1px'} solid ${block.color || theme.borderColor}; margin: 20px 0; ${styleString}" />`
-
-    case 'spacer':
-      return `<div style="height: ${typeof block.height === 'number' ? block.height + 'px' : block.height}; ${styleString}"></div>`
-
-    case 'html':
-      return block.html
-
-    default:
-      return ''
-  }
-}
-
-/**
- * Helper to convert camelCase to kebab-case
- */
-function camelToKebab(str: string): string {
-  return str.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()
-}
@@ -57,6 +57,10 @@ export interface FileUploadProgressMessage extends BaseMessage {
   percentage: number
   /** Optional status message */
   statusMessage?: string
+  /** Recent upload throughput in bytes per second */
+  bytesPerSecond?: number
+  /** Estimated time remaining in seconds */
+  estimatedTimeRemaining?: number
 }
 
 /**
@@ -119,6 +123,48 @@ export interface FileUploadCancelMessage extends BaseMessage {
   reason?: string
 }
 
+/**
+ * File Upload Chunk Message (UI → Agent)
+ * Carries one chunk of a file uploaded over the A2UI transport
+ */
+export interface FileUploadChunkMessage extends BaseMessage {
+  type: 'fileUploadChunk'
+  /** Surface identifier */
+  surfaceId: string
+  /** Component identifier */
+  componentId: string
+  /** File identifier */
+  fileId: string
+  /** Upload session identifier */
+  uploadId: string
+  /** Zero-based chunk index */
+  index: number
+  /** Byte offset of the chunk in the file */
+  offset: number
+  /** Chunk size in bytes */
+  size: number
+  /** Total number of chunks */
+  totalChunks: number
+  /** Base64-encoded chunk data */
+  data: string
+}
+
+/**
+ * File Upload Chunk Acknowledgement Message (Agent → UI)
+ * Confirms or rejects a received chunk
+ */
+export interface FileUploadChunkAckMessage extends BaseMessage {
+  type: 'fileUploadChunkAck'
+  /** File identifier */
+  fileId: string
+  /** Upload session identifier */
+  uploadId: string
+  /** Acknowledged chunk index */
+  index: number
+  /** Error message if the chunk was rejected */
+  error?: string
+}
+
 /**
  * File Delete Message (UI → Agent)
  * Sent when user requests file deletion
@@ -160,6 +206,8 @@ export type FileUploadMessage =
   | FileUploadCompleteMessage
   | FileUploadErrorMessage
   | FileUploadCancelMessage
+  | FileUploadChunkMessage
+  | FileUploadChunkAckMessage
   | FileDeleteMessage
   | FileDeleteCompleteMessage
 
@@ -186,6 +234,14 @@ export function isFileUploadCancelMessage(msg: unknown): msg is FileUploadCancel
   return typeof msg === 'object' && msg !== null && (msg as BaseMessage).type === 'fileUploadCancel'
 }
 
+export function isFileUploadChunkMessage(msg: unknown): msg is FileUploadChunkMessage {
+  return typeof msg === 'object' && msg !== null && (msg as BaseMessage).type === 'fileUploadChunk'
+}
+
+export function isFileUploadChunkAckMessage(msg: unknown): msg is FileUploadChunkAckMessage {
+  return typeof msg === 'object' && msg !== null && (msg as BaseMessage).type === 'fileUploadChunkAck'
+}
+
 export function isFileDeleteMessage(msg: unknown): msg is FileDeleteMessage {
   return typeof msg === 'object' && msg !== null && (msg as BaseMessage).type === 'fileDelete'
 }
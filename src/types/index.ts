@@ -24,6 +24,8 @@ export type {
   ErrorMessage,
   PingMessage,
   PongMessage,
+  AckMessage,
+  ResumeMessage,
   A2UIMessage,
 } from './protocol.js'
 
@@ -39,6 +41,8 @@ export {
   isErrorMessage,
   isPingMessage,
   isPongMessage,
+  isAckMessage,
+  isResumeMessage,
 } from './protocol.js'
 
 // Client Action Types (Issue #45)
@@ -147,6 +151,8 @@ export type {
   FileUploadCompleteMessage,
   FileUploadErrorMessage,
   FileUploadCancelMessage,
+  FileUploadChunkMessage,
+  FileUploadChunkAckMessage,
   FileDeleteMessage,
   FileDeleteCompleteMessage,
   FileUploadMessage,
@@ -158,6 +164,8 @@ export {
   isFileUploadCompleteMessage,
   isFileUploadErrorMessage,
   isFileUploadCancelMessage,
+  isFileUploadChunkMessage,
+  isFileUploadChunkAckMessage,
   isFileDeleteMessage,
   isFileDeleteCompleteMessage,
   createFileUploadStartMessage,
@@ -532,6 +540,13 @@ export type {
   CRDTData,
   OfflineConfig,
   OfflineHandler,
+  SyncRemote,
+  RemotePushResult,
+  SyncRequestMessage,
+  SyncResponseMessage,
+  EncryptionKey,
+  OfflineEncryptionConfig,
+  EncryptedPayload,
   OfflineRetryStrategy,
   OfflineConflictStrategy,
   OfflineCacheStrategy,
@@ -38,10 +38,41 @@ export type SyncStatus = 'pending' | 'syncing' | 'synced' | 'failed' | 'conflict
  */
 export type ConnectionStatus = 'online' | 'offline' | 'slow';
 
+/**
+ * Key used for at-rest encryption
+ * A passphrase (an AES-GCM key is derived from it with PBKDF2) or an
+ * AES-GCM `CryptoKey`.
+ */
+export type EncryptionKey = string | CryptoKey;
+
+/**
+ * At-rest encryption options shared by storage, queue and cache
+ */
+export interface OfflineEncryptionConfig {
+  /** Enable encryption for stored data */
+  encryption?: boolean;
+  /** Encryption key (required if encryption is enabled) */
+  encryptionKey?: EncryptionKey;
+  /** Salt for deriving a key from a passphrase (defaults to one derived from the store name) */
+  encryptionSalt?: string;
+}
+
+/**
+ * Encrypted value as persisted
+ */
+export interface EncryptedPayload {
+  /** Cipher used */
+  algorithm: 'AES-GCM';
+  /** Base64 initialization vector, unique per write */
+  iv: string;
+  /** Base64 ciphertext including the authentication tag */
+  ciphertext: string;
+}
+
 /**
  * Configuration for offline storage
  */
-export interface OfflineStorageConfig {
+export interface OfflineStorageConfig extends OfflineEncryptionConfig {
   /** Storage backend to use (auto-detected if not specified) */
   backend?: StorageBackend;
   /** Database name for IndexedDB */
@@ -52,16 +83,12 @@ export interface OfflineStorageConfig {
   maxSize?: number;
   /** Enable compression for stored data */
   compression?: boolean;
-  /** Enable encryption for stored data */
-  encryption?: boolean;
-  /** Encryption key (required if encryption is enabled) */
-  encryptionKey?: string;
 }
 
 /**
  * Configuration for offline queue
  */
-export interface OfflineQueueConfig {
+export interface OfflineQueueConfig extends OfflineEncryptionConfig {
   /** Maximum number of operations in queue */
   maxSize: number;
   /** Retry strategy for failed operations */
@@ -79,7 +106,7 @@ export interface OfflineQueueConfig {
 /**
  * Configuration for cache
  */
-export interface OfflineCacheConfig {
+export interface OfflineCacheConfig extends OfflineEncryptionConfig {
   /** Cache strategy */
   strategy: CacheStrategy;
   /** Maximum cache size in bytes */
@@ -204,6 +231,54 @@ export interface SyncResult {
   errors?: Array<{ operationId: string; error: string }>;
 }
 
+/**
+ * Server response for one pushed operation
+ */
+export interface RemotePushResult {
+  /** Operation ID */
+  operationId: string;
+  /** Whether the server applied the operation */
+  success: boolean;
+  /** Error message if the server rejected the operation */
+  error?: string;
+  /** Whether a failed operation should be retried (default: true) */
+  retryable?: boolean;
+}
+
+/**
+ * Server the sync engine delivers queued operations to
+ */
+export interface SyncRemote {
+  /** Send one operation */
+  push(operation: QueuedOperation): Promise<RemotePushResult>;
+  /** Send a batch of operations in one request (optional) */
+  pushBatch?(operations: QueuedOperation[]): Promise<RemotePushResult[]>;
+  /** Fetch the server's copy of a stored item (null if the server has none) */
+  fetch(key: string): Promise<StorageItem | null>;
+}
+
+/**
+ * Sync request sent over an A2UI transport
+ */
+export type SyncRequestMessage =
+  | { type: 'syncPush'; requestId: string; operations: QueuedOperation[] }
+  | { type: 'syncFetch'; requestId: string; key: string };
+
+/**
+ * Sync response received over an A2UI transport
+ */
+export interface SyncResponseMessage {
+  type: 'syncResponse';
+  /** ID of the request being answered */
+  requestId: string;
+  /** Push results (for syncPush) */
+  results?: RemotePushResult[];
+  /** Server copy (for syncFetch) */
+  item?: StorageItem | null;
+  /** Error message if the request failed */
+  error?: string;
+}
+
 /**
  * Cached item in offline cache
  */
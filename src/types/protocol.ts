@@ -19,11 +19,15 @@ export type MessageType =
   | 'error'
   | 'ping'
   | 'pong'
+  | 'ack'
+  | 'resume'
   | 'fileUploadStart'
   | 'fileUploadProgress'
   | 'fileUploadComplete'
   | 'fileUploadError'
   | 'fileUploadCancel'
+  | 'fileUploadChunk'
+  | 'fileUploadChunkAck'
   | 'fileDelete'
   | 'fileDeleteComplete'  | 'authLogin'
   | 'authLoginSuccess'
@@ -103,6 +107,8 @@ export interface BaseMessage {
   id?: string
   /** Timestamp */
   timestamp?: number
+  /** Per-surface sequence number (reliable delivery only) */
+  seq?: number
 }
 
 /**
@@ -221,6 +227,30 @@ export interface PongMessage extends BaseMessage {
   type: 'pong'
 }
 
+/**
+ * Ack Message (Bidirectional)
+ * Cumulative acknowledgement: every message of the surface up to `seq` arrived
+ */
+export interface AckMessage extends BaseMessage {
+  type: 'ack'
+  /** Surface identifier */
+  surfaceId: string
+  /** Highest sequence number received in order */
+  seq: number
+}
+
+/**
+ * Resume Message (Bidirectional)
+ * Sent after (re)connecting in reliable mode. The peer replays the messages
+ * after each listed sequence number, or asks for a fresh snapshot when it no
+ * longer buffers them.
+ */
+export interface ResumeMessage extends BaseMessage {
+  type: 'resume'
+  /** Last sequence number received per surface */
+  surfaces: Record<string, number>
+}
+
 /**
  * Union of all message types
  */
@@ -233,6 +263,8 @@ export type A2UIMessage =
   | ErrorMessage
   | PingMessage
   | PongMessage
+  | AckMessage
+  | ResumeMessage
   | AuthMessage
   | ZeroDBMessage
 
@@ -271,6 +303,14 @@ export function isPongMessage(msg: A2UIMessage): msg is PongMessage {
   return msg.type === 'pong'
 }
 
+export function isAckMessage(msg: A2UIMessage): msg is AckMessage {
+  return (msg as BaseMessage).type === 'ack'
+}
+
+export function isResumeMessage(msg: A2UIMessage): msg is ResumeMessage {
+  return (msg as BaseMessage).type === 'resume'
+}
+
 export function isClientActionMessage(msg: unknown): msg is { type: 'clientAction' } {
   return typeof msg === 'object' && msg !== null && (msg as { type: string }).type === 'clientAction'
 }
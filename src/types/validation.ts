@@ -338,6 +338,307 @@ export const videoComponentSchemas = {
     } as ComponentSchema<'aiVideoPlayer'>
 } as const
 
+const sizeSchema: JSONSchema = { type: ['string', 'number'] }
+const alignSchema: JSONSchema = { type: 'string', enum: ['start', 'center', 'end', 'stretch'] }
+
+/**
+ * Standard component validation schemas (A2UI v0.9)
+ */
+export const standardComponentSchemas = {
+    card: {
+        type: 'card',
+        schema: {
+            type: 'object',
+            properties: {
+                title: { type: 'string' },
+                subtitle: { type: 'string' },
+                padding: sizeSchema,
+                backgroundColor: { type: 'string' },
+                borderRadius: sizeSchema,
+                shadow: { type: 'boolean' }
+            }
+        },
+        defaults: {}
+    } as ComponentSchema<'card'>,
+
+    text: {
+        type: 'text',
+        schema: {
+            type: 'object',
+            properties: {
+                value: { type: 'string' },
+                fontSize: sizeSchema,
+                fontWeight: { type: 'string', enum: ['normal', 'bold', 'light'] },
+                color: { type: 'string' },
+                align: { type: 'string', enum: ['left', 'center', 'right'] }
+            },
+            required: ['value']
+        },
+        defaults: {}
+    } as ComponentSchema<'text'>,
+
+    button: {
+        type: 'button',
+        schema: {
+            type: 'object',
+            properties: {
+                label: { type: 'string' },
+                action: { type: 'string' },
+                variant: { type: 'string', enum: ['primary', 'secondary', 'outline', 'ghost'] },
+                size: { type: 'string', enum: ['sm', 'md', 'lg'] },
+                disabled: { type: 'boolean' },
+                loading: { type: 'boolean' }
+            },
+            required: ['label']
+        },
+        defaults: {}
+    } as ComponentSchema<'button'>,
+
+    row: {
+        type: 'row',
+        schema: {
+            type: 'object',
+            properties: {
+                gap: sizeSchema,
+                align: alignSchema,
+                justify: { type: 'string', enum: ['start', 'center', 'end', 'between', 'around'] }
+            }
+        },
+        defaults: {}
+    } as ComponentSchema<'row'>,
+
+    column: {
+        type: 'column',
+        schema: {
+            type: 'object',
+            properties: {
+                gap: sizeSchema,
+                align: alignSchema
+            }
+        },
+        defaults: {}
+    } as ComponentSchema<'column'>,
+
+    modal: {
+        type: 'modal',
+        schema: {
+            type: 'object',
+            properties: {
+                title: { type: 'string' },
+                open: { type: 'boolean' },
+                onClose: { type: 'string' }
+            },
+            required: ['open']
+        },
+        defaults: {}
+    } as ComponentSchema<'modal'>,
+
+    tabs: {
+        type: 'tabs',
+        schema: {
+            type: 'object',
+            properties: {
+                activeTab: { type: 'string' },
+                tabs: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            id: { type: 'string', minLength: 1 },
+                            label: { type: 'string' }
+                        },
+                        required: ['id', 'label']
+                    }
+                }
+            },
+            required: ['tabs']
+        },
+        defaults: {}
+    } as ComponentSchema<'tabs'>,
+
+    list: {
+        type: 'list',
+        schema: {
+            type: 'object',
+            properties: {
+                items: { type: 'array' },
+                itemTemplate: { type: 'string' },
+                emptyMessage: { type: 'string' }
+            },
+            required: ['items']
+        },
+        defaults: {}
+    } as ComponentSchema<'list'>,
+
+    textField: {
+        type: 'textField',
+        schema: {
+            type: 'object',
+            properties: {
+                label: { type: 'string' },
+                placeholder: { type: 'string' },
+                value: { type: 'string' },
+                dataBinding: { type: 'string' },
+                type: { type: 'string', enum: ['text', 'email', 'password', 'number'] },
+                required: { type: 'boolean' },
+                disabled: { type: 'boolean' },
+                error: { type: 'string' }
+            }
+        },
+        defaults: {}
+    } as ComponentSchema<'textField'>,
+
+    checkBox: {
+        type: 'checkBox',
+        schema: {
+            type: 'object',
+            properties: {
+                label: { type: 'string' },
+                checked: { type: 'boolean' },
+                dataBinding: { type: 'string' },
+                disabled: { type: 'boolean' }
+            }
+        },
+        defaults: {}
+    } as ComponentSchema<'checkBox'>,
+
+    slider: {
+        type: 'slider',
+        schema: {
+            type: 'object',
+            properties: {
+                label: { type: 'string' },
+                value: { type: 'number' },
+                min: { type: 'number' },
+                max: { type: 'number' },
+                step: { type: 'number', minimum: 0 },
+                dataBinding: { type: 'string' },
+                disabled: { type: 'boolean' }
+            }
+        },
+        defaults: {}
+    } as ComponentSchema<'slider'>,
+
+    choicePicker: {
+        type: 'choicePicker',
+        schema: {
+            type: 'object',
+            properties: {
+                label: { type: 'string' },
+                options: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            value: { type: 'string' },
+                            label: { type: 'string' }
+                        },
+                        required: ['value', 'label']
+                    }
+                },
+                value: { type: 'string' },
+                dataBinding: { type: 'string' },
+                multiple: { type: 'boolean' },
+                disabled: { type: 'boolean' }
+            },
+            required: ['options']
+        },
+        defaults: {}
+    } as ComponentSchema<'choicePicker'>,
+
+    dateTimeInput: {
+        type: 'dateTimeInput',
+        schema: {
+            type: 'object',
+            properties: {
+                label: { type: 'string' },
+                value: { type: 'string' },
+                type: { type: 'string', enum: ['date', 'time', 'datetime'] },
+                dataBinding: { type: 'string' },
+                disabled: { type: 'boolean' },
+                min: { type: 'string' },
+                max: { type: 'string' }
+            }
+        },
+        defaults: {}
+    } as ComponentSchema<'dateTimeInput'>,
+
+    image: {
+        type: 'image',
+        schema: {
+            type: 'object',
+            properties: {
+                src: { type: 'string' },
+                alt: { type: 'string' },
+                width: sizeSchema,
+                height: sizeSchema,
+                objectFit: { type: 'string', enum: ['contain', 'cover', 'fill', 'none', 'scale-down'] }
+            },
+            required: ['src']
+        },
+        defaults: {}
+    } as ComponentSchema<'image'>,
+
+    video: {
+        type: 'video',
+        schema: {
+            type: 'object',
+            properties: {
+                src: { type: 'string' },
+                poster: { type: 'string' },
+                controls: { type: 'boolean' },
+                autoplay: { type: 'boolean' },
+                loop: { type: 'boolean' },
+                muted: { type: 'boolean' }
+            },
+            required: ['src']
+        },
+        defaults: {}
+    } as ComponentSchema<'video'>,
+
+    audioPlayer: {
+        type: 'audioPlayer',
+        schema: {
+            type: 'object',
+            properties: {
+                src: { type: 'string' },
+                controls: { type: 'boolean' },
+                autoplay: { type: 'boolean' },
+                loop: { type: 'boolean' }
+            },
+            required: ['src']
+        },
+        defaults: {}
+    } as ComponentSchema<'audioPlayer'>,
+
+    icon: {
+        type: 'icon',
+        schema: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', minLength: 1 },
+                size: sizeSchema,
+                color: { type: 'string' }
+            },
+            required: ['name']
+        },
+        defaults: {}
+    } as ComponentSchema<'icon'>,
+
+    divider: {
+        type: 'divider',
+        schema: {
+            type: 'object',
+            properties: {
+                orientation: { type: 'string', enum: ['horizontal', 'vertical'] },
+                thickness: sizeSchema,
+                color: { type: 'string' }
+            }
+        },
+        defaults: {}
+    } as ComponentSchema<'divider'>
+} as const
+
 /**
  * Validate component properties against schema
  */
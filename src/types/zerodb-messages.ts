@@ -9,6 +9,8 @@
 export interface BaseZeroDBMessage {
   type: string
   surfaceId: string
+  /** Component whose data model receives the result */
+  componentId?: string
   timestamp?: number
   metadata?: Record<string, unknown>
 }
@@ -21,6 +23,10 @@ export interface ZeroDBVectorSearchMessage extends BaseZeroDBMessage {
   query: string
   topK?: number
   filters?: Record<string, unknown>
+  /** Sent while the user types; debounced by the handler */
+  autoSearch?: boolean
+  /** Debounce delay for auto-search in milliseconds */
+  debounceMs?: number
 }
 
 /**
@@ -44,6 +50,8 @@ export interface ZeroDBTableQueryMessage extends BaseZeroDBMessage {
   filters?: Record<string, unknown>
   limit?: number
   offset?: number
+  sortBy?: string
+  sortOrder?: 'asc' | 'desc'
 }
 
 /**
@@ -53,6 +61,10 @@ export interface ZeroDBTableQueryResultMessage extends BaseZeroDBMessage {
   type: 'zerodbTableQueryResult'
   rows: unknown[]
   totalCount?: number
+  offset?: number
+  limit?: number
+  /** Whether another page follows */
+  hasMore?: boolean
 }
 
 /**
@@ -99,6 +111,10 @@ export interface ZeroDBTableOperationResultMessage extends BaseZeroDBMessage {
 export interface ZeroDBFileListMessage extends BaseZeroDBMessage {
   type: 'zerodbFileList'
   path?: string
+  limit?: number
+  offset?: number
+  sortBy?: 'name' | 'size' | 'date'
+  sortOrder?: 'asc' | 'desc'
 }
 
 /**
@@ -112,6 +128,8 @@ export interface ZeroDBFileListResultMessage extends BaseZeroDBMessage {
     path: string
     mimeType?: string
   }>
+  /** Whether another page follows */
+  hasMore?: boolean
 }
 
 /**
@@ -157,6 +175,10 @@ export interface ZeroDBPostgresQueryMessage extends BaseZeroDBMessage {
   type: 'zerodbPostgresQuery'
   query: string
   params?: unknown[]
+  /** Reject statements that modify data */
+  readOnly?: boolean
+  /** Maximum rows to return */
+  maxRows?: number
 }
 
 /**
@@ -166,6 +188,8 @@ export interface ZeroDBPostgresQueryResultMessage extends BaseZeroDBMessage {
   type: 'zerodbPostgresQueryResult'
   rows: unknown[]
   rowCount?: number
+  /** Whether rows were cut off at maxRows */
+  truncated?: boolean
 }
 
 /**
@@ -192,6 +216,10 @@ export interface ZeroDBMemorySearchMessage extends BaseZeroDBMessage {
   type: 'zerodbMemorySearch'
   query: string
   limit?: number
+  /** Sent while the user types; debounced by the handler */
+  autoSearch?: boolean
+  /** Debounce delay for auto-search in milliseconds */
+  debounceMs?: number
 }
 
 /**
@@ -263,3 +291,22 @@ export type ZeroDBMessage =
   | ZeroDBMemoryStoreMessage
   | ZeroDBAnalyticsQueryMessage
   | ZeroDBAnalyticsQueryResultMessage
+
+/**
+ * ZeroDB messages sent by components to request an operation
+ */
+export type ZeroDBRequestMessage =
+  | ZeroDBVectorSearchMessage
+  | ZeroDBTableQueryMessage
+  | ZeroDBTableInsertMessage
+  | ZeroDBTableUpdateMessage
+  | ZeroDBTableDeleteMessage
+  | ZeroDBFileListMessage
+  | ZeroDBFileUploadMessage
+  | ZeroDBFileDownloadMessage
+  | ZeroDBFileDeleteMessage
+  | ZeroDBPostgresQueryMessage
+  | ZeroDBPostgresStatusMessage
+  | ZeroDBMemorySearchMessage
+  | ZeroDBMemoryStoreMessage
+  | ZeroDBAnalyticsQueryMessage
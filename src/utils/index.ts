@@ -44,3 +44,16 @@ export {
   type Operation,
   type CRDTState
 } from './conflict-resolver.js'
+
+export {
+  // Operational Transform
+  TextOperation,
+  OTDocument,
+  OTClient,
+  diffText,
+  mergeText,
+  type TextOperationComponent,
+  type OTDocumentOptions,
+  type OTDocumentChange,
+  type OTOutgoingChange
+} from './operational-transform.js'
@@ -0,0 +1,551 @@
+/**
+ * A2UI Operational Transform for Text Documents (Issue #54)
+ * Transforms concurrent editor changes so every replica converges on the same text
+ */
+
+import type { EditorOperation } from '../types/collaboration-messages.js'
+
+/**
+ * Single component of a text operation: a positive number retains characters,
+ * a string inserts it, a negative number deletes that many characters
+ */
+export type TextOperationComponent = number | string
+
+const isRetain = (component: TextOperationComponent | undefined): component is number =>
+  typeof component === 'number' && component > 0
+
+const isDelete = (component: TextOperationComponent | undefined): component is number =>
+  typeof component === 'number' && component < 0
+
+const isInsert = (component: TextOperationComponent | undefined): component is string =>
+  typeof component === 'string'
+
+/**
+ * Text Operation
+ * Describes an edit as a walk over the whole document, so two operations on
+ * the same document can be composed and transformed against each other
+ */
+export class TextOperation {
+  readonly components: TextOperationComponent[] = []
+  /** Length of the document the operation applies to */
+  baseLength = 0
+  /** Length of the document after the operation */
+  targetLength = 0
+
+  /**
+   * Skip over characters
+   */
+  retain(count: number): this {
+    if (count <= 0) return this
+    this.baseLength += count
+    this.targetLength += count
+    const last = this.components.length - 1
+    if (isRetain(this.components[last])) {
+      this.components[last] = (this.components[last]) + count
+    } else {
+      this.components.push(count)
+    }
+    return this
+  }
+
+  /**
+   * Insert text at the current position
+   * Inserts are kept ahead of an adjacent delete so equal edits have equal components.
+   */
+  insert(text: string): this {
+    if (text === '') return this
+    this.targetLength += text.length
+    const components = this.components
+    const last = components.length - 1
+    if (isInsert(components[last])) {
+      components[last] = (components[last]) + text
+    } else if (isDelete(components[last])) {
+      if (isInsert(components[last - 1])) {
+        components[last - 1] = (components[last - 1] as string) + text
+      } else {
+        components.splice(last, 0, text)
+      }
+    } else {
+      components.push(text)
+    }
+    return this
+  }
+
+  /**
+   * Delete characters at the current position
+   */
+  delete(count: number): this {
+    if (count <= 0) return this
+    this.baseLength += count
+    const last = this.components.length - 1
+    if (isDelete(this.components[last])) {
+      this.components[last] = (this.components[last]) - count
+    } else {
+      this.components.push(-count)
+    }
+    return this
+  }
+
+  /**
+   * Whether applying the operation leaves the document unchanged
+   */
+  isNoop(): boolean {
+    return this.components.every(isRetain)
+  }
+
+  /**
+   * Apply the operation to a document
+   */
+  apply(content: string): string {
+    if (content.length !== this.baseLength) {
+      throw new Error(
+        `Operation expects a document of length ${this.baseLength}, got ${content.length}`
+      )
+    }
+
+    const parts: string[] = []
+    let index = 0
+    for (const component of this.components) {
+      if (isRetain(component)) {
+        parts.push(content.slice(index, index + component))
+        index += component
+      } else if (isInsert(component)) {
+        parts.push(component)
+      } else {
+        index -= component
+      }
+    }
+    return parts.join('')
+  }
+
+  /**
+   * Operation with the same effect as applying this operation, then `other`
+   */
+  compose(other: TextOperation): TextOperation {
+    if (this.targetLength !== other.baseLength) {
+      throw new Error('Cannot compose operations: lengths do not line up')
+    }
+
+    const result = new TextOperation()
+    const first = this.components
+    const second = other.components
+    let i = 0
+    let j = 0
+    let a = first[i++]
+    let b = second[j++]
+
+    while (a !== undefined || b !== undefined) {
+      if (isDelete(a)) {
+        result.delete(-a)
+        a = first[i++]
+        continue
+      }
+      if (isInsert(b)) {
+        result.insert(b)
+        b = second[j++]
+        continue
+      }
+      if (a === undefined || b === undefined) {
+        throw new Error('Cannot compose operations: lengths do not line up')
+      }
+
+      if (isRetain(a) && isRetain(b)) {
+        const count = Math.min(a, b)
+        result.retain(count)
+        a = a > count ? a - count : first[i++]
+        b = b > count ? b - count : second[j++]
+      } else if (isInsert(a) && isDelete(b)) {
+        const count = Math.min(a.length, -b)
+        a = a.length > count ? a.slice(count) : first[i++]
+        b = -b > count ? b + count : second[j++]
+      } else if (isInsert(a) && isRetain(b)) {
+        const count = Math.min(a.length, b)
+        result.insert(a.slice(0, count))
+        a = a.length > count ? a.slice(count) : first[i++]
+        b = b > count ? b - count : second[j++]
+      } else if (isRetain(a) && isDelete(b)) {
+        const count = Math.min(a, -b)
+        result.delete(count)
+        a = a > count ? a - count : first[i++]
+        b = -b > count ? b + count : second[j++]
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Transform two operations made concurrently on the same document
+   * Returns `[a', b']` such that applying `a` then `b'` gives the same text as
+   * applying `b` then `a'`. When both insert at the same position, `a`'s text
+   * comes first.
+   */
+  static transform(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+    if (a.baseLength !== b.baseLength) {
+      throw new Error('Cannot transform operations on documents of different lengths')
+    }
+
+    const aPrime = new TextOperation()
+    const bPrime = new TextOperation()
+    let i = 0
+    let j = 0
+    let x = a.components[i++]
+    let y = b.components[j++]
+
+    while (x !== undefined || y !== undefined) {
+      if (isInsert(x)) {
+        aPrime.insert(x)
+        bPrime.retain(x.length)
+        x = a.components[i++]
+        continue
+      }
+      if (isInsert(y)) {
+        aPrime.retain(y.length)
+        bPrime.insert(y)
+        y = b.components[j++]
+        continue
+      }
+      if (x === undefined || y === undefined) {
+        throw new Error('Cannot transform operations on documents of different lengths')
+      }
+
+      const count = Math.min(Math.abs(x), Math.abs(y))
+      if (isRetain(x) && isRetain(y)) {
+        aPrime.retain(count)
+        bPrime.retain(count)
+      } else if (isDelete(x) && isRetain(y)) {
+        aPrime.delete(count)
+      } else if (isRetain(x) && isDelete(y)) {
+        bPrime.delete(count)
+      }
+      // Both deleting the same characters: nothing left to do for either
+
+      x = Math.abs(x) > count ? x + (x > 0 ? -count : count) : a.components[i++]
+      y = Math.abs(y) > count ? y + (y > 0 ? -count : count) : b.components[j++]
+    }
+
+    return [aPrime, bPrime]
+  }
+
+  /**
+   * Build an operation from editor changes
+   * Changes apply one after another, each against the result of the previous one.
+   */
+  static fromEditorOperations(changes: EditorOperation[], documentLength: number): TextOperation {
+    let result = new TextOperation().retain(documentLength)
+
+    for (const change of changes) {
+      const length = result.targetLength
+      const position = change.position
+      const deleted = change.type === 'insert' ? 0 : (change.length ?? 0)
+      if (!Number.isInteger(position) || position < 0 || position + deleted > length) {
+        throw new Error(
+          `Change at ${position} (length ${deleted}) is outside a document of length ${length}`
+        )
+      }
+
+      const step = new TextOperation().retain(position).delete(deleted)
+      if (change.type !== 'delete') {
+        step.insert(change.content ?? '')
+      }
+      result = result.compose(step.retain(length - position - deleted))
+    }
+
+    return result
+  }
+
+  /**
+   * Editor changes equivalent to the operation, applied one after another
+   */
+  toEditorOperations(): EditorOperation[] {
+    const changes: EditorOperation[] = []
+    let position = 0
+
+    for (const component of this.components) {
+      if (isRetain(component)) {
+        position += component
+      } else if (isInsert(component)) {
+        changes.push({ type: 'insert', position, content: component })
+        position += component.length
+      } else {
+        const previous = changes[changes.length - 1]
+        if (
+          previous?.type === 'insert' &&
+          previous.position + (previous.content ?? '').length === position
+        ) {
+          // Insert followed by delete at the same spot reads as a replace
+          changes[changes.length - 1] = {
+            type: 'replace',
+            position: previous.position,
+            length: -component,
+            content: previous.content,
+          }
+        } else {
+          changes.push({ type: 'delete', position, length: -component })
+        }
+      }
+    }
+
+    return changes
+  }
+
+  toJSON(): TextOperationComponent[] {
+    return [...this.components]
+  }
+
+  static fromJSON(components: TextOperationComponent[]): TextOperation {
+    const operation = new TextOperation()
+    for (const component of components) {
+      if (isInsert(component)) operation.insert(component)
+      else if (isRetain(component)) operation.retain(component)
+      else if (isDelete(component)) operation.delete(-component)
+      else throw new Error(`Invalid operation component: ${String(component)}`)
+    }
+    return operation
+  }
+}
+
+/**
+ * Smallest operation turning one text into another
+ * Replaces the span between the common prefix and suffix.
+ */
+export function diffText(from: string, to: string): TextOperation {
+  let prefix = 0
+  const max = Math.min(from.length, to.length)
+  while (prefix < max && from[prefix] === to[prefix]) prefix++
+
+  let suffix = 0
+  while (suffix < max - prefix && from[from.length - 1 - suffix] === to[to.length - 1 - suffix]) {
+    suffix++
+  }
+
+  return new TextOperation()
+    .retain(prefix)
+    .delete(from.length - prefix - suffix)
+    .insert(to.slice(prefix, to.length - suffix))
+    .retain(suffix)
+}
+
+/**
+ * Three-way merge of concurrent edits to the same text
+ */
+export function mergeText(base: string, local: string, remote: string): string {
+  const [, remoteAfterLocal] = TextOperation.transform(
+    diffText(base, local),
+    diffText(base, remote)
+  )
+  return remoteAfterLocal.apply(local)
+}
+
+/**
+ * OT document options
+ */
+export interface OTDocumentOptions {
+  /** Operations kept for transforming stale changes (default: 1000) */
+  maxHistory?: number
+}
+
+/**
+ * Result of applying a change to an OT document
+ */
+export interface OTDocumentChange {
+  /** Change as applied, transformed against concurrent changes */
+  operation: TextOperation
+  /** Version the change was transformed to */
+  baseVersion: number
+  /** Document version after the change */
+  version: number
+}
+
+/**
+ * OT Document
+ * Authoritative copy of a shared document. Each accepted change bumps the
+ * version; changes made against an older version are transformed against
+ * everything applied since, so they still land where their author intended.
+ */
+export class OTDocument {
+  private text: string
+  private currentVersion: number
+  private readonly history: TextOperation[] = []
+  private readonly maxHistory: number
+
+  constructor(content = '', version = 0, options: OTDocumentOptions = {}) {
+    this.text = content
+    this.currentVersion = version
+    this.maxHistory = options.maxHistory ?? 1000
+  }
+
+  get content(): string {
+    return this.text
+  }
+
+  get version(): number {
+    return this.currentVersion
+  }
+
+  /**
+   * Oldest version changes can still be based on
+   */
+  get oldestVersion(): number {
+    return this.currentVersion - this.history.length
+  }
+
+  /**
+   * Whether a change based on this version can be applied
+   */
+  canApply(baseVersion: number): boolean {
+    return (
+      Number.isInteger(baseVersion) &&
+      baseVersion >= this.oldestVersion &&
+      baseVersion <= this.currentVersion
+    )
+  }
+
+  /**
+   * Transform and apply a change made against `baseVersion`
+   */
+  apply(operation: TextOperation, baseVersion: number): OTDocumentChange {
+    this.assertVersion(baseVersion)
+
+    let transformed = operation
+    for (const concurrent of this.history.slice(baseVersion - this.oldestVersion)) {
+      transformed = TextOperation.transform(transformed, concurrent)[0]
+    }
+
+    const previousVersion = this.currentVersion
+    this.text = transformed.apply(this.text)
+    this.history.push(transformed)
+    if (this.history.length > this.maxHistory) {
+      this.history.shift()
+    }
+    this.currentVersion++
+
+    return { operation: transformed, baseVersion: previousVersion, version: this.currentVersion }
+  }
+
+  /**
+   * Transform and apply editor changes made against `baseVersion`
+   */
+  applyEditorOperations(changes: EditorOperation[], baseVersion: number): OTDocumentChange {
+    this.assertVersion(baseVersion)
+    const operation = TextOperation.fromEditorOperations(changes, this.lengthAt(baseVersion))
+    return this.apply(operation, baseVersion)
+  }
+
+  private assertVersion(baseVersion: number): void {
+    if (!this.canApply(baseVersion)) {
+      throw new Error(
+        `Cannot apply a change based on version ${baseVersion}; ` +
+          `known versions are ${this.oldestVersion} to ${this.currentVersion}`
+      )
+    }
+  }
+
+  /**
+   * Document length at a version still in the history
+   */
+  private lengthAt(version: number): number {
+    const index = version - this.oldestVersion
+    return index < this.history.length ? this.history[index]!.baseLength : this.text.length
+  }
+}
+
+/**
+ * Change ready to be sent to the authoritative document
+ */
+export interface OTOutgoingChange {
+  changes: EditorOperation[]
+  version: number
+}
+
+/**
+ * OT Client
+ * Local replica of a shared document. Keeps at most one change in flight and
+ * buffers further local edits until it is acknowledged, transforming both
+ * against remote changes as they arrive.
+ */
+export class OTClient {
+  private text: string
+  private serverVersion: number
+  private inflight: TextOperation | null = null
+  private buffer: TextOperation | null = null
+
+  constructor(content = '', version = 0) {
+    this.text = content
+    this.serverVersion = version
+  }
+
+  get content(): string {
+    return this.text
+  }
+
+  /**
+   * Last version received from the authoritative document
+   */
+  get version(): number {
+    return this.serverVersion
+  }
+
+  /**
+   * Whether local changes are waiting to be acknowledged
+   */
+  get hasPendingChanges(): boolean {
+    return this.inflight !== null
+  }
+
+  /**
+   * Apply a local edit; returns the change to send, if nothing is in flight
+   */
+  applyLocal(changes: EditorOperation[]): OTOutgoingChange | null {
+    const operation = TextOperation.fromEditorOperations(changes, this.text.length)
+    this.text = operation.apply(this.text)
+
+    if (!this.inflight) {
+      this.inflight = operation
+      return { changes: operation.toEditorOperations(), version: this.serverVersion }
+    }
+    this.buffer = this.buffer ? this.buffer.compose(operation) : operation
+    return null
+  }
+
+  /**
+   * Handle acknowledgement of the change in flight; returns the buffered
+   * change to send next, if any
+   */
+  acknowledge(): OTOutgoingChange | null {
+    if (!this.inflight) {
+      throw new Error('No change is waiting for acknowledgement')
+    }
+    this.serverVersion++
+    this.inflight = this.buffer
+    this.buffer = null
+    return this.inflight
+      ? { changes: this.inflight.toEditorOperations(), version: this.serverVersion }
+      : null
+  }
+
+  /**
+   * Apply a change from another user; returns the changes to apply to the
+   * local editor
+   */
+  applyRemote(changes: EditorOperation[]): EditorOperation[] {
+    const serverLength = this.inflight ? this.inflight.baseLength : this.text.length
+    let operation = TextOperation.fromEditorOperations(changes, serverLength)
+
+    // Pending local changes go first, as they will when the server transforms them
+    if (this.inflight) {
+      const [inflight, remote] = TextOperation.transform(this.inflight, operation)
+      this.inflight = inflight
+      operation = remote
+    }
+    if (this.buffer) {
+      const [buffer, remote] = TextOperation.transform(this.buffer, operation)
+      this.buffer = buffer
+      operation = remote
+    }
+
+    this.serverVersion++
+    this.text = operation.apply(this.text)
+    return operation.toEditorOperations()
+  }
+}
@@ -3,7 +3,7 @@
  * Handles compilation and caching of CEL expressions for performance
  */
 
-import { parse, type ParsedExpression } from '@marcbachmann/cel-js'
+import { parse, type ParseResult as ParsedExpression } from '@marcbachmann/cel-js'
 import type { CompiledCELExpression } from '../types/validation.js'
 
 /**
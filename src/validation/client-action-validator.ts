@@ -0,0 +1,447 @@
+/**
+ * Client Action Validator
+ * Validates ClientActionMessage envelopes and their action payloads
+ * before they are executed in the browser
+ */
+
+import type {
+  ClientActionType,
+  PermissionType,
+  SpecificClientAction,
+} from '../types/client-action-messages.js'
+
+/**
+ * Validation error
+ */
+export interface ValidationError {
+  /** Dotted path of the offending field, relative to the message */
+  field: string
+  /** Human readable description */
+  message: string
+  /** Machine readable error code */
+  code: ValidationErrorCode
+}
+
+/**
+ * Validation error codes
+ */
+export type ValidationErrorCode =
+  | 'REQUIRED'
+  | 'INVALID_TYPE'
+  | 'INVALID_VALUE'
+  | 'UNKNOWN_ACTION'
+  | 'TYPE_MISMATCH'
+  | 'UNSAFE_URL'
+
+/**
+ * Validation result
+ */
+export interface ValidationResult {
+  valid: boolean
+  errors: ValidationError[]
+}
+
+/**
+ * Validator options
+ */
+export interface ClientActionValidatorOptions {
+  /** URL schemes accepted for navigation and external links (default: http, https) */
+  allowedUrlSchemes?: string[]
+  /** Allow relative URLs such as `/dashboard` (default: true) */
+  allowRelativeUrls?: boolean
+  /** Origins accepted for absolute URLs, e.g. `https://example.com` (default: any origin) */
+  allowedOrigins?: string[]
+  /** Maximum length of localStorage keys (default: 256) */
+  maxStorageKeyLength?: number
+}
+
+const ACTION_TYPES: readonly ClientActionType[] = [
+  'navigate',
+  'goBack',
+  'goForward',
+  'refresh',
+  'scrollTo',
+  'showToast',
+  'showModal',
+  'closeModal',
+  'showDialog',
+  'closeDialog',
+  'showNotification',
+  'copyToClipboard',
+  'downloadFile',
+  'uploadFile',
+  'shareContent',
+  'printPage',
+  'setLocalStorage',
+  'getLocalStorage',
+  'removeLocalStorage',
+  'clearLocalStorage',
+  'requestPermission',
+  'getUserMedia',
+  'openCamera',
+  'openGallery',
+  'vibrate',
+  'trackEvent',
+  'trackPageView',
+  'setUserProperty',
+  'openUrl',
+  'sendEmail',
+  'makePhoneCall',
+  'openMap',
+]
+
+const PERMISSION_TYPES: readonly PermissionType[] = [
+  'camera',
+  'microphone',
+  'geolocation',
+  'notifications',
+  'clipboard-write',
+  'clipboard-read',
+  'storage',
+  'media-devices',
+]
+
+/**
+ * Required string fields per action type
+ */
+const REQUIRED_STRINGS: Partial<Record<ClientActionType, string[]>> = {
+  navigate: ['url'],
+  showToast: ['message'],
+  showModal: ['modalId', 'content'],
+  closeModal: ['modalId'],
+  showDialog: ['dialogType', 'message'],
+  showNotification: ['title'],
+  copyToClipboard: ['text'],
+  downloadFile: ['url'],
+  setLocalStorage: ['key'],
+  getLocalStorage: ['key'],
+  removeLocalStorage: ['key'],
+  requestPermission: ['permission'],
+  trackEvent: ['eventName'],
+  trackPageView: ['page'],
+  setUserProperty: ['property'],
+  openUrl: ['url'],
+  sendEmail: ['to'],
+  makePhoneCall: ['phoneNumber'],
+}
+
+/**
+ * Fields that carry URLs and must pass the scheme check
+ */
+const URL_FIELDS: Partial<Record<ClientActionType, string[]>> = {
+  navigate: ['url'],
+  downloadFile: ['url'],
+  shareContent: ['url'],
+  openUrl: ['url'],
+  showNotification: ['icon', 'badge', 'image'],
+}
+
+/**
+ * Base that relative URLs are resolved against; a relative URL that resolves
+ * to another origin (`//host`, `\\host`, `/\host`) is not relative
+ */
+const RELATIVE_BASE = new URL('https://relative.a2ui.invalid/')
+
+const SCHEME_PATTERN = /^[a-zA-Z][a-zA-Z0-9+.-]*:/
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE_PATTERN = /^\+?[0-9\s().-]{3,}$/
+
+/**
+ * Client Action Validator
+ * Checks message structure, per-action required fields and URL safety
+ */
+export class ClientActionValidator {
+  private readonly allowedUrlSchemes: Set<string>
+  private readonly allowRelativeUrls: boolean
+  private readonly allowedOrigins: Set<string> | null
+  private readonly maxStorageKeyLength: number
+
+  constructor(options: ClientActionValidatorOptions = {}) {
+    this.allowedUrlSchemes = new Set(
+      (options.allowedUrlSchemes ?? ['http', 'https']).map((scheme) =>
+        scheme.toLowerCase().replace(/:$/, '')
+      )
+    )
+    this.allowRelativeUrls = options.allowRelativeUrls ?? true
+    this.allowedOrigins = options.allowedOrigins
+      ? new Set(options.allowedOrigins.map((origin) => new URL(origin).origin))
+      : null
+    this.maxStorageKeyLength = options.maxStorageKeyLength ?? 256
+  }
+
+  /**
+   * Check whether a string is a known client action type
+   */
+  static isActionType(value: unknown): value is ClientActionType {
+    return typeof value === 'string' && (ACTION_TYPES as readonly string[]).includes(value)
+  }
+
+  /**
+   * Validate a complete ClientActionMessage
+   */
+  validateMessage(message: unknown): ValidationResult {
+    const errors: ValidationError[] = []
+
+    if (!isRecord(message)) {
+      return invalid('', 'Message must be an object', 'INVALID_TYPE')
+    }
+
+    if (message['type'] !== 'clientAction') {
+      errors.push({ field: 'type', message: "Message type must be 'clientAction'", code: 'INVALID_VALUE' })
+    }
+
+    for (const field of ['surfaceId', 'actionId'] as const) {
+      if (!isNonEmptyString(message[field])) {
+        errors.push({ field, message: `${field} must be a non-empty string`, code: 'REQUIRED' })
+      }
+    }
+
+    const actionType = message['actionType']
+    if (!ClientActionValidator.isActionType(actionType)) {
+      errors.push({
+        field: 'actionType',
+        message: `Unknown action type: ${String(actionType)}`,
+        code: 'UNKNOWN_ACTION',
+      })
+    }
+
+    if (message['permissionType'] !== undefined && !isPermissionType(message['permissionType'])) {
+      errors.push({
+        field: 'permissionType',
+        message: `Unknown permission type: ${String(message['permissionType'])}`,
+        code: 'INVALID_VALUE',
+      })
+    }
+
+    const actionResult = this.validateAction(message['action'])
+    errors.push(...actionResult.errors.map((error) => ({ ...error, field: prefix('action', error.field) })))
+
+    const action = message['action']
+    if (isRecord(action) && actionType !== undefined && action['type'] !== actionType) {
+      errors.push({
+        field: 'actionType',
+        message: `actionType '${String(actionType)}' does not match action.type '${String(action['type'])}'`,
+        code: 'TYPE_MISMATCH',
+      })
+    }
+
+    return { valid: errors.length === 0, errors }
+  }
+
+  /**
+   * Validate an action payload on its own
+   */
+  validateAction(action: unknown): ValidationResult {
+    if (!isRecord(action)) {
+      return invalid('', 'Action must be an object', 'INVALID_TYPE')
+    }
+
+    const type = action['type']
+    if (!ClientActionValidator.isActionType(type)) {
+      return invalid('type', `Unknown action type: ${String(type)}`, 'UNKNOWN_ACTION')
+    }
+
+    const errors: ValidationError[] = []
+
+    for (const field of REQUIRED_STRINGS[type] ?? []) {
+      if (!isNonEmptyString(action[field])) {
+        errors.push({ field, message: `${field} is required for ${type}`, code: 'REQUIRED' })
+      }
+    }
+
+    for (const field of URL_FIELDS[type] ?? []) {
+      const value = action[field]
+      if (isNonEmptyString(value) && !this.isSafeUrl(value, type === 'downloadFile')) {
+        errors.push({ field, message: `Unsafe URL: ${value}`, code: 'UNSAFE_URL' })
+      }
+    }
+
+    errors.push(...this.validateSpecific(action as unknown as SpecificClientAction))
+
+    return { valid: errors.length === 0, errors }
+  }
+
+  /**
+   * Check a URL against the allowed schemes and origins
+   * The URL is normalized and parsed the way browsers do, so tabs, newlines
+   * and backslashes cannot hide its scheme or host. Relative URLs are
+   * accepted when enabled and only if they stay on the current origin;
+   * `blob:` and `data:` URLs are only accepted for downloads.
+   */
+  isSafeUrl(url: string, allowDataUrls = false): boolean {
+    const normalized = normalizeUrl(url)
+    if (normalized === null) {
+      return false
+    }
+
+    let parsed: URL
+    try {
+      parsed = new URL(normalized, RELATIVE_BASE)
+    } catch {
+      return false
+    }
+
+    if (!SCHEME_PATTERN.test(normalized)) {
+      return this.allowRelativeUrls && parsed.origin === RELATIVE_BASE.origin
+    }
+
+    const scheme = parsed.protocol.slice(0, -1)
+    if (allowDataUrls && (scheme === 'blob' || scheme === 'data')) {
+      return true
+    }
+    if (!this.allowedUrlSchemes.has(scheme)) {
+      return false
+    }
+    // Opaque URLs (custom schemes, mailto:, tel:) have no origin to check
+    return (
+      this.allowedOrigins === null ||
+      parsed.origin === 'null' ||
+      this.allowedOrigins.has(parsed.origin)
+    )
+  }
+
+  /**
+   * Field checks that do not fit the generic tables
+   */
+  private validateSpecific(action: SpecificClientAction): ValidationError[] {
+    const errors: ValidationError[] = []
+
+    switch (action.type) {
+      case 'goBack':
+      case 'goForward':
+        if (action.steps !== undefined && !(Number.isInteger(action.steps) && action.steps > 0)) {
+          errors.push({ field: 'steps', message: 'steps must be a positive integer', code: 'INVALID_VALUE' })
+        }
+        break
+
+      case 'showDialog':
+        if (!['alert', 'confirm', 'prompt'].includes(action.dialogType)) {
+          errors.push({
+            field: 'dialogType',
+            message: `Unknown dialog type: ${String(action.dialogType)}`,
+            code: 'INVALID_VALUE',
+          })
+        }
+        break
+
+      case 'setLocalStorage':
+      case 'getLocalStorage':
+      case 'removeLocalStorage':
+        if (typeof action.key === 'string' && action.key.length > this.maxStorageKeyLength) {
+          errors.push({
+            field: 'key',
+            message: `key exceeds ${this.maxStorageKeyLength} characters`,
+            code: 'INVALID_VALUE',
+          })
+        }
+        if (action.type === 'setLocalStorage' && action.value === undefined) {
+          errors.push({ field: 'value', message: 'value is required for setLocalStorage', code: 'REQUIRED' })
+        }
+        break
+
+      case 'requestPermission':
+        if (action.permission !== undefined && !isPermissionType(action.permission)) {
+          errors.push({
+            field: 'permission',
+            message: `Unknown permission type: ${String(action.permission)}`,
+            code: 'INVALID_VALUE',
+          })
+        }
+        break
+
+      case 'vibrate': {
+        const pattern = action.pattern
+        const values = Array.isArray(pattern) ? pattern : pattern === undefined ? [] : [pattern]
+        if (values.some((value) => typeof value !== 'number' || !(value >= 0))) {
+          errors.push({
+            field: 'pattern',
+            message: 'pattern must be a non-negative number or array of numbers',
+            code: 'INVALID_VALUE',
+          })
+        }
+        break
+      }
+
+      case 'sendEmail': {
+        const recipients = [action.to, ...(action.cc ?? []), ...(action.bcc ?? [])]
+        if (recipients.some((address) => typeof address === 'string' && !EMAIL_PATTERN.test(address))) {
+          errors.push({ field: 'to', message: 'Invalid email address', code: 'INVALID_VALUE' })
+        }
+        break
+      }
+
+      case 'makePhoneCall':
+        if (typeof action.phoneNumber === 'string' && !PHONE_PATTERN.test(action.phoneNumber)) {
+          errors.push({ field: 'phoneNumber', message: 'Invalid phone number', code: 'INVALID_VALUE' })
+        }
+        break
+
+      case 'openMap': {
+        const hasCoordinates =
+          typeof action.latitude === 'number' && typeof action.longitude === 'number'
+        if (!hasCoordinates && !isNonEmptyString(action.address) && !isNonEmptyString(action.destination)) {
+          errors.push({
+            field: 'address',
+            message: 'openMap requires an address, destination or latitude/longitude',
+            code: 'REQUIRED',
+          })
+        }
+        break
+      }
+
+      case 'shareContent':
+        if (!action.title && !action.text && !action.url && !action.files?.length) {
+          errors.push({
+            field: 'text',
+            message: 'shareContent requires a title, text, url or files',
+            code: 'REQUIRED',
+          })
+        }
+        break
+    }
+
+    return errors
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function isPermissionType(value: unknown): value is PermissionType {
+  return typeof value === 'string' && (PERMISSION_TYPES as readonly string[]).includes(value)
+}
+
+function prefix(base: string, field: string): string {
+  return field ? `${base}.${field}` : base
+}
+
+function invalid(field: string, message: string, code: ValidationErrorCode): ValidationResult {
+  return { valid: false, errors: [{ field, message, code }] }
+}
+
+/**
+ * Normalize a URL the way browsers do before parsing it
+ * Surrounding C0 controls and spaces are dropped, as are tabs and newlines
+ * anywhere. Returns null if other control characters remain.
+ */
+function normalizeUrl(url: string): string | null {
+  let start = 0
+  let end = url.length
+  while (start < end && url.charCodeAt(start) <= 0x20) start++
+  while (end > start && url.charCodeAt(end - 1) <= 0x20) end--
+
+  let normalized = ''
+  for (let i = start; i < end; i++) {
+    const code = url.charCodeAt(i)
+    if (code === 0x09 || code === 0x0a || code === 0x0d) continue
+    if (code < 0x20 || code === 0x7f) return null
+    normalized += url[i]
+  }
+  return normalized
+}
@@ -0,0 +1,162 @@
+/**
+ * Component Property Schemas
+ * Checks component properties against the built-in schemas and the schema
+ * of their registry definition. Shared by the surface validator and the
+ * structured output validator, which report the errors in their own path
+ * formats.
+ */
+
+import type { JSONSchema } from '../types/validation.js'
+import { standardComponentSchemas, videoComponentSchemas } from '../types/validation.js'
+import type { ComponentDefinition } from '../registry/registry.js'
+import { isBindingExpression } from '../binding/binding-resolver.js'
+import { isTranslationExpression } from '../i18n/component-translations.js'
+
+/**
+ * Property schema error
+ */
+export interface SchemaError {
+  /** Location below the properties object; numbers are array indices */
+  path: Array<string | number>
+  /** What is wrong */
+  message: string
+}
+
+const BUILT_IN_SCHEMAS: Record<string, { schema: JSONSchema }> = {
+  ...standardComponentSchemas,
+  ...videoComponentSchemas,
+}
+
+/**
+ * Check a component's properties against its built-in and registry schemas
+ * Registry defaults fill in whatever the component leaves out.
+ */
+export function checkComponentProperties(
+  definition: ComponentDefinition,
+  properties: Record<string, unknown> | undefined
+): SchemaError[] {
+  const effective = { ...definition.defaultProps, ...properties }
+  const schemas = [
+    BUILT_IN_SCHEMAS[definition.type]?.schema,
+    definition.schema as JSONSchema | undefined,
+  ]
+
+  const errors: SchemaError[] = []
+  for (const schema of schemas) {
+    if (schema) errors.push(...checkSchema(schema, effective, []))
+  }
+  return errors
+}
+
+/**
+ * Check a value against the subset of JSON Schema used by component schemas
+ */
+export function checkSchema(
+  schema: JSONSchema,
+  value: unknown,
+  path: Array<string | number>
+): SchemaError[] {
+  // Bound and translated values are only known at render time
+  if (isBindingExpression(value) || isTranslationExpression(value)) {
+    return []
+  }
+
+  const errors: SchemaError[] = []
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some((type) => matchesType(value, type))) {
+      return [{ path, message: `Expected ${types.join(' | ')}, received ${describe(value)}` }]
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({
+      path,
+      message: `Expected one of: ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`,
+    })
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `Expected at least ${schema.minLength} characters` })
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, message: `Expected at most ${schema.maxLength} characters` })
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, message: `Does not match pattern ${schema.pattern}` })
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `Expected a value >= ${schema.minimum}` })
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `Expected a value <= ${schema.maximum}` })
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items
+    value.forEach((item: unknown, index) => {
+      errors.push(...checkSchema(items, item, [...path, index]))
+    })
+  }
+
+  if (isObject(value)) {
+    for (const field of schema.required ?? []) {
+      if (value[field] === undefined || value[field] === null) {
+        errors.push({ path: [...path, field], message: `Required property "${field}" is missing` })
+      }
+    }
+
+    for (const [key, fieldValue] of Object.entries(value)) {
+      const fieldPath = [...path, key]
+      const fieldSchema = schema.properties?.[key]
+      if (!fieldSchema) {
+        if (schema.additionalProperties === false) {
+          errors.push({ path: fieldPath, message: `Unknown property "${key}"` })
+        } else if (isObject(schema.additionalProperties) && fieldValue != null) {
+          errors.push(...checkSchema(schema.additionalProperties, fieldValue, fieldPath))
+        }
+        continue
+      }
+
+      // Optional fields may be left empty
+      if (fieldValue === undefined || fieldValue === null) continue
+      errors.push(...checkSchema(fieldSchema, fieldValue, fieldPath))
+    }
+  }
+
+  return errors
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Name a value's JSON type for error messages
+ */
+export function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return isObject(value)
+    case 'integer':
+      return Number.isInteger(value)
+    case 'null':
+      return value === null
+    default:
+      return typeof value === type
+  }
+}
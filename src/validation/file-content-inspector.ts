@@ -0,0 +1,902 @@
+/**
+ * File Content Inspection for A2UI v0.9
+ * Reads file headers to find the real format, image dimensions, video
+ * duration and archive layout, without trusting the declared MIME type
+ *
+ * Works on `Blob`s (browser `File`s included), `ArrayBuffer`s and typed
+ * arrays. Blobs are read in slices, so only headers and archive directories
+ * are loaded, not the whole file.
+ */
+
+/**
+ * File contents to inspect
+ */
+export type FileContentSource = Blob | ArrayBuffer | ArrayBufferView
+
+/**
+ * Broad kind of a detected format
+ */
+export type FileContentCategory =
+  | 'image'
+  | 'video'
+  | 'audio'
+  | 'document'
+  | 'archive'
+  | 'executable'
+
+/**
+ * Format found from the file's magic bytes
+ */
+export interface DetectedFileType {
+  /** Canonical MIME type */
+  mimeType: string
+  category: FileContentCategory
+  /** Extensions used by the format, without dot */
+  extensions: string[]
+  /** Other MIME types the same bytes may be declared as */
+  aliases: string[]
+}
+
+/**
+ * Image size in pixels
+ */
+export interface ImageDimensions {
+  width: number
+  height: number
+}
+
+/**
+ * Archive layout from a ZIP central directory or a gzip trailer
+ */
+export interface ArchiveInfo {
+  /** Number of entries, nested archives included */
+  entries: number
+  /** Total uncompressed size in bytes, nested archives included */
+  uncompressedSize: number
+  /** Uncompressed size divided by the archive size */
+  compressionRatio: number
+  /** Nesting depth: 1 for an archive holding no other archives */
+  depth: number
+  /** Entries whose data overlaps another entry (a zip bomb technique) */
+  overlappingEntries: number
+}
+
+/**
+ * Everything learned from a file's contents
+ */
+export interface FileContentInfo {
+  /** Detected format; undefined for text and unknown formats */
+  type?: DetectedFileType
+  /** Whether a file of no detected format looks like text */
+  text: boolean
+  dimensions?: ImageDimensions
+  /** Video duration in seconds */
+  duration?: number
+  archive?: ArchiveInfo
+  /** Active content found in an SVG */
+  svgThreats?: string[]
+}
+
+/**
+ * Random access to file bytes
+ */
+interface ByteReader {
+  size: number
+  read(offset: number, length: number): Promise<Uint8Array>
+}
+
+interface Signature {
+  bytes: Array<number | null>
+  offset?: number
+  type: DetectedFileType
+}
+
+const ZIP_TYPES = [
+  'application/x-zip-compressed',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.oasis.opendocument.text',
+  'application/vnd.oasis.opendocument.spreadsheet',
+  'application/vnd.oasis.opendocument.presentation',
+  'application/epub+zip',
+  'application/java-archive',
+  'application/vnd.android.package-archive',
+]
+
+const ZIP_EXTENSIONS = ['zip', 'docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'epub', 'jar', 'apk']
+
+const ARCHIVE_EXTENSIONS = new Set([
+  'zip',
+  'jar',
+  'gz',
+  'tgz',
+  'bz2',
+  'xz',
+  '7z',
+  'rar',
+  'tar',
+  'zst',
+])
+
+function type(
+  mimeType: string,
+  category: FileContentCategory,
+  extensions: string[],
+  aliases: string[] = []
+): DetectedFileType {
+  return { mimeType, category, extensions, aliases }
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0))
+}
+
+const ANY = null
+
+/**
+ * Magic numbers, most specific first
+ */
+const SIGNATURES: Signature[] = [
+  {
+    bytes: [0x89, ...ascii('PNG'), 0x0d, 0x0a, 0x1a, 0x0a],
+    type: type('image/png', 'image', ['png']),
+  },
+  { bytes: [0xff, 0xd8, 0xff], type: type('image/jpeg', 'image', ['jpg', 'jpeg'], ['image/jpg']) },
+  { bytes: ascii('GIF87a'), type: type('image/gif', 'image', ['gif']) },
+  { bytes: ascii('GIF89a'), type: type('image/gif', 'image', ['gif']) },
+  {
+    bytes: [...ascii('RIFF'), ANY, ANY, ANY, ANY, ...ascii('WEBP')],
+    type: type('image/webp', 'image', ['webp']),
+  },
+  {
+    bytes: [...ascii('RIFF'), ANY, ANY, ANY, ANY, ...ascii('WAVE')],
+    type: type('audio/wav', 'audio', ['wav'], ['audio/x-wav', 'audio/wave', 'audio/vnd.wave']),
+  },
+  {
+    bytes: [...ascii('RIFF'), ANY, ANY, ANY, ANY, ...ascii('AVI ')],
+    type: type('video/x-msvideo', 'video', ['avi'], ['video/avi', 'video/msvideo']),
+  },
+  { bytes: [...ascii('II'), 0x2a, 0x00], type: type('image/tiff', 'image', ['tif', 'tiff']) },
+  { bytes: [...ascii('MM'), 0x00, 0x2a], type: type('image/tiff', 'image', ['tif', 'tiff']) },
+  {
+    bytes: [0x00, 0x00, 0x01, 0x00],
+    type: type('image/x-icon', 'image', ['ico'], ['image/vnd.microsoft.icon']),
+  },
+  { bytes: ascii('BM'), type: type('image/bmp', 'image', ['bmp'], ['image/x-ms-bmp']) },
+  { bytes: ascii('%PDF-'), type: type('application/pdf', 'document', ['pdf']) },
+  {
+    bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+    type: type(
+      'application/x-cfb',
+      'document',
+      ['doc', 'xls', 'ppt', 'msg', 'msi'],
+      [
+        'application/msword',
+        'application/vnd.ms-excel',
+        'application/vnd.ms-powerpoint',
+        'application/vnd.ms-outlook',
+        'application/x-msi',
+      ]
+    ),
+  },
+  { bytes: ascii('{\\rtf'), type: type('application/rtf', 'document', ['rtf'], ['text/rtf']) },
+  {
+    bytes: [...ascii('PK'), 0x03, 0x04],
+    type: type('application/zip', 'archive', ZIP_EXTENSIONS, ZIP_TYPES),
+  },
+  {
+    bytes: [...ascii('PK'), 0x05, 0x06],
+    type: type('application/zip', 'archive', ZIP_EXTENSIONS, ZIP_TYPES),
+  },
+  {
+    bytes: [0x1f, 0x8b],
+    type: type('application/gzip', 'archive', ['gz', 'tgz'], ['application/x-gzip']),
+  },
+  { bytes: ascii('BZh'), type: type('application/x-bzip2', 'archive', ['bz2']) },
+  {
+    bytes: [0xfd, ...ascii('7zXZ'), 0x00],
+    type: type('application/x-xz', 'archive', ['xz']),
+  },
+  {
+    bytes: [...ascii('7z'), 0xbc, 0xaf, 0x27, 0x1c],
+    type: type('application/x-7z-compressed', 'archive', ['7z']),
+  },
+  {
+    bytes: [...ascii('Rar!'), 0x1a, 0x07],
+    type: type('application/vnd.rar', 'archive', ['rar'], ['application/x-rar-compressed']),
+  },
+  { bytes: [0x28, 0xb5, 0x2f, 0xfd], type: type('application/zstd', 'archive', ['zst']) },
+  { bytes: ascii('ustar'), offset: 257, type: type('application/x-tar', 'archive', ['tar']) },
+  {
+    bytes: ascii('OggS'),
+    type: type(
+      'audio/ogg',
+      'audio',
+      ['ogg', 'oga', 'ogv', 'opus'],
+      ['video/ogg', 'application/ogg']
+    ),
+  },
+  { bytes: ascii('fLaC'), type: type('audio/flac', 'audio', ['flac'], ['audio/x-flac']) },
+  { bytes: ascii('ID3'), type: type('audio/mpeg', 'audio', ['mp3'], ['audio/mp3']) },
+  { bytes: [0xff, 0xf1], type: type('audio/aac', 'audio', ['aac'], ['audio/x-aac']) },
+  { bytes: [0xff, 0xf9], type: type('audio/aac', 'audio', ['aac'], ['audio/x-aac']) },
+  {
+    bytes: ascii('MZ'),
+    type: type(
+      'application/x-msdownload',
+      'executable',
+      ['exe', 'dll', 'sys', 'scr'],
+      ['application/vnd.microsoft.portable-executable', 'application/x-dosexec']
+    ),
+  },
+  {
+    bytes: [0x7f, ...ascii('ELF')],
+    type: type('application/x-executable', 'executable', ['so', 'elf'], ['application/x-elf']),
+  },
+  ...[
+    [0xfe, 0xed, 0xfa, 0xce],
+    [0xfe, 0xed, 0xfa, 0xcf],
+    [0xce, 0xfa, 0xed, 0xfe],
+    [0xcf, 0xfa, 0xed, 0xfe],
+  ].map((bytes) => ({
+    bytes,
+    type: type('application/x-mach-binary', 'executable', ['dylib', 'bundle']),
+  })),
+  {
+    bytes: [0xca, 0xfe, 0xba, 0xbe],
+    type: type('application/java-vm', 'executable', ['class'], ['application/x-mach-binary']),
+  },
+]
+
+const MATROSKA = type('video/x-matroska', 'video', ['mkv', 'mka'], ['audio/x-matroska'])
+const WEBM = type('video/webm', 'video', ['webm'], ['audio/webm'])
+const MP3_FRAME = type('audio/mpeg', 'audio', ['mp3'], ['audio/mp3'])
+const SVG = type('image/svg+xml', 'image', ['svg'])
+
+/**
+ * ISO base media brands (the `ftyp` box) and what they hold
+ */
+const FTYP_BRANDS: Array<[RegExp, DetectedFileType]> = [
+  [/^(avif|avis)/, type('image/avif', 'image', ['avif'])],
+  [
+    /^(heic|heix|heim|heis|mif1|msf1)/,
+    type('image/heic', 'image', ['heic', 'heif'], ['image/heif']),
+  ],
+  [/^qt {2}/, type('video/quicktime', 'video', ['mov', 'qt'])],
+  [/^M4A |^M4B /, type('audio/mp4', 'audio', ['m4a', 'm4b'], ['audio/x-m4a', 'audio/aac'])],
+  [/^3g2/, type('video/3gpp2', 'video', ['3g2'], ['audio/3gpp2'])],
+  [/^3g/, type('video/3gpp', 'video', ['3gp'], ['audio/3gpp'])],
+  [/^M4V/, type('video/x-m4v', 'video', ['m4v'], ['video/mp4'])],
+  [/./, type('video/mp4', 'video', ['mp4', 'm4v'], ['application/mp4', 'audio/mp4'])],
+]
+
+/**
+ * MIME types and extensions with a known signature
+ * Files declared as one of these must start with its magic bytes
+ */
+const KNOWN_TYPES = new Set<string>()
+const KNOWN_EXTENSIONS = new Set<string>()
+for (const detected of [
+  ...SIGNATURES.map((signature) => signature.type),
+  ...FTYP_BRANDS.map(([, detected]) => detected),
+  MATROSKA,
+  WEBM,
+]) {
+  KNOWN_TYPES.add(detected.mimeType)
+  detected.aliases.forEach((alias) => KNOWN_TYPES.add(alias))
+  detected.extensions.forEach((extension) => KNOWN_EXTENSIONS.add(extension))
+}
+
+/**
+ * Bytes read from the start of a file for detection
+ */
+const HEAD_SIZE = 4096
+
+/**
+ * Whether a MIME type or extension belongs to a format with a signature
+ */
+export function hasKnownSignature(mimeTypeOrExtension: string): boolean {
+  const value = mimeTypeOrExtension.toLowerCase()
+  return value.includes('/') ? KNOWN_TYPES.has(value) : KNOWN_EXTENSIONS.has(value)
+}
+
+/**
+ * Whether a detected format may be declared with a MIME type
+ */
+export function isTypeCompatible(detected: DetectedFileType, mimeType: string): boolean {
+  const declared = mimeType.toLowerCase().split(';')[0]?.trim() ?? ''
+  return declared === detected.mimeType || detected.aliases.includes(declared)
+}
+
+/**
+ * Detect a format from the first bytes of a file
+ * Reads at least 4 KiB for reliable results (TAR needs 262 bytes, SVG more)
+ */
+export function detectFileType(head: Uint8Array): DetectedFileType | undefined {
+  for (const { bytes, offset = 0, type: detected } of SIGNATURES) {
+    if (matches(head, bytes, offset)) return detected
+  }
+
+  if (latin1(head, 4, 4) === 'ftyp') {
+    const brand = latin1(head, 8, 4)
+    return FTYP_BRANDS.find(([pattern]) => pattern.test(brand))?.[1]
+  }
+
+  if (matches(head, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return latin1(head, 0, 64).includes('webm') ? WEBM : MATROSKA
+  }
+
+  // MPEG audio frame sync without an ID3 tag
+  if (head.length >= 2 && head[0] === 0xff && ((head[1] ?? 0) & 0xe6) > 0xe0) {
+    return MP3_FRAME
+  }
+
+  if (
+    looksLikeText(head) &&
+    /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^[>]*(\[[\s\S]*?\])?\s*>\s*)*<svg[\s>]/i.test(
+      decode(head)
+    )
+  ) {
+    return SVG
+  }
+
+  return undefined
+}
+
+/**
+ * Whether bytes look like text: no NUL bytes and few control characters
+ */
+export function looksLikeText(bytes: Uint8Array): boolean {
+  let control = 0
+  for (const byte of bytes) {
+    if (byte === 0) return false
+    if (byte < 0x09 || (byte > 0x0d && byte < 0x20)) control++
+  }
+  return control <= bytes.length / 100
+}
+
+/**
+ * Inspect a file's contents
+ * Dimensions, duration and archive layout are only read when `detail` asks for them
+ */
+export async function inspectFileContent(
+  source: FileContentSource,
+  detail: { dimensions?: boolean; duration?: boolean; archive?: boolean; svg?: boolean } = {}
+): Promise<FileContentInfo> {
+  const reader = createReader(source)
+  const head = await reader.read(0, HEAD_SIZE)
+  const detected = detectFileType(head)
+  const info: FileContentInfo = {
+    ...(detected ? { type: detected } : {}),
+    text: !detected && looksLikeText(head),
+  }
+
+  // Comments or a DOCTYPE longer than the head hide the SVG root from
+  // detection, so every text file is searched for SVG markup
+  if (detail.svg && (detected === SVG || info.text)) {
+    const markup = decode(await reader.read(0, reader.size))
+    if (detected === SVG || SVG_ELEMENT.test(markup)) {
+      info.svgThreats = findSvgThreats(markup)
+    }
+  }
+  if (!detected) return info
+
+  if (detail.dimensions && detected.category === 'image') {
+    const dimensions = await readImageDimensions(reader, detected.mimeType, head)
+    if (dimensions) info.dimensions = dimensions
+  }
+  if (detail.duration && detected.category === 'video') {
+    const duration = await readVideoDuration(reader, detected.mimeType, head)
+    if (duration !== undefined) info.duration = duration
+  }
+  if (detail.archive && detected.category === 'archive') {
+    const archive = await readArchiveInfo(reader, detected.mimeType)
+    if (archive) info.archive = archive
+  }
+  return info
+}
+
+const SVG_ELEMENT = /<(?:[\w.-]+:)?svg[\s>/]/i
+
+/**
+ * Active content an SVG must not carry when shown inline
+ * Element names may carry a namespace prefix, as in `<s:script>`.
+ */
+const SVG_THREATS: Array<[string, RegExp]> = [
+  ['script element', /<(?:[\w.-]+:)?script[\s>/]/i],
+  ['event handler attribute', /\son[a-z]+\s*=/i],
+  ['javascript: URL', /=\s*["']?\s*(?:javascript|vbscript)\s*:/i],
+  ['data:text/html URL', /=\s*["']?\s*data\s*:\s*text\/html/i],
+  ['foreignObject element', /<(?:[\w.-]+:)?foreignObject[\s>/]/i],
+  ['embedded document', /<(?:[\w.-]+:)?(?:iframe|embed|object)[\s>/]/i],
+  ['entity declaration', /<!ENTITY/i],
+]
+
+/**
+ * Named character references that can spell out a URL scheme
+ */
+const NAMED_REFERENCES: Record<string, string> = {
+  amp: '&',
+  apos: "'",
+  colon: ':',
+  gt: '>',
+  lt: '<',
+  newline: '\n',
+  quot: '"',
+  tab: '\t',
+}
+
+/**
+ * Find scripts and other active content in SVG markup
+ * Character references are decoded, and the tabs and newlines that browsers
+ * drop from URLs are removed, before the markup is tested.
+ * @returns Descriptions of the threats found
+ */
+export function findSvgThreats(svg: string): string[] {
+  const decoded = decodeCharacterReferences(svg).replace(/[\t\n\r]/g, '')
+  return SVG_THREATS.filter(([, pattern]) => pattern.test(svg) || pattern.test(decoded)).map(
+    ([threat]) => threat
+  )
+}
+
+function decodeCharacterReferences(markup: string): string {
+  return markup.replace(
+    /&(?:#x([0-9a-f]+)|#(\d+)|([a-z]+));?/gi,
+    (reference, hex?: string, decimal?: string, name?: string) => {
+      if (name !== undefined) return NAMED_REFERENCES[name.toLowerCase()] ?? reference
+      const code = hex !== undefined ? parseInt(hex, 16) : Number(decimal)
+      return code <= 0x10ffff ? String.fromCodePoint(code) : reference
+    }
+  )
+}
+
+/**
+ * Read image dimensions from PNG, GIF, JPEG, WebP and BMP headers
+ */
+async function readImageDimensions(
+  reader: ByteReader,
+  mimeType: string,
+  head: Uint8Array
+): Promise<ImageDimensions | undefined> {
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength)
+  if (head.length < 30) return undefined
+
+  switch (mimeType) {
+    case 'image/png':
+      return { width: view.getUint32(16), height: view.getUint32(20) }
+    case 'image/gif':
+      return { width: view.getUint16(6, true), height: view.getUint16(8, true) }
+    case 'image/bmp':
+      return {
+        width: Math.abs(view.getInt32(18, true)),
+        height: Math.abs(view.getInt32(22, true)),
+      }
+    case 'image/webp':
+      return readWebPDimensions(head, view)
+    case 'image/jpeg':
+      return readJpegDimensions(reader)
+    default:
+      return undefined
+  }
+}
+
+function readWebPDimensions(head: Uint8Array, view: DataView): ImageDimensions | undefined {
+  switch (latin1(head, 12, 4)) {
+    case 'VP8 ':
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff }
+    case 'VP8L': {
+      const bits = view.getUint32(21, true)
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+    }
+    case 'VP8X':
+      return { width: readUint24(head, 24) + 1, height: readUint24(head, 27) + 1 }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Walk JPEG segments up to the start-of-frame marker
+ */
+async function readJpegDimensions(reader: ByteReader): Promise<ImageDimensions | undefined> {
+  let offset = 2
+  while (offset + 9 <= reader.size) {
+    const segment = await reader.read(offset, 9)
+    if (segment[0] !== 0xff) return undefined
+
+    const marker = segment[1] ?? 0
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    // Start of frame, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength)
+      return { width: view.getUint16(7), height: view.getUint16(5) }
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2
+      continue
+    }
+    offset += 2 + (((segment[2] ?? 0) << 8) | (segment[3] ?? 0))
+  }
+  return undefined
+}
+
+/**
+ * Read the duration in seconds from MP4/QuickTime, Matroska/WebM and AVI headers
+ */
+async function readVideoDuration(
+  reader: ByteReader,
+  mimeType: string,
+  head: Uint8Array
+): Promise<number | undefined> {
+  if (mimeType === 'video/x-msvideo') {
+    if (head.length < 52 || latin1(head, 24, 4) !== 'avih') return undefined
+    const view = new DataView(head.buffer, head.byteOffset, head.byteLength)
+    return (view.getUint32(32, true) * view.getUint32(48, true)) / 1e6
+  }
+  if (mimeType === 'video/webm' || mimeType === 'video/x-matroska') {
+    return readMatroskaDuration(head)
+  }
+  return readMp4Duration(reader)
+}
+
+/**
+ * Find `moov/mvhd` by walking ISO base media boxes
+ */
+async function readMp4Duration(reader: ByteReader): Promise<number | undefined> {
+  const moov = await findBox(reader, 0, reader.size, 'moov')
+  if (!moov) return undefined
+  const mvhd = await findBox(reader, moov.start, moov.end, 'mvhd')
+  if (!mvhd) return undefined
+
+  const box = await reader.read(mvhd.start, 32)
+  const view = new DataView(box.buffer, box.byteOffset, box.byteLength)
+  if (box[0] === 1) {
+    const timescale = view.getUint32(20)
+    return timescale ? readUint64(view, 24) / timescale : undefined
+  }
+  const timescale = view.getUint32(12)
+  return timescale ? view.getUint32(16) / timescale : undefined
+}
+
+/**
+ * Locate a child box; `start` and `end` of the result exclude the box header
+ */
+async function findBox(
+  reader: ByteReader,
+  start: number,
+  end: number,
+  name: string
+): Promise<{ start: number; end: number } | undefined> {
+  let offset = start
+  while (offset + 8 <= end) {
+    const header = await reader.read(offset, 16)
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength)
+    let size = view.getUint32(0)
+    let headerSize = 8
+    if (size === 1 && header.length >= 16) {
+      size = readUint64(view, 8)
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < headerSize) return undefined
+
+    if (latin1(header, 4, 4) === name) {
+      return { start: offset + headerSize, end: Math.min(offset + size, end) }
+    }
+    offset += size
+  }
+  return undefined
+}
+
+const EBML_SEGMENT = 0x18538067
+const EBML_INFO = 0x1549a966
+const EBML_TIMECODE_SCALE = 0x2ad7b1
+const EBML_DURATION = 0x4489
+
+/**
+ * Read `Segment/Info/Duration` scaled by `TimecodeScale`
+ * The Info element sits at the start of the file in practice
+ */
+function readMatroskaDuration(head: Uint8Array): number | undefined {
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength)
+  let offset = 0
+  let end = head.length
+  let timecodeScale = 1e6
+  let duration: number | undefined
+
+  while (offset < end) {
+    const id = readVint(head, offset, false)
+    if (!id) return undefined
+    const size = readVint(head, offset + id.length, true)
+    if (!size) return undefined
+    const dataStart = offset + id.length + size.length
+
+    if (id.value === EBML_SEGMENT || id.value === EBML_INFO) {
+      // Master elements: descend
+      if (id.value === EBML_INFO && size.value !== undefined) {
+        end = Math.min(end, dataStart + size.value)
+      }
+      offset = dataStart
+      continue
+    }
+    if (size.value === undefined) return undefined
+
+    if (id.value === EBML_TIMECODE_SCALE && dataStart + size.value <= head.length) {
+      timecodeScale = readUintN(head, dataStart, size.value)
+    } else if (id.value === EBML_DURATION && dataStart + size.value <= head.length) {
+      if (size.value === 4) duration = view.getFloat32(dataStart)
+      else if (size.value === 8) duration = view.getFloat64(dataStart)
+    }
+    offset = dataStart + size.value
+  }
+
+  return duration === undefined ? undefined : (duration * timecodeScale) / 1e9
+}
+
+/**
+ * Read an EBML variable-length integer
+ * IDs keep their length marker; sizes drop it, and all-ones means unknown
+ */
+function readVint(
+  bytes: Uint8Array,
+  offset: number,
+  isSize: boolean
+): { value: number | undefined; length: number } | undefined {
+  const first = bytes[offset]
+  if (first === undefined || first === 0) return undefined
+
+  const length = Math.clz32(first) - 23
+  if (offset + length > bytes.length || length > 8) return undefined
+
+  let value = isSize ? first & (0xff >> length) : first
+  let allOnes = value === 0xff >> length
+  for (let i = 1; i < length; i++) {
+    const byte = bytes[offset + i] ?? 0
+    value = value * 256 + byte
+    allOnes &&= byte === 0xff
+  }
+  return { value: isSize && allOnes ? undefined : value, length }
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50
+const ZIP_CENTRAL_HEADER = 0x02014b50
+const ZIP_END = 0x06054b50
+const ZIP64_END = 0x06064b50
+const ZIP64_LOCATOR = 0x07064b50
+
+interface ZipEntry {
+  name: string
+  method: number
+  compressedSize: number
+  uncompressedSize: number
+  offset: number
+}
+
+/**
+ * Read archive statistics; only the central directory of a ZIP is loaded
+ */
+async function readArchiveInfo(
+  reader: ByteReader,
+  mimeType: string
+): Promise<ArchiveInfo | undefined> {
+  if (mimeType === 'application/gzip') {
+    // ISIZE: uncompressed size modulo 2^32
+    if (reader.size < 18) return undefined
+    const trailer = await reader.read(reader.size - 4, 4)
+    if (trailer.length < 4) return undefined
+    const uncompressedSize = new DataView(trailer.buffer, trailer.byteOffset).getUint32(0, true)
+    return {
+      entries: 1,
+      uncompressedSize,
+      compressionRatio: uncompressedSize / reader.size,
+      depth: 1,
+      overlappingEntries: 0,
+    }
+  }
+  if (mimeType === 'application/zip') {
+    return readZipInfo(reader, 1)
+  }
+  return undefined
+}
+
+async function readZipInfo(reader: ByteReader, depth: number): Promise<ArchiveInfo | undefined> {
+  const entries = await readZipEntries(reader)
+  if (!entries) return undefined
+
+  const info: ArchiveInfo = {
+    entries: entries.length,
+    uncompressedSize: 0,
+    compressionRatio: 0,
+    depth,
+    overlappingEntries: 0,
+  }
+
+  const byOffset = [...entries].sort((a, b) => a.offset - b.offset)
+  byOffset.forEach((entry, i) => {
+    const next = byOffset[i + 1]
+    if (next && next.offset < entry.offset + 30 + entry.compressedSize) info.overlappingEntries++
+  })
+
+  for (const entry of entries) {
+    info.uncompressedSize += entry.uncompressedSize
+    const extension = entry.name.split('.').pop()?.toLowerCase() ?? ''
+    if (!ARCHIVE_EXTENSIONS.has(extension)) continue
+
+    // Stored ZIPs can be read in place; compressed archives count as one more level
+    const nested = entry.method === 0 ? await readNestedZip(reader, entry, depth + 1) : undefined
+    if (nested) {
+      info.entries += nested.entries
+      info.uncompressedSize += nested.uncompressedSize
+      info.overlappingEntries += nested.overlappingEntries
+    }
+    info.depth = Math.max(info.depth, nested?.depth ?? depth + 1)
+  }
+
+  info.compressionRatio = reader.size > 0 ? info.uncompressedSize / reader.size : 0
+  return info
+}
+
+async function readNestedZip(
+  reader: ByteReader,
+  entry: ZipEntry,
+  depth: number
+): Promise<ArchiveInfo | undefined> {
+  const header = await reader.read(entry.offset, 30)
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength)
+  if (header.length < 30 || view.getUint32(0, true) !== ZIP_LOCAL_HEADER) return undefined
+
+  const start = entry.offset + 30 + view.getUint16(26, true) + view.getUint16(28, true)
+  const nested = sliceReader(reader, start, entry.compressedSize)
+  const magic = await nested.read(0, 4)
+  if (
+    !matches(magic, [...ascii('PK'), 0x03, 0x04]) &&
+    !matches(magic, [...ascii('PK'), 0x05, 0x06])
+  ) {
+    return undefined
+  }
+  return readZipInfo(nested, depth)
+}
+
+/**
+ * Parse the central directory, following ZIP64 records when present
+ */
+async function readZipEntries(reader: ByteReader): Promise<ZipEntry[] | undefined> {
+  // End of central directory: 22 bytes plus a comment of up to 64 KiB
+  const tailStart = Math.max(0, reader.size - 22 - 0xffff)
+  const tail = await reader.read(tailStart, reader.size - tailStart)
+  const tailView = new DataView(tail.buffer, tail.byteOffset, tail.byteLength)
+
+  let end = -1
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === ZIP_END) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) return undefined
+
+  let count = tailView.getUint16(end + 10, true)
+  let directorySize = tailView.getUint32(end + 12, true)
+  let directoryOffset = tailView.getUint32(end + 16, true)
+
+  if (
+    (count === 0xffff || directoryOffset === 0xffffffff) &&
+    end >= 20 &&
+    tailView.getUint32(end - 20, true) === ZIP64_LOCATOR
+  ) {
+    const record = await reader.read(readUint64(tailView, end - 12), 56)
+    const view = new DataView(record.buffer, record.byteOffset, record.byteLength)
+    if (record.length < 56 || view.getUint32(0, true) !== ZIP64_END) return undefined
+    count = readUint64(view, 32, true)
+    directorySize = readUint64(view, 40, true)
+    directoryOffset = readUint64(view, 48, true)
+  }
+
+  const directory = await reader.read(directoryOffset, directorySize)
+  const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength)
+  const entries: ZipEntry[] = []
+  let offset = 0
+
+  while (entries.length < count && offset + 46 <= directory.length) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER) break
+
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const entry: ZipEntry = {
+      name: decode(directory.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      offset: view.getUint32(offset + 42, true),
+    }
+    readZip64Extra(view, offset + 46 + nameLength, extraLength, entry)
+
+    entries.push(entry)
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+/**
+ * Replace saturated 32-bit fields with their ZIP64 extra field values
+ */
+function readZip64Extra(view: DataView, start: number, length: number, entry: ZipEntry): void {
+  let offset = start
+  while (offset + 4 <= start + length && offset + 4 <= view.byteLength) {
+    const id = view.getUint16(offset, true)
+    const size = view.getUint16(offset + 2, true)
+    if (id === 0x0001) {
+      let field = offset + 4
+      for (const key of ['uncompressedSize', 'compressedSize', 'offset'] as const) {
+        if (entry[key] !== 0xffffffff || field + 8 > view.byteLength) continue
+        entry[key] = readUint64(view, field, true)
+        field += 8
+      }
+      return
+    }
+    offset += 4 + size
+  }
+}
+
+function createReader(source: FileContentSource): ByteReader {
+  if (typeof Blob !== 'undefined' && source instanceof Blob) {
+    return {
+      size: source.size,
+      read: async (offset, length) =>
+        new Uint8Array(await source.slice(offset, offset + length).arrayBuffer()),
+    }
+  }
+
+  const bytes = ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source as ArrayBuffer)
+  return {
+    size: bytes.length,
+    read: (offset, length) =>
+      Promise.resolve(bytes.subarray(Math.max(0, offset), Math.max(0, offset + length))),
+  }
+}
+
+function sliceReader(reader: ByteReader, start: number, length: number): ByteReader {
+  const size = Math.max(0, Math.min(length, reader.size - start))
+  return {
+    size,
+    read: (offset, count) =>
+      reader.read(start + offset, Math.max(0, Math.min(count, size - offset))),
+  }
+}
+
+function matches(bytes: Uint8Array, signature: Array<number | null>, offset = 0): boolean {
+  if (bytes.length < offset + signature.length) return false
+  return signature.every((byte, i) => byte === null || bytes[offset + i] === byte)
+}
+
+function latin1(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length))
+}
+
+function decode(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes)
+}
+
+function readUint24(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] ?? 0) | ((bytes[offset + 1] ?? 0) << 8) | ((bytes[offset + 2] ?? 0) << 16)
+}
+
+function readUintN(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0
+  for (let i = 0; i < length; i++) value = value * 256 + (bytes[offset + i] ?? 0)
+  return value
+}
+
+function readUint64(view: DataView, offset: number, littleEndian = false): number {
+  const high = view.getUint32(littleEndian ? offset + 4 : offset, littleEndian)
+  const low = view.getUint32(littleEndian ? offset : offset + 4, littleEndian)
+  return high * 2 ** 32 + low
+}
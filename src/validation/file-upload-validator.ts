@@ -4,6 +4,16 @@
  */
 
 import type { FileUploadProperties } from '../types/file-upload-components.js'
+import {
+  hasKnownSignature,
+  inspectFileContent,
+  isTypeCompatible,
+} from './file-content-inspector.js'
+import type {
+  ArchiveInfo,
+  FileContentInfo,
+  FileContentSource,
+} from './file-content-inspector.js'
 
 /**
  * File metadata for validation
@@ -36,6 +46,37 @@ export type ValidationErrorCode =
   | 'MIME_TYPE'
   | 'EXTENSION'
   | 'EMPTY_FILE'
+  | 'CONTENT_MISMATCH'
+  | 'IMAGE_DIMENSIONS'
+  | 'VIDEO_DURATION'
+  | 'ARCHIVE_LIMIT'
+  | 'UNSAFE_CONTENT'
+
+/**
+ * Content checks run by validateFileContent
+ */
+export interface FileContentValidationOptions {
+  /** Check that the magic bytes match the declared type and extension (default: true) */
+  verifyType?: boolean
+  /** Maximum image width in pixels */
+  maxImageWidth?: number
+  /** Maximum image height in pixels */
+  maxImageHeight?: number
+  /** Maximum image area in pixels */
+  maxImagePixels?: number
+  /** Maximum video duration in seconds */
+  maxVideoDuration?: number
+  /** Maximum uncompressed size divided by archive size (default: 100) */
+  maxCompressionRatio?: number
+  /** Maximum uncompressed size of an archive in bytes (default: 1 GiB) */
+  maxUncompressedSize?: number
+  /** Maximum number of entries in an archive (default: 10000) */
+  maxArchiveEntries?: number
+  /** Maximum archive nesting depth; 1 allows no archives inside archives (default: 2) */
+  maxArchiveDepth?: number
+  /** Accept SVGs with scripts, event handlers and other active content (default: false) */
+  allowSvgScripts?: boolean
+}
 
 /**
  * Validates a single file against component properties
@@ -133,6 +174,176 @@ export function validateFiles(
   return { valid: true }
 }
 
+/**
+ * Validates file contents: real type, image dimensions, video duration,
+ * archive limits and SVG scripts
+ * Only file headers and archive directories are read
+ */
+export async function validateFileContent(
+  file: ValidatableFile,
+  content: FileContentSource,
+  options: FileContentValidationOptions = {}
+): Promise<ValidationResult> {
+  const {
+    verifyType = true,
+    maxImageWidth,
+    maxImageHeight,
+    maxImagePixels,
+    maxVideoDuration,
+    maxCompressionRatio = 100,
+    maxUncompressedSize = 1024 * 1024 * 1024,
+    maxArchiveEntries = 10000,
+    maxArchiveDepth = 2,
+    allowSvgScripts = false,
+  } = options
+
+  const info = await inspectFileContent(content, {
+    dimensions:
+      maxImageWidth !== undefined || maxImageHeight !== undefined || maxImagePixels !== undefined,
+    duration: maxVideoDuration !== undefined,
+    archive: true,
+    svg: !allowSvgScripts,
+  })
+
+  if (verifyType) {
+    const typeValidation = validateContentType(file, info)
+    if (!typeValidation.valid) {
+      return typeValidation
+    }
+  }
+
+  if (info.dimensions) {
+    const { width, height } = info.dimensions
+    if (
+      (maxImageWidth !== undefined && width > maxImageWidth) ||
+      (maxImageHeight !== undefined && height > maxImageHeight) ||
+      (maxImagePixels !== undefined && width * height > maxImagePixels)
+    ) {
+      return {
+        valid: false,
+        error: `Image dimensions ${width}x${height} exceed the allowed size`,
+        errorCode: 'IMAGE_DIMENSIONS',
+        details: { width, height, maxImageWidth, maxImageHeight, maxImagePixels },
+      }
+    }
+  }
+
+  if (info.duration !== undefined && maxVideoDuration !== undefined) {
+    if (info.duration > maxVideoDuration) {
+      return {
+        valid: false,
+        error: `Video duration ${Math.round(info.duration)}s exceeds maximum allowed ${maxVideoDuration}s`,
+        errorCode: 'VIDEO_DURATION',
+        details: { duration: info.duration, maxVideoDuration },
+      }
+    }
+  }
+
+  if (info.archive) {
+    const violation = findArchiveViolation(info.archive, {
+      maxCompressionRatio,
+      maxUncompressedSize,
+      maxArchiveEntries,
+      maxArchiveDepth,
+    })
+    if (violation) {
+      return {
+        valid: false,
+        error: violation,
+        errorCode: 'ARCHIVE_LIMIT',
+        details: { ...info.archive },
+      }
+    }
+  }
+
+  if (info.svgThreats && info.svgThreats.length > 0) {
+    return {
+      valid: false,
+      error: `SVG contains active content: ${info.svgThreats.join(', ')}`,
+      errorCode: 'UNSAFE_CONTENT',
+      details: { threats: info.svgThreats },
+    }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Compares detected magic bytes with the declared MIME type and extension
+ */
+function validateContentType(
+  file: ValidatableFile,
+  info: FileContentInfo
+): ValidationResult {
+  const declared = file.type.toLowerCase()
+  const extension = getFileExtension(file.name)
+  const checkDeclared = declared !== '' && declared !== 'application/octet-stream'
+  const detected = info.type
+
+  let mismatch: boolean
+  if (detected) {
+    mismatch =
+      (checkDeclared && !isTypeCompatible(detected, declared)) ||
+      (extension !== '' &&
+        !detected.extensions.includes(extension) &&
+        (hasKnownSignature(extension) || detected.category === 'executable'))
+  } else {
+    const declaredText =
+      declared.startsWith('text/') || /[/+](json|xml|csv|javascript)$/.test(declared)
+    mismatch =
+      (checkDeclared && hasKnownSignature(declared)) ||
+      (extension !== '' && hasKnownSignature(extension)) ||
+      (declaredText && !info.text)
+  }
+
+  if (!mismatch) {
+    return { valid: true }
+  }
+
+  return {
+    valid: false,
+    error: detected
+      ? `File content is ${detected.mimeType}, which does not match '${file.name}' (${file.type || 'no type'})`
+      : `File content does not match '${file.name}' (${file.type || 'no type'})`,
+    errorCode: 'CONTENT_MISMATCH',
+    details: {
+      fileName: file.name,
+      declaredType: file.type,
+      detectedType: detected?.mimeType,
+    },
+  }
+}
+
+/**
+ * Describes the first archive limit exceeded, if any
+ */
+function findArchiveViolation(
+  archive: ArchiveInfo,
+  limits: Required<
+    Pick<
+      FileContentValidationOptions,
+      'maxCompressionRatio' | 'maxUncompressedSize' | 'maxArchiveEntries' | 'maxArchiveDepth'
+    >
+  >
+): string | undefined {
+  if (archive.overlappingEntries > 0) {
+    return 'Archive has overlapping entries'
+  }
+  if (archive.entries > limits.maxArchiveEntries) {
+    return `Archive has ${archive.entries} entries (maximum ${limits.maxArchiveEntries})`
+  }
+  if (archive.uncompressedSize > limits.maxUncompressedSize) {
+    return `Archive expands to ${formatFileSize(archive.uncompressedSize)} (maximum ${formatFileSize(limits.maxUncompressedSize)})`
+  }
+  if (archive.compressionRatio > limits.maxCompressionRatio) {
+    return `Archive compression ratio ${Math.round(archive.compressionRatio)} exceeds maximum ${limits.maxCompressionRatio}`
+  }
+  if (archive.depth > limits.maxArchiveDepth) {
+    return `Archives are nested ${archive.depth} levels deep (maximum ${limits.maxArchiveDepth})`
+  }
+  return undefined
+}
+
 /**
  * Validates file type against accept list
  */
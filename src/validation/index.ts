@@ -2,6 +2,8 @@
  * Validation Module
  * CEL (Common Expression Language) validation for A2UI components
  * Client action validation
+ * Surface validation
+ * File upload validation
  */
 
 export { CELValidator, defaultValidator } from './cel-validator.js'
@@ -9,4 +11,31 @@ export { CELCompiler, CELCompilerCache, CELCompilationError, defaultCompiler } f
 export type { ValidationContext } from './cel-validator.js'
 
 export { ClientActionValidator } from './client-action-validator.js'
-export type { ValidationResult, ValidationError } from './client-action-validator.js'
+export type {
+  ValidationResult,
+  ValidationError,
+  ValidationErrorCode,
+  ClientActionValidatorOptions,
+} from './client-action-validator.js'
+
+export { SurfaceValidator, DEFAULT_CHILD_RULES } from './surface-validator.js'
+export type {
+  SurfaceValidationError,
+  SurfaceValidationErrorCode,
+  SurfaceValidationResult,
+  SurfaceValidatorOptions,
+  ChildTypeRule,
+} from './surface-validator.js'
+
+export { validateFileContent } from './file-upload-validator.js'
+export type { FileContentValidationOptions } from './file-upload-validator.js'
+
+export { detectFileType, inspectFileContent, findSvgThreats } from './file-content-inspector.js'
+export type {
+  FileContentSource,
+  FileContentCategory,
+  DetectedFileType,
+  FileContentInfo,
+  ImageDimensions,
+  ArchiveInfo,
+} from './file-content-inspector.js'
@@ -0,0 +1,404 @@
+/**
+ * Surface Validator
+ * Validates a whole createSurface message: component types, IDs, the
+ * component tree and every component's properties
+ *
+ * Runs the same checks wherever a surface is produced or consumed, e.g. in
+ * the runtime before sending and on the client before rendering.
+ *
+ * @example
+ * ```typescript
+ * const validator = new SurfaceValidator()
+ *
+ * const result = validator.validate(message)
+ * if (!result.valid) {
+ *   // e.g. { code: 'MISSING_CHILD', path: '/components/0/children/1', ... }
+ *   console.log(result.errors)
+ * }
+ * ```
+ */
+
+import type { A2UIComponent } from '../types/components.js'
+import { ComponentRegistry } from '../registry/registry.js'
+import { checkComponentProperties, describe, isObject } from './component-schema.js'
+
+/**
+ * Surface validation error codes
+ */
+export type SurfaceValidationErrorCode =
+  | 'INVALID_MESSAGE'
+  | 'INVALID_COMPONENT'
+  | 'UNKNOWN_TYPE'
+  | 'DUPLICATE_ID'
+  | 'MISSING_CHILD'
+  | 'MULTIPLE_PARENTS'
+  | 'CYCLE'
+  | 'NO_ROOT'
+  | 'MULTIPLE_ROOTS'
+  | 'ILLEGAL_CHILD'
+  | 'INVALID_PROPERTY'
+
+/**
+ * Surface validation error
+ */
+export interface SurfaceValidationError {
+  /** Machine readable error code */
+  code: SurfaceValidationErrorCode
+  /** JSON Pointer (RFC 6901) to the offending value, relative to the message */
+  path: string
+  /** Human readable description */
+  message: string
+  /** ID of the component the error belongs to, when known */
+  componentId?: string
+}
+
+/**
+ * Surface validation result
+ */
+export interface SurfaceValidationResult {
+  valid: boolean
+  errors: SurfaceValidationError[]
+}
+
+/**
+ * Child types a component type accepts
+ * An empty `allowed` list means the type takes no children.
+ */
+export interface ChildTypeRule {
+  /** Only these child types are accepted */
+  allowed?: string[]
+  /** These child types are rejected */
+  forbidden?: string[]
+}
+
+/**
+ * Surface validator options
+ */
+export interface SurfaceValidatorOptions {
+  /** Component catalog (default: ComponentRegistry.standard()) */
+  registry?: ComponentRegistry
+  /** Child rules by parent type, replacing the defaults for those types */
+  childRules?: Record<string, ChildTypeRule>
+  /** Component ID expected to be the root when present (default: 'root') */
+  rootId?: string
+}
+
+/**
+ * Default child rules for the standard components
+ * Content, input and media components are leaves; buttons may hold an icon and a label.
+ */
+export const DEFAULT_CHILD_RULES: Record<string, ChildTypeRule> = {
+  text: { allowed: [] },
+  icon: { allowed: [] },
+  divider: { allowed: [] },
+  image: { allowed: [] },
+  video: { allowed: [] },
+  audioPlayer: { allowed: [] },
+  textField: { allowed: [] },
+  checkBox: { allowed: [] },
+  slider: { allowed: [] },
+  choicePicker: { allowed: [] },
+  dateTimeInput: { allowed: [] },
+  button: { allowed: ['icon', 'text'] },
+}
+
+/**
+ * Surface Validator
+ */
+export class SurfaceValidator {
+  private readonly registry: ComponentRegistry
+  private readonly childRules: Record<string, ChildTypeRule>
+  private readonly rootId: string
+
+  constructor(options: SurfaceValidatorOptions = {}) {
+    this.registry = options.registry ?? ComponentRegistry.standard()
+    this.childRules = { ...DEFAULT_CHILD_RULES, ...options.childRules }
+    this.rootId = options.rootId ?? 'root'
+  }
+
+  /**
+   * Validate a createSurface message
+   */
+  validate(message: unknown): SurfaceValidationResult {
+    if (!isObject(message)) {
+      return invalid([
+        { code: 'INVALID_MESSAGE', path: '', message: 'Expected a createSurface message object' },
+      ])
+    }
+
+    const errors: SurfaceValidationError[] = []
+    if (message['type'] !== 'createSurface') {
+      errors.push({
+        code: 'INVALID_MESSAGE',
+        path: '/type',
+        message: `Expected message type "createSurface", received ${JSON.stringify(message['type'])}`,
+      })
+    }
+    if (typeof message['surfaceId'] !== 'string' || message['surfaceId'].length === 0) {
+      errors.push({
+        code: 'INVALID_MESSAGE',
+        path: '/surfaceId',
+        message: 'surfaceId must be a non-empty string',
+      })
+    }
+
+    errors.push(...this.validateComponents(message['components'], '/components').errors)
+    return { valid: errors.length === 0, errors }
+  }
+
+  /**
+   * Validate a list of components as one surface
+   *
+   * @param path - JSON Pointer of the list, used as the prefix of error paths
+   */
+  validateComponents(components: unknown, path = ''): SurfaceValidationResult {
+    if (!Array.isArray(components)) {
+      return invalid([{ code: 'INVALID_MESSAGE', path, message: 'components must be an array' }])
+    }
+
+    const errors: SurfaceValidationError[] = []
+    const byId = new Map<string, { component: A2UIComponent; index: number }>()
+    const firstIndex = new Map<string, number>()
+
+    components.forEach((component: unknown, index) => {
+      const componentPath = `${path}/${index}`
+      const componentErrors = this.validateComponent(component, componentPath)
+      errors.push(...componentErrors)
+
+      if (!isObject(component) || typeof component['id'] !== 'string') return
+      const id = component['id']
+      const first = firstIndex.get(id)
+      if (first !== undefined) {
+        errors.push({
+          code: 'DUPLICATE_ID',
+          path: `${componentPath}/id`,
+          message: `Duplicate component id "${id}" (first used at ${path}/${first})`,
+          componentId: id,
+        })
+        return
+      }
+      firstIndex.set(id, index)
+
+      // Tree checks only use components whose shape is sound
+      if (!componentErrors.some((error) => error.code === 'INVALID_COMPONENT')) {
+        byId.set(id, { component: component as unknown as A2UIComponent, index })
+      }
+    })
+
+    errors.push(...this.validateTree(byId, path))
+    return { valid: errors.length === 0, errors }
+  }
+
+  /**
+   * Validate one component on its own: shape, type and properties
+   */
+  validateComponent(component: unknown, path = ''): SurfaceValidationError[] {
+    if (!isObject(component)) {
+      return [
+        {
+          code: 'INVALID_COMPONENT',
+          path,
+          message: `Expected a component object, received ${describe(component)}`,
+        },
+      ]
+    }
+
+    const errors: SurfaceValidationError[] = []
+    const id = typeof component['id'] === 'string' ? component['id'] : undefined
+    if (!id) {
+      errors.push({
+        code: 'INVALID_COMPONENT',
+        path: `${path}/id`,
+        message: 'id must be a non-empty string',
+      })
+    }
+
+    const children = component['children']
+    if (children !== undefined) {
+      if (!Array.isArray(children)) {
+        errors.push({
+          code: 'INVALID_COMPONENT',
+          path: `${path}/children`,
+          message: 'children must be an array of component ids',
+          componentId: id,
+        })
+      } else {
+        children.forEach((child: unknown, index) => {
+          if (typeof child !== 'string') {
+            errors.push({
+              code: 'INVALID_COMPONENT',
+              path: `${path}/children/${index}`,
+              message: `Expected a component id, received ${describe(child)}`,
+              componentId: id,
+            })
+          }
+        })
+      }
+    }
+
+    const type = component['type']
+    const definition = typeof type === 'string' ? this.registry.get(type) : undefined
+    if (!definition) {
+      errors.push({
+        code: 'UNKNOWN_TYPE',
+        path: `${path}/type`,
+        message: `Unknown component type ${JSON.stringify(type)}`,
+        componentId: id,
+      })
+      return errors
+    }
+
+    const properties = component['properties']
+    if (properties !== undefined && !isObject(properties)) {
+      errors.push({
+        code: 'INVALID_COMPONENT',
+        path: `${path}/properties`,
+        message: 'properties must be an object',
+        componentId: id,
+      })
+      return errors
+    }
+
+    for (const error of checkComponentProperties(definition, properties)) {
+      errors.push({
+        code: 'INVALID_PROPERTY',
+        path: pointer(`${path}/properties`, error.path),
+        message: error.message,
+        componentId: id,
+      })
+    }
+
+    return errors
+  }
+
+  /**
+   * Check references, parents, child types, cycles and roots
+   */
+  private validateTree(
+    byId: Map<string, { component: A2UIComponent; index: number }>,
+    path: string
+  ): SurfaceValidationError[] {
+    const errors: SurfaceValidationError[] = []
+    const parents = new Map<string, string>()
+
+    byId.forEach(({ component, index }, id) => {
+      const rule = this.childRules[component.type]
+      component.children?.forEach((childId, childIndex) => {
+        const childPath = `${path}/${index}/children/${childIndex}`
+        const child = byId.get(childId)
+        if (!child) {
+          errors.push({
+            code: 'MISSING_CHILD',
+            path: childPath,
+            message: `Child "${childId}" does not match any component id`,
+            componentId: id,
+          })
+          return
+        }
+
+        const parent = parents.get(childId)
+        if (parent !== undefined) {
+          errors.push({
+            code: 'MULTIPLE_PARENTS',
+            path: childPath,
+            message: `Component "${childId}" is already a child of "${parent}"`,
+            componentId: id,
+          })
+        } else {
+          parents.set(childId, id)
+        }
+
+        if (rule && !isAllowedChild(rule, child.component.type)) {
+          errors.push({
+            code: 'ILLEGAL_CHILD',
+            path: childPath,
+            message:
+              rule.allowed?.length === 0
+                ? `"${component.type}" components cannot have children`
+                : `"${child.component.type}" is not allowed inside "${component.type}"`,
+            componentId: id,
+          })
+        }
+      })
+    })
+
+    errors.push(...this.findCycles(byId, path))
+
+    const roots = Array.from(byId.keys()).filter((id) => !parents.has(id))
+    if (roots.length === 0 && byId.size > 0) {
+      errors.push({
+        code: 'NO_ROOT',
+        path,
+        message: 'Every component is a child of another component, so the surface has no root',
+      })
+    } else if (roots.length > 1) {
+      const root = roots.includes(this.rootId) ? this.rootId : roots[0]!
+      for (const id of roots) {
+        if (id === root) continue
+        errors.push({
+          code: 'MULTIPLE_ROOTS',
+          path: `${path}/${byId.get(id)!.index}`,
+          message: `Component "${id}" is not reachable from the root "${root}"`,
+          componentId: id,
+        })
+      }
+    }
+
+    return errors
+  }
+
+  /**
+   * Report each child reference that closes a cycle
+   */
+  private findCycles(
+    byId: Map<string, { component: A2UIComponent; index: number }>,
+    path: string
+  ): SurfaceValidationError[] {
+    const errors: SurfaceValidationError[] = []
+    const done = new Set<string>()
+    const stack: string[] = []
+
+    const visit = (id: string): void => {
+      const entry = byId.get(id)
+      if (!entry || done.has(id)) return
+      stack.push(id)
+
+      entry.component.children?.forEach((childId, childIndex) => {
+        const start = stack.indexOf(childId)
+        if (start !== -1) {
+          errors.push({
+            code: 'CYCLE',
+            path: `${path}/${entry.index}/children/${childIndex}`,
+            message: `Cycle in component tree: ${[...stack.slice(start), childId].join(' → ')}`,
+            componentId: id,
+          })
+        } else {
+          visit(childId)
+        }
+      })
+
+      stack.pop()
+      done.add(id)
+    }
+
+    byId.forEach((_, id) => visit(id))
+    return errors
+  }
+}
+
+function isAllowedChild(rule: ChildTypeRule, type: string): boolean {
+  if (rule.allowed && !rule.allowed.includes(type)) return false
+  return !rule.forbidden?.includes(type)
+}
+
+function invalid(errors: SurfaceValidationError[]): SurfaceValidationResult {
+  return { valid: false, errors }
+}
+
+function pointer(base: string, tokens: Array<string | number>): string {
+  return [base, ...tokens.map((token) => escapeToken(String(token)))].join('/')
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1')
+}
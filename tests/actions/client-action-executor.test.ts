@@ -0,0 +1,309 @@
+/**
+ * Tests for ClientActionExecutor
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { ClientActionExecutor } from '../../src/actions/client-action-executor'
+import { ClientActionError } from '../../src/actions/client-action-error'
+import type { A2UITransport } from '../../src/transport/transport'
+import type {
+  ClientActionMessage,
+  SpecificClientAction,
+} from '../../src/types/client-action-messages'
+
+function message(action: SpecificClientAction, extra: Partial<ClientActionMessage> = {}): ClientActionMessage {
+  return {
+    type: 'clientAction',
+    surfaceId: 'main',
+    actionId: 'action-1',
+    actionType: action.type,
+    action,
+    ...extra,
+  }
+}
+
+function createStorage(): Storage {
+  const data = new Map<string, string>()
+  return {
+    get length() {
+      return data.size
+    },
+    key: (index: number) => [...data.keys()][index] ?? null,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => void data.set(key, value),
+    removeItem: (key: string) => void data.delete(key),
+    clear: () => data.clear(),
+  }
+}
+
+describe('ClientActionExecutor', () => {
+  let executor: ClientActionExecutor
+
+  beforeEach(() => {
+    executor = new ClientActionExecutor()
+  })
+
+  afterEach(() => {
+    executor.destroy()
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  describe('Execution', () => {
+    it('runs the registered handler and returns its result', async () => {
+      const showToast = vi.fn(() => 'shown')
+      executor.registerHandler('showToast', showToast)
+
+      const response = await executor.execute(message({ type: 'showToast', message: 'Saved' }))
+
+      expect(showToast).toHaveBeenCalledWith(
+        { type: 'showToast', message: 'Saved' },
+        expect.objectContaining({ surfaceId: 'main', actionId: 'action-1' })
+      )
+      expect(response).toMatchObject({
+        type: 'clientActionResponse',
+        actionId: 'action-1',
+        success: true,
+        result: 'shown',
+      })
+    })
+
+    it('awaits async handlers', async () => {
+      executor.registerHandler('trackEvent', async (action) => ({ tracked: action.eventName }))
+
+      const response = await executor.execute(message({ type: 'trackEvent', eventName: 'signup' }))
+
+      expect(response.result).toEqual({ tracked: 'signup' })
+    })
+
+    it('reports handler errors as EXECUTION_FAILED', async () => {
+      executor.registerHandler('showToast', () => {
+        throw new Error('boom')
+      })
+
+      const response = await executor.execute(message({ type: 'showToast', message: 'x' }))
+
+      expect(response).toMatchObject({ success: false, error: 'boom', errorCode: 'EXECUTION_FAILED' })
+    })
+
+    it('keeps error codes thrown by handlers', async () => {
+      executor.registerHandler('showToast', () => {
+        throw new ClientActionError('UNSUPPORTED_ACTION', 'No toast container')
+      })
+
+      const response = await executor.execute(message({ type: 'showToast', message: 'x' }))
+
+      expect(response.errorCode).toBe('UNSUPPORTED_ACTION')
+    })
+
+    it('reports actions without a handler as UNSUPPORTED_ACTION', async () => {
+      const response = await executor.execute(message({ type: 'showToast', message: 'x' }))
+
+      expect(response).toMatchObject({ success: false, errorCode: 'UNSUPPORTED_ACTION' })
+    })
+
+    it('times out slow handlers', async () => {
+      vi.useFakeTimers()
+      executor = new ClientActionExecutor({ timeout: 100 })
+      executor.registerHandler('showToast', () => new Promise(() => {}))
+
+      const pending = executor.execute(message({ type: 'showToast', message: 'x' }))
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(await pending).toMatchObject({ success: false, errorCode: 'TIMEOUT' })
+    })
+
+    it('emits actionExecuted and actionFailed events', async () => {
+      const executed = vi.fn()
+      const failed = vi.fn()
+      executor.on('actionExecuted', executed)
+      executor.on('actionFailed', failed)
+      executor.registerHandler('showToast', () => undefined)
+
+      await executor.execute(message({ type: 'showToast', message: 'x' }))
+      await executor.execute(message({ type: 'closeDialog' }))
+
+      expect(executed).toHaveBeenCalledTimes(1)
+      expect(failed).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Validation', () => {
+    it('rejects malformed messages', async () => {
+      const response = await executor.execute({ type: 'clientAction', actionId: 'a1' })
+
+      expect(response).toMatchObject({ actionId: '', success: false, errorCode: 'INVALID_ACTION' })
+    })
+
+    it('rejects unsafe URLs before running the handler', async () => {
+      const navigate = vi.fn()
+      executor.registerHandler('navigate', navigate)
+
+      const response = await executor.execute(
+        message({ type: 'navigate', url: 'javascript:alert(1)' })
+      )
+
+      expect(response.errorCode).toBe('INVALID_ACTION')
+      expect(navigate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Policy', () => {
+    it('only runs allow-listed actions', async () => {
+      executor = new ClientActionExecutor({
+        allowedActions: ['showToast'],
+        handlers: { showToast: () => undefined, trackEvent: () => undefined },
+      })
+
+      expect((await executor.execute(message({ type: 'showToast', message: 'x' }))).success).toBe(true)
+      expect(
+        (await executor.execute(message({ type: 'trackEvent', eventName: 'e' }))).errorCode
+      ).toBe('ACTION_NOT_ALLOWED')
+    })
+
+    it('only runs navigation actions when explicitly allowed', async () => {
+      const openUrl = vi.fn()
+      executor.registerHandler('openUrl', openUrl)
+
+      const response = await executor.execute(message({ type: 'openUrl', url: 'https://example.com' }))
+
+      expect(response.errorCode).toBe('ACTION_NOT_ALLOWED')
+      expect(openUrl).not.toHaveBeenCalled()
+      expect(new ClientActionExecutor({ allowNavigation: true }).isAllowed('navigate')).toBe(true)
+      expect(new ClientActionExecutor({ allowedActions: ['navigate'] }).isAllowed('navigate')).toBe(
+        true
+      )
+    })
+
+    it('denied actions win over allowed actions', async () => {
+      executor = new ClientActionExecutor({
+        allowedActions: ['showToast'],
+        deniedActions: ['showToast'],
+        handlers: { showToast: () => undefined },
+      })
+
+      expect(executor.isAllowed('showToast')).toBe(false)
+    })
+
+    it('checks implied permissions', async () => {
+      const checkPermission = vi.fn(() => false)
+      executor = new ClientActionExecutor({
+        checkPermission,
+        handlers: { copyToClipboard: () => undefined },
+      })
+
+      const response = await executor.execute(message({ type: 'copyToClipboard', text: 'hi' }))
+
+      expect(checkPermission).toHaveBeenCalledWith('clipboard-write', expect.any(Object))
+      expect(response.errorCode).toBe('PERMISSION_DENIED')
+    })
+
+    it('checks permissions requested by the message', async () => {
+      const checkPermission = vi.fn(async () => true)
+      executor = new ClientActionExecutor({
+        checkPermission,
+        handlers: { trackEvent: () => undefined },
+      })
+
+      await executor.execute(
+        message(
+          { type: 'trackEvent', eventName: 'e' },
+          { requiresPermission: true, permissionType: 'geolocation' }
+        )
+      )
+
+      expect(checkPermission).toHaveBeenCalledWith('geolocation', expect.any(Object))
+    })
+  })
+
+  describe('Browser handlers', () => {
+    it('namespaces localStorage keys', async () => {
+      const localStorage = createStorage()
+      localStorage.setItem('app-token', 'secret')
+      vi.stubGlobal('localStorage', localStorage)
+
+      await executor.execute(message({ type: 'setLocalStorage', key: 'theme', value: { dark: true } }))
+      const read = await executor.execute(message({ type: 'getLocalStorage', key: 'theme' }))
+      const cleared = await executor.execute(message({ type: 'clearLocalStorage' }))
+
+      expect(read.result).toEqual({ dark: true })
+      expect(cleared.result).toEqual({ cleared: 1 })
+      expect(localStorage.getItem('app-token')).toBe('secret')
+    })
+
+    it('opens external URLs without an opener', async () => {
+      const open = vi.fn()
+      vi.stubGlobal('window', { open })
+      executor = new ClientActionExecutor({ allowNavigation: true })
+
+      await executor.execute(message({ type: 'openUrl', url: 'https://example.com' }))
+
+      expect(open).toHaveBeenCalledWith('https://example.com', '_blank', 'noopener,noreferrer')
+    })
+
+    it('reports missing browser APIs as UNSUPPORTED_ACTION', async () => {
+      vi.stubGlobal('navigator', {})
+
+      const response = await executor.execute(message({ type: 'vibrate', pattern: 100 }))
+
+      expect(response.errorCode).toBe('UNSUPPORTED_ACTION')
+    })
+
+    it('can be disabled', () => {
+      executor = new ClientActionExecutor({ browserHandlers: false })
+
+      expect(executor.hasHandler('navigate')).toBe(false)
+    })
+  })
+
+  describe('Transport', () => {
+    it('replies to clientAction messages on the attached transport', async () => {
+      const handlers = new Map<string, (message: unknown) => void>()
+      const send = vi.fn()
+      const transport = {
+        on: (event: string, handler: (message: unknown) => void) => handlers.set(event, handler),
+        off: vi.fn(),
+        send,
+      } as unknown as A2UITransport
+      executor.registerHandler('showToast', () => 'ok')
+
+      executor.attach(transport)
+      handlers.get('clientAction')!(message({ type: 'showToast', message: 'x' }))
+
+      await vi.waitFor(() => expect(send).toHaveBeenCalled())
+      expect(send).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'clientActionResponse', actionId: 'action-1', success: true })
+      )
+
+      executor.detach()
+      expect(transport.off).toHaveBeenCalledWith('clientAction', expect.any(Function))
+    })
+
+    it('reports replies that cannot be sent as failed actions', async () => {
+      const handlers = new Map<string, (message: unknown) => void>()
+      const transport = {
+        on: (event: string, handler: (message: unknown) => void) => handlers.set(event, handler),
+        off: vi.fn(),
+        send: () => {
+          throw new Error('Cannot send message: not connected')
+        },
+      } as unknown as A2UITransport
+      const failed = vi.fn()
+      executor.on('actionFailed', failed)
+      executor.registerHandler('showToast', () => 'ok')
+
+      executor.attach(transport)
+      handlers.get('clientAction')!(message({ type: 'showToast', message: 'x' }))
+
+      await vi.waitFor(() => expect(failed).toHaveBeenCalled())
+      expect(failed).toHaveBeenCalledWith({
+        message: expect.objectContaining({ actionId: 'action-1' }),
+        response: expect.objectContaining({
+          success: false,
+          error: 'Could not send response: Cannot send message: not connected',
+          errorCode: 'EXECUTION_FAILED',
+        }),
+      })
+    })
+  })
+})
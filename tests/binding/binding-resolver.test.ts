@@ -0,0 +1,151 @@
+/**
+ * Tests for BindingResolver
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  BindingResolver,
+  isBindExpression,
+  isBindingExpression,
+  isComputedExpression,
+} from '../../src/binding/binding-resolver'
+
+describe('BindingResolver', () => {
+  const dataModel = {
+    user: { name: 'Alice', roles: ['admin'] },
+    items: [1, 2, 3],
+    'a/b': 'escaped',
+  }
+
+  describe('type guards', () => {
+    it('detects binding expressions', () => {
+      expect(isBindExpression({ $bind: '/user' })).toBe(true)
+      expect(isComputedExpression({ $expr: 'true' })).toBe(true)
+      expect(isBindingExpression({ $bind: 42 })).toBe(false)
+      expect(isBindingExpression('/user')).toBe(false)
+    })
+  })
+
+  describe('resolve', () => {
+    it('resolves $bind pointers', () => {
+      const resolver = new BindingResolver()
+
+      expect(resolver.resolve({ label: { $bind: '/user/name' } }, dataModel)).toEqual({
+        label: 'Alice',
+      })
+    })
+
+    it('evaluates $expr with CEL', () => {
+      const resolver = new BindingResolver()
+
+      const resolved = resolver.resolve(
+        {
+          visible: { $expr: 'items.size() > 0' },
+          greeting: { $expr: '"Hello, " + user.name' },
+          admin: { $expr: '"admin" in data.user.roles' },
+        },
+        dataModel
+      )
+
+      expect(resolved).toEqual({ visible: true, greeting: 'Hello, Alice', admin: true })
+    })
+
+    it('resolves bindings nested in objects and arrays', () => {
+      const resolver = new BindingResolver()
+
+      const resolved = resolver.resolve(
+        { options: [{ label: { $bind: '/user/name' }, value: 'a' }], style: { color: 'red' } },
+        dataModel
+      )
+
+      expect(resolved).toEqual({ options: [{ label: 'Alice', value: 'a' }], style: { color: 'red' } })
+    })
+
+    it('returns the input when there are no bindings', () => {
+      const resolver = new BindingResolver()
+      const properties = { label: 'Static' }
+
+      expect(resolver.resolve(properties, dataModel)).toBe(properties)
+    })
+
+    it('does not mutate the input', () => {
+      const resolver = new BindingResolver()
+      const properties = { label: { $bind: '/user/name' } }
+
+      resolver.resolve(properties, dataModel)
+
+      expect(properties).toEqual({ label: { $bind: '/user/name' } })
+    })
+
+    it('falls back to the default for missing values', () => {
+      const resolver = new BindingResolver()
+
+      expect(
+        resolver.resolve({ label: { $bind: '/user/email', default: 'n/a' } }, dataModel)
+      ).toEqual({ label: 'n/a' })
+    })
+
+    it('reports errors and falls back to the default', () => {
+      const onError = vi.fn()
+      const resolver = new BindingResolver({ onError })
+
+      const resolved = resolver.resolve(
+        {
+          broken: { $expr: 'items.size( >', default: false },
+          pointer: { $bind: 'no-slash', default: '' },
+        },
+        dataModel
+      )
+
+      expect(resolved).toEqual({ broken: false, pointer: '' })
+      expect(onError.mock.calls.map(([error]) => error.code)).toEqual([
+        'COMPILE_ERROR',
+        'INVALID_POINTER',
+      ])
+    })
+
+    it('exposes extra variables to expressions', () => {
+      const resolver = new BindingResolver({ variables: { locale: 'de' } })
+
+      expect(resolver.resolve({ german: { $expr: 'locale == "de"' } }, dataModel)).toEqual({
+        german: true,
+      })
+    })
+  })
+
+  describe('dependencies', () => {
+    const resolver = new BindingResolver({ variables: { locale: 'de' } })
+
+    it('uses the pointer of $bind expressions', () => {
+      expect(resolver.dependencies({ $bind: '/user/name' })).toEqual(['/user/name'])
+    })
+
+    it('derives pointers from identifier chains', () => {
+      expect(resolver.dependencies({ $expr: 'items.size() > 0 && user.name != ""' })).toEqual([
+        '/items',
+        '/user/name',
+      ])
+    })
+
+    it('ignores functions, keywords, strings and variables', () => {
+      expect(
+        resolver.dependencies({ $expr: 'has(user.email) && locale == "user.name" || true' })
+      ).toEqual(['/user/email'])
+    })
+
+    it('maps data to the whole model', () => {
+      expect(resolver.dependencies({ $expr: 'data.user.name' })).toEqual(['/user/name'])
+      expect(resolver.dependencies({ $expr: 'data.size() > 2 && user.name' })).toEqual([''])
+    })
+  })
+
+  describe('affects', () => {
+    it('matches ancestors, descendants and equal paths', () => {
+      expect(BindingResolver.affects(['/user/name'], ['/user'])).toBe(true)
+      expect(BindingResolver.affects(['/user'], ['/user/name'])).toBe(true)
+      expect(BindingResolver.affects(['/user/name'], [''])).toBe(true)
+      expect(BindingResolver.affects(['/user/name'], ['/username'])).toBe(false)
+      expect(BindingResolver.affects(['/items'], ['/user'])).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * Tests for SurfaceBindings
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { SurfaceBindings } from '../../src/binding/surface-bindings'
+import { BindingResolver } from '../../src/binding/binding-resolver'
+import { SurfaceStore } from '../../src/surface/surface-store'
+
+describe('SurfaceBindings', () => {
+  let store: SurfaceStore
+  let bindings: SurfaceBindings
+
+  beforeEach(() => {
+    store = new SurfaceStore()
+    store.apply({
+      type: 'createSurface',
+      surfaceId: 'main',
+      components: [
+        { id: 'root', type: 'column', children: ['greeting', 'list', 'static'] },
+        { id: 'greeting', type: 'text', properties: { value: { $bind: '/user/name' } } },
+        {
+          id: 'list',
+          type: 'list',
+          properties: { visible: { $expr: 'items.size() > 0' }, title: 'Items' },
+        },
+        { id: 'static', type: 'text', properties: { value: 'Hello' } },
+      ],
+      dataModel: { user: { name: 'Alice' }, items: [] },
+    })
+    bindings = new SurfaceBindings(store, 'main')
+  })
+
+  afterEach(() => {
+    bindings.destroy()
+  })
+
+  const setData = (path: string, value: unknown): void => {
+    store.apply({
+      type: 'updateDataModel',
+      surfaceId: 'main',
+      updates: [{ path, operation: 'set', value }],
+    })
+  }
+
+  it('resolves component properties', () => {
+    expect(bindings.getProperties('greeting')).toEqual({ value: 'Alice' })
+    expect(bindings.getProperties('list')).toEqual({ visible: false, title: 'Items' })
+    expect(bindings.getProperties('missing')).toBeUndefined()
+  })
+
+  it('returns stable objects until a dependency changes', () => {
+    const greeting = bindings.getProperties('greeting')
+    const list = bindings.getProperties('list')
+    const staticProps = bindings.getProperties('static')
+
+    setData('/items', [1])
+
+    expect(bindings.getProperties('greeting')).toBe(greeting)
+    expect(bindings.getProperties('static')).toBe(staticProps)
+    expect(bindings.getProperties('list')).not.toBe(list)
+    expect(bindings.getProperties('list')).toEqual({ visible: true, title: 'Items' })
+  })
+
+  it('notifies only components whose bindings are affected', () => {
+    bindings.getProperties('greeting')
+    bindings.getProperties('list')
+    const listener = vi.fn()
+    const greetingListener = vi.fn()
+    bindings.subscribe(listener)
+    bindings.subscribeComponent('greeting', greetingListener)
+
+    setData('/user/name', 'Bob')
+
+    expect(listener).toHaveBeenCalledWith(['greeting'])
+    expect(greetingListener).toHaveBeenCalledTimes(1)
+    expect(bindings.getProperties('greeting')).toEqual({ value: 'Bob' })
+  })
+
+  it('re-resolves only the affected bindings', () => {
+    store.apply({
+      type: 'updateComponents',
+      surfaceId: 'main',
+      updates: [
+        {
+          id: 'greeting',
+          operation: 'update',
+          component: {
+            id: 'greeting',
+            type: 'text',
+            properties: { value: { $bind: '/user/name' }, count: { $expr: 'items.size()' } },
+          },
+        },
+      ],
+    })
+    const resolver = new BindingResolver()
+    const scoped = new SurfaceBindings(store, 'main', { resolver })
+    scoped.getProperties('greeting')
+    const evaluate = vi.spyOn(resolver, 'evaluate')
+
+    setData('/user/name', 'Bob')
+
+    expect(evaluate).toHaveBeenCalledTimes(1)
+    expect(evaluate).toHaveBeenCalledWith({ $bind: '/user/name' }, expect.any(Object))
+    scoped.destroy()
+  })
+
+  it('does not notify when the resolved value is unchanged', () => {
+    bindings.getProperties('list')
+    const listener = vi.fn()
+    bindings.subscribeComponent('list', listener)
+
+    setData('/items', [])
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('picks up component updates', () => {
+    const listener = vi.fn()
+    bindings.subscribeComponent('static', listener)
+
+    store.apply({
+      type: 'updateComponents',
+      surfaceId: 'main',
+      updates: [
+        {
+          id: 'static',
+          operation: 'update',
+          component: { id: 'static', type: 'text', properties: { value: { $bind: '/user/name' } } },
+        },
+      ],
+    })
+
+    expect(listener).toHaveBeenCalledWith(['static'])
+    expect(bindings.getProperties('static')).toEqual({ value: 'Alice' })
+    expect(bindings.getDependencies('static')).toEqual(['/user/name'])
+  })
+
+  it('stays correct after destroy', () => {
+    bindings.getProperties('greeting')
+    bindings.destroy()
+
+    setData('/user/name', 'Carol')
+
+    expect(bindings.getProperties('greeting')).toEqual({ value: 'Carol' })
+  })
+})
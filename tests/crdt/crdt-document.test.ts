@@ -0,0 +1,343 @@
+/**
+ * CRDT Document Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { CRDTDocument, CRDTError } from '../../src/crdt/crdt-document.js'
+import { CRDTMap, CRDTText } from '../../src/crdt/shared-types.js'
+import type { CRDTUpdate } from '../../src/types/crdt-types.js'
+
+// Seeded PRNG so failures are reproducible
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function randomInt(random: () => number, max: number): number {
+  return Math.floor(random() * (max + 1))
+}
+
+// Collect every update a document emits
+function record(doc: CRDTDocument): CRDTUpdate[] {
+  const updates: CRDTUpdate[] = []
+  doc.on('update', (event) => {
+    if (event.local) updates.push(event.update)
+  })
+  return updates
+}
+
+function sync(a: CRDTDocument, b: CRDTDocument): void {
+  a.applyUpdate(b.encodeUpdate(a.getStateVector()))
+  b.applyUpdate(a.encodeUpdate(b.getStateVector()))
+}
+
+function randomEdit(random: () => number, doc: CRDTDocument): void {
+  const text = doc.getText('body')
+  const list = doc.getArray('items')
+  const map = doc.getMap('data')
+
+  switch (randomInt(random, 5)) {
+    case 0:
+    case 1:
+      text.insert(randomInt(random, text.length), 'abc'.slice(0, 1 + randomInt(random, 2)))
+      break
+    case 2:
+      if (text.length > 0) {
+        const index = randomInt(random, text.length - 1)
+        text.delete(index, Math.min(1 + randomInt(random, 2), text.length - index))
+      }
+      break
+    case 3:
+      list.insert(randomInt(random, list.length), [randomInt(random, 99)])
+      break
+    case 4:
+      if (list.length > 0) list.delete(randomInt(random, list.length - 1))
+      break
+    default:
+      if (random() < 0.3) map.delete(`k${randomInt(random, 3)}`)
+      else map.set(`k${randomInt(random, 3)}`, randomInt(random, 99))
+  }
+}
+
+describe('CRDTDocument', () => {
+  describe('Text', () => {
+    it('should insert and delete characters', () => {
+      const doc = new CRDTDocument({ clientId: 'a' })
+      const text = doc.getText('body')
+
+      text.insert(0, 'Hello world')
+      text.delete(5, 6)
+      text.insert(5, ', there')
+
+      expect(text.toString()).toBe('Hello, there')
+      expect(text.length).toBe(12)
+    })
+
+    it('should merge concurrent inserts at the same position', () => {
+      const a = new CRDTDocument({ clientId: 'a' })
+      const b = new CRDTDocument({ clientId: 'b' })
+      a.getText('body').insert(0, 'ac')
+      sync(a, b)
+
+      a.getText('body').insert(1, 'X')
+      b.getText('body').insert(1, 'Y')
+      sync(a, b)
+
+      expect(a.getText('body').toString()).toBe(b.getText('body').toString())
+      expect(a.getText('body').toString()).toMatch(/^a(XY|YX)c$/)
+    })
+
+    it('should keep concurrent runs of text together', () => {
+      const a = new CRDTDocument({ clientId: 'a' })
+      const b = new CRDTDocument({ clientId: 'b' })
+
+      a.getText('body').insert(0, 'hello')
+      b.getText('body').insert(0, 'world')
+      sync(a, b)
+
+      expect(['helloworld', 'worldhello']).toContain(a.getText('body').toString())
+      expect(b.getText('body').toString()).toBe(a.getText('body').toString())
+    })
+
+    it('should reject positions outside the text', () => {
+      const text = new CRDTDocument().getText('body')
+
+      expect(() => text.insert(1, 'x')).toThrow(CRDTError)
+      expect(() => text.delete(0, 1)).toThrow(/outside a sequence of length 0/)
+    })
+  })
+
+  describe('Maps and Arrays', () => {
+    it('should resolve concurrent sets by last writer', () => {
+      const a = new CRDTDocument({ clientId: 'a' })
+      const b = new CRDTDocument({ clientId: 'b' })
+
+      a.getMap('data').set('title', 'from a')
+      b.getMap('data').set('title', 'from b')
+      b.getMap('data').set('title', 'from b again')
+      sync(a, b)
+
+      expect(a.getMap('data').get('title')).toBe('from b again')
+      expect(b.toJSON()).toEqual(a.toJSON())
+    })
+
+    it('should merge edits inside nested containers', () => {
+      const a = new CRDTDocument({ clientId: 'a' })
+      const b = new CRDTDocument({ clientId: 'b' })
+      const user = a.getMap('data').setMap('user')
+      user.set('name', 'Ada')
+      a.getMap('data').setArray('tags').push('x')
+      sync(a, b)
+
+      const remoteUser = b.getMap('data').get('user') as CRDTMap
+      remoteUser.set('email', 'ada@example.com')
+      user.set('name', 'Ada Lovelace')
+      b.getArray('items').push({ id: 1 })
+      sync(a, b)
+
+      expect(a.toJSON()).toEqual({
+        data: { user: { name: 'Ada Lovelace', email: 'ada@example.com' }, tags: ['x'] },
+        items: [{ id: 1 }],
+      })
+      expect(b.toJSON()).toEqual(a.toJSON())
+    })
+
+    it('should copy JSON values on the way in', () => {
+      const doc = new CRDTDocument()
+      const value = { count: 1 }
+      doc.getMap('data').set('value', value)
+      value.count = 2
+
+      expect(doc.getMap('data').toJSON()).toEqual({ value: { count: 1 } })
+    })
+
+    it('should refuse to reuse a name for another type', () => {
+      const doc = new CRDTDocument()
+      doc.getText('body')
+
+      expect(() => doc.getMap('body')).toThrow(/"body" is a text, not a map/)
+    })
+  })
+
+  describe('Delta Sync', () => {
+    it('should encode only what a peer is missing', () => {
+      const a = new CRDTDocument({ clientId: 'a' })
+      const b = new CRDTDocument({ clientId: 'b' })
+      a.getText('body').insert(0, 'one')
+      sync(a, b)
+      a.getText('body').insert(3, ' two')
+
+      const update = a.encodeUpdate(b.getStateVector())
+
+      expect(update.operations).toHaveLength(1)
+      expect(a.getStateVector()).toEqual({ a: 7 })
+    })
+
+    it('should hold operations back until their dependencies arrive', () => {
+      const a = new CRDTDocument({ clientId: 'a' })
+      const updates = record(a)
+      const text = a.getText('body')
+      text.insert(0, 'ab')
+      text.insert(2, 'cd')
+      text.delete(0, 1)
+
+      const b = new CRDTDocument({ clientId: 'b' })
+      b.applyUpdate(updates[2]!)
+      b.applyUpdate(updates[1]!)
+
+      expect(b.hasPendingOperations).toBe(true)
+      expect(b.toJSON()).toEqual({})
+
+      b.applyUpdate(updates[0]!)
+      b.applyUpdate(updates[0]!)
+
+      expect(b.hasPendingOperations).toBe(false)
+      expect(b.getText('body').toString()).toBe('bcd')
+    })
+
+    it('should reject malformed updates', () => {
+      const doc = new CRDTDocument()
+
+      expect(() => doc.applyUpdate({ operations: [{ type: 'insert' }] } as never)).toThrow(
+        /Invalid CRDT update/
+      )
+    })
+
+    it('should converge under random edits, delivery order and collection', () => {
+      const random = createRandom(18)
+
+      for (let run = 0; run < 30; run++) {
+        const docs = ['a', 'b', 'c'].map((clientId) => new CRDTDocument({ clientId }))
+        const inboxes: CRDTUpdate[][] = [[], [], []]
+        docs.forEach((doc, index) =>
+          doc.on('update', (event) => {
+            if (!event.local) return
+            inboxes.forEach((inbox, other) => {
+              if (other !== index) inbox.push(event.update)
+            })
+          })
+        )
+
+        for (let step = 0; step < 60; step++) {
+          const index = randomInt(random, 2)
+          const inbox = inboxes[index]!
+          if (random() < 0.1) {
+            docs[index]!.gc(
+              docs.filter((_, other) => other !== index).map((doc) => doc.getStateVector())
+            )
+          } else if (random() < 0.6 || inbox.length === 0) {
+            randomEdit(random, docs[index]!)
+          } else {
+            // Deliver a random pending update, sometimes twice
+            const [update] = inbox.splice(randomInt(random, inbox.length - 1), 1)
+            docs[index]!.applyUpdate(update!)
+            if (random() < 0.2) docs[index]!.applyUpdate(update!)
+          }
+        }
+
+        inboxes.forEach((inbox, index) => {
+          inbox.reverse().forEach((update) => docs[index]!.applyUpdate(update))
+        })
+
+        const [a, b, c] = docs
+        expect(a!.hasPendingOperations).toBe(false)
+        expect(b!.toJSON()).toEqual(a!.toJSON())
+        expect(c!.toJSON()).toEqual(a!.toJSON())
+      }
+    })
+  })
+
+  describe('Garbage Collection', () => {
+    it('should drop tombstones once every peer has seen the delete', () => {
+      const a = new CRDTDocument({ clientId: 'a' })
+      const b = new CRDTDocument({ clientId: 'b' })
+      a.getText('body').insert(0, 'Hello world')
+      a.getText('body').delete(5, 6)
+
+      expect(a.gc([b.getStateVector()])).toBe(0)
+
+      sync(a, b)
+
+      expect(a.gc([b.getStateVector()])).toBe(6)
+      expect(a.getText('body').toString()).toBe('Hello')
+    })
+
+    it('should keep collected documents converging with peers', () => {
+      const a = new CRDTDocument({ clientId: 'a' })
+      const b = new CRDTDocument({ clientId: 'b' })
+      a.getText('body').insert(0, 'abcdef')
+      sync(a, b)
+      a.getText('body').delete(1, 2)
+      sync(a, b)
+      a.gc([b.getStateVector()])
+
+      b.getText('body').insert(1, 'X')
+      a.getText('body').insert(2, 'Y')
+      sync(a, b)
+
+      expect(a.getText('body').toString()).toBe(b.getText('body').toString())
+      expect(a.getText('body').toString()).toBe('aXdYef')
+    })
+
+    it('should send a snapshot to replicas older than the collected history', () => {
+      const a = new CRDTDocument({ clientId: 'a' })
+      a.getText('body').insert(0, 'Hello world')
+      a.getText('body').delete(0, 6)
+      a.getMap('data').set('done', true)
+      a.gc()
+
+      const late = new CRDTDocument({ clientId: 'late' })
+      const update = a.encodeUpdate(late.getStateVector())
+      late.applyUpdate(update)
+
+      expect(update.snapshot).toBeDefined()
+      expect(late.toJSON()).toEqual({ body: 'world', data: { done: true } })
+      expect(late.getStateVector()).toEqual(a.getStateVector())
+    })
+
+    it('should merge a snapshot into a replica with offline edits', () => {
+      const a = new CRDTDocument({ clientId: 'a' })
+      const b = new CRDTDocument({ clientId: 'b' })
+      a.getText('body').insert(0, 'abc')
+      sync(a, b)
+
+      // b goes offline; a deletes and collects without waiting for b
+      b.getText('body').insert(3, '!')
+      a.getText('body').delete(0, 1)
+      a.getText('body').insert(2, 'd')
+      a.gc()
+
+      sync(a, b)
+
+      expect(a.getText('body').toString()).toBe(b.getText('body').toString())
+      expect(b.getText('body').toString()).toMatch(/^bc(d!|!d)$/)
+    })
+  })
+
+  describe('Events', () => {
+    it('should report a transaction as one update', () => {
+      const doc = new CRDTDocument()
+      const updates = record(doc)
+
+      doc.transact(() => {
+        doc.getText('body').insert(0, 'a')
+        doc.getMap('data').set('x', 1)
+      })
+
+      expect(updates).toHaveLength(1)
+      expect(updates[0]!.operations).toHaveLength(2)
+    })
+
+    it('should expose nested containers as shared types', () => {
+      const doc = new CRDTDocument()
+      doc.getMap('data').setText('note', 'hi')
+
+      expect(doc.getMap('data').get('note')).toBeInstanceOf(CRDTText)
+      expect(doc.getArray('list').insertText(0, 'x').toString()).toBe('x')
+    })
+  })
+})
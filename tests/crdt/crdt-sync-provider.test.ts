@@ -0,0 +1,265 @@
+/**
+ * CRDT Sync Provider Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { CRDTDocument } from '../../src/crdt/crdt-document.js'
+import { CRDTSyncProvider } from '../../src/crdt/crdt-sync-provider.js'
+import { bindDataModel, diffDataModel } from '../../src/crdt/data-model-binding.js'
+import { OfflineQueue } from '../../src/offline/queue.js'
+import type { UpdateDataModelMessage } from '../../src/types/protocol.js'
+
+// Relay that forwards every message to the other connected transports
+class Relay {
+  readonly transports: MockTransport[] = []
+  private queue: Array<{ from: MockTransport; message: { type: string } }> = []
+
+  connect(): MockTransport {
+    const transport = new MockTransport(this)
+    this.transports.push(transport)
+    return transport
+  }
+
+  post(from: MockTransport, message: { type: string }): void {
+    this.queue.push({ from, message: JSON.parse(JSON.stringify(message)) })
+  }
+
+  // Deliver messages until the network is quiet
+  drain(): void {
+    while (this.queue.length > 0) {
+      const { from, message } = this.queue.shift()!
+      this.transports
+        .filter((transport) => transport !== from && transport.isConnected)
+        .forEach((transport) => transport.emit(message.type, message))
+    }
+  }
+}
+
+class MockTransport {
+  isConnected = true
+  readonly sent: Array<{ type: string }> = []
+  private handlers = new Map<string, Set<(data: any) => void>>()
+
+  constructor(private relay: Relay) {}
+
+  on<T>(event: string, handler: (data: T) => void): void {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set())
+    }
+    this.handlers.get(event)!.add(handler as any)
+  }
+
+  off<T>(event: string, handler: (data: T) => void): void {
+    this.handlers.get(event)?.delete(handler as any)
+  }
+
+  send(message: { type: string }): void {
+    if (!this.isConnected) throw new Error('Cannot send message: not connected')
+    this.sent.push(message)
+    this.relay.post(this, message)
+  }
+
+  emit(event: string, data: unknown): void {
+    this.handlers.get(event)?.forEach((handler) => handler(data))
+  }
+
+  setConnected(connected: boolean): void {
+    this.isConnected = connected
+    this.emit('statusChange', connected ? 'connected' : 'disconnected')
+  }
+}
+
+// Let queued promise callbacks run
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('CRDTSyncProvider', () => {
+  let relay: Relay
+
+  beforeEach(() => {
+    relay = new Relay()
+  })
+
+  function join(clientId: string, queue?: OfflineQueue) {
+    const doc = new CRDTDocument({ clientId })
+    const transport = relay.connect()
+    const provider = new CRDTSyncProvider(doc, transport as any, { documentId: 'doc-1', queue })
+    return { doc, transport, provider }
+  }
+
+  it('should bring a new replica up to date', async () => {
+    const a = join('a')
+    a.doc.getText('body').insert(0, 'Hello')
+    await settle()
+    relay.drain()
+
+    const b = join('b')
+    await settle()
+    relay.drain()
+
+    expect(b.doc.getText('body').toString()).toBe('Hello')
+    expect(b.transport.sent[0]).toMatchObject({
+      type: 'crdtSyncStep1',
+      componentId: 'doc-1',
+      documentId: 'doc-1',
+      clientId: 'b',
+      stateVector: {},
+    })
+  })
+
+  it('should broadcast local changes', async () => {
+    const a = join('a')
+    const b = join('b')
+    await settle()
+    relay.drain()
+
+    a.doc.getMap('data').set('title', 'Shared')
+    b.doc.getText('body').insert(0, 'Hi')
+    relay.drain()
+
+    expect(b.doc.toJSON()).toEqual({ data: { title: 'Shared' }, body: 'Hi' })
+    expect(a.doc.toJSON()).toEqual(b.doc.toJSON())
+  })
+
+  it('should ignore other documents', async () => {
+    const a = join('a')
+    await settle()
+    a.transport.emit('crdtUpdate', {
+      type: 'crdtUpdate',
+      componentId: 'doc-2',
+      documentId: 'doc-2',
+      clientId: 'x',
+      stateVector: { x: 1 },
+      update: {
+        operations: [
+          {
+            type: 'set',
+            id: { client: 'x', clock: 1 },
+            lamport: 1,
+            parent: 'data',
+            key: 'k',
+            value: 1,
+          },
+        ],
+      },
+    })
+
+    expect(a.doc.toJSON()).toEqual({})
+  })
+
+  it('should merge edits made while disconnected', async () => {
+    const a = join('a')
+    const b = join('b')
+    a.doc.getText('body').insert(0, 'shared')
+    await settle()
+    relay.drain()
+
+    b.transport.setConnected(false)
+    b.doc.getText('body').insert(6, ' offline')
+    a.doc.getText('body').insert(0, 'online ')
+    relay.drain()
+
+    expect(b.doc.getText('body').toString()).toBe('shared offline')
+
+    b.transport.setConnected(true)
+    await settle()
+    relay.drain()
+
+    expect(a.doc.getText('body').toString()).toBe('online shared offline')
+    expect(b.doc.getText('body').toString()).toBe('online shared offline')
+  })
+
+  it('should deliver queued offline edits after a reload', async () => {
+    const queue = new OfflineQueue({ maxSize: 100, retryStrategy: 'none', persistent: false })
+    const a = join('a')
+    const b = join('b', queue)
+    a.doc.getText('body').insert(0, 'abc')
+    await settle()
+    relay.drain()
+
+    b.transport.setConnected(false)
+    b.doc.getText('body').insert(3, 'd')
+    a.doc.getText('body').delete(0, 1)
+    await settle()
+    relay.drain()
+
+    expect(await queue.size()).toBe(1)
+
+    // The page reloads: a fresh document and provider share the queue
+    b.provider.destroy()
+    const reloaded = new CRDTDocument({ clientId: 'b2' })
+    b.transport.isConnected = true
+    new CRDTSyncProvider(reloaded, b.transport as any, { documentId: 'doc-1', queue })
+    await settle()
+    relay.drain()
+
+    expect(await queue.size()).toBe(0)
+    expect(a.doc.getText('body').toString()).toBe('bcd')
+    expect(reloaded.getText('body').toString()).toBe('bcd')
+  })
+
+  it('should collect tombstones every peer has seen', async () => {
+    const a = join('a')
+    const b = join('b')
+    a.doc.getText('body').insert(0, 'Hello world')
+    await settle()
+    relay.drain()
+    a.doc.getText('body').delete(5, 6)
+    relay.drain()
+
+    // a has only heard b's state from before the delete
+    expect(a.provider.gc()).toBe(0)
+
+    b.doc.getText('body').insert(5, '!')
+    relay.drain()
+
+    expect(a.provider.gc()).toBe(6)
+    expect(a.provider.peerStateVectors.get('b')).toEqual(b.doc.getStateVector())
+  })
+})
+
+describe('bindDataModel', () => {
+  it('should send the data model and then only what changed', () => {
+    const doc = new CRDTDocument()
+    const data = doc.getMap('data')
+    data.set('title', 'Draft')
+    const messages: UpdateDataModelMessage[] = []
+
+    const stop = bindDataModel(data, 'surface-1', (message) => messages.push(message))
+    const user = data.setMap('user')
+    user.set('name', 'Ada')
+    data.delete('title')
+    doc.getText('other').insert(0, 'x')
+    stop()
+    data.set('ignored', true)
+
+    expect(messages).toEqual([
+      {
+        type: 'updateDataModel',
+        surfaceId: 'surface-1',
+        updates: [{ path: '', operation: 'set', value: { title: 'Draft' } }],
+      },
+      {
+        type: 'updateDataModel',
+        surfaceId: 'surface-1',
+        updates: [{ path: '/user', operation: 'set', value: {} }],
+      },
+      {
+        type: 'updateDataModel',
+        surfaceId: 'surface-1',
+        updates: [{ path: '/user/name', operation: 'set', value: 'Ada' }],
+      },
+      {
+        type: 'updateDataModel',
+        surfaceId: 'surface-1',
+        updates: [{ path: '/title', operation: 'remove' }],
+      },
+    ])
+  })
+
+  it('should escape keys in paths', () => {
+    expect(diffDataModel({ 'a/b': 1 }, { 'a/b': 2, 'c~d': [1] })).toEqual([
+      { path: '/a~1b', operation: 'set', value: 2 },
+      { path: '/c~0d', operation: 'set', value: [1] },
+    ])
+  })
+})
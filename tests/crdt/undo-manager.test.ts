@@ -0,0 +1,109 @@
+/**
+ * CRDT Undo Manager Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { CRDTDocument } from '../../src/crdt/crdt-document.js'
+import { CRDTUndoManager } from '../../src/crdt/undo-manager.js'
+
+function sync(a: CRDTDocument, b: CRDTDocument): void {
+  a.applyUpdate(b.encodeUpdate(a.getStateVector()))
+  b.applyUpdate(a.encodeUpdate(b.getStateVector()))
+}
+
+describe('CRDTUndoManager', () => {
+  it('should undo and redo inserts and deletes', () => {
+    const doc = new CRDTDocument()
+    const text = doc.getText('body')
+    const undo = new CRDTUndoManager(doc, { captureTimeout: 0 })
+
+    text.insert(0, 'Hello world')
+    text.delete(5, 6)
+
+    undo.undo()
+    expect(text.toString()).toBe('Hello world')
+
+    undo.undo()
+    expect(text.toString()).toBe('')
+    expect(undo.canUndo).toBe(false)
+
+    undo.redo()
+    undo.redo()
+    expect(text.toString()).toBe('Hello')
+    expect(undo.canRedo).toBe(false)
+  })
+
+  it('should group changes made within the capture timeout', () => {
+    const doc = new CRDTDocument()
+    const text = doc.getText('body')
+    const undo = new CRDTUndoManager(doc, { captureTimeout: 60_000 })
+
+    text.insert(0, 'a')
+    text.insert(1, 'b')
+    undo.stopCapturing()
+    text.insert(2, 'c')
+
+    undo.undo()
+    expect(text.toString()).toBe('ab')
+
+    undo.undo()
+    expect(text.toString()).toBe('')
+  })
+
+  it('should leave other users changes alone', () => {
+    const a = new CRDTDocument({ clientId: 'a' })
+    const b = new CRDTDocument({ clientId: 'b' })
+    const undo = new CRDTUndoManager(a, { captureTimeout: 0 })
+
+    a.getText('body').insert(0, 'abc')
+    sync(a, b)
+    b.getText('body').insert(1, 'XY')
+    sync(a, b)
+
+    undo.undo()
+    sync(a, b)
+
+    expect(a.getText('body').toString()).toBe('XY')
+    expect(b.getText('body').toString()).toBe('XY')
+  })
+
+  it('should restore previous map values unless another user has set them since', () => {
+    const a = new CRDTDocument({ clientId: 'a' })
+    const b = new CRDTDocument({ clientId: 'b' })
+    const undo = new CRDTUndoManager(a, { captureTimeout: 0 })
+    const data = a.getMap('data')
+
+    data.set('title', 'Draft')
+    data.set('status', 'open')
+    data.set('title', 'Final')
+    data.set('status', 'closed')
+
+    undo.undo()
+    expect(data.get('status')).toBe('open')
+
+    sync(a, b)
+    b.getMap('data').set('title', 'Edited by b')
+    sync(a, b)
+
+    undo.undo()
+    expect(data.get('title')).toBe('Edited by b')
+
+    undo.undo()
+    undo.undo()
+    expect(data.toJSON()).toEqual({ title: 'Edited by b' })
+  })
+
+  it('should only track containers in scope', () => {
+    const doc = new CRDTDocument()
+    const tracked = doc.getMap('form')
+    const undo = new CRDTUndoManager(doc, { captureTimeout: 0, scope: [tracked] })
+
+    doc.transact(() => tracked.setMap('address').set('city', 'Paris'))
+    doc.getText('notes').insert(0, 'untracked')
+
+    undo.undo()
+    expect(tracked.toJSON()).toEqual({})
+    expect(doc.getText('notes').toString()).toBe('untracked')
+    expect(undo.canUndo).toBe(false)
+  })
+})
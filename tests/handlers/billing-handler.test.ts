@@ -18,6 +18,7 @@ import type {
   BillingAddressUpdateMessage,
 } from '../../src/types/billing-messages.js'
 import type { UsageMetric, InvoiceData } from '../../src/types/billing-components.js'
+import type { StripeBillingUpdate } from '../../src/integrations/stripe-webhooks.js'
 
 describe('BillingHandler', () => {
   let mockBillingService: BillingService
@@ -417,6 +418,70 @@ describe('BillingHandler', () => {
     })
   })
 
+  describe('Stripe Webhook Updates', () => {
+    const update: StripeBillingUpdate = {
+      topic: 'invoice',
+      customerId: 'cus_12345',
+      message: {
+        type: 'invoicePaid',
+        invoiceId: 'in_1',
+        amount: 2999,
+        currency: 'usd',
+        paidAt: new Date('2024-01-15'),
+      },
+      updates: [{ path: '/invoices/in_1', operation: 'set', value: { status: 'paid' } }],
+    }
+
+    it('should update components that follow the topic', () => {
+      billingHandler.bindComponent({
+        componentId: 'history',
+        componentType: 'billingHistory',
+        surfaceId: 'billing',
+      })
+      billingHandler.bindComponent({
+        componentId: 'viewer',
+        componentType: 'invoiceViewer',
+        surfaceId: 'billing',
+      })
+      billingHandler.bindComponent({
+        componentId: 'plans',
+        componentType: 'subscriptionPlan',
+        surfaceId: 'billing',
+      })
+
+      billingHandler.applyStripeUpdate(update)
+
+      expect(messages).toEqual([
+        expect.objectContaining({ type: 'invoicePaid', componentId: 'history' }),
+        expect.objectContaining({ type: 'invoicePaid', componentId: 'viewer' }),
+        {
+          type: 'updateDataModel',
+          surfaceId: 'billing',
+          updates: [{ path: '/invoices/in_1', operation: 'set', value: { status: 'paid' } }],
+        },
+      ])
+    })
+
+    it('should write under each data path and stop after unbinding', () => {
+      const unbind = billingHandler.bindComponent({
+        componentId: 'history',
+        componentType: 'billingHistory',
+        surfaceId: 'account',
+        dataPath: '/billing',
+      })
+
+      billingHandler.applyStripeUpdate(update)
+      unbind()
+      billingHandler.applyStripeUpdate(update)
+
+      expect(messages).toHaveLength(2)
+      expect(messages[1]).toMatchObject({
+        surfaceId: 'account',
+        updates: [{ path: '/billing/invoices/in_1' }],
+      })
+    })
+  })
+
   describe('Cleanup', () => {
     it('should cleanup resources on destroy', () => {
       const callback1 = vi.fn()
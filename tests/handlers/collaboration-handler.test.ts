@@ -70,6 +70,26 @@ describe('CollaborationHandler', () => {
       })
       expect(customHandler).toBeDefined()
     })
+
+    it('should report a failed connection as an error event', async () => {
+      const adapter = {
+        kind: 'test',
+        isOpen: false,
+        open: (handlers: { onError(error: Error): void }) => handlers.onError(new Error('refused')),
+        send: vi.fn(),
+        close: vi.fn(),
+      }
+      const errorHandler = vi.fn()
+
+      const ownedHandler = new CollaborationHandler(adapter)
+      ownedHandler.on('error', errorHandler)
+
+      await vi.waitFor(() => expect(errorHandler).toHaveBeenCalled())
+      expect(errorHandler).toHaveBeenCalledWith({
+        type: 'error',
+        data: { error: 'test connection failed' },
+      })
+    })
   })
 
   describe('Editor Operations', () => {
@@ -147,6 +167,108 @@ describe('CollaborationHandler', () => {
     })
   })
 
+  describe('Operational Transform', () => {
+    const sync = (content: string, version: number) =>
+      handler.handleEditorSync({
+        type: 'collaborativeEditorSync',
+        componentId: 'editor-1',
+        documentId: 'doc-1',
+        content,
+        version,
+      })
+
+    const change = (
+      userId: string,
+      version: number,
+      changes: CollaborativeEditorChangeMessage['changes']
+    ): CollaborativeEditorChangeMessage => ({
+      type: 'collaborativeEditorChange',
+      componentId: 'editor-1',
+      documentId: 'doc-1',
+      changes,
+      userId,
+      version,
+    })
+
+    it('should transform a stale change instead of rejecting it', async () => {
+      const conflictSpy = vi.fn()
+      const changeSpy = vi.fn()
+      handler.on('conflict', conflictSpy)
+      handler.on('editorChange', changeSpy)
+      await sync('Hello world', 1)
+
+      await handler.handleEditorChange(
+        change('user-1', 1, [{ type: 'insert', position: 0, content: 'Oh, ' }])
+      )
+      await handler.handleEditorChange(
+        change('user-2', 1, [{ type: 'insert', position: 11, content: '!' }])
+      )
+
+      expect(conflictSpy).not.toHaveBeenCalled()
+      expect(changeSpy.mock.calls[1]?.[0].data).toMatchObject({
+        version: 2,
+        changes: [{ type: 'insert', position: 15, content: '!' }],
+      })
+    })
+
+    it('should acknowledge the author and broadcast the applied change', async () => {
+      const sendSpy = vi.spyOn(transport, 'send')
+      await sync('abc', 4)
+
+      await handler.handleEditorChange(
+        change('user-1', 4, [{ type: 'replace', position: 1, length: 1, content: 'B' }])
+      )
+
+      expect(sendSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'collaborativeEditorAck', userId: 'user-1', version: 5 })
+      )
+      expect(sendSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'collaborativeEditorChange', version: 4 })
+      )
+    })
+
+    it('should report changes that do not fit the document', async () => {
+      const conflictSpy = vi.fn()
+      handler.on('conflict', conflictSpy)
+      await sync('abc', 0)
+
+      await handler.handleEditorChange(
+        change('user-1', 0, [{ type: 'delete', position: 2, length: 9 }])
+      )
+
+      expect(conflictSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ error: expect.stringContaining('outside') }),
+        })
+      )
+    })
+
+    it('should reject stale changes with other strategies', async () => {
+      const lwwHandler = new CollaborationHandler(transport as any, {
+        conflictResolution: 'last-write-wins',
+      })
+      const conflictSpy = vi.fn()
+      lwwHandler.on('conflict', conflictSpy)
+      await lwwHandler.handleEditorSync({
+        type: 'collaborativeEditorSync',
+        componentId: 'editor-1',
+        documentId: 'doc-1',
+        content: 'abc',
+        version: 0,
+      })
+      await lwwHandler.handleEditorChange(
+        change('user-1', 0, [{ type: 'insert', position: 0, content: 'x' }])
+      )
+
+      await lwwHandler.handleEditorChange(
+        change('user-2', 0, [{ type: 'insert', position: 0, content: 'y' }])
+      )
+
+      expect(conflictSpy).toHaveBeenCalledTimes(1)
+      lwwHandler.destroy()
+    })
+  })
+
   describe('Presence Operations', () => {
     it('should handle presence join', async () => {
       const message: PresenceJoinMessage = {
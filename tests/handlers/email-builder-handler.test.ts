@@ -493,6 +493,7 @@ describe('EmailBuilderHandler', () => {
       expect(responseMessages).toHaveLength(1)
       expect(responseMessages[0].html).toBeDefined()
       expect(responseMessages[0].html).toContain('Hello John Doe')
+      expect(responseMessages[0].text).toBe('Hello John Doe\n')
     })
 
     it('generates preview for different devices', async () => {
@@ -588,6 +589,41 @@ describe('EmailBuilderHandler', () => {
       expect(responseMessages[0].result.recipientCount).toBe(2)
     })
 
+    it('sends rendered HTML and text, personalized per recipient', async () => {
+      const send = vi.fn(async (options: any) => ({
+        jobId: 'job-1',
+        status: 'queued',
+        recipientCount: options.recipients.length,
+        provider: 'resend',
+      }))
+      handler.destroy()
+      handler = new EmailBuilderHandler(transport, {
+        sender: { send, sendTest: vi.fn() },
+      })
+      const template = createEmptyEmailTemplate('Rendered')
+      template.blocks = [{ type: 'text', id: 'text-1', content: 'Hi {{name}}' }]
+      template.variables = [{ id: 'name', name: 'Name', type: 'text', defaultValue: 'there' }]
+
+      transport.emit('emailTemplateSend', {
+        type: 'emailTemplateSend',
+        componentId: 'send-1',
+        template,
+        recipients: [
+          { email: 'user1@example.com' },
+          { email: 'user2@example.com', variables: { name: 'Ada' } },
+        ],
+        timestamp: Date.now(),
+      } as EmailTemplateSendMessage)
+      await new Promise((resolve) => setTimeout(resolve, 10))
+
+      const options = send.mock.calls[0]?.[0]
+      expect(options.html).toContain('Hi there')
+      expect(options.text).toBe('Hi there\n')
+      expect(options.personalized).toHaveLength(1)
+      expect(options.personalized[0].email).toBe('user2@example.com')
+      expect(options.personalized[0].html).toContain('Hi Ada')
+    })
+
     it('validates recipients before sending', async () => {
       const sendMessage: EmailTemplateSendMessage = {
         type: 'emailTemplateSend',
@@ -0,0 +1,408 @@
+/**
+ * Tests for FileUploadHandler and its sinks
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  FileUploadHandler,
+  FileUploadHandlerError,
+} from '../../src/handlers/file-upload-handler.js'
+import type {
+  FileChunk,
+  FileUploadDescriptor,
+  FileUploadSink,
+} from '../../src/handlers/file-upload-handler.js'
+import {
+  createPresignedUrlSink,
+  createTransportSink,
+} from '../../src/handlers/file-upload-sinks.js'
+import { OfflineStorage } from '../../src/offline/storage.js'
+import type {
+  FileUploadChunkMessage,
+  FileUploadMessage,
+  FileUploadProgressMessage,
+} from '../../src/types/file-upload-messages.js'
+
+function file(size: number, name = 'report.pdf'): File {
+  return new File([new Uint8Array(size).fill(7)], name, {
+    type: 'application/pdf',
+    lastModified: 1700000000000,
+  })
+}
+
+function createSink(overrides: Partial<FileUploadSink> = {}): FileUploadSink {
+  return {
+    start: vi
+      .fn()
+      .mockImplementation((upload: { uploadId?: string }) =>
+        Promise.resolve({ uploadId: upload.uploadId ?? 'upload-1' })
+      ),
+    uploadChunk: vi
+      .fn()
+      .mockImplementation((_upload: FileUploadDescriptor, chunk: FileChunk) =>
+        Promise.resolve({ index: chunk.index, size: chunk.size, etag: `etag-${chunk.index}` })
+      ),
+    complete: vi.fn().mockResolvedValue({ url: 'https://files.example.com/report.pdf' }),
+    abort: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  }
+}
+
+const target = { surfaceId: 'main', componentId: 'attachments' }
+
+describe('FileUploadHandler', () => {
+  let messages: FileUploadMessage[]
+
+  beforeEach(() => {
+    messages = []
+  })
+
+  it('should upload a file in chunks and report its progress', async () => {
+    const sink = createSink()
+    const handler = new FileUploadHandler({
+      sink,
+      chunkSize: 100,
+      progressInterval: 0,
+      onMessage: (message) => messages.push(message),
+    })
+
+    const complete = await handler.upload(file(250), target)
+
+    expect(vi.mocked(sink.uploadChunk).mock.calls.map(([, chunk]) => chunk.size)).toEqual([
+      100, 100, 50,
+    ])
+    expect(sink.complete).toHaveBeenCalledWith(
+      expect.objectContaining({ uploadId: 'upload-1', totalChunks: 3 }),
+      [
+        { index: 0, size: 100, etag: 'etag-0' },
+        { index: 1, size: 100, etag: 'etag-1' },
+        { index: 2, size: 50, etag: 'etag-2' },
+      ]
+    )
+    expect(complete).toMatchObject({
+      type: 'fileUploadComplete',
+      url: 'https://files.example.com/report.pdf',
+      metadata: { name: 'report.pdf', size: 250, type: 'application/pdf' },
+    })
+    expect(messages.map((message) => message.type)).toEqual([
+      'fileUploadStart',
+      'fileUploadProgress',
+      'fileUploadProgress',
+      'fileUploadProgress',
+      'fileUploadComplete',
+    ])
+    expect(messages[3]).toMatchObject({ bytesUploaded: 250, percentage: 100 })
+    expect(handler.getUpload(complete.fileId)?.status).toBe('completed')
+  })
+
+  it('should limit the number of chunks in flight', async () => {
+    let active = 0
+    let peak = 0
+    const sink = createSink({
+      uploadChunk: async (_upload, chunk) => {
+        peak = Math.max(peak, ++active)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        active--
+        return { index: chunk.index, size: chunk.size }
+      },
+    })
+    const handler = new FileUploadHandler({ sink, chunkSize: 10, concurrency: 2 })
+
+    await handler.upload(file(100), target)
+
+    expect(peak).toBe(2)
+  })
+
+  it('should retry failed chunks with exponential backoff', async () => {
+    vi.useFakeTimers()
+    try {
+      const uploadChunk = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('503'))
+        .mockRejectedValueOnce(new Error('503'))
+        .mockResolvedValue(undefined)
+      const handler = new FileUploadHandler({
+        sink: createSink({ uploadChunk }),
+        retryDelay: 100,
+        maxRetries: 2,
+      })
+
+      const upload = handler.upload(file(10), target)
+      await vi.advanceTimersByTimeAsync(100)
+      expect(uploadChunk).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(199)
+      expect(uploadChunk).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(1)
+
+      await expect(upload).resolves.toMatchObject({ type: 'fileUploadComplete' })
+      expect(uploadChunk).toHaveBeenCalledTimes(3)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should fail once the retries are exhausted', async () => {
+    const handler = new FileUploadHandler({
+      sink: createSink({ uploadChunk: vi.fn().mockRejectedValue(new Error('Forbidden')) }),
+      maxRetries: 1,
+      retryDelay: 1,
+      onMessage: (message) => messages.push(message),
+    })
+
+    const error = await handler.upload(file(10), target).catch((reason: unknown) => reason)
+
+    expect(error).toBeInstanceOf(FileUploadHandlerError)
+    expect(error).toMatchObject({ code: 'UPLOAD_FAILED' })
+    expect(messages.at(-1)).toMatchObject({
+      type: 'fileUploadError',
+      errorCode: 'UPLOAD_FAILED',
+      error: 'Upload of report.pdf failed: Forbidden',
+    })
+  })
+
+  it('should reject files that break the component constraints', async () => {
+    const sink = createSink()
+    const handler = new FileUploadHandler({
+      sink,
+      onMessage: (message) => messages.push(message),
+    })
+
+    await expect(
+      handler.upload(file(10), { ...target, properties: { accept: ['image/*'] } })
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' })
+    expect(messages).toEqual([expect.objectContaining({ errorCode: 'FILE_TYPE' })])
+    expect(sink.start).not.toHaveBeenCalled()
+  })
+
+  it('should inspect file contents when asked to', async () => {
+    const sink = createSink()
+    const handler = new FileUploadHandler({
+      sink,
+      contentValidation: {},
+      onMessage: (message) => messages.push(message),
+    })
+    const renamed = new File([new Uint8Array([0x4d, 0x5a, 0x90, 0x00])], 'invoice.pdf', {
+      type: 'application/pdf',
+    })
+
+    await expect(handler.upload(renamed, target)).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+    })
+    expect(messages).toEqual([expect.objectContaining({ errorCode: 'VALIDATION_ERROR' })])
+    expect(sink.start).not.toHaveBeenCalled()
+  })
+
+  it('should pause and resume an upload', async () => {
+    // The first attempt hangs until it is aborted
+    const uploadChunk = vi.fn(
+      (_upload: FileUploadDescriptor, chunk: FileChunk, signal: AbortSignal) =>
+        uploadChunk.mock.calls.length === 1
+          ? new Promise<never>((_resolve, reject) => signal.addEventListener('abort', reject))
+          : Promise.resolve({ index: chunk.index, size: chunk.size })
+    )
+    const handler = new FileUploadHandler({
+      sink: createSink({ uploadChunk }),
+      chunkSize: 10,
+      concurrency: 1,
+    })
+
+    const upload = handler.upload(file(20), { ...target, fileId: 'file-1' })
+    await vi.waitFor(() => expect(uploadChunk).toHaveBeenCalledTimes(1))
+
+    expect(handler.pause('file-1')).toBe(true)
+    expect(handler.getUpload('file-1')).toMatchObject({ status: 'paused', bytesPerSecond: 0 })
+    expect(handler.resume('file-1')).toBe(true)
+
+    await upload
+    expect(uploadChunk.mock.calls.map(([, chunk]) => chunk.index)).toEqual([0, 0, 1])
+  })
+
+  it('should cancel an upload when the component asks for it', async () => {
+    const sink = createSink({
+      uploadChunk: vi.fn(
+        (_upload: FileUploadDescriptor, _chunk: FileChunk, signal: AbortSignal) =>
+          new Promise<never>((_resolve, reject) => signal.addEventListener('abort', reject))
+      ),
+    })
+    const handler = new FileUploadHandler({
+      sink,
+      onMessage: (message) => messages.push(message),
+    })
+
+    const upload = handler.upload(file(10), { ...target, fileId: 'file-1' })
+    await vi.waitFor(() => expect(sink.uploadChunk).toHaveBeenCalled())
+
+    expect(
+      handler.handleMessage({
+        type: 'fileUploadCancel',
+        surfaceId: 'main',
+        componentId: 'attachments',
+        fileId: 'file-1',
+        reason: 'User cancelled',
+      })
+    ).toBe(true)
+
+    await expect(upload).rejects.toMatchObject({
+      code: 'CANCELLED',
+      message: 'Upload cancelled: User cancelled',
+    })
+    expect(sink.abort).toHaveBeenCalledWith(expect.objectContaining({ uploadId: 'upload-1' }))
+    expect(messages.at(-1)).toMatchObject({ type: 'fileUploadCancel', fileId: 'file-1' })
+  })
+
+  it('should resume an upload recorded before a reload', async () => {
+    const storage = new OfflineStorage({ backend: 'memory' })
+    const failing = new FileUploadHandler({
+      sink: createSink({
+        uploadChunk: (_upload, chunk) =>
+          chunk.index === 2
+            ? Promise.reject(new Error('offline'))
+            : Promise.resolve({ index: chunk.index, size: chunk.size }),
+      }),
+      storage,
+      chunkSize: 10,
+      concurrency: 1,
+      maxRetries: 0,
+    })
+    await expect(failing.upload(file(40), target)).rejects.toThrow('offline')
+
+    const [record] = await failing.getResumableUploads()
+    expect(record).toMatchObject({ uploadId: 'upload-1', totalChunks: 4 })
+    expect(record?.chunks.map((chunk) => chunk.index)).toEqual([0, 1])
+
+    const sink = createSink()
+    const handler = new FileUploadHandler({ sink, storage, chunkSize: 10 })
+    const complete = await handler.upload(file(40), target)
+
+    expect(complete.fileId).toBe(record?.file.fileId)
+    expect(sink.start).toHaveBeenCalledWith(expect.objectContaining({ uploadId: 'upload-1' }))
+    expect(vi.mocked(sink.uploadChunk).mock.calls.map(([, chunk]) => chunk.index)).toEqual([2, 3])
+    expect(vi.mocked(sink.complete).mock.calls[0]?.[1]).toHaveLength(4)
+    expect(await handler.getResumableUploads()).toEqual([])
+  })
+
+  it('should report throughput and time remaining', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    try {
+      const sink = createSink({
+        uploadChunk: (_upload, chunk) => {
+          vi.setSystemTime(Date.now() + 1000)
+          return Promise.resolve({ index: chunk.index, size: chunk.size })
+        },
+      })
+      const handler = new FileUploadHandler({
+        sink,
+        chunkSize: 100,
+        concurrency: 1,
+        progressInterval: 0,
+        onMessage: (message) => messages.push(message),
+      })
+
+      await handler.upload(file(400), target)
+
+      const progress = messages.filter(
+        (message): message is FileUploadProgressMessage => message.type === 'fileUploadProgress'
+      )
+      expect(progress[0]).toMatchObject({ bytesPerSecond: 100, estimatedTimeRemaining: 3 })
+      expect(progress[2]).toMatchObject({ bytesPerSecond: 100, estimatedTimeRemaining: 1 })
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
+
+describe('createPresignedUrlSink', () => {
+  it('should PUT chunks to presigned URLs and keep their ETags', async () => {
+    const fetch = vi
+      .fn()
+      .mockImplementation(() =>
+        Promise.resolve(new Response(null, { status: 200, headers: { ETag: '"abc"' } }))
+      )
+    const api = {
+      createUpload: vi.fn().mockResolvedValue({ uploadId: 'mpu-1' }),
+      getChunkUrl: vi.fn((_upload: FileUploadDescriptor, index: number) =>
+        Promise.resolve(`https://bucket.example.com/part/${index}`)
+      ),
+      completeUpload: vi.fn().mockResolvedValue({ url: 'https://bucket.example.com/report.pdf' }),
+    }
+    const handler = new FileUploadHandler({
+      sink: createPresignedUrlSink({ api, fetch }),
+      chunkSize: 10,
+    })
+
+    await handler.upload(file(15), target)
+
+    expect(fetch).toHaveBeenCalledWith(
+      'https://bucket.example.com/part/1',
+      expect.objectContaining({ method: 'PUT' })
+    )
+    expect(api.completeUpload).toHaveBeenCalledWith(expect.anything(), [
+      { index: 0, size: 10, etag: '"abc"' },
+      { index: 1, size: 5, etag: '"abc"' },
+    ])
+  })
+})
+
+describe('createTransportSink', () => {
+  function createTransport() {
+    const handlers = new Map<string, Set<(message: unknown) => void>>()
+    return {
+      sent: [] as FileUploadChunkMessage[],
+      send(message: unknown) {
+        this.sent.push(message as FileUploadChunkMessage)
+      },
+      on(event: string, handler: (message: never) => void) {
+        if (!handlers.has(event)) handlers.set(event, new Set())
+        handlers.get(event)!.add(handler as (message: unknown) => void)
+      },
+      off(event: string, handler: (message: never) => void) {
+        handlers.get(event)?.delete(handler as (message: unknown) => void)
+      },
+      receive(message: { type: string }) {
+        for (const handler of handlers.get(message.type) ?? []) handler(message)
+      },
+    }
+  }
+
+  it('should stream chunks to the agent and wait for its confirmation', async () => {
+    const transport = createTransport()
+    const handler = new FileUploadHandler({
+      sink: createTransportSink(transport),
+      chunkSize: 4,
+      concurrency: 1,
+    })
+
+    const upload = handler.upload(file(6), { ...target, fileId: 'file-1' })
+    await vi.waitFor(() => expect(transport.sent).toHaveLength(1))
+    const [first] = transport.sent
+    expect(first).toMatchObject({ type: 'fileUploadChunk', index: 0, size: 4, totalChunks: 2 })
+    expect(atob(first!.data)).toBe('\x07\x07\x07\x07')
+
+    transport.receive({ type: 'fileUploadChunkAck', uploadId: first!.uploadId, index: 0 })
+    await vi.waitFor(() => expect(transport.sent).toHaveLength(2))
+    transport.receive({
+      type: 'fileUploadComplete',
+      surfaceId: 'main',
+      componentId: 'attachments',
+      fileId: 'file-1',
+      url: 'zerodb://files/report.pdf',
+      metadata: {},
+    })
+    transport.receive({ type: 'fileUploadChunkAck', uploadId: first!.uploadId, index: 1 })
+
+    await expect(upload).resolves.toMatchObject({ url: 'zerodb://files/report.pdf' })
+  })
+
+  it('should fail chunks the agent does not acknowledge', async () => {
+    const transport = createTransport()
+    const handler = new FileUploadHandler({
+      sink: createTransportSink(transport, { ackTimeout: 50 }),
+      maxRetries: 0,
+    })
+
+    const upload = handler.upload(file(6), target)
+    await vi.waitFor(() => expect(transport.sent).toHaveLength(1))
+
+    await expect(upload).rejects.toThrow('Chunk 0 was not acknowledged')
+  })
+})
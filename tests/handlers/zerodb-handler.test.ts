@@ -0,0 +1,560 @@
+/**
+ * ZeroDB Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  ZeroDBHandler,
+  isReadOnlyQuery,
+  type ZeroDBHandlerClient,
+} from '../../src/handlers/zerodb-handler.js'
+import { A2UITransport } from '../../src/transport/index.js'
+
+// Mock transport
+class MockTransport extends A2UITransport {
+  private handlers: Map<string, Function> = new Map()
+  public sentMessages: any[] = []
+
+  constructor() {
+    super()
+  }
+
+  connect(): Promise<void> {
+    return Promise.resolve()
+  }
+
+  disconnect(): Promise<void> {
+    return Promise.resolve()
+  }
+
+  send(message: any): void {
+    this.sentMessages.push(message)
+  }
+
+  on<T>(event: string, handler: (message: T) => void): void {
+    this.handlers.set(event, handler)
+  }
+
+  off(event: string): void {
+    this.handlers.delete(event)
+  }
+
+  emit<T>(event: string, message: T): void {
+    const handler = this.handlers.get(event)
+    if (handler) {
+      handler(message)
+    }
+  }
+
+  sentOfType(type: string): any[] {
+    return this.sentMessages.filter((message) => message.type === type)
+  }
+}
+
+function createClient(): { [K in keyof ZeroDBHandlerClient]: ReturnType<typeof vi.fn> } {
+  return {
+    vectorSearch: vi.fn().mockResolvedValue([]),
+    tableQuery: vi.fn().mockResolvedValue([]),
+    tableInsert: vi.fn().mockResolvedValue(1),
+    tableUpdate: vi.fn().mockResolvedValue(1),
+    tableDelete: vi.fn().mockResolvedValue(1),
+    fileList: vi.fn().mockResolvedValue([]),
+    fileUpload: vi.fn().mockResolvedValue('file-1'),
+    fileDownload: vi.fn(),
+    fileDelete: vi.fn().mockResolvedValue(undefined),
+    postgresQuery: vi.fn().mockResolvedValue({ rows: [] }),
+    postgresStatus: vi.fn(),
+    memorySearch: vi.fn().mockResolvedValue([]),
+    memoryStore: vi.fn().mockResolvedValue('memory-1'),
+    analyticsQuery: vi.fn(),
+  }
+}
+
+const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('ZeroDBHandler', () => {
+  let transport: MockTransport
+  let client: ReturnType<typeof createClient>
+  let handler: ZeroDBHandler
+
+  beforeEach(() => {
+    transport = new MockTransport()
+    client = createClient()
+    handler = new ZeroDBHandler(transport, client as unknown as ZeroDBHandlerClient)
+  })
+
+  afterEach(() => {
+    handler.destroy()
+    vi.useRealTimers()
+  })
+
+  describe('Vector Search', () => {
+    it('replies with results and writes them to the data model', async () => {
+      client.vectorSearch.mockResolvedValue([
+        { id: 'doc-1', score: 0.9, metadata: { text: 'hello' }, embedding: [0.1] },
+      ])
+
+      transport.emit('zerodbVectorSearch', {
+        type: 'zerodbVectorSearch',
+        surfaceId: 'surface-1',
+        componentId: 'search',
+        query: 'hello',
+        topK: 5,
+      })
+      await flush()
+
+      expect(client.vectorSearch).toHaveBeenCalledWith('hello', 5, undefined)
+      const [reply] = transport.sentOfType('zerodbVectorSearchResult')
+      expect(reply).toMatchObject({
+        surfaceId: 'surface-1',
+        componentId: 'search',
+        results: [{ id: 'doc-1', score: 0.9, metadata: { text: 'hello' } }],
+      })
+      expect(reply.results[0].embedding).toBeUndefined()
+
+      const updates = transport.sentOfType('updateDataModel')
+      expect(updates[0].updates).toEqual([
+        { path: '/zerodb/search/loading', operation: 'set', value: true },
+      ])
+      expect(updates[1].updates).toEqual([
+        {
+          path: '/zerodb/search',
+          operation: 'set',
+          value: {
+            query: 'hello',
+            results: reply.results,
+            loading: false,
+            error: null,
+          },
+        },
+      ])
+    })
+
+    it('debounces auto-search requests per component', async () => {
+      vi.useFakeTimers()
+      for (const query of ['h', 'he', 'hel']) {
+        transport.emit('zerodbVectorSearch', {
+          type: 'zerodbVectorSearch',
+          surfaceId: 'surface-1',
+          componentId: 'search',
+          query,
+          autoSearch: true,
+        })
+        await vi.advanceTimersByTimeAsync(100)
+      }
+      expect(client.vectorSearch).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(300)
+
+      expect(client.vectorSearch).toHaveBeenCalledTimes(1)
+      expect(client.vectorSearch).toHaveBeenCalledWith('hel', undefined, undefined)
+    })
+
+    it('ignores responses superseded by a newer query', async () => {
+      let resolveFirst!: (value: unknown[]) => void
+      client.vectorSearch
+        .mockImplementationOnce(() => new Promise((resolve) => (resolveFirst = resolve)))
+        .mockResolvedValueOnce([{ id: 'new', score: 1, metadata: {} }])
+
+      const search = (query: string): void =>
+        transport.emit('zerodbVectorSearch', {
+          type: 'zerodbVectorSearch',
+          surfaceId: 'surface-1',
+          componentId: 'search',
+          query,
+        })
+      search('old')
+      search('new')
+      await flush()
+      resolveFirst([{ id: 'old', score: 1, metadata: {} }])
+      await flush()
+
+      const replies = transport.sentOfType('zerodbVectorSearchResult')
+      expect(replies).toHaveLength(1)
+      expect(replies[0].results[0].id).toBe('new')
+    })
+
+    it('clears results for an empty query without calling ZeroDB', async () => {
+      transport.emit('zerodbVectorSearch', {
+        type: 'zerodbVectorSearch',
+        surfaceId: 'surface-1',
+        query: '  ',
+      })
+      await flush()
+
+      expect(client.vectorSearch).not.toHaveBeenCalled()
+      expect(transport.sentOfType('zerodbVectorSearchResult')[0].results).toEqual([])
+    })
+  })
+
+  describe('Table Query', () => {
+    it('pages and sorts rows', async () => {
+      client.tableQuery.mockResolvedValue([{ id: 11 }, { id: 12 }, { id: 13 }])
+
+      transport.emit('zerodbTableQuery', {
+        type: 'zerodbTableQuery',
+        surfaceId: 'surface-1',
+        componentId: 'users',
+        tableName: 'users',
+        limit: 2,
+        offset: 10,
+        sortBy: 'id',
+        sortOrder: 'desc',
+      })
+      await flush()
+
+      expect(client.tableQuery).toHaveBeenCalledWith('users', undefined, 3, 10, {
+        column: 'id',
+        order: 'desc',
+      })
+      expect(transport.sentOfType('zerodbTableQueryResult')[0]).toMatchObject({
+        rows: [{ id: 11 }, { id: 12 }],
+        offset: 10,
+        limit: 2,
+        hasMore: true,
+        totalCount: undefined,
+      })
+    })
+
+    it('reports the total count on the last page', async () => {
+      client.tableQuery.mockResolvedValue([{ id: 1 }])
+
+      transport.emit('zerodbTableQuery', {
+        type: 'zerodbTableQuery',
+        surfaceId: 'surface-1',
+        tableName: 'users',
+        offset: 25,
+      })
+      await flush()
+
+      expect(client.tableQuery).toHaveBeenCalledWith('users', undefined, 26, 25, undefined)
+      expect(transport.sentOfType('zerodbTableQueryResult')[0]).toMatchObject({
+        hasMore: false,
+        totalCount: 26,
+      })
+    })
+  })
+
+  describe('Table Writes', () => {
+    it('replies with affected rows and refreshes queries on the same table', async () => {
+      transport.emit('zerodbTableQuery', {
+        type: 'zerodbTableQuery',
+        surfaceId: 'surface-1',
+        componentId: 'users',
+        tableName: 'users',
+      })
+      await flush()
+      client.tableUpdate.mockResolvedValue(3)
+
+      transport.emit('zerodbTableUpdate', {
+        type: 'zerodbTableUpdate',
+        surfaceId: 'surface-1',
+        componentId: 'editor',
+        tableName: 'users',
+        filters: { active: false },
+        updates: { archived: true },
+      })
+      await flush()
+
+      expect(client.tableUpdate).toHaveBeenCalledWith(
+        'users',
+        { active: false },
+        { archived: true }
+      )
+      expect(transport.sentOfType('zerodbTableOperationResult')[0]).toMatchObject({
+        success: true,
+        affectedRows: 3,
+      })
+      expect(client.tableQuery).toHaveBeenCalledTimes(2)
+    })
+
+    it('answers failures with an unsuccessful operation result', async () => {
+      client.tableInsert.mockRejectedValue(new Error('duplicate key'))
+      const onError = vi.fn()
+      handler.on('error', onError)
+
+      transport.emit('zerodbTableInsert', {
+        type: 'zerodbTableInsert',
+        surfaceId: 'surface-1',
+        componentId: 'form',
+        tableName: 'users',
+        rows: [{ id: 1 }],
+      })
+      await flush()
+
+      expect(transport.sentOfType('zerodbTableOperationResult')[0]).toMatchObject({
+        success: false,
+        error: 'duplicate key',
+      })
+      expect(transport.sentOfType('error')).toHaveLength(0)
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          request: 'zerodbTableInsert',
+          error: { message: 'duplicate key', code: 'OPERATION_FAILED' },
+        })
+      )
+      expect(transport.sentOfType('updateDataModel').pop().updates).toContainEqual({
+        path: '/zerodb/form/error',
+        operation: 'set',
+        value: 'duplicate key',
+      })
+    })
+
+    it('reports sends that fail after the connection drops', async () => {
+      let resolveInsert: (rows: number) => void = () => undefined
+      client.tableInsert.mockReturnValue(new Promise((resolve) => (resolveInsert = resolve)))
+      const onError = vi.fn()
+      handler.on('error', onError)
+
+      transport.emit('zerodbTableInsert', {
+        type: 'zerodbTableInsert',
+        surfaceId: 'surface-1',
+        componentId: 'form',
+        tableName: 'users',
+        rows: [{ id: 1 }],
+      })
+      vi.spyOn(transport, 'send').mockImplementation(() => {
+        throw new Error('Cannot send message: not connected')
+      })
+      resolveInsert(1)
+      await flush()
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          request: 'zerodbTableInsert',
+          error: { message: 'Cannot send message: not connected', code: 'OPERATION_FAILED' },
+        })
+      )
+    })
+  })
+
+  describe('Files', () => {
+    it('lists files sorted by size', async () => {
+      client.fileList.mockResolvedValue([
+        { id: 'a', metadata: { name: 'a.txt', size: 30 } },
+        { id: 'b', metadata: { name: 'b.txt', size: 10, path: '/docs/b.txt' } },
+      ])
+
+      transport.emit('zerodbFileList', {
+        type: 'zerodbFileList',
+        surfaceId: 'surface-1',
+        path: '/docs',
+        sortBy: 'size',
+      })
+      await flush()
+
+      expect(client.fileList).toHaveBeenCalledWith({ path: '/docs' }, 26, 0)
+      expect(transport.sentOfType('zerodbFileListResult')[0]).toMatchObject({
+        files: [
+          { name: 'b.txt', size: 10, path: '/docs/b.txt' },
+          { name: 'a.txt', size: 30, path: 'a' },
+        ],
+        hasMore: false,
+      })
+    })
+
+    it('downloads a file', async () => {
+      client.fileDownload.mockResolvedValue({
+        data: 'aGVsbG8=',
+        metadata: { name: 'hello.txt', mimeType: 'text/plain' },
+      })
+
+      transport.emit('zerodbFileDownload', {
+        type: 'zerodbFileDownload',
+        surfaceId: 'surface-1',
+        filePath: 'file-1',
+      })
+      await flush()
+
+      expect(transport.sentOfType('zerodbFileDownloadResult')[0]).toMatchObject({
+        fileName: 'hello.txt',
+        fileData: 'aGVsbG8=',
+        mimeType: 'text/plain',
+      })
+    })
+
+    it('refreshes the file list after an upload', async () => {
+      transport.emit('zerodbFileList', {
+        type: 'zerodbFileList',
+        surfaceId: 'surface-1',
+        componentId: 'browser',
+      })
+      await flush()
+
+      transport.emit('zerodbFileUpload', {
+        type: 'zerodbFileUpload',
+        surfaceId: 'surface-1',
+        componentId: 'browser',
+        fileName: 'notes.txt',
+        fileData: 'bm90ZXM=',
+      })
+      await flush()
+
+      expect(client.fileUpload).toHaveBeenCalledWith('bm90ZXM=', { name: 'notes.txt' })
+      expect(client.fileList).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('Postgres', () => {
+    it('rejects writes when read-only SQL is enforced', async () => {
+      transport.emit('zerodbPostgresQuery', {
+        type: 'zerodbPostgresQuery',
+        surfaceId: 'surface-1',
+        query: 'DELETE FROM users',
+      })
+      await flush()
+
+      expect(client.postgresQuery).not.toHaveBeenCalled()
+      expect(transport.sentOfType('error')[0]).toMatchObject({
+        code: 'READ_ONLY_VIOLATION',
+        details: { request: 'zerodbPostgresQuery' },
+      })
+    })
+
+    it('allows writes when enforcement is off', async () => {
+      handler.destroy()
+      handler = new ZeroDBHandler(transport, client as unknown as ZeroDBHandlerClient, {
+        readOnlySql: false,
+      })
+
+      transport.emit('zerodbPostgresQuery', {
+        type: 'zerodbPostgresQuery',
+        surfaceId: 'surface-1',
+        query: 'DELETE FROM users WHERE id = $1',
+        params: [1],
+      })
+      transport.emit('zerodbPostgresQuery', {
+        type: 'zerodbPostgresQuery',
+        surfaceId: 'surface-1',
+        componentId: 'console',
+        query: 'DELETE FROM users',
+        readOnly: true,
+      })
+      await flush()
+
+      expect(client.postgresQuery).toHaveBeenCalledTimes(1)
+      expect(client.postgresQuery).toHaveBeenCalledWith('DELETE FROM users WHERE id = $1', [1])
+      expect(transport.sentOfType('error')).toHaveLength(1)
+    })
+
+    it('caps rows at maxRows', async () => {
+      client.postgresQuery.mockResolvedValue({ rows: [{ n: 1 }, { n: 2 }, { n: 3 }] })
+
+      transport.emit('zerodbPostgresQuery', {
+        type: 'zerodbPostgresQuery',
+        surfaceId: 'surface-1',
+        query: 'SELECT n FROM numbers',
+        maxRows: 2,
+      })
+      await flush()
+
+      expect(transport.sentOfType('zerodbPostgresQueryResult')[0]).toMatchObject({
+        rows: [{ n: 1 }, { n: 2 }],
+        rowCount: 3,
+        truncated: true,
+      })
+    })
+
+    it('reports status', async () => {
+      client.postgresStatus.mockResolvedValue({ status: 'active', connections: 4, uptime: 60 })
+
+      transport.emit('zerodbPostgresStatus', {
+        type: 'zerodbPostgresStatus',
+        surfaceId: 'surface-1',
+      })
+      await flush()
+
+      expect(transport.sentOfType('zerodbPostgresStatusResult')[0]).toMatchObject({
+        status: 'active',
+        connections: 4,
+        uptime: 60,
+      })
+    })
+  })
+
+  describe('Memory and Analytics', () => {
+    it('maps memory search results', async () => {
+      client.memorySearch.mockResolvedValue([
+        { sessionId: 's', context: 'likes tea', timestamp: 0, metadata: { relevance: 0.8 } },
+      ])
+
+      transport.emit('zerodbMemorySearch', {
+        type: 'zerodbMemorySearch',
+        surfaceId: 'surface-1',
+        query: 'drinks',
+        limit: 3,
+      })
+      await flush()
+
+      expect(client.memorySearch).toHaveBeenCalledWith('drinks', 3)
+      expect(transport.sentOfType('zerodbMemorySearchResult')[0].results).toEqual([
+        { content: 'likes tea', relevance: 0.8, timestamp: '1970-01-01T00:00:00.000Z' },
+      ])
+    })
+
+    it('runs analytics queries', async () => {
+      client.analyticsQuery.mockResolvedValue({ data: [{ day: 1, count: 5 }], aggregations: {} })
+      const timeRange = { start: '2026-01-01', end: '2026-01-31' }
+
+      transport.emit('zerodbAnalyticsQuery', {
+        type: 'zerodbAnalyticsQuery',
+        surfaceId: 'surface-1',
+        metric: 'signups',
+        timeRange,
+      })
+      await flush()
+
+      expect(client.analyticsQuery).toHaveBeenCalledWith('signups', timeRange)
+      expect(transport.sentOfType('zerodbAnalyticsQueryResult')[0].data).toEqual([
+        { day: 1, count: 5 },
+      ])
+    })
+  })
+
+  it('stops handling messages after destroy', async () => {
+    handler.destroy()
+
+    transport.emit('zerodbPostgresStatus', { type: 'zerodbPostgresStatus', surfaceId: 'surface-1' })
+    await flush()
+
+    expect(client.postgresStatus).not.toHaveBeenCalled()
+  })
+})
+
+describe('isReadOnlyQuery', () => {
+  it.each([
+    'SELECT * FROM users',
+    'with recent as (select * from orders) select count(*) from recent',
+    'EXPLAIN SELECT 1',
+    "SELECT 'drop table users; --' AS note;",
+    'SELECT "update" FROM audit -- delete later',
+    'SELECT $$insert$$',
+    "SELECT E'it\\'s; delete' AS note",
+    '/* outer /* inner */ delete */ SELECT 1',
+    'SELECT price$usd FROM items',
+  ])('accepts %s', (sql) => {
+    expect(isReadOnlyQuery(sql)).toBe(true)
+  })
+
+  it.each([
+    'DELETE FROM users',
+    'SELECT 1; DROP TABLE users',
+    'WITH gone AS (DELETE FROM users RETURNING *) SELECT * FROM gone',
+    'SELECT * INTO backup FROM users',
+    'SELECT * FROM users FOR UPDATE',
+    'EXPLAIN ANALYZE UPDATE users SET active = false',
+    '/* SELECT */ TRUNCATE users',
+    '',
+    "select E'\\'', 1; delete from users; --'",
+    "select '\\'', 1; delete from users; --'",
+    "/* /* */ ' */ delete from users; --'",
+    'select 1 as a$b$; delete from users; -- $b$',
+    "select $é$'$é$; delete from users; --'",
+    "select setval('users_id_seq', 1)",
+    'select pg_terminate_backend(123)',
+    'select "setval"(\'users_id_seq\', 1)',
+    "select 'unterminated",
+  ])('rejects %s', (sql) => {
+    expect(isReadOnlyQuery(sql)).toBe(false)
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Component Translation Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { I18n } from '../../src/i18n/i18n.js'
+import {
+  collectTranslationKeys,
+  translateComponents,
+  translateProperties,
+} from '../../src/i18n/component-translations.js'
+import { SurfaceValidator } from '../../src/validation/surface-validator.js'
+import type { A2UIComponent } from '../../src/types/components.js'
+
+const i18n = new I18n({
+  defaultLocale: 'de',
+  translations: {
+    de: {
+      auth: { email: 'E-Mail', submit: 'Anmelden' },
+      inbox: { one: '{{count}} neue Nachricht', other: '{{count}} neue Nachrichten' },
+      welcome: 'Willkommen, {{name}}!',
+    },
+  },
+})
+
+const components: A2UIComponent[] = [
+  { id: 'root', type: 'column', children: ['email', 'submit'] },
+  {
+    id: 'email',
+    type: 'textField',
+    properties: { label: { $t: 'auth.email' }, placeholder: 'name@example.com' },
+  },
+  { id: 'submit', type: 'button', properties: { label: { $t: 'auth.submit' } } },
+]
+
+describe('translateProperties', () => {
+  it('should translate keys, plurals and params at any depth', () => {
+    expect(
+      translateProperties(
+        {
+          title: { $t: 'welcome', params: { name: 'Ada' } },
+          badge: { $t: 'inbox', count: 3 },
+          status: { $t: 'inbox', count: 1 },
+          tabs: [{ id: 'a', label: { $t: 'auth.email' } }],
+        },
+        i18n
+      )
+    ).toEqual({
+      title: 'Willkommen, Ada!',
+      badge: '3 neue Nachrichten',
+      status: '1 neue Nachricht',
+      tabs: [{ id: 'a', label: 'E-Mail' }],
+    })
+  })
+
+  it('should use the default for unknown keys and keep untranslated objects', () => {
+    const properties = { label: 'Static', options: [{ value: 'a' }] }
+
+    expect(translateProperties(properties, i18n)).toBe(properties)
+    expect(translateProperties({ label: { $t: 'missing', default: 'Fallback' } }, i18n)).toEqual({
+      label: 'Fallback',
+    })
+  })
+})
+
+describe('translateComponents', () => {
+  it('should only copy components with translations', () => {
+    const translated = translateComponents(components, i18n)
+
+    expect(translated[0]).toBe(components[0])
+    expect(translated[1]?.properties).toEqual({ label: 'E-Mail', placeholder: 'name@example.com' })
+    expect(translated[2]?.properties).toEqual({ label: 'Anmelden' })
+  })
+
+  it('should collect the keys a surface uses', () => {
+    expect(collectTranslationKeys(components)).toEqual(['auth.email', 'auth.submit'])
+  })
+
+  it('should pass surface validation before translation', () => {
+    const result = new SurfaceValidator().validate({
+      type: 'createSurface',
+      surfaceId: 'login',
+      components,
+    })
+
+    expect(result.valid).toBe(true)
+  })
+})
@@ -0,0 +1,201 @@
+/**
+ * I18n Tests
+ * Fallback chains, lazy loading and ICU-style plurals
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { I18n, I18nError } from '../../src/i18n/i18n.js'
+import { I18nHelper } from '../../src/i18n/helper.js'
+import { TranslationManager } from '../../src/i18n/manager.js'
+import { getPluralCategories, getPluralForm } from '../../src/i18n/plural-rules.js'
+
+describe('I18n', () => {
+  describe('fallback chains', () => {
+    const i18n = new I18n({
+      defaultLocale: 'en',
+      locales: ['en', 'fr', 'fr-CA', 'de'],
+      fallbackLocales: ['fr'],
+      translations: {
+        en: { save: 'Save', cancel: 'Cancel', help: 'Help' },
+        fr: { save: 'Enregistrer', cancel: 'Annuler' },
+        'fr-CA': { save: 'Sauvegarder' },
+        de: {},
+      },
+    })
+
+    it('should try the regional locale, its language, the fallbacks, then the default', async () => {
+      await i18n.setLocale('fr_ca')
+
+      expect(i18n.getFallbackChain()).toEqual(['fr-CA', 'fr', 'en'])
+      expect(i18n.t('save')).toBe('Sauvegarder')
+      expect(i18n.t('cancel')).toBe('Annuler')
+      expect(i18n.t('help')).toBe('Help')
+    })
+
+    it('should use configured fallback locales before the default', async () => {
+      await i18n.setLocale('de')
+
+      expect(i18n.getFallbackChain()).toEqual(['de', 'fr', 'en'])
+      expect(i18n.t('cancel')).toBe('Annuler')
+    })
+
+    it('should return the key or the missing-key handler result', () => {
+      const onMissingKey = vi.fn().mockReturnValue('⚠ missing')
+      const strict = new I18n({ defaultLocale: 'en', translations: { en: {} }, onMissingKey })
+
+      expect(i18n.t('nope')).toBe('nope')
+      expect(strict.t('nope')).toBe('⚠ missing')
+      expect(onMissingKey).toHaveBeenCalledWith('nope', 'en')
+    })
+
+    it('should reject locales that are not configured', async () => {
+      await expect(i18n.setLocale('ja')).rejects.toMatchObject({ code: 'UNSUPPORTED_LOCALE' })
+    })
+  })
+
+  describe('lazy loading', () => {
+    it('should load a locale bundle once when it is activated', async () => {
+      const loader = vi.fn().mockResolvedValue({ greeting: 'Hola, {{name}}' })
+      const i18n = new I18n({
+        defaultLocale: 'en',
+        locales: ['en', 'es'],
+        translations: { en: { greeting: 'Hello, {{name}}' } },
+        loader,
+      })
+
+      expect(i18n.isLoaded('es')).toBe(false)
+      await Promise.all([i18n.setLocale('es'), i18n.loadLocale('es')])
+      await i18n.setLocale('es')
+
+      expect(loader).toHaveBeenCalledTimes(1)
+      expect(loader).toHaveBeenCalledWith('es')
+      expect(i18n.t('greeting', { name: 'Ana' })).toBe('Hola, Ana')
+    })
+
+    it('should keep the active locale when a bundle fails to load', async () => {
+      const listener = vi.fn()
+      const i18n = new I18n({
+        defaultLocale: 'en',
+        locales: ['en', 'it'],
+        translations: { en: {} },
+        loader: () => Promise.reject(new Error('404')),
+      })
+      i18n.onLocaleChange(listener)
+
+      const error = await i18n.setLocale('it').catch((reason: unknown) => reason)
+
+      expect(error).toBeInstanceOf(I18nError)
+      expect(error).toMatchObject({ code: 'LOAD_FAILED', locale: 'it' })
+      expect(i18n.getLocale()).toBe('en')
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should notify listeners after switching', async () => {
+      const listener = vi.fn()
+      const i18n = new I18n({ defaultLocale: 'en', translations: { en: {}, ar: {} } })
+      i18n.onLocaleChange(listener)
+
+      await i18n.setLocale('ar')
+
+      expect(listener).toHaveBeenCalledWith('ar', 'en')
+      expect(i18n.getDirection()).toBe('rtl')
+    })
+  })
+
+  describe('formatting', () => {
+    it('should format relative times and check keys per locale', () => {
+      const i18n = new I18n({ defaultLocale: 'en', translations: { en: { a: 'A' }, fr: {} } })
+
+      expect(i18n.formatRelativeTime(-1, 'day')).toBe('1 day ago')
+      expect(i18n.has('a', 'fr')).toBe(false)
+      expect(i18n.has('a')).toBe(true)
+    })
+  })
+
+  describe('plurals', () => {
+    const i18n = new I18n({
+      defaultLocale: 'ru',
+      translations: {
+        ru: {
+          files: {
+            '=0': 'Нет файлов',
+            one: '{{count}} файл',
+            few: '{{count}} файла',
+            many: '{{count}} файлов',
+            other: '{{count}} файла',
+          },
+        },
+      },
+    })
+
+    it('should prefer exact matches, then the locale category', () => {
+      expect(i18n.tp('files', 0)).toBe('Нет файлов')
+      expect(i18n.tp('files', 21)).toBe('21 файл')
+      expect(i18n.tp('files', 23)).toBe('23 файла')
+      expect(i18n.tp('files', 11)).toBe('11 файлов')
+      expect(i18n.tp('files', 1.5)).toBe('1,5 файла')
+    })
+
+    it('should format numeric params for the locale', () => {
+      const thousand = new Intl.NumberFormat('ru').format(1000)
+
+      expect(thousand).not.toBe('1000')
+      expect(i18n.tp('files', 1000)).toBe(`${thousand} файлов`)
+    })
+  })
+})
+
+describe('I18nHelper.detectLocale', () => {
+  it('should match preferred locales by region, then language', () => {
+    expect(I18nHelper.detectLocale(['en', 'pt-BR', 'pt'], ['pt-PT', 'en'])).toBe('pt')
+    expect(I18nHelper.detectLocale(['en', 'pt_BR'], ['pt-br'])).toBe('pt_BR')
+    expect(I18nHelper.detectLocale(['en', 'de'], ['ja'])).toBe('en')
+  })
+})
+
+describe('getPluralForm', () => {
+  it.each([
+    ['pl', 22, 'few'],
+    ['pl', 25, 'many'],
+    ['cs', 3, 'few'],
+    ['cs', 1.5, 'many'],
+    ['fr', 0, 'one'],
+    ['fr', 2, 'other'],
+    ['lv', 10, 'zero'],
+    ['cy', 6, 'many'],
+    ['ja', 1, 'other'],
+    ['pt-BR', 0, 'one'],
+    ['xx', 1, 'one'],
+  ])('should select the %s category for %d', (locale, count, category) => {
+    expect(getPluralForm(count, locale)).toBe(category)
+  })
+
+  it('should list the categories of a locale', () => {
+    expect(getPluralCategories('ar')).toEqual(['zero', 'one', 'two', 'few', 'many', 'other'])
+    expect(getPluralCategories('zh-Hant')).toEqual(['other'])
+  })
+})
+
+describe('TranslationManager plurals', () => {
+  const manager = new TranslationManager()
+  const base = { files: { one: '{{count}} file', other: '{{count}} files' }, hi: 'Hi {{name}}' }
+
+  it('should generate plural templates with the categories of the locale', () => {
+    expect(manager.generateTemplate(['files'], 'ru', true)).toEqual({
+      files: { one: '', few: '', many: '', other: '' },
+    })
+  })
+
+  it('should compare plural messages as a whole and check placeholders', () => {
+    const report = manager.validateTranslations(base, {
+      ru: {
+        files: { one: '{{count}} файл', few: '{{count}} файла', many: '', other: '' },
+        hi: 'Привет',
+      },
+    })
+
+    expect(report.missing['ru']).toEqual([])
+    expect(report.placeholderMismatches['ru']).toEqual(['hi'])
+    expect(report.valid).toBe(false)
+  })
+})
@@ -675,7 +675,7 @@ async function initializeClient(client: ZeroDBMCPClient): Promise<void> {
   })
 
   setTimeout(() => {
-    const ws = (client as any).ws as MockWebSocket
+    const ws = (client as any).adapter.socket as MockWebSocket
     const messages = ws.getSentMessages()
     const initRequest = JSON.parse(messages[0]!) as MCPRequest
 
@@ -701,7 +701,7 @@ async function initializeClient(client: ZeroDBMCPClient): Promise<void> {
 }
 
 function respondToLastRequest(client: ZeroDBMCPClient, result: any): void {
-  const ws = (client as any).ws as MockWebSocket
+  const ws = (client as any).adapter.socket as MockWebSocket
   const messages = ws.getSentMessages()
   const lastRequest = JSON.parse(messages[messages.length - 1]!) as MCPRequest
 
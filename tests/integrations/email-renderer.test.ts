@@ -0,0 +1,307 @@
+/**
+ * Email Renderer Tests
+ * Tests for rendering email templates to HTML and plain text
+ * Issue #51
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { EmailTemplate, EmailBlock } from '../../src/types/email-builder-components.js'
+import { DEFAULT_EMAIL_THEME } from '../../src/types/email-builder-components.js'
+import {
+  renderEmailTemplate,
+  escapeHtml,
+  sanitizeUrl,
+  sanitizeEmailHtml,
+} from '../../src/integrations/email-renderer.js'
+
+const createTemplate = (blocks: EmailBlock[], overrides: Partial<EmailTemplate> = {}) => {
+  const template: EmailTemplate = {
+    id: 'template-1',
+    subject: 'Hello {{name}}',
+    blocks,
+    variables: [],
+    metadata: {
+      name: 'Test',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+    ...overrides,
+  }
+  return template
+}
+
+describe('Email Renderer', () => {
+  describe('escapeHtml', () => {
+    it('escapes markup and quotes', () => {
+      expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+        '&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;'
+      )
+    })
+  })
+
+  describe('sanitizeUrl', () => {
+    it('allows safe schemes and relative URLs', () => {
+      expect(sanitizeUrl('https://example.com')).toBe('https://example.com')
+      expect(sanitizeUrl('mailto:team@example.com')).toBe('mailto:team@example.com')
+      expect(sanitizeUrl('/account')).toBe('/account')
+    })
+
+    it('rejects script URLs, including disguised ones', () => {
+      expect(sanitizeUrl('javascript:alert(1)')).toBeUndefined()
+      expect(sanitizeUrl(' JaVa\tScript:alert(1)')).toBeUndefined()
+      expect(sanitizeUrl('data:text/html;base64,xyz')).toBeUndefined()
+    })
+
+    it('honors custom schemes', () => {
+      expect(sanitizeUrl('myapp://open', ['myapp'])).toBe('myapp://open')
+      expect(sanitizeUrl('https://example.com', ['myapp'])).toBeUndefined()
+    })
+  })
+
+  describe('sanitizeEmailHtml', () => {
+    it('removes scripts, event handlers and unsafe links', () => {
+      const html = sanitizeEmailHtml(
+        '<p onclick="steal()">Hi<script>alert(1)</script> <a href="javascript:alert(1)">x</a></p>'
+      )
+
+      expect(html).toBe('<p>Hi <a href="#">x</a></p>')
+    })
+
+    it('keeps only allowed tags and attributes', () => {
+      expect(sanitizeEmailHtml('<img/onerror=alert(1) src=x>')).toBe('<img src="x">')
+      expect(sanitizeEmailHtml('<div><details open ontoggle=alert(1)>x</details></div>')).toBe(
+        '<div>x</div>'
+      )
+      expect(sanitizeEmailHtml('<td style="background:url(javascript:x)" width=10>')).toBe(
+        '<td width="10">'
+      )
+      expect(sanitizeEmailHtml('<p>a</p><img src=x onerror=alert(1)')).toBe('<p>a</p><img src="x">')
+    })
+
+    it('does not build new tags out of removed ones', () => {
+      expect(sanitizeEmailHtml('<<x>img src=a onerror=alert(1)>')).toBe(
+        '&lt;img src=a onerror=alert(1)&gt;'
+      )
+      expect(sanitizeEmailHtml('<<x>script>alert(1)<</x>/script>')).toBe(
+        '&lt;script&gt;alert(1)&lt;/script&gt;'
+      )
+      expect(sanitizeEmailHtml('<scr<script>x</script>ipt>alert(1)</script>')).toBe(
+        '&lt;script&gt;alert(1)'
+      )
+    })
+
+    it('drops comments and unterminated dropped elements', () => {
+      expect(sanitizeEmailHtml('a<!-- <img src=x> -->b<script>alert(1)')).toBe('ab')
+    })
+  })
+
+  describe('renderEmailTemplate', () => {
+    it('returns the subject, HTML and plain text', () => {
+      const result = renderEmailTemplate(
+        createTemplate([{ type: 'text', id: 't', content: 'Hi {{name}}' }]),
+        { variables: { name: 'Ada' } }
+      )
+
+      expect(result.subject).toBe('Hello Ada')
+      expect(result.html).toContain('<title>Hello Ada</title>')
+      expect(result.html).toContain('Hi Ada')
+      expect(result.text).toBe('Hi Ada\n')
+    })
+
+    it('escapes block content and variable values', () => {
+      const { html } = renderEmailTemplate(
+        createTemplate([{ type: 'text', id: 't', content: '<b>{{name}}</b>' }]),
+        { variables: { name: '<img src=x onerror=alert(1)>' } }
+      )
+
+      expect(html).toContain('&lt;b&gt;&lt;img src=x onerror=alert(1)&gt;&lt;/b&gt;')
+      expect(html).not.toContain('<img src=x')
+    })
+
+    it('fills missing variables from template defaults', () => {
+      const template = createTemplate([{ type: 'text', id: 't', content: 'Hi {{name}}' }], {
+        variables: [{ id: 'name', name: 'Name', type: 'text', defaultValue: 'there' }],
+      })
+
+      expect(renderEmailTemplate(template).text).toBe('Hi there\n')
+    })
+
+    it('drops unsafe links and images', () => {
+      const { html } = renderEmailTemplate(
+        createTemplate([
+          { type: 'button', id: 'b', text: 'Go', href: 'javascript:alert(1)' },
+          { type: 'image', id: 'i', src: 'javascript:alert(1)', alt: 'x' },
+        ])
+      )
+
+      expect(html).not.toContain('javascript:')
+      expect(html).toContain('href="#"')
+      expect(html).not.toContain('<img')
+    })
+
+    it('percent-encodes variables inside URLs', () => {
+      const { html } = renderEmailTemplate(
+        createTemplate([
+          { type: 'button', id: 'b', text: 'Go', href: 'https://example.com/?q={{name}}' },
+        ]),
+        { variables: { name: 'a"b&c' } }
+      )
+
+      expect(html).toContain('href="https://example.com/?q=a%22b%26c"')
+    })
+
+    it('uses a table layout with inlined styles', () => {
+      const { html } = renderEmailTemplate(
+        createTemplate([{ type: 'heading', id: 'h', level: 2, content: 'Title' }])
+      )
+
+      expect(html).toContain('<table role="presentation"')
+      expect(html).toContain('<!--[if mso]>')
+      expect(html).toMatch(/<h2 class="a2ui-text" style="[^"]*font-size: 26px/)
+      expect(html).not.toMatch(/<div class="(container|content)"/)
+    })
+
+    it('renders every block type', () => {
+      const { html, text } = renderEmailTemplate(
+        createTemplate([
+          { type: 'text', id: 'text', content: 'Body' },
+          { type: 'heading', id: 'heading', level: 1, content: 'Heading' },
+          {
+            type: 'image',
+            id: 'image',
+            src: 'https://cdn.example.com/a.png',
+            alt: 'Logo',
+            width: 120,
+          },
+          { type: 'button', id: 'button', text: 'Buy', href: 'https://example.com/buy' },
+          { type: 'divider', id: 'divider' },
+          { type: 'spacer', id: 'spacer', height: 24 },
+          {
+            type: 'social',
+            id: 'social',
+            links: [{ platform: 'github', url: 'https://github.com/ainative' }],
+          },
+          {
+            type: 'video',
+            id: 'video',
+            src: 'https://video.example.com/1',
+            thumbnail: 'https://cdn.example.com/thumb.png',
+            alt: 'Demo',
+          },
+          { type: 'code', id: 'code', code: 'const a = 1 < 2', language: 'ts' },
+          { type: 'html', id: 'html', html: '<p>Raw <em>HTML</em></p>' },
+          {
+            type: 'columns',
+            id: 'columns',
+            columns: [
+              { id: 'c1', width: '50%', blocks: [{ type: 'text', id: 'l', content: 'Left' }] },
+              { id: 'c2', width: '50%', blocks: [{ type: 'text', id: 'r', content: 'Right' }] },
+            ],
+          },
+          {
+            type: 'footer',
+            id: 'footer',
+            content: 'Thanks',
+            companyName: 'AINative',
+            unsubscribeLink: 'https://example.com/unsubscribe',
+          },
+        ])
+      )
+
+      expect(html).toContain('<img src="https://cdn.example.com/a.png" alt="Logo" width="120"')
+      expect(html).toContain('class="a2ui-button"')
+      expect(html).toContain('class="a2ui-divider"')
+      expect(html).toContain('height="24"')
+      expect(html).toContain('<a href="https://github.com/ainative"')
+      expect(html).toContain(
+        '<a href="https://video.example.com/1" target="_blank"><img src="https://cdn.example.com/thumb.png"'
+      )
+      expect(html).toContain('<code class="language-ts">const a = 1 &lt; 2</code>')
+      expect(html).toContain('<p>Raw <em>HTML</em></p>')
+      expect(html).toContain('Left')
+      expect(html).toContain('Right')
+      expect(html).toContain('>Unsubscribe</a>')
+
+      expect(text).toContain('Heading\n=======')
+      expect(text).toContain('Buy: https://example.com/buy')
+      expect(text).toContain('GitHub: https://github.com/ainative')
+      expect(text).toContain('Demo: https://video.example.com/1')
+      expect(text).toContain('Raw HTML')
+      expect(text).toContain('Left\n\nRight')
+      expect(text).toContain('Unsubscribe: https://example.com/unsubscribe')
+    })
+
+    it('renders columns with fractional widths that stack on mobile', () => {
+      const { html } = renderEmailTemplate(
+        createTemplate([
+          {
+            type: 'columns',
+            id: 'columns',
+            columns: [
+              { id: 'a', width: '1/3', blocks: [] },
+              { id: 'b', width: '2/3', blocks: [] },
+            ],
+          },
+        ])
+      )
+
+      expect(html).toContain('class="a2ui-column a2ui-stack" width="33.33%"')
+      expect(html).toContain('width="66.67%"')
+      expect(html).toContain('.a2ui-stack { display: block !important;')
+    })
+
+    it('keeps columns side by side when stacking is off', () => {
+      const { html } = renderEmailTemplate(
+        createTemplate([
+          {
+            type: 'columns',
+            id: 'columns',
+            stackOnMobile: false,
+            columns: [{ id: 'a', width: '100%', blocks: [] }],
+          },
+        ])
+      )
+
+      expect(html).toContain('class="a2ui-column" width="100%"')
+    })
+
+    it('skips hidden blocks', () => {
+      const { html, text } = renderEmailTemplate(
+        createTemplate([{ type: 'text', id: 't', content: 'Secret', visible: false }])
+      )
+
+      expect(html).not.toContain('Secret')
+      expect(text).not.toContain('Secret')
+    })
+
+    it('strips style values that could break out of the declaration', () => {
+      const { html } = renderEmailTemplate(
+        createTemplate([
+          {
+            type: 'text',
+            id: 't',
+            content: 'Hi',
+            styles: { color: 'red;" onmouseover="alert(1)', custom: { background: 'url(x)' } },
+          },
+        ])
+      )
+
+      expect(html).not.toContain('onmouseover="')
+      expect(html).not.toContain('url(x)')
+    })
+
+    it('adds dark-mode styles when the theme mode is auto', () => {
+      const template = createTemplate([{ type: 'text', id: 't', content: 'Hi' }])
+
+      const auto = renderEmailTemplate(template, {
+        theme: { ...DEFAULT_EMAIL_THEME, mode: 'auto' },
+      }).html
+      const light = renderEmailTemplate(template).html
+
+      expect(auto).toContain('<meta name="color-scheme" content="light dark">')
+      expect(auto).toContain('@media (prefers-color-scheme: dark)')
+      expect(auto).toContain('[data-ogsc] .a2ui-text { color: #f9fafb !important; }')
+      expect(light).not.toContain('prefers-color-scheme')
+    })
+  })
+})
@@ -0,0 +1,311 @@
+/**
+ * Tests for Stripe webhook ingestion
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createHmac } from 'node:crypto'
+import {
+  StripeWebhookHandler,
+  StripeWebhookError,
+  verifyStripeSignature,
+  mapStripeEvent,
+} from '../../src/integrations/stripe-webhooks.js'
+import type { StripeEvent } from '../../src/integrations/stripe-webhooks.js'
+import { BillingHandler } from '../../src/handlers/billing-handler.js'
+import type { BillingService } from '../../src/handlers/billing-handler.js'
+
+const SECRET = 'whsec_test_secret'
+
+function sign(payload: string, timestamp = Math.floor(Date.now() / 1000), secret = SECRET): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex')
+  return `t=${timestamp},v1=${signature}`
+}
+
+function event(type: string, object: Record<string, unknown>, id = 'evt_1'): StripeEvent {
+  return { id, type, created: 1735689600, data: { object } }
+}
+
+const subscription = {
+  id: 'sub_1',
+  customer: 'cus_1',
+  status: 'past_due',
+  items: {
+    data: [
+      { id: 'si_1', price: { id: 'price_pro', nickname: 'Pro', recurring: { interval: 'year' } } },
+    ],
+  },
+  current_period_end: 1738368000,
+  cancel_at: null,
+}
+
+const invoice = {
+  id: 'in_1',
+  customer: 'cus_1',
+  number: 'INV-0001',
+  status: 'open',
+  amount_due: 2999,
+  amount_paid: 0,
+  currency: 'usd',
+  created: 1735689600,
+  due_date: null,
+  payment_intent: 'pi_1',
+}
+
+describe('verifyStripeSignature', () => {
+  const payload = JSON.stringify(event('invoice.paid', invoice))
+
+  it('should accept a valid signature', async () => {
+    await expect(verifyStripeSignature(payload, sign(payload), SECRET)).resolves.toBeUndefined()
+  })
+
+  it('should accept any matching v1 signature during secret rotation', async () => {
+    const header = `${sign(payload, undefined, 'whsec_old')},v1=${sign(payload).split('v1=')[1]}`
+
+    await expect(verifyStripeSignature(payload, header, SECRET)).resolves.toBeUndefined()
+  })
+
+  it('should reject a signature for another payload or secret', async () => {
+    await expect(verifyStripeSignature(`${payload} `, sign(payload), SECRET)).rejects.toMatchObject(
+      {
+        code: 'INVALID_SIGNATURE',
+      }
+    )
+    await expect(
+      verifyStripeSignature(payload, sign(payload, undefined, 'whsec_other'), SECRET)
+    ).rejects.toThrow(StripeWebhookError)
+  })
+
+  it('should reject timestamps outside the tolerance', async () => {
+    const timestamp = Math.floor(Date.now() / 1000) - 301
+
+    await expect(
+      verifyStripeSignature(payload, sign(payload, timestamp), SECRET)
+    ).rejects.toMatchObject({
+      code: 'TIMESTAMP_OUTSIDE_TOLERANCE',
+    })
+    await expect(
+      verifyStripeSignature(payload, sign(payload, timestamp), SECRET, { tolerance: 600 })
+    ).resolves.toBeUndefined()
+  })
+
+  it('should reject missing or malformed headers', async () => {
+    await expect(verifyStripeSignature(payload, undefined, SECRET)).rejects.toMatchObject({
+      code: 'MISSING_SIGNATURE',
+    })
+    await expect(verifyStripeSignature(payload, 't=123,v0=abc', SECRET)).rejects.toMatchObject({
+      code: 'MISSING_SIGNATURE',
+    })
+  })
+})
+
+describe('mapStripeEvent', () => {
+  it('should map subscription changes', () => {
+    const update = mapStripeEvent(event('customer.subscription.updated', subscription))
+
+    expect(update).toMatchObject({
+      topic: 'subscription',
+      customerId: 'cus_1',
+      message: {
+        type: 'subscriptionUpdated',
+        id: 'evt_1',
+        subscriptionId: 'sub_1',
+        status: 'past_due',
+        currentPlan: { id: 'price_pro', name: 'Pro', interval: 'year' },
+        nextBillingDate: new Date(1738368000 * 1000),
+      },
+      updates: [
+        {
+          path: '/subscription',
+          operation: 'set',
+          value: { id: 'sub_1', status: 'past_due', planId: 'price_pro', cancelAt: null },
+        },
+      ],
+    })
+  })
+
+  it('should map failed invoice payments', () => {
+    const update = mapStripeEvent(event('invoice.payment_failed', invoice))
+
+    expect(update?.message).toMatchObject({
+      type: 'paymentFailed',
+      paymentId: 'pi_1',
+      errorCode: 'invoice_payment_failed',
+    })
+    expect(update?.updates[0]).toMatchObject({
+      path: '/invoices/in_1',
+      value: { number: 'INV-0001', amount: 2999, status: 'open' },
+    })
+  })
+
+  it('should leave invoice payment intents to the invoice events', () => {
+    const intent = {
+      id: 'pi_1',
+      customer: 'cus_1',
+      amount: 2999,
+      currency: 'usd',
+      status: 'succeeded',
+    }
+
+    expect(
+      mapStripeEvent(event('payment_intent.succeeded', { ...intent, invoice: 'in_1' }))
+    ).toBeNull()
+    expect(mapStripeEvent(event('payment_intent.succeeded', intent))?.message).toMatchObject({
+      type: 'paymentSuccess',
+      paymentId: 'pi_1',
+      amount: 2999,
+    })
+  })
+
+  it('should warn about expiring cards and drop detached payment methods', () => {
+    const expiring = mapStripeEvent(
+      event('customer.source.expiring', {
+        id: 'card_1',
+        customer: 'cus_1',
+        brand: 'Visa',
+        last4: '4242',
+        exp_month: 3,
+        exp_year: 2026,
+      })
+    )
+    const detached = mapStripeEvent({
+      ...event('payment_method.detached', { id: 'pm_1', customer: null, type: 'card' }),
+      data: {
+        object: { id: 'pm_1', customer: null, type: 'card' },
+        previous_attributes: { customer: 'cus_1' },
+      },
+    })
+
+    expect(expiring?.message).toMatchObject({
+      type: 'paymentMethodError',
+      code: 'expiring_card',
+      methodId: 'card_1',
+      message: expect.stringContaining('03/2026'),
+    })
+    expect(detached).toEqual({
+      topic: 'paymentMethod',
+      customerId: 'cus_1',
+      updates: [{ path: '/paymentMethods/pm_1', operation: 'remove' }],
+    })
+  })
+
+  it('should ignore unrelated events', () => {
+    expect(mapStripeEvent(event('charge.dispute.created', { id: 'dp_1' }))).toBeNull()
+  })
+})
+
+describe('StripeWebhookHandler', () => {
+  let webhooks: StripeWebhookHandler
+  let billingHandler: BillingHandler
+  let messages: unknown[]
+
+  beforeEach(() => {
+    messages = []
+    webhooks = new StripeWebhookHandler({ signingSecret: SECRET })
+    billingHandler = new BillingHandler({
+      userId: 'user_1',
+      billingService: {} as BillingService,
+      onMessage: (message) => messages.push(message),
+    })
+    billingHandler.bindComponent({
+      componentId: 'plans',
+      componentType: 'subscriptionPlan',
+      surfaceId: 'billing',
+      dataPath: '/plans',
+    })
+  })
+
+  it('should verify, route and apply events to the customer billing handler', async () => {
+    webhooks.register('cus_1', billingHandler)
+    const payload = JSON.stringify(event('customer.subscription.updated', subscription))
+
+    const result = await webhooks.handleRequest(payload, sign(payload))
+
+    expect(result).toEqual({
+      eventId: 'evt_1',
+      type: 'customer.subscription.updated',
+      status: 'processed',
+    })
+    expect(messages).toEqual([
+      expect.objectContaining({
+        type: 'subscriptionUpdated',
+        componentId: 'plans',
+        status: 'past_due',
+      }),
+      {
+        type: 'updateDataModel',
+        surfaceId: 'billing',
+        updates: [expect.objectContaining({ path: '/plans/subscription', operation: 'set' })],
+      },
+    ])
+  })
+
+  it('should process each event id once', () => {
+    webhooks.register('cus_1', billingHandler)
+    const subscriptionEvent = event('customer.subscription.updated', subscription)
+
+    expect(webhooks.handleEvent(subscriptionEvent).status).toBe('processed')
+    expect(webhooks.handleEvent(subscriptionEvent).status).toBe('duplicate')
+    expect(messages).toHaveLength(2)
+  })
+
+  it('should process a retry after a handler failed', () => {
+    const failing = new BillingHandler({
+      userId: 'user_2',
+      billingService: {} as BillingService,
+      onMessage: () => undefined,
+    })
+    const failure = new Error('Cannot send message: not connected')
+    const apply = vi.spyOn(failing, 'applyStripeUpdate').mockImplementationOnce(() => {
+      throw failure
+    })
+    webhooks.register('cus_1', failing)
+    webhooks.register('cus_1', billingHandler)
+    const subscriptionEvent = event('customer.subscription.updated', subscription)
+
+    expect(() => webhooks.handleEvent(subscriptionEvent)).toThrow(failure)
+    expect(messages).toHaveLength(2)
+
+    expect(webhooks.handleEvent(subscriptionEvent).status).toBe('processed')
+    expect(apply).toHaveBeenCalledTimes(2)
+  })
+
+  it('should forget the oldest event ids past the limit', () => {
+    webhooks = new StripeWebhookHandler({ signingSecret: SECRET, maxRememberedEvents: 2 })
+    const apply = vi.spyOn(billingHandler, 'applyStripeUpdate')
+    webhooks.register('cus_1', billingHandler)
+
+    for (const id of ['evt_1', 'evt_2', 'evt_3', 'evt_1']) {
+      webhooks.handleEvent(event('customer.subscription.updated', subscription, id))
+    }
+
+    expect(apply).toHaveBeenCalledTimes(4)
+  })
+
+  it('should not reach other customers or unregistered handlers', () => {
+    const unregister = webhooks.register('cus_2', billingHandler)
+    webhooks.handleEvent(event('customer.subscription.updated', subscription))
+    unregister()
+    webhooks.register('cus_1', billingHandler)()
+    webhooks.handleEvent(event('customer.subscription.updated', subscription, 'evt_2'))
+
+    expect(messages).toEqual([])
+  })
+
+  it('should reject unverified requests before recording the event', async () => {
+    webhooks.register('cus_1', billingHandler)
+    const payload = JSON.stringify(event('customer.subscription.updated', subscription))
+
+    await expect(
+      webhooks.handleRequest(payload, sign(payload, undefined, 'whsec_x'))
+    ).rejects.toThrow(StripeWebhookError)
+    await expect(webhooks.handleRequest(payload, sign(payload))).resolves.toMatchObject({
+      status: 'processed',
+    })
+  })
+
+  it('should report unsupported events as ignored', () => {
+    expect(webhooks.handleEvent(event('charge.dispute.created', { id: 'dp_1' })).status).toBe(
+      'ignored'
+    )
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * Tests for Offline Conflict Resolver
+ * Operational transform merges against a common ancestor and CRDT merges
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConflictResolver } from '../../src/offline/conflict-resolver';
+import { CRDTDocument } from '../../src/crdt/crdt-document';
+import type { StorageItem } from '../../src/types/offline-types';
+
+function item(data: unknown, version: number, lastModified: number): StorageItem {
+  return {
+    key: 'doc',
+    data,
+    timestamp: lastModified,
+    version,
+    lastModified,
+    syncStatus: 'pending',
+  };
+}
+
+describe('ConflictResolver', () => {
+  const resolver = new ConflictResolver();
+
+  describe('Operational Transform', () => {
+    it('should merge concurrent text edits', async () => {
+      const { resolved, report } = await resolver.resolve({
+        strategy: 'operational-transform',
+        base: item('The quick fox', 1, 1000),
+        local: item('The quick brown fox', 2, 2000),
+        remote: item('The quick fox jumps', 3, 1500),
+      });
+
+      expect(resolved.data).toBe('The quick brown fox jumps');
+      expect(resolved.version).toBe(4);
+      expect(report.resolution).toBe('operational-transform');
+      expect(report.requiresManual).toBe(false);
+    });
+
+    it('should merge objects field by field', async () => {
+      const { resolved } = await resolver.resolve({
+        strategy: 'operational-transform',
+        base: item({ title: 'Draft', body: 'Hello', tags: ['a'], done: false }, 1, 1000),
+        local: item({ title: 'Final', body: 'Hello there', tags: ['a'], done: false }, 2, 2000),
+        remote: item({ title: 'Draft', body: 'Oh, Hello', tags: ['b'], done: true }, 2, 1500),
+      });
+
+      expect(resolved.data).toEqual({
+        title: 'Final',
+        body: 'Oh, Hello there',
+        tags: ['b'],
+        done: true,
+      });
+    });
+
+    it('should fall back to the newer value when both sides changed it', async () => {
+      const { resolved } = await resolver.resolve({
+        strategy: 'operational-transform',
+        base: item({ count: 1 }, 1, 1000),
+        local: item({ count: 2 }, 2, 1500),
+        remote: item({ count: 3 }, 2, 2000),
+      });
+
+      expect(resolved.data).toEqual({ count: 3 });
+    });
+
+    it('should use the newer copy without a common ancestor', async () => {
+      const { resolved } = await resolver.resolve({
+        strategy: 'operational-transform',
+        local: item('local', 2, 2000),
+        remote: item('remote', 2, 1000),
+      });
+
+      expect(resolved.data).toBe('local');
+    });
+  });
+
+  describe('CRDT', () => {
+    it('should merge two copies of a CRDT document', async () => {
+      const base = new CRDTDocument({ clientId: 'base' });
+      base.getText('body').insert(0, 'Hello');
+
+      const local = new CRDTDocument({ clientId: 'local' });
+      local.applyUpdate(base.encodeUpdate());
+      local.getText('body').insert(5, ' world');
+      local.getMap('meta').set('author', 'Ada');
+
+      const remote = new CRDTDocument({ clientId: 'remote' });
+      remote.applyUpdate(base.encodeUpdate());
+      remote.getText('body').insert(0, 'Oh, ');
+
+      const { resolved, report } = await resolver.resolve({
+        strategy: 'crdt',
+        local: item(local.encodeUpdate(), 2, 2000),
+        remote: item(remote.encodeUpdate(), 2, 1500),
+      });
+
+      const merged = new CRDTDocument();
+      merged.applyUpdate(resolved.data as ReturnType<CRDTDocument['encodeUpdate']>);
+
+      expect(merged.toJSON()).toEqual({ body: 'Oh, Hello world', meta: { author: 'Ada' } });
+      expect(resolved.version).toBe(3);
+      expect(report.resolution).toBe('crdt');
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for Offline Encryption
+ * AES-GCM at-rest encryption of storage, queue and cache
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { OfflineEncryption, OfflineEncryptionError } from '../../src/offline/encryption';
+import { OfflineStorage } from '../../src/offline/storage';
+import { OfflineQueue } from '../../src/offline/queue';
+import { OfflineCache } from '../../src/offline/cache';
+import { OfflineHandler } from '../../src/handlers/offline-handler';
+import type { StorageItem } from '../../src/types/offline-types';
+
+function generateKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+
+function rawItem(storage: OfflineStorage, key: string): StorageItem | undefined {
+  return storage['memoryStore'].get(key);
+}
+
+describe('OfflineEncryption', () => {
+  let key: CryptoKey;
+
+  beforeAll(async () => {
+    key = await generateKey();
+  });
+
+  it('should round-trip values with a fresh IV per write', async () => {
+    const encryption = await OfflineEncryption.create(key, 'salt');
+
+    const first = await encryption.encrypt({ token: 'secret' }, 'auth');
+    const second = await encryption.encrypt({ token: 'secret' }, 'auth');
+
+    expect(OfflineEncryption.isEncrypted(first)).toBe(true);
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ciphertext).not.toContain('secret');
+    expect(await encryption.decrypt(first, 'auth')).toEqual({ token: 'secret' });
+  });
+
+  it('should derive the same key from the same passphrase and salt', async () => {
+    const writer = await OfflineEncryption.create('correct horse', 'user-1');
+    const reader = await OfflineEncryption.create('correct horse', 'user-1');
+    const otherSalt = await OfflineEncryption.create('correct horse', 'user-2');
+
+    const payload = await writer.encrypt('draft', 'form');
+
+    expect(await reader.decrypt(payload, 'form')).toBe('draft');
+    await expect(otherSalt.decrypt(payload, 'form')).rejects.toThrow(OfflineEncryptionError);
+  });
+
+  it('should reject a wrong key or a payload moved to another key', async () => {
+    const encryption = await OfflineEncryption.create(key, 'salt');
+    const other = await OfflineEncryption.create(await generateKey(), 'salt');
+    const payload = await encryption.encrypt('value', 'a');
+
+    await expect(other.decrypt(payload, 'a')).rejects.toThrow(
+      'Failed to decrypt "a": wrong encryption key or corrupted data'
+    );
+    await expect(encryption.decrypt(payload, 'b')).rejects.toThrow(OfflineEncryptionError);
+  });
+
+  it('should reject keys for other algorithms', async () => {
+    const hmac = await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+
+    await expect(OfflineEncryption.create(hmac, 'salt')).rejects.toThrow('must be an AES-GCM key');
+  });
+});
+
+describe('OfflineStorage encryption', () => {
+  let key: CryptoKey;
+
+  beforeAll(async () => {
+    key = await generateKey();
+  });
+
+  it('should require a key when encryption is enabled', () => {
+    expect(() => new OfflineStorage({ backend: 'memory', encryption: true })).toThrow(OfflineEncryptionError);
+  });
+
+  it('should store data and metadata encrypted', async () => {
+    const storage = new OfflineStorage({ backend: 'memory', encryption: true, encryptionKey: key });
+
+    await storage.set('auth', { token: 'secret' }, { user: 'alice' });
+    await storage.updateSyncStatus('auth', 'synced');
+
+    const raw = rawItem(storage, 'auth');
+    expect(OfflineEncryption.isEncrypted(raw?.data)).toBe(true);
+    expect(raw?.metadata).toBeUndefined();
+    expect(JSON.stringify(raw)).not.toContain('secret');
+
+    const item = await storage.get('auth');
+    expect(item?.data).toEqual({ token: 'secret' });
+    expect(item?.metadata).toEqual({ user: 'alice' });
+    expect(item?.syncStatus).toBe('synced');
+    expect((await storage.getAll())[0]?.data).toEqual({ token: 'secret' });
+  });
+
+  it('should fail clearly when encrypted data is read without the right key', async () => {
+    const storage = new OfflineStorage({ backend: 'memory', encryption: true, encryptionKey: key });
+    await storage.set('auth', 'secret');
+    const raw = rawItem(storage, 'auth')!;
+
+    const wrongKey = new OfflineStorage({ backend: 'memory', encryption: true, encryptionKey: await generateKey() });
+    wrongKey['memoryStore'].set('auth', raw);
+    await expect(wrongKey.get('auth')).rejects.toThrow(OfflineEncryptionError);
+
+    const noKey = new OfflineStorage({ backend: 'memory' });
+    noKey['memoryStore'].set('auth', raw);
+    await expect(noKey.get('auth')).rejects.toThrow('no encryption key is configured');
+  });
+
+  it('should re-encrypt existing items when the key is rotated', async () => {
+    const storage = new OfflineStorage({ backend: 'memory' });
+    await storage.set('plain', 'before encryption');
+
+    const newKey = await generateKey();
+    expect(await storage.rotateKey(key)).toBe(1);
+    await storage.set('draft', { text: 'hello' });
+    expect(await storage.rotateKey(newKey)).toBe(2);
+
+    const before = rawItem(storage, 'draft')!;
+    expect(OfflineEncryption.isEncrypted(rawItem(storage, 'plain')?.data)).toBe(true);
+    expect((await storage.get('plain'))?.data).toBe('before encryption');
+    expect((await storage.get('draft'))?.data).toEqual({ text: 'hello' });
+
+    const oldKey = await OfflineEncryption.create(key, 'unused');
+    await expect(oldKey.decrypt(before.data as never, 'draft')).rejects.toThrow(OfflineEncryptionError);
+  });
+});
+
+describe('OfflineQueue encryption', () => {
+  it('should encrypt persisted operation payloads', async () => {
+    const key = await generateKey();
+    const queue = new OfflineQueue({ maxSize: 10, retryStrategy: 'none', encryption: true, encryptionKey: key });
+
+    const id = await queue.add({ type: 'create', data: { card: '4242' }, maxRetries: 3 });
+
+    const raw = rawItem(queue['storage']!, `queue:${id}`);
+    expect(JSON.stringify(raw)).not.toContain('4242');
+    expect((await queue.get(id))?.data).toEqual({ card: '4242' });
+
+    expect(await queue.rotateKey(await generateKey())).toBe(1);
+    expect((await queue['storage']!.get(`queue:${id}`))?.data).toMatchObject({ data: { card: '4242' } });
+  });
+});
+
+describe('OfflineCache encryption', () => {
+  it('should encrypt cached entries', async () => {
+    const cache = new OfflineCache<{ token: string }>({
+      strategy: 'cache-first',
+      encryption: true,
+      encryptionKey: await generateKey(),
+    });
+
+    await cache.set('session', { token: 'secret' });
+
+    expect(JSON.stringify(Array.from(cache['cache'].values()))).not.toContain('secret');
+    expect(await cache.get('session')).toEqual({ token: 'secret' });
+
+    expect(await cache.rotateKey(await generateKey())).toBe(1);
+    expect((await cache.getWithMetadata('session'))?.data).toEqual({ token: 'secret' });
+  });
+});
+
+describe('OfflineHandler encryption', () => {
+  it('should apply the storage key to the queue and cache', async () => {
+    const handler = new OfflineHandler({
+      storage: { backend: 'memory', encryption: true, encryptionKey: await generateKey() },
+      sync: { autoSync: false },
+    });
+
+    await handler.store('draft', { text: 'hello' });
+    await handler.cacheValue('session', 'secret');
+    await handler.rotateEncryptionKey(await generateKey());
+
+    expect(await handler.retrieve('draft')).toEqual({ text: 'hello' });
+    expect(await handler.getCached('session')).toBe('secret');
+    expect(handler['queue'].getConfig().encryption).toBe(true);
+    await handler.close();
+  });
+});
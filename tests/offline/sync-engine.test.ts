@@ -0,0 +1,334 @@
+/**
+ * Tests for Sync Engine
+ * Delivery to a sync remote, retries and conflict detection
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OfflineStorage } from '../../src/offline/storage';
+import { OfflineQueue } from '../../src/offline/queue';
+import { ConflictResolver } from '../../src/offline/conflict-resolver';
+import { SyncEngine } from '../../src/offline/sync-engine';
+import { HttpSyncRemote } from '../../src/offline/http-remote';
+import { TransportSyncRemote } from '../../src/offline/transport-remote';
+import type { A2UITransport } from '../../src/transport/transport';
+import type {
+  QueuedOperation,
+  RemotePushResult,
+  StorageItem,
+  SyncRemote,
+  SyncRequestMessage
+} from '../../src/types/offline-types';
+
+function createRemote(overrides: Partial<SyncRemote> = {}): SyncRemote {
+  return {
+    push: vi.fn(async (operation: QueuedOperation): Promise<RemotePushResult> => ({
+      operationId: operation.id,
+      success: true,
+    })),
+    fetch: vi.fn(async (): Promise<StorageItem | null> => null),
+    ...overrides,
+  };
+}
+
+describe('SyncEngine', () => {
+  let storage: OfflineStorage;
+  let queue: OfflineQueue;
+  let engine: SyncEngine;
+
+  beforeEach(async () => {
+    storage = new OfflineStorage({ backend: 'memory' });
+    queue = new OfflineQueue({ maxSize: 100, retryStrategy: 'exponential', persistent: false });
+
+    await storage.initialize();
+    await queue.initialize();
+  });
+
+  afterEach(async () => {
+    await engine?.close();
+    await storage.clear();
+    await queue.clear();
+    await storage.close();
+    await queue.close();
+  });
+
+  function createEngine(remote?: SyncRemote, config = {}): SyncEngine {
+    engine = new SyncEngine({ autoSync: false, ...config }, queue, storage, new ConflictResolver(), remote);
+    return engine;
+  }
+
+  describe('Delivery', () => {
+    it('should refuse to sync without a remote', async () => {
+      createEngine();
+
+      await expect(engine.sync()).rejects.toThrow('Cannot sync without a remote');
+    });
+
+    it('should push operations and mark them synced', async () => {
+      const remote = createRemote();
+      createEngine(remote);
+
+      await storage.set('todo-1', { title: 'Write tests' });
+      const id = await queue.add({
+        type: 'create',
+        data: { title: 'Write tests' },
+        maxRetries: 3,
+        metadata: { key: 'todo-1' },
+      });
+
+      const result = await engine.sync();
+
+      expect(result.synced).toBe(1);
+      expect(result.failed).toBe(0);
+      expect(remote.push).toHaveBeenCalledWith(expect.objectContaining({ id }));
+      expect((await queue.get(id))?.status).toBe('synced');
+      expect((await storage.get('todo-1'))?.syncStatus).toBe('synced');
+    });
+
+    it('should use batch pushes when the remote supports them', async () => {
+      const pushBatch = vi.fn(async (operations: QueuedOperation[]) =>
+        operations.map(operation => ({ operationId: operation.id, success: true }))
+      );
+      const remote = createRemote({ pushBatch });
+      createEngine(remote, { batchSize: 2 });
+
+      for (let i = 0; i < 3; i++) {
+        await queue.add({ type: 'create', data: { i }, maxRetries: 3 });
+      }
+
+      const result = await engine.sync();
+
+      expect(result.synced).toBe(3);
+      expect(pushBatch).toHaveBeenCalledTimes(2);
+      expect(remote.push).not.toHaveBeenCalled();
+    });
+
+    it('should schedule a retry when a push fails', async () => {
+      const remote = createRemote({
+        push: vi.fn(async (operation: QueuedOperation) => ({
+          operationId: operation.id,
+          success: false,
+          error: 'Service unavailable',
+          retryable: true,
+        })),
+      });
+      createEngine(remote);
+
+      const id = await queue.add({ type: 'update', data: {}, maxRetries: 3 });
+      const result = await engine.sync();
+
+      const operation = await queue.get(id);
+      expect(result.failed).toBe(1);
+      expect(result.errors).toEqual([{ operationId: id, error: 'Service unavailable' }]);
+      expect(operation?.status).toBe('pending');
+      expect(operation?.retries).toBe(1);
+      expect(operation?.error).toBe('Service unavailable');
+    });
+
+    it('should retry when the remote throws', async () => {
+      const remote = createRemote({
+        push: vi.fn(async () => {
+          throw new Error('Network down');
+        }),
+      });
+      createEngine(remote);
+
+      const id = await queue.add({ type: 'update', data: {}, maxRetries: 3 });
+      const result = await engine.sync();
+
+      expect(result.errors?.[0]?.error).toBe('Network down');
+      expect((await queue.get(id))?.retries).toBe(1);
+    });
+
+    it('should not retry permanent rejections', async () => {
+      const remote = createRemote({
+        push: vi.fn(async (operation: QueuedOperation) => ({
+          operationId: operation.id,
+          success: false,
+          error: 'Invalid payload',
+          retryable: false,
+        })),
+      });
+      createEngine(remote);
+
+      const id = await queue.add({ type: 'update', data: {}, maxRetries: 3 });
+      await engine.sync();
+
+      const operation = await queue.get(id);
+      expect(operation?.status).toBe('failed');
+      expect(operation?.retries).toBe(0);
+    });
+  });
+
+  describe('Conflicts', () => {
+    async function queueEdit(): Promise<string> {
+      await storage.set('doc', { text: 'local' });
+      return queue.add({
+        type: 'update',
+        data: { text: 'local' },
+        maxRetries: 3,
+        metadata: { key: 'doc' },
+      });
+    }
+
+    function remoteCopy(offset: number): StorageItem {
+      return {
+        key: 'doc',
+        data: { text: 'remote' },
+        timestamp: Date.now(),
+        version: 5,
+        lastModified: Date.now() + offset,
+        syncStatus: 'synced',
+      };
+    }
+
+    it('should keep the remote version when it is newer', async () => {
+      const remote = createRemote({ fetch: vi.fn(async () => remoteCopy(500)) });
+      createEngine(remote);
+      const conflicts = vi.fn();
+      engine.onSync(event => {
+        if (event.type === 'conflict-detected') conflicts(event.conflict);
+      });
+
+      const id = await queueEdit();
+      const result = await engine.sync();
+
+      expect(remote.fetch).toHaveBeenCalledWith('doc');
+      expect(result.conflicts).toBe(1);
+      expect(result.synced).toBe(1);
+      expect(remote.push).not.toHaveBeenCalled();
+      expect(conflicts).toHaveBeenCalledTimes(1);
+      expect((await storage.get('doc'))?.data).toEqual({ text: 'remote' });
+      expect((await queue.get(id))?.status).toBe('synced');
+    });
+
+    it('should push the local version when it is newer', async () => {
+      const remote = createRemote({ fetch: vi.fn(async () => remoteCopy(-500)) });
+      createEngine(remote);
+
+      await queueEdit();
+      const result = await engine.sync();
+
+      expect(result.conflicts).toBe(1);
+      expect(remote.push).toHaveBeenCalledWith(expect.objectContaining({ data: { text: 'local' } }));
+    });
+
+    it('should hold manual conflicts for review', async () => {
+      const remote = createRemote({ fetch: vi.fn(async () => remoteCopy(0)) });
+      createEngine(remote, { conflictStrategy: 'manual' });
+
+      const id = await queueEdit();
+      const result = await engine.sync();
+
+      expect(result.conflictReports[0]?.requiresManual).toBe(true);
+      expect(remote.push).not.toHaveBeenCalled();
+      expect((await queue.get(id))?.status).toBe('conflict');
+      expect((await storage.get('doc'))?.syncStatus).toBe('conflict');
+    });
+  });
+});
+
+describe('HttpSyncRemote', () => {
+  const operation = {
+    id: 'op_1',
+    type: 'create',
+    data: {},
+    timestamp: 0,
+    retries: 0,
+    maxRetries: 3,
+    status: 'pending',
+  } as QueuedOperation;
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post operations with the configured headers', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ success: true })));
+    vi.stubGlobal('fetch', fetchMock);
+    const remote = new HttpSyncRemote({ baseUrl: 'https://api.test/sync/', headers: { Authorization: 'Bearer t' } });
+
+    const result = await remote.push(operation);
+
+    expect(result).toEqual({ operationId: 'op_1', success: true });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.test/sync/operations',
+      expect.objectContaining({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer t' },
+      })
+    );
+  });
+
+  it('should treat server errors as retryable and client errors as permanent', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+    const remote = new HttpSyncRemote({ baseUrl: 'https://api.test' });
+    expect(await remote.push(operation)).toEqual({
+      operationId: 'op_1',
+      success: false,
+      error: 'HTTP 503',
+      retryable: true,
+    });
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ error: 'Bad data' }), { status: 422 })));
+    expect(await remote.pushBatch([operation])).toEqual([
+      { operationId: 'op_1', success: false, error: 'Bad data', retryable: false },
+    ]);
+  });
+
+  it('should return null for missing items', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })));
+    const remote = new HttpSyncRemote({ baseUrl: 'https://api.test' });
+
+    expect(await remote.fetch('doc')).toBeNull();
+  });
+});
+
+describe('TransportSyncRemote', () => {
+  function createTransport() {
+    const handlers = new Map<string, (message: unknown) => void>();
+    const sent: SyncRequestMessage[] = [];
+    const transport = {
+      on: vi.fn((type: string, handler: (message: unknown) => void) => handlers.set(type, handler)),
+      off: vi.fn((type: string) => handlers.delete(type)),
+      send: vi.fn((message: SyncRequestMessage) => sent.push(message)),
+    };
+    const respond = (message: unknown) => handlers.get('syncResponse')?.(message);
+    return { transport: transport as unknown as A2UITransport, sent, respond, handlers };
+  }
+
+  it('should match responses to requests', async () => {
+    const { transport, sent, respond } = createTransport();
+    const remote = new TransportSyncRemote(transport);
+
+    const pending = remote.fetch('doc');
+    const request = sent[0]!;
+    expect(request).toMatchObject({ type: 'syncFetch', key: 'doc' });
+
+    respond({ type: 'syncResponse', requestId: 'other', item: null });
+    respond({ type: 'syncResponse', requestId: request.requestId, item: { key: 'doc' } });
+
+    expect(await pending).toEqual({ key: 'doc' });
+    remote.dispose();
+  });
+
+  it('should reject on error responses and timeouts', async () => {
+    const { transport, sent, respond } = createTransport();
+    const remote = new TransportSyncRemote(transport, { timeout: 20 });
+
+    const failing = remote.pushBatch([]);
+    respond({ type: 'syncResponse', requestId: sent[0]!.requestId, error: 'Forbidden' });
+    await expect(failing).rejects.toThrow('Forbidden');
+
+    await expect(remote.fetch('doc')).rejects.toThrow('Sync request timeout after 20ms');
+    remote.dispose();
+  });
+
+  it('should stop listening when disposed', () => {
+    const { transport, handlers } = createTransport();
+    const remote = new TransportSyncRemote(transport);
+
+    remote.dispose();
+
+    expect(handlers.has('syncResponse')).toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Structured Output Validator Tests
+ *
+ * Tests parsing, recovery and catalog validation of generated UI
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { StructuredOutputValidator } from '../../src/parser/structured-output.js'
+import { ComponentRegistry } from '../../src/registry/registry.js'
+
+const surface = (components: unknown[]) => ({
+  type: 'createSurface',
+  surfaceId: 'main',
+  components
+})
+
+describe('StructuredOutputValidator', () => {
+  let validator: StructuredOutputValidator
+
+  beforeEach(() => {
+    validator = new StructuredOutputValidator(ComponentRegistry.standard())
+  })
+
+  describe('Parsing', () => {
+    it('should accept a single valid message', () => {
+      const output = JSON.stringify(
+        surface([{ id: 'title', type: 'text', properties: { text: 'Hello' } }])
+      )
+
+      const result = validator.validate(output)
+
+      expect(result.valid).toBe(true)
+      expect(result.errors).toEqual([])
+      expect(result.recovered).toBe(false)
+      expect(result.messages).toHaveLength(1)
+      expect(result.messages[0].type).toBe('createSurface')
+    })
+
+    it('should accept arrays and consecutive messages', () => {
+      const create = JSON.stringify(surface([{ id: 'a', type: 'text' }]))
+      const remove = JSON.stringify({ type: 'deleteSurface', surfaceId: 'main' })
+
+      expect(validator.validate(`[${create},${remove}]`).messages).toHaveLength(2)
+      expect(validator.validate(`${create}\n${remove}`).messages).toHaveLength(2)
+    })
+
+    it('should unwrap a messages envelope', () => {
+      const output = JSON.stringify({ messages: [surface([{ id: 'a', type: 'text' }])] })
+
+      const result = validator.validate(output)
+
+      expect(result.valid).toBe(true)
+      expect(result.messages[0].type).toBe('createSurface')
+    })
+
+    it('should ignore text around the JSON', () => {
+      const output = '```json\n' + JSON.stringify(surface([{ id: 'a', type: 'text' }])) + '\n```'
+
+      expect(validator.validate(output).valid).toBe(true)
+    })
+
+    it('should recover truncated output', () => {
+      const output = '{"type":"createSurface","surfaceId":"main","components":[{"id":"a","type":"text"}'
+
+      const result = validator.validate(output)
+
+      expect(result.valid).toBe(true)
+      expect(result.recovered).toBe(true)
+      expect(result.messages[0].components).toHaveLength(1)
+    })
+
+    it('should report output without JSON', () => {
+      const result = validator.validate('Sorry, I cannot help with that.')
+
+      expect(result.valid).toBe(false)
+      expect(result.errors[0].path).toBe('output')
+    })
+  })
+
+  describe('Message validation', () => {
+    it('should reject unsupported message types', () => {
+      const result = validator.validate(JSON.stringify({ type: 'userAction', surfaceId: 'main' }))
+
+      expect(result.errors[0].path).toBe('messages[0].type')
+      expect(result.errors[0].message).toContain('createSurface')
+    })
+
+    it('should require a surfaceId', () => {
+      const result = validator.validate(JSON.stringify({ type: 'createSurface', components: [] }))
+
+      expect(result.errors).toEqual([
+        { path: 'messages[0].surfaceId', message: 'surfaceId must be a non-empty string' }
+      ])
+    })
+
+    it('should validate component updates', () => {
+      const output = JSON.stringify({
+        type: 'updateComponents',
+        surfaceId: 'main',
+        updates: [
+          { id: 'a', operation: 'replace', component: { id: 'a', type: 'text' } },
+          { id: 'b', operation: 'remove' }
+        ]
+      })
+
+      const result = validator.validate(output)
+
+      expect(result.errors).toEqual([
+        {
+          path: 'messages[0].updates[0].operation',
+          message: 'operation must be one of: add, update, remove'
+        }
+      ])
+    })
+  })
+
+  describe('Component validation', () => {
+    it('should reject component types missing from the catalog', () => {
+      const result = validator.validate(JSON.stringify(surface([{ id: 'a', type: 'carousel' }])))
+
+      expect(result.valid).toBe(false)
+      expect(result.errors[0].path).toBe('messages[0].components[0].type')
+      expect(result.errors[0].message).toContain("Unknown component type \"carousel\"")
+      expect(result.errors[0].message).toContain('button')
+    })
+
+    it('should report duplicate ids and dangling children', () => {
+      const result = validator.validate(
+        JSON.stringify(
+          surface([
+            { id: 'root', type: 'column', children: ['a', 'missing'] },
+            { id: 'a', type: 'text' },
+            { id: 'a', type: 'text' }
+          ])
+        )
+      )
+
+      expect(result.errors).toEqual([
+        { path: 'messages[0].components[2].id', message: "Duplicate component id 'a'" },
+        {
+          path: 'messages[0].components[0].children',
+          message: "Child 'missing' does not match any component id"
+        }
+      ])
+    })
+
+    it('should apply built-in property schemas', () => {
+      const result = validator.validate(
+        JSON.stringify(surface([{ id: 'rec', type: 'videoRecorder', properties: { mode: 'vhs' } }]))
+      )
+
+      expect(result.valid).toBe(false)
+      expect(result.errors[0].path).toBe('messages[0].components[0].properties.mode')
+    })
+
+    it('should apply standard component schemas', () => {
+      const result = validator.validate(
+        JSON.stringify(
+          surface([
+            {
+              id: 'tabs',
+              type: 'tabs',
+              properties: { tabs: [{ id: 'a', label: 'A' }, { label: 'B' }] }
+            },
+            { id: 'slider', type: 'slider', properties: { value: { $bind: '/volume' } } }
+          ])
+        )
+      )
+
+      expect(result.errors).toEqual([
+        {
+          path: 'messages[0].components[0].properties.tabs[1].id',
+          message: 'Required property "id" is missing'
+        }
+      ])
+    })
+
+    it('should apply schemas from registry definitions', () => {
+      const registry = new ComponentRegistry()
+      registry.register('rating', {
+        type: 'rating',
+        schema: {
+          type: 'object',
+          properties: {
+            value: { type: 'integer' },
+            size: { type: 'string', enum: ['sm', 'lg'] }
+          },
+          required: ['value'],
+          additionalProperties: false
+        }
+      })
+      validator = new StructuredOutputValidator(registry)
+
+      const result = validator.validate(
+        JSON.stringify(
+          surface([{ id: 'r', type: 'rating', properties: { size: 'xl', color: 'red' } }])
+        )
+      )
+
+      expect(result.errors).toEqual([
+        {
+          path: 'messages[0].components[0].properties.value',
+          message: 'Required property "value" is missing'
+        },
+        {
+          path: 'messages[0].components[0].properties.size',
+          message: 'Expected one of: "sm", "lg"'
+        },
+        {
+          path: 'messages[0].components[0].properties.color',
+          message: 'Unknown property "color"'
+        }
+      ])
+    })
+  })
+})
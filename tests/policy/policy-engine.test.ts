@@ -0,0 +1,362 @@
+/**
+ * Policy Engine Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { PolicyEngine, PolicyError, PolicyAuditLog } from '../../src/policy/index.js'
+import type { PolicySubject } from '../../src/policy/index.js'
+import { HumanInTheLoopHandler } from '../../src/handlers/human-in-the-loop-handler.js'
+import { A2UITransport, createMemoryTransportPair } from '../../src/transport/index.js'
+import type { AgentInterruptMessage } from '../../src/types/interrupt-messages.js'
+
+const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0))
+
+const deleteRows = {
+  type: 'zerodbTableDelete',
+  surfaceId: 'admin',
+  tableName: 'users',
+  filters: { id: 7 },
+} as any
+
+const viewer: PolicySubject = {
+  user: { id: 'u-1', roles: ['viewer'] },
+  tenant: { id: 'acme', plan: 'free' },
+}
+
+const admin: PolicySubject = {
+  user: { id: 'u-2', roles: ['admin'] },
+  tenant: { id: 'globex', plan: 'enterprise' },
+}
+
+describe('PolicyEngine', () => {
+  describe('Evaluation', () => {
+    it('applies the default effect when no rule matches', () => {
+      const engine = new PolicyEngine({ subject: viewer })
+
+      expect(engine.evaluate(deleteRows)).toEqual({
+        effect: 'allow',
+        reason: 'No policy rule matched',
+      })
+      expect(new PolicyEngine({ defaultEffect: 'deny' }).evaluate(deleteRows).effect).toBe('deny')
+    })
+
+    it('matches rules by message type and CEL condition', () => {
+      const engine = new PolicyEngine({
+        rules: [
+          {
+            id: 'viewers-read-only',
+            description: 'Viewers cannot change data',
+            messageTypes: ['zerodbTableDelete', 'zerodbPostgresQuery'],
+            condition: "'viewer' in user.roles",
+            effect: 'deny',
+          },
+        ],
+      })
+
+      expect(engine.evaluate(deleteRows, viewer)).toEqual({
+        effect: 'deny',
+        ruleId: 'viewers-read-only',
+        reason: 'Viewers cannot change data',
+        approvalPrompt: undefined,
+      })
+      expect(engine.evaluate(deleteRows, admin).effect).toBe('allow')
+      expect(
+        engine.evaluate({ type: 'zerodbTableQuery', surfaceId: 'admin' } as any, viewer).effect
+      ).toBe('allow')
+    })
+
+    it('exposes payload, surface and tenant to conditions', () => {
+      const engine = new PolicyEngine({
+        subject: viewer,
+        describeSurface: (surfaceId) => ({ tenantId: surfaceId === 'admin' ? 'globex' : 'acme' }),
+        rules: [
+          {
+            id: 'foreign-surface',
+            condition: 'has(surface.tenantId) && surface.tenantId != tenant.id',
+            effect: 'deny',
+          },
+          {
+            id: 'users-table',
+            condition: "messageType == 'zerodbTableDelete' && payload.tableName == 'users'",
+            effect: 'require_approval',
+          },
+        ],
+      })
+
+      expect(engine.evaluate(deleteRows).ruleId).toBe('foreign-surface')
+      expect(engine.evaluate({ ...deleteRows, surfaceId: 'home' }).ruleId).toBe('users-table')
+    })
+
+    it('lets the strictest matching effect win', () => {
+      const engine = new PolicyEngine({
+        subject: admin,
+        rules: [
+          { id: 'allow-admins', condition: "'admin' in user.roles", effect: 'allow' },
+          {
+            id: 'confirm-deletes',
+            messageTypes: ['zerodbTableDelete'],
+            effect: 'require_approval',
+          },
+        ],
+      })
+
+      expect(engine.evaluate(deleteRows)).toMatchObject({
+        effect: 'require_approval',
+        ruleId: 'confirm-deletes',
+      })
+
+      engine.addRule({ id: 'frozen', effect: 'deny' })
+      expect(engine.evaluate(deleteRows).ruleId).toBe('frozen')
+    })
+
+    it('applies tenant rules only to that tenant', () => {
+      const engine = new PolicyEngine({
+        tenantRules: {
+          acme: [{ id: 'acme-no-deletes', messageTypes: ['zerodbTableDelete'], effect: 'deny' }],
+        },
+      })
+
+      expect(engine.evaluate(deleteRows, viewer).effect).toBe('deny')
+      expect(engine.evaluate(deleteRows, admin).effect).toBe('allow')
+      expect(engine.getRules('acme')).toHaveLength(1)
+      expect(engine.getRules()).toHaveLength(0)
+    })
+
+    it('denies when a condition fails to evaluate', () => {
+      const engine = new PolicyEngine({
+        subject: viewer,
+        rules: [{ id: 'large-insert', condition: 'payload.rows.size() > 100', effect: 'deny' }],
+      })
+
+      const decision = engine.evaluate(deleteRows)
+      expect(decision.effect).toBe('deny')
+      expect(decision.ruleId).toBe('large-insert')
+      expect(decision.reason).toContain('could not be evaluated')
+    })
+  })
+
+  describe('Rules', () => {
+    it('rejects invalid conditions and duplicate ids', () => {
+      const engine = new PolicyEngine({ rules: [{ id: 'a', effect: 'allow' }] })
+
+      expect(() => engine.addRule({ id: 'b', condition: 'user.roles ==', effect: 'deny' })).toThrow(
+        expect.objectContaining({ code: 'INVALID_RULE', ruleId: 'b' })
+      )
+      expect(() => engine.addRule({ id: 'a', effect: 'deny' })).toThrow(PolicyError)
+      expect(() => engine.addRule({ id: 'a', effect: 'deny' }, 'acme')).not.toThrow()
+    })
+
+    it('keeps the previous rules when a replacement is invalid', () => {
+      const engine = new PolicyEngine({ rules: [{ id: 'a', effect: 'deny' }] })
+
+      expect(() =>
+        engine.setRules([
+          { id: 'b', effect: 'allow' },
+          { id: 'c', condition: '((', effect: 'allow' },
+        ])
+      ).toThrow(PolicyError)
+      expect(engine.getRules().map((rule) => rule.id)).toEqual(['a'])
+
+      engine.setRules([{ id: 'b', effect: 'allow' }])
+      expect(engine.getRules().map((rule) => rule.id)).toEqual(['b'])
+      expect(engine.removeRule('b')).toBe(true)
+      expect(engine.removeRule('b')).toBe(false)
+    })
+  })
+
+  describe('Authorization', () => {
+    let approvals: HumanInTheLoopHandler
+
+    beforeEach(() => {
+      approvals = new HumanInTheLoopHandler()
+    })
+
+    afterEach(() => {
+      approvals.destroy()
+    })
+
+    it('records allowed and denied messages in the audit log', () => {
+      const engine = new PolicyEngine({
+        subject: (message) => ((message as any).surfaceId === 'admin' ? admin : viewer),
+        rules: [{ id: 'viewers', condition: "'viewer' in user.roles", effect: 'deny' }],
+      })
+
+      expect(engine.authorize(deleteRows)).toBe(true)
+      expect(engine.authorize({ ...deleteRows, surfaceId: 'home' })).toBe(false)
+
+      expect(engine.auditLog.entries()).toEqual([
+        expect.objectContaining({
+          messageType: 'zerodbTableDelete',
+          surfaceId: 'admin',
+          userId: 'u-2',
+          tenantId: 'globex',
+          effect: 'allow',
+          outcome: 'allowed',
+        }),
+        expect.objectContaining({
+          surfaceId: 'home',
+          userId: 'u-1',
+          tenantId: 'acme',
+          effect: 'deny',
+          outcome: 'denied',
+          ruleId: 'viewers',
+        }),
+      ])
+    })
+
+    it('asks for confirmation and dispatches once approved', async () => {
+      const engine = new PolicyEngine({
+        subject: admin,
+        approvals,
+        rules: [
+          {
+            id: 'confirm-cancel',
+            messageTypes: ['subscriptionCancel'],
+            effect: 'require_approval',
+            approvalPrompt: 'Cancel the subscription?',
+          },
+        ],
+      })
+      approvals.on('interrupt-added', (interrupt) => {
+        const { interruptId } = interrupt as AgentInterruptMessage
+        void approvals.handleResponse({ type: 'interruptResponse', interruptId, response: true })
+      })
+      const added = vi.fn()
+      approvals.on('interrupt-added', added)
+
+      const allowed = await engine.authorize({
+        type: 'subscriptionCancel',
+        subscriptionId: 'sub_1',
+      } as any)
+
+      expect(allowed).toBe(true)
+      expect(added).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'agentInterrupt',
+          reason: 'confirmation',
+          prompt: 'Cancel the subscription?',
+          metadata: expect.objectContaining({
+            policyRuleId: 'confirm-cancel',
+            messageType: 'subscriptionCancel',
+            tenantId: 'globex',
+          }),
+        })
+      )
+      expect(engine.auditLog.entries()[0]).toMatchObject({
+        effect: 'require_approval',
+        outcome: 'approved',
+        interruptId: (added.mock.calls[0]![0] as AgentInterruptMessage).interruptId,
+      })
+    })
+
+    it('blocks the message when confirmation is declined or times out', async () => {
+      vi.useFakeTimers()
+      const engine = new PolicyEngine({
+        subject: admin,
+        approvals,
+        approvalTimeout: 1000,
+        rules: [{ id: 'confirm', effect: 'require_approval' }],
+      })
+
+      const pending = engine.authorize(deleteRows)
+      await vi.advanceTimersByTimeAsync(1000)
+
+      await expect(pending).resolves.toBe(false)
+      expect(engine.auditLog.entries({ outcome: 'rejected' })[0]?.reason).toBe('Approval timed out')
+      vi.useRealTimers()
+    })
+
+    it('denies messages that need approval when no approval handler is configured', () => {
+      const engine = new PolicyEngine({ rules: [{ id: 'confirm', effect: 'require_approval' }] })
+
+      expect(engine.authorize(deleteRows)).toBe(false)
+      expect(engine.auditLog.entries()[0]).toMatchObject({
+        effect: 'deny',
+        outcome: 'denied',
+        ruleId: 'confirm',
+      })
+    })
+  })
+
+  describe('Transport', () => {
+    let client: A2UITransport
+    let agent: A2UITransport
+
+    beforeEach(async () => {
+      const [clientEnd, agentEnd] = createMemoryTransportPair()
+      client = new A2UITransport(clientEnd, { pingInterval: 0 })
+      agent = new A2UITransport(agentEnd, { pingInterval: 0 })
+      await Promise.all([client.connect(), agent.connect()])
+    })
+
+    afterEach(() => {
+      client.disconnect()
+      agent.disconnect()
+    })
+
+    it('keeps denied messages from handlers and tells the agent', async () => {
+      const engine = new PolicyEngine({
+        subject: viewer,
+        rules: [
+          {
+            id: 'viewers-read-only',
+            messageTypes: ['zerodbTableDelete'],
+            condition: "'viewer' in user.roles",
+            effect: 'deny',
+          },
+        ],
+      })
+      engine.attach(client)
+      const onDelete = vi.fn()
+      const onQuery = vi.fn()
+      const agentErrors = vi.fn()
+      client.on('zerodbTableDelete', onDelete)
+      client.on('zerodbTableQuery', onQuery)
+      agent.on('error', agentErrors)
+
+      agent.send(deleteRows)
+      agent.send({ type: 'zerodbTableQuery', surfaceId: 'admin', tableName: 'users' } as any)
+      await flush()
+
+      expect(onDelete).not.toHaveBeenCalled()
+      expect(onQuery).toHaveBeenCalledTimes(1)
+      expect(agentErrors).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'error',
+          code: 'POLICY_DENIED',
+          details: expect.objectContaining({
+            messageType: 'zerodbTableDelete',
+            ruleId: 'viewers-read-only',
+          }),
+        })
+      )
+
+      engine.detach()
+      agent.send(deleteRows)
+      await flush()
+      expect(onDelete).toHaveBeenCalledTimes(1)
+    })
+  })
+})
+
+describe('PolicyAuditLog', () => {
+  it('keeps the most recent entries and filters them', () => {
+    const log = new PolicyAuditLog(2)
+    const listener = vi.fn()
+    log.onEntry(listener)
+
+    for (const outcome of ['allowed', 'denied', 'allowed'] as const) {
+      log.record({
+        messageType: 'clientAction',
+        effect: outcome === 'allowed' ? 'allow' : 'deny',
+        outcome,
+        reason: outcome,
+      })
+    }
+
+    expect(log.size).toBe(2)
+    expect(log.entries().map((entry) => entry.id)).toEqual([2, 3])
+    expect(log.entries({ outcome: 'denied' })).toHaveLength(1)
+    expect(listener).toHaveBeenCalledTimes(3)
+  })
+})
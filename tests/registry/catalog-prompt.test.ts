@@ -0,0 +1,95 @@
+/**
+ * Catalog Prompt Builder Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { CatalogPromptBuilder } from '../../src/registry/catalog-prompt.js'
+import { ComponentRegistry } from '../../src/registry/registry.js'
+
+describe('CatalogPromptBuilder', () => {
+  let registry: ComponentRegistry
+  let builder: CatalogPromptBuilder
+
+  beforeEach(() => {
+    registry = ComponentRegistry.standard()
+    builder = new CatalogPromptBuilder(registry)
+  })
+
+  describe('select', () => {
+    it('returns every component by default', () => {
+      expect(builder.select()).toHaveLength(registry.getAll().length)
+    })
+
+    it('restricts by category, type and tag', () => {
+      const layoutAndInput = builder.select({ categories: ['layout', 'input'] })
+      expect(layoutAndInput.every((def) => def.category === 'layout' || def.category === 'input')).toBe(true)
+      expect(layoutAndInput.map((def) => def.type)).toContain('button')
+
+      expect(builder.select({ types: ['text', 'card'] }).map((def) => def.type)).toEqual(['card', 'text'])
+      expect(builder.select({ categories: ['layout'], tags: ['overlay'] }).map((def) => def.type)).toEqual([
+        'modal',
+      ])
+    })
+  })
+
+  describe('buildPrompt', () => {
+    it('describes message shapes and components grouped by category', () => {
+      const prompt = builder.buildPrompt({ categories: ['input', 'layout'] })
+
+      expect(prompt).toContain('{"messages":[...]}')
+      expect(prompt).toContain('createSurface: {"type":"createSurface"')
+      expect(prompt).toContain('layout:\n- card: Container with optional title, subtitle, and styling')
+      expect(prompt).toContain('- button: Clickable button. Props: label (string, default "Button")')
+      expect(prompt).not.toContain('- text:')
+    })
+
+    it('lists schema enums and required properties', () => {
+      const prompt = builder.buildPrompt({ types: ['videoRecorder'] })
+
+      expect(prompt).toContain('mode ("screen"|"camera"|"pip"')
+    })
+
+    it('includes components registered later', () => {
+      registry.register('rating', {
+        type: 'rating',
+        description: 'Star rating input',
+        category: 'input',
+        schema: {
+          type: 'object',
+          properties: { stars: { type: 'integer' } },
+          required: ['stars'],
+        },
+      })
+
+      expect(builder.buildPrompt({ categories: ['input'] })).toContain(
+        '- rating: Star rating input. Props: stars (integer, required)'
+      )
+    })
+  })
+
+  describe('buildSchema', () => {
+    it('builds a messages envelope schema', () => {
+      const schema = builder.buildSchema()
+
+      expect(schema.required).toEqual(['messages'])
+      const messages = schema.properties?.messages
+      expect(messages?.type).toBe('array')
+      expect(messages?.items?.anyOf?.map((message) => message.properties?.type?.enum?.[0])).toEqual([
+        'createSurface',
+        'updateComponents',
+        'updateDataModel',
+        'deleteSurface',
+      ])
+    })
+
+    it('allows only the selected component types', () => {
+      const schema = builder.buildSchema({ types: ['button'] })
+      const createSurface = schema.properties?.messages?.items?.anyOf?.[0]
+      const components = createSurface?.properties?.components?.items?.anyOf
+
+      expect(components).toHaveLength(1)
+      expect(components?.[0]?.properties?.type).toEqual({ type: 'string', enum: ['button'] })
+      expect(components?.[0]?.properties?.properties?.properties?.disabled).toEqual({ type: 'boolean' })
+    })
+  })
+})
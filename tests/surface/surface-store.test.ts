@@ -0,0 +1,491 @@
+/**
+ * Surface Store Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { SurfaceStore, SurfaceStoreError } from '../../src/surface/surface-store.js'
+import type { SurfaceChange } from '../../src/surface/surface-store.js'
+import type { CreateSurfaceMessage } from '../../src/types/protocol.js'
+import type { EventHandler } from '../../src/transport/transport.js'
+import { SurfaceValidator } from '../../src/validation/surface-validator.js'
+
+function createSurface(overrides: Partial<CreateSurfaceMessage> = {}): CreateSurfaceMessage {
+  return {
+    type: 'createSurface',
+    surfaceId: 'main',
+    components: [
+      { id: 'root', type: 'column', children: ['title', 'form'] },
+      { id: 'title', type: 'text', properties: { value: 'Hello' } },
+      { id: 'form', type: 'card', children: ['name'] },
+      { id: 'name', type: 'textField', properties: { label: 'Name', dataBinding: '/user/name' } },
+    ],
+    dataModel: { user: { name: 'Alice', tags: ['a'] }, count: 1 },
+    ...overrides,
+  }
+}
+
+describe('SurfaceStore', () => {
+  let store: SurfaceStore
+
+  beforeEach(() => {
+    store = new SurfaceStore()
+  })
+
+  describe('createSurface', () => {
+    it('creates a surface with components and data model', () => {
+      store.apply(createSurface())
+
+      const surface = store.getSurface('main')
+      expect(surface?.components).toHaveLength(4)
+      expect(surface?.dataModel).toEqual({ user: { name: 'Alice', tags: ['a'] }, count: 1 })
+      expect(surface?.version).toBe(1)
+      expect(store.getSurfaceIds()).toEqual(['main'])
+    })
+
+    it('defaults to an empty data model', () => {
+      store.apply(createSurface({ dataModel: undefined }))
+      expect(store.getDataModel('main')).toEqual({})
+    })
+
+    it('replaces an existing surface and keeps the version monotonic', () => {
+      store.apply(createSurface())
+      store.apply(createSurface({ components: [{ id: 'root', type: 'text' }] }))
+
+      const surface = store.getSurface('main')
+      expect(surface?.components).toHaveLength(1)
+      expect(surface?.version).toBe(2)
+    })
+
+    it('manages many surfaces independently', () => {
+      store.apply(createSurface({ surfaceId: 'a' }))
+      store.apply(createSurface({ surfaceId: 'b', dataModel: { count: 5 } }))
+
+      expect(store.getData('a', '/count')).toBe(1)
+      expect(store.getData('b', '/count')).toBe(5)
+    })
+
+    it('rejects surfaces the validator finds invalid', () => {
+      store = new SurfaceStore({ validator: new SurfaceValidator() })
+      store.apply(createSurface())
+
+      const invalid = createSurface({
+        components: [{ id: 'root', type: 'column', children: ['missing'] }],
+      })
+
+      expect(() => store.apply(invalid)).toThrow(SurfaceStoreError)
+      expect(() => store.apply(invalid)).toThrow(/\/components\/0\/children\/0/)
+      expect(store.getSurface('main')?.components).toHaveLength(4)
+    })
+  })
+
+  describe('updateComponents', () => {
+    beforeEach(() => {
+      store.apply(createSurface())
+    })
+
+    it('adds a component', () => {
+      store.apply({
+        type: 'updateComponents',
+        surfaceId: 'main',
+        updates: [{ id: 'submit', operation: 'add', component: { id: 'submit', type: 'button' } }],
+      })
+
+      expect(store.getComponent('main', 'submit')?.type).toBe('button')
+    })
+
+    it('merges properties on update', () => {
+      store.apply({
+        type: 'updateComponents',
+        surfaceId: 'main',
+        updates: [
+          {
+            id: 'title',
+            operation: 'update',
+            component: { id: 'title', type: 'text', properties: { color: 'red' } },
+          },
+        ],
+      })
+
+      expect(store.getComponent('main', 'title')?.properties).toEqual({
+        value: 'Hello',
+        color: 'red',
+      })
+    })
+
+    it('removes a component', () => {
+      store.apply({
+        type: 'updateComponents',
+        surfaceId: 'main',
+        updates: [{ id: 'title', operation: 'remove' }],
+      })
+
+      expect(store.getComponent('main', 'title')).toBeUndefined()
+    })
+
+    it('throws for unknown surfaces', () => {
+      expect(() =>
+        store.apply({ type: 'updateComponents', surfaceId: 'missing', updates: [] })
+      ).toThrow(SurfaceStoreError)
+    })
+
+    it('applies updates atomically', () => {
+      const before = store.getSurface('main')
+
+      expect(() =>
+        store.apply({
+          type: 'updateComponents',
+          surfaceId: 'main',
+          updates: [
+            { id: 'title', operation: 'remove' },
+            { id: 'ghost', operation: 'update', component: { id: 'ghost', type: 'text' } },
+          ],
+        })
+      ).toThrowError(expect.objectContaining({ code: 'COMPONENT_NOT_FOUND' }))
+
+      expect(store.getSurface('main')).toBe(before)
+      expect(store.getComponent('main', 'title')).toBeDefined()
+    })
+  })
+
+  describe('updateDataModel', () => {
+    beforeEach(() => {
+      store.apply(createSurface())
+    })
+
+    it('sets values via JSON Pointer', () => {
+      store.apply({
+        type: 'updateDataModel',
+        surfaceId: 'main',
+        updates: [
+          { path: '/user/name', operation: 'set', value: 'Bob' },
+          { path: '/user/tags/-', operation: 'set', value: 'b' },
+          { path: '/settings/theme', operation: 'set', value: 'dark' },
+        ],
+      })
+
+      expect(store.getDataModel('main')).toEqual({
+        user: { name: 'Bob', tags: ['a', 'b'] },
+        count: 1,
+        settings: { theme: 'dark' },
+      })
+    })
+
+    it('removes values', () => {
+      store.apply({
+        type: 'updateDataModel',
+        surfaceId: 'main',
+        updates: [{ path: '/count', operation: 'remove' }],
+      })
+
+      expect(store.getData('main', '/count')).toBeUndefined()
+    })
+
+    it('replaces the whole data model at the root path', () => {
+      store.apply({
+        type: 'updateDataModel',
+        surfaceId: 'main',
+        updates: [{ path: '/', operation: 'set', value: { fresh: true } }],
+      })
+
+      expect(store.getDataModel('main')).toEqual({ fresh: true })
+    })
+
+    it('does not mutate previous snapshots', () => {
+      const message = createSurface()
+      store.apply(message)
+      const before = store.getSurface('main')!
+
+      store.apply({
+        type: 'updateDataModel',
+        surfaceId: 'main',
+        updates: [{ path: '/user/name', operation: 'set', value: 'Bob' }],
+      })
+
+      const after = store.getSurface('main')!
+      expect(before.dataModel).toEqual({ user: { name: 'Alice', tags: ['a'] }, count: 1 })
+      expect(message.dataModel).toEqual({ user: { name: 'Alice', tags: ['a'] }, count: 1 })
+      expect(after).not.toBe(before)
+      expect(after.version).toBe(before.version + 1)
+    })
+
+    it('wraps invalid paths in SurfaceStoreError', () => {
+      expect(() =>
+        store.apply({
+          type: 'updateDataModel',
+          surfaceId: 'main',
+          updates: [{ path: 'user', operation: 'set', value: 1 }],
+        })
+      ).toThrowError(expect.objectContaining({ code: 'INVALID_PATH' }))
+    })
+  })
+
+  describe('deleteSurface', () => {
+    it('removes the surface', () => {
+      store.apply(createSurface())
+      const change = store.apply({ type: 'deleteSurface', surfaceId: 'main' })
+
+      expect(change?.type).toBe('surfaceDeleted')
+      expect(store.hasSurface('main')).toBe(false)
+    })
+
+    it('ignores unknown surfaces', () => {
+      expect(store.apply({ type: 'deleteSurface', surfaceId: 'missing' })).toBeNull()
+    })
+
+    it('keeps listeners when the surface is recreated', () => {
+      const surface = vi.fn()
+      const path = vi.fn()
+      const component = vi.fn()
+      store.apply(createSurface())
+      store.subscribeSurface('main', surface)
+      store.subscribePath('main', '/count', path)
+      store.subscribeComponent('main', 'title', component)
+
+      store.apply({ type: 'deleteSurface', surfaceId: 'main' })
+      store.apply(createSurface())
+      store.apply({
+        type: 'updateDataModel',
+        surfaceId: 'main',
+        updates: [{ path: '/count', operation: 'set', value: 2 }],
+      })
+
+      expect(surface).toHaveBeenCalledTimes(3)
+      expect(path).toHaveBeenCalledTimes(3)
+      expect(component).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  it('ignores messages that do not affect surfaces', () => {
+    expect(store.apply({ type: 'ping' })).toBeNull()
+  })
+
+  describe('component tree', () => {
+    it('resolves children from IDs', () => {
+      store.apply(createSurface())
+      const tree = store.getTree('main')
+
+      expect(tree?.component.id).toBe('root')
+      expect(tree?.children.map((node) => node.component.id)).toEqual(['title', 'form'])
+      expect(tree?.children[1]?.children[0]?.component.id).toBe('name')
+    })
+
+    it('falls back to the first unreferenced component as root', () => {
+      store.apply(
+        createSurface({
+          components: [
+            { id: 'child', type: 'text' },
+            { id: 'container', type: 'column', children: ['child'] },
+          ],
+        })
+      )
+
+      expect(store.getRootId('main')).toBe('container')
+    })
+
+    it('reports orphans and dangling references', () => {
+      store.apply(createSurface())
+      store.apply({
+        type: 'updateComponents',
+        surfaceId: 'main',
+        updates: [{ id: 'form', operation: 'remove' }],
+      })
+
+      const report = store.checkReferences('main')
+      expect(report.rootId).toBe('root')
+      expect(report.orphans).toEqual(['name'])
+      expect(report.dangling).toEqual([{ parentId: 'root', childId: 'form' }])
+      expect(store.getTree('main')?.children).toHaveLength(1)
+    })
+
+    it('detects cycles without looping forever', () => {
+      store.apply(
+        createSurface({
+          components: [
+            { id: 'root', type: 'column', children: ['a'] },
+            { id: 'a', type: 'column', children: ['b'] },
+            { id: 'b', type: 'column', children: ['a'] },
+          ],
+        })
+      )
+
+      expect(store.checkReferences('main').cycles).toEqual(['a'])
+      expect(store.getTree('main')?.children[0]?.children[0]?.children).toEqual([])
+    })
+  })
+
+  describe('subscriptions', () => {
+    beforeEach(() => {
+      store.apply(createSurface())
+    })
+
+    it('notifies global and surface listeners', () => {
+      const global = vi.fn()
+      const surface = vi.fn()
+      const other = vi.fn()
+      store.subscribe(global)
+      store.subscribeSurface('main', surface)
+      store.subscribeSurface('other', other)
+
+      store.apply({
+        type: 'updateDataModel',
+        surfaceId: 'main',
+        updates: [{ path: '/count', operation: 'set', value: 2 }],
+      })
+
+      expect(global).toHaveBeenCalledTimes(1)
+      expect(surface).toHaveBeenCalledTimes(1)
+      expect(other).not.toHaveBeenCalled()
+    })
+
+    it('notifies component listeners only for affected components', () => {
+      const title = vi.fn()
+      const name = vi.fn()
+      store.subscribeComponent('main', 'title', title)
+      store.subscribeComponent('main', 'name', name)
+
+      store.apply({
+        type: 'updateComponents',
+        surfaceId: 'main',
+        updates: [{ id: 'title', operation: 'remove' }],
+      })
+
+      expect(title).toHaveBeenCalledTimes(1)
+      expect(name).not.toHaveBeenCalled()
+    })
+
+    it('notifies path listeners for ancestors and descendants', () => {
+      const userName = vi.fn()
+      const user = vi.fn()
+      const count = vi.fn()
+      store.subscribePath('main', '/user/name', userName)
+      store.subscribePath('main', '/user', user)
+      store.subscribePath('main', '/count', count)
+
+      store.apply({
+        type: 'updateDataModel',
+        surfaceId: 'main',
+        updates: [{ path: '/user/name', operation: 'set', value: 'Bob' }],
+      })
+      store.apply({
+        type: 'updateDataModel',
+        surfaceId: 'main',
+        updates: [{ path: '/user', operation: 'set', value: {} }],
+      })
+
+      expect(userName).toHaveBeenCalledTimes(2)
+      expect(user).toHaveBeenCalledTimes(2)
+      expect(count).not.toHaveBeenCalled()
+    })
+
+    it('stops notifying after unsubscribe', () => {
+      const listener = vi.fn()
+      const unsubscribe = store.subscribePath('main', '/count', listener)
+      unsubscribe()
+
+      store.apply({
+        type: 'updateDataModel',
+        surfaceId: 'main',
+        updates: [{ path: '/count', operation: 'set', value: 2 }],
+      })
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('passes change details to listeners', () => {
+      const changes: SurfaceChange[] = []
+      store.subscribe((change) => changes.push(change))
+
+      store.apply({
+        type: 'updateDataModel',
+        surfaceId: 'main',
+        updates: [{ path: '/count', operation: 'set', value: 2 }],
+      })
+
+      expect(changes[0]).toEqual({
+        type: 'dataModelUpdated',
+        surfaceId: 'main',
+        componentIds: [],
+        paths: ['/count'],
+        version: 2,
+      })
+    })
+  })
+
+  describe('data model ownership', () => {
+    it('copies the data model of createSurface', () => {
+      const message = createSurface()
+      store.apply(message)
+      ;(message.dataModel!['user'] as { name: string }).name = 'Mallory'
+
+      expect(store.getData('main', '/user/name')).toBe('Alice')
+    })
+
+    it('copies values set by updateDataModel', () => {
+      const value = { name: 'Bob' }
+      store.apply(createSurface())
+      store.apply({
+        type: 'updateDataModel',
+        surfaceId: 'main',
+        updates: [{ path: '/user', operation: 'set', value }],
+      })
+      value.name = 'Mallory'
+
+      expect(store.getData('main', '/user/name')).toBe('Bob')
+    })
+  })
+
+  describe('attach', () => {
+    it('applies messages emitted by a transport', () => {
+      const handlers = new Map<string, EventHandler>()
+      const transport = {
+        on: vi.fn((event: string, handler: EventHandler) => handlers.set(event, handler)),
+        off: vi.fn((event: string) => handlers.delete(event)),
+      }
+
+      const detach = store.attach(transport)
+      handlers.get('createSurface')?.(createSurface())
+      expect(store.hasSurface('main')).toBe(true)
+
+      detach()
+      expect(handlers.size).toBe(0)
+    })
+
+    it('reports apply failures through onError', () => {
+      const onError = vi.fn()
+      store = new SurfaceStore({ onError })
+      const handlers = new Map<string, EventHandler>()
+      store.attach({
+        on: (event: string, handler: EventHandler) => handlers.set(event, handler),
+        off: () => undefined,
+      })
+
+      handlers.get('updateComponents')?.({ type: 'updateComponents', surfaceId: 'x', updates: [] })
+      expect(onError).toHaveBeenCalledWith(expect.any(SurfaceStoreError), expect.anything())
+    })
+
+    it('reports listener errors through onError', () => {
+      const onError = vi.fn()
+      const listener = vi.fn()
+      store = new SurfaceStore({ onError })
+      store.subscribe(() => {
+        throw new Error('listener failed')
+      })
+      store.subscribe(listener)
+
+      store.apply(createSurface())
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'listener failed' }))
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  it('serializes a surface back into createSurface', () => {
+    store.apply(createSurface({ metadata: { title: 'Demo' } }))
+    const message = store.toCreateSurfaceMessage('main')
+
+    const copy = new SurfaceStore()
+    copy.apply(message)
+    expect(copy.getSurface('main')?.components).toEqual(store.getSurface('main')?.components)
+    expect(message.metadata).toEqual({ title: 'Demo' })
+  })
+})
@@ -108,6 +108,14 @@ describe('MCPTransport', () => {
       expect(disconnected).toBe(true)
     })
 
+    it('should reject a pending connect when disconnected', async () => {
+      const connecting = transport.connect()
+      await transport.disconnect()
+
+      await expect(connecting).rejects.toThrow('Disconnected before the connection opened')
+      expect(transport.state).toBe('disconnected')
+    })
+
     it('should handle connection errors', async () => {
       const errorTransport = new MCPTransport({
         serverUrl: 'ws://invalid-host:9999',
@@ -125,7 +133,7 @@ describe('MCPTransport', () => {
 
       // Simulate connection error before open event
       await new Promise((resolve) => setTimeout(resolve, 5))
-      const ws = (errorTransport as any).ws as MockWebSocket
+      const ws = (errorTransport as any).adapter.socket as MockWebSocket
       ws.onerror?.(new Event('error'))
 
       await expect(connectPromise).rejects.toThrow()
@@ -158,7 +166,7 @@ describe('MCPTransport', () => {
 
       // Simulate server response
       setTimeout(() => {
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const messages = ws.getSentMessages()
         const initRequest = JSON.parse(messages[0]!) as MCPRequest
 
@@ -198,7 +206,7 @@ describe('MCPTransport', () => {
 
       // Simulate server response
       setTimeout(() => {
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const messages = ws.getSentMessages()
         const initRequest = JSON.parse(messages[0]!) as MCPRequest
 
@@ -220,7 +228,7 @@ describe('MCPTransport', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 50))
 
-      const ws = (transport as any).ws as MockWebSocket
+      const ws = (transport as any).adapter.socket as MockWebSocket
       const messages = ws.getSentMessages()
       const initializedNotif = messages.find((msg) => msg.includes('initialized'))
 
@@ -239,7 +247,7 @@ describe('MCPTransport', () => {
 
       // Simulate server response
       setTimeout(() => {
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const messages = ws.getSentMessages()
         const lastRequest = JSON.parse(messages[messages.length - 1]!) as MCPRequest
 
@@ -274,7 +282,7 @@ describe('MCPTransport', () => {
 
       // Simulate server response
       setTimeout(() => {
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const messages = ws.getSentMessages()
         const lastRequest = JSON.parse(messages[messages.length - 1]!) as MCPRequest
 
@@ -311,7 +319,7 @@ describe('MCPTransport', () => {
 
       // Simulate error response
       setTimeout(() => {
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const messages = ws.getSentMessages()
         const lastRequest = JSON.parse(messages[messages.length - 1]!) as MCPRequest
 
@@ -427,7 +435,7 @@ describe('MCPTransport', () => {
         notificationReceived = true
       })
 
-      const ws = (transport as any).ws as MockWebSocket
+      const ws = (transport as any).adapter.socket as MockWebSocket
       ws.simulateMessage(
         JSON.stringify({
           jsonrpc: '2.0',
@@ -449,7 +457,7 @@ describe('MCPTransport', () => {
         resourceUpdated = true
       })
 
-      const ws = (transport as any).ws as MockWebSocket
+      const ws = (transport as any).adapter.socket as MockWebSocket
       ws.simulateMessage(
         JSON.stringify({
           jsonrpc: '2.0',
@@ -482,7 +490,7 @@ describe('MCPTransport', () => {
       })
 
       // Simulate disconnect
-      const ws = (reconnectTransport as any).ws as MockWebSocket
+      const ws = (reconnectTransport as any).adapter.socket as MockWebSocket
       ws.close()
 
       await new Promise((resolve) => setTimeout(resolve, 150))
@@ -500,7 +508,7 @@ describe('MCPTransport', () => {
         errorReceived = true
       })
 
-      const ws = (transport as any).ws as MockWebSocket
+      const ws = (transport as any).adapter.socket as MockWebSocket
       ws.simulateMessage('invalid json {')
 
       await new Promise((resolve) => setTimeout(resolve, 20))
@@ -531,7 +539,7 @@ async function initializeTransport(transport: MCPTransport): Promise<void> {
   })
 
   setTimeout(() => {
-    const ws = (transport as any).ws as MockWebSocket
+    const ws = (transport as any).adapter.socket as MockWebSocket
     const messages = ws.getSentMessages()
     const initRequest = JSON.parse(messages[0]!) as MCPRequest
 
@@ -555,7 +563,7 @@ async function initializeTransport(transport: MCPTransport): Promise<void> {
 }
 
 function respondToLastRequest(transport: MCPTransport, result: any): void {
-  const ws = (transport as any).ws as MockWebSocket
+  const ws = (transport as any).adapter.socket as MockWebSocket
   const messages = ws.getSentMessages()
   const lastRequest = JSON.parse(messages[messages.length - 1]!) as MCPRequest
 
@@ -0,0 +1,220 @@
+/**
+ * Reliable Delivery Tests
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { ReliableDelivery } from '../../src/transport/reliable-delivery.js'
+import type { SequencedMessage } from '../../src/transport/reliable-delivery.js'
+import { A2UITransport } from '../../src/transport/transport.js'
+import { createMemoryTransportPair } from '../../src/transport/memory-adapter.js'
+
+const wait = (ms = 0): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
+
+function update(surfaceId: string, seq: number): SequencedMessage {
+  return { type: 'updateDataModel', surfaceId, seq } as SequencedMessage
+}
+
+describe('ReliableDelivery', () => {
+  it('should number messages per surface and skip messages without one', () => {
+    const delivery = new ReliableDelivery()
+
+    expect(delivery.prepare({ type: 'updateDataModel', surfaceId: 'a' } as never)).toMatchObject({
+      seq: 1,
+    })
+    expect(delivery.prepare({ type: 'updateDataModel', surfaceId: 'a' } as never)).toMatchObject({
+      seq: 2,
+    })
+    expect(delivery.prepare({ type: 'updateDataModel', surfaceId: 'b' } as never)).toMatchObject({
+      seq: 1,
+    })
+    expect(delivery.prepare({ type: 'ping' })).toEqual({ type: 'ping' })
+    expect(delivery.pending()).toBe(3)
+  })
+
+  it('should drop acknowledged messages from the buffer', () => {
+    const delivery = new ReliableDelivery()
+    for (let i = 0; i < 3; i++)
+      delivery.prepare({ type: 'updateDataModel', surfaceId: 'a' } as never)
+
+    delivery.acknowledge('a', 2)
+
+    expect(delivery.pending('a')).toBe(1)
+  })
+
+  it('should deliver in-order messages and ack them', () => {
+    const delivery = new ReliableDelivery()
+
+    expect(delivery.receive(update('a', 1))).toEqual({
+      deliver: true,
+      ack: { type: 'ack', surfaceId: 'a', seq: 1 },
+    })
+  })
+
+  it('should ack but not deliver duplicates', () => {
+    const delivery = new ReliableDelivery()
+    delivery.receive(update('a', 1))
+
+    expect(delivery.receive(update('a', 1))).toEqual({
+      deliver: false,
+      ack: { type: 'ack', surfaceId: 'a', seq: 1 },
+    })
+  })
+
+  it('should request a resume once when a gap is detected', () => {
+    const delivery = new ReliableDelivery()
+    delivery.receive(update('a', 1))
+
+    expect(delivery.receive(update('a', 3))).toEqual({
+      deliver: false,
+      resume: { type: 'resume', surfaces: { a: 1 } },
+    })
+    expect(delivery.receive(update('a', 4))).toEqual({ deliver: false })
+    expect(delivery.receive(update('a', 2)).deliver).toBe(true)
+  })
+
+  it('should accept a createSurface snapshot across a gap', () => {
+    const delivery = new ReliableDelivery()
+    delivery.receive(update('a', 1))
+
+    const result = delivery.receive({
+      type: 'createSurface',
+      surfaceId: 'a',
+      seq: 9,
+    } as SequencedMessage)
+
+    expect(result.deliver).toBe(true)
+    expect(delivery.resumeMessage()).toEqual({ type: 'resume', surfaces: { a: 9 } })
+  })
+
+  it('should restart the sequence when a restarted sender sends a new snapshot', () => {
+    const delivery = new ReliableDelivery()
+    for (let seq = 1; seq <= 5; seq++) delivery.receive(update('a', seq))
+
+    const result = delivery.receive({
+      type: 'createSurface',
+      surfaceId: 'a',
+      seq: 1,
+    } as SequencedMessage)
+
+    expect(result).toEqual({ deliver: true, ack: { type: 'ack', surfaceId: 'a', seq: 1 } })
+    expect(delivery.receive(update('a', 2)).deliver).toBe(true)
+  })
+
+  it('should replay messages after the last received sequence number', () => {
+    const delivery = new ReliableDelivery()
+    for (let i = 0; i < 3; i++)
+      delivery.prepare({ type: 'updateDataModel', surfaceId: 'a' } as never)
+
+    const { messages, resync } = delivery.replay({ type: 'resume', surfaces: { a: 1 } })
+
+    expect(messages.map((message) => message.seq)).toEqual([2, 3])
+    expect(resync).toEqual([])
+  })
+
+  it('should request a resync when missed messages are no longer buffered', () => {
+    const delivery = new ReliableDelivery({ maxBufferedMessages: 2 })
+    for (let i = 0; i < 4; i++)
+      delivery.prepare({ type: 'updateDataModel', surfaceId: 'a' } as never)
+
+    const { messages, resync } = delivery.replay({ type: 'resume', surfaces: { a: 1 } })
+
+    expect(messages).toEqual([])
+    expect(resync).toEqual([{ surfaceId: 'a', lastSeq: 1 }])
+  })
+
+  it('should replay from a buffered snapshot when the peer lost its state', () => {
+    const delivery = new ReliableDelivery()
+    delivery.prepare({ type: 'updateDataModel', surfaceId: 'a' } as never)
+    delivery.prepare({ type: 'createSurface', surfaceId: 'a' } as never)
+    delivery.prepare({ type: 'updateDataModel', surfaceId: 'a' } as never)
+
+    const { messages } = delivery.replay({ type: 'resume', surfaces: {} })
+
+    expect(messages.map((message) => message.type)).toEqual(['createSurface', 'updateDataModel'])
+  })
+})
+
+describe('A2UITransport reliable mode', () => {
+  let client: A2UITransport
+  let agent: A2UITransport
+
+  afterEach(() => {
+    client?.disconnect()
+    agent?.disconnect()
+  })
+
+  async function connectPair(): Promise<ReturnType<typeof createMemoryTransportPair>> {
+    const pair = createMemoryTransportPair()
+    client = new A2UITransport(pair[0], { reliable: true, reconnectDelay: 10, pingInterval: 0 })
+    agent = new A2UITransport(pair[1], { reliable: true, reconnectDelay: 10, pingInterval: 0 })
+    client.on('error', () => {})
+    agent.on('error', () => {})
+    await Promise.all([client.connect(), agent.connect()])
+    await wait()
+    return pair
+  }
+
+  it('should clear pending messages once acked', async () => {
+    await connectPair()
+    const received = vi.fn()
+    client.on('updateDataModel', received)
+
+    agent.send({ type: 'updateDataModel', surfaceId: 'main', updates: [] })
+    expect(agent.pendingCount).toBe(1)
+    await wait()
+
+    expect(received).toHaveBeenCalledWith(expect.objectContaining({ surfaceId: 'main', seq: 1 }))
+    expect(agent.pendingCount).toBe(0)
+  })
+
+  it('should replay messages sent during an outage after reconnecting', async () => {
+    const [clientEnd] = await connectPair()
+    const received = vi.fn()
+    client.on('updateDataModel', received)
+
+    agent.send({ type: 'updateDataModel', surfaceId: 'main', updates: [] })
+    await wait()
+    clientEnd.fail()
+
+    expect(() =>
+      agent.send({ type: 'updateDataModel', surfaceId: 'main', updates: [] })
+    ).not.toThrow()
+    agent.send({ type: 'updateDataModel', surfaceId: 'main', updates: [] })
+    await wait(50)
+
+    expect(client.isConnected).toBe(true)
+    expect(received.mock.calls.map(([message]) => (message as SequencedMessage).seq)).toEqual([
+      1, 2, 3,
+    ])
+    expect(agent.pendingCount).toBe(0)
+  })
+
+  it('should emit resyncRequired when the outage outgrew the buffer', async () => {
+    const pair = createMemoryTransportPair()
+    client = new A2UITransport(pair[0], { reliable: true, reconnectDelay: 10, pingInterval: 0 })
+    agent = new A2UITransport(pair[1], {
+      reliable: { maxBufferedMessages: 1 },
+      reconnectDelay: 10,
+      pingInterval: 0,
+    })
+    client.on('error', () => {})
+    await Promise.all([client.connect(), agent.connect()])
+    await wait()
+    pair[0].fail()
+
+    const resync = vi.fn()
+    agent.on('resyncRequired', resync)
+    agent.send({ type: 'updateDataModel', surfaceId: 'main', updates: [] })
+    agent.send({ type: 'updateDataModel', surfaceId: 'main', updates: [] })
+    await wait(50)
+
+    expect(resync).toHaveBeenCalledWith({ surfaceId: 'main', lastSeq: 0 })
+  })
+
+  it('should still throw for non-surface messages while disconnected', () => {
+    const [clientEnd] = createMemoryTransportPair()
+    client = new A2UITransport(clientEnd, { reliable: true })
+
+    expect(() => client.send({ type: 'ping' })).toThrow('Cannot send message: not connected')
+  })
+})
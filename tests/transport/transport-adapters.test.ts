@@ -0,0 +1,419 @@
+/**
+ * Transport Adapter Tests
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { A2UITransport } from '../../src/transport/transport.js'
+import {
+  createMemoryTransportPair,
+  isTransportAdapter,
+  LongPollTransportAdapter,
+  SSETransportAdapter,
+} from '../../src/transport/index.js'
+import type { TransportAdapterHandlers } from '../../src/transport/index.js'
+import { CollaborationHandler } from '../../src/handlers/collaboration-handler.js'
+
+const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0))
+
+function createHandlers(): TransportAdapterHandlers & {
+  onOpen: ReturnType<typeof vi.fn>
+  onMessage: ReturnType<typeof vi.fn>
+  onClose: ReturnType<typeof vi.fn>
+  onError: ReturnType<typeof vi.fn>
+} {
+  return { onOpen: vi.fn(), onMessage: vi.fn(), onClose: vi.fn(), onError: vi.fn() }
+}
+
+// Minimal EventSource stand-in driven by the test
+class FakeEventSource {
+  static instances: FakeEventSource[] = []
+  onopen: (() => void) | null = null
+  onerror: (() => void) | null = null
+  closed = false
+  private readonly listeners = new Map<string, (event: Event) => void>()
+
+  constructor(
+    public url: string,
+    public init?: EventSourceInit
+  ) {
+    FakeEventSource.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: Event) => void): void {
+    this.listeners.set(type, listener)
+  }
+
+  close(): void {
+    this.closed = true
+  }
+
+  emit(type: string, data: string): void {
+    this.listeners.get(type)?.(new MessageEvent(type, { data }))
+  }
+}
+
+describe('isTransportAdapter', () => {
+  it('should recognize adapters and reject transports', () => {
+    const [end] = createMemoryTransportPair()
+
+    expect(isTransportAdapter(end)).toBe(true)
+    expect(isTransportAdapter(new A2UITransport(end))).toBe(false)
+    expect(isTransportAdapter(null)).toBe(false)
+  })
+})
+
+describe('MemoryTransportAdapter', () => {
+  let client: A2UITransport
+  let agent: A2UITransport
+
+  afterEach(() => {
+    client?.disconnect()
+    agent?.disconnect()
+  })
+
+  it('should exchange messages between two transports', async () => {
+    const [clientEnd, agentEnd] = createMemoryTransportPair()
+    client = new A2UITransport(clientEnd)
+    agent = new A2UITransport(agentEnd)
+    await Promise.all([client.connect(), agent.connect()])
+
+    const received = vi.fn()
+    client.on('createSurface', received)
+    agent.send({ type: 'createSurface', surfaceId: 'main', components: [] })
+    await flush()
+
+    expect(client.kind).toBe('memory')
+    expect(received).toHaveBeenCalledWith({
+      type: 'createSurface',
+      surfaceId: 'main',
+      components: [],
+    })
+  })
+
+  it('should queue messages until the peer opens', async () => {
+    const [clientEnd, agentEnd] = createMemoryTransportPair()
+    agent = new A2UITransport(agentEnd)
+    await agent.connect()
+    agent.send({ type: 'deleteSurface', surfaceId: 'main' })
+
+    client = new A2UITransport(clientEnd)
+    const received = vi.fn()
+    client.on('deleteSurface', received)
+    await client.connect()
+    await flush()
+
+    expect(received).toHaveBeenCalledTimes(1)
+  })
+
+  it('should hold back messages the inbound guard rejects', async () => {
+    const [clientEnd, agentEnd] = createMemoryTransportPair()
+    client = new A2UITransport(clientEnd)
+    agent = new A2UITransport(agentEnd)
+    await Promise.all([client.connect(), agent.connect()])
+
+    let approve!: (allowed: boolean) => void
+    client.setInboundGuard((message) => {
+      if (message.type === 'deleteSurface') return false
+      if (message.surfaceId === 'held') return new Promise((resolve) => (approve = resolve))
+      return true
+    })
+    const received = vi.fn()
+    client.on('message', received)
+
+    agent.send({ type: 'createSurface', surfaceId: 'held', components: [] })
+    agent.send({ type: 'deleteSurface', surfaceId: 'main' })
+    agent.send({ type: 'createSurface', surfaceId: 'main', components: [] })
+    await flush()
+
+    expect(received.mock.calls.map(([message]) => message.surfaceId)).toEqual(['main'])
+
+    approve(true)
+    await flush()
+    expect(received.mock.calls.map(([message]) => message.surfaceId)).toEqual(['main', 'held'])
+
+    client.setInboundGuard(null)
+    agent.send({ type: 'deleteSurface', surfaceId: 'main' })
+    await flush()
+    expect(received).toHaveBeenCalledTimes(3)
+  })
+
+  it('should keep the order of a surface while the guard holds a message', async () => {
+    const [clientEnd, agentEnd] = createMemoryTransportPair()
+    client = new A2UITransport(clientEnd)
+    agent = new A2UITransport(agentEnd)
+    await Promise.all([client.connect(), agent.connect()])
+
+    let approve!: (allowed: boolean) => void
+    client.setInboundGuard((message) =>
+      message.type === 'createSurface' && message.surfaceId === 'main'
+        ? new Promise((resolve) => (approve = resolve))
+        : true
+    )
+    const received = vi.fn()
+    client.on('message', received)
+
+    agent.send({ type: 'createSurface', surfaceId: 'main', components: [] })
+    agent.send({ type: 'updateComponents', surfaceId: 'main', updates: [] })
+    agent.send({ type: 'deleteSurface', surfaceId: 'other' })
+    await flush()
+
+    expect(received.mock.calls.map(([message]) => message.type)).toEqual(['deleteSurface'])
+
+    approve(true)
+    await flush()
+    expect(received.mock.calls.map(([message]) => message.type)).toEqual([
+      'deleteSurface',
+      'createSurface',
+      'updateComponents',
+    ])
+  })
+
+  it('should answer pings with pongs when enabled', async () => {
+    const [clientEnd, agentEnd] = createMemoryTransportPair()
+    const handlers = createHandlers()
+    client = new A2UITransport(clientEnd, { answerPings: true })
+    const received = vi.fn()
+    client.on('ping', received)
+    await client.connect()
+    agentEnd.open(handlers)
+    await flush()
+
+    agentEnd.send(JSON.stringify({ type: 'ping' }))
+    await flush()
+
+    expect(handlers.onMessage).toHaveBeenCalledWith(JSON.stringify({ type: 'pong' }))
+    expect(received).not.toHaveBeenCalled()
+  })
+
+  it('should emit pings to listeners by default', async () => {
+    const [clientEnd, agentEnd] = createMemoryTransportPair()
+    const handlers = createHandlers()
+    client = new A2UITransport(clientEnd)
+    const received = vi.fn()
+    client.on('ping', received)
+    await client.connect()
+    agentEnd.open(handlers)
+    await flush()
+
+    agentEnd.send(JSON.stringify({ type: 'ping' }))
+    await flush()
+
+    expect(received).toHaveBeenCalledWith({ type: 'ping' })
+    expect(handlers.onMessage).not.toHaveBeenCalled()
+  })
+
+  it('should reject a pending connect when disconnected', async () => {
+    const [clientEnd] = createMemoryTransportPair()
+    client = new A2UITransport(clientEnd)
+
+    const connecting = client.connect()
+    client.disconnect()
+
+    await expect(connecting).rejects.toThrow('Disconnected before the connection opened')
+    expect(client.status).toBe('disconnected')
+  })
+
+  it('should reconnect after the channel fails', async () => {
+    const [clientEnd, agentEnd] = createMemoryTransportPair()
+    client = new A2UITransport(clientEnd, { reconnectDelay: 10 })
+    agent = new A2UITransport(agentEnd, { autoReconnect: false })
+    await Promise.all([client.connect(), agent.connect()])
+
+    const reconnecting = vi.fn()
+    const connected = vi.fn()
+    client.on('reconnecting', reconnecting)
+    client.on('connect', connected)
+    client.on('error', () => {})
+
+    clientEnd.fail()
+    expect(client.status).toBe('disconnected')
+    expect(agent.status).toBe('disconnected')
+
+    await new Promise((resolve) => setTimeout(resolve, 30))
+
+    expect(reconnecting).toHaveBeenCalledWith(1)
+    expect(connected).toHaveBeenCalledTimes(1)
+    expect(client.isConnected).toBe(true)
+  })
+
+  it('should fire onClose once when closed', async () => {
+    const [end] = createMemoryTransportPair()
+    const handlers = createHandlers()
+    end.open(handlers)
+    await flush()
+
+    end.close()
+    end.close()
+
+    expect(handlers.onOpen).toHaveBeenCalledTimes(1)
+    expect(handlers.onClose).toHaveBeenCalledTimes(1)
+    expect(() => end.send('{}')).toThrow('Memory channel not open')
+  })
+})
+
+describe('SSETransportAdapter', () => {
+  afterEach(() => {
+    FakeEventSource.instances = []
+  })
+
+  function createAdapter(fetchImpl = vi.fn().mockResolvedValue({ ok: true, status: 200 })): {
+    adapter: SSETransportAdapter
+    fetchImpl: ReturnType<typeof vi.fn>
+  } {
+    const adapter = new SSETransportAdapter({
+      url: 'https://agent.example.com/events',
+      sendUrl: 'https://agent.example.com/messages',
+      headers: { Authorization: 'Bearer token' },
+      EventSource: FakeEventSource as unknown as typeof EventSource,
+      fetch: fetchImpl as unknown as typeof fetch,
+    })
+    return { adapter, fetchImpl }
+  }
+
+  it('should receive messages from the event stream', () => {
+    const { adapter } = createAdapter()
+    const handlers = createHandlers()
+    adapter.open(handlers)
+
+    const source = FakeEventSource.instances[0]!
+    source.onopen?.()
+    source.emit('message', '{"type":"ping"}')
+
+    expect(adapter.isOpen).toBe(true)
+    expect(handlers.onOpen).toHaveBeenCalled()
+    expect(handlers.onMessage).toHaveBeenCalledWith('{"type":"ping"}')
+  })
+
+  it('should POST sent messages', () => {
+    const { adapter, fetchImpl } = createAdapter()
+    adapter.open(createHandlers())
+    FakeEventSource.instances[0]!.onopen?.()
+
+    adapter.send('{"type":"pong"}')
+
+    expect(fetchImpl).toHaveBeenCalledWith(
+      'https://agent.example.com/messages',
+      expect.objectContaining({
+        method: 'POST',
+        body: '{"type":"pong"}',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer token' },
+      })
+    )
+  })
+
+  it('should report failed POSTs as errors', async () => {
+    const { adapter } = createAdapter(vi.fn().mockResolvedValue({ ok: false, status: 503 }))
+    const handlers = createHandlers()
+    adapter.open(handlers)
+    FakeEventSource.instances[0]!.onopen?.()
+
+    adapter.send('{}')
+    await flush()
+
+    expect(handlers.onError).toHaveBeenCalledWith(new Error('POST failed with status 503'))
+  })
+
+  it('should ignore events from a replaced event stream', () => {
+    const { adapter } = createAdapter()
+    const handlers = createHandlers()
+    adapter.open(handlers)
+    const stale = FakeEventSource.instances[0]!
+    adapter.close()
+    adapter.open(handlers)
+
+    stale.onopen?.()
+    stale.emit('message', '{"type":"ping"}')
+
+    expect(adapter.isOpen).toBe(false)
+    expect(handlers.onOpen).not.toHaveBeenCalled()
+    expect(handlers.onMessage).not.toHaveBeenCalled()
+  })
+
+  it('should close on stream errors instead of retrying', () => {
+    const { adapter } = createAdapter()
+    const handlers = createHandlers()
+    adapter.open(handlers)
+    const source = FakeEventSource.instances[0]!
+    source.onopen?.()
+
+    source.onerror?.()
+
+    expect(source.closed).toBe(true)
+    expect(adapter.isOpen).toBe(false)
+    expect(handlers.onError).toHaveBeenCalledTimes(1)
+    expect(handlers.onClose).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('LongPollTransportAdapter', () => {
+  function jsonResponse(body: unknown): Response {
+    return { ok: true, status: 200, json: () => Promise.resolve(body) } as Response
+  }
+
+  it('should deliver polled messages and send the cursor back', async () => {
+    const urls: string[] = []
+    let adapter: LongPollTransportAdapter | null = null
+    const fetchImpl = vi.fn((url: string) => {
+      urls.push(url)
+      if (urls.length === 1) {
+        return Promise.resolve(jsonResponse({ messages: [{ type: 'ping' }], cursor: 'c1' }))
+      }
+      adapter?.close()
+      return Promise.resolve({ ok: true, status: 204 } as Response)
+    })
+
+    adapter = new LongPollTransportAdapter({
+      url: 'https://agent.example.com/poll',
+      fetch: fetchImpl as unknown as typeof fetch,
+    })
+    const handlers = createHandlers()
+    adapter.open(handlers)
+    await flush()
+
+    expect(handlers.onOpen).toHaveBeenCalled()
+    expect(handlers.onMessage).toHaveBeenCalledWith('{"type":"ping"}')
+    expect(urls[1]).toBe('https://agent.example.com/poll?cursor=c1')
+    expect(handlers.onClose).toHaveBeenCalledTimes(1)
+  })
+
+  it('should close with an error when a poll fails', async () => {
+    const adapter = new LongPollTransportAdapter({
+      url: 'https://agent.example.com/poll',
+      fetch: vi.fn().mockResolvedValue({ ok: false, status: 500 }) as unknown as typeof fetch,
+    })
+    const handlers = createHandlers()
+    adapter.open(handlers)
+    await flush()
+
+    expect(handlers.onError).toHaveBeenCalledWith(new Error('Poll failed with status 500'))
+    expect(handlers.onClose).toHaveBeenCalledTimes(1)
+    expect(adapter.isOpen).toBe(false)
+  })
+})
+
+describe('CollaborationHandler with an adapter', () => {
+  it('should connect, broadcast over and disconnect its own transport', async () => {
+    const [clientEnd, agentEnd] = createMemoryTransportPair()
+    const agentHandlers = createHandlers()
+    agentEnd.open(agentHandlers)
+
+    const handler = new CollaborationHandler(clientEnd)
+    await flush()
+
+    await handler.handlePresenceJoin({
+      type: 'presenceJoin',
+      componentId: 'presence-1',
+      roomId: 'room-1',
+      user: { id: 'user-1', name: 'John Doe' },
+    })
+    await flush()
+
+    expect(agentHandlers.onMessage).toHaveBeenCalledWith(
+      expect.stringContaining('"type":"presenceJoin"')
+    )
+
+    handler.destroy()
+    expect(clientEnd.isOpen).toBe(false)
+    expect(agentHandlers.onClose).toHaveBeenCalledTimes(1)
+  })
+})
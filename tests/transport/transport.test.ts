@@ -187,7 +187,7 @@ describe('A2UITransport', () => {
       })
 
       // Simulate incoming message
-      const ws = (transport as any).ws as MockWebSocket
+      const ws = (transport as any).adapter.socket as MockWebSocket
       ws.onmessage?.(
         new MessageEvent('message', {
           data: JSON.stringify({
@@ -214,7 +214,7 @@ describe('A2UITransport', () => {
         createSurfaceData = data
       })
 
-      const ws = (transport as any).ws as MockWebSocket
+      const ws = (transport as any).adapter.socket as MockWebSocket
       ws.onmessage?.(
         new MessageEvent('message', {
           data: JSON.stringify({
@@ -241,7 +241,7 @@ describe('A2UITransport', () => {
         errorEmitted = true
       })
 
-      const ws = (transport as any).ws as MockWebSocket
+      const ws = (transport as any).adapter.socket as MockWebSocket
       ws.onmessage?.(
         new MessageEvent('message', {
           data: 'invalid json',
@@ -256,7 +256,7 @@ describe('A2UITransport', () => {
     it('handles pong messages', async () => {
       await transport.connect()
 
-      const ws = (transport as any).ws as MockWebSocket
+      const ws = (transport as any).adapter.socket as MockWebSocket
       ws.onmessage?.(
         new MessageEvent('message', {
           data: JSON.stringify({ type: 'pong' }),
@@ -323,7 +323,7 @@ describe('A2UITransport', () => {
       await reconnectTransport.connect()
 
       // Simulate disconnect
-      const ws = (reconnectTransport as any).ws as MockWebSocket
+      const ws = (reconnectTransport as any).adapter.socket as MockWebSocket
       ws.onclose?.(new CloseEvent('close'))
 
       // Wait for reconnect attempt
@@ -346,7 +346,7 @@ describe('A2UITransport', () => {
 
       await noReconnectTransport.connect()
 
-      const ws = (noReconnectTransport as any).ws as MockWebSocket
+      const ws = (noReconnectTransport as any).adapter.socket as MockWebSocket
       ws.onclose?.(new CloseEvent('close'))
 
       await new Promise((resolve) => setTimeout(resolve, 100))
@@ -106,7 +106,7 @@ describe('A2UITransport - Video Message Handlers', () => {
           receivedMessage = msg
         })
 
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const message: RecordingStartedMessage = {
           type: 'recordingStarted',
           surfaceId: 'surface-1',
@@ -133,7 +133,7 @@ describe('A2UITransport - Video Message Handlers', () => {
           receivedMessage = msg
         })
 
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const message: RecordingCompleteMessage = {
           type: 'recordingComplete',
           surfaceId: 'surface-1',
@@ -188,7 +188,7 @@ describe('A2UITransport - Video Message Handlers', () => {
           receivedMessage = msg
         })
 
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const message: VideoCallJoinedMessage = {
           type: 'videoCallJoined',
           surfaceId: 'surface-1',
@@ -216,7 +216,7 @@ describe('A2UITransport - Video Message Handlers', () => {
           receivedMessage = msg
         })
 
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const message: VideoCallEndedMessage = {
           type: 'videoCallEnded',
           surfaceId: 'surface-1',
@@ -265,7 +265,7 @@ describe('A2UITransport - Video Message Handlers', () => {
           progressUpdates.push(msg.progress)
         })
 
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
 
         // Simulate multiple progress updates
         const updates = [25, 50, 75, 100]
@@ -296,7 +296,7 @@ describe('A2UITransport - Video Message Handlers', () => {
           receivedMessage = msg
         })
 
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const message: VideoGenerationCompleteMessage = {
           type: 'videoGenerationComplete',
           surfaceId: 'surface-1',
@@ -326,7 +326,7 @@ describe('A2UITransport - Video Message Handlers', () => {
           errorEmitted = true
         })
 
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         ws.onmessage?.(new MessageEvent('message', { data: 'invalid json {' }))
 
         await new Promise((resolve) => setTimeout(resolve, 10))
@@ -367,7 +367,7 @@ describe('A2UITransport - Video Message Handlers', () => {
           }
         })
 
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const message: RecordingStartedMessage = {
           type: 'recordingStarted',
           surfaceId: 'surface-1',
@@ -404,7 +404,7 @@ describe('A2UITransport - Video Message Handlers', () => {
           handler3Called = true
         })
 
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const message: RecordingCompleteMessage = {
           type: 'recordingComplete',
           surfaceId: 'surface-1',
@@ -437,7 +437,7 @@ describe('A2UITransport - Video Message Handlers', () => {
         transport.on<VideoCallJoinedMessage>('videoCallJoined', handler)
         transport.off<VideoCallJoinedMessage>('videoCallJoined', handler)
 
-        const ws = (transport as any).ws as MockWebSocket
+        const ws = (transport as any).adapter.socket as MockWebSocket
         const message: VideoCallJoinedMessage = {
           type: 'videoCallJoined',
           surfaceId: 'surface-1',
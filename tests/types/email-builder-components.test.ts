@@ -41,8 +41,8 @@ import {
   isValidEmail,
   replaceVariables,
   extractVariables,
-  templateToHtml,
 } from '../../src/types/email-builder-components.js'
+import { templateToHtml } from '../../src/integrations/email-renderer.js'
 
 describe('Email Builder Component Types', () => {
   describe('ComponentType Union', () => {
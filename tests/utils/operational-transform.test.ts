@@ -0,0 +1,313 @@
+/**
+ * Operational Transform Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  TextOperation,
+  OTDocument,
+  OTClient,
+  diffText,
+  mergeText,
+} from '../../src/utils/operational-transform.js'
+import type { EditorOperation } from '../../src/types/collaboration-messages.js'
+
+// Seeded PRNG so failures are reproducible
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function randomInt(random: () => number, max: number): number {
+  return Math.floor(random() * (max + 1))
+}
+
+function randomText(random: () => number): string {
+  const alphabet = 'abcxyz \n'
+  return Array.from(
+    { length: 1 + randomInt(random, 4) },
+    () => alphabet[randomInt(random, 7)]
+  ).join('')
+}
+
+// One to three random edits against a document of the given length
+function randomChanges(random: () => number, length: number): EditorOperation[] {
+  const changes: EditorOperation[] = []
+  for (let n = 1 + randomInt(random, 2); n > 0; n--) {
+    const position = randomInt(random, length)
+    const span = randomInt(random, Math.min(length - position, 4))
+    const kind = randomInt(random, 2)
+    if (kind === 0 || span === 0) {
+      const content = randomText(random)
+      changes.push({ type: 'insert', position, content })
+      length += content.length
+    } else if (kind === 1) {
+      changes.push({ type: 'delete', position, length: span })
+      length -= span
+    } else {
+      const content = randomText(random)
+      changes.push({ type: 'replace', position, length: span, content })
+      length += content.length - span
+    }
+  }
+  return changes
+}
+
+describe('TextOperation', () => {
+  describe('Building and Applying', () => {
+    it('should apply retains, inserts and deletes', () => {
+      const operation = new TextOperation().retain(6).delete(5).insert('there')
+
+      expect(operation.apply('Hello world')).toBe('Hello there')
+      expect(operation.baseLength).toBe(11)
+      expect(operation.targetLength).toBe(11)
+    })
+
+    it('should reject documents of the wrong length', () => {
+      expect(() => new TextOperation().retain(3).apply('ab')).toThrow(/length 3/)
+    })
+
+    it('should keep inserts ahead of deletes', () => {
+      const a = new TextOperation().delete(2).insert('x')
+      const b = new TextOperation().insert('x').delete(2)
+
+      expect(a.toJSON()).toEqual(b.toJSON())
+    })
+
+    it('should round-trip through JSON', () => {
+      const operation = new TextOperation().retain(2).insert('ab').delete(1).retain(3)
+
+      expect(operation.toJSON()).toEqual([2, 'ab', -1, 3])
+      expect(TextOperation.fromJSON(operation.toJSON()).apply('xyzabc')).toBe('xyababc')
+    })
+  })
+
+  describe('Editor Operations', () => {
+    it('should apply editor changes one after another', () => {
+      const operation = TextOperation.fromEditorOperations(
+        [
+          { type: 'insert', position: 0, content: 'Hello' },
+          { type: 'insert', position: 5, content: ' world' },
+          { type: 'replace', position: 0, length: 1, content: 'J' },
+        ],
+        0
+      )
+
+      expect(operation.apply('')).toBe('Jello world')
+    })
+
+    it('should convert back to editor changes, merging replacements', () => {
+      const operation = new TextOperation().retain(2).insert('XY').delete(3).retain(1).delete(1)
+
+      expect(operation.toEditorOperations()).toEqual([
+        { type: 'replace', position: 2, length: 3, content: 'XY' },
+        { type: 'delete', position: 5, length: 1 },
+      ])
+    })
+
+    it('should reject changes outside the document', () => {
+      expect(() =>
+        TextOperation.fromEditorOperations([{ type: 'delete', position: 2, length: 5 }], 4)
+      ).toThrow(/outside a document of length 4/)
+    })
+
+    it('should round-trip random changes through editor operations', () => {
+      const random = createRandom(7)
+      for (let run = 0; run < 200; run++) {
+        const doc = randomText(random) + randomText(random)
+        const operation = TextOperation.fromEditorOperations(
+          randomChanges(random, doc.length),
+          doc.length
+        )
+
+        const again = TextOperation.fromEditorOperations(operation.toEditorOperations(), doc.length)
+
+        expect(again.apply(doc)).toBe(operation.apply(doc))
+      }
+    })
+  })
+
+  describe('Compose', () => {
+    it('should equal applying both operations in turn', () => {
+      const random = createRandom(11)
+      for (let run = 0; run < 200; run++) {
+        const doc = randomText(random) + randomText(random)
+        const a = TextOperation.fromEditorOperations(randomChanges(random, doc.length), doc.length)
+        const afterA = a.apply(doc)
+        const b = TextOperation.fromEditorOperations(
+          randomChanges(random, afterA.length),
+          afterA.length
+        )
+
+        expect(a.compose(b).apply(doc)).toBe(b.apply(afterA))
+      }
+    })
+  })
+
+  describe('Transform', () => {
+    it('should put the first operation first on tied inserts', () => {
+      const a = new TextOperation().retain(1).insert('A').retain(1)
+      const b = new TextOperation().retain(1).insert('B').retain(1)
+
+      const [aPrime, bPrime] = TextOperation.transform(a, b)
+
+      expect(bPrime.apply(a.apply('xy'))).toBe('xABy')
+      expect(aPrime.apply(b.apply('xy'))).toBe('xABy')
+    })
+
+    it('should not delete the same text twice', () => {
+      const a = new TextOperation().retain(1).delete(3).retain(1)
+      const b = new TextOperation().retain(2).delete(3)
+
+      const [aPrime, bPrime] = TextOperation.transform(a, b)
+
+      expect(bPrime.apply(a.apply('abcde'))).toBe('a')
+      expect(aPrime.apply(b.apply('abcde'))).toBe('a')
+    })
+
+    it('should converge for random concurrent operations', () => {
+      const random = createRandom(42)
+      for (let run = 0; run < 500; run++) {
+        const doc = randomText(random) + randomText(random) + randomText(random)
+        const a = TextOperation.fromEditorOperations(randomChanges(random, doc.length), doc.length)
+        const b = TextOperation.fromEditorOperations(randomChanges(random, doc.length), doc.length)
+
+        const [aPrime, bPrime] = TextOperation.transform(a, b)
+
+        expect(bPrime.apply(a.apply(doc))).toBe(aPrime.apply(b.apply(doc)))
+      }
+    })
+  })
+})
+
+describe('mergeText', () => {
+  it('should keep both sides of non-overlapping edits', () => {
+    expect(mergeText('The quick fox', 'The quick brown fox', 'The quick fox jumps')).toBe(
+      'The quick brown fox jumps'
+    )
+  })
+
+  it('should diff to a single replacement', () => {
+    expect(diffText('abcdef', 'abXYef').toJSON()).toEqual([2, 'XY', -2, 2])
+  })
+})
+
+describe('OTDocument', () => {
+  it('should transform a change made against an older version', () => {
+    const doc = new OTDocument('Hello world', 3)
+    doc.applyEditorOperations([{ type: 'insert', position: 0, content: 'Oh, ' }], 3)
+
+    const change = doc.applyEditorOperations([{ type: 'insert', position: 11, content: '!' }], 3)
+
+    expect(doc.content).toBe('Oh, Hello world!')
+    expect(doc.version).toBe(5)
+    expect(change.baseVersion).toBe(4)
+    expect(change.operation.toEditorOperations()).toEqual([
+      { type: 'insert', position: 15, content: '!' },
+    ])
+  })
+
+  it('should reject versions outside its history', () => {
+    const doc = new OTDocument('abc', 5, { maxHistory: 1 })
+    doc.applyEditorOperations([{ type: 'delete', position: 0, length: 1 }], 5)
+    doc.applyEditorOperations([{ type: 'delete', position: 0, length: 1 }], 6)
+
+    expect(doc.oldestVersion).toBe(6)
+    expect(doc.canApply(5)).toBe(false)
+    expect(doc.canApply(8)).toBe(false)
+    expect(() => doc.applyEditorOperations([], 5)).toThrow(/known versions are 6 to 7/)
+  })
+})
+
+describe('OTClient', () => {
+  it('should buffer local edits while a change is in flight', () => {
+    const client = new OTClient('abc', 0)
+
+    const first = client.applyLocal([{ type: 'insert', position: 3, content: 'd' }])
+    const second = client.applyLocal([{ type: 'insert', position: 4, content: 'e' }])
+
+    expect(first).toEqual({ changes: [{ type: 'insert', position: 3, content: 'd' }], version: 0 })
+    expect(second).toBeNull()
+    expect(client.acknowledge()).toEqual({
+      changes: [{ type: 'insert', position: 4, content: 'e' }],
+      version: 1,
+    })
+    expect(client.acknowledge()).toBeNull()
+    expect(client.hasPendingChanges).toBe(false)
+  })
+
+  it('should transform remote changes against pending edits', () => {
+    const client = new OTClient('abc', 0)
+    client.applyLocal([{ type: 'insert', position: 0, content: 'X' }])
+
+    const applied = client.applyRemote([{ type: 'delete', position: 1, length: 1 }])
+
+    expect(applied).toEqual([{ type: 'delete', position: 2, length: 1 }])
+    expect(client.content).toBe('Xac')
+    expect(client.version).toBe(1)
+  })
+
+  it('should converge with the document under random interleavings', () => {
+    const random = createRandom(2024)
+
+    for (let run = 0; run < 50; run++) {
+      const server = new OTDocument('shared text', 0)
+      const clients = [0, 1, 2].map(() => new OTClient('shared text', 0))
+      // FIFO channels in each direction
+      const toServer: Array<Array<{ changes: EditorOperation[]; version: number }>> = [[], [], []]
+      const toClient: Array<Array<{ ack: true } | { changes: EditorOperation[] }>> = [[], [], []]
+
+      const deliverToServer = (index: number): void => {
+        const message = toServer[index]!.shift()!
+        const change = server.applyEditorOperations(message.changes, message.version)
+        const changes = change.operation.toEditorOperations()
+        toClient.forEach((queue, other) =>
+          queue.push(other === index ? { ack: true } : { changes })
+        )
+      }
+
+      const deliverToClient = (index: number): void => {
+        const message = toClient[index]!.shift()!
+        const client = clients[index]!
+        if ('ack' in message) {
+          const next = client.acknowledge()
+          if (next) toServer[index]!.push(next)
+        } else {
+          client.applyRemote(message.changes)
+        }
+      }
+
+      for (let step = 0; step < 60; step++) {
+        const index = randomInt(random, 2)
+        const action = randomInt(random, 2)
+        if (action === 0) {
+          const client = clients[index]!
+          const outgoing = client.applyLocal(randomChanges(random, client.content.length))
+          if (outgoing) toServer[index]!.push(outgoing)
+        } else if (action === 1 && toServer[index]!.length > 0) {
+          deliverToServer(index)
+        } else if (toClient[index]!.length > 0) {
+          deliverToClient(index)
+        }
+      }
+
+      // Drain every channel
+      while (toServer.some((queue) => queue.length) || toClient.some((queue) => queue.length)) {
+        for (let index = 0; index < 3; index++) {
+          if (toServer[index]!.length) deliverToServer(index)
+          if (toClient[index]!.length) deliverToClient(index)
+        }
+      }
+
+      for (const client of clients) {
+        expect(client.content).toBe(server.content)
+        expect(client.version).toBe(server.version)
+        expect(client.hasPendingChanges).toBe(false)
+      }
+    }
+  })
+})
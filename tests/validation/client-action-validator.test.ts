@@ -0,0 +1,142 @@
+/**
+ * Tests for ClientActionValidator
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ClientActionValidator } from '../../src/validation/client-action-validator'
+
+describe('ClientActionValidator', () => {
+  const validator = new ClientActionValidator()
+
+  const valid = {
+    type: 'clientAction',
+    surfaceId: 'main',
+    actionId: 'a1',
+    actionType: 'navigate',
+    action: { type: 'navigate', url: '/dashboard' },
+  }
+
+  describe('validateMessage', () => {
+    it('accepts a well-formed message', () => {
+      expect(validator.validateMessage(valid)).toEqual({ valid: true, errors: [] })
+    })
+
+    it('requires surfaceId and actionId', () => {
+      const result = validator.validateMessage({ ...valid, surfaceId: '', actionId: undefined })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors.map((e) => e.field)).toEqual(['surfaceId', 'actionId'])
+    })
+
+    it('rejects unknown action types', () => {
+      const result = validator.validateMessage({
+        ...valid,
+        actionType: 'formatDisk',
+        action: { type: 'formatDisk' },
+      })
+
+      expect(result.errors.map((e) => e.code)).toContain('UNKNOWN_ACTION')
+    })
+
+    it('rejects mismatched actionType', () => {
+      const result = validator.validateMessage({ ...valid, actionType: 'openUrl' })
+
+      expect(result.errors).toContainEqual(expect.objectContaining({ code: 'TYPE_MISMATCH' }))
+    })
+
+    it('prefixes action errors with the action field', () => {
+      const result = validator.validateMessage({ ...valid, action: { type: 'navigate' } })
+
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({ field: 'action.url', code: 'REQUIRED' })
+      )
+    })
+
+    it('rejects non-object messages', () => {
+      expect(validator.validateMessage(null).valid).toBe(false)
+    })
+  })
+
+  describe('validateAction', () => {
+    it.each([
+      { type: 'showToast' },
+      { type: 'copyToClipboard' },
+      { type: 'setLocalStorage', key: 'k' },
+      { type: 'showDialog', dialogType: 'popup', message: 'Hi' },
+      { type: 'vibrate', pattern: [100, -1] },
+      { type: 'goBack', steps: 0 },
+      { type: 'sendEmail', to: 'not-an-email' },
+      { type: 'makePhoneCall', phoneNumber: 'call me' },
+      { type: 'openMap' },
+      { type: 'shareContent' },
+      { type: 'requestPermission', permission: 'bluetooth' },
+    ])('rejects invalid $type', (action) => {
+      expect(validator.validateAction(action).valid).toBe(false)
+    })
+
+    it.each([
+      { type: 'showToast', message: 'Saved' },
+      { type: 'setLocalStorage', key: 'k', value: null },
+      { type: 'vibrate', pattern: [100, 50, 100] },
+      { type: 'sendEmail', to: 'a@example.com', cc: ['b@example.com'] },
+      { type: 'makePhoneCall', phoneNumber: '+1 (555) 123-4567' },
+      { type: 'openMap', latitude: 1, longitude: 2 },
+      { type: 'requestPermission', permission: 'camera' },
+      { type: 'refresh' },
+    ])('accepts valid $type', (action) => {
+      expect(validator.validateAction(action)).toEqual({ valid: true, errors: [] })
+    })
+  })
+
+  describe('URL safety', () => {
+    it.each([
+      'javascript:alert(1)',
+      'data:text/html,<script>',
+      'vbscript:x',
+      '//evil.com',
+      'java\nscript:alert(1)',
+      ' \tjavascript:alert(1)',
+      '\\\\evil.com/x',
+      '/\\evil.com',
+    ])(
+      'rejects %s for navigation',
+      (url) => {
+        const result = validator.validateAction({ type: 'navigate', url })
+        expect(result.errors).toContainEqual(expect.objectContaining({ code: 'UNSAFE_URL' }))
+      }
+    )
+
+    it('accepts http(s) and relative URLs', () => {
+      expect(validator.isSafeUrl('https://example.com')).toBe(true)
+      expect(validator.isSafeUrl('/settings')).toBe(true)
+    })
+
+    it('only accepts allowed origins when configured', () => {
+      const pinned = new ClientActionValidator({ allowedOrigins: ['https://example.com/app'] })
+
+      expect(pinned.isSafeUrl('https://example.com/settings')).toBe(true)
+      expect(pinned.isSafeUrl('https://evil.com')).toBe(false)
+      expect(pinned.isSafeUrl('/settings')).toBe(true)
+    })
+
+    it('accepts blob and data URLs for downloads only', () => {
+      expect(
+        validator.validateAction({ type: 'downloadFile', url: 'blob:https://app/123' }).valid
+      ).toBe(true)
+      expect(validator.validateAction({ type: 'openUrl', url: 'blob:https://app/123' }).valid).toBe(
+        false
+      )
+    })
+
+    it('honours custom schemes and relative URL settings', () => {
+      const strict = new ClientActionValidator({
+        allowedUrlSchemes: ['https', 'myapp:'],
+        allowRelativeUrls: false,
+      })
+
+      expect(strict.isSafeUrl('myapp://open')).toBe(true)
+      expect(strict.isSafeUrl('http://example.com')).toBe(false)
+      expect(strict.isSafeUrl('/settings')).toBe(false)
+    })
+  })
+})
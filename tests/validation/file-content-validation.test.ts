@@ -0,0 +1,416 @@
+/**
+ * File Content Validation Tests
+ * Magic bytes, media headers, archive limits and SVG scripts
+ */
+
+import { describe, it, expect } from 'vitest'
+import { validateFileContent } from '../../src/validation/file-upload-validator.js'
+import {
+  detectFileType,
+  findSvgThreats,
+  inspectFileContent,
+} from '../../src/validation/file-content-inspector.js'
+
+function bytes(...parts: Array<string | number[] | Uint8Array>): Uint8Array {
+  const chunks = parts.map((part) =>
+    typeof part === 'string' ? new TextEncoder().encode(part) : Uint8Array.from(part)
+  )
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
+
+function u16le(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff]
+}
+
+function u32le(value: number): number[] {
+  return [...u16le(value & 0xffff), ...u16le(value >>> 16)]
+}
+
+function u32be(value: number): number[] {
+  return u32le(value).reverse()
+}
+
+function png(width: number, height: number): Uint8Array {
+  return bytes(
+    [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    u32be(13),
+    'IHDR',
+    u32be(width),
+    u32be(height),
+    [8, 6, 0, 0, 0],
+    new Uint8Array(16)
+  )
+}
+
+function jpeg(width: number, height: number): Uint8Array {
+  const app0 = bytes([0xff, 0xe0, 0x00, 0x10], 'JFIF\0', new Uint8Array(9))
+  const sof0 = bytes([
+    0xff,
+    0xc0,
+    0x00,
+    0x11,
+    0x08,
+    height >> 8,
+    height & 0xff,
+    width >> 8,
+    width & 0xff,
+  ])
+  return bytes([0xff, 0xd8], app0, sof0, new Uint8Array(32))
+}
+
+function box(type: string, ...content: Uint8Array[]): Uint8Array {
+  const body = bytes(...content)
+  return bytes(u32be(8 + body.length), type, body)
+}
+
+function mp4(seconds: number): Uint8Array {
+  const mvhd = box(
+    'mvhd',
+    bytes([0, 0, 0, 0], u32be(0), u32be(0), u32be(1000), u32be(seconds * 1000))
+  )
+  return bytes(
+    box('ftyp', bytes('isom', u32be(512), 'isommp41')),
+    box('mdat', new Uint8Array(64)),
+    box('moov', mvhd)
+  )
+}
+
+function webm(seconds: number): Uint8Array {
+  const duration = new Uint8Array(8)
+  new DataView(duration.buffer).setFloat64(0, seconds * 1000)
+  const info = bytes([0x2a, 0xd7, 0xb1, 0x83, 0x0f, 0x42, 0x40], [0x44, 0x89, 0x88], duration)
+  return bytes(
+    [0x1a, 0x45, 0xdf, 0xa3, 0x87],
+    [0x42, 0x82, 0x84],
+    'webm',
+    [0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff],
+    [0x15, 0x49, 0xa9, 0x66, 0x80 | info.length],
+    info
+  )
+}
+
+interface ZipFixtureEntry {
+  name: string
+  data: Uint8Array
+  method?: number
+  uncompressedSize?: number
+  offset?: number
+}
+
+function zip(entries: ZipFixtureEntry[]): Uint8Array {
+  const locals: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = new TextEncoder().encode(entry.name)
+    const sizes = [
+      ...u32le(entry.data.length),
+      ...u32le(entry.uncompressedSize ?? entry.data.length),
+    ]
+    const method = u16le(entry.method ?? 0)
+    const local = bytes(
+      u32le(0x04034b50),
+      [20, 0, 0, 0],
+      method,
+      u32le(0),
+      u32le(0),
+      sizes,
+      u16le(name.length),
+      u16le(0),
+      name,
+      entry.data
+    )
+    central.push(
+      bytes(
+        u32le(0x02014b50),
+        [20, 0, 20, 0, 0, 0],
+        method,
+        u32le(0),
+        u32le(0),
+        sizes,
+        u16le(name.length),
+        u16le(0),
+        u16le(0),
+        u16le(0),
+        u16le(0),
+        u32le(0),
+        u32le(entry.offset ?? offset),
+        name
+      )
+    )
+    locals.push(local)
+    offset += local.length
+  }
+
+  const directory = bytes(...central)
+  return bytes(
+    ...locals,
+    directory,
+    u32le(0x06054b50),
+    u16le(0),
+    u16le(0),
+    u16le(entries.length),
+    u16le(entries.length),
+    u32le(directory.length),
+    u32le(offset),
+    u16le(0)
+  )
+}
+
+const svg = (body: string): Uint8Array =>
+  bytes(
+    `<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">${body}</svg>`
+  )
+
+describe('detectFileType', () => {
+  it.each([
+    ['image/png', png(1, 1)],
+    ['image/jpeg', jpeg(1, 1)],
+    ['image/gif', bytes('GIF89a', new Uint8Array(8))],
+    ['image/webp', bytes('RIFF', u32le(30), 'WEBPVP8X', new Uint8Array(18))],
+    ['image/svg+xml', svg('')],
+    ['application/pdf', bytes('%PDF-1.7\n')],
+    ['video/mp4', mp4(1)],
+    ['video/quicktime', box('ftyp', bytes('qt  ', u32be(0)))],
+    ['video/webm', webm(1)],
+    ['audio/mpeg', bytes('ID3', [4, 0, 0])],
+    ['audio/wav', bytes('RIFF', u32le(36), 'WAVEfmt ')],
+    ['application/zip', zip([])],
+    ['application/x-tar', bytes(new Uint8Array(257), 'ustar\0')],
+    ['application/x-msdownload', bytes('MZ', new Uint8Array(62))],
+  ])('should detect %s', (mimeType, content) => {
+    expect(detectFileType(content)?.mimeType).toBe(mimeType)
+  })
+
+  it('should not detect plain text', () => {
+    expect(detectFileType(bytes('name,email\nAda,ada@example.com\n'))).toBeUndefined()
+  })
+})
+
+describe('validateFileContent', () => {
+  it('should reject a renamed executable', async () => {
+    const result = await validateFileContent(
+      { name: 'photo.png', size: 64, type: 'image/png' },
+      bytes('MZ', new Uint8Array(62))
+    )
+
+    expect(result).toMatchObject({
+      valid: false,
+      errorCode: 'CONTENT_MISMATCH',
+      details: { declaredType: 'image/png', detectedType: 'application/x-msdownload' },
+    })
+  })
+
+  it('should compare the extension when the type is generic', async () => {
+    const exe = bytes('MZ', new Uint8Array(62))
+
+    await expect(
+      validateFileContent({ name: 'notes.txt', size: 64, type: 'application/octet-stream' }, exe)
+    ).resolves.toMatchObject({ errorCode: 'CONTENT_MISMATCH' })
+    await expect(
+      validateFileContent({ name: 'scan.pdf', size: 64, type: '' }, png(1, 1))
+    ).resolves.toMatchObject({ errorCode: 'CONTENT_MISMATCH' })
+  })
+
+  it('should reject known formats without their magic bytes', async () => {
+    const result = await validateFileContent(
+      { name: 'photo.jpg', size: 5, type: 'image/jpeg' },
+      bytes('hello')
+    )
+
+    expect(result.errorCode).toBe('CONTENT_MISMATCH')
+  })
+
+  it('should accept matching content, aliases and zip-based documents', async () => {
+    await expect(
+      validateFileContent({ name: 'photo.JPG', size: 64, type: 'image/jpg' }, jpeg(1, 1))
+    ).resolves.toEqual({ valid: true })
+    await expect(
+      validateFileContent(
+        {
+          name: 'report.docx',
+          size: 64,
+          type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        },
+        zip([{ name: 'word/document.xml', data: bytes('<w:document/>') }])
+      )
+    ).resolves.toEqual({ valid: true })
+    await expect(
+      validateFileContent(
+        { name: 'people.csv', size: 30, type: 'text/csv' },
+        bytes('name,email\nAda,ada@example.com\n')
+      )
+    ).resolves.toEqual({ valid: true })
+  })
+
+  it('should reject binary data declared as text', async () => {
+    const result = await validateFileContent(
+      { name: 'data.json', size: 4, type: 'application/json' },
+      bytes([0x7b, 0x00, 0x01, 0x7d])
+    )
+
+    expect(result.errorCode).toBe('CONTENT_MISMATCH')
+  })
+
+  it('should read image dimensions from PNG and JPEG headers', async () => {
+    const limits = { maxImageWidth: 4000, maxImageHeight: 4000 }
+
+    await expect(
+      validateFileContent({ name: 'a.png', size: 57, type: 'image/png' }, png(4000, 3000), limits)
+    ).resolves.toEqual({ valid: true })
+    await expect(
+      validateFileContent({ name: 'b.jpg', size: 70, type: 'image/jpeg' }, jpeg(6000, 4000), limits)
+    ).resolves.toMatchObject({
+      errorCode: 'IMAGE_DIMENSIONS',
+      details: { width: 6000, height: 4000 },
+    })
+    await expect(
+      validateFileContent({ name: 'c.png', size: 57, type: 'image/png' }, png(20000, 20000), {
+        maxImagePixels: 100_000_000,
+      })
+    ).resolves.toMatchObject({ errorCode: 'IMAGE_DIMENSIONS' })
+  })
+
+  it('should read video durations from MP4 and WebM headers', async () => {
+    const limits = { maxVideoDuration: 60 }
+
+    await expect(
+      validateFileContent({ name: 'a.mp4', size: 200, type: 'video/mp4' }, mp4(30), limits)
+    ).resolves.toEqual({ valid: true })
+    await expect(
+      validateFileContent({ name: 'b.mp4', size: 200, type: 'video/mp4' }, mp4(90), limits)
+    ).resolves.toMatchObject({ errorCode: 'VIDEO_DURATION', details: { duration: 90 } })
+    await expect(
+      inspectFileContent(new Blob([webm(120)]), { duration: true })
+    ).resolves.toMatchObject({ duration: 120 })
+  })
+
+  it('should reject archives that expand too much', async () => {
+    const bomb = zip([
+      { name: 'zeros.bin', data: new Uint8Array(100), method: 8, uncompressedSize: 500_000 },
+    ])
+
+    const result = await validateFileContent(
+      { name: 'bomb.zip', size: bomb.length, type: 'application/zip' },
+      new Blob([bomb])
+    )
+
+    expect(result.errorCode).toBe('ARCHIVE_LIMIT')
+    expect(result.error).toMatch(/^Archive compression ratio \d+ exceeds maximum 100$/)
+  })
+
+  it('should reject overlapping entries and deep nesting', async () => {
+    const overlapping = zip([
+      { name: 'a.txt', data: bytes('aaaa') },
+      { name: 'b.txt', data: bytes('bbbb'), offset: 0 },
+    ])
+    const innermost = zip([{ name: 'readme.txt', data: bytes('hi') }])
+    const nested = zip([
+      { name: 'level2.zip', data: zip([{ name: 'level3.zip', data: innermost }]) },
+    ])
+    const file = { name: 'archive.zip', size: 0, type: 'application/zip' }
+
+    await expect(validateFileContent(file, overlapping)).resolves.toMatchObject({
+      error: 'Archive has overlapping entries',
+    })
+    await expect(inspectFileContent(nested, { archive: true })).resolves.toMatchObject({
+      archive: { entries: 3, depth: 3 },
+    })
+    await expect(validateFileContent(file, nested)).resolves.toMatchObject({
+      error: 'Archives are nested 3 levels deep (maximum 2)',
+    })
+    await expect(validateFileContent(file, nested, { maxArchiveDepth: 3 })).resolves.toEqual({
+      valid: true,
+    })
+  })
+
+  it('should check the uncompressed size of gzip files', async () => {
+    const gzip = bytes(
+      [0x1f, 0x8b, 0x08, 0, 0, 0, 0, 0, 0, 3],
+      new Uint8Array(20),
+      u32le(0),
+      u32le(2 ** 31)
+    )
+
+    const result = await validateFileContent(
+      { name: 'logs.gz', size: gzip.length, type: 'application/gzip' },
+      gzip,
+      { maxCompressionRatio: Infinity, maxUncompressedSize: 2 ** 30 }
+    )
+
+    expect(result).toMatchObject({
+      errorCode: 'ARCHIVE_LIMIT',
+      error: 'Archive expands to 2 GB (maximum 1 GB)',
+    })
+  })
+
+  it('should reject SVGs with scripts unless allowed', async () => {
+    const file = { name: 'logo.svg', size: 0, type: 'image/svg+xml' }
+
+    await expect(validateFileContent(file, svg('<circle r="4"/>'))).resolves.toEqual({
+      valid: true,
+    })
+    await expect(
+      validateFileContent(file, svg('<script>alert(1)</script><a href="javascript:go()"/>'))
+    ).resolves.toMatchObject({
+      errorCode: 'UNSAFE_CONTENT',
+      details: { threats: ['script element', 'javascript: URL'] },
+    })
+    await expect(
+      validateFileContent(file, svg('<rect onload="steal()"/>'), { allowSvgScripts: true })
+    ).resolves.toEqual({ valid: true })
+  })
+
+  it('should find scripts behind namespace prefixes and character references', async () => {
+    const file = { name: 'logo.svg', size: 0, type: 'image/svg+xml' }
+    const text = (markup: string): Uint8Array => new TextEncoder().encode(markup)
+
+    await expect(
+      validateFileContent(
+        file,
+        text('<svg xmlns:s="http://www.w3.org/2000/svg"><s:script>alert(1)</s:script></svg>')
+      )
+    ).resolves.toMatchObject({
+      errorCode: 'UNSAFE_CONTENT',
+      details: { threats: ['script element'] },
+    })
+    await expect(
+      validateFileContent(file, svg('<a xlink:href="&#106;avascript:alert(1)"/>'))
+    ).resolves.toMatchObject({ details: { threats: ['javascript: URL'] } })
+  })
+
+  it('should scan SVGs that detection cannot see', async () => {
+    const file = { name: 'logo.svg', size: 0, type: 'image/svg+xml' }
+    const script = '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>'
+    const longComment = `<!--${'x'.repeat(5000)}-->${script}`
+    const internalSubset = `<!DOCTYPE svg [<!ELEMENT svg ANY>]>${script}`
+
+    for (const markup of [longComment, internalSubset]) {
+      await expect(
+        validateFileContent(file, new TextEncoder().encode(markup), { verifyType: false })
+      ).resolves.toMatchObject({ errorCode: 'UNSAFE_CONTENT' })
+    }
+  })
+})
+
+describe('findSvgThreats', () => {
+  it('should report event handlers, foreign content and entities', () => {
+    expect(
+      findSvgThreats(
+        '<!DOCTYPE svg [<!ENTITY x "y">]><svg onload="x()"><foreignObject><iframe/></foreignObject></svg>'
+      )
+    ).toEqual([
+      'event handler attribute',
+      'foreignObject element',
+      'embedded document',
+      'entity declaration',
+    ])
+  })
+})
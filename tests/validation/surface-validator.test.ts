@@ -0,0 +1,261 @@
+/**
+ * Surface Validator Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { SurfaceValidator } from '../../src/validation/surface-validator.js'
+import { ComponentRegistry } from '../../src/registry/registry.js'
+import type { A2UIComponent } from '../../src/types/components.js'
+import type { CreateSurfaceMessage } from '../../src/types/protocol.js'
+
+function surface(components: A2UIComponent[]): CreateSurfaceMessage {
+  return { type: 'createSurface', surfaceId: 'main', components }
+}
+
+const form: A2UIComponent[] = [
+  { id: 'root', type: 'column', children: ['title', 'card'] },
+  { id: 'title', type: 'text', properties: { value: 'Sign up' } },
+  { id: 'card', type: 'card', children: ['email', 'submit'] },
+  { id: 'email', type: 'textField', properties: { label: 'Email', type: 'email' } },
+  { id: 'submit', type: 'button', properties: { label: 'Send' }, children: ['submitIcon'] },
+  { id: 'submitIcon', type: 'icon', properties: { name: 'send' } },
+]
+
+describe('SurfaceValidator', () => {
+  const validator = new SurfaceValidator()
+
+  it('should accept a well-formed surface', () => {
+    expect(validator.validate(surface(form))).toEqual({ valid: true, errors: [] })
+  })
+
+  it('should reject malformed messages', () => {
+    const result = validator.validate({ type: 'updateComponents', surfaceId: '', components: {} })
+
+    expect(result.errors.map((error) => [error.code, error.path])).toEqual([
+      ['INVALID_MESSAGE', '/type'],
+      ['INVALID_MESSAGE', '/surfaceId'],
+      ['INVALID_MESSAGE', '/components'],
+    ])
+  })
+
+  it('should report unknown types against the registry', () => {
+    const registry = new ComponentRegistry()
+    registry.register('column', { type: 'column' })
+
+    const result = new SurfaceValidator({ registry }).validate(
+      surface([
+        { id: 'root', type: 'column', children: ['chart'] },
+        { id: 'chart', type: 'chart' },
+      ])
+    )
+
+    expect(result.errors).toEqual([
+      {
+        code: 'UNKNOWN_TYPE',
+        path: '/components/1/type',
+        message: 'Unknown component type "chart"',
+        componentId: 'chart',
+      },
+    ])
+  })
+
+  it('should report duplicate ids and dangling children', () => {
+    const result = validator.validate(
+      surface([
+        { id: 'root', type: 'row', children: ['a', 'ghost'] },
+        { id: 'a', type: 'divider' },
+        { id: 'a', type: 'divider' },
+      ])
+    )
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ code: 'DUPLICATE_ID', path: '/components/2/id', componentId: 'a' }),
+      expect.objectContaining({
+        code: 'MISSING_CHILD',
+        path: '/components/0/children/1',
+        message: 'Child "ghost" does not match any component id',
+      }),
+    ])
+  })
+
+  it('should report cycles and components with two parents', () => {
+    const result = validator.validate(
+      surface([
+        { id: 'root', type: 'column', children: ['left', 'right'] },
+        { id: 'left', type: 'card', children: ['shared'] },
+        { id: 'right', type: 'card', children: ['shared'] },
+        { id: 'shared', type: 'row', children: ['inner'] },
+        { id: 'inner', type: 'column', children: ['shared'] },
+      ])
+    )
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ code: 'MULTIPLE_PARENTS', path: '/components/2/children/0' }),
+      expect.objectContaining({ code: 'MULTIPLE_PARENTS', path: '/components/4/children/0' }),
+      expect.objectContaining({
+        code: 'CYCLE',
+        path: '/components/4/children/0',
+        message: 'Cycle in component tree: shared → inner → shared',
+      }),
+    ])
+  })
+
+  it('should report a surface with no root', () => {
+    const result = validator.validate(
+      surface([
+        { id: 'a', type: 'column', children: ['b'] },
+        { id: 'b', type: 'column', children: ['a'] },
+      ])
+    )
+
+    expect(result.errors.map((error) => error.code)).toEqual(['CYCLE', 'NO_ROOT'])
+  })
+
+  it('should report every component besides the root that has no parent', () => {
+    const result = validator.validate(
+      surface([
+        { id: 'orphan', type: 'text', properties: { value: 'Lost' } },
+        { id: 'root', type: 'column' },
+      ])
+    )
+
+    expect(result.errors).toEqual([
+      {
+        code: 'MULTIPLE_ROOTS',
+        path: '/components/0',
+        message: 'Component "orphan" is not reachable from the root "root"',
+        componentId: 'orphan',
+      },
+    ])
+  })
+
+  it('should report illegal child types', () => {
+    const result = validator.validate(
+      surface([
+        { id: 'root', type: 'column', children: ['icon', 'button'] },
+        { id: 'icon', type: 'icon', properties: { name: 'star' }, children: ['input'] },
+        { id: 'input', type: 'textField' },
+        { id: 'button', type: 'button', properties: { label: 'Go' }, children: ['image'] },
+        { id: 'image', type: 'image', properties: { src: '/go.png' } },
+      ])
+    )
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: 'ILLEGAL_CHILD',
+        path: '/components/1/children/0',
+        message: '"icon" components cannot have children',
+      }),
+      expect.objectContaining({
+        code: 'ILLEGAL_CHILD',
+        path: '/components/3/children/0',
+        message: '"image" is not allowed inside "button"',
+      }),
+    ])
+  })
+
+  it('should accept custom child rules', () => {
+    const strict = new SurfaceValidator({ childRules: { card: { forbidden: ['modal'] } } })
+
+    const result = strict.validate(
+      surface([
+        { id: 'root', type: 'card', children: ['dialog'] },
+        { id: 'dialog', type: 'modal', properties: { open: false } },
+      ])
+    )
+
+    expect(result.errors.map((error) => error.code)).toEqual(['ILLEGAL_CHILD'])
+  })
+
+  it('should check properties of standard components', () => {
+    const result = validator.validate(
+      surface([
+        {
+          id: 'root',
+          type: 'column',
+          properties: { align: 'middle' },
+          children: ['tabs', 'slider'],
+        },
+        {
+          id: 'tabs',
+          type: 'tabs',
+          properties: { tabs: [{ id: 'a', label: 'A' }, { label: 'B' }] },
+        },
+        { id: 'slider', type: 'slider', properties: { value: '10', step: -1 } },
+      ])
+    )
+
+    expect(result.errors.map((error) => [error.path, error.message])).toEqual([
+      ['/components/0/properties/align', 'Expected one of: "start", "center", "end", "stretch"'],
+      ['/components/1/properties/tabs/1/id', 'Required property "id" is missing'],
+      ['/components/2/properties/step', 'Expected a value >= 0'],
+      ['/components/2/properties/value', 'Expected number, received string'],
+    ])
+    expect(result.errors.every((error) => error.code === 'INVALID_PROPERTY')).toBe(true)
+  })
+
+  it('should leave bound and translated values to render time', () => {
+    const result = validator.validate(
+      surface([
+        { id: 'root', type: 'column', children: ['slider', 'label'] },
+        { id: 'slider', type: 'slider', properties: { value: { $bind: '/volume' } } },
+        { id: 'label', type: 'text', properties: { value: { $t: 'settings.volume' } } },
+      ])
+    )
+
+    expect(result.valid).toBe(true)
+  })
+
+  it('should let registry defaults satisfy required properties', () => {
+    const result = validator.validate(
+      surface([
+        { id: 'root', type: 'column', children: ['label', 'video'] },
+        { id: 'label', type: 'text' },
+        { id: 'video', type: 'videoCall', properties: { roomId: 'room-1', extra: true } },
+      ])
+    )
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: 'INVALID_PROPERTY',
+        path: '/components/2/properties/extra',
+        componentId: 'video',
+      }),
+    ])
+  })
+
+  it('should check registry schemas of custom components', () => {
+    const registry = ComponentRegistry.standard()
+    registry.register('rating', {
+      type: 'rating',
+      schema: {
+        type: 'object',
+        properties: { 'max/stars': { type: 'integer', minimum: 1 } },
+        required: ['max/stars'],
+      },
+    })
+
+    const result = new SurfaceValidator({ registry }).validate(
+      surface([{ id: 'root', type: 'rating', properties: { 'max/stars': 2.5 } }])
+    )
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        path: '/components/0/properties/max~1stars',
+        message: 'Expected integer, received number',
+      }),
+    ])
+  })
+
+  it('should validate component lists on their own', () => {
+    const result = validator.validateComponents([{ id: 'root', type: 'row', children: [1] }])
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: 'INVALID_COMPONENT',
+        path: '/0/children/0',
+        message: 'Expected a component id, received number',
+      }),
+    ])
+  })
+})
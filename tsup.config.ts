@@ -7,6 +7,9 @@ export default defineConfig({
     'json-pointer/index': 'src/json-pointer/index.ts',
     'transport/index': 'src/transport/index.ts',
     'registry/index': 'src/registry/index.ts',
+    'surface/index': 'src/surface/index.ts',
+    'binding/index': 'src/binding/index.ts',
+    'parser/index': 'src/parser/index.ts',
   },
   format: ['esm', 'cjs'],
   dts: true,